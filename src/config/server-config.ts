@@ -54,6 +54,18 @@ const ServerConfigSchema = z.object({
     .url()
     .default('https://www.ebi.ac.uk/interpro/api')
     .describe('Base URL for the InterPro REST API.'),
+  siftsBaseUrl: z
+    .string()
+    .url()
+    .default('https://www.ebi.ac.uk/pdbe/api')
+    .describe('Base URL for the PDBe API serving SIFTS residue-level UniProt mappings.'),
+  pdbeFilesBaseUrl: z
+    .string()
+    .url()
+    .default('https://www.ebi.ac.uk/pdbe/entry-files/download')
+    .describe(
+      'Base URL for PDBe coordinate-file downloads — the fallback when RCSB files are down.',
+    ),
   asyncPollTimeoutMs: z.coerce
     .number()
     .int()
@@ -68,7 +80,9 @@ const ServerConfigSchema = z.object({
     .min(1)
     .max(100)
     .default(25)
-    .describe('Cap on the number of IDs accepted by protein_get_structure in one batch.'),
+    .describe(
+      'Cap on the number of IDs accepted by protein_get_structure or protein_get_annotations in one batch.',
+    ),
   maxCompareStructures: z.coerce
     .number()
     .int()
@@ -92,10 +106,117 @@ const ServerConfigSchema = z.object({
     .max(16)
     .default(5)
     .describe('Max concurrent upstream requests for per-ID / per-pair fan-out.'),
+  rateLimitEnabled: z
+    .union([z.boolean(), z.stringbool()])
+    .default(true)
+    .describe('Pace upstream requests per host across all concurrent tool calls.'),
+  rateLimitDefaultRps: z.coerce
+    .number()
+    .positive()
+    .default(10)
+    .describe('Requests per second allowed to an upstream host with no entry in rateLimits.'),
+  rateLimits: z
+    .string()
+    .default('rest.uniprot.org=5,search.foldseek.com=1,alignment.rcsb.org=2')
+    .transform((spec, ctx) => {
+      try {
+        return parseHostRates(spec);
+      } catch (err) {
+        ctx.addIssue({ code: 'custom', message: (err as Error).message });
+        return z.NEVER;
+      }
+    })
+    .describe(
+      'Per-host request rates as comma-separated host=requests_per_second pairs, for providers that publish rate guidance.',
+    ),
+  circuitBreakerEnabled: z
+    .union([z.boolean(), z.stringbool()])
+    .default(true)
+    .describe('Fail fast on an upstream provider after repeated failures instead of retrying it.'),
+  circuitFailureThreshold: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(3)
+    .describe('Consecutive failed calls (each after its retries) that open a provider circuit.'),
+  circuitCooldownMs: z.coerce
+    .number()
+    .int()
+    .min(1000)
+    .default(30_000)
+    .describe('How long an open circuit fails fast before letting one probe call through.'),
+  cacheEnabled: z
+    .union([z.boolean(), z.stringbool()])
+    .default(true)
+    .describe(
+      'Serve repeat upstream reads from the persistent response cache (framework storage provider).',
+    ),
+  cachePurgeOnStart: z
+    .union([z.boolean(), z.stringbool()])
+    .default(false)
+    .describe('Drop every cached upstream response at startup.'),
+  cacheEntryTtlSeconds: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(604_800)
+    .describe(
+      'Cache TTL for released-entry data: RCSB entry records, chemical components, coordinate files.',
+    ),
+  cachePredictionTtlSeconds: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(86_400)
+    .describe('Cache TTL for AlphaFold DB prediction metadata.'),
+  cacheAnnotationTtlSeconds: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(86_400)
+    .describe('Cache TTL for UniProt entries and InterPro memberships.'),
+  cacheSearchTtlSeconds: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(600)
+    .describe('Cache TTL for RCSB Search API result sets, which shift with each weekly release.'),
+  upstreamMode: z
+    .enum(['live', 'record', 'replay'])
+    .default('live')
+    .describe(
+      'How upstream requests are served: live from the network, record (network, saving each exchange as a fixture), or replay (fixtures only, no network).',
+    ),
+  fixtureDir: z
+    .string()
+    .min(1)
+    .default('fixtures/upstream')
+    .describe('Directory holding recorded upstream fixtures for record/replay mode.'),
 });
 
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 
+/**
+ * Parse a `host=rps` list (`rest.uniprot.org=5,search.foldseek.com=1`) into a
+ * lower-cased host → rate map. Throws on a malformed entry, so a typo fails
+ * validation instead of silently un-limiting a host.
+ */
+function parseHostRates(spec: string): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const entry of spec.split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const match = /^([^=\s]+)\s*=\s*(\d+(?:\.\d+)?)$/.exec(trimmed);
+    const rps = Number(match?.[2]);
+    if (!match?.[1] || !(rps > 0)) {
+      throw new Error(`Invalid rate-limit entry "${trimmed}" — expected host=requests_per_second.`);
+    }
+    rates[match[1].toLowerCase()] = rps;
+  }
+  return rates;
+}
+
 let _config: ServerConfig | undefined;
 
 export function getServerConfig(): ServerConfig {
@@ -109,11 +230,27 @@ export function getServerConfig(): ServerConfig {
     foldseekBaseUrl: 'FOLDSEEK_BASE_URL',
     uniprotBaseUrl: 'UNIPROT_BASE_URL',
     interproBaseUrl: 'INTERPRO_BASE_URL',
+    siftsBaseUrl: 'SIFTS_BASE_URL',
+    pdbeFilesBaseUrl: 'PDBE_FILES_BASE_URL',
     asyncPollTimeoutMs: 'PROTEIN_ASYNC_POLL_TIMEOUT_MS',
     maxBatchIds: 'PROTEIN_MAX_BATCH_IDS',
     maxCompareStructures: 'PROTEIN_MAX_COMPARE_STRUCTURES',
     facetBucketCap: 'PROTEIN_FACET_BUCKET_CAP',
     fanoutConcurrency: 'PROTEIN_FANOUT_CONCURRENCY',
+    rateLimitEnabled: 'PROTEIN_RATE_LIMIT_ENABLED',
+    rateLimitDefaultRps: 'PROTEIN_RATE_LIMIT_DEFAULT_RPS',
+    rateLimits: 'PROTEIN_RATE_LIMITS',
+    circuitBreakerEnabled: 'PROTEIN_CIRCUIT_BREAKER_ENABLED',
+    circuitFailureThreshold: 'PROTEIN_CIRCUIT_FAILURE_THRESHOLD',
+    circuitCooldownMs: 'PROTEIN_CIRCUIT_COOLDOWN_MS',
+    cacheEnabled: 'PROTEIN_CACHE_ENABLED',
+    cachePurgeOnStart: 'PROTEIN_CACHE_PURGE_ON_START',
+    cacheEntryTtlSeconds: 'PROTEIN_CACHE_ENTRY_TTL_SECONDS',
+    cachePredictionTtlSeconds: 'PROTEIN_CACHE_PREDICTION_TTL_SECONDS',
+    cacheAnnotationTtlSeconds: 'PROTEIN_CACHE_ANNOTATION_TTL_SECONDS',
+    cacheSearchTtlSeconds: 'PROTEIN_CACHE_SEARCH_TTL_SECONDS',
+    upstreamMode: 'PROTEIN_UPSTREAM_MODE',
+    fixtureDir: 'PROTEIN_FIXTURE_DIR',
   });
   return _config;
 }
@@ -2,20 +2,40 @@
 /**
  * @fileoverview protein-mcp-server MCP server entry point. Federates experimental
  * (PDB) and predicted (AlphaFold / 3D-Beacons) protein structures behind one tool
- * surface; initializes the six upstream services in setup().
+ * surface; initializes the response cache, the record/replay fixture store, the
+ * per-host rate limiter, the per-provider circuit breaker, and the upstream
+ * services in setup().
  * @module index
  */
 
 import { createApp } from '@cyanheads/mcp-ts-core';
 import { getServerConfig } from './config/server-config.js';
-import { afSummaryResource, pdbSummaryResource } from './mcp-server/resources/definitions/index.js';
+import {
+  assessAlphafoldModel,
+  characterizeProtein,
+  compareMutantToWildType,
+  findDrugBindingHomolog,
+} from './mcp-server/prompts/definitions/index.js';
+import {
+  afConfidenceResource,
+  afSummaryResource,
+  ligandSummaryResource,
+  pdbSummaryResource,
+  uniprotSummaryResource,
+} from './mcp-server/resources/definitions/index.js';
 import {
   analyzeCollection,
+  analyzeInterface,
+  analyzeStructure,
   compareStructures,
   findSimilar,
   getAnnotations,
+  getConfidence,
+  getCoverage,
   getStructure,
+  mapFeatures,
   searchStructures,
+  serverStatus,
   trackLigands,
 } from './mcp-server/tools/definitions/index.js';
 import { initAlignmentService } from './services/alignment/alignment-service.js';
@@ -23,6 +43,11 @@ import { initAlphaFoldService } from './services/alphafold/alphafold-service.js'
 import { initBeaconsService } from './services/beacons/beacons-service.js';
 import { initFoldseekService } from './services/foldseek/foldseek-service.js';
 import { initRcsbService } from './services/rcsb/rcsb-service.js';
+import { initResponseCache, purgeResponseCache } from './services/shared/cache.js';
+import { initCircuitBreaker } from './services/shared/circuit-breaker.js';
+import { initFixtureStore } from './services/shared/fixtures.js';
+import { initRateLimiter } from './services/shared/rate-limit.js';
+import { initSiftsService } from './services/sifts/sifts-service.js';
 import { initUniProtService } from './services/uniprot/uniprot-service.js';
 
 await createApp({
@@ -36,19 +61,50 @@ await createApp({
     compareStructures,
     analyzeCollection,
     getAnnotations,
+    getConfidence,
+    analyzeStructure,
+    analyzeInterface,
+    mapFeatures,
+    getCoverage,
+    serverStatus,
+  ],
+  resources: [
+    pdbSummaryResource,
+    afSummaryResource,
+    afConfidenceResource,
+    ligandSummaryResource,
+    uniprotSummaryResource,
+  ],
+  prompts: [
+    characterizeProtein,
+    findDrugBindingHomolog,
+    assessAlphafoldModel,
+    compareMutantToWildType,
   ],
-  resources: [pdbSummaryResource, afSummaryResource],
-  prompts: [],
   // Public, keyless data server — serve the full inventory to unauthenticated callers.
   landing: { requireAuth: false },
   instructions:
-    'protein-mcp-server federates experimental (PDB) and predicted (AlphaFold) protein structures: search structures by text, sequence, or organism/method/resolution (protein_search_structures); fetch metadata and coordinate URLs for PDB IDs or UniProt accessions (protein_get_structure); find sequence or fold homologs via mmseqs2 or Foldseek (protein_find_similar); resolve ligands and map binding-site residues (protein_track_ligands); align 2–10 structures with TM-align or jFATCAT (protein_compare_structures); profile the PDB with server-side facet distributions and trends (protein_analyze_collection); and pull UniProt features plus InterPro domains and GO terms (protein_get_annotations).',
-  setup(core) {
+    'protein-mcp-server federates experimental (PDB) and predicted (AlphaFold) protein structures: search structures by text, sequence, or organism/method/resolution (protein_search_structures); fetch metadata and coordinate URLs for PDB IDs or UniProt accessions, including the biological assemblies of each entry (protein_get_structure); find sequence or fold homologs via mmseqs2 or Foldseek (protein_find_similar); resolve ligands by name or by SMILES/InChI similarity and map binding-site residues with typed interactions (hydrogen bonds, salt bridges, stacking), or survey which residues contact ligands across all structures of a protein (protein_track_ligands); align 2–10 structures with TM-align or jFATCAT (protein_compare_structures); profile the PDB with server-side facet distributions and trends (protein_analyze_collection); pull UniProt features plus InterPro domains and GO terms, for one protein or a whole gene list as a compact table (protein_get_annotations); read per-residue pLDDT, confident segments, PAE, and PAE-derived rigid domains for AlphaFold models (protein_get_confidence) — pass a domain range as residues to compare or search one domain; and compute DSSP secondary structure, per-residue solvent accessibility, and interface burial from the coordinates of any entry or model (protein_analyze_structure); list the residues, area, and hydrogen bonds, salt bridges, and disulfides at the interface between two chains, each chain mapped to UniProt (protein_analyze_interface) — set assembly_id on these tools to read a biological assembly instead of the asymmetric unit; and project UniProt features and variants onto structure residues through the SIFTS alignment, optionally narrowed to an atom selection such as a ligand pocket (protein_map_features); and map which residue ranges of a UniProt sequence are covered by which PDB entries and predicted models, with the best template per region and explicit gaps (protein_get_coverage). When an upstream is failing, protein_server_status shows which providers are unavailable so you can route around them. Prompts characterize_protein, find_drug_binding_homolog, assess_alphafold_model, and compare_mutant_to_wild_type chain these tools into common workflows.',
+  async setup(core) {
     const serverConfig = getServerConfig();
+    if (serverConfig.cachePurgeOnStart) {
+      const purged = await purgeResponseCache(core.storage);
+      core.logger.info(`Purged ${purged} cached upstream responses`);
+    }
+    initResponseCache(core.storage, serverConfig);
+    await initFixtureStore(serverConfig);
+    if (serverConfig.upstreamMode !== 'live') {
+      core.logger.info(
+        `Upstream ${serverConfig.upstreamMode} mode — fixtures in ${serverConfig.fixtureDir}`,
+      );
+    }
+    initRateLimiter(serverConfig);
+    initCircuitBreaker(serverConfig);
     initRcsbService(core.config, core.storage, serverConfig);
     initAlphaFoldService(core.config, core.storage, serverConfig);
     initBeaconsService(core.config, core.storage, serverConfig);
     initUniProtService(core.config, core.storage, serverConfig);
+    initSiftsService(core.config, core.storage, serverConfig);
     initAlignmentService(core.config, core.storage, serverConfig);
     initFoldseekService(core.config, core.storage, serverConfig);
   },
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview assess_alphafold_model — decide how far to trust an AlphaFold
+ * model before using it: per-residue and per-domain confidence, whether the
+ * low-pLDDT regions are disorder or just unplaced, how much experimental
+ * structure exists to check it against, and how well it superposes on the best
+ * experimental template.
+ * @module mcp-server/prompts/definitions/assess-alphafold-model.prompt
+ */
+
+import { prompt, z } from '@cyanheads/mcp-ts-core';
+
+export const assessAlphafoldModel = prompt('assess_alphafold_model', {
+  title: "Assess an AlphaFold model's reliability",
+  description:
+    "Judge which parts of a protein's AlphaFold model are reliable: confident segments and domains, " +
+    'low-confidence regions, secondary structure, and agreement with experimental structures where they exist.',
+  args: z.object({
+    accession: z.string().describe('UniProt accession of the modelled protein (e.g. P69905).'),
+    region: z
+      .string()
+      .optional()
+      .describe('Optional UniProt range to focus on, as "start-end" (e.g. 229-500).'),
+  }),
+  generate: (args) => {
+    const accession = args.accession.trim().toUpperCase();
+    const region = args.region?.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    const range = region ? `${region[1]}-${region[2]}` : undefined;
+    const residues = range ? `, "residues": "${range}"` : '';
+    const lines = [
+      `Assess how reliable the AlphaFold model of UniProt ${accession} is${range ? `, focusing on residues ${range}` : ''}.`,
+      '',
+      `1. Call protein_get_structure with { "ids": ["${accession}"], "source": "predicted" } — model version, length, and mean pLDDT.`,
+      `2. Call protein_get_confidence with { "accession": "${accession}" } — confident segments, low-confidence regions, and PAE-derived domains. Interdomain placement is only as good as the PAE between domains, not the pLDDT within them.`,
+      `3. Call protein_analyze_structure with { "id": "${accession}", "include": ["secondary_structure", "surface"]${residues} } — low-pLDDT runs with regular secondary structure are probably real but poorly placed; long coil runs are likely disordered.`,
+      `4. Call protein_get_coverage with { "accession": "${accession}", "source": "experimental" } — which regions can be checked against experiment and which rest on the prediction alone.`,
+      `5. For the best experimental template of each covered region, call protein_compare_structures with { "structures": [{ "pdb_id": "<pdbId>", "chain": "<chain>" }, { "pdb_id": "AF_AF${accession}F1"${residues} }], "method": "fatcat-flexible" } — RMSD and TM-score against the model, tolerating domain motions.`,
+      `6. Call protein_map_features with { "uniprot": "${accession}", "include": "all" } — whether functional sites and variants fall in confident regions.`,
+      '',
+      'Summarize as a reliability map: for each region give pLDDT band, domain, experimental support (TM-score if compared), and a verdict — usable for detailed analysis, usable for fold only, or not usable. Call out functional sites that sit in low-confidence regions.',
+    ];
+    return [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }];
+  },
+});
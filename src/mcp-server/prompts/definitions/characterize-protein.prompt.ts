@@ -0,0 +1,44 @@
+/**
+ * @fileoverview characterize_protein — the first pass over an unfamiliar
+ * protein: UniProt function and annotation, the best available structure and
+ * how much of the sequence has structures at all, its bound ligands, and which
+ * annotated variants line their pockets. Emits one user message that walks the
+ * agent through the protein_* tools in order, with the parameters filled in.
+ * @module mcp-server/prompts/definitions/characterize-protein.prompt
+ */
+
+import { prompt, z } from '@cyanheads/mcp-ts-core';
+
+export const characterizeProtein = prompt('characterize_protein', {
+  title: 'Characterize a protein',
+  description:
+    'Profile a protein from its UniProt accession: annotations and function, best available structure, ' +
+    'structural coverage, bound ligands and their binding sites, and variants in those sites.',
+  args: z.object({
+    accession: z.string().describe('UniProt accession of the protein (e.g. P00519).'),
+    focus: z
+      .string()
+      .optional()
+      .describe(
+        'Optional question to answer along the way (e.g. "drug resistance", "oligomerization").',
+      ),
+  }),
+  generate: (args) => {
+    const accession = args.accession.trim().toUpperCase();
+    const lines = [
+      `Characterize the protein UniProt ${accession}${args.focus ? `, with attention to ${args.focus.trim()}` : ''}.`,
+      '',
+      'Work through these steps, carrying identifiers forward from each result:',
+      '',
+      `1. Call protein_get_annotations with { "uniprot": "${accession}", "include": "all" } — name, function, domains, binding sites, PTMs, natural variants, InterPro families, and GO terms.`,
+      `2. Call protein_get_structure with { "ids": ["${accession}"], "source": "best_available" } — the top experimental structure, else the best prediction. Note its pdbId (experimental) or mean pLDDT (predicted).`,
+      `3. Call protein_get_coverage with { "accession": "${accession}" } — which regions have experimental structures, the best template per region, and the gaps only predictions cover.`,
+      '4. If step 2 chose an experimental entry, call protein_get_structure with { "ids": ["<pdbId>"] } for its bound ligands, then protein_track_ligands with { "mode": "binding_site", "pdb_id": "<pdbId>", "comp_id": "<ligand>" } for each drug-like ligand (skip buffers, ions, and cryoprotectants).',
+      `5. For each binding site, call protein_map_features with { "pdb_id": "<pdbId>", "uniprot": "${accession}", "include": "variants", "selection": "ligand <ligand> around 5" } — annotated variants lining the pocket, in the structure's own numbering.`,
+      `6. If step 2 fell back to a prediction, call protein_get_confidence with { "accession": "${accession}" } and say which domains are placed confidently.`,
+      '',
+      'Finish with a short profile: function, domain architecture, structural coverage (experimental vs. predicted only), ligands and pockets, notable variants, and the best structure to start from for further work. Cite the attribution each tool returns.',
+    ];
+    return [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }];
+  },
+});
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview compare_mutant_to_wild_type — structural consequences of a
+ * point mutation from a wild-type / mutant pair of PDB entries: global
+ * superposition, the local environment and burial of the mutated residue,
+ * secondary-structure and ligand changes, and what UniProt already records
+ * about the position. The mutation, when given in the usual T315I form, fixes
+ * the residue the steps zoom in on.
+ * @module mcp-server/prompts/definitions/compare-mutant-to-wild-type.prompt
+ */
+
+import { prompt, z } from '@cyanheads/mcp-ts-core';
+
+/** One-letter point mutation (`T315I`, optionally `p.T315I`): wild-type residue, position, mutant residue. */
+const MUTATION_PATTERN = /^(?:p\.)?([A-Z])(\d+)([A-Z])$/i;
+
+export const compareMutantToWildType = prompt('compare_mutant_to_wild_type', {
+  title: 'Compare a mutant to wild type',
+  description:
+    'Compare the structure of a point mutant to its wild type: overall superposition, the environment and burial ' +
+    'of the mutated residue, secondary-structure and ligand-binding changes, and known annotations at the site.',
+  args: z.object({
+    wild_type: z.string().describe('PDB entry ID of the wild-type structure (e.g. 2HYY).'),
+    mutant: z.string().describe('PDB entry ID of the mutant structure (e.g. 3IK3).'),
+    mutation: z
+      .string()
+      .optional()
+      .describe('Optional point mutation in UniProt numbering, one-letter form (e.g. T315I).'),
+    chain: z
+      .string()
+      .optional()
+      .describe(
+        'Optional author chain ID to compare in both entries. The superposition step looks up its label_asym_id.',
+      ),
+  }),
+  generate: (args) => {
+    const wt = args.wild_type.trim().toUpperCase();
+    const mut = args.mutant.trim().toUpperCase();
+    const chain = args.chain?.trim();
+    const m = args.mutation?.trim().match(MUTATION_PATTERN);
+    const mutation = m ? `${m[1]?.toUpperCase()}${m[2]}${m[3]?.toUpperCase()}` : undefined;
+    const position = m?.[2];
+    const chainParam = chain ? `, "chain": "${chain}"` : '';
+    const chainChosen = chain ? `"${chain}"` : '"<chain>"';
+    // protein_compare_structures takes mmCIF label_asym_id chains, not author chains.
+    const labelChain = (entry: string) =>
+      `"<label_asym_id of ${entry} chain ${chain ?? '<chain>'}>"`;
+    // UniProt and author numbering often differ; the site is located through map_features first.
+    const site = `<author residue of ${position}>`;
+    const lines = [
+      `Compare the mutant structure PDB ${mut} to the wild type PDB ${wt}${mutation ? ` for the mutation ${mutation}` : ''}${chain ? `, chain ${chain}` : ''}.`,
+      '',
+      `1. Call protein_get_structure with { "ids": ["${wt}", "${mut}"] } — method, resolution, ligands, and the UniProt accession of each entry. Confirm both map to the same protein${chain ? '' : ' and pick the matching chain in each'}.`,
+      `2. Call protein_get_annotations with { "pdb_id": "${wt}"${chainParam}, "include": "all" } — ${position ? `what UniProt records at position ${position}: variants, binding sites, active sites, PTMs, and the domain it sits in` : 'the domains, sites, and variants of the protein'}.`,
+      `3. Call protein_get_structure with { "ids": ["${wt}", "${mut}"], "selection": "chain ${chain ?? '<chain>'} and name CA" } and read the label_asym_id column — protein_compare_structures takes mmCIF label chain IDs, which can differ from the author IDs the other steps use. Then call protein_compare_structures with { "structures": [{ "pdb_id": "${wt}", "chain": ${labelChain(wt)} }, { "pdb_id": "${mut}", "chain": ${labelChain(mut)} }], "method": "fatcat-flexible" } — global RMSD, TM-score, and any hinge the mutation introduces.`,
+      position
+        ? `4. Call protein_map_features with { "pdb_id": "${wt}", "uniprot": "<accession>"${chainParam}, "include": "all", "selection": "chain ${chain ?? '<chain>'} and resi ${site} around 8" } (and the same for ${mut}) — first read the author residue number of UniProt ${position} from the segments, then the features within 8 Å of the site.`
+        : `4. Call protein_map_features with { "pdb_id": "${wt}", "uniprot": "<accession>"${chainParam}, "include": "all" } (and the same for ${mut}) — find the residues that differ between the two sequences and the features around them.`,
+      `5. Call protein_analyze_structure with { "id": "${wt}", "chains": [${chainChosen}], "include": ["secondary_structure", "surface"], "residues": "<site-10>-<site+10>" } and the same for ${mut} — secondary structure around the site and the mutated residue's relative accessibility and interface burial in each.`,
+      `6. For each ligand in either entry, call protein_track_ligands with { "mode": "binding_site", "pdb_id": "<entry>", "comp_id": "<ligand>" } — whether the mutation lines a pocket and whether the ligand contacts change.`,
+      '',
+      `Conclude with the likely mechanism${mutation ? ` of ${mutation}` : ''}: local packing or steric change, altered secondary structure, lost or gained ligand contacts, or a long-range conformational shift — citing the numbers behind each claim. Note when resolution differences make small RMSD changes uninterpretable.`,
+    ];
+    return [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }];
+  },
+});
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview find_drug_binding_homolog — find structures of related
+ * proteins with a given drug bound, when the query protein has none: resolve
+ * the ligand, search homologs by sequence (and fold, for remote ones),
+ * intersect with the entries containing the ligand, then compare each hit's
+ * pocket to the query. Takes the query as a PDB ID or a UniProt accession.
+ * @module mcp-server/prompts/definitions/find-drug-binding-homolog.prompt
+ */
+
+import { prompt, z } from '@cyanheads/mcp-ts-core';
+
+export const findDrugBindingHomolog = prompt('find_drug_binding_homolog', {
+  title: 'Find a drug-binding homolog',
+  description:
+    'Find experimental structures of homologs of a protein bound to a given ligand, and compare their binding ' +
+    'sites to the query — a starting point for docking or repurposing when the query has no such complex.',
+  args: z.object({
+    ligand: z
+      .string()
+      .describe(
+        'Ligand of interest: a chemical component ID (e.g. STI) or a name (e.g. imatinib).',
+      ),
+    pdb_id: z.string().optional().describe('Query protein as a PDB entry ID (e.g. 2HYY).'),
+    accession: z
+      .string()
+      .optional()
+      .describe('Query protein as a UniProt accession (e.g. P00520). Used when pdb_id is absent.'),
+  }),
+  generate: (args) => {
+    const ligand = args.ligand.trim();
+    const pdbId = args.pdb_id?.trim().toUpperCase();
+    const accession = args.accession?.trim().toUpperCase();
+    const query = pdbId
+      ? { label: `PDB ${pdbId}`, param: `"pdb_id": "${pdbId}"` }
+      : accession
+        ? { label: `UniProt ${accession}`, param: `"uniprot": "${accession}"` }
+        : { label: 'the query protein', param: '"pdb_id": "<query PDB ID>"' };
+    // compare_structures takes entry IDs only — an accession-only query superposes its AlphaFold model.
+    const compareId = pdbId ?? (accession ? `AF_AF${accession}F1` : '<query PDB ID>');
+    // A 1–3 character alphanumeric token is already a component ID; anything else is a name to resolve.
+    const isCompId = /^[A-Za-z0-9]{1,3}$/.test(ligand);
+    const compId = isCompId ? ligand.toUpperCase() : '<comp_id>';
+    const lines = [
+      `Find experimental structures of homologs of ${query.label} with ${isCompId ? `ligand ${compId}` : `"${ligand}"`} bound, and compare their binding sites to the query.`,
+      '',
+      isCompId
+        ? `1. The ligand is chemical component ${compId}.`
+        : `1. Call protein_track_ligands with { "mode": "find_ligand", "query": "${ligand}" } and pick the component ID for the drug itself (not a salt or fragment).`,
+      `2. Call protein_track_ligands with { "mode": "structures_with_ligand", "comp_id": "${compId}", "limit": 100 } — every entry containing the ligand.`,
+      `3. Call protein_find_similar with { "by": "sequence", ${query.param}, "min_identity": 0.3 } — sequence homologs. Intersect their entry IDs with step 2.`,
+      `4. If the intersection is empty, call protein_find_similar with { "by": "structure", ${query.param} } for fold-level homologs (re-call with ticket_id while it reports computing) and intersect again.`,
+      `5. For the best few hits (highest identity, then resolution), call protein_track_ligands with { "mode": "binding_site", "pdb_id": "<hit>", "comp_id": "${compId}" } — the residues lining the pocket.`,
+      `6. Call protein_compare_structures with { "structures": [{ "pdb_id": "${compareId}" }, { "pdb_id": "<hit>", "chain": "<chain>" }] } — whether the homolog's fold, and so its pocket, superposes on the query.`,
+      `7. Call protein_map_features with { "pdb_id": "<hit>", "selection": "ligand ${compId} around 5" } — which pocket positions carry annotated binding sites or variants.`,
+      '',
+      'Report the hits in a table (entry, organism, identity to the query, resolution, TM-score to the query, pocket residues), say which pocket residues differ from the query, and recommend the best template for modelling the complex.',
+    ];
+    return [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }];
+  },
+});
@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Barrel export for all protein-mcp-server prompt definitions.
+ * @module mcp-server/prompts/definitions/index
+ */
+
+export { assessAlphafoldModel } from './assess-alphafold-model.prompt.js';
+export { characterizeProtein } from './characterize-protein.prompt.js';
+export { compareMutantToWildType } from './compare-mutant-to-wild-type.prompt.js';
+export { findDrugBindingHomolog } from './find-drug-binding-homolog.prompt.js';
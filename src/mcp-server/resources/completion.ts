@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Shared plumbing for resource listing and URI-template completion.
+ * Both run outside any handler — the SDK calls `list()` with only the transport's
+ * request extras and a `complete` callback with only the partial value — so there
+ * is no framework `Context` to hand the services. {@link detachedContext} builds
+ * one for the callback: tracing IDs from `requestContextService`, the framework
+ * logger, an abort signal, and inert enrichment, content, and state (nothing reads
+ * them back). {@link completeWith} bounds latency and swallows upstream failures —
+ * an autocomplete that errors is worse than one that offers nothing; a listing
+ * that fails likewise degrades to an empty page. The PDB-ID and AlphaFold-ID
+ * completers shared by the `pdb://` and `af://` templates live here too.
+ * @module mcp-server/resources/completion
+ */
+
+import type { Context, ContextState } from '@cyanheads/mcp-ts-core';
+import { logger, requestContextService } from '@cyanheads/mcp-ts-core/utils';
+import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
+import { getUniProtService } from '@/services/uniprot/uniprot-service.js';
+
+/** Suggestions offered per completion request. */
+export const COMPLETION_LIMIT = 20;
+
+/** Entries offered per resource listing. */
+export const LIST_LIMIT = 25;
+
+/** Completion is interactive; past this an answer is no longer useful. */
+const COMPLETION_TIMEOUT_MS = 5_000;
+
+const noop = () => {};
+
+/** State is per-request storage; a detached callback has no request to scope it to. */
+function unavailable(): Promise<never> {
+  return Promise.reject(new Error('Context state is unavailable outside a request handler'));
+}
+
+const detachedState: ContextState = {
+  delete: unavailable,
+  deleteMany: unavailable,
+  get: unavailable,
+  getMany: unavailable,
+  list: unavailable,
+  set: unavailable,
+  setMany: unavailable,
+};
+
+/** A service-ready `Context` for a listing or completion callback. */
+export function detachedContext(operation: string, signal: AbortSignal): Context {
+  const reqCtx = requestContextService.createRequestContext({ operation });
+  return {
+    requestId: reqCtx.requestId,
+    timestamp: reqCtx.timestamp,
+    ...(reqCtx.traceId ? { traceId: reqCtx.traceId } : {}),
+    ...(reqCtx.spanId ? { spanId: reqCtx.spanId } : {}),
+    signal,
+    log: {
+      debug: (msg, data) => logger.debug(msg, { ...reqCtx, ...data }),
+      info: (msg, data) => logger.info(msg, { ...reqCtx, ...data }),
+      notice: (msg, data) => logger.notice(msg, { ...reqCtx, ...data }),
+      warning: (msg, data) => logger.warning(msg, { ...reqCtx, ...data }),
+      error: (msg, error, data) =>
+        error ? logger.error(msg, error, { ...reqCtx, ...data }) : logger.error(msg, reqCtx),
+    },
+    enrich: Object.assign(noop, {
+      delta: noop,
+      echo: noop,
+      notice: noop,
+      total: noop,
+      truncated: noop,
+    }),
+    content: Object.assign(noop, { audio: noop, image: noop }),
+    state: detachedState,
+    recoveryFor: () => ({}),
+  };
+}
+
+/**
+ * Run a completion lookup under a detached context with a short deadline,
+ * resolving to no suggestions when the upstream fails or is slow.
+ */
+export async function completeWith(
+  operation: string,
+  lookup: (ctx: Context) => Promise<string[]>,
+): Promise<string[]> {
+  const ctx = detachedContext(operation, AbortSignal.timeout(COMPLETION_TIMEOUT_MS));
+  try {
+    return await lookup(ctx);
+  } catch (err) {
+    ctx.log.debug('Completion lookup failed; offering no suggestions', {
+      error: err instanceof Error ? err.message : err,
+    });
+    return [];
+  }
+}
+
+/**
+ * Run a listing under a detached context bound to the request's abort signal,
+ * resolving to an empty page when the upstream fails.
+ */
+export async function listWith(
+  operation: string,
+  signal: AbortSignal,
+  load: (ctx: Context) => Promise<ListedResource[]>,
+): Promise<{ resources: ListedResource[] }> {
+  const ctx = detachedContext(operation, signal);
+  try {
+    return { resources: await load(ctx) };
+  } catch (err) {
+    ctx.log.debug('Resource listing failed; returning an empty page', {
+      error: err instanceof Error ? err.message : err,
+    });
+    return { resources: [] };
+  }
+}
+
+/** One `resources/list` entry. */
+export interface ListedResource {
+  description?: string;
+  mimeType?: string;
+  name: string;
+  title?: string;
+  uri: string;
+}
+
+/** Complete a partial PDB entry ID to the entries RCSB holds. */
+export function completePdbId(value: string): Promise<string[]> {
+  return completeWith('completePdbId', (ctx) =>
+    getRcsbService().completeEntryIds(value, COMPLETION_LIMIT, ctx),
+  );
+}
+
+const AF_PREFIX_RE = /^AF-/i;
+
+/**
+ * Complete a partial UniProt accession through UniProtKB. A value typed in
+ * AlphaFold DB entry-ID form (`AF-P699`) completes in that form, to each
+ * accession's first fragment (`AF-P69905-F1`).
+ */
+export function completeAlphaFoldId(value: string): Promise<string[]> {
+  const entryForm = AF_PREFIX_RE.test(value.trim());
+  const prefix = value.trim().replace(AF_PREFIX_RE, '');
+  return completeWith('completeAlphaFoldId', async (ctx) => {
+    const hits = await getUniProtService().findAccessionsByPrefix(prefix, COMPLETION_LIMIT, ctx);
+    return hits.map((h) => (entryForm ? `AF-${h.accession}-F1` : h.accession));
+  });
+}
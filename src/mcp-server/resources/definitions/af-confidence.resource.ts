@@ -0,0 +1,117 @@
+/**
+ * @fileoverview af://{accession}/confidence — per-residue confidence for an
+ * AlphaFold model: the pLDDT track, contiguous high-confidence segments at the
+ * default threshold, the mean PAE between segment pairs, and PAE-clustered rigid
+ * domains. The injectable-context twin of protein_get_confidence with default
+ * parameters; the PAE matrix itself is tool-only (it is N² and needs pooling
+ * controls). Completes partial accessions like af://{uniprot}; listing is left
+ * to that template.
+ * @module mcp-server/resources/definitions/af-confidence.resource
+ */
+
+import { resource, z } from '@cyanheads/mcp-ts-core';
+import { invalidParams, notFound } from '@cyanheads/mcp-ts-core/errors';
+import { completeAlphaFoldId } from '@/mcp-server/resources/completion.js';
+import { getAlphaFoldService } from '@/services/alphafold/alphafold-service.js';
+import { summarizeConfidence } from '@/services/alphafold/confidence.js';
+import { paeDomains } from '@/services/alphafold/domains.js';
+import { isAlphaFoldEntryId, isUniProtAccession } from '@/services/shared/identifiers.js';
+
+export const afConfidenceResource = resource('af://{accession}/confidence', {
+  name: 'alphafold-confidence',
+  title: 'AlphaFold per-residue confidence',
+  description:
+    'Per-residue pLDDT track for an AlphaFold model, with contiguous high-confidence ' +
+    'segments (pLDDT ≥ 70, 10+ residues), the mean PAE between each segment pair — ' +
+    'low inter-segment PAE means a trustworthy relative placement — and rigid ' +
+    'domains clustered from the PAE matrix.',
+  mimeType: 'application/json',
+  params: z.object({
+    accession: z.string().describe('UniProt accession (e.g. P69905) or AlphaFold DB entry ID.'),
+  }),
+  complete: { accession: completeAlphaFoldId },
+  output: z.object({
+    uniprotAccession: z.string().describe('UniProt accession.'),
+    entryId: z.string().optional().describe('AlphaFold model entry ID (e.g. AF-P69905-F1).'),
+    modelVersion: z.number().optional().describe('AlphaFold model version.'),
+    plddtSource: z
+      .enum(['confidence_json', 'coordinates'])
+      .describe('Where the track came from: the confidence JSON, or the coordinate B-factors.'),
+    plddt: z.array(z.number()).describe('pLDDT per residue (0–100); element 0 is residue 1.'),
+    segments: z
+      .array(
+        z
+          .object({
+            start: z.number().describe('First residue (1-based).'),
+            end: z.number().describe('Last residue (1-based, inclusive).'),
+            meanPlddt: z.number().describe('Mean pLDDT over the segment.'),
+          })
+          .describe('A contiguous confident segment.'),
+      )
+      .describe('Contiguous segments with pLDDT ≥ 70 spanning 10+ residues.'),
+    paeBlocks: z
+      .array(
+        z
+          .object({
+            a: z.number().describe('Index into segments.'),
+            b: z.number().describe('Index into segments (equal to a for its own block).'),
+            meanPae: z.number().describe('Mean PAE (Å) between the two segments.'),
+          })
+          .describe('Mean PAE between two segments.'),
+      )
+      .describe('Pairwise segment PAE; empty when PAE is unavailable.'),
+    domains: z
+      .array(
+        z
+          .object({
+            start: z.number().describe('First residue of the domain span.'),
+            end: z.number().describe('Last residue of the domain span.'),
+            size: z.number().describe('Residues assigned to the domain.'),
+            segments: z
+              .array(
+                z
+                  .object({
+                    start: z.number().describe('First residue.'),
+                    end: z.number().describe('Last residue.'),
+                  })
+                  .describe('A contiguous piece of the domain.'),
+              )
+              .describe('Contiguous pieces in sequence order.'),
+            meanPlddt: z.number().optional().describe('Mean pLDDT over the domain.'),
+            meanPae: z.number().describe('Mean PAE (Å) within the domain.'),
+          })
+          .describe('A rigid domain clustered from the PAE matrix.'),
+      )
+      .describe('PAE domains (5 Å cutoff, 20+ residues); empty when PAE is unavailable.'),
+    maxPae: z.number().optional().describe('Upper bound of the PAE scale (Å).'),
+    paeDocUrl: z.string().optional().describe('Source PAE file URL.'),
+  }),
+
+  async handler(params, ctx) {
+    if (!isUniProtAccession(params.accession) && !isAlphaFoldEntryId(params.accession))
+      throw invalidParams(
+        `"${params.accession}" is not a UniProt accession — af://{accession}/confidence is keyed by UniProt accession (e.g. af://P69905/confidence) or an AlphaFold DB entry ID.`,
+        { accession: params.accession },
+      );
+    const confidence = await getAlphaFoldService().getConfidence(params.accession, ctx);
+    if (!confidence)
+      throw notFound(`No AlphaFold model found for ${params.accession.toUpperCase()}`, {
+        accession: params.accession,
+      });
+    const summary = summarizeConfidence(confidence.plddt, confidence.pae);
+    return {
+      uniprotAccession: confidence.uniprotAccession,
+      ...(confidence.entryId ? { entryId: confidence.entryId } : {}),
+      ...(typeof confidence.modelVersion === 'number'
+        ? { modelVersion: confidence.modelVersion }
+        : {}),
+      plddtSource: confidence.plddtSource,
+      plddt: confidence.plddt,
+      segments: summary.segments,
+      paeBlocks: summary.paeBlocks,
+      domains: confidence.pae ? paeDomains(confidence.pae, confidence.plddt) : [],
+      ...(typeof confidence.maxPae === 'number' ? { maxPae: confidence.maxPae } : {}),
+      ...(confidence.paeDocUrl ? { paeDocUrl: confidence.paeDocUrl } : {}),
+    };
+  },
+});
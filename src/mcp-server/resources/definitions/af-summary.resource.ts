@@ -8,8 +8,13 @@
 
 import { resource, z } from '@cyanheads/mcp-ts-core';
 import { invalidParams, notFound } from '@cyanheads/mcp-ts-core/errors';
+import { completeAlphaFoldId, LIST_LIMIT, listWith } from '@/mcp-server/resources/completion.js';
 import { getAlphaFoldService } from '@/services/alphafold/alphafold-service.js';
 import { isAlphaFoldEntryId, isUniProtAccession } from '@/services/shared/identifiers.js';
+import { getUniProtService } from '@/services/uniprot/uniprot-service.js';
+
+/** Listing seed: Swiss-Prot human entries, which AlphaFold DB models proteome-wide. */
+const LIST_QUERY = 'reviewed:true AND organism_id:9606';
 
 export const afSummaryResource = resource('af://{uniprot}', {
   name: 'alphafold-structure-summary',
@@ -20,6 +25,17 @@ export const afSummaryResource = resource('af://{uniprot}', {
   params: z.object({
     uniprot: z.string().describe('UniProt accession (e.g. P69905).'),
   }),
+  list: (extra) =>
+    listWith('afSummaryResource.list', extra.signal, async (ctx) => {
+      const hits = await getUniProtService().searchAccessions(LIST_QUERY, LIST_LIMIT, ctx);
+      return hits.map((h) => ({
+        uri: `af://${h.accession}`,
+        name: h.accession,
+        ...(h.proteinName ? { title: h.proteinName } : {}),
+        mimeType: 'application/json',
+      }));
+    }),
+  complete: { uniprot: completeAlphaFoldId },
   output: z.object({
     uniprotAccession: z.string().describe('UniProt accession.'),
     entryId: z.string().optional().describe('AlphaFold model entry ID (e.g. AF-P69905-F1).'),
@@ -3,5 +3,8 @@
  * @module mcp-server/resources/definitions/index
  */
 
+export { afConfidenceResource } from './af-confidence.resource.js';
 export { afSummaryResource } from './af-summary.resource.js';
+export { ligandSummaryResource } from './ligand-summary.resource.js';
 export { pdbSummaryResource } from './pdb-summary.resource.js';
+export { uniprotSummaryResource } from './uniprot-summary.resource.js';
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview ligand://{comp_id} — chemical component summary (name, formula,
+ * weight, SMILES, InChIKey) with how many PDB entries contain it and the
+ * highest-resolution of them. The injectable-context twin of
+ * protein_track_ligands' find_ligand metadata plus structures_with_ligand.
+ * @module mcp-server/resources/definitions/ligand-summary.resource
+ */
+
+import { resource, z } from '@cyanheads/mcp-ts-core';
+import { invalidParams, notFound } from '@cyanheads/mcp-ts-core/errors';
+import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
+import type { EntryMeta } from '@/services/rcsb/types.js';
+import { isChemCompId } from '@/services/shared/identifiers.js';
+
+/** Containing entries listed — enough to pick a template without pulling a page of metadata. */
+const TOP_ENTRIES = 10;
+
+export const ligandSummaryResource = resource('ligand://{comp_id}', {
+  name: 'ligand-summary',
+  title: 'Ligand summary',
+  description:
+    'Chemical component summary: name, formula, weight, SMILES, and InChIKey, with the number of PDB entries containing it and the highest-resolution of them.',
+  mimeType: 'application/json',
+  params: z.object({
+    comp_id: z.string().describe('Chemical component ID (e.g. STI, HEM).'),
+  }),
+  output: z.object({
+    compId: z.string().describe('Chemical component ID.'),
+    name: z.string().optional().describe('Chemical name.'),
+    type: z.string().optional().describe('Component type (e.g. non-polymer).'),
+    formula: z.string().optional().describe('Molecular formula.'),
+    formulaWeight: z.number().optional().describe('Formula weight (Da).'),
+    smiles: z.string().optional().describe('Isomeric SMILES.'),
+    inchikey: z.string().optional().describe('InChIKey.'),
+    entryCount: z.number().describe('Experimental PDB entries containing the component.'),
+    topEntries: z
+      .array(
+        z
+          .object({
+            id: z.string().describe('PDB entry ID.'),
+            title: z.string().optional().describe('Structure title.'),
+            method: z.string().optional().describe('Experimental method.'),
+            resolution: z
+              .number()
+              .optional()
+              .describe('Best resolution in Å (absent for methods without one, e.g. NMR).'),
+          })
+          .describe('A PDB entry containing the component.'),
+      )
+      .describe(`Up to ${TOP_ENTRIES} containing entries, highest-resolution first.`),
+  }),
+
+  async handler(params, ctx) {
+    // A name ("imatinib") or stray punctuation would reach both the REST path and
+    // the search query verbatim; reject the shape locally and point at find_ligand.
+    if (!isChemCompId(params.comp_id))
+      throw invalidParams(
+        `"${params.comp_id}" is not a chemical component ID — ligand:// is keyed by a 1–5 character CCD ID (e.g. ligand://STI). Resolve names via protein_track_ligands mode find_ligand.`,
+        { compId: params.comp_id },
+      );
+    const compId = params.comp_id.trim().toUpperCase();
+    const rcsb = getRcsbService();
+    // searchByLigand's total is the same containment count countEntriesWithLigand
+    // reports, so one resolution-sorted search gives both the count and the page.
+    const [chem, search] = await Promise.all([
+      rcsb.getChemComp(compId, ctx),
+      rcsb.searchByLigand(compId, { limit: TOP_ENTRIES }, ctx),
+    ]);
+    if (!chem) throw notFound(`No chemical component found for ${compId}`, { compId });
+
+    const ids = search.hits.map((h) => h.id);
+    const metaById = new Map<string, EntryMeta>();
+    if (ids.length > 0) {
+      for (const meta of await rcsb.getEntries(ids, ctx)) metaById.set(meta.id, meta);
+    }
+    // getEntries does not preserve input order; re-sort by the enriched resolution.
+    const topEntries = ids
+      .map((id) => {
+        const meta = metaById.get(id.toUpperCase());
+        const method = meta?.methods?.[0];
+        return {
+          id: id.toUpperCase(),
+          ...(meta?.title ? { title: meta.title } : {}),
+          ...(method ? { method } : {}),
+          ...(typeof meta?.resolution === 'number' ? { resolution: meta.resolution } : {}),
+        };
+      })
+      .sort((a, b) => (a.resolution ?? Infinity) - (b.resolution ?? Infinity));
+
+    return {
+      compId: chem.compId,
+      ...(chem.name ? { name: chem.name } : {}),
+      ...(chem.type ? { type: chem.type } : {}),
+      ...(chem.formula ? { formula: chem.formula } : {}),
+      ...(typeof chem.formulaWeight === 'number' ? { formulaWeight: chem.formulaWeight } : {}),
+      ...(chem.smiles ? { smiles: chem.smiles } : {}),
+      ...(chem.inchikey ? { inchikey: chem.inchikey } : {}),
+      entryCount: search.total,
+      topEntries,
+    };
+  },
+});
@@ -1,12 +1,14 @@
 /**
  * @fileoverview pdb://{entry_id} — experimental structure summary (title, method,
  * resolution, organism, ligands, chains). The injectable-context twin of
- * protein_get_structure for source: experimental.
+ * protein_get_structure for source: experimental. Lists the newest releases and
+ * completes partial entry IDs against RCSB Search.
  * @module mcp-server/resources/definitions/pdb-summary.resource
  */
 
 import { resource, z } from '@cyanheads/mcp-ts-core';
 import { notFound } from '@cyanheads/mcp-ts-core/errors';
+import { completePdbId, LIST_LIMIT, listWith } from '@/mcp-server/resources/completion.js';
 import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
 
 export const pdbSummaryResource = resource('pdb://{entry_id}', {
@@ -18,6 +20,35 @@ export const pdbSummaryResource = resource('pdb://{entry_id}', {
   params: z.object({
     entry_id: z.string().describe('PDB entry ID (e.g. 4HHB).'),
   }),
+  // The corpus is unbounded; the listing is a browsable window onto the newest
+  // releases, not a dump. Completion needs three characters (see completeEntryIds).
+  list: (extra) =>
+    listWith('pdbSummaryResource.list', extra.signal, async (ctx) => {
+      const rcsb = getRcsbService();
+      const { hits } = await rcsb.search(
+        { sort: 'newest', limit: LIST_LIMIT, contentType: ['experimental'] },
+        ctx,
+      );
+      const entries =
+        hits.length > 0
+          ? await rcsb.getEntries(
+              hits.map((h) => h.id),
+              ctx,
+            )
+          : [];
+      const titles = new Map(entries.map((meta) => [meta.id, meta.title]));
+      return hits.map((h) => {
+        const id = h.id.toUpperCase();
+        const title = titles.get(id);
+        return {
+          uri: `pdb://${id}`,
+          name: id,
+          ...(title ? { title } : {}),
+          mimeType: 'application/json',
+        };
+      });
+    }),
+  complete: { entry_id: completePdbId },
   output: z.object({
     id: z.string().describe('PDB entry ID.'),
     title: z.string().optional().describe('Structure title.'),
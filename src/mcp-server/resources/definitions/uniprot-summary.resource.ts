@@ -0,0 +1,147 @@
+/**
+ * @fileoverview uniprot://{accession} — protein summary (name, genes, organism,
+ * function, length, InterPro domains) with a one-line structural-coverage summary
+ * from 3D-Beacons: PDB entry count, best resolution, and AlphaFold mean pLDDT.
+ * The injectable-context twin of protein_get_annotations (include: domains) plus
+ * the headline of protein_get_coverage. Carries the same attribution block.
+ * @module mcp-server/resources/definitions/uniprot-summary.resource
+ */
+
+import { resource, z } from '@cyanheads/mcp-ts-core';
+import { invalidParams } from '@cyanheads/mcp-ts-core/errors';
+import { attributionSchema } from '@/mcp-server/tools/definitions/_schemas.js';
+import { type BeaconSummary, getBeaconsService } from '@/services/beacons/beacons-service.js';
+import { attributionsFor, type CuratedSource } from '@/services/shared/attribution.js';
+import { isUniProtAccession } from '@/services/shared/identifiers.js';
+import { getUniProtService } from '@/services/uniprot/uniprot-service.js';
+
+export const uniprotSummaryResource = resource('uniprot://{accession}', {
+  name: 'uniprot-summary',
+  title: 'UniProt protein summary',
+  description:
+    'Protein summary for a UniProt accession: name, genes, organism, function, sequence length, and InterPro domains, with a one-line structural-coverage summary (PDB entry count, best resolution, AlphaFold mean pLDDT) and upstream attribution.',
+  mimeType: 'application/json',
+  params: z.object({
+    accession: z.string().describe('UniProt accession (e.g. P69905).'),
+  }),
+  output: z.object({
+    accession: z.string().describe('UniProt accession.'),
+    proteinName: z.string().optional().describe('Recommended protein name.'),
+    geneNames: z.array(z.string()).describe('Gene names.'),
+    organism: z.string().optional().describe('Source organism scientific name.'),
+    function: z.string().optional().describe('UniProt function summary.'),
+    sequenceLength: z.number().optional().describe('Sequence length in residues.'),
+    domains: z
+      .array(
+        z
+          .object({
+            accession: z.string().describe('InterPro accession (e.g. IPR000971).'),
+            name: z.string().describe('Domain/family name.'),
+            type: z.string().describe('Entry type (e.g. domain, family, homologous_superfamily).'),
+          })
+          .describe('An InterPro domain/family membership.'),
+      )
+      .describe('InterPro domain/family memberships (GO terms via protein_get_annotations).'),
+    structures: z
+      .object({
+        pdbEntryCount: z
+          .number()
+          .describe('Distinct experimental PDB entries covering the protein.'),
+        bestResolution: z
+          .number()
+          .optional()
+          .describe('Best resolution (Å) among those entries; absent when none report one.'),
+        alphafoldMeanPlddt: z
+          .number()
+          .optional()
+          .describe('Mean pLDDT (0–100) of the AlphaFold DB model, when one exists.'),
+        summary: z.string().describe('The coverage in one line.'),
+      })
+      .describe('Structural coverage from the 3D-Beacons summary.'),
+    attribution: z
+      .array(attributionSchema)
+      .describe(
+        'Upstream data-source licenses and citations for every source that contributed to this summary.',
+      ),
+  }),
+
+  async handler(params, ctx) {
+    // UniProt answers a malformed accession with a 400 whose body would surface
+    // verbatim, and 3D-Beacons with an empty summary; reject the shape locally.
+    if (!isUniProtAccession(params.accession))
+      throw invalidParams(
+        `"${params.accession}" is not a UniProt accession — uniprot:// is keyed by UniProt accession (e.g. uniprot://P69905).`,
+        { accession: params.accession },
+      );
+    const accession = params.accession.trim().toUpperCase();
+    const uniprot = getUniProtService();
+    // 'domains' selects only the base fields — no feature or variant payload.
+    const [entry, interpro, beacons] = await Promise.all([
+      uniprot.getEntry(accession, 'domains', ctx),
+      uniprot.getInterPro(accession, ctx),
+      getBeaconsService().getSummary(accession, ctx),
+    ]);
+    const structures = summarizeStructures(beacons);
+
+    const sources = new Set<CuratedSource>(['UniProt']);
+    if (interpro.length > 0) sources.add('InterPro');
+    if (structures.pdbEntryCount > 0) sources.add('RCSB PDB');
+    if (structures.alphafoldMeanPlddt !== undefined) sources.add('AlphaFold DB');
+
+    return {
+      accession: entry.accession,
+      ...(entry.proteinName ? { proteinName: entry.proteinName } : {}),
+      geneNames: entry.geneNames,
+      ...(entry.organism ? { organism: entry.organism } : {}),
+      ...(entry.function ? { function: entry.function } : {}),
+      ...(typeof entry.sequenceLength === 'number' ? { sequenceLength: entry.sequenceLength } : {}),
+      domains: interpro.map((d) => ({ accession: d.accession, name: d.name, type: d.type })),
+      structures,
+      attribution: attributionsFor(sources),
+    };
+  },
+});
+
+/**
+ * Reduce a 3D-Beacons summary to the coverage headline. Experimental models are
+ * counted per PDB entry — Beacons can list an entry once per mapped chain — and
+ * the pLDDT is taken only from an AlphaFold DB model reporting pLDDT, never
+ * another provider's metric.
+ */
+function summarizeStructures(summary: BeaconSummary) {
+  const entries = new Set<string>();
+  let bestResolution: number | undefined;
+  let alphafoldMeanPlddt: number | undefined;
+  for (const m of summary.models) {
+    if (/experimentally/i.test(m.modelCategory ?? '')) {
+      entries.add(m.modelIdentifier.toUpperCase());
+      if (
+        m.resolution !== undefined &&
+        (bestResolution === undefined || m.resolution < bestResolution)
+      )
+        bestResolution = m.resolution;
+    } else if (
+      alphafoldMeanPlddt === undefined &&
+      m.provider === 'AlphaFold DB' &&
+      m.confidenceType?.toLowerCase() === 'plddt' &&
+      typeof m.confidenceAvgLocalScore === 'number'
+    ) {
+      alphafoldMeanPlddt = m.confidenceAvgLocalScore;
+    }
+  }
+  const pdbEntryCount = entries.size;
+  const experimental =
+    pdbEntryCount === 0
+      ? 'No experimental structures'
+      : `${pdbEntryCount} PDB ${pdbEntryCount === 1 ? 'entry' : 'entries'}${bestResolution !== undefined ? ` (best ${bestResolution} Å)` : ''}`;
+  const predicted =
+    alphafoldMeanPlddt !== undefined
+      ? `AlphaFold mean pLDDT ${alphafoldMeanPlddt.toFixed(1)}`
+      : 'no AlphaFold model';
+  return {
+    pdbEntryCount,
+    ...(bestResolution !== undefined ? { bestResolution } : {}),
+    ...(alphafoldMeanPlddt !== undefined ? { alphafoldMeanPlddt } : {}),
+    summary: `${experimental}; ${predicted}.`,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Shared coordinate loading for the tools that analyze structures
+ * in-process (secondary structure, surface, interfaces). One identifier — a PDB
+ * entry ID, a UniProt accession, or an AlphaFold entry ID — resolves to a parsed
+ * {@link Structure}: PDB IDs to the RCSB mmCIF file, the predicted forms to the
+ * AlphaFold DB model (mmCIF, else PDB). Both go through the provider fallback
+ * chains in `_providers` (PDBe files, 3D-Beacons) and the persistent response
+ * cache, so a second analysis of the same entry reads no network. A PDB entry
+ * can be read as one of its biological assemblies instead of the asymmetric
+ * unit; predicted models have only the one form. A tool that also takes RCSB
+ * computed-model IDs (`AF_*` / `MA_*`) loads them here too, from RCSB's mmCIF.
+ * @module mcp-server/tools/definitions/_coordinates
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import { fetchText } from '@/services/shared/http.js';
+import {
+  isAlphaFoldEntryId,
+  isComputedModelId,
+  isPdbId,
+  isUniProtAccession,
+} from '@/services/shared/identifiers.js';
+import { detectFormat, parseStructure } from '@/services/structure/parser.js';
+import type { CoordinateFormat, Structure } from '@/services/structure/types.js';
+import {
+  fetchAssemblyCoordinates,
+  fetchComputedModelCoordinates,
+  fetchEntryCoordinates,
+  getPrediction,
+} from './_providers.js';
+
+/** Which half of the federation an identifier routes to. */
+export type CoordinateSource = 'experimental' | 'predicted';
+
+/** A fetched and parsed coordinate file. */
+export interface LoadedCoordinates {
+  /** Biological assembly read, when one was asked for; absent for the asymmetric unit. */
+  assemblyId?: string;
+  /** Dialect of the fetched file, sniffed from its content. */
+  format: CoordinateFormat;
+  /**
+   * Canonical identifier: the upper-cased PDB or computed-model ID, or the
+   * AlphaFold entry ID when known.
+   */
+  id: string;
+  /** Experimental (RCSB) or predicted (AlphaFold DB, or an RCSB computed model). */
+  source: CoordinateSource;
+  structure: Structure;
+  /** URL the coordinates were read from. */
+  url: string;
+}
+
+/** Route an identifier to its source, or `undefined` when it is none of the accepted shapes. */
+export function coordinateSourceOf(id: string): CoordinateSource | undefined {
+  const trimmed = id.trim();
+  if (isPdbId(trimmed)) return 'experimental';
+  if (isUniProtAccession(trimmed) || isAlphaFoldEntryId(trimmed)) return 'predicted';
+  return;
+}
+
+/**
+ * Fetch and parse the coordinates for an identifier that passed
+ * {@link coordinateSourceOf}, or an RCSB computed-model ID, as biological
+ * assembly `assemblyId` when given (PDB entries only — a predicted model ignores
+ * it). Returns `null` when AlphaFold DB has no model for a predicted identifier;
+ * an unknown PDB ID, computed model, or assembly surfaces as the fetch's
+ * `NotFound`, and a file with no atom sites as the parser's `SerializationError`.
+ */
+export async function loadCoordinates(
+  id: string,
+  ctx: Context,
+  assemblyId?: string,
+): Promise<LoadedCoordinates | null> {
+  const trimmed = id.trim();
+  if (coordinateSourceOf(trimmed) === 'experimental') {
+    const pdbId = trimmed.toUpperCase();
+    if (assemblyId) {
+      const { text, url } = await fetchAssemblyCoordinates(
+        pdbId,
+        assemblyId,
+        'loadCoordinates',
+        ctx,
+      );
+      return { id: pdbId, source: 'experimental', assemblyId, url, ...parsed(text) };
+    }
+    const { text, url } = await fetchEntryCoordinates(pdbId, 'cif', 'loadCoordinates', ctx);
+    return { id: pdbId, source: 'experimental', url, ...parsed(text) };
+  }
+  if (isComputedModelId(trimmed)) {
+    const modelId = trimmed.toUpperCase();
+    const { text, url } = await fetchComputedModelCoordinates(modelId, 'loadCoordinates', ctx);
+    return { id: modelId, source: 'predicted', url, ...parsed(text) };
+  }
+  const model = await getPrediction(trimmed, ctx);
+  const url = model?.cifUrl ?? model?.pdbUrl;
+  if (!model || !url) return null;
+  const text = await fetchText(url, ctx, {
+    operation: 'loadCoordinates',
+    label: 'AlphaFold DB files',
+    baseDelayMs: 400,
+    maxRetries: 1,
+    cache: 'prediction',
+  });
+  return {
+    id: model.entryId ?? model.uniprotAccession,
+    source: 'predicted',
+    url,
+    ...parsed(text),
+  };
+}
+
+/**
+ * The notice for an `assembly_id` passed with a predicted model, which has no
+ * assemblies to read — empty when the option took effect or was not given.
+ */
+export function assemblyNotices(loaded: LoadedCoordinates, assemblyId?: string): string[] {
+  return assemblyId && loaded.source === 'predicted'
+    ? [`assembly_id applies to PDB entries; ${loaded.id} is a predicted model, read as deposited.`]
+    : [];
+}
+
+function parsed(text: string): Pick<LoadedCoordinates, 'format' | 'structure'> {
+  const format = detectFormat(text);
+  return { format, structure: parseStructure(text, format) };
+}
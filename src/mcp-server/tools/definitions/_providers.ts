@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Fallback chains for the data more than one upstream can serve,
+ * shared by the tools that read it. Each chain names its primary and secondary
+ * and runs them through `withFallback`, so an outage at the primary (an open
+ * circuit, or a call that failed after its retries) is answered from the
+ * secondary and recorded against the request for the tool's `fallbacks` output:
+ * - AlphaFold model metadata — AlphaFold DB, else the AlphaFold DB model that
+ *   3D-Beacons federates (no confidence buckets or PAE document).
+ * - A PDB entry's sequence — RCSB GraphQL, else the UniProt sequence of the
+ *   entry's first SIFTS-mapped accession (the reference, not the construct).
+ * - A UniProt accession's sequence — UniProt, else the sequence AlphaFold DB
+ *   predicted from.
+ * - A PDB entry's coordinate file — RCSB files, else PDBe's copy of the same
+ *   wwPDB archive file. Biological-assembly and computed-model files come from
+ *   RCSB alone.
+ * @module mcp-server/tools/definitions/_providers
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode, McpError, notFound } from '@cyanheads/mcp-ts-core/errors';
+import {
+  type AlphaFoldModel,
+  getAlphaFoldService,
+} from '@/services/alphafold/alphafold-service.js';
+import { type BeaconModel, getBeaconsService } from '@/services/beacons/beacons-service.js';
+import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
+import { withFallback } from '@/services/shared/fallback.js';
+import { fetchText } from '@/services/shared/http.js';
+import { getSiftsService } from '@/services/sifts/sifts-service.js';
+import { getUniProtService } from '@/services/uniprot/uniprot-service.js';
+
+/** Provider labels for coordinate downloads — also the circuit each is tracked under. */
+const RCSB_FILES = 'RCSB PDB files';
+const PDBE_FILES = 'PDBe entry files';
+
+/** A coordinate file and the URL it was read from. */
+export interface FetchedCoordinates {
+  text: string;
+  url: string;
+}
+
+/**
+ * The AlphaFold model for an accession (or AlphaFold DB entry ID): AlphaFold DB,
+ * else the AlphaFold DB model listed by 3D-Beacons. `null` when the answering
+ * provider has no model.
+ */
+export function getPrediction(accession: string, ctx: Context): Promise<AlphaFoldModel | null> {
+  return withFallback(
+    `AlphaFold model for ${accession.toUpperCase()}`,
+    ctx,
+    { provider: 'AlphaFold DB', load: () => getAlphaFoldService().getPrediction(accession, ctx) },
+    {
+      provider: '3D-Beacons',
+      load: async () => {
+        const summary = await getBeaconsService().getSummary(accession, ctx);
+        const model = summary.models.find((m) => m.provider === 'AlphaFold DB' && m.modelUrl);
+        return model ? beaconPrediction(summary.accession, model) : null;
+      },
+    },
+  );
+}
+
+/**
+ * First polymer entity's sequence for a PDB entry: RCSB, else UniProt's sequence
+ * for the accession SIFTS maps the entry's first chain to. `null` when neither
+ * yields one.
+ */
+export function getPdbSequence(pdbId: string, ctx: Context): Promise<string | null> {
+  return withFallback(
+    `sequence for ${pdbId.toUpperCase()}`,
+    ctx,
+    {
+      provider: 'RCSB GraphQL API',
+      load: async () => (await getRcsbService().getSequence(pdbId, ctx))?.sequence ?? null,
+    },
+    {
+      provider: 'UniProt (via PDBe SIFTS)',
+      load: async () => {
+        const mapping = await getSiftsService().getEntryMapping(pdbId, ctx);
+        const accession = mapping.chains[0]?.accession;
+        return accession ? getUniProtService().getSequence(accession, ctx) : null;
+      },
+    },
+  );
+}
+
+/** Sequence for a UniProt accession: UniProt, else the sequence AlphaFold DB predicted from. */
+export function getUniProtSequence(accession: string, ctx: Context): Promise<string | null> {
+  const acc = accession.toUpperCase();
+  return withFallback(
+    `sequence for ${acc}`,
+    ctx,
+    { provider: 'UniProt', load: () => getUniProtService().getSequence(acc, ctx) },
+    {
+      provider: 'AlphaFold DB',
+      load: async () => (await getAlphaFoldService().getPrediction(acc, ctx))?.sequence ?? null,
+    },
+  );
+}
+
+/**
+ * A PDB entry's coordinate file in `format`: RCSB, else PDBe. An unknown entry
+ * is RCSB's `NotFound` — PDBe is asked only when RCSB cannot answer.
+ */
+export function fetchEntryCoordinates(
+  pdbId: string,
+  format: 'cif' | 'pdb',
+  operation: string,
+  ctx: Context,
+): Promise<FetchedCoordinates> {
+  const id = pdbId.toUpperCase();
+  const download = async (url: string, label: string): Promise<FetchedCoordinates> => ({
+    text: await fetchText(url, ctx, {
+      operation,
+      label,
+      baseDelayMs: 400,
+      maxRetries: 1,
+      cache: 'entry',
+    }),
+    url,
+  });
+  return withFallback(
+    `${format} file for ${id}`,
+    ctx,
+    {
+      provider: RCSB_FILES,
+      load: () => download(getRcsbService().coordinateFileUrl(id, format), RCSB_FILES),
+    },
+    {
+      provider: PDBE_FILES,
+      load: () => download(getSiftsService().coordinateFileUrl(id, format), PDBE_FILES),
+    },
+  );
+}
+
+/**
+ * A biological assembly's mmCIF file, from RCSB alone: PDBe publishes its
+ * assemblies gzipped and from its own pipeline, with other chain names, so it
+ * is no stand-in. A missing assembly (or entry) is `NotFound`, naming both.
+ */
+export async function fetchAssemblyCoordinates(
+  pdbId: string,
+  assemblyId: string,
+  operation: string,
+  ctx: Context,
+): Promise<FetchedCoordinates> {
+  const id = pdbId.toUpperCase();
+  const url = getRcsbService().assemblyFileUrl(id, assemblyId, 'cif');
+  try {
+    const text = await fetchText(url, ctx, {
+      operation,
+      label: RCSB_FILES,
+      baseDelayMs: 400,
+      maxRetries: 1,
+      cache: 'entry',
+    });
+    return { text, url };
+  } catch (err) {
+    if (err instanceof McpError && err.code === JsonRpcErrorCode.NotFound) {
+      throw notFound(
+        `${id} has no biological assembly ${assemblyId}, or the entry does not exist. protein_get_structure lists an entry's assemblies.`,
+        { pdbId: id, assemblyId },
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * An RCSB computed structure model's mmCIF file (`AF_*` / `MA_*`), from RCSB
+ * alone: PDBe archives experimental entries only. A missing model is `NotFound`.
+ */
+export async function fetchComputedModelCoordinates(
+  modelId: string,
+  operation: string,
+  ctx: Context,
+): Promise<FetchedCoordinates> {
+  const id = modelId.toUpperCase();
+  const url = getRcsbService().coordinateFileUrl(id, 'cif');
+  try {
+    const text = await fetchText(url, ctx, {
+      operation,
+      label: RCSB_FILES,
+      baseDelayMs: 400,
+      maxRetries: 1,
+      cache: 'prediction',
+    });
+    return { text, url };
+  } catch (err) {
+    if (err instanceof McpError && err.code === JsonRpcErrorCode.NotFound) {
+      throw notFound(
+        `RCSB has no computed structure model ${id}. protein_search_structures lists computed-model IDs.`,
+        { modelId: id },
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * Read a 3D-Beacons AlphaFold DB listing as an {@link AlphaFoldModel}. Beacons
+ * carries one model URL (mmCIF); AlphaFold DB publishes the PDB file beside it
+ * under the same stem. Confidence buckets and PAE are not federated.
+ */
+function beaconPrediction(accession: string, model: BeaconModel): AlphaFoldModel {
+  const url = model.modelUrl as string;
+  const version = /_v(\d+)\.\w+$/.exec(url)?.[1];
+  const isCif = /\.cif$/i.test(url);
+  return {
+    uniprotAccession: accession,
+    entryId: model.modelIdentifier,
+    ...(isCif ? { cifUrl: url, pdbUrl: url.replace(/\.cif$/i, '.pdb') } : { pdbUrl: url }),
+    ...(version ? { modelVersion: Number(version) } : {}),
+    ...(typeof model.confidenceAvgLocalScore === 'number' &&
+    model.confidenceType?.toLowerCase() === 'plddt'
+      ? { meanPlddt: model.confidenceAvgLocalScore }
+      : {}),
+    ...(typeof model.uniprotEnd === 'number' && typeof model.uniprotStart === 'number'
+      ? { sequenceLength: model.uniprotEnd - model.uniprotStart + 1 }
+      : {}),
+  };
+}
@@ -6,12 +6,17 @@
  * cross-tab the facet engine produces; the flat variant drops the child position
  * for the tool that requests single-dimension breakdowns only. Every dimension
  * position also reports its coverage gap, so buckets that sum to less than the
- * stated total say so.
+ * stated total say so. Cross-tool pieces (attribution, fallback provenance, the
+ * response-cache enrichment field, the `residues` range input) live here too so
+ * every tool describes them identically.
  * @module mcp-server/tools/definitions/_schemas
  */
 
-import { z } from '@cyanheads/mcp-ts-core';
+import { type Context, z } from '@cyanheads/mcp-ts-core';
+import type { ResidueRange } from '@/services/alphafold/domains.js';
 import type { ContentType, FacetDimension } from '@/services/rcsb/types.js';
+import { fallbackNotice, fallbacksFor } from '@/services/shared/fallback.js';
+import { throttleNotice } from '@/services/shared/rate-limit.js';
 
 /**
  * The agent-facing `content_type` scope → the RCSB content universes it selects.
@@ -331,6 +336,32 @@ export function coverageNotices(facets: FacetDimensionOutput[], total: number):
   return notices;
 }
 
+/**
+ * Publish a tool's advisories as its single `notice`, followed by any provider
+ * fallback and upstream throttling the request went through. `notice` is
+ * last-wins, so writing it directly would overwrite the rate limiter's own report.
+ */
+export function publishNotices(ctx: Context, notices: string[]): void {
+  const all = [...notices, fallbackNotice(ctx), throttleNotice(ctx)].filter(
+    (n): n is string => n !== undefined,
+  );
+  if (all.length > 0) ctx.enrich.notice(all.join(' '));
+}
+
+/**
+ * Enrichment field for tools backed by cacheable upstream reads. Spread into a
+ * tool's `enrichment` block so the hit count `services/shared/cache` publishes
+ * survives the effective-output parse.
+ */
+export const cacheEnrichment = {
+  cacheHits: z
+    .number()
+    .optional()
+    .describe(
+      'Upstream responses served from the persistent response cache instead of refetched. Absent when every read went upstream.',
+    ),
+};
+
 /** License + citation for one upstream data source that contributed to a response. */
 export const attributionSchema = z
   .object({
@@ -355,3 +386,60 @@ export function renderAttribution(attributions: AttributionOutput[]): string[] {
   }
   return lines;
 }
+
+/** A read answered by a secondary provider because the primary was unavailable. */
+export const fallbackSchema = z
+  .object({
+    data: z.string().describe('What was served (e.g. "cif file for 4HHB", "sequence for P69905").'),
+    primary: z.string().describe('Provider normally asked, which was unavailable.'),
+    provider: z.string().describe('Provider that answered instead (e.g. "PDBe entry files").'),
+    reason: z.string().describe("The primary's failure — its error message."),
+  })
+  .describe('Provenance of one fallback read.');
+
+export type FallbackOutput = z.infer<typeof fallbackSchema>;
+
+/**
+ * The request's fallback reads as a spreadable output fragment — empty when
+ * every read came from its primary, so the field is absent in the normal case.
+ */
+export function fallbacksOutput(ctx: Context): { fallbacks?: FallbackOutput[] } {
+  const record = fallbacksFor(ctx);
+  return record.length > 0 ? { fallbacks: [...record] } : {};
+}
+
+/** Render fallback provenance to one markdown line per read for `format()` parity. */
+export function renderFallbacks(fallbacks: FallbackOutput[]): string[] {
+  return fallbacks.map(
+    (f) => `- ${f.data}: **${f.provider}** (${f.primary} unavailable — ${f.reason})`,
+  );
+}
+
+const RESIDUE_RANGE_RE = /^\s*(\d+)\s*-\s*(\d+)\s*$/;
+
+/**
+ * A `"start-end"` residue range (1-based, inclusive) restricting a tool to one
+ * domain — typically a `domains[]` entry from protein_get_confidence. Syntax is
+ * checked here; whether the range fits the structure is the tool's call.
+ */
+export const residueRangeSchema = z
+  .string()
+  .regex(RESIDUE_RANGE_RE, 'Expected "start-end", e.g. "25-180".')
+  .refine((value) => {
+    const range = parseResidueRange(value);
+    return range.start >= 1 && range.start <= range.end;
+  }, 'Range start must be at least 1 and not after its end.');
+
+/** Parse a value that passed {@link residueRangeSchema}. */
+export function parseResidueRange(value: string): ResidueRange {
+  const m = RESIDUE_RANGE_RE.exec(value);
+  return { start: Number(m?.[1] ?? 0), end: Number(m?.[2] ?? 0) };
+}
+
+/**
+ * A biological assembly ID (`1`, `2`, …) as protein_get_structure lists it. Kept
+ * to letters and digits so it slots into a download file name unescaped.
+ */
+export const assemblyIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9]+$/, 'Expected an assembly ID such as "1".');
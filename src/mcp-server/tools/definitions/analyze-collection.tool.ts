@@ -18,9 +18,11 @@ import {
 import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
 import {
   CONTENT_TYPE_SCOPES,
+  cacheEnrichment,
   countBuckets,
   coverageNotices,
   facetDimensionSchema,
+  publishNotices,
   renderFacets,
   toFacetOutput,
 } from './_schemas.js';
@@ -143,6 +145,7 @@ export const analyzeCollection = tool('protein_analyze_collection', {
           'cross-tab, the nested child buckets under each of them. Since bucket_limit caps each level ' +
           'separately, this is the size those caps actually produced — always present, cross-tab or not.',
       ),
+    ...cacheEnrichment,
   },
 
   async handler(input, ctx) {
@@ -206,7 +209,7 @@ export const analyzeCollection = tool('protein_analyze_collection', {
       }
     }
     notices.push(...coverageNotices(out, total));
-    if (notices.length > 0) ctx.enrich.notice(notices.join(' '));
+    publishNotices(ctx, notices);
 
     const scopeBits = [input.query, input.organism, input.method].filter(Boolean);
     if (scopeBits.length > 0) ctx.enrich({ scope: scopeBits.join(' · ') });
@@ -0,0 +1,517 @@
+/**
+ * @fileoverview protein_analyze_interface — protein–protein interfaces between
+ * chains of one experimental entry or predicted multimer, computed in-process
+ * from its parsed coordinates. For two named chains, or every chain pair in
+ * contact (largest first), lists the interface residues on each side — within
+ * the contact cutoff of the partner, or losing surface to it — with their
+ * closest approach and buried area, the interface area (half the SASA the pair
+ * buries, measured on the pair alone), and the hydrogen bonds, salt bridges,
+ * and disulfides across it. Predicted multimers come as RCSB computed-model IDs
+ * (`AF_*` / `MA_*`); AlphaFold DB's own models are single chains. Each chain is
+ * named by its UniProt accession: RCSB's entity cross-references for an entry or
+ * computed model, the modeled accession for an AlphaFold DB prediction.
+ * A PDB entry can be read as one of its biological assemblies, where symmetry
+ * copies complete the interfaces the asymmetric unit cuts.
+ * @module mcp-server/tools/definitions/analyze-interface.tool
+ */
+
+import { tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
+import type { UniProtXref } from '@/services/rcsb/types.js';
+import { attributionsFor } from '@/services/shared/attribution.js';
+import { isComputedModelId } from '@/services/shared/identifiers.js';
+import {
+  type ChainInterface,
+  type ContactSide,
+  contactingChains,
+  DEFAULT_CONTACT_CUTOFF,
+  INTERFACE_CONTACT_TYPES,
+  type InterfaceContact,
+  type InterfaceResidue,
+  interfaceBetween,
+} from '@/services/structure/interface.js';
+import { isPolymerResidue } from '@/services/structure/selection.js';
+import { assemblyNotices, coordinateSourceOf, loadCoordinates } from './_coordinates.js';
+import {
+  assemblyIdSchema,
+  attributionSchema,
+  cacheEnrichment,
+  fallbackSchema,
+  fallbacksOutput,
+  publishNotices,
+  renderAttribution,
+  renderFallbacks,
+} from './_schemas.js';
+
+const residueSchema = z
+  .object({
+    chain: z.string().describe('Author chain ID.'),
+    residue: z.number().describe('Author residue number.'),
+    insCode: z.string().optional().describe('PDB insertion code, when present.'),
+    compId: z.string().describe('Residue type (e.g. LEU).'),
+    closest: z.number().describe('Shortest heavy-atom distance to the partner chain (Å).'),
+    buriedSasa: z
+      .number()
+      .optional()
+      .describe('Surface the partner chain buries (Å²); absent when none.'),
+  })
+  .describe('A residue at the interface.');
+
+const sideSchema = z
+  .object({
+    chain: z.string().describe('Author chain ID.'),
+    residue: z.number().describe('Author residue number.'),
+    insCode: z.string().optional().describe('PDB insertion code, when present.'),
+    compId: z.string().describe('Residue type (e.g. ASP).'),
+    atom: z.string().describe('Atom name (e.g. OD1, NZ, SG).'),
+  })
+  .describe('One atom of a contact.');
+
+const contactSchema = z
+  .object({
+    type: z
+      .enum(INTERFACE_CONTACT_TYPES)
+      .describe('disulfide (SG–SG), salt_bridge (charged N to carboxylate O), or hydrogen_bond.'),
+    first: sideSchema.describe("The atom on the interface's first chain."),
+    second: sideSchema.describe("The atom on the interface's second chain."),
+    distance: z.number().describe('Atom-to-atom distance (Å).'),
+    donor: z
+      .string()
+      .optional()
+      .describe(
+        'Chain of the donating atom (hydrogen_bond). Absent when either atom could donate.',
+      ),
+    positive: z.string().optional().describe('Chain carrying the positive charge (salt_bridge).'),
+  })
+  .describe('One typed contact across the interface.');
+
+const interfaceSchema = z
+  .object({
+    chains: z.array(z.string()).describe('The two author chain IDs.'),
+    interfaceArea: z
+      .number()
+      .describe(
+        'Interface area (Å²): half the surface buried between the pair, as PISA reports it.',
+      ),
+    buriedSasa: z.number().describe('Surface buried between the pair, both sides together (Å²).'),
+    residues: z
+      .array(residueSchema)
+      .describe("Interface residues: the first chain's, then the second's, each in chain order."),
+    contacts: z
+      .array(contactSchema)
+      .describe(
+        'Disulfides, then salt bridges (closest pair per residue pair), then hydrogen bonds, each by distance.',
+      ),
+  })
+  .describe('The interface between two chains.');
+
+const chainSchema = z
+  .object({
+    chain: z.string().describe('Author chain ID.'),
+    accession: z
+      .string()
+      .optional()
+      .describe(
+        'UniProt accession of the chain; absent when the entity has no UniProt cross-reference.',
+      ),
+    proteinName: z.string().optional().describe('Polymer entity description, when known.'),
+  })
+  .describe('A chain taking part in an interface, mapped to UniProt.');
+
+export const analyzeInterface = tool('protein_analyze_interface', {
+  title: 'protein-mcp-server: analyze interface',
+  description:
+    'Analyze protein–protein interfaces between chains of a PDB entry or a predicted multimer (an RCSB ' +
+    'computed-model ID such as MA_* from protein_search_structures), computed in-process from the ' +
+    'coordinates. A UniProt accession or AF-* entry ID reads the AlphaFold DB model, which is a single ' +
+    'chain and so has no interface. Name two chains, or omit chains to analyze every chain pair in ' +
+    'contact, largest first. For each interface: the residues on ' +
+    'both sides — any heavy atom within cutoff of the partner chain, or surface buried by it — with ' +
+    'their closest approach and buried SASA (Shrake–Rupley); the interface area (half the surface the ' +
+    'pair buries, measured on the pair alone); and the hydrogen bonds (with the donating chain), salt ' +
+    'bridges, and disulfides across it, atom by atom. Each chain is mapped to its UniProt accession ' +
+    'and protein name. Distance criteria on heavy atoms — no hydrogens are placed. Works on the ' +
+    'deposited asymmetric unit unless assembly_id names a biological assembly of a PDB entry (listed by ' +
+    'protein_get_structure) — needed when the functional complex spans symmetry copies. NMR ensembles ' +
+    'use the first model unless model is set.',
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  errors: [
+    {
+      reason: 'invalid_id',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The id is none of a PDB entry ID, an RCSB computed-model ID, a UniProt accession, or an AlphaFold entry ID.',
+      recovery:
+        'Pass a 4-character PDB ID (e.g. 4HHB), a computed-model ID (e.g. MA_MABAKCEPC0001), a UniProt accession (e.g. P69905), or an AlphaFold entry ID (e.g. AF-P69905-F1).',
+    },
+    {
+      reason: 'no_model',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'AlphaFold DB has no model with coordinates for the accession.',
+      recovery:
+        'Verify the accession, or find an experimental complex with protein_search_structures.',
+    },
+    {
+      reason: 'model_not_found',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The requested model number is not in the coordinate file.',
+      recovery: 'Omit model to use the first one; the error lists the model numbers present.',
+    },
+    {
+      reason: 'chain_not_found',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'A requested chain has no polymer residues in the model, or both chains are the same.',
+      recovery:
+        'Pass two different author chain IDs as shown by protein_get_structure, or omit chains to analyze every contacting pair.',
+    },
+  ],
+
+  input: z.object({
+    id: z
+      .string()
+      .min(1)
+      .describe(
+        'PDB entry ID, RCSB computed-model ID (AF_* / MA_*), UniProt accession (AlphaFold model), or AlphaFold entry ID.',
+      ),
+    chains: z
+      .array(z.string().min(1))
+      .length(2)
+      .optional()
+      .describe(
+        'Two author chain IDs, e.g. ["A", "B"]. Omit to analyze every chain pair in contact, largest first.',
+      ),
+    model: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Model number for multi-model (NMR) files. Defaults to the first model.'),
+    assembly_id: assemblyIdSchema
+      .optional()
+      .describe(
+        'Biological assembly of a PDB entry to analyze (e.g. "1"), as protein_get_structure lists them. Omit for the asymmetric unit; ignored for predicted models.',
+      ),
+    cutoff: z
+      .number()
+      .min(3)
+      .max(10)
+      .default(DEFAULT_CONTACT_CUTOFF)
+      .describe(
+        'Heavy-atom distance (Å) that puts a residue at the interface. Residues farther out still count when the partner buries their surface.',
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(25)
+      .default(6)
+      .describe(
+        'Most chain pairs to analyze when chains is omitted, taking those with the most atom contacts first.',
+      ),
+  }),
+
+  output: z.object({
+    id: z.string().describe('Analyzed entry: PDB ID, computed-model ID, or AlphaFold entry ID.'),
+    source: z
+      .enum(['experimental', 'predicted'])
+      .describe('Experimental (RCSB PDB) or predicted (an RCSB computed model, or AlphaFold DB).'),
+    modelNumber: z.number().describe('Model analyzed.'),
+    modelCount: z.number().describe('Models in the coordinate file.'),
+    assemblyId: z
+      .string()
+      .optional()
+      .describe('Biological assembly analyzed. Absent for the asymmetric unit.'),
+    chains: z
+      .array(chainSchema)
+      .describe('Chains taking part in the reported interfaces, in model order.'),
+    interfaces: z
+      .array(interfaceSchema)
+      .describe(
+        'The requested pair, or the contacting pairs by size. Empty when no two chains touch.',
+      ),
+    attribution: z
+      .array(attributionSchema)
+      .describe('Upstream data-source license and citation for the coordinates. Always present.'),
+    fallbacks: z
+      .array(fallbackSchema)
+      .optional()
+      .describe(
+        'Reads answered by a secondary provider because the primary was unavailable — coordinates from PDBe while RCSB files were down, an AlphaFold model located via 3D-Beacons. Absent when every read came from its primary.',
+      ),
+  }),
+
+  enrichment: {
+    totalCount: z
+      .number()
+      .optional()
+      .describe('Chain pairs in contact before limit applied (chains omitted).'),
+    notice: z
+      .string()
+      .optional()
+      .describe(
+        'Advisory note (chains that do not touch, pairs left out by limit, UniProt mapping unavailable, fallback providers).',
+      ),
+    ...cacheEnrichment,
+  },
+
+  async handler(input, ctx) {
+    const id = input.id.trim();
+    const computedModel = isComputedModelId(id);
+    const source = computedModel ? 'predicted' : coordinateSourceOf(id);
+    if (!source) {
+      throw ctx.fail(
+        'invalid_id',
+        `"${id}" is not a PDB ID, computed-model ID, UniProt accession, or AlphaFold entry ID.`,
+        { ...ctx.recoveryFor('invalid_id') },
+      );
+    }
+    const [first, second] = input.chains ?? [];
+    if (first !== undefined && first === second) {
+      throw ctx.fail(
+        'chain_not_found',
+        `An interface needs two different chains; got ${first} twice.`,
+        {
+          ...ctx.recoveryFor('chain_not_found'),
+        },
+      );
+    }
+    const notices: string[] = [];
+    // The UniProt mapping is a label on the result, so its failure is a notice, not an error.
+    const [loaded, xrefs] = await Promise.all([
+      loadCoordinates(id, ctx, input.assembly_id),
+      source === 'experimental' || computedModel
+        ? getRcsbService()
+            .resolveUniprotEntities(id, ctx)
+            .catch((err: unknown): undefined => {
+              notices.push(
+                `UniProt mapping unavailable (${err instanceof Error ? err.message : String(err)}); chains are unlabelled.`,
+              );
+              return;
+            })
+        : undefined,
+    ]);
+    if (!loaded) {
+      throw ctx.fail(
+        'no_model',
+        `No AlphaFold model with coordinates found for ${id.toUpperCase()}.`,
+        { ...ctx.recoveryFor('no_model') },
+      );
+    }
+    notices.push(...assemblyNotices(loaded, input.assembly_id));
+    const { models } = loaded.structure;
+    const model =
+      input.model === undefined ? models[0] : models.find((m) => m.modelNumber === input.model);
+    if (!model) {
+      throw ctx.fail(
+        'model_not_found',
+        `Model ${input.model} is not in ${loaded.id}; models present: ${models.map((m) => m.modelNumber).join(', ') || 'none'}.`,
+        { ...ctx.recoveryFor('model_not_found') },
+      );
+    }
+    const options = { cutoff: input.cutoff };
+
+    let found: ChainInterface[];
+    if (first !== undefined && second !== undefined) {
+      const pair = interfaceBetween(model, first, second, options);
+      if (!pair) {
+        const polymer = model.chains
+          .filter((c) => c.residues.some(isPolymerResidue))
+          .map((c) => c.id);
+        const missing = [first, second].filter((c) => !polymer.includes(c));
+        throw ctx.fail(
+          'chain_not_found',
+          `Chain ${missing.join(' and ')} has no polymer residues in ${loaded.id}; polymer chains: ${polymer.join(', ') || 'none'}.`,
+          { ...ctx.recoveryFor('chain_not_found') },
+        );
+      }
+      if (pair.residues.length === 0) {
+        notices.push(
+          `Chains ${first} and ${second} do not touch in ${loaded.id} (nothing within ${input.cutoff} Å, no surface buried).`,
+        );
+      }
+      found = [pair];
+    } else {
+      const pairs = contactingChains(model, input.cutoff).sort((a, b) => b.atomPairs - a.atomPairs);
+      if (pairs.length === 0) {
+        notices.push(
+          `No two polymer chains of ${loaded.id} come within ${input.cutoff} Å — a single chain${loaded.source === 'experimental' && !loaded.assemblyId ? ', or chains that only touch in the biological assembly (set assembly_id)' : ''}.`,
+        );
+      }
+      ctx.enrich.total(pairs.length);
+      if (pairs.length > input.limit) {
+        notices.push(
+          `Analyzed the ${input.limit} largest of ${pairs.length} contacting chain pairs; raise limit or name chains to see others.`,
+        );
+      }
+      found = pairs
+        .slice(0, input.limit)
+        .map(({ chains: [a, b] }) => interfaceBetween(model, a, b, options))
+        .filter((i) => i !== undefined);
+    }
+    publishNotices(ctx, notices);
+
+    const involved = new Set(found.flatMap((i) => i.chains));
+    // Only an AlphaFold DB model (one chain) takes its label from the model ID itself.
+    const alphaFoldModelId =
+      loaded.source === 'predicted' && !computedModel ? loaded.id : undefined;
+    return {
+      id: loaded.id,
+      source: loaded.source,
+      modelNumber: model.modelNumber,
+      modelCount: models.length,
+      ...(loaded.assemblyId ? { assemblyId: loaded.assemblyId } : {}),
+      chains: model.chains
+        .filter((c) => involved.has(c.id))
+        .map((c) => chainRow(c.id, alphaFoldModelId, xrefs)),
+      interfaces: found.map(interfaceRow),
+      attribution: attributionsFor([sourceName(loaded.id, loaded.source)]),
+      ...fallbacksOutput(ctx),
+    };
+  },
+
+  format: (result) => {
+    const lines: string[] = [
+      `## ${result.id} chain interfaces (${result.source}${result.assemblyId ? `, assembly ${result.assemblyId}` : ''}, model ${result.modelNumber} of ${result.modelCount})`,
+    ];
+    if (result.chains.length > 0) {
+      lines.push('\n### Chains', '| Chain | UniProt | Protein |', '|:---|:---|:---|');
+      for (const c of result.chains) {
+        lines.push(`| ${c.chain} | ${c.accession ?? '—'} | ${c.proteinName ?? '—'} |`);
+      }
+    }
+    if (result.interfaces.length === 0) lines.push('\nNo chain pair is in contact.');
+    for (const i of result.interfaces) formatInterface(lines, i);
+    if (result.attribution.length > 0) {
+      lines.push(`\n### Attribution`);
+      lines.push(...renderAttribution(result.attribution));
+    }
+    if (result.fallbacks?.length) {
+      lines.push('\n### Fallback providers');
+      lines.push(...renderFallbacks(result.fallbacks));
+    }
+    return [{ type: 'text', text: lines.join('\n') }];
+  },
+});
+
+type InterfaceOut = z.infer<typeof interfaceSchema>;
+type SideOut = z.infer<typeof sideSchema>;
+
+function formatInterface(lines: string[], i: InterfaceOut): void {
+  lines.push(`\n### Interface ${i.chains.join('–')}`);
+  if (i.residues.length === 0) {
+    lines.push('The chains do not touch.');
+    return;
+  }
+  const count = (type: string) => i.contacts.filter((c) => c.type === type).length;
+  const perChain = i.chains.map(
+    (chain) => `${i.residues.filter((r) => r.chain === chain).length} (${chain})`,
+  );
+  lines.push(
+    `**Interface area:** ${i.interfaceArea.toFixed(1)} Å² | **Buried, both sides:** ${i.buriedSasa.toFixed(1)} Å² | ` +
+      `**Residues:** ${perChain.join(' + ')} | **H-bonds:** ${count('hydrogen_bond')} | ` +
+      `**Salt bridges:** ${count('salt_bridge')} | **Disulfides:** ${count('disulfide')}`,
+  );
+  lines.push('', '| Chain | Residue | Closest (Å) | Buried (Å²) |', '|:---|:---|---:|---:|');
+  for (const r of i.residues) {
+    lines.push(
+      `| ${r.chain} | ${r.compId}${r.residue}${r.insCode ?? ''} | ${r.closest.toFixed(2)} | ${r.buriedSasa?.toFixed(1) ?? '—'} |`,
+    );
+  }
+  if (i.contacts.length === 0) {
+    lines.push('\nNo hydrogen bonds, salt bridges, or disulfides.');
+    return;
+  }
+  lines.push(
+    '',
+    `| Type | ${i.chains[0]} | ${i.chains[1]} | Distance | Detail |`,
+    '|:---|:---|:---|---:|:---|',
+  );
+  for (const c of i.contacts) {
+    const detail = [
+      c.donor ? `donor: ${c.donor}` : null,
+      c.positive ? `positive: ${c.positive}` : null,
+    ].filter(Boolean);
+    lines.push(
+      `| ${c.type} | ${sideLabel(c.first)} | ${sideLabel(c.second)} | ${c.distance.toFixed(2)} Å | ${detail.join(', ')} |`,
+    );
+  }
+}
+
+/** `ASP45A OD1 (chain B)` */
+function sideLabel(s: SideOut): string {
+  return `${s.compId}${s.residue}${s.insCode ?? ''} ${s.atom} (chain ${s.chain})`;
+}
+
+function interfaceRow(i: ChainInterface): InterfaceOut {
+  return {
+    chains: [...i.chains],
+    interfaceArea: i.interfaceArea,
+    buriedSasa: i.buriedSasa,
+    residues: i.residues.map(residueRow),
+    contacts: i.contacts.map(contactRow),
+  };
+}
+
+function residueRow({ chain, residue, closest, buriedSasa }: InterfaceResidue) {
+  return {
+    chain,
+    residue: residue.authSeqId,
+    ...(residue.insCode ? { insCode: residue.insCode } : {}),
+    compId: residue.compId,
+    closest,
+    ...(buriedSasa !== undefined ? { buriedSasa } : {}),
+  };
+}
+
+function contactRow({ type, sides, distance, donor, positive }: InterfaceContact) {
+  return {
+    type,
+    first: sideRow(sides[0]),
+    second: sideRow(sides[1]),
+    distance,
+    ...(donor ? { donor } : {}),
+    ...(positive ? { positive } : {}),
+  };
+}
+
+function sideRow({ chain, residue, atom }: ContactSide): SideOut {
+  return {
+    chain,
+    residue: residue.authSeqId,
+    ...(residue.insCode ? { insCode: residue.insCode } : {}),
+    compId: residue.compId,
+    atom,
+  };
+}
+
+/**
+ * The data source to credit: the PDB for an entry, the modelling provider for a
+ * computed model (RCSB serves it, but the license is the provider's).
+ */
+function sourceName(id: string, source: 'experimental' | 'predicted'): string {
+  if (source === 'experimental') return 'RCSB PDB';
+  return /^MA_/i.test(id) ? 'ModelArchive' : 'AlphaFold DB';
+}
+
+/**
+ * A chain's UniProt label: the entity cross-reference covering it (an entry or
+ * computed model), or the accession an AlphaFold DB model — one chain — models.
+ */
+function chainRow(
+  chain: string,
+  predictedId: string | undefined,
+  xrefs: UniProtXref[] | undefined,
+) {
+  if (predictedId) {
+    return { chain, accession: /^AF-(.+)-F\d+$/i.exec(predictedId)?.[1] ?? predictedId };
+  }
+  // RCSB names the symmetry copies in an assembly file `<chain>-<operator>` (e.g. `A-2`).
+  const base = chain.replace(/-\d+$/, '');
+  const xref = xrefs?.find((x) => x.chains.includes(chain) || x.chains.includes(base));
+  return {
+    chain,
+    ...(xref ? { accession: xref.accession } : {}),
+    ...(xref?.proteinName ? { proteinName: xref.proteinName } : {}),
+  };
+}
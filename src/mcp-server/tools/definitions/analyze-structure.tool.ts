@@ -0,0 +1,514 @@
+/**
+ * @fileoverview protein_analyze_structure — in-process structural analysis of one
+ * experimental entry or AlphaFold model from its parsed coordinates. Secondary
+ * structure is assigned DSSP-style from backbone hydrogen bonds (H, G, I, E, B,
+ * T, S, coil) over the whole model, so sheets spanning chains are found, and is
+ * reported per chain as a string aligned with the sequence plus helix and strand
+ * segment lists. On predicted models the low-pLDDT stretches are cross-checked
+ * against the assignment: a region with no helix or strand is likely disordered,
+ * one that keeps its secondary structure is a placed-but-uncertain element.
+ * Surface analysis (Shrake–Rupley) is opt-in through `include`: per-residue
+ * absolute and relative accessibility — the buried-or-exposed answer for a
+ * variant position — per-chain totals, and the area buried at each chain pair.
+ * A PDB entry can be analyzed as one of its biological assemblies.
+ * @module mcp-server/tools/definitions/analyze-structure.tool
+ */
+
+import { tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { attributionsFor } from '@/services/shared/attribution.js';
+import {
+  assignSecondaryStructure,
+  type ChainSecondaryStructure,
+} from '@/services/structure/dssp.js';
+import { computeSasa, type ResidueSasa } from '@/services/structure/sasa.js';
+import { assemblyNotices, coordinateSourceOf, loadCoordinates } from './_coordinates.js';
+import {
+  assemblyIdSchema,
+  attributionSchema,
+  cacheEnrichment,
+  fallbackSchema,
+  fallbacksOutput,
+  parseResidueRange,
+  publishNotices,
+  renderAttribution,
+  renderFallbacks,
+  residueRangeSchema,
+} from './_schemas.js';
+
+/** pLDDT below this is AlphaFold's "very low" band — the usual disorder signal. */
+const LOW_PLDDT = 50;
+/** Shortest low-pLDDT run reported; shorter dips are ordinary loop noise. */
+const MIN_LOW_PLDDT_RUN = 5;
+/** Relative accessibility below this counts as buried — the common two-state cut. */
+const BURIED_RSA = 0.25;
+
+const segmentSchema = z
+  .object({
+    type: z.enum(['H', 'G', 'I', 'E']).describe('H α-helix, G 3₁₀-helix, I π-helix, E β-strand.'),
+    start: z.number().describe('Author residue number of the first residue.'),
+    end: z.number().describe('Author residue number of the last residue.'),
+    length: z.number().describe('Residues in the segment.'),
+  })
+  .describe('A contiguous helix or strand.');
+
+const lowPlddtSchema = z
+  .object({
+    start: z.number().describe('Author residue number of the first residue.'),
+    end: z.number().describe('Author residue number of the last residue.'),
+    meanPlddt: z.number().describe('Mean pLDDT over the run.'),
+    structuredFraction: z
+      .number()
+      .describe(
+        'Fraction (0–1) of the run assigned helix or strand. Near 0: likely disordered. Substantial: a real element placed with low confidence.',
+      ),
+  })
+  .describe(`A run of ${MIN_LOW_PLDDT_RUN}+ residues with pLDDT below ${LOW_PLDDT}.`);
+
+const surfaceResidueSchema = z
+  .object({
+    residue: z.number().describe('Author residue number.'),
+    insCode: z.string().optional().describe('PDB insertion code, when present.'),
+    compId: z.string().describe('Chemical component ID (ALA, MSE, DA).'),
+    sasa: z.number().describe('Solvent-accessible surface area in the full model (Å²).'),
+    relativeSasa: z
+      .number()
+      .optional()
+      .describe(
+        'sasa over the residue type maximum (Tien et al. 2013); amino acids only. Can slightly exceed 1 at termini.',
+      ),
+    exposure: z
+      .enum(['buried', 'exposed'])
+      .optional()
+      .describe(
+        `buried below ${BURIED_RSA} relative accessibility, else exposed; amino acids only.`,
+      ),
+    buriedSasa: z
+      .number()
+      .optional()
+      .describe('Area this residue loses to other chains (Å²); absent when it touches none.'),
+  })
+  .describe('Accessibility of one polymer residue.');
+
+const chainSchema = z
+  .object({
+    chain: z.string().describe('Author chain ID.'),
+    residueCount: z.number().describe('Amino-acid residues with a complete backbone.'),
+    sequence: z
+      .string()
+      .describe('One-letter sequence of those residues (X for unknown components).'),
+    secondaryStructure: z
+      .object({
+        ss: z
+          .string()
+          .describe(
+            'One DSSP code per residue, aligned with sequence: H α-helix, G 3₁₀-helix, I π-helix, E strand, B isolated bridge, T turn, S bend, - coil.',
+          ),
+        helices: z.array(segmentSchema).describe('Helices (H, G, I) in sequence order.'),
+        strands: z.array(segmentSchema).describe('Strands (E) in sequence order.'),
+        helixFraction: z.number().describe('Fraction of residues in H, G, or I.'),
+        strandFraction: z.number().describe('Fraction of residues in E or B.'),
+        lowPlddtRegions: z
+          .array(lowPlddtSchema)
+          .optional()
+          .describe('Predicted models only: low-confidence runs checked against the assignment.'),
+      })
+      .optional()
+      .describe(
+        'DSSP-style secondary structure assignment. Present when include has secondary_structure.',
+      ),
+    surface: z
+      .object({
+        sasa: z.number().describe('Chain surface in the full model (Å²).'),
+        isolatedSasa: z.number().describe('Chain surface with every other chain removed (Å²).'),
+        buriedSasa: z.number().describe('isolatedSasa − sasa: area buried by other chains (Å²).'),
+        residues: z
+          .array(surfaceResidueSchema)
+          .describe('Per residue, in chain order; limited to the residues range when given.'),
+      })
+      .optional()
+      .describe('Solvent accessibility (Shrake–Rupley). Present when include has surface.'),
+  })
+  .describe('Analysis of one protein chain.');
+
+const interfaceSchema = z
+  .object({
+    chains: z.array(z.string()).describe('The two author chain IDs.'),
+    buriedSasa: z
+      .number()
+      .describe(
+        'Total surface buried between the pair, both sides (Å²). Half of it is the conventional interface area.',
+      ),
+  })
+  .describe('Surface buried between two chains.');
+
+export const analyzeStructure = tool('protein_analyze_structure', {
+  title: 'protein-mcp-server: analyze structure',
+  description:
+    'Compute structural properties in-process from the coordinates of a PDB entry or an AlphaFold model ' +
+    '(UniProt accession or AF-* entry ID). Assigns DSSP-style secondary structure from backbone hydrogen ' +
+    'bonds — H α-helix, G 3₁₀-helix, I π-helix, E strand, B isolated bridge, T turn, S bend, - coil — ' +
+    'returned per chain as a string aligned with the sequence plus helix/strand segment lists in author ' +
+    'numbering. For AlphaFold models, each low-pLDDT run (< 50) reports how much of it is still helix or ' +
+    'strand: none suggests genuine disorder, a substantial fraction a real element placed with low ' +
+    'confidence. Add "surface" to include for Shrake–Rupley solvent accessibility: per-residue absolute ' +
+    'and relative SASA with a buried/exposed call (e.g. is a variant from protein_get_annotations on the ' +
+    'surface?), per-chain totals, and the area buried at each chain–chain interface. Waters and ligands ' +
+    'are excluded from the surface. NMR ensembles use the first model unless model is set. Set assembly_id ' +
+    'to analyze a PDB entry as one of its biological assemblies (listed by protein_get_structure) rather ' +
+    'than the asymmetric unit, so surface and interfaces reflect the functional complex.',
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  errors: [
+    {
+      reason: 'invalid_id',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The id is neither a PDB entry ID, a UniProt accession, nor an AlphaFold entry ID.',
+      recovery:
+        'Pass a 4-character PDB ID (e.g. 1IEP), a UniProt accession (e.g. P00519), or an AlphaFold entry ID (e.g. AF-P00519-F1).',
+    },
+    {
+      reason: 'no_model',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'AlphaFold DB has no model with coordinates for the accession.',
+      recovery:
+        'Verify the accession, or find an experimental structure with protein_search_structures.',
+    },
+    {
+      reason: 'model_not_found',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The requested model number is not in the coordinate file.',
+      recovery: 'Omit model to use the first one; the error lists the model numbers present.',
+    },
+    {
+      reason: 'chain_not_found',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'None of the requested chains has an amino-acid backbone in the model.',
+      recovery:
+        'Use author chain IDs as shown by protein_get_structure; omit chains to analyze every protein chain.',
+    },
+  ],
+
+  input: z.object({
+    id: z
+      .string()
+      .min(1)
+      .describe('PDB entry ID, UniProt accession (AlphaFold model), or AlphaFold entry ID.'),
+    chains: z
+      .array(z.string().min(1))
+      .optional()
+      .describe(
+        'Author chain IDs to report. The assignment always runs on the whole model, so inter-chain sheets count.',
+      ),
+    model: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Model number for multi-model (NMR) files. Defaults to the first model.'),
+    assembly_id: assemblyIdSchema
+      .optional()
+      .describe(
+        'Biological assembly of a PDB entry to analyze (e.g. "1"), as protein_get_structure lists them. Omit for the asymmetric unit; ignored for predicted models.',
+      ),
+    include: z
+      .array(z.enum(['secondary_structure', 'surface']))
+      .min(1)
+      .default(['secondary_structure'])
+      .describe(
+        'Analyses to run: secondary_structure (DSSP) and/or surface (SASA). Surface is the slower of the two on large assemblies.',
+      ),
+    residues: residueRangeSchema
+      .optional()
+      .describe(
+        'Limit the per-residue surface rows to author residues "start-end" (inclusive), e.g. around a variant. Totals and interfaces still cover whole chains.',
+      ),
+  }),
+
+  output: z.object({
+    id: z.string().describe('Analyzed entry: PDB ID or AlphaFold entry ID.'),
+    source: z
+      .enum(['experimental', 'predicted'])
+      .describe('Experimental (RCSB PDB) or predicted (AlphaFold DB).'),
+    modelNumber: z.number().describe('Model analyzed.'),
+    modelCount: z.number().describe('Models in the coordinate file.'),
+    assemblyId: z
+      .string()
+      .optional()
+      .describe('Biological assembly analyzed. Absent for the asymmetric unit.'),
+    chains: z.array(chainSchema).describe('Per-chain results, in file order.'),
+    interfaces: z
+      .array(interfaceSchema)
+      .optional()
+      .describe(
+        'Chain pairs that bury surface, at least one side among the reported chains. Present when include has surface.',
+      ),
+    attribution: z
+      .array(attributionSchema)
+      .describe('Upstream data-source license and citation for the coordinates. Always present.'),
+    fallbacks: z
+      .array(fallbackSchema)
+      .optional()
+      .describe(
+        'Reads answered by a secondary provider because the primary was unavailable — coordinates from PDBe while RCSB files were down, an AlphaFold model located via 3D-Beacons. Absent when every read came from its primary.',
+      ),
+  }),
+
+  enrichment: {
+    notice: z
+      .string()
+      .optional()
+      .describe(
+        'Advisory note (requested chains missing, residues without surface, fallback providers).',
+      ),
+    ...cacheEnrichment,
+  },
+
+  async handler(input, ctx) {
+    const id = input.id.trim();
+    if (!coordinateSourceOf(id)) {
+      throw ctx.fail(
+        'invalid_id',
+        `"${id}" is not a PDB ID, UniProt accession, or AlphaFold entry ID.`,
+        {
+          ...ctx.recoveryFor('invalid_id'),
+        },
+      );
+    }
+    const loaded = await loadCoordinates(id, ctx, input.assembly_id);
+    if (!loaded) {
+      throw ctx.fail(
+        'no_model',
+        `No AlphaFold model with coordinates found for ${id.toUpperCase()}.`,
+        {
+          ...ctx.recoveryFor('no_model'),
+        },
+      );
+    }
+    const { models } = loaded.structure;
+    const model =
+      input.model === undefined ? models[0] : models.find((m) => m.modelNumber === input.model);
+    if (!model) {
+      throw ctx.fail(
+        'model_not_found',
+        `Model ${input.model} is not in ${loaded.id}; models present: ${models.map((m) => m.modelNumber).join(', ') || 'none'}.`,
+        { ...ctx.recoveryFor('model_not_found') },
+      );
+    }
+
+    const include = new Set(input.include);
+    const assigned = assignSecondaryStructure(model);
+    const wanted = input.chains ? new Set(input.chains) : undefined;
+    const chains = wanted ? assigned.filter((c) => wanted.has(c.chain)) : assigned;
+    if (chains.length === 0) {
+      throw ctx.fail(
+        'chain_not_found',
+        wanted
+          ? `None of chains ${[...wanted].join(', ')} has a protein backbone in ${loaded.id}; protein chains: ${assigned.map((c) => c.chain).join(', ') || 'none'}.`
+          : `${loaded.id} has no protein chain with a complete backbone.`,
+        { ...ctx.recoveryFor('chain_not_found') },
+      );
+    }
+    const notices = assemblyNotices(loaded, input.assembly_id);
+    if (wanted) {
+      const missing = [...wanted].filter((c) => !chains.some((a) => a.chain === c));
+      if (missing.length > 0) {
+        notices.push(`No protein backbone for chain(s) ${missing.join(', ')}; skipped.`);
+      }
+    }
+    if (input.residues && !include.has('surface')) {
+      notices.push('residues only limits the per-residue surface rows; add "surface" to include.');
+    }
+    publishNotices(ctx, notices);
+
+    const sasa = include.has('surface') ? computeSasa(model) : undefined;
+    const range = input.residues ? parseResidueRange(input.residues) : undefined;
+    const reported = new Set(chains.map((c) => c.chain));
+
+    return {
+      id: loaded.id,
+      source: loaded.source,
+      modelNumber: model.modelNumber,
+      modelCount: models.length,
+      ...(loaded.assemblyId ? { assemblyId: loaded.assemblyId } : {}),
+      chains: chains.map((c) => {
+        const surface = sasa?.chains.find((s) => s.chain === c.chain);
+        return {
+          chain: c.chain,
+          residueCount: c.residues.length,
+          sequence: c.sequence,
+          ...(include.has('secondary_structure')
+            ? {
+                secondaryStructure: {
+                  ss: c.ss,
+                  helices: c.helices,
+                  strands: c.strands,
+                  helixFraction: fraction(c.ss, /[HGI]/g),
+                  strandFraction: fraction(c.ss, /[EB]/g),
+                  ...(loaded.source === 'predicted' ? { lowPlddtRegions: lowPlddtRegions(c) } : {}),
+                },
+              }
+            : {}),
+          ...(surface
+            ? {
+                surface: {
+                  sasa: surface.sasa,
+                  isolatedSasa: surface.isolatedSasa,
+                  buriedSasa: surface.buriedSasa,
+                  residues: surface.residues
+                    .filter(
+                      (r) =>
+                        !range ||
+                        (r.residue.authSeqId >= range.start && r.residue.authSeqId <= range.end),
+                    )
+                    .map(surfaceRow),
+                },
+              }
+            : {}),
+        };
+      }),
+      ...(sasa
+        ? {
+            interfaces: sasa.interfaces.filter(
+              (i) => reported.has(i.chains[0]) || reported.has(i.chains[1]),
+            ),
+          }
+        : {}),
+      attribution: attributionsFor([loaded.source === 'predicted' ? 'AlphaFold DB' : 'RCSB PDB']),
+      ...fallbacksOutput(ctx),
+    };
+  },
+
+  format: (result) => {
+    const lines: string[] = [
+      `## ${result.id} structure analysis (${result.source}${result.assemblyId ? `, assembly ${result.assemblyId}` : ''}, model ${result.modelNumber} of ${result.modelCount})`,
+    ];
+    for (const c of result.chains) {
+      lines.push(`\n### Chain ${c.chain} — ${c.residueCount} residues`);
+      const ss = c.secondaryStructure;
+      if (ss) formatSecondaryStructure(lines, c.sequence, ss);
+      if (c.surface) formatSurface(lines, c.surface);
+    }
+    if (result.interfaces) {
+      lines.push(`\n### Interfaces`);
+      if (result.interfaces.length === 0) lines.push('No chain pair buries surface.');
+      for (const i of result.interfaces) {
+        lines.push(`- ${i.chains.join('–')}: ${i.buriedSasa.toFixed(1)} Å² buried`);
+      }
+    }
+    if (result.attribution.length > 0) {
+      lines.push(`\n### Attribution`);
+      lines.push(...renderAttribution(result.attribution));
+    }
+    if (result.fallbacks?.length) {
+      lines.push('\n### Fallback providers');
+      lines.push(...renderFallbacks(result.fallbacks));
+    }
+    return [{ type: 'text', text: lines.join('\n') }];
+  },
+});
+
+type ChainOut = z.infer<typeof chainSchema>;
+
+function formatSecondaryStructure(
+  lines: string[],
+  sequence: string,
+  ss: NonNullable<ChainOut['secondaryStructure']>,
+): void {
+  lines.push(
+    `**Helix:** ${(ss.helixFraction * 100).toFixed(0)}% | **Strand:** ${(ss.strandFraction * 100).toFixed(0)}% | ` +
+      `**Helices:** ${ss.helices.length} | **Strands:** ${ss.strands.length}`,
+  );
+  lines.push('```', sequence, ss.ss, '```');
+  const segments = [...ss.helices, ...ss.strands].sort((a, b) => a.start - b.start);
+  if (segments.length > 0) {
+    lines.push(segments.map((s) => `${s.type} ${s.start}–${s.end} (${s.length})`).join(', '));
+  }
+  if (ss.lowPlddtRegions?.length) {
+    lines.push('**Low-pLDDT regions:**');
+    for (const r of ss.lowPlddtRegions) {
+      lines.push(
+        `- ${r.start}–${r.end}: mean pLDDT ${r.meanPlddt.toFixed(1)}, ${(r.structuredFraction * 100).toFixed(0)}% helix/strand`,
+      );
+    }
+  }
+}
+
+function formatSurface(lines: string[], surface: NonNullable<ChainOut['surface']>): void {
+  lines.push(
+    `**SASA:** ${surface.sasa.toFixed(1)} Å² | **Isolated:** ${surface.isolatedSasa.toFixed(1)} Å² | ` +
+      `**Buried by other chains:** ${surface.buriedSasa.toFixed(1)} Å²`,
+  );
+  if (surface.residues.length === 0) {
+    lines.push('No residues in the requested range.');
+    return;
+  }
+  lines.push(
+    '| Residue | SASA (Å²) | Relative | Exposure | Buried (Å²) |',
+    '|:---|---:|---:|:---|---:|',
+  );
+  for (const r of surface.residues) {
+    lines.push(
+      `| ${r.compId} ${r.residue}${r.insCode ?? ''} | ${r.sasa.toFixed(1)} | ` +
+        `${r.relativeSasa?.toFixed(2) ?? '—'} | ${r.exposure ?? '—'} | ${r.buriedSasa?.toFixed(1) ?? '—'} |`,
+    );
+  }
+}
+
+function surfaceRow({ residue, sasa, relativeSasa, buriedSasa }: ResidueSasa) {
+  return {
+    residue: residue.authSeqId,
+    ...(residue.insCode ? { insCode: residue.insCode } : {}),
+    compId: residue.compId,
+    sasa,
+    ...(relativeSasa !== undefined
+      ? {
+          relativeSasa,
+          exposure: relativeSasa < BURIED_RSA ? ('buried' as const) : ('exposed' as const),
+        }
+      : {}),
+    ...(buriedSasa !== undefined ? { buriedSasa } : {}),
+  };
+}
+
+function fraction(ss: string, codes: RegExp): number {
+  if (ss.length === 0) return 0;
+  return round((ss.match(codes)?.length ?? 0) / ss.length);
+}
+
+/**
+ * Runs of {@link MIN_LOW_PLDDT_RUN}+ residues whose CA B-factor — the pLDDT
+ * column in AlphaFold files — is below {@link LOW_PLDDT}.
+ */
+function lowPlddtRegions(chain: ChainSecondaryStructure) {
+  const plddt = chain.residues.map(
+    (r) => (r.atoms.find((a) => a.name === 'CA') ?? r.atoms[0])?.bFactor ?? 0,
+  );
+  const regions: Array<{
+    start: number;
+    end: number;
+    meanPlddt: number;
+    structuredFraction: number;
+  }> = [];
+  let from = -1;
+  for (let i = 0; i <= plddt.length; i++) {
+    const low = i < plddt.length && (plddt[i] as number) < LOW_PLDDT;
+    if (low && from < 0) from = i;
+    if (low || from < 0) continue;
+    if (i - from >= MIN_LOW_PLDDT_RUN) {
+      const run = plddt.slice(from, i);
+      regions.push({
+        start: chain.residues[from]?.authSeqId ?? 0,
+        end: chain.residues[i - 1]?.authSeqId ?? 0,
+        meanPlddt: round(run.reduce((s, v) => s + v, 0) / run.length),
+        structuredFraction: fraction(chain.ss.slice(from, i), /[HGIEB]/g),
+      });
+    }
+    from = -1;
+  }
+  return regions;
+}
+
+function round(v: number): number {
+  return Math.round(v * 100) / 100;
+}
@@ -3,6 +3,8 @@
  * structures via the RCSB Structural Comparison service. Aligns each structure to
  * a reference (default the first) or computes the full all-pairs matrix, fanning
  * out pairwise async jobs with a concurrency cap and per-pair partial success.
+ * A structure can be narrowed to a residue range on one chain, so a single
+ * domain of a multi-domain model aligns without its flexible linkers.
  * @module mcp-server/tools/definitions/compare-structures.tool
  */
 
@@ -12,19 +14,34 @@ import { getServerConfig } from '@/config/server-config.js';
 import type { AlignmentMethod, CompareStructure } from '@/services/alignment/alignment-service.js';
 import { getAlignmentService } from '@/services/alignment/alignment-service.js';
 import { mapWithConcurrency } from '@/services/shared/async.js';
+import { parseResidueRange, publishNotices, residueRangeSchema } from './_schemas.js';
+
+/** RCSB computed-structure-model IDs (`AF_AFP69905F1`, `MA_MABAKCEPC`) — single-chain, chain A. */
+const COMPUTED_MODEL_RE = /^(AF|MA)_/i;
 
 const inputSchema = z.object({
   structures: z
     .array(
       z
         .object({
-          pdb_id: z.string().min(1).describe('PDB entry ID.'),
+          pdb_id: z
+            .string()
+            .min(1)
+            .describe(
+              'PDB entry ID, or an RCSB computed-model ID for a predicted structure (AF_AFP69905F1).',
+            ),
           chain: z
             .string()
             .optional()
             .describe('Chain (label_asym_id) to restrict the alignment to a single chain.'),
+          residues: residueRangeSchema
+            .optional()
+            .describe(
+              'Residue range "start-end" (label_seq_id, inclusive) on the chain — e.g. one domain from ' +
+                "protein_get_confidence's domains[]. Requires chain, except on computed-model IDs (chain A).",
+            ),
         })
-        .describe('A structure to align, by PDB entry ID with optional chain.'),
+        .describe('A structure to align, by PDB entry ID with optional chain and residue range.'),
     )
     .min(2)
     .max(25)
@@ -56,13 +73,13 @@ const inputSchema = z.object({
             .string()
             .min(1)
             .describe(
-              'First structure label (entry or entry.chain) of a pair from a prior response.',
+              'First structure label (entry, entry.chain, or entry.chain:start-end) of a pair from a prior response.',
             ),
           b: z
             .string()
             .min(1)
             .describe(
-              'Second structure label (entry or entry.chain) of a pair from a prior response.',
+              'Second structure label (entry, entry.chain, or entry.chain:start-end) of a pair from a prior response.',
             ),
           uuid: z
             .string()
@@ -84,8 +101,8 @@ const outputSchema = z.object({
     .array(
       z
         .object({
-          a: z.string().describe('First structure of the pair (entry[.chain]).'),
-          b: z.string().describe('Second structure of the pair (entry[.chain]).'),
+          a: z.string().describe('First structure of the pair (entry[.chain[:start-end]]).'),
+          b: z.string().describe('Second structure of the pair (entry[.chain[:start-end]]).'),
           status: z.enum(['complete', 'computing', 'failed']).describe('Outcome for this pair.'),
           tmScore: z
             .number()
@@ -134,7 +151,9 @@ export const compareStructures = tool('protein_compare_structures', {
     'job, fanned out with a concurrency cap and per-pair partial success — a pair still computing when the ' +
     'budget elapses returns status "computing" with its job UUID, and a failed pair degrades its row without ' +
     "sinking the others. Re-call with a matching entry in resume[] to poll a computing pair's UUID instead " +
-    "of resubmitting. Returns TM-score, RMSD, and aligned-residue count per pair, plus each structure's " +
+    'of resubmitting. Give a structure residues:"start-end" (with its chain) to align one domain — e.g. a ' +
+    "protein_get_confidence domain of an AlphaFold model (AF_AF<accession>F1) — so floppy linkers don't " +
+    "drag the whole-chain TM-score down. Returns TM-score, RMSD, and aligned-residue count per pair, plus each structure's " +
     'modeled-residue count and alignment coverage. TM-score is ' +
     'length-normalized and can shift sharply between structures that differ only by a terminal residue or ' +
     'two — the greedy superposition can settle into a worse local optimum — so read tmScore alongside rmsd, ' +
@@ -142,6 +161,13 @@ export const compareStructures = tool('protein_compare_structures', {
   annotations: { readOnlyHint: true, openWorldHint: true },
 
   errors: [
+    {
+      reason: 'range_without_chain',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'A structure gives residues but no chain, and is not a single-chain computed model.',
+      recovery:
+        'Add the chain (label_asym_id) the residue range refers to; residue numbers are only meaningful within one chain.',
+    },
     {
       reason: 'resume_pair_unmatched',
       code: JsonRpcErrorCode.InvalidParams,
@@ -170,7 +196,18 @@ export const compareStructures = tool('protein_compare_structures', {
   async handler(input, ctx) {
     const cfg = getServerConfig();
     const notices: string[] = [];
-    const { unique, repeated } = dedupeStructures(input.structures);
+    const requested = input.structures.map((s) => {
+      if (!s.residues || s.chain) return s;
+      if (!COMPUTED_MODEL_RE.test(s.pdb_id)) {
+        throw ctx.fail(
+          'range_without_chain',
+          `${s.pdb_id.toUpperCase()} gives residues "${s.residues}" without a chain.`,
+          { ...ctx.recoveryFor('range_without_chain') },
+        );
+      }
+      return { ...s, chain: 'A' };
+    });
+    const { unique, repeated } = dedupeStructures(requested);
     if (repeated.length > 0) {
       notices.push(
         `Compared ${[...new Set(repeated)].join(', ')} once: a structure repeated in structures[] adds a self-alignment and a mirrored pair, not a new comparison.`,
@@ -254,7 +291,7 @@ export const compareStructures = tool('protein_compare_structures', {
           `Re-call with a resume entry per pair (copy a, b, uuid from the pairs above) to poll existing jobs — cold alignment jobs typically finish within 30–60 s.`,
       );
     }
-    if (notices.length > 0) ctx.enrich.notice(notices.join(' '));
+    publishNotices(ctx, notices);
 
     return { method, reference: input.reference, pairs: rows };
   },
@@ -340,11 +377,20 @@ function buildPairs(
 }
 
 function toCompare(s: StructInput): CompareStructure {
-  return { entryId: s.pdb_id, ...(s.chain ? { asymId: s.chain } : {}) };
+  const range = s.residues && s.chain ? parseResidueRange(s.residues) : undefined;
+  return {
+    entryId: s.pdb_id,
+    ...(s.chain ? { asymId: s.chain } : {}),
+    ...(range ? { begSeqId: range.start, endSeqId: range.end } : {}),
+  };
 }
 
 function label(s: StructInput): string {
-  return s.chain ? `${s.pdb_id.toUpperCase()}.${s.chain}` : s.pdb_id.toUpperCase();
+  const entry = s.pdb_id.toUpperCase();
+  if (!s.chain) return entry;
+  if (!s.residues) return `${entry}.${s.chain}`;
+  const range = parseResidueRange(s.residues);
+  return `${entry}.${s.chain}:${range.start}-${range.end}`;
 }
 
 /**
@@ -3,19 +3,38 @@
  * proteins. by:sequence runs a synchronous RCSB mmseqs2 search; by:structure runs
  * an async Foldseek search against experimental + predicted databases (submit →
  * poll → bounded timeout, returning "still computing" rather than blocking).
+ * Either axis can be narrowed to a residue range — one domain of a
+ * multi-domain model — by slicing the sequence or cropping the coordinates.
  * @module mcp-server/tools/definitions/find-similar.tool
  */
 
 import { type HandlerContext, tool, z } from '@cyanheads/mcp-ts-core';
 import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
 import { getServerConfig } from '@/config/server-config.js';
-import { getAlphaFoldService } from '@/services/alphafold/alphafold-service.js';
 import { type FoldseekOutcome, getFoldseekService } from '@/services/foldseek/foldseek-service.js';
 import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
 import type { EntryMeta } from '@/services/rcsb/types.js';
 import { fetchText } from '@/services/shared/http.js';
 import { entryIdOf, isPdbId, isUniProtAccession } from '@/services/shared/identifiers.js';
-import { getUniProtService } from '@/services/uniprot/uniprot-service.js';
+import { parseStructure } from '@/services/structure/parser.js';
+import { parseSelection, selectStructure } from '@/services/structure/selection.js';
+import type { Structure } from '@/services/structure/types.js';
+import { writePdb } from '@/services/structure/writer.js';
+import {
+  fetchEntryCoordinates,
+  getPdbSequence,
+  getPrediction,
+  getUniProtSequence,
+} from './_providers.js';
+import {
+  cacheEnrichment,
+  fallbackSchema,
+  fallbacksOutput,
+  parseResidueRange,
+  publishNotices,
+  renderFallbacks,
+  residueRangeSchema,
+} from './_schemas.js';
 
 const DEFAULT_FOLDSEEK_DBS = ['pdb100', 'afdb50'];
 const FOLDSEEK_MODE = '3diaa';
@@ -30,6 +49,21 @@ const inputSchema = z.object({
     .describe('One-letter amino-acid sequence to search from (by:sequence).'),
   pdb_id: z.string().optional().describe('PDB entry ID to derive the query from.'),
   uniprot: z.string().optional().describe('UniProt accession to derive the query from.'),
+  residues: residueRangeSchema
+    .optional()
+    .describe(
+      'Restrict the query to residues "start-end" (inclusive) — e.g. one domain from protein_get_confidence. ' +
+        'by:sequence slices the sequence (1-based positions); by:structure crops the coordinates to protein ' +
+        'residues numbered start–end (author numbering, identical to sequence positions for AlphaFold models) ' +
+        'in one chain of the first model.',
+    ),
+  chain: z
+    .string()
+    .optional()
+    .describe(
+      'Author chain ID of pdb_id to search with (by:structure). Defaults to the whole file, or with residues ' +
+        'set, to the first protein chain holding residues in the range.',
+    ),
   ticket_id: z
     .string()
     .optional()
@@ -104,6 +138,12 @@ const outputSchema = z.object({
         .describe('A similar protein, with alignment scores when available.'),
     )
     .describe('Similar proteins, best first.'),
+  fallbacks: z
+    .array(fallbackSchema)
+    .optional()
+    .describe(
+      'Query reads answered by a secondary provider because the primary was unavailable (e.g. the sequence from UniProt while RCSB was down). Absent when every read came from its primary.',
+    ),
 });
 
 const enrichmentShape = {
@@ -111,13 +151,27 @@ const enrichmentShape = {
     .number()
     .optional()
     .describe('Total upstream matches before pagination (by:sequence).'),
-  notice: z.string().optional().describe('Advisory note (still computing, empty results).'),
+  notice: z
+    .string()
+    .optional()
+    .describe('Advisory note (still computing, empty results, fallback providers).'),
+  ...cacheEnrichment,
 };
 
 type FindSimilarInput = z.infer<typeof inputSchema>;
 type FindSimilarOutput = z.infer<typeof outputSchema>;
+/** A query coordinate file as submitted to Foldseek. */
+interface CoordinateFile {
+  content: string;
+  fileName: string;
+}
 type Ctx = HandlerContext<
-  'missing_query' | 'no_sequence' | 'search_failed' | 'ticket_not_found',
+  | 'missing_query'
+  | 'no_sequence'
+  | 'empty_range'
+  | 'chain_not_found'
+  | 'search_failed'
+  | 'ticket_not_found',
   typeof enrichmentShape
 >;
 
@@ -129,7 +183,10 @@ export const findSimilar = tool('protein_find_similar', {
     'or UniProt accession. by:"structure" runs a Foldseek fold-similarity search (asynchronous) against ' +
     'experimental and predicted databases; if the job is still computing when the poll budget elapses, the ' +
     'response reports status "computing" with a ticket — re-call with ticket_id set to that value to resume ' +
-    'the same job instead of resubmitting. Output names the engine and database each hit came from.',
+    'the same job instead of resubmitting. Set residues:"start-end" to search with one domain of a ' +
+    'multi-domain protein (e.g. from protein_get_confidence domains[]) rather than the full chain, and chain ' +
+    'to pick which chain of a multi-chain entry the structure query uses. Output ' +
+    'names the engine and database each hit came from.',
   annotations: { readOnlyHint: true, openWorldHint: true },
 
   errors: [
@@ -146,6 +203,20 @@ export const findSimilar = tool('protein_find_similar', {
       recovery:
         'Verify the identifier, or pass a raw one-letter sequence directly via the sequence parameter.',
     },
+    {
+      reason: 'empty_range',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The residues range falls outside the query sequence, or selects no protein residues from its coordinates.',
+      recovery:
+        'Check the range against the sequence length or the structure numbering (protein_get_structure outline) and narrow it.',
+    },
+    {
+      reason: 'chain_not_found',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The requested chain has no protein residues (in the residues range) in the first model.',
+      recovery:
+        'Use an author chain ID as shown by protein_get_structure; omit chain to crop the first protein chain.',
+    },
     {
       reason: 'search_failed',
       code: JsonRpcErrorCode.ServiceUnavailable,
@@ -191,6 +262,10 @@ export const findSimilar = tool('protein_find_similar', {
       ].filter(Boolean);
       if (parts.length > 0) lines.push(parts.join(' | '));
     }
+    if (result.fallbacks?.length) {
+      lines.push('\n### Fallback providers');
+      lines.push(...renderFallbacks(result.fallbacks));
+    }
     return [{ type: 'text', text: lines.join('\n') }];
   },
 });
@@ -201,7 +276,7 @@ async function runSequence(
   ctx: Ctx,
 ): Promise<FindSimilarOutput> {
   const rcsb = getRcsbService();
-  const sequence = await resolveSequence(input, ctx);
+  const sequence = cropSequence(await resolveSequence(input, ctx), input.residues, ctx);
 
   const result = await rcsb.searchSequence(
     sequence,
@@ -220,8 +295,12 @@ async function runSequence(
   }
 
   ctx.enrich.total(result.total);
-  if (result.hits.length === 0)
-    ctx.enrich.notice('No sequence-similar entries found. Lower min_identity or raise max_evalue.');
+  publishNotices(
+    ctx,
+    result.hits.length === 0
+      ? ['No sequence-similar entries found. Lower min_identity or raise max_evalue.']
+      : [],
+  );
 
   return {
     by: 'sequence',
@@ -242,6 +321,7 @@ async function runSequence(
         ...(meta?.organisms[0] ? { organism: meta.organisms[0] } : {}),
       };
     }),
+    ...fallbacksOutput(ctx),
   };
 }
 
@@ -251,6 +331,7 @@ async function runStructure(
   ctx: Ctx,
 ): Promise<FindSimilarOutput> {
   const foldseek = getFoldseekService();
+  const cropNotices: string[] = [];
   let outcome: FoldseekOutcome;
   if (input.ticket_id) {
     // Resume path: poll the existing ticket, skipping coordinate resolution + submit.
@@ -259,7 +340,12 @@ async function runStructure(
       ctx,
     );
   } else {
-    const { content, fileName } = await resolveCoordinateFile(input, ctx);
+    const { content, fileName, notices } = cropCoordinateFile(
+      await resolveCoordinateFile(input, ctx),
+      input,
+      ctx,
+    );
+    cropNotices.push(...notices);
     outcome = await foldseek.search(
       {
         fileContent: content,
@@ -289,20 +375,26 @@ async function runStructure(
     });
   }
   if (outcome.status === 'computing') {
-    ctx.enrich.notice(
+    publishNotices(ctx, [
+      ...cropNotices,
       `Foldseek job still computing (ticket ${outcome.ticketId}). Re-call protein_find_similar with ticket_id set to "${outcome.ticketId}" to resume.`,
-    );
+    ]);
     return {
       by: 'structure',
       engine: 'Foldseek',
       status: 'computing',
       ticketId: outcome.ticketId,
       hits: [],
+      ...fallbacksOutput(ctx),
     };
   }
 
-  if (outcome.hits.length === 0)
-    ctx.enrich.notice('Foldseek returned no fold-similar hits in the selected databases.');
+  publishNotices(ctx, [
+    ...cropNotices,
+    ...(outcome.hits.length === 0
+      ? ['Foldseek returned no fold-similar hits in the selected databases.']
+      : []),
+  ]);
   return {
     by: 'structure',
     engine: 'Foldseek',
@@ -316,6 +408,7 @@ async function runStructure(
       database: h.database,
       ...(h.uniprotAccession ? { uniprotAccession: h.uniprotAccession } : {}),
     })),
+    ...fallbacksOutput(ctx),
   };
 }
 
@@ -323,17 +416,17 @@ async function runStructure(
 async function resolveSequence(input: FindSimilarInput, ctx: Ctx): Promise<string> {
   if (input.sequence) return input.sequence.replace(/\s+/g, '');
   if (input.pdb_id) {
-    const seq = await getRcsbService().getSequence(input.pdb_id, ctx);
+    const seq = await getPdbSequence(input.pdb_id, ctx);
     if (!seq)
       throw ctx.fail(
         'no_sequence',
         `No protein sequence found for PDB entry ${input.pdb_id.toUpperCase()}.`,
         { ...ctx.recoveryFor('no_sequence') },
       );
-    return seq.sequence;
+    return seq;
   }
   if (input.uniprot) {
-    const seq = await getUniProtService().getSequence(input.uniprot, ctx);
+    const seq = await getUniProtSequence(input.uniprot, ctx);
     if (!seq)
       throw ctx.fail(
         'no_sequence',
@@ -347,19 +440,85 @@ async function resolveSequence(input: FindSimilarInput, ctx: Ctx): Promise<strin
   });
 }
 
-/** Resolve a query coordinate file (PDB-format text) from a PDB ID or UniProt accession. */
-async function resolveCoordinateFile(
-  input: FindSimilarInput,
+/** Slice a query sequence to a 1-based inclusive residue range, when one was given. */
+function cropSequence(sequence: string, residues: string | undefined, ctx: Ctx): string {
+  if (!residues) return sequence;
+  const { start, end } = parseResidueRange(residues);
+  if (start > sequence.length) {
+    throw ctx.fail(
+      'empty_range',
+      `Residues ${start}-${end} start past the end of the ${sequence.length}-residue query sequence.`,
+      { ...ctx.recoveryFor('empty_range') },
+    );
+  }
+  return sequence.slice(start - 1, end);
+}
+
+/**
+ * Narrow a query coordinate file to one protein chain of its first model —
+ * `chain` when given, else the first chain with protein residues in the range —
+ * cropped to the residues numbered within the range, and re-serialized as PDB.
+ * The file is parsed in whichever dialect it arrived in. The file name carries
+ * the chain and range so the Foldseek job is recognizably a domain query; a file
+ * with neither set passes through whole.
+ */
+function cropCoordinateFile(
+  file: CoordinateFile,
+  input: Pick<FindSimilarInput, 'chain' | 'residues'>,
   ctx: Ctx,
-): Promise<{ content: string; fileName: string }> {
-  const rcsb = getRcsbService();
+): CoordinateFile & { notices: string[] } {
+  if (!input.residues && !input.chain) return { ...file, notices: [] };
+  const range = input.residues ? parseResidueRange(input.residues) : undefined;
+  const structure = parseStructure(file.content);
+  const protein = selectStructure(
+    { ...structure, models: structure.models.slice(0, 1) },
+    parseSelection(range ? `protein and resi ${range.start}-${range.end}` : 'protein'),
+  );
+  const chains = protein.models[0]?.chains ?? [];
+  if (range && chains.length === 0) {
+    throw ctx.fail(
+      'empty_range',
+      `Residues ${range.start}-${range.end} select no protein atoms from ${file.fileName}.`,
+      { ...ctx.recoveryFor('empty_range') },
+    );
+  }
+  const chain = input.chain ? chains.find((c) => c.id === input.chain) : chains[0];
+  if (!chain) {
+    throw ctx.fail(
+      'chain_not_found',
+      `Chain ${input.chain} has no protein residues${range ? ` numbered ${range.start}-${range.end}` : ''} in the first model of ${file.fileName}; chains that do: ${chains.map((c) => c.id).join(', ') || 'none'}.`,
+      { ...ctx.recoveryFor('chain_not_found') },
+    );
+  }
+  const cropped: Structure = {
+    ...protein,
+    models: [{ modelNumber: protein.models[0]?.modelNumber ?? 1, chains: [chain] }],
+  };
+  const suffix = range ? `_${chain.id}_${range.start}-${range.end}` : `_${chain.id}`;
+  return {
+    content: writePdb(cropped),
+    fileName: `${file.fileName.replace(/\.\w+$/, '')}${suffix}.pdb`,
+    notices:
+      !input.chain && chains.length > 1
+        ? [
+            `Cropped the structure query to chain ${chain.id}; chains ${chains
+              .slice(1)
+              .map((c) => c.id)
+              .join(', ')} also hold residues in the range — set chain to search with one of them.`,
+          ]
+        : [],
+  };
+}
+
+/** Resolve a query coordinate file from a PDB ID or UniProt accession. */
+async function resolveCoordinateFile(input: FindSimilarInput, ctx: Ctx): Promise<CoordinateFile> {
   if (input.pdb_id && isPdbId(input.pdb_id)) {
     const id = input.pdb_id.toUpperCase();
-    const content = await fetchCoordinateText(rcsb.coordinateFileUrl(id, 'pdb'), ctx);
-    return { content, fileName: `${id}.pdb` };
+    const { text } = await fetchEntryCoordinates(id, 'pdb', 'findSimilar.fetchCoordinates', ctx);
+    return { content: text, fileName: `${id}.pdb` };
   }
   if (input.uniprot && isUniProtAccession(input.uniprot)) {
-    const model = await getAlphaFoldService().getPrediction(input.uniprot, ctx);
+    const model = await getPrediction(input.uniprot, ctx);
     if (!model?.pdbUrl) {
       throw ctx.fail(
         'no_sequence',
@@ -368,7 +527,13 @@ async function resolveCoordinateFile(
       );
     }
     return {
-      content: await fetchCoordinateText(model.pdbUrl, ctx),
+      content: await fetchText(model.pdbUrl, ctx, {
+        operation: 'findSimilar.fetchCoordinates',
+        label: 'AlphaFold DB files',
+        baseDelayMs: 400,
+        maxRetries: 1,
+        cache: 'prediction',
+      }),
       fileName: `${input.uniprot.toUpperCase()}.pdb`,
     };
   }
@@ -378,12 +543,3 @@ async function resolveCoordinateFile(
     { ...ctx.recoveryFor('missing_query') },
   );
 }
-
-function fetchCoordinateText(url: string, ctx: Ctx): Promise<string> {
-  return fetchText(url, ctx, {
-    operation: 'findSimilar.fetchCoordinates',
-    label: 'Coordinate file',
-    baseDelayMs: 400,
-    maxRetries: 1,
-  });
-}
@@ -3,14 +3,18 @@
  * protein: UniProt features (domains, binding sites, PTMs, variants) and InterPro
  * domain/family memberships with GO terms. Keyed by UniProt accession; resolves a
  * PDB ID to its accession when needed — deterministically by default, by author
- * chain when a multi-chain entry is ambiguous. Carries upstream data attribution.
+ * chain when a multi-chain entry is ambiguous. A batch of accessions (a gene list)
+ * fans out with per-ID partial success and renders as one compact table by
+ * default. Carries upstream data attribution.
  * @module mcp-server/tools/definitions/get-annotations.tool
  */
 
-import { tool, z } from '@cyanheads/mcp-ts-core';
-import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { type Context, tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode, McpError } from '@cyanheads/mcp-ts-core/errors';
+import { getServerConfig } from '@/config/server-config.js';
 import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
 import type { UniProtXref } from '@/services/rcsb/types.js';
+import { mapWithConcurrency } from '@/services/shared/async.js';
 import { attributionsFor, type CuratedSource } from '@/services/shared/attribution.js';
 import { isUniProtAccession } from '@/services/shared/identifiers.js';
 import type {
@@ -19,7 +23,12 @@ import type {
   SequenceFeature,
 } from '@/services/uniprot/uniprot-service.js';
 import { getUniProtService } from '@/services/uniprot/uniprot-service.js';
-import { attributionSchema, renderAttribution } from './_schemas.js';
+import {
+  attributionSchema,
+  cacheEnrichment,
+  publishNotices,
+  renderAttribution,
+} from './_schemas.js';
 
 const featureSchema = z
   .object({
@@ -80,6 +89,65 @@ const ambiguitySchema = z
 
 type AnnotationAmbiguity = z.infer<typeof ambiguitySchema>;
 
+const countsSchema = z
+  .object({
+    features: z.number().optional().describe('Features before the limit cap.'),
+    variants: z.number().optional().describe('Natural variants before the limit cap.'),
+    domains: z.number().optional().describe('InterPro domains before the limit cap.'),
+  })
+  .describe('Record count per requested annotation class, before the limit cap.');
+
+/** Per-protein fields, shared by a single-protein response and each batch record. */
+const proteinFields = {
+  accession: z.string().describe('UniProt accession the annotations describe.'),
+  proteinName: z.string().optional().describe('Recommended protein name.'),
+  geneNames: z.array(z.string()).describe('Gene names.'),
+  organism: z.string().optional().describe('Source organism scientific name.'),
+  function: z.string().optional().describe('UniProt function summary. Full view only.'),
+  sequenceLength: z.number().optional().describe('Sequence length in residues.'),
+  features: z
+    .array(featureSchema)
+    .optional()
+    .describe('Structural/functional features. Full view only.'),
+  variants: z
+    .array(featureSchema)
+    .optional()
+    .describe('Natural sequence variants. Full view only.'),
+  domains: z
+    .array(domainSchema)
+    .optional()
+    .describe('InterPro domain/family memberships. Full view only.'),
+  counts: countsSchema.optional().describe('Per-class record counts. Table view only.'),
+  domainNames: z
+    .array(z.string())
+    .optional()
+    .describe('InterPro domain/family names, up to limit. Table view only.'),
+};
+
+const proteinSchema = z.object(proteinFields).describe('Annotations for one protein.');
+
+type ProteinAnnotations = z.infer<typeof proteinSchema>;
+
+/** One requested annotation class and its pre-cap record count. */
+interface ClassCount {
+  count: number;
+  label: 'features' | 'variants' | 'domains';
+}
+
+/** One protein's annotations with what the response needs to describe them. */
+interface Annotated {
+  /** Requested classes, in features → variants → domains order. */
+  classes: ClassCount[];
+  protein: ProteinAnnotations;
+  sources: Set<CuratedSource>;
+}
+
+/** A batch accession that did not annotate, with the reason. */
+interface FailedId {
+  failedId: string;
+  reason: string;
+}
+
 export const getAnnotations = tool('protein_get_annotations', {
   title: 'protein-mcp-server: get annotations',
   description:
@@ -88,8 +156,11 @@ export const getAnnotations = tool('protein_get_annotations', {
     "UniProt accession directly, or a PDB ID — it is resolved to its UniProt accession via the structure's " +
     'sequence cross-reference. A multi-chain PDB entry can map to several accessions; the default pick is ' +
     'deterministic (lowest author chain ID) and the alternatives are listed in "ambiguity" — pass "chain" to ' +
-    'select a specific one. Use "include" to scope which annotation classes are fetched. Every response carries ' +
-    'an "attribution" block with the upstream data licenses and citations.',
+    'select a specific one. Pass "accessions" instead to annotate a gene list in one call (up to the configured ' +
+    'batch cap) with per-ID partial success — misses are listed in failed[]. "view" picks full records or a ' +
+    'compact table of names, lengths, per-class counts, and domain names (the default for a batch). Use ' +
+    '"include" to scope which annotation classes are fetched. Every response carries an "attribution" block ' +
+    'with the upstream data licenses and citations.',
   annotations: { readOnlyHint: true, openWorldHint: true },
 
   errors: [
@@ -107,6 +178,13 @@ export const getAnnotations = tool('protein_get_annotations', {
       recovery:
         'Omit chain for the deterministic default mapping, or pass an author chain ID the entry exposes (see polymerEntities[].chains in the pdb://{entry_id} resource).',
     },
+    {
+      reason: 'all_failed',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'No accession in an accessions batch could be annotated.',
+      recovery:
+        'Check the accessions match the UniProt pattern (e.g. P69905); resolve gene names to accessions first, e.g. with protein_search_structures.',
+    },
   ],
 
   input: z.object({
@@ -114,6 +192,13 @@ export const getAnnotations = tool('protein_get_annotations', {
       .string()
       .optional()
       .describe('UniProt accession (e.g. P69905). Takes precedence over pdb_id.'),
+    accessions: z
+      .array(z.string().min(1))
+      .min(1)
+      .optional()
+      .describe(
+        'Batch of UniProt accessions (e.g. a gene list) annotated in one call, up to the configured batch cap (PROTEIN_MAX_BATCH_IDS, default 25). Each is fetched independently: results land in proteins[] in request order, misses in failed[]. Takes precedence over uniprot and pdb_id.',
+      ),
     pdb_id: z
       .string()
       .optional()
@@ -142,18 +227,42 @@ export const getAnnotations = tool('protein_get_annotations', {
           'bounding a densely-annotated protein (a well-studied protein can carry 150+ natural variants); a ' +
           'truncated class is disclosed in the response notice — raise it to retrieve more.',
       ),
+    view: z
+      .enum(['full', 'table'])
+      .optional()
+      .describe(
+        'full: every requested feature, variant, and InterPro domain record. table: one compact row per protein — names, organism, length, per-class counts, and domain names, without the per-record lists. Defaults to table for an accessions batch, full otherwise.',
+      ),
   }),
 
   output: z.object({
-    accession: z.string().describe('UniProt accession the annotations describe.'),
-    proteinName: z.string().optional().describe('Recommended protein name.'),
-    geneNames: z.array(z.string()).describe('Gene names.'),
-    organism: z.string().optional().describe('Source organism scientific name.'),
-    function: z.string().optional().describe('UniProt function summary.'),
-    sequenceLength: z.number().optional().describe('Sequence length in residues.'),
-    features: z.array(featureSchema).optional().describe('Structural/functional features.'),
-    variants: z.array(featureSchema).optional().describe('Natural sequence variants.'),
-    domains: z.array(domainSchema).optional().describe('InterPro domain/family memberships.'),
+    ...proteinFields,
+    accession: z
+      .string()
+      .optional()
+      .describe(
+        'UniProt accession the annotations describe. Absent for an accessions batch — see proteins.',
+      ),
+    geneNames: z
+      .array(z.string())
+      .optional()
+      .describe('Gene names. Absent for an accessions batch — see proteins.'),
+    view: z.enum(['full', 'table']).describe('Rendering the records were shaped for.'),
+    proteins: z
+      .array(proteinSchema)
+      .optional()
+      .describe('Per-protein annotations for an accessions batch, in request order.'),
+    failed: z
+      .array(
+        z
+          .object({
+            id: z.string().describe('Requested accession that failed.'),
+            reason: z.string().describe('Why it failed.'),
+          })
+          .describe('A requested accession that could not be annotated, with the reason.'),
+      )
+      .optional()
+      .describe('Batch accessions that could not be annotated (partial success).'),
     ambiguity: ambiguitySchema
       .optional()
       .describe(
@@ -162,7 +271,7 @@ export const getAnnotations = tool('protein_get_annotations', {
     attribution: z
       .array(attributionSchema)
       .describe(
-        'Upstream data-source licenses and citations for every source that contributed to this response. Always present — the attribution obligation travels with the data.',
+        'Upstream data-source licenses and citations for every source that contributed to this response — for a batch, the union across its proteins. Always present — the attribution obligation travels with the data.',
       ),
   }),
 
@@ -181,14 +290,74 @@ export const getAnnotations = tool('protein_get_annotations', {
       .string()
       .optional()
       .describe(
-        'Advisory note: a per-class "showing N of M" line for each capped class and a no-data note for any requested-but-empty class.',
+        'Advisory note: a per-class "showing N of M" line for each capped class and a no-data note for any requested-but-empty class; for a batch, the batch cap, capped classes per protein, and accessions that failed.',
       ),
+    ...cacheEnrichment,
   },
 
   async handler(input, ctx) {
-    const uniprot = getUniProtService();
-    const rcsb = getRcsbService();
+    const include = input.include as AnnotationInclude;
+    const { limit } = input;
+
+    if (input.accessions) {
+      const cfg = getServerConfig();
+      const view = input.view ?? 'table';
+      const notices: string[] = [];
+      const ids = input.accessions.slice(0, cfg.maxBatchIds).map((s) => s.trim().toUpperCase());
+      if (input.accessions.length > cfg.maxBatchIds) {
+        notices.push(
+          `Batch capped at ${cfg.maxBatchIds} IDs; ${input.accessions.length - cfg.maxBatchIds} ignored.`,
+        );
+      }
+
+      const results = await mapWithConcurrency(ids, cfg.fanoutConcurrency, (id) =>
+        annotateOne(id, include, limit, view, ctx),
+      );
+      const annotated: Annotated[] = [];
+      const failed: Array<{ id: string; reason: string }> = [];
+      for (const r of results) {
+        if ('failedId' in r) failed.push({ id: r.failedId, reason: r.reason });
+        else annotated.push(r);
+      }
+      if (annotated.length === 0) {
+        throw ctx.fail(
+          'all_failed',
+          `None of the ${ids.length} requested accessions could be annotated.`,
+          { ...ctx.recoveryFor('all_failed') },
+        );
+      }
+
+      // The table view carries pre-cap counts instead of records, so only the full
+      // view has anything to disclose about the per-class cap.
+      if (view === 'full') {
+        const capped = annotated.flatMap((a) =>
+          a.classes
+            .filter((c) => c.count > limit)
+            .map((c) => `${a.protein.accession} ${c.label} (${c.count})`),
+        );
+        if (capped.length > 0) {
+          ctx.enrich({ truncated: true });
+          notices.push(
+            `Showing at most ${limit} records per class; capped: ${capped.join(', ')}. Raise limit to see more.`,
+          );
+        }
+      }
+      if (failed.length > 0) {
+        notices.push(
+          `${failed.length} of ${ids.length} accessions could not be annotated: ${failed.map((f) => f.id).join(', ')}.`,
+        );
+      }
+      publishNotices(ctx, notices);
+
+      return {
+        view,
+        proteins: annotated.map((a) => a.protein),
+        failed,
+        attribution: attributionsFor(new Set(annotated.flatMap((a) => [...a.sources]))),
+      };
+    }
 
+    const rcsb = getRcsbService();
     let accession = input.uniprot?.toUpperCase();
     let resolvedFrom: string | undefined;
     let ambiguity: AnnotationAmbiguity | undefined;
@@ -241,108 +410,62 @@ export const getAnnotations = tool('protein_get_annotations', {
       });
     }
 
-    const include = input.include as AnnotationInclude;
-    const wantInterPro = include === 'domains' || include === 'all';
-    const [entry, interpro] = await Promise.all([
-      uniprot.getEntry(accession, include, ctx),
-      wantInterPro ? uniprot.getInterPro(accession, ctx) : Promise.resolve<InterProEntry[]>([]),
-    ]);
-
-    const features = entry.features.filter((f) => f.category === 'feature');
-    const variants = entry.features.filter((f) => f.category === 'variant');
-    const wantFeatures = include === 'features' || include === 'all';
-    const wantVariants = include === 'variants' || include === 'all';
-
-    // Cap each annotation class independently to the per-class limit, so one dense
-    // class (e.g. a protein's 150+ natural variants) can't dominate the payload.
+    const view = input.view ?? 'full';
+    const { protein, classes, sources } = await annotate(accession, include, limit, view, ctx);
+
     // Collect every advisory fragment — a "showing N of M" line per truncated class
     // plus a "no <class> present" note per requested-but-empty class — and emit them
     // as ONE notice: ctx.enrich.notice is last-wins, so a second call would silently
-    // drop the first fragment.
-    const { limit } = input;
+    // drop the first fragment. The table view states counts outright instead.
     const notices: string[] = [];
     let truncated = false;
-    for (const cls of [
-      { want: wantFeatures, count: features.length, label: 'features' },
-      { want: wantVariants, count: variants.length, label: 'variants' },
-      { want: wantInterPro, count: interpro.length, label: 'domains' },
-    ]) {
-      if (!cls.want) continue;
-      if (cls.count > limit) {
-        truncated = true;
-        notices.push(`Showing ${limit} of ${cls.count} ${cls.label}; raise limit to see more.`);
-      } else if (cls.count === 0) {
-        notices.push(`No ${cls.label} present.`);
+    if (view === 'full') {
+      for (const cls of classes) {
+        if (cls.count > limit) {
+          truncated = true;
+          notices.push(`Showing ${limit} of ${cls.count} ${cls.label}; raise limit to see more.`);
+        } else if (cls.count === 0) {
+          notices.push(`No ${cls.label} present.`);
+        }
       }
     }
 
-    // Attribution rides with the data. UniProt always contributes on success;
-    // InterPro only when it returned entries; GO only when a returned entry carries
-    // GO terms. InterPro (CC0) and GO (CC BY 4.0) are gated independently — an
-    // InterPro entry can exist with zero GO terms.
-    const sources = new Set<CuratedSource>(['UniProt']);
-    if (interpro.length > 0) sources.add('InterPro');
-    if (interpro.some((d) => d.goTerms.length > 0)) sources.add('GO');
-
     if (resolvedFrom) ctx.enrich({ resolvedFrom });
     if (truncated) ctx.enrich({ truncated: true });
-    if (notices.length > 0) ctx.enrich.notice(notices.join(' '));
+    publishNotices(ctx, notices);
 
     return {
-      accession: entry.accession,
-      ...(entry.proteinName ? { proteinName: entry.proteinName } : {}),
-      geneNames: entry.geneNames,
-      ...(entry.organism ? { organism: entry.organism } : {}),
-      ...(entry.function ? { function: entry.function } : {}),
-      ...(typeof entry.sequenceLength === 'number' ? { sequenceLength: entry.sequenceLength } : {}),
-      ...(wantFeatures ? { features: toFeatureOutput(features.slice(0, limit)) } : {}),
-      ...(wantVariants ? { variants: toFeatureOutput(variants.slice(0, limit)) } : {}),
-      ...(wantInterPro ? { domains: interpro.slice(0, limit) } : {}),
+      ...protein,
+      view,
       ...(ambiguity ? { ambiguity } : {}),
       attribution: attributionsFor(sources),
     };
   },
 
   format: (result) => {
-    const lines: string[] = [
-      `## ${result.accession}${result.proteinName ? ` — ${result.proteinName}` : ''}`,
-    ];
-    const head = [
-      result.geneNames.length > 0 ? `**Genes:** ${result.geneNames.join(', ')}` : null,
-      result.organism ? `**Organism:** ${result.organism}` : null,
-      typeof result.sequenceLength === 'number' ? `**Length:** ${result.sequenceLength} aa` : null,
-    ].filter(Boolean);
-    if (head.length > 0) lines.push(head.join(' | '));
-    if (result.function) lines.push(`\n**Function:** ${result.function}`);
-
-    if (result.ambiguity) {
-      lines.push(`\n### Multiple UniProt mappings`);
-      lines.push(result.ambiguity.notice);
-      for (const m of result.ambiguity.accessions) {
-        lines.push(
-          `- **${m.accession}**${m.proteinName ? ` — ${m.proteinName}` : ''} (chains ${m.chain.join(', ') || 'none'})`,
-        );
+    // Rendering follows the fields present — a single-protein response carries them
+    // at the top level, a batch under proteins — and view picks table or sections.
+    const single: ProteinAnnotations[] = result.accession
+      ? [{ ...result, accession: result.accession, geneNames: result.geneNames ?? [] }]
+      : [];
+    const proteins = [...single, ...(result.proteins ?? [])];
+    const lines: string[] = [];
+    if (result.view === 'table') {
+      lines.push(...renderTable(proteins));
+      if (result.ambiguity) lines.push(...renderAmbiguity(result.ambiguity));
+    } else {
+      if (result.proteins) {
+        lines.push(`## Annotations: ${plural(result.proteins.length)} (full view)`, '');
       }
-    }
-
-    if (result.features && result.features.length > 0) {
-      lines.push(`\n### Features (${result.features.length})`);
-      for (const f of result.features) lines.push(`- ${renderFeature(f)}`);
-    }
-    if (result.variants && result.variants.length > 0) {
-      lines.push(`\n### Variants (${result.variants.length})`);
-      for (const v of result.variants) lines.push(`- ${renderFeature(v)}`);
-    }
-    if (result.domains && result.domains.length > 0) {
-      lines.push(`\n### InterPro domains (${result.domains.length})`);
-      for (const d of result.domains) {
-        lines.push(
-          `- **${d.accession}** ${d.name} _(${d.type})_ — ${d.memberDatabases.join(', ') || 'no member DBs'}`,
-        );
-        for (const g of d.goTerms)
-          lines.push(`  - ${g.id} ${g.name}${g.category ? ` [${g.category}]` : ''}`);
+      for (const [i, p] of proteins.entries()) {
+        if (i > 0) lines.push('');
+        lines.push(...renderProtein(p, i < single.length ? result.ambiguity : undefined));
       }
     }
+    if (result.failed && result.failed.length > 0) {
+      lines.push(`\n### Failed (${result.failed.length})`);
+      for (const f of result.failed) lines.push(`- ${f.id}: ${f.reason}`);
+    }
     if (result.attribution.length > 0) {
       lines.push(`\n### Attribution`);
       lines.push(...renderAttribution(result.attribution));
@@ -351,6 +474,106 @@ export const getAnnotations = tool('protein_get_annotations', {
   },
 });
 
+/**
+ * Fetch one accession's UniProt entry (and InterPro memberships when domains are
+ * in scope) and shape it for `view`: the full view caps each requested class at
+ * `limit`; the table view keeps only pre-cap counts and domain names.
+ */
+async function annotate(
+  accession: string,
+  include: AnnotationInclude,
+  limit: number,
+  view: 'full' | 'table',
+  ctx: Context,
+): Promise<Annotated> {
+  const uniprot = getUniProtService();
+  const wantInterPro = include === 'domains' || include === 'all';
+  const [entry, interpro] = await Promise.all([
+    uniprot.getEntry(accession, include, ctx),
+    wantInterPro ? uniprot.getInterPro(accession, ctx) : Promise.resolve<InterProEntry[]>([]),
+  ]);
+
+  const features = entry.features.filter((f) => f.category === 'feature');
+  const variants = entry.features.filter((f) => f.category === 'variant');
+  const wantFeatures = include === 'features' || include === 'all';
+  const wantVariants = include === 'variants' || include === 'all';
+  const classes: ClassCount[] = [
+    { want: wantFeatures, count: features.length, label: 'features' as const },
+    { want: wantVariants, count: variants.length, label: 'variants' as const },
+    { want: wantInterPro, count: interpro.length, label: 'domains' as const },
+  ]
+    .filter((c) => c.want)
+    .map(({ count, label }) => ({ count, label }));
+
+  // Attribution rides with the data. UniProt always contributes on success;
+  // InterPro only when it returned entries; GO only when a returned entry carries
+  // GO terms. InterPro (CC0) and GO (CC BY 4.0) are gated independently — an
+  // InterPro entry can exist with zero GO terms.
+  const sources = new Set<CuratedSource>(['UniProt']);
+  if (interpro.length > 0) sources.add('InterPro');
+  if (interpro.some((d) => d.goTerms.length > 0)) sources.add('GO');
+
+  const head = {
+    accession: entry.accession,
+    ...(entry.proteinName ? { proteinName: entry.proteinName } : {}),
+    geneNames: entry.geneNames,
+    ...(entry.organism ? { organism: entry.organism } : {}),
+  };
+  const length =
+    typeof entry.sequenceLength === 'number' ? { sequenceLength: entry.sequenceLength } : {};
+
+  // Cap each annotation class independently to the per-class limit, so one dense
+  // class (e.g. a protein's 150+ natural variants) can't dominate the payload.
+  const protein: ProteinAnnotations =
+    view === 'table'
+      ? {
+          ...head,
+          ...length,
+          counts: Object.fromEntries(classes.map((c) => [c.label, c.count])),
+          ...(wantInterPro ? { domainNames: interpro.slice(0, limit).map((d) => d.name) } : {}),
+        }
+      : {
+          ...head,
+          ...(entry.function ? { function: entry.function } : {}),
+          ...length,
+          ...(wantFeatures ? { features: toFeatureOutput(features.slice(0, limit)) } : {}),
+          ...(wantVariants ? { variants: toFeatureOutput(variants.slice(0, limit)) } : {}),
+          ...(wantInterPro ? { domains: interpro.slice(0, limit) } : {}),
+        };
+  return { classes, protein, sources };
+}
+
+/**
+ * Annotate one accession of a batch. Shape-checked and caught per ID: a throw
+ * inside a `mapWithConcurrency` worker would sink every other ID in the batch,
+ * so a malformed or unknown accession degrades only its own row. A cancelled
+ * request still throws.
+ */
+async function annotateOne(
+  id: string,
+  include: AnnotationInclude,
+  limit: number,
+  view: 'full' | 'table',
+  ctx: Context,
+): Promise<Annotated | FailedId> {
+  if (!isUniProtAccession(id)) {
+    return { failedId: id, reason: 'Not a UniProt accession (e.g. P69905).' };
+  }
+  try {
+    return await annotate(id, include, limit, view, ctx);
+  } catch (err) {
+    if (ctx.signal.aborted) throw err;
+    if (err instanceof McpError && err.code === JsonRpcErrorCode.NotFound) {
+      return { failedId: id, reason: 'No UniProt entry for this accession.' };
+    }
+    ctx.log.warning('Failed to annotate accession', {
+      accession: id,
+      error: err instanceof Error ? err.message : err,
+    });
+    return { failedId: id, reason: err instanceof Error ? err.message : String(err) };
+  }
+}
+
 /** Lowest author chain ID for an entity (code-unit order); '' when it has none. */
 function lowestChain(entity: UniProtXref): string {
   return [...entity.chains].sort()[0] ?? '';
@@ -381,6 +604,91 @@ function buildAmbiguity(
   };
 }
 
+/** Full-view rendering of one protein: header, function, ambiguity, then each class. */
+function renderProtein(p: ProteinAnnotations, ambiguity?: AnnotationAmbiguity): string[] {
+  const lines: string[] = [`## ${p.accession}${p.proteinName ? ` — ${p.proteinName}` : ''}`];
+  const head = [
+    p.geneNames.length > 0 ? `**Genes:** ${p.geneNames.join(', ')}` : null,
+    p.organism ? `**Organism:** ${p.organism}` : null,
+    typeof p.sequenceLength === 'number' ? `**Length:** ${p.sequenceLength} aa` : null,
+  ].filter(Boolean);
+  if (head.length > 0) lines.push(head.join(' | '));
+  if (p.counts) lines.push(`**Counts:** ${renderCounts(p.counts)}`);
+  if (p.domainNames && p.domainNames.length > 0) {
+    lines.push(`**Domain names:** ${p.domainNames.join('; ')}`);
+  }
+  if (p.function) lines.push(`\n**Function:** ${p.function}`);
+  if (ambiguity) lines.push(...renderAmbiguity(ambiguity));
+
+  if (p.features && p.features.length > 0) {
+    lines.push(`\n### Features (${p.features.length})`);
+    for (const f of p.features) lines.push(`- ${renderFeature(f)}`);
+  }
+  if (p.variants && p.variants.length > 0) {
+    lines.push(`\n### Variants (${p.variants.length})`);
+    for (const v of p.variants) lines.push(`- ${renderFeature(v)}`);
+  }
+  if (p.domains && p.domains.length > 0) {
+    lines.push(`\n### InterPro domains (${p.domains.length})`);
+    for (const d of p.domains) {
+      lines.push(
+        `- **${d.accession}** ${d.name} _(${d.type})_ — ${d.memberDatabases.join(', ') || 'no member DBs'}`,
+      );
+      for (const g of d.goTerms)
+        lines.push(`  - ${g.id} ${g.name}${g.category ? ` [${g.category}]` : ''}`);
+    }
+  }
+  return lines;
+}
+
+function renderAmbiguity(ambiguity: AnnotationAmbiguity): string[] {
+  return [
+    `\n### Multiple UniProt mappings`,
+    ambiguity.notice,
+    ...ambiguity.accessions.map(
+      (m) =>
+        `- **${m.accession}**${m.proteinName ? ` — ${m.proteinName}` : ''} (chains ${m.chain.join(', ') || 'none'})`,
+    ),
+  ];
+}
+
+/** Table-view rendering: one row per protein; "—" marks a class outside the include scope. */
+function renderTable(proteins: ProteinAnnotations[]): string[] {
+  const lines = [
+    `## Annotations: ${plural(proteins.length)} (table view)`,
+    '| Accession | Protein | Genes | Organism | Length | Features | Variants | Domains |',
+    '|:---|:---|:---|:---|---:|---:|---:|:---|',
+  ];
+  for (const p of proteins) {
+    const counts = p.counts ?? {};
+    const domains =
+      counts.domains == null
+        ? undefined
+        : `${counts.domains}${p.domainNames?.length ? ` (${p.domainNames.join('; ')})` : ''}`;
+    lines.push(
+      `| ${p.accession} | ${cell(p.proteinName)} | ${cell(p.geneNames.join(', '))} | ${cell(p.organism)} | ` +
+        `${p.sequenceLength ?? '—'} | ${counts.features ?? '—'} | ${counts.variants ?? '—'} | ${cell(domains)} |`,
+    );
+  }
+  return lines;
+}
+
+function renderCounts(counts: NonNullable<ProteinAnnotations['counts']>): string {
+  return (['features', 'variants', 'domains'] as const)
+    .filter((k) => counts[k] != null)
+    .map((k) => `${counts[k]} ${k}`)
+    .join(' · ');
+}
+
+function plural(n: number): string {
+  return `${n} protein${n === 1 ? '' : 's'}`;
+}
+
+/** A markdown table cell: pipes escaped, "—" when empty. */
+function cell(text: string | undefined): string {
+  return text ? text.replace(/\|/g, '\\|') : '—';
+}
+
 function toFeatureOutput(features: SequenceFeature[]) {
   return features.map((f) => ({
     type: f.type,
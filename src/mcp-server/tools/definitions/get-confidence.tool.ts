@@ -0,0 +1,333 @@
+/**
+ * @fileoverview protein_get_confidence — per-residue confidence for an AlphaFold
+ * model: the pLDDT track, a summary of contiguous high-confidence segments, the
+ * mean PAE between every pair of segments (a low value says the segments form
+ * one rigid unit, a high one marks independently placed domains), rigid domains
+ * clustered from the PAE graph (ranges that protein_compare_structures and
+ * protein_find_similar accept as `residues`), and optionally the PAE matrix
+ * itself. The matrix is N² — a 2,700-residue model is 7M values — so it is
+ * average-pooled to at most {@link MAX_MATRIX_CELLS} cells per side and the bin
+ * size is reported. Carries AlphaFold DB attribution.
+ * @module mcp-server/tools/definitions/get-confidence.tool
+ */
+
+import { tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { getAlphaFoldService } from '@/services/alphafold/alphafold-service.js';
+import {
+  binMatrix,
+  DEFAULT_MIN_SEGMENT_LENGTH,
+  DEFAULT_PLDDT_THRESHOLD,
+  summarizeConfidence,
+} from '@/services/alphafold/confidence.js';
+import {
+  DEFAULT_MIN_DOMAIN_SIZE,
+  DEFAULT_PAE_CUTOFF,
+  paeDomains,
+} from '@/services/alphafold/domains.js';
+import { attributionsFor } from '@/services/shared/attribution.js';
+import { isAlphaFoldEntryId, isUniProtAccession } from '@/services/shared/identifiers.js';
+import {
+  attributionSchema,
+  cacheEnrichment,
+  publishNotices,
+  renderAttribution,
+} from './_schemas.js';
+
+/** Largest PAE matrix side returned; longer chains are average-pooled down to this. */
+const MAX_MATRIX_CELLS = 100;
+
+const segmentSchema = z
+  .object({
+    start: z.number().describe('First residue (1-based).'),
+    end: z.number().describe('Last residue (1-based, inclusive).'),
+    meanPlddt: z.number().describe('Mean pLDDT over the segment.'),
+  })
+  .describe('A contiguous run of residues at or above the pLDDT threshold.');
+
+const paeBlockSchema = z
+  .object({
+    a: z.number().describe('Index into segments[].'),
+    b: z.number().describe("Index into segments[]; equal to a for a segment's own block."),
+    meanPae: z
+      .number()
+      .describe('Mean PAE (Å) between the two segments, averaged over both directions.'),
+  })
+  .describe('Mean predicted aligned error between two confident segments.');
+
+const domainSchema = z
+  .object({
+    start: z.number().describe('First residue of the domain span (1-based).'),
+    end: z.number().describe('Last residue of the domain span (1-based, inclusive).'),
+    size: z.number().describe('Residues assigned to the domain.'),
+    segments: z
+      .array(
+        z
+          .object({
+            start: z.number().describe('First residue (1-based).'),
+            end: z.number().describe('Last residue (1-based, inclusive).'),
+          })
+          .describe('A contiguous piece of the domain.'),
+      )
+      .describe('Contiguous pieces in sequence order; more than one for a discontinuous domain.'),
+    meanPlddt: z.number().optional().describe('Mean pLDDT over the domain residues.'),
+    meanPae: z.number().describe('Mean PAE (Å) within the domain — low for a rigid body.'),
+  })
+  .describe('A rigid domain clustered from the PAE matrix.');
+
+export const getConfidence = tool('protein_get_confidence', {
+  title: 'protein-mcp-server: get confidence',
+  description:
+    'Per-residue confidence for an AlphaFold model, keyed by UniProt accession: the pLDDT track, contiguous ' +
+    'high-confidence segments (pLDDT ≥ plddt_threshold for at least min_segment_length residues), and the mean ' +
+    'predicted aligned error (PAE) between every pair of segments — a low inter-segment PAE (≲ 10 Å) means ' +
+    'their relative placement is trustworthy, a high one means independently placed domains whose orientation ' +
+    'should not be trusted. domains[] clusters the PAE graph into rigid bodies (pae_to_domains-style ' +
+    "modularity clustering), splitting well-folded domains joined by a flexible hinge; pass a domain's " +
+    '"start-end" as residues to protein_compare_structures or protein_find_similar to compare one domain ' +
+    'instead of the whole chain. Set include_pae_matrix for the matrix itself (average-pooled on long chains).',
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  errors: [
+    {
+      reason: 'invalid_accession',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The identifier is neither a UniProt accession nor an AlphaFold DB entry ID.',
+      recovery:
+        'Pass a UniProt accession (e.g. P69905) or an AlphaFold DB entry ID (e.g. AF-P69905-F1); resolve a PDB ID via protein_get_annotations first.',
+    },
+    {
+      reason: 'no_model',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'AlphaFold DB has no model for the accession.',
+      recovery:
+        'Check the accession, or use protein_get_structure with source best_available to find a model from another provider.',
+    },
+  ],
+
+  input: z.object({
+    accession: z
+      .string()
+      .min(1)
+      .describe('UniProt accession (e.g. P69905) or AlphaFold DB entry ID (e.g. AF-P69905-F1).'),
+    plddt_threshold: z
+      .number()
+      .min(0)
+      .max(100)
+      .default(DEFAULT_PLDDT_THRESHOLD)
+      .describe('Minimum pLDDT for a residue to count toward a confident segment (default 70).'),
+    min_segment_length: z
+      .number()
+      .int()
+      .min(1)
+      .default(DEFAULT_MIN_SEGMENT_LENGTH)
+      .describe('Shortest run of confident residues reported as a segment (default 10).'),
+    pae_cutoff: z
+      .number()
+      .positive()
+      .max(31.75)
+      .default(DEFAULT_PAE_CUTOFF)
+      .describe(
+        'Domain clustering: residue pairs with PAE below this (Å) are linked (default 5). Raise to merge domains, lower to split them.',
+      ),
+    min_domain_size: z
+      .number()
+      .int()
+      .min(1)
+      .default(DEFAULT_MIN_DOMAIN_SIZE)
+      .describe(
+        'Domain clustering: smallest cluster reported as a domain (default 20); smaller clusters are linkers or termini.',
+      ),
+    include_track: z
+      .boolean()
+      .default(true)
+      .describe('Return the per-residue pLDDT track (one value per residue).'),
+    include_pae_matrix: z
+      .boolean()
+      .default(false)
+      .describe(
+        `Return the PAE matrix. Chains longer than ${MAX_MATRIX_CELLS} residues are average-pooled to at most ${MAX_MATRIX_CELLS}×${MAX_MATRIX_CELLS} cells (see paeMatrixBin).`,
+      ),
+  }),
+
+  output: z.object({
+    uniprotAccession: z.string().describe('UniProt accession the model predicts.'),
+    entryId: z.string().optional().describe('AlphaFold model entry ID (e.g. AF-P69905-F1).'),
+    modelVersion: z.number().optional().describe('AlphaFold model version.'),
+    residueCount: z.number().describe('Residues in the pLDDT track.'),
+    meanPlddt: z.number().describe('Mean pLDDT across the track.'),
+    plddtSource: z
+      .enum(['confidence_json', 'coordinates'])
+      .describe(
+        'Where the track came from: the confidence JSON, or the B-factor column of the coordinate file.',
+      ),
+    plddt: z
+      .array(z.number())
+      .optional()
+      .describe('pLDDT per residue (0–100); element 0 is residue 1. Present when include_track.'),
+    segments: z
+      .array(segmentSchema)
+      .describe('Contiguous confident segments, in sequence order. Indexed by paeBlocks.'),
+    paeBlocks: z
+      .array(paeBlockSchema)
+      .describe(
+        'Mean PAE for each segment pair, own blocks included. Empty when PAE is unavailable.',
+      ),
+    domains: z
+      .array(domainSchema)
+      .describe(
+        'Rigid domains from PAE clustering, ordered by first residue. Empty when PAE is unavailable.',
+      ),
+    maxPae: z.number().optional().describe('Upper bound of the PAE scale (Å).'),
+    paeMatrix: z
+      .array(z.array(z.number()).describe('One matrix row: PAE (Å) to each scored residue.'))
+      .optional()
+      .describe(
+        'PAE matrix (Å) — row i is the aligned residue, column j the scored one. Present when include_pae_matrix and PAE is available.',
+      ),
+    paeMatrixBin: z
+      .number()
+      .optional()
+      .describe(
+        'Residues per matrix cell along each axis. 1 means the full-resolution matrix; larger values mean cell (i, j) averages residues i·bin+1…(i+1)·bin.',
+      ),
+    paeDocUrl: z.string().optional().describe('Source PAE file URL.'),
+    attribution: z
+      .array(attributionSchema)
+      .describe('Upstream data-source license and citation (AlphaFold DB). Always present.'),
+  }),
+
+  enrichment: {
+    notice: z
+      .string()
+      .optional()
+      .describe('Advisory note (PAE unavailable, matrix pooled, no confident segment or domain).'),
+    ...cacheEnrichment,
+  },
+
+  async handler(input, ctx) {
+    const accession = input.accession.trim();
+    if (!isUniProtAccession(accession) && !isAlphaFoldEntryId(accession)) {
+      throw ctx.fail('invalid_accession', `"${accession}" is not a UniProt accession.`, {
+        ...ctx.recoveryFor('invalid_accession'),
+      });
+    }
+    const confidence = await getAlphaFoldService().getConfidence(accession, ctx);
+    if (!confidence) {
+      throw ctx.fail('no_model', `No AlphaFold model found for ${accession.toUpperCase()}.`, {
+        ...ctx.recoveryFor('no_model'),
+      });
+    }
+
+    const { plddt, pae } = confidence;
+    const summary = summarizeConfidence(
+      plddt,
+      pae,
+      input.plddt_threshold,
+      input.min_segment_length,
+    );
+    const domains = pae
+      ? paeDomains(pae, plddt, {
+          paeCutoff: input.pae_cutoff,
+          minDomainSize: input.min_domain_size,
+        })
+      : [];
+    const notices: string[] = [];
+    if (!pae) notices.push('PAE is unavailable for this model; paeBlocks and domains are empty.');
+    else if (domains.length === 0) {
+      notices.push(
+        `No PAE cluster reaches ${input.min_domain_size} residues at a ${input.pae_cutoff} Å cutoff; raise pae_cutoff or lower min_domain_size.`,
+      );
+    }
+    if (summary.segments.length === 0) {
+      notices.push(
+        `No run of ${input.min_segment_length}+ residues reaches pLDDT ${input.plddt_threshold}; lower plddt_threshold or min_segment_length to see weaker segments.`,
+      );
+    }
+    let matrix: { paeMatrix: number[][]; paeMatrixBin: number } | undefined;
+    if (input.include_pae_matrix && pae) {
+      const bin = Math.max(1, Math.ceil(pae.length / MAX_MATRIX_CELLS));
+      matrix = { paeMatrix: binMatrix(pae, bin), paeMatrixBin: bin };
+      if (bin > 1) {
+        notices.push(
+          `PAE matrix average-pooled ${bin}×${bin} (${pae.length} residues); fetch paeDocUrl for full resolution.`,
+        );
+      }
+    }
+    publishNotices(ctx, notices);
+
+    const mean = plddt.length > 0 ? plddt.reduce((n, v) => n + v, 0) / plddt.length : 0;
+    return {
+      uniprotAccession: confidence.uniprotAccession,
+      ...(confidence.entryId ? { entryId: confidence.entryId } : {}),
+      ...(typeof confidence.modelVersion === 'number'
+        ? { modelVersion: confidence.modelVersion }
+        : {}),
+      residueCount: plddt.length,
+      meanPlddt: Math.round(mean * 100) / 100,
+      plddtSource: confidence.plddtSource,
+      ...(input.include_track ? { plddt } : {}),
+      segments: summary.segments,
+      paeBlocks: summary.paeBlocks,
+      domains,
+      ...(typeof confidence.maxPae === 'number' ? { maxPae: confidence.maxPae } : {}),
+      ...(matrix ?? {}),
+      ...(confidence.paeDocUrl ? { paeDocUrl: confidence.paeDocUrl } : {}),
+      attribution: attributionsFor(['AlphaFold DB']),
+    };
+  },
+
+  format: (result) => {
+    const lines: string[] = [
+      `## ${result.uniprotAccession}${result.entryId ? ` (${result.entryId})` : ''} confidence`,
+      [
+        `**Residues:** ${result.residueCount}`,
+        `**Mean pLDDT:** ${result.meanPlddt.toFixed(1)}`,
+        typeof result.modelVersion === 'number' ? `**Version:** ${result.modelVersion}` : null,
+        `**pLDDT source:** ${result.plddtSource}`,
+        typeof result.maxPae === 'number' ? `**Max PAE:** ${result.maxPae} Å` : null,
+      ]
+        .filter(Boolean)
+        .join(' | '),
+    ];
+    lines.push(`\n### Confident segments (${result.segments.length})`);
+    result.segments.forEach((s, i) => {
+      lines.push(
+        `- [${i}] ${s.start}–${s.end} (${s.end - s.start + 1} aa) mean pLDDT ${s.meanPlddt.toFixed(1)}`,
+      );
+    });
+    if (result.paeBlocks.length > 0) {
+      lines.push(`\n### PAE between segments`);
+      for (const b of result.paeBlocks) {
+        lines.push(
+          `- ${b.a === b.b ? `[${b.a}] within` : `[${b.a}] ↔ [${b.b}]`}: ${b.meanPae.toFixed(1)} Å`,
+        );
+      }
+    }
+    if (result.domains.length > 0) {
+      lines.push(`\n### PAE domains (${result.domains.length})`);
+      for (const d of result.domains) {
+        const pieces = d.segments.map((s) => `${s.start}–${s.end}`).join(', ');
+        lines.push(
+          `- ${d.start}–${d.end} (${d.size} aa; ${pieces}) mean PAE ${d.meanPae.toFixed(1)} Å${typeof d.meanPlddt === 'number' ? `, mean pLDDT ${d.meanPlddt.toFixed(1)}` : ''}`,
+        );
+      }
+    }
+    if (result.plddt) {
+      lines.push(`\n### pLDDT track`);
+      lines.push(result.plddt.map((v) => Math.round(v)).join(' '));
+    }
+    if (result.paeMatrix) {
+      lines.push(
+        `\n### PAE matrix (${result.paeMatrix.length}×${result.paeMatrix.length}, bin ${result.paeMatrixBin ?? 1})`,
+      );
+      for (const row of result.paeMatrix) lines.push(row.join(' '));
+    }
+    if (result.paeDocUrl) lines.push(`\n**PAE file:** ${result.paeDocUrl}`);
+    if (result.attribution.length > 0) {
+      lines.push(`\n### Attribution`);
+      lines.push(...renderAttribution(result.attribution));
+    }
+    return [{ type: 'text', text: lines.join('\n') }];
+  },
+});
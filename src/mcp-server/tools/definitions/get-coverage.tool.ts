@@ -0,0 +1,422 @@
+/**
+ * @fileoverview protein_get_coverage — the structural coverage map of one
+ * UniProt sequence. Every experimental entry and predicted model 3D-Beacons
+ * federates for the accession is placed on the sequence by its UniProt range;
+ * the sequence is then cut at every model boundary, each piece is credited to
+ * the models spanning it, and runs with the same best template are merged into
+ * segments. The best template per piece is the highest-resolution experimental
+ * structure, else the most confident prediction. Positions no model reaches,
+ * and positions no experimental structure reaches, are listed as explicit gaps
+ * rather than left for the caller to infer.
+ * @module mcp-server/tools/definitions/get-coverage.tool
+ */
+
+import { tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { type BeaconModel, getBeaconsService } from '@/services/beacons/beacons-service.js';
+import { attributionsFor } from '@/services/shared/attribution.js';
+import { isUniProtAccession } from '@/services/shared/identifiers.js';
+import {
+  attributionSchema,
+  cacheEnrichment,
+  publishNotices,
+  renderAttribution,
+} from './_schemas.js';
+
+const rangeSchema = z
+  .object({
+    start: z.number().describe('First UniProt position.'),
+    end: z.number().describe('Last UniProt position (inclusive).'),
+    length: z.number().describe('Positions in the range.'),
+  })
+  .describe('A UniProt position range.');
+
+const modelSchema = z
+  .object({
+    id: z
+      .string()
+      .describe('Model identifier — a PDB ID for experimental entries, the provider ID otherwise.'),
+    source: z.enum(['experimental', 'predicted']).describe('Experimental or predicted.'),
+    provider: z
+      .string()
+      .optional()
+      .describe('Originating provider (PDBe, AlphaFold DB, SWISS-MODEL, …).'),
+    category: z
+      .string()
+      .optional()
+      .describe(
+        '3D-Beacons model category (EXPERIMENTALLY DETERMINED, AB-INITIO, TEMPLATE-BASED, …).',
+      ),
+    start: z.number().describe('First UniProt position the model covers.'),
+    end: z.number().describe('Last UniProt position the model covers.'),
+    coverage: z.number().optional().describe('Fraction of the UniProt sequence covered (0–1).'),
+    resolution: z.number().optional().describe('Resolution in Å (experimental only).'),
+    method: z.string().optional().describe('Experimental method (experimental only).'),
+    confidence: z
+      .number()
+      .optional()
+      .describe(
+        "Provider's average confidence (predicted only) — see confidenceType for the scale.",
+      ),
+    confidenceType: z
+      .string()
+      .optional()
+      .describe('Confidence metric: pLDDT (0–100) or QMEANDisCo (0–1), …'),
+    url: z.string().optional().describe('Coordinate file URL.'),
+  })
+  .describe('A federated model placed on the sequence.');
+
+const segmentSchema = z
+  .object({
+    start: z.number().describe('First UniProt position.'),
+    end: z.number().describe('Last UniProt position (inclusive).'),
+    length: z.number().describe('Positions in the segment.'),
+    experimental: z.number().describe('Experimental structures spanning the whole segment.'),
+    predicted: z.number().describe('Predicted models spanning the whole segment.'),
+    best: z.string().describe('Best template for the segment — an id from models[].'),
+    bestSource: z.enum(['experimental', 'predicted']).describe('Source of the best template.'),
+  })
+  .describe('A run of the sequence with one best template and a constant model count.');
+
+export const getCoverage = tool('protein_get_coverage', {
+  title: 'protein-mcp-server: get coverage',
+  description:
+    'Structural coverage map of a UniProt sequence across every PDB entry and predicted model (AlphaFold DB, ' +
+    'SWISS-MODEL, …) that 3D-Beacons federates for it. Returns segments of the sequence, each with how many ' +
+    'experimental and predicted models span it and the best template — the highest-resolution experimental ' +
+    'structure, else the most confident prediction — plus explicit gaps: positions no model covers, and ' +
+    'positions no experimental structure covers. Use it to pick a template per region before ' +
+    'protein_get_structure or protein_map_features. source and max_resolution narrow which models count.',
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  errors: [
+    {
+      reason: 'invalid_accession',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'accession is not a UniProt accession.',
+      recovery:
+        'Pass a UniProt accession such as P00519; resolve a PDB ID to one with protein_get_annotations.',
+    },
+  ],
+
+  input: z.object({
+    accession: z.string().describe('UniProt accession (e.g. P00519).'),
+    source: z
+      .enum(['all', 'experimental', 'predicted'])
+      .default('all')
+      .describe('Which models enter the map: all, experimental only, or predicted only.'),
+    max_resolution: z
+      .number()
+      .positive()
+      .optional()
+      .describe(
+        'Drop experimental structures worse than this resolution (Å), and those without one. Predicted models are unaffected.',
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(500)
+      .default(25)
+      .describe(
+        'Cap on models[] (best first); segments and gaps always cover every counted model.',
+      ),
+  }),
+
+  output: z.object({
+    accession: z.string().describe('UniProt accession.'),
+    sequenceLength: z
+      .number()
+      .optional()
+      .describe('UniProt sequence length, when 3D-Beacons reports it.'),
+    modelCount: z.number().describe('Models placed on the sequence, before the limit.'),
+    coveredFraction: z
+      .number()
+      .optional()
+      .describe('Fraction of the sequence any counted model covers (needs sequenceLength).'),
+    experimentalFraction: z
+      .number()
+      .optional()
+      .describe(
+        'Fraction of the sequence an experimental structure covers (needs sequenceLength).',
+      ),
+    segments: z.array(segmentSchema).describe('Covered runs in sequence order.'),
+    gaps: z.array(rangeSchema).describe('Runs no counted model covers.'),
+    experimentalGaps: z
+      .array(rangeSchema)
+      .describe(
+        'Runs no experimental structure covers — where only predictions (or nothing) exist.',
+      ),
+    models: z.array(modelSchema).describe('Counted models, best first, capped at limit.'),
+    attribution: z
+      .array(attributionSchema)
+      .describe('Upstream data-source licenses and citations. Always present.'),
+  }),
+
+  enrichment: {
+    truncated: z
+      .boolean()
+      .optional()
+      .describe('True when models[] hit the limit; modelCount gives the full count.'),
+    notice: z
+      .string()
+      .optional()
+      .describe(
+        'Advisory note: no models at all, models without a UniProt range, filtered-out models, the models[] cap.',
+      ),
+    ...cacheEnrichment,
+  },
+
+  async handler(input, ctx) {
+    const accession = input.accession.trim().toUpperCase();
+    if (!isUniProtAccession(accession)) {
+      throw ctx.fail('invalid_accession', `"${input.accession}" is not a UniProt accession.`, {
+        ...ctx.recoveryFor('invalid_accession'),
+      });
+    }
+
+    const summary = await getBeaconsService().getSummary(accession, ctx);
+    const notices: string[] = [];
+    if (summary.models.length === 0) {
+      notices.push(`3D-Beacons has no experimental or predicted models for ${accession}.`);
+    }
+
+    const placed = summary.models.filter(
+      (m): m is BeaconModel & { uniprotStart: number; uniprotEnd: number } =>
+        m.uniprotStart !== undefined && m.uniprotEnd !== undefined,
+    );
+    if (placed.length < summary.models.length) {
+      notices.push(
+        `${summary.models.length - placed.length} model(s) without a UniProt range were left off the map.`,
+      );
+    }
+    const counted = placed.filter((m) => {
+      const experimental = isExperimental(m);
+      if (input.source !== 'all' && (input.source === 'experimental') !== experimental)
+        return false;
+      if (experimental && input.max_resolution !== undefined) {
+        return m.resolution !== undefined && m.resolution <= input.max_resolution;
+      }
+      return true;
+    });
+    if (counted.length < placed.length) {
+      notices.push(`${placed.length - counted.length} model(s) excluded by source/max_resolution.`);
+    }
+
+    const models = counted.map(toModel).sort(compareModels);
+    const length = summary.sequenceLength;
+    const segments = buildSegments(models);
+    const gaps = uncovered(models, length);
+    const experimentalGaps = uncovered(
+      models.filter((m) => m.source === 'experimental'),
+      length,
+    );
+
+    if (models.length > input.limit) {
+      ctx.enrich({ truncated: true });
+      notices.push(`Showing ${input.limit} of ${models.length} models; raise limit to see more.`);
+    }
+    publishNotices(ctx, notices);
+
+    const shown = models.slice(0, input.limit);
+    const sources = new Set<string>();
+    for (const m of models) {
+      sources.add(
+        m.source === 'experimental'
+          ? 'RCSB PDB'
+          : (m.provider ?? '3D-Beacons (provider unspecified)'),
+      );
+    }
+
+    return {
+      accession: summary.accession,
+      ...(length !== undefined ? { sequenceLength: length } : {}),
+      modelCount: models.length,
+      ...(length
+        ? {
+            coveredFraction: fraction(length - sumLengths(gaps), length),
+            experimentalFraction: fraction(length - sumLengths(experimentalGaps), length),
+          }
+        : {}),
+      segments,
+      gaps,
+      experimentalGaps,
+      models: shown,
+      attribution: attributionsFor(sources),
+    };
+  },
+
+  format: (result) => {
+    const lines: string[] = [
+      `## Structural coverage of ${result.accession}${result.sequenceLength ? ` (${result.sequenceLength} aa)` : ''}`,
+    ];
+    const summary = [`**Models:** ${result.modelCount}`];
+    if (result.coveredFraction !== undefined) {
+      summary.push(`**Covered:** ${(result.coveredFraction * 100).toFixed(1)}%`);
+    }
+    if (result.experimentalFraction !== undefined) {
+      summary.push(`**Experimental:** ${(result.experimentalFraction * 100).toFixed(1)}%`);
+    }
+    lines.push(summary.join(' | '));
+
+    if (result.segments.length > 0) {
+      lines.push('\n### Segments');
+      lines.push('| Range | Length | Experimental | Predicted | Best |');
+      lines.push('|:---|---:|---:|---:|:---|');
+      for (const s of result.segments) {
+        lines.push(
+          `| ${s.start}–${s.end} | ${s.length} | ${s.experimental} | ${s.predicted} | ${s.best} (${s.bestSource}) |`,
+        );
+      }
+    }
+    lines.push(`\n**Gaps (no model):** ${renderRanges(result.gaps)}`);
+    lines.push(`**Gaps (no experimental structure):** ${renderRanges(result.experimentalGaps)}`);
+
+    if (result.models.length > 0) {
+      lines.push(`\n### Models (${result.models.length} of ${result.modelCount})`);
+      for (const m of result.models) {
+        const detail = [
+          m.provider,
+          m.category,
+          m.method,
+          m.resolution !== undefined ? `${m.resolution} Å` : undefined,
+          m.confidence !== undefined
+            ? `${m.confidenceType ?? 'confidence'} ${m.confidence}`
+            : undefined,
+          m.coverage !== undefined ? `coverage ${(m.coverage * 100).toFixed(0)}%` : undefined,
+        ].filter(Boolean);
+        lines.push(
+          `- **${m.id}** (${m.source}) ${m.start}–${m.end}${detail.length ? ` — ${detail.join(', ')}` : ''}${m.url ? ` — ${m.url}` : ''}`,
+        );
+      }
+    }
+    if (result.attribution.length > 0) {
+      lines.push(`\n### Attribution`);
+      lines.push(...renderAttribution(result.attribution));
+    }
+    return [{ type: 'text', text: lines.join('\n') }];
+  },
+});
+
+type CoverageModel = z.infer<typeof modelSchema>;
+type Range = z.infer<typeof rangeSchema>;
+
+function isExperimental(model: BeaconModel): boolean {
+  return /experimentally/i.test(model.modelCategory ?? '');
+}
+
+function toModel(m: BeaconModel & { uniprotStart: number; uniprotEnd: number }): CoverageModel {
+  const experimental = isExperimental(m);
+  return {
+    id: experimental ? m.modelIdentifier.toUpperCase() : m.modelIdentifier,
+    source: experimental ? 'experimental' : 'predicted',
+    ...(m.provider ? { provider: m.provider } : {}),
+    ...(m.modelCategory ? { category: m.modelCategory } : {}),
+    start: m.uniprotStart,
+    end: m.uniprotEnd,
+    ...(m.coverage !== undefined ? { coverage: m.coverage } : {}),
+    ...(m.resolution !== undefined ? { resolution: m.resolution } : {}),
+    ...(m.experimentalMethod ? { method: m.experimentalMethod } : {}),
+    ...(m.confidenceAvgLocalScore !== undefined ? { confidence: m.confidenceAvgLocalScore } : {}),
+    ...(m.confidenceType ? { confidenceType: m.confidenceType } : {}),
+    ...(m.modelUrl ? { url: m.modelUrl } : {}),
+  };
+}
+
+/**
+ * Template preference: experimental before predicted; experimental by resolution
+ * (unresolved — NMR, most EM maps without one — last); predicted by confidence,
+ * with 0–1 scores (QMEANDisCo) lifted onto pLDDT's 0–100 scale. Ties go to the
+ * wider model, then the identifier, so the order is stable.
+ */
+function compareModels(a: CoverageModel, b: CoverageModel): number {
+  if (a.source !== b.source) return a.source === 'experimental' ? -1 : 1;
+  const byQuality =
+    a.source === 'experimental'
+      ? (a.resolution ?? Number.POSITIVE_INFINITY) - (b.resolution ?? Number.POSITIVE_INFINITY)
+      : confidenceScore(b) - confidenceScore(a);
+  if (byQuality !== 0 && !Number.isNaN(byQuality)) return byQuality;
+  return b.end - b.start - (a.end - a.start) || a.id.localeCompare(b.id);
+}
+
+function confidenceScore(model: CoverageModel): number {
+  const score = model.confidence ?? 0;
+  return score <= 1 ? score * 100 : score;
+}
+
+/**
+ * Cut the sequence at every model boundary, credit each piece to the models
+ * spanning it, and merge adjacent pieces that share a best template and counts.
+ * `models` arrives sorted best first, so the first spanning model is the best.
+ */
+function buildSegments(models: CoverageModel[]): Array<z.infer<typeof segmentSchema>> {
+  const cuts = [...new Set(models.flatMap((m) => [m.start, m.end + 1]))].sort((a, b) => a - b);
+  const segments: Array<z.infer<typeof segmentSchema>> = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const start = cuts[i] as number;
+    const end = (cuts[i + 1] as number) - 1;
+    const spanning = models.filter((m) => m.start <= start && m.end >= end);
+    const best = spanning[0];
+    if (!best) continue;
+    const experimental = spanning.filter((m) => m.source === 'experimental').length;
+    const predicted = spanning.length - experimental;
+    const open = segments[segments.length - 1];
+    if (
+      open &&
+      open.end === start - 1 &&
+      open.best === best.id &&
+      open.experimental === experimental &&
+      open.predicted === predicted
+    ) {
+      open.end = end;
+      open.length = open.end - open.start + 1;
+      continue;
+    }
+    segments.push({
+      start,
+      end,
+      length: end - start + 1,
+      experimental,
+      predicted,
+      best: best.id,
+      bestSource: best.source,
+    });
+  }
+  return segments;
+}
+
+/**
+ * Runs of 1..length no model covers. Without a known length only the gaps
+ * before and between models can be stated.
+ */
+function uncovered(models: CoverageModel[], length: number | undefined): Range[] {
+  const spans = models.map((m) => [m.start, m.end] as const).sort((a, b) => a[0] - b[0]);
+  const gaps: Range[] = [];
+  let next = 1;
+  for (const [start, end] of spans) {
+    if (start > next) gaps.push(range(next, start - 1));
+    next = Math.max(next, end + 1);
+  }
+  if (length !== undefined && next <= length) gaps.push(range(next, length));
+  return gaps;
+}
+
+function range(start: number, end: number): Range {
+  return { start, end, length: end - start + 1 };
+}
+
+function sumLengths(ranges: Range[]): number {
+  return ranges.reduce((sum, r) => sum + r.length, 0);
+}
+
+function fraction(part: number, whole: number): number {
+  return Math.round((Math.max(0, part) / whole) * 1000) / 1000;
+}
+
+function renderRanges(ranges: Range[]): string {
+  return ranges.length > 0
+    ? ranges
+        .map((r) => `${r.start === r.end ? r.start : `${r.start}–${r.end}`} (${r.length} aa)`)
+        .join(', ')
+    : 'none';
+}
@@ -2,8 +2,12 @@
  * @fileoverview protein_get_structure — fetch experimental, predicted, or
  * best-available structures by ID. Batches up to N experimental IDs in one RCSB
  * GraphQL call with per-ID partial success (`failed[]`). Optionally inlines
- * coordinate-file content; when that overflows a byte budget it returns a
- * per-structure section outline for targeted re-call instead of truncating.
+ * coordinate-file content, narrowed by an atom `selection` (one chain, a residue
+ * range, a ligand pocket) and rewritten as valid mmCIF/PDB in the source
+ * dialect; when that overflows a byte budget it returns a per-structure,
+ * per-chain section outline for targeted re-call instead of truncating.
+ * Experimental entries list their biological assemblies with assembly
+ * coordinate URLs, and can inline an assembly instead of the asymmetric unit.
  * Carries upstream data attribution (RCSB PDB / AlphaFold DB) per response.
  * @module mcp-server/tools/definitions/get-structure.tool
  */
@@ -12,14 +16,34 @@ import { type Context, tool, z } from '@cyanheads/mcp-ts-core';
 import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
 import { DEFAULT_OUTLINE_BUDGET_BYTES } from '@cyanheads/mcp-ts-core/utils';
 import { getServerConfig } from '@/config/server-config.js';
-import { getAlphaFoldService } from '@/services/alphafold/alphafold-service.js';
 import { getBeaconsService } from '@/services/beacons/beacons-service.js';
 import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
+import type { EntryMeta } from '@/services/rcsb/types.js';
 import { mapWithConcurrency } from '@/services/shared/async.js';
 import { attributionsFor } from '@/services/shared/attribution.js';
 import { fetchText } from '@/services/shared/http.js';
 import { isAlphaFoldEntryId, isPdbId, isUniProtAccession } from '@/services/shared/identifiers.js';
-import { attributionSchema, renderAttribution } from './_schemas.js';
+import { parseStructure } from '@/services/structure/parser.js';
+import {
+  chainSelection,
+  countAtoms,
+  parseSelection,
+  type Selection,
+  selectStructure,
+} from '@/services/structure/selection.js';
+import type { Structure } from '@/services/structure/types.js';
+import { writeStructure } from '@/services/structure/writer.js';
+import { fetchAssemblyCoordinates, fetchEntryCoordinates, getPrediction } from './_providers.js';
+import {
+  assemblyIdSchema,
+  attributionSchema,
+  cacheEnrichment,
+  fallbackSchema,
+  fallbacksOutput,
+  publishNotices,
+  renderAttribution,
+  renderFallbacks,
+} from './_schemas.js';
 
 const confidenceBucketsSchema = z.object({
   veryLow: z.number().describe('Fraction of residues with pLDDT < 50.'),
@@ -28,6 +52,45 @@ const confidenceBucketsSchema = z.object({
   veryHigh: z.number().describe('Fraction with pLDDT > 90.'),
 });
 
+const assemblySchema = z
+  .object({
+    assemblyId: z
+      .string()
+      .describe('Assembly ID — pass as assembly_id here or to the analysis tools.'),
+    oligomericState: z
+      .string()
+      .optional()
+      .describe('Oligomeric state (e.g. "Hetero 4-mer"), else the deposited description.'),
+    polymerCount: z.number().optional().describe('Polymer chains in the assembly.'),
+    stoichiometry: z
+      .array(z.string())
+      .optional()
+      .describe('Entity stoichiometry (e.g. ["A2", "B2"]).'),
+    symmetry: z.string().optional().describe('Global point-group symmetry symbol (e.g. "C2").'),
+    symmetryType: z.string().optional().describe('Symmetry type (e.g. "Cyclic", "Asymmetric").'),
+    determination: z
+      .string()
+      .optional()
+      .describe(
+        'How the assembly was determined: author_defined_assembly, software_defined_assembly, or author_and_software_defined_assembly.',
+      ),
+    determinationMethod: z
+      .string()
+      .optional()
+      .describe('Software or method behind the determination (e.g. "PISA").'),
+    coordinateUrls: z
+      .object({
+        cif: z.string().describe('mmCIF assembly file URL.'),
+        pdb: z
+          .string()
+          .describe(
+            'PDB-format assembly file URL — each symmetry copy is a separate MODEL, and RCSB has none for entries too large for the format.',
+          ),
+      })
+      .describe('Assembly coordinate file download URLs.'),
+  })
+  .describe('A biological assembly of the entry, with its coordinate-file URLs.');
+
 const structureRecordSchema = z
   .object({
     id: z.string().describe('Structure identifier (PDB entry ID or UniProt accession).'),
@@ -76,7 +139,19 @@ const structureRecordSchema = z
         pdb: z.string().optional().describe('PDB-format coordinate file URL.'),
         bcif: z.string().optional().describe('Binary CIF coordinate file URL.'),
       })
-      .describe('Coordinate file download URLs.'),
+      .describe('Coordinate file download URLs (the asymmetric unit, for PDB entries).'),
+    assemblies: z
+      .array(assemblySchema)
+      .optional()
+      .describe(
+        'Biological assemblies of an experimental PDB entry — the functional complex, which can differ from the asymmetric unit (e.g. one chain of a dimer, or two copies of a monomer).',
+      ),
+    assemblyId: z
+      .string()
+      .optional()
+      .describe(
+        'Biological assembly whose coordinates were inlined (only when assembly_id applied).',
+      ),
     coordinateFormat: z
       .enum(['cif', 'pdb', 'bcif'])
       .optional()
@@ -84,7 +159,13 @@ const structureRecordSchema = z
     coordinates: z
       .string()
       .optional()
-      .describe('Inlined coordinate-file content (only when include_coords).'),
+      .describe(
+        'Inlined coordinate-file content (only when include_coords or selection). With a selection, only the matching atom records, as a valid file in coordinateFormat.',
+      ),
+    selectedAtoms: z
+      .number()
+      .optional()
+      .describe('Atoms the selection matched across all models (only when selection is set).'),
   })
   .describe('A resolved structure with metadata and coordinate-file URLs.');
 
@@ -101,8 +182,12 @@ export const getStructure = tool('protein_get_structure', {
     'experimental structure if one exists (optimizing resolution, not biological representativeness, so it can ' +
     'return an engineered mutant over the wild-type entry), else the best prediction. Resolves up to the ' +
     'configured batch cap per call with per-ID partial success — missed IDs are listed in failed[]. Set ' +
-    'include_coords to inline coordinate content; if that overflows, a section outline is returned — re-call ' +
-    'with sections:[ids] to inline specific structures.',
+    'include_coords to inline coordinate content, or pass a selection (e.g. "chain A and resi 50-120", ' +
+    '"ligand STI around 5", "protein and not hydrogen") to inline only the matching atoms as valid mmCIF/PDB; ' +
+    'if that overflows, a section outline with per-chain sizes is returned — re-call with sections:[ids] and ' +
+    'a chain selection to inline specific structures. PDB entries list their biological assemblies ' +
+    '(oligomeric state, symmetry, stoichiometry, how each was determined) with assembly coordinate URLs; ' +
+    'set assembly_id to inline an assembly instead of the asymmetric unit.',
   annotations: { readOnlyHint: true, openWorldHint: true },
 
   errors: [
@@ -120,6 +205,13 @@ export const getStructure = tool('protein_get_structure', {
       recovery:
         'Verify ID formats (PDB IDs are 4 chars; UniProt accessions match the standard pattern) or locate IDs via protein_search_structures.',
     },
+    {
+      reason: 'invalid_selection',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The selection expression does not parse.',
+      recovery:
+        'Combine keywords (chain, resi, resn, name, elem, ligand, protein, nucleic, water, hydrogen, backbone, hetero, all) with and/or/not, parentheses, and "<sel> around <Å>" — e.g. "chain A and resi 50-120".',
+    },
   ],
 
   input: z.object({
@@ -143,6 +235,21 @@ export const getStructure = tool('protein_get_structure', {
       .array(z.string())
       .optional()
       .describe('Structure IDs to inline coordinates for, from a prior overflow outline.'),
+    selection: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Atom selection to inline instead of the whole file (implies include_coords). Keywords: chain A[,B], ' +
+          'resi 50-120 (author numbering), resn HEM, name CA, elem FE, ligand [STI], protein, nucleic, water, ' +
+          'hydrogen, backbone, hetero, all; combine with and/or/not and parentheses; "<sel> around 5" adds ' +
+          'every residue within 5 Å (e.g. "ligand STI around 5" for a binding pocket).',
+      ),
+    assembly_id: assemblyIdSchema
+      .optional()
+      .describe(
+        'Inline this biological assembly (e.g. "1", from assemblies[]) instead of the asymmetric unit. PDB entries only; applies with include_coords, selection, or sections.',
+      ),
   }),
 
   output: z.object({
@@ -164,6 +271,12 @@ export const getStructure = tool('protein_get_structure', {
       .describe(
         'Upstream data-source licenses and citations for every source present in structures[] — RCSB PDB for experimental records, the modelling provider (AlphaFold DB, ModelArchive, SWISS-MODEL, …) for predicted ones. Always present — the attribution obligation travels with the data.',
       ),
+    fallbacks: z
+      .array(fallbackSchema)
+      .optional()
+      .describe(
+        'Reads answered by a secondary provider because the primary was unavailable — a predicted model via 3D-Beacons while AlphaFold DB was down, coordinates from PDBe while RCSB files were. Absent when every read came from its primary.',
+      ),
     overflow: z
       .object({
         sections: z
@@ -172,13 +285,33 @@ export const getStructure = tool('protein_get_structure', {
               .object({
                 id: z.string().describe('Structure ID whose coordinates were withheld.'),
                 bytes: z.number().describe('Serialized size of the withheld coordinate content.'),
+                chains: z
+                  .array(
+                    z
+                      .object({
+                        chain: z
+                          .string()
+                          .describe('Author chain ID — use in selection "chain <id>".'),
+                        atoms: z.number().describe('Atoms in this chain across all models.'),
+                        bytes: z
+                          .number()
+                          .describe('Serialized size of this chain alone in the same format.'),
+                      })
+                      .describe('One chain of a withheld structure and its size.'),
+                  )
+                  .optional()
+                  .describe(
+                    'Per-chain sizes, so a re-call can target one chain. Absent when the content could not be parsed.',
+                  ),
               })
               .describe('A withheld structure and its coordinate byte size.'),
           )
           .describe('Per-structure coordinate sizes available for targeted re-call.'),
         notice: z
           .string()
-          .describe('How to retrieve specific coordinates via the sections parameter.'),
+          .describe(
+            'How to retrieve specific coordinates via the sections and selection parameters.',
+          ),
       })
       .optional()
       .describe(
@@ -189,18 +322,35 @@ export const getStructure = tool('protein_get_structure', {
   enrichment: {
     requested: z.number().describe('Number of IDs requested.'),
     resolved: z.number().describe('Number of IDs resolved.'),
-    notice: z.string().optional().describe('Advisory note (partial failures, overflow guidance).'),
+    notice: z
+      .string()
+      .optional()
+      .describe('Advisory note (partial failures, overflow guidance, fallback providers).'),
+    ...cacheEnrichment,
   },
 
   async handler(input, ctx) {
     const cfg = getServerConfig();
+    const notices: string[] = [];
     const ids = input.ids.slice(0, cfg.maxBatchIds).map((s) => s.trim());
     if (input.ids.length > cfg.maxBatchIds) {
-      ctx.enrich.notice(
+      notices.push(
         `Batch capped at ${cfg.maxBatchIds} IDs; ${input.ids.length - cfg.maxBatchIds} ignored.`,
       );
     }
 
+    // Compile the selection before any upstream call so a typo costs nothing.
+    let selection: Selection | undefined;
+    if (input.selection) {
+      try {
+        selection = parseSelection(input.selection);
+      } catch (err) {
+        throw ctx.fail('invalid_selection', err instanceof Error ? err.message : String(err), {
+          ...ctx.recoveryFor('invalid_selection'),
+        });
+      }
+    }
+
     if (input.source === 'experimental') {
       if (ids.some((id) => isUniProtAccession(id) && !isPdbId(id))) {
         throw ctx.fail(
@@ -230,48 +380,68 @@ export const getStructure = tool('protein_get_structure', {
       );
     }
 
-    // Inline coordinates when requested (all, or only the re-called sections).
+    // Inline coordinates when requested (all, or only the re-called sections). A
+    // selection implies inlining — there is nothing else for it to narrow.
     const inlineSet = input.sections?.length
       ? new Set(input.sections.map((s) => s.toUpperCase()))
-      : input.include_coords
+      : input.include_coords || selection
         ? 'all'
         : null;
+    const parsed = new Map<StructureRecord, Structure>();
     if (inlineSet) {
-      await inlineCoordinates(structures, inlineSet, cfg.fanoutConcurrency, ctx);
+      notices.push(
+        ...(await inlineCoordinates(
+          structures,
+          { inline: inlineSet, selection, assemblyId: input.assembly_id },
+          parsed,
+          cfg.fanoutConcurrency,
+          ctx,
+        )),
+      );
+    } else if (input.assembly_id) {
+      notices.push(
+        'assembly_id picks the coordinates to inline; set include_coords or selection, or download from assemblies[].coordinateUrls.',
+      );
     }
 
     // Overflow guard: inlining several coordinate files at once can blow the
     // response budget. A single structure always inlines (re-calling for the lone
-    // section would return the same bytes); 2+ over budget collapse to a size index.
-    let overflow: { sections: Array<{ id: string; bytes: number }>; notice: string } | undefined;
+    // section would return the same bytes); 2+ over budget collapse to a size
+    // index, broken down per chain so the re-call can narrow further.
+    let overflow: { sections: OverflowSection[]; notice: string } | undefined;
     if (inlineSet === 'all') {
       const withCoords = structures.filter((s) => s.coordinates);
       const total = withCoords.reduce((n, s) => n + (s.coordinates?.length ?? 0), 0);
       if (withCoords.length > 1 && total > DEFAULT_OUTLINE_BUDGET_BYTES) {
-        const sections = withCoords.map((s) => ({ id: s.id, bytes: s.coordinates?.length ?? 0 }));
+        const sections = withCoords.map((s) => outlineSection(s, parsed.get(s)));
         for (const s of structures) {
           delete s.coordinates;
           delete s.coordinateFormat;
+          delete s.selectedAtoms;
+          delete s.assemblyId;
         }
+        const first = sections[0];
+        const chainHint = first?.chains?.[0] ? `, selection:"chain ${first.chains[0].chain}"` : '';
         overflow = {
           sections,
           notice:
             `Inlined coordinates (${total} bytes across ${sections.length} structures) exceeded the ` +
-            `${DEFAULT_OUTLINE_BUDGET_BYTES}-byte budget. Re-call with sections:["${sections[0]?.id}"] ` +
-            `(add more IDs as needed) to inline specific structures.`,
+            `${DEFAULT_OUTLINE_BUDGET_BYTES}-byte budget. Re-call with sections:["${first?.id}"]${chainHint} ` +
+            `(add more IDs or chains as needed) to inline specific structures.`,
         };
-        ctx.enrich.notice(
-          'Coordinates exceeded the inline budget; re-call with sections for specific structures.',
+        notices.push(
+          'Coordinates exceeded the inline budget; re-call with sections (and a chain selection) for specific structures.',
         );
       }
     }
 
     ctx.enrich({ requested: ids.length, resolved: structures.length });
     if (failed.length > 0) {
-      ctx.enrich.notice(
+      notices.push(
         `${failed.length} of ${ids.length} IDs did not resolve: ${failed.map((f) => f.id).join(', ')}.`,
       );
     }
+    publishNotices(ctx, notices);
 
     // Attribution is a per-response union of the sources actually present, keyed
     // off each record's real provider. Experimental data is fetched from RCSB
@@ -294,6 +464,7 @@ export const getStructure = tool('protein_get_structure', {
       failed,
       attribution: attributionsFor(sources),
       ...(overflow ? { overflow } : {}),
+      ...fallbacksOutput(ctx),
     };
   },
 
@@ -326,10 +497,17 @@ export const getStructure = tool('protein_get_structure', {
         s.coordinateUrls.bcif ? `[bcif](${s.coordinateUrls.bcif})` : null,
       ].filter(Boolean);
       if (urls.length > 0) lines.push(`**Coordinates:** ${urls.join(' · ')}`);
+      if (s.assemblies?.length) {
+        lines.push('**Assemblies:**');
+        for (const a of s.assemblies) lines.push(`- ${renderAssembly(a)}`);
+      }
       if (s.paeDocUrl) lines.push(`**PAE:** ${s.paeDocUrl}`);
       if (s.coordinates) {
+        const selected =
+          typeof s.selectedAtoms === 'number' ? `, ${s.selectedAtoms} selected atoms` : '';
+        const assembly = s.assemblyId ? `assembly ${s.assemblyId}, ` : '';
         lines.push(
-          `**Inlined ${s.coordinateFormat ?? 'coordinates'} (${s.coordinates.length} bytes):**`,
+          `**Inlined ${s.coordinateFormat ?? 'coordinates'} (${assembly}${s.coordinates.length} bytes${selected}):**`,
         );
         lines.push(
           '```',
@@ -346,12 +524,21 @@ export const getStructure = tool('protein_get_structure', {
     if (result.overflow) {
       lines.push(`\n### Coordinates withheld (over budget)`);
       lines.push(result.overflow.notice);
-      for (const s of result.overflow.sections) lines.push(`- ${s.id}: ${s.bytes} bytes`);
+      for (const s of result.overflow.sections) {
+        lines.push(`- ${s.id}: ${s.bytes} bytes`);
+        for (const c of s.chains ?? []) {
+          lines.push(`  - chain ${c.chain}: ${c.atoms} atoms, ${c.bytes} bytes`);
+        }
+      }
     }
     if (result.attribution.length > 0) {
       lines.push(`\n### Attribution`);
       lines.push(...renderAttribution(result.attribution));
     }
+    if (result.fallbacks?.length) {
+      lines.push('\n### Fallback providers');
+      lines.push(...renderFallbacks(result.fallbacks));
+    }
     return [{ type: 'text', text: lines.join('\n') }];
   },
 });
@@ -360,6 +547,31 @@ function pct(fraction: number): string {
   return `${Math.round(fraction * 100)}%`;
 }
 
+function renderAssembly(a: z.infer<typeof assemblySchema>): string {
+  const symmetry = a.symmetry
+    ? `${a.symmetry}${a.symmetryType ? ` (${a.symmetryType})` : ''}`
+    : null;
+  const traits = [
+    a.oligomericState,
+    symmetry,
+    a.stoichiometry?.join(''),
+    typeof a.polymerCount === 'number' ? `${a.polymerCount} chains` : null,
+  ].filter(Boolean);
+  const determination = a.determination
+    ? ` — ${a.determination}${a.determinationMethod ? ` (${a.determinationMethod})` : ''}`
+    : '';
+  return (
+    `**${a.assemblyId}**${traits.length > 0 ? `: ${traits.join(', ')}` : ''}${determination} — ` +
+    `[cif](${a.coordinateUrls.cif}) · [pdb](${a.coordinateUrls.pdb})`
+  );
+}
+
+interface OverflowSection {
+  bytes: number;
+  chains?: Array<{ chain: string; atoms: number; bytes: number }>;
+  id: string;
+}
+
 interface Resolution {
   failed: Array<{ id: string; reason: string }>;
   structures: StructureRecord[];
@@ -395,6 +607,7 @@ async function fetchExperimental(ids: string[], ctx: Context): Promise<Resolutio
         pdb: rcsb.coordinateFileUrl(meta.id, 'pdb'),
         bcif: rcsb.coordinateFileUrl(meta.id, 'bcif'),
       },
+      ...assembliesOf(meta),
     });
   }
   return { structures, failed };
@@ -438,7 +651,7 @@ async function fetchPredictedOrBest(
 }
 
 async function fetchPrediction(accession: string, ctx: Context): Promise<StructureRecord | null> {
-  const model = await getAlphaFoldService().getPrediction(accession, ctx);
+  const model = await getPrediction(accession, ctx);
   if (!model) return null;
   return {
     id: model.uniprotAccession,
@@ -477,18 +690,18 @@ async function fetchBest(accession: string, ctx: Context): Promise<StructureReco
   // best-effort — a failed lookup must not drop the structure the agent already has.
   const rcsb = getRcsbService();
   let pdbId: string | undefined;
-  let title: string | undefined;
+  let meta: EntryMeta | undefined;
   if (isExperimental && best.modelIdentifier) {
     pdbId = best.modelIdentifier.toUpperCase();
     const entries = await rcsb.getEntries([pdbId], ctx).catch(() => []);
-    title = entries[0]?.title;
+    meta = entries[0];
   }
 
   return {
     id: summary.accession,
     source: isExperimental ? 'experimental' : 'predicted',
     ...(pdbId ? { pdbId } : {}),
-    ...(title ? { title } : {}),
+    ...(meta?.title ? { title: meta.title } : {}),
     ...(best.provider ? { provider: best.provider } : {}),
     ...(typeof best.resolution === 'number' ? { resolution: best.resolution } : {}),
     ...(best.experimentalMethod ? { method: best.experimentalMethod } : {}),
@@ -511,6 +724,26 @@ async function fetchBest(accession: string, ctx: Context): Promise<StructureReco
       : best.modelUrl
         ? coordinateUrlFor(best.modelUrl)
         : {},
+    ...(meta ? assembliesOf(meta) : {}),
+  };
+}
+
+/**
+ * An entry's biological assemblies with their RCSB download URLs, as a
+ * spreadable record fragment. Computed models have no assembly files, so they
+ * get none.
+ */
+function assembliesOf(meta: EntryMeta): Pick<StructureRecord, 'assemblies'> {
+  if (meta.computedModelProvider || meta.assemblies.length === 0) return {};
+  const rcsb = getRcsbService();
+  return {
+    assemblies: meta.assemblies.map((a) => ({
+      ...a,
+      coordinateUrls: {
+        cif: rcsb.assemblyFileUrl(meta.id, a.assemblyId, 'cif'),
+        pdb: rcsb.assemblyFileUrl(meta.id, a.assemblyId, 'pdb'),
+      },
+    })),
   };
 }
 
@@ -521,14 +754,34 @@ function coordinateUrlFor(url: string): { cif?: string; pdb?: string; bcif?: str
   return { cif: url };
 }
 
-/** Fetch and inline coordinate content for the requested structures. */
+/** What to inline: which structures, narrowed how, read as which assembly. */
+interface InlineRequest {
+  /** Biological assembly to read PDB entries as, instead of the asymmetric unit. */
+  assemblyId: string | undefined;
+  inline: Set<string> | 'all';
+  selection: Selection | undefined;
+}
+
+/**
+ * Fetch and inline coordinate content for the requested structures. With a
+ * selection, each file is parsed, pruned to the matching atoms, and rewritten in
+ * its own dialect; parsed structures are kept in `parsed` for the overflow
+ * outline. With an assembly, PDB entries inline that assembly's mmCIF; one an
+ * entry does not list is skipped. Returns advisory notices (empty selections,
+ * unparseable files, assemblies missing or not applicable).
+ */
 async function inlineCoordinates(
   structures: StructureRecord[],
-  inline: Set<string> | 'all',
+  { inline, selection, assemblyId }: InlineRequest,
+  parsed: Map<StructureRecord, Structure>,
   concurrency: number,
   ctx: Context,
-): Promise<void> {
+): Promise<string[]> {
   const targets = structures.filter((s) => inline === 'all' || inline.has(s.id.toUpperCase()));
+  const empty: string[] = [];
+  const unparseable: string[] = [];
+  const noAssembly: string[] = [];
+  const asDeposited: string[] = [];
   await mapWithConcurrency(targets, concurrency, async (s) => {
     const pick = s.coordinateUrls.cif
       ? (['cif', s.coordinateUrls.cif] as const)
@@ -536,19 +789,112 @@ async function inlineCoordinates(
         ? (['pdb', s.coordinateUrls.pdb] as const)
         : null;
     if (!pick) return;
+    // PDB entries' files are the wwPDB archive's, so PDBe can stand in for RCSB;
+    // a federated model or computed model's file has only the one home.
+    const pdbId = s.pdbId ?? (isPdbId(s.id) ? s.id : undefined);
+    const assembly = pdbId ? assemblyId : undefined;
+    if (assemblyId && !pdbId) asDeposited.push(s.id);
+    if (assembly && s.assemblies && !s.assemblies.some((a) => a.assemblyId === assembly)) {
+      noAssembly.push(s.id);
+      return;
+    }
+    const format = assembly ? 'cif' : pick[0];
+    let text: string;
     try {
-      s.coordinates = await fetchText(pick[1], ctx, {
-        operation: 'getStructure.inlineCoordinates',
-        label: 'Coordinate file',
-        baseDelayMs: 400,
-        maxRetries: 1,
-      });
-      s.coordinateFormat = pick[0];
+      text =
+        pdbId && assembly
+          ? (await fetchAssemblyCoordinates(pdbId, assembly, 'getStructure.inlineCoordinates', ctx))
+              .text
+          : pdbId
+            ? (await fetchEntryCoordinates(pdbId, format, 'getStructure.inlineCoordinates', ctx))
+                .text
+            : await fetchText(pick[1], ctx, {
+                operation: 'getStructure.inlineCoordinates',
+                label: 'Coordinate file',
+                baseDelayMs: 400,
+                maxRetries: 1,
+                cache: 'entry',
+              });
     } catch (err) {
       ctx.log.warning('Failed to inline coordinates', {
         id: s.id,
         error: err instanceof Error ? err.message : err,
       });
+      return;
+    }
+    if (assembly) s.assemblyId = assembly;
+    if (!selection) {
+      s.coordinates = text;
+      s.coordinateFormat = format;
+      return;
+    }
+    let structure: Structure;
+    try {
+      structure = parseStructure(text, format);
+    } catch (err) {
+      ctx.log.warning('Failed to parse coordinates for selection', {
+        id: s.id,
+        error: err instanceof Error ? err.message : err,
+      });
+      unparseable.push(s.id);
+      return;
+    }
+    const selected = selectStructure(structure, selection);
+    s.selectedAtoms = countAtoms(selected);
+    if (s.selectedAtoms === 0) {
+      empty.push(s.id);
+      return;
     }
+    s.coordinates = writeStructure(selected);
+    s.coordinateFormat = format;
+    parsed.set(s, selected);
   });
+  const notices: string[] = [];
+  if (noAssembly.length > 0) {
+    notices.push(
+      `No assembly ${assemblyId} in ${noAssembly.join(', ')}, so nothing was inlined for them; see assemblies[] for the IDs each entry has.`,
+    );
+  }
+  if (asDeposited.length > 0) {
+    notices.push(
+      `assembly_id applies to PDB entries; ${asDeposited.join(', ')} inlined as deposited.`,
+    );
+  }
+  if (empty.length > 0) {
+    notices.push(`Selection "${selection?.source}" matched no atoms in ${empty.join(', ')}.`);
+  }
+  if (unparseable.length > 0) {
+    notices.push(
+      `Could not parse coordinates for ${unparseable.join(', ')}, so the selection was not applied — use the coordinate URLs instead.`,
+    );
+  }
+  return notices;
+}
+
+/**
+ * Size entry for a withheld structure. Per-chain sizes come from the parsed
+ * structure (reused from selection, else parsed here); content that does not
+ * parse still gets its whole-structure size, just no chain breakdown.
+ */
+function outlineSection(record: StructureRecord, structure?: Structure): OverflowSection {
+  const section: OverflowSection = { id: record.id, bytes: record.coordinates?.length ?? 0 };
+  try {
+    const model =
+      structure ??
+      parseStructure(record.coordinates ?? '', record.coordinateFormat === 'pdb' ? 'pdb' : 'cif');
+    section.chains = chainIds(model).map((chain) => {
+      const only = selectStructure(model, chainSelection(chain));
+      return { chain, atoms: countAtoms(only), bytes: writeStructure(only).length };
+    });
+  } catch {
+    // Not parseable as coordinates — the whole-structure size still stands.
+  }
+  return section;
+}
+
+/** Author chain IDs across all models, in order of first appearance. */
+function chainIds(structure: Structure): string[] {
+  const ids = new Set<string>();
+  for (const m of structure.models) for (const c of m.chains) ids.add(c.id);
+  return [...ids];
 }
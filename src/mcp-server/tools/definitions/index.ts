@@ -4,9 +4,15 @@
  */
 
 export { analyzeCollection } from './analyze-collection.tool.js';
+export { analyzeInterface } from './analyze-interface.tool.js';
+export { analyzeStructure } from './analyze-structure.tool.js';
 export { compareStructures } from './compare-structures.tool.js';
 export { findSimilar } from './find-similar.tool.js';
 export { getAnnotations } from './get-annotations.tool.js';
+export { getConfidence } from './get-confidence.tool.js';
+export { getCoverage } from './get-coverage.tool.js';
 export { getStructure } from './get-structure.tool.js';
+export { mapFeatures } from './map-features.tool.js';
 export { searchStructures } from './search-structures.tool.js';
+export { serverStatus } from './server-status.tool.js';
 export { trackLigands } from './track-ligands.tool.js';
@@ -0,0 +1,656 @@
+/**
+ * @fileoverview protein_map_features — project UniProt features and natural
+ * variants onto the residues of a 3D structure. Experimental entries map
+ * through the chain's SIFTS segments (UniProt position → label_seq_id) and then
+ * the mmCIF coordinates (label_seq_id → author residue number + insertion
+ * code), so numbering offsets, expression tags, and unobserved loops are handled
+ * per residue; AlphaFold models are numbered by UniProt position already. Every
+ * feature comes back with its modeled segments in author numbering and the
+ * positions that fall in the construct without coordinates, and an optional
+ * atom selection ("ligand STI around 5") narrows the result to features
+ * touching that region — across the symmetry copies too, when a PDB entry is
+ * read as one of its biological assemblies.
+ * @module mcp-server/tools/definitions/map-features.tool
+ */
+
+import { tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { attributionsFor } from '@/services/shared/attribution.js';
+import { isPdbId, isUniProtAccession } from '@/services/shared/identifiers.js';
+import {
+  type ChainMapping,
+  getSiftsService,
+  uniprotToLabel,
+} from '@/services/sifts/sifts-service.js';
+import {
+  isPolymerResidue,
+  parseSelection,
+  type Selection,
+} from '@/services/structure/selection.js';
+import type { Chain, Model, Residue } from '@/services/structure/types.js';
+import {
+  type AnnotationInclude,
+  getUniProtService,
+  type SequenceFeature,
+} from '@/services/uniprot/uniprot-service.js';
+import { assemblyNotices, loadCoordinates } from './_coordinates.js';
+import {
+  assemblyIdSchema,
+  attributionSchema,
+  cacheEnrichment,
+  fallbackSchema,
+  fallbacksOutput,
+  publishNotices,
+  renderAttribution,
+  renderFallbacks,
+} from './_schemas.js';
+
+const rangeSchema = z
+  .object({
+    start: z.number().describe('First UniProt position.'),
+    end: z.number().describe('Last UniProt position.'),
+  })
+  .describe('A UniProt position range (inclusive).');
+
+const segmentSchema = z
+  .object({
+    uniprotStart: z.number().describe('First UniProt position of the segment.'),
+    uniprotEnd: z.number().describe('Last UniProt position of the segment.'),
+    start: z
+      .string()
+      .describe('Author residue (number + insertion code) the segment starts at, e.g. "315".'),
+    end: z.string().describe('Author residue the segment ends at.'),
+  })
+  .describe('A run of feature positions with coordinates, contiguous in the chain.');
+
+const mappedSchema = z
+  .object({
+    type: z.string().describe('Feature type (e.g. Binding site, Natural variant).'),
+    description: z.string().optional().describe('Feature description.'),
+    start: z.number().describe('Start position (UniProt numbering).'),
+    end: z.number().describe('End position (UniProt numbering).'),
+    status: z
+      .enum(['modeled', 'partial', 'unmodeled', 'outside'])
+      .describe(
+        'modeled: every position has coordinates. partial: some do. unmodeled: inside the construct but ' +
+          'never resolved (disordered loop, tag). outside: not part of the deposited/predicted sequence at all.',
+      ),
+    segments: z
+      .array(segmentSchema)
+      .describe('Modeled runs in author numbering — use with resi in atom selections.'),
+    unmodeled: z
+      .array(rangeSchema)
+      .describe('UniProt ranges inside the construct that have no coordinates.'),
+    selectedResidues: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Author residues of this feature inside the selection. Only when selection is set.',
+      ),
+    meanPlddt: z
+      .number()
+      .optional()
+      .describe('Predicted models only: mean pLDDT over the modeled positions.'),
+  })
+  .describe('A UniProt feature projected onto structure residues.');
+
+export const mapFeatures = tool('protein_map_features', {
+  title: 'protein-mcp-server: map features',
+  description:
+    'Project UniProt sequence features (binding sites, active sites, PTMs, domains, …) and natural variants ' +
+    'onto the residues of a 3D structure. Give a PDB entry (pdb_id, optionally chain) to map through the ' +
+    "SIFTS residue alignment — UniProt numbering is translated to the structure's author numbering, " +
+    'insertion codes included — or a UniProt accession alone to map onto its AlphaFold model. Each feature ' +
+    'reports its modeled segments in author numbering, the positions inside the construct that have no ' +
+    'coordinates, and a status (modeled / partial / unmodeled / outside). Pass selection to keep only ' +
+    'features touching a region — e.g. pdb_id 1IEP with selection "ligand STI around 5" and ' +
+    'include "variants" answers "which variants line the imatinib pocket?". Add assembly_id to read a PDB ' +
+    "entry's biological assembly, so the selection also sees the symmetry copies around the chain.",
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  errors: [
+    {
+      reason: 'missing_target',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'Neither uniprot nor pdb_id was provided.',
+      recovery:
+        'Pass pdb_id (optionally with chain and uniprot), or uniprot alone for the AlphaFold model.',
+    },
+    {
+      reason: 'invalid_id',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'uniprot is not a UniProt accession, or pdb_id is not a 4-character PDB ID.',
+      recovery: 'Use a UniProt accession such as P00519 and a PDB ID such as 1IEP.',
+    },
+    {
+      reason: 'invalid_selection',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'The selection expression does not parse.',
+      recovery:
+        'Use the protein_get_structure selection grammar — e.g. "ligand STI around 5" or "chain A and resi 250-260".',
+    },
+    {
+      reason: 'no_uniprot_mapping',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'The PDB entry (or the requested chain) has no residue alignment to the requested UniProt accession.',
+      recovery:
+        'Omit uniprot to use the accession the entry is aligned to, or check the chain with protein_get_annotations (pdb_id + chain).',
+    },
+    {
+      reason: 'chain_not_found',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'The chain has no SIFTS UniProt mapping in the entry.',
+      recovery:
+        'Omit chain to use the lowest chain aligned to the accession; the error lists the aligned chains.',
+    },
+    {
+      reason: 'no_model',
+      code: JsonRpcErrorCode.NotFound,
+      when: 'AlphaFold DB has no model with coordinates for the accession.',
+      recovery: 'Pass a pdb_id for an experimental structure of the protein instead.',
+    },
+  ],
+
+  input: z.object({
+    uniprot: z
+      .string()
+      .optional()
+      .describe(
+        'UniProt accession whose features are mapped. Alone: mapped onto the AlphaFold model. With pdb_id: selects which mapped chains qualify; omit to use the accession the chain (or the lowest mapped chain) is aligned to.',
+      ),
+    pdb_id: z.string().optional().describe('PDB entry to map onto (e.g. 1IEP).'),
+    chain: z
+      .string()
+      .optional()
+      .describe(
+        'Author chain ID in pdb_id. Defaults to the lowest chain aligned to the accession.',
+      ),
+    assembly_id: assemblyIdSchema
+      .optional()
+      .describe(
+        'Biological assembly of pdb_id to read coordinates from (e.g. "1"), as protein_get_structure lists them — a selection then spans the symmetry copies, e.g. a pocket formed across a dimer. Omit for the asymmetric unit; ignored without pdb_id.',
+      ),
+    include: z
+      .enum(['features', 'variants', 'all'])
+      .default('all')
+      .describe('Which UniProt classes to map: features, variants (natural variants), or all.'),
+    selection: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Atom selection (protein_get_structure grammar) evaluated on the structure; only features with a modeled residue inside it are returned. E.g. "ligand STI around 5".',
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(500)
+      .default(100)
+      .describe(
+        'Per-class cap (1–500) applied after the selection filter; a capped class is disclosed in the notice.',
+      ),
+  }),
+
+  output: z.object({
+    accession: z.string().describe('UniProt accession whose features were mapped.'),
+    source: z
+      .enum(['experimental', 'predicted'])
+      .describe('Experimental (PDB entry) or predicted (AlphaFold model).'),
+    structureId: z.string().describe('PDB ID or AlphaFold entry ID mapped onto.'),
+    chain: z.string().describe('Author chain ID mapped onto.'),
+    entityId: z.string().optional().describe('Polymer entity of the chain (experimental only).'),
+    assemblyId: z
+      .string()
+      .optional()
+      .describe(
+        'Biological assembly the coordinates were read from. Absent for the asymmetric unit.',
+      ),
+    uniprotCoverage: z.array(rangeSchema).describe('UniProt ranges the chain has coordinates for.'),
+    features: z.array(mappedSchema).optional().describe('Mapped sequence features.'),
+    variants: z.array(mappedSchema).optional().describe('Mapped natural variants.'),
+    selection: z
+      .object({
+        expression: z.string().describe('The selection as given.'),
+        residues: z.number().describe('Residues of the mapped chain inside the selection.'),
+      })
+      .optional()
+      .describe('The selection filter, when set.'),
+    attribution: z
+      .array(attributionSchema)
+      .describe('Upstream data-source licenses and citations. Always present.'),
+    fallbacks: z
+      .array(fallbackSchema)
+      .optional()
+      .describe(
+        'Reads answered by a secondary provider because the primary was unavailable — coordinates from PDBe while RCSB files were down, an AlphaFold model located via 3D-Beacons. Absent when every read came from its primary.',
+      ),
+  }),
+
+  enrichment: {
+    truncated: z
+      .boolean()
+      .optional()
+      .describe('True when a class hit the limit; the notice gives the pre-cap count.'),
+    notice: z
+      .string()
+      .optional()
+      .describe(
+        'Advisory note: other accessions in the entry, capped classes, features without positions, an empty selection, fallback providers.',
+      ),
+    ...cacheEnrichment,
+  },
+
+  async handler(input, ctx) {
+    let selection: Selection | undefined;
+    if (input.selection) {
+      try {
+        selection = parseSelection(input.selection);
+      } catch (err) {
+        throw ctx.fail('invalid_selection', err instanceof Error ? err.message : String(err), {
+          ...ctx.recoveryFor('invalid_selection'),
+        });
+      }
+    }
+    const requested = input.uniprot?.trim().toUpperCase();
+    const pdbId = input.pdb_id?.trim().toUpperCase();
+    if (!requested && !pdbId) {
+      throw ctx.fail('missing_target', 'Provide pdb_id, uniprot, or both.', {
+        ...ctx.recoveryFor('missing_target'),
+      });
+    }
+    if (requested && !isUniProtAccession(requested)) {
+      throw ctx.fail('invalid_id', `"${requested}" is not a UniProt accession.`, {
+        ...ctx.recoveryFor('invalid_id'),
+      });
+    }
+    if (pdbId && !isPdbId(pdbId)) {
+      throw ctx.fail('invalid_id', `"${pdbId}" is not a PDB ID.`, {
+        ...ctx.recoveryFor('invalid_id'),
+      });
+    }
+
+    const notices: string[] = [];
+    let target: MappingTarget;
+    if (pdbId) {
+      const [mapping, loaded] = await Promise.all([
+        getSiftsService().getEntryMapping(pdbId, ctx),
+        loadCoordinates(pdbId, ctx, input.assembly_id),
+      ]);
+      const pick = pickMapping(mapping.chains, requested, input.chain?.trim());
+      if ('error' in pick) {
+        throw ctx.fail(pick.error, pick.message.replace('{entry}', pdbId), {
+          ...ctx.recoveryFor(pick.error),
+        });
+      }
+      if (pick.others.length > 0) {
+        notices.push(
+          `${pdbId} also aligns to ${pick.others.join(', ')}; pass uniprot or chain to map another.`,
+        );
+      }
+      const model = loaded?.structure.models[0];
+      if (loaded?.assemblyId && !model?.chains.some((c) => c.id === pick.mapping.chain)) {
+        notices.push(
+          `Chain ${pick.mapping.chain} is not in assembly ${loaded.assemblyId} of ${pdbId}, so every feature reads as unmodeled; pass a chain the assembly holds.`,
+        );
+      }
+      target = {
+        ...experimentalTarget(pdbId, pick.mapping, model),
+        ...(loaded?.assemblyId ? { assemblyId: loaded.assemblyId } : {}),
+      };
+    } else {
+      const accession = requested as string;
+      const loaded = await loadCoordinates(accession, ctx);
+      const model = loaded?.structure.models[0];
+      const chain = model?.chains[0];
+      if (!loaded || !model || !chain) {
+        throw ctx.fail('no_model', `No AlphaFold model with coordinates found for ${accession}.`, {
+          ...ctx.recoveryFor('no_model'),
+        });
+      }
+      notices.push(...assemblyNotices(loaded, input.assembly_id));
+      target = predictedTarget(loaded.id, accession, model, chain);
+    }
+
+    const include = input.include as AnnotationInclude;
+    const entry = await getUniProtService().getEntry(target.accession, include, ctx);
+
+    let inSelection: Set<Residue> | undefined;
+    if (selection) {
+      inSelection = new Set();
+      const model = target.model;
+      if (model) {
+        const atoms = selection.select(model);
+        for (const r of target.chainResidues)
+          if (r.atoms.some((a) => atoms.has(a))) inSelection.add(r);
+      }
+      if (inSelection.size === 0) {
+        notices.push(
+          `The selection matches no residue of chain ${target.chain}; every feature was filtered out.`,
+        );
+      }
+    }
+
+    const positioned = entry.features.filter(
+      (f): f is SequenceFeature & { start: number } => typeof f.start === 'number',
+    );
+    const unpositioned = entry.features.length - positioned.length;
+    if (unpositioned > 0) {
+      notices.push(`${unpositioned} feature(s) without a sequence position were skipped.`);
+    }
+
+    let truncated = false;
+    const classOutput = (category: SequenceFeature['category'], label: string) => {
+      const mapped = positioned
+        .filter((f) => f.category === category)
+        .map((f) => projectFeature(f, target, inSelection))
+        .filter((m) => !inSelection || (m.selectedResidues?.length ?? 0) > 0);
+      if (mapped.length > input.limit) {
+        truncated = true;
+        notices.push(
+          `Showing ${input.limit} of ${mapped.length} ${label}; raise limit to see more.`,
+        );
+      }
+      return mapped.slice(0, input.limit);
+    };
+    const wantFeatures = include === 'features' || include === 'all';
+    const wantVariants = include === 'variants' || include === 'all';
+    const features = wantFeatures ? classOutput('feature', 'features') : undefined;
+    const variants = wantVariants ? classOutput('variant', 'variants') : undefined;
+
+    if (truncated) ctx.enrich({ truncated: true });
+    publishNotices(ctx, notices);
+
+    return {
+      accession: target.accession,
+      source: target.source,
+      structureId: target.structureId,
+      chain: target.chain,
+      ...(target.entityId ? { entityId: target.entityId } : {}),
+      ...(target.assemblyId ? { assemblyId: target.assemblyId } : {}),
+      uniprotCoverage: coverageOf(target),
+      ...(features ? { features } : {}),
+      ...(variants ? { variants } : {}),
+      ...(input.selection && inSelection
+        ? { selection: { expression: input.selection, residues: inSelection.size } }
+        : {}),
+      attribution: attributionsFor([
+        'UniProt',
+        target.source === 'predicted' ? 'AlphaFold DB' : 'RCSB PDB',
+      ]),
+      ...fallbacksOutput(ctx),
+    };
+  },
+
+  format: (result) => {
+    const lines: string[] = [
+      `## ${result.accession} → ${result.structureId} chain ${result.chain} (${result.source}${result.assemblyId ? `, assembly ${result.assemblyId}` : ''})`,
+    ];
+    lines.push(
+      `**Coordinates cover UniProt:** ${result.uniprotCoverage.map((r) => `${r.start}–${r.end}`).join(', ') || 'none'}`,
+    );
+    if (result.entityId) lines.push(`**Polymer entity:** ${result.entityId}`);
+    if (result.selection) {
+      lines.push(
+        `**Selection:** \`${result.selection.expression}\` (${result.selection.residues} residues of chain ${result.chain})`,
+      );
+    }
+    for (const [title, rows] of [
+      ['Features', result.features],
+      ['Variants', result.variants],
+    ] as const) {
+      if (!rows) continue;
+      lines.push(`\n### ${title} (${rows.length})`);
+      for (const m of rows) lines.push(`- ${renderMapped(m)}`);
+    }
+    if (result.attribution.length > 0) {
+      lines.push(`\n### Attribution`);
+      lines.push(...renderAttribution(result.attribution));
+    }
+    if (result.fallbacks?.length) {
+      lines.push('\n### Fallback providers');
+      lines.push(...renderFallbacks(result.fallbacks));
+    }
+    return [{ type: 'text', text: lines.join('\n') }];
+  },
+});
+
+// ─── Mapping ──────────────────────────────────────────────────────────────────
+
+/** Where one UniProt position lands in the chosen chain. */
+type Located =
+  | { status: 'modeled'; residue: Residue; index: number }
+  | { status: 'unmodeled' }
+  | { status: 'outside' };
+
+interface MappingTarget {
+  accession: string;
+  /** Biological assembly the model was read from, when not the asymmetric unit. */
+  assemblyId?: string;
+  chain: string;
+  /** Polymer residues of the chain in order — what a selection is checked against. */
+  chainResidues: Residue[];
+  entityId?: string;
+  locate(position: number): Located;
+  /** The model holding the chain — selections are evaluated against all of it. */
+  model?: Model;
+  source: 'experimental' | 'predicted';
+  structureId: string;
+  /** UniProt positions the chain can represent at all, for the coverage summary. */
+  uniprotSpan: Array<{ start: number; end: number }>;
+}
+
+type MappingPick =
+  | { mapping: ChainMapping; others: string[] }
+  | { error: 'no_uniprot_mapping' | 'chain_not_found'; message: string };
+
+/**
+ * Choose the chain mapping: the requested chain's, else the lowest chain mapped
+ * — restricted to the requested accession when one was given. `chains` arrives
+ * sorted by chain from the service.
+ */
+function pickMapping(
+  chains: ChainMapping[],
+  accession: string | undefined,
+  chain: string | undefined,
+): MappingPick {
+  const candidates = accession ? chains.filter((c) => c.accession === accession) : chains;
+  const accessions = [...new Set(chains.map((c) => c.accession))].sort();
+  if (chain) {
+    const match = candidates.find((c) => c.chain === chain);
+    if (match) return { mapping: match, others: [] };
+    const elsewhere = chains.find((c) => c.chain === chain);
+    if (elsewhere) {
+      return {
+        error: 'no_uniprot_mapping',
+        message: `Chain ${chain} of {entry} is aligned to ${elsewhere.accession}, not ${accession}.`,
+      };
+    }
+    const mapped = [...new Set(chains.map((c) => c.chain))];
+    return {
+      error: 'chain_not_found',
+      message: `Chain "${chain}" is not a UniProt-aligned chain of {entry}; aligned chains: ${mapped.join(', ') || 'none'}.`,
+    };
+  }
+  const first = candidates[0];
+  if (!first) {
+    return {
+      error: 'no_uniprot_mapping',
+      message: accession
+        ? `{entry} has no chain aligned to ${accession}; aligned accessions: ${accessions.join(', ') || 'none'}.`
+        : '{entry} has no chain with a UniProt residue alignment.',
+    };
+  }
+  return {
+    mapping: first,
+    others: accession ? [] : accessions.filter((a) => a !== first.accession),
+  };
+}
+
+function experimentalTarget(
+  pdbId: string,
+  mapping: ChainMapping,
+  model: Model | undefined,
+): MappingTarget {
+  const chain = model?.chains.find((c) => c.id === mapping.chain);
+  const residues = (chain?.residues ?? []).filter(isPolymerResidue);
+  const byLabel = new Map<number, number>();
+  residues.forEach((r, i) => {
+    if (r.labelSeqId !== undefined && !byLabel.has(r.labelSeqId)) byLabel.set(r.labelSeqId, i);
+  });
+  return {
+    accession: mapping.accession,
+    source: 'experimental',
+    structureId: pdbId,
+    chain: mapping.chain,
+    ...(mapping.entityId ? { entityId: mapping.entityId } : {}),
+    chainResidues: residues,
+    ...(model ? { model } : {}),
+    uniprotSpan: mapping.segments.map((s) => ({ start: s.uniprotStart, end: s.uniprotEnd })),
+    locate(position) {
+      const label = uniprotToLabel(mapping, position);
+      if (label === undefined) return { status: 'outside' };
+      const index = byLabel.get(label);
+      const residue = index === undefined ? undefined : residues[index];
+      return residue && index !== undefined
+        ? { status: 'modeled', residue, index }
+        : { status: 'unmodeled' };
+    },
+  };
+}
+
+function predictedTarget(
+  entryId: string,
+  accession: string,
+  model: Model,
+  chain: Chain,
+): MappingTarget {
+  const residues = chain.residues.filter(isPolymerResidue);
+  const byNumber = new Map<number, number>();
+  residues.forEach((r, i) => {
+    if (!byNumber.has(r.authSeqId)) byNumber.set(r.authSeqId, i);
+  });
+  const first = residues[0]?.authSeqId ?? 1;
+  const last = residues[residues.length - 1]?.authSeqId ?? 0;
+  return {
+    accession,
+    source: 'predicted',
+    structureId: entryId,
+    chain: chain.id,
+    chainResidues: residues,
+    model,
+    uniprotSpan: last >= first ? [{ start: first, end: last }] : [],
+    locate(position) {
+      const index = byNumber.get(position);
+      const residue = index === undefined ? undefined : residues[index];
+      if (residue && index !== undefined) return { status: 'modeled', residue, index };
+      return position >= first && position <= last
+        ? { status: 'unmodeled' }
+        : { status: 'outside' };
+    },
+  };
+}
+
+function projectFeature(
+  feature: SequenceFeature & { start: number },
+  target: MappingTarget,
+  inSelection: Set<Residue> | undefined,
+): z.infer<typeof mappedSchema> {
+  const start = feature.start;
+  const end = Math.max(feature.end ?? start, start);
+  const segments: z.infer<typeof segmentSchema>[] = [];
+  const unmodeled: Array<{ start: number; end: number }> = [];
+  const selected: string[] = [];
+  let modeledCount = 0;
+  let outsideCount = 0;
+  let plddtSum = 0;
+  let lastIndex = -2;
+  for (let p = start; p <= end; p++) {
+    const at = target.locate(p);
+    if (at.status === 'modeled') {
+      modeledCount++;
+      const label = residueLabel(at.residue);
+      const open = segments[segments.length - 1];
+      if (open && at.index === lastIndex + 1 && open.uniprotEnd === p - 1) {
+        open.uniprotEnd = p;
+        open.end = label;
+      } else {
+        segments.push({ uniprotStart: p, uniprotEnd: p, start: label, end: label });
+      }
+      lastIndex = at.index;
+      if (inSelection?.has(at.residue)) selected.push(label);
+      plddtSum +=
+        (at.residue.atoms.find((a) => a.name === 'CA') ?? at.residue.atoms[0])?.bFactor ?? 0;
+      continue;
+    }
+    lastIndex = -2;
+    if (at.status === 'outside') {
+      outsideCount++;
+      continue;
+    }
+    const open = unmodeled[unmodeled.length - 1];
+    if (open && open.end === p - 1) open.end = p;
+    else unmodeled.push({ start: p, end: p });
+  }
+  const total = end - start + 1;
+  const status =
+    modeledCount === total
+      ? 'modeled'
+      : modeledCount > 0
+        ? 'partial'
+        : outsideCount === total
+          ? 'outside'
+          : 'unmodeled';
+  return {
+    type: feature.type,
+    ...(feature.description ? { description: feature.description } : {}),
+    start,
+    end,
+    status,
+    segments,
+    unmodeled,
+    ...(inSelection ? { selectedResidues: selected } : {}),
+    ...(target.source === 'predicted' && modeledCount > 0
+      ? { meanPlddt: Math.round((plddtSum / modeledCount) * 10) / 10 }
+      : {}),
+  };
+}
+
+/** UniProt ranges the chain has coordinates for, merged across mapping segments. */
+function coverageOf(target: MappingTarget): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const span of target.uniprotSpan) {
+    for (let p = span.start; p <= span.end; p++) {
+      if (target.locate(p).status !== 'modeled') continue;
+      const open = ranges[ranges.length - 1];
+      if (open && open.end === p - 1) open.end = p;
+      else ranges.push({ start: p, end: p });
+    }
+  }
+  return ranges;
+}
+
+function residueLabel(residue: Residue): string {
+  return `${residue.authSeqId}${residue.insCode ?? ''}`;
+}
+
+function renderMapped(m: z.infer<typeof mappedSchema>): string {
+  const range = m.end !== m.start ? `${m.start}–${m.end}` : `${m.start}`;
+  const where = m.segments
+    .map((s) =>
+      s.uniprotStart === s.uniprotEnd
+        ? `${s.start} (UniProt ${s.uniprotStart})`
+        : `${s.start}–${s.end} (UniProt ${s.uniprotStart}–${s.uniprotEnd})`,
+    )
+    .join(', ');
+  const parts = [`**${m.type}** [${range}]${m.description ? `: ${m.description}` : ''}`];
+  parts.push(`_${m.status}_${where ? ` → ${where}` : ''}`);
+  if (m.unmodeled.length > 0) {
+    parts.push(
+      `no coordinates: ${m.unmodeled.map((r) => (r.start === r.end ? r.start : `${r.start}–${r.end}`)).join(', ')}`,
+    );
+  }
+  if (m.selectedResidues?.length) parts.push(`in selection: ${m.selectedResidues.join(', ')}`);
+  if (m.meanPlddt !== undefined) parts.push(`pLDDT ${m.meanPlddt.toFixed(1)}`);
+  return parts.join(' — ');
+}
@@ -15,8 +15,10 @@ import type { EntryMeta, SearchHit } from '@/services/rcsb/types.js';
 import { entryIdOf } from '@/services/shared/identifiers.js';
 import {
   CONTENT_TYPE_SCOPES,
+  cacheEnrichment,
   coverageNotices,
   flatFacetDimensionSchema,
+  publishNotices,
   renderFacets,
   toFacetOutput,
 } from './_schemas.js';
@@ -172,6 +174,7 @@ export const searchStructures = tool('protein_search_structures', {
       .describe(
         'Advisory note (empty results, predicted-search caveats, truncation, facet dimensions whose buckets cover materially less than totalCount). Carries every applicable advisory in one string.',
       ),
+    ...cacheEnrichment,
   },
 
   async handler(input, ctx) {
@@ -231,7 +234,7 @@ export const searchStructures = tool('protein_search_structures', {
     const notices: string[] = [];
     if (hits.length === 0) notices.push(ZERO_HIT_NOTICE[input.content_type]);
     if (facets) notices.push(...coverageNotices(facets, result.total));
-    if (notices.length > 0) ctx.enrich.notice(notices.join(' '));
+    publishNotices(ctx, notices);
 
     return { hits, ...(facets ? { facets } : {}) };
   },
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview protein_server_status — the health of each upstream provider as
+ * this server currently sees it: the state of its circuit breaker, consecutive
+ * failures, the last failure message, and when an open circuit will next be
+ * probed. Agents use it to route around an outage (by: sequence instead of
+ * Foldseek, direct AlphaFold DB instead of 3D-Beacons) rather than re-calling a
+ * tool that will fail fast. Reports only providers this process has called; no upstream
+ * request is made.
+ * @module mcp-server/tools/definitions/server-status.tool
+ */
+
+import { tool, z } from '@cyanheads/mcp-ts-core';
+import { getServerConfig } from '@/config/server-config.js';
+import { type CircuitSnapshot, getCircuitBreaker } from '@/services/shared/circuit-breaker.js';
+
+const upstreamSchema = z
+  .object({
+    provider: z.string().describe('Provider label, as named in error messages (e.g. Foldseek).'),
+    state: z
+      .enum(['closed', 'open', 'half_open'])
+      .describe(
+        'closed = calls go through; open = calls fail fast until retryAt; half_open = one probe call is testing recovery.',
+      ),
+    consecutiveFailures: z.number().describe('Failed calls in a row since the last success.'),
+    rejected: z
+      .number()
+      .describe('Calls refused without contacting the provider since it last recovered.'),
+    retryAt: z
+      .string()
+      .optional()
+      .describe('ISO time an open circuit next lets a probe call through. Present only when open.'),
+    lastFailure: z.string().optional().describe('Message of the most recent failure.'),
+    lastFailureAt: z.string().optional().describe('ISO time of the most recent failure.'),
+    lastSuccessAt: z.string().optional().describe('ISO time the provider last answered.'),
+  })
+  .describe('Circuit-breaker state of one upstream provider.');
+
+export const serverStatus = tool('protein_server_status', {
+  title: 'protein-mcp-server: server status',
+  description:
+    'Health of the upstream databases behind this server (RCSB APIs, AlphaFold DB, 3D-Beacons, Foldseek, ' +
+    'UniProt, InterPro, PDBe SIFTS), from its per-provider circuit breakers. A provider that keeps failing is ' +
+    'marked open and calls to it fail fast until retryAt; use this after a "temporarily unavailable" error to ' +
+    'route around the outage — e.g. protein_find_similar with by: "sequence" (mmseqs2) while Foldseek is ' +
+    'open. Lists only providers contacted since the server started; makes no upstream requests.',
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+
+  input: z.object({}),
+
+  output: z.object({
+    breakerEnabled: z
+      .boolean()
+      .describe('Whether circuit breaking is on. When off, every call goes to its provider.'),
+    failureThreshold: z.number().describe('Consecutive failed calls that open a circuit.'),
+    cooldownSeconds: z.number().describe('How long an open circuit fails fast before probing.'),
+    unavailable: z
+      .array(z.string())
+      .describe('Providers whose circuit is open or half-open — expect fast failures from them.'),
+    upstreams: z
+      .array(upstreamSchema)
+      .describe('Every provider contacted since startup, by provider name.'),
+  }),
+
+  enrichment: {
+    notice: z
+      .string()
+      .optional()
+      .describe('Advisory note: breaker disabled, or no provider contacted yet.'),
+  },
+
+  handler(_input, ctx) {
+    const config = getServerConfig();
+    const breaker = getCircuitBreaker();
+    const upstreams = (breaker?.snapshot() ?? []).map(toUpstream);
+    if (!breaker) {
+      ctx.enrich.notice(
+        'Circuit breaking is disabled (PROTEIN_CIRCUIT_BREAKER_ENABLED=false); provider health is not tracked.',
+      );
+    } else if (upstreams.length === 0) {
+      ctx.enrich.notice('No upstream provider has been called yet; all are presumed available.');
+    }
+    return {
+      breakerEnabled: breaker !== undefined,
+      failureThreshold: config.circuitFailureThreshold,
+      cooldownSeconds: config.circuitCooldownMs / 1000,
+      unavailable: upstreams.filter((u) => u.state !== 'closed').map((u) => u.provider),
+      upstreams,
+    };
+  },
+
+  format: (result) => {
+    const lines: string[] = ['## Upstream status'];
+    lines.push(
+      result.breakerEnabled
+        ? `**Circuit breaker:** on — opens after ${result.failureThreshold} consecutive failures, probes after ${result.cooldownSeconds}s`
+        : '**Circuit breaker:** off',
+    );
+    lines.push(
+      `**Unavailable:** ${result.unavailable.length > 0 ? result.unavailable.join(', ') : 'none'}`,
+    );
+    if (result.upstreams.length > 0) {
+      lines.push('\n| Provider | State | Failures in a row | Rejected | Retry at | Last success |');
+      lines.push('|:---|:---|---:|---:|:---|:---|');
+      for (const u of result.upstreams) {
+        lines.push(
+          `| ${u.provider} | ${u.state} | ${u.consecutiveFailures} | ${u.rejected} | ${u.retryAt ?? '—'} | ${u.lastSuccessAt ?? '—'} |`,
+        );
+      }
+      const failing = result.upstreams.filter((u) => u.lastFailure);
+      if (failing.length > 0) {
+        lines.push('\n### Last failures');
+        for (const u of failing) {
+          lines.push(
+            `- **${u.provider}** (${u.lastFailureAt ?? 'time unknown'}): ${u.lastFailure}`,
+          );
+        }
+      }
+    }
+    return [{ type: 'text', text: lines.join('\n') }];
+  },
+});
+
+function toUpstream(c: CircuitSnapshot): z.infer<typeof upstreamSchema> {
+  return {
+    provider: c.provider,
+    state: c.state,
+    consecutiveFailures: c.consecutiveFailures,
+    rejected: c.rejected,
+    ...(c.retryAt !== undefined ? { retryAt: new Date(c.retryAt).toISOString() } : {}),
+    ...(c.lastFailure !== undefined ? { lastFailure: c.lastFailure } : {}),
+    ...(c.lastFailureAt !== undefined
+      ? { lastFailureAt: new Date(c.lastFailureAt).toISOString() }
+      : {}),
+    ...(c.lastSuccessAt !== undefined
+      ? { lastSuccessAt: new Date(c.lastSuccessAt).toISOString() }
+      : {}),
+  };
+}
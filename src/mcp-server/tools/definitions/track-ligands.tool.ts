@@ -1,17 +1,42 @@
 /**
  * @fileoverview protein_track_ligands — ligand discovery and binding-site
- * analysis. Resolves a ligand name/formula to chemical component IDs, finds PDB
- * entries bound to a ligand, or returns the protein residues lining a ligand's
- * pocket in a structure (via RCSB `rcsb_target_neighbors`).
+ * analysis. Resolves a ligand name/formula to chemical component IDs, finds
+ * components resembling a SMILES/InChI molecule (RCSB chemical search), finds PDB
+ * entries bound to a ligand, returns the protein residues lining a ligand's
+ * pocket in a structure (via RCSB `rcsb_target_neighbors`) — optionally typed
+ * into hydrogen bonds, salt bridges, stacking, and the rest from the entry's
+ * coordinates, or one of its biological assemblies — or surveys those pockets across every entry of a protein in
+ * UniProt numbering (via SIFTS).
  * @module mcp-server/tools/definitions/track-ligands.tool
  */
 
-import { tool, z } from '@cyanheads/mcp-ts-core';
-import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { type Context, tool, z } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode, McpError } from '@cyanheads/mcp-ts-core/errors';
 import { getServerConfig } from '@/config/server-config.js';
 import { getRcsbService } from '@/services/rcsb/rcsb-service.js';
-import type { ChemComp, EntryMeta } from '@/services/rcsb/types.js';
+import type { BindingSite, ChemComp, EntryMeta, SearchResult } from '@/services/rcsb/types.js';
 import { mapWithConcurrency } from '@/services/shared/async.js';
+import { isUniProtAccession } from '@/services/shared/identifiers.js';
+import {
+  type ChainMapping,
+  getSiftsService,
+  labelToUniprot,
+} from '@/services/sifts/sifts-service.js';
+import {
+  INTERACTION_TYPES,
+  type LigandInteraction,
+  ligandInteractions,
+} from '@/services/structure/interactions.js';
+import type { Model, Residue } from '@/services/structure/types.js';
+import { loadCoordinates } from './_coordinates.js';
+import {
+  assemblyIdSchema,
+  cacheEnrichment,
+  fallbackSchema,
+  fallbacksOutput,
+  publishNotices,
+  renderFallbacks,
+} from './_schemas.js';
 
 const chemCompSchema = z
   .object({
@@ -25,15 +50,69 @@ const chemCompSchema = z
     depositionCount: z
       .number()
       .describe(
-        'Number of PDB entries containing this component (deposition frequency). Candidates are ranked by this value, most-deposited first.',
+        'Number of PDB entries containing this component (deposition frequency). find_ligand and substructure matches rank candidates by this value, most-deposited first; similarity matches use it to break ties.',
+      ),
+    similarity: z
+      .number()
+      .optional()
+      .describe(
+        'Fingerprint (Tanimoto) similarity to the query molecule, 0–1 (similar_ligand with match "similarity"; absent for substructure matches). Candidates are ranked by this value, most similar first.',
       ),
   })
   .describe('A resolved chemical component (ligand) and its identifiers.');
 
+const interactionSchema = z
+  .object({
+    type: z
+      .enum(INTERACTION_TYPES)
+      .describe(
+        'hydrogen_bond, salt_bridge, pi_stacking, cation_pi, halogen_bond, metal_coordination, or hydrophobic (closest carbon pair per residue).',
+      ),
+    chain: z.string().describe('Author chain ID of the protein residue.'),
+    residue: z.number().describe('Author residue number.'),
+    insCode: z.string().optional().describe('PDB insertion code, when present.'),
+    residueCompId: z.string().describe('Residue type (e.g. ASP).'),
+    seqId: z
+      .number()
+      .optional()
+      .describe('Label sequence position — the numbering of residues[].seqId.'),
+    proteinAtoms: z
+      .array(z.string())
+      .describe('Protein atom names involved (one atom, a charged group, or a ring).'),
+    ligandAtoms: z
+      .array(z.string())
+      .describe('Ligand atom names involved (one atom, a charged group, or a ring).'),
+    distance: z
+      .number()
+      .describe('Distance in Å — atom to atom, or between group centroids / ring centres.'),
+    donor: z
+      .enum(['protein', 'ligand'])
+      .optional()
+      .describe(
+        'Donating side (hydrogen_bond, halogen_bond). Absent for a hydrogen bond when either atom could donate.',
+      ),
+    positive: z
+      .enum(['protein', 'ligand'])
+      .optional()
+      .describe('Side carrying the positive charge (salt_bridge, cation_pi).'),
+    stacking: z.enum(['parallel', 't_shaped']).optional().describe('π-stacking geometry.'),
+    angle: z
+      .number()
+      .optional()
+      .describe('Degrees: angle between ring planes (pi_stacking) or C–X···A (halogen_bond).'),
+  })
+  .describe('One protein–ligand interaction classified from the coordinates.');
+
 const bindingSiteSchema = z
   .object({
     ligandCompId: z.string().describe('Bound ligand chemical component ID.'),
     ligandAsymId: z.string().optional().describe('Ligand instance chain (asym) ID.'),
+    ligandLabelAsymId: z
+      .string()
+      .optional()
+      .describe(
+        'mmCIF label asym ID of this ligand copy — unique per instance; residues[].asymId uses the same scheme.',
+      ),
     residues: z
       .array(
         z
@@ -46,19 +125,109 @@ const bindingSiteSchema = z
           .describe('A pocket residue in contact with the ligand.'),
       )
       .describe('Protein residues lining the pocket, nearest first.'),
+    interactions: z
+      .array(interactionSchema)
+      .optional()
+      .describe(
+        'Contacts typed from the coordinates, by type then distance. Present when interactions is true.',
+      ),
   })
   .describe('A ligand instance and the protein residues lining its pocket.');
 
+const pocketSurveySchema = z
+  .object({
+    accession: z.string().describe('UniProt accession surveyed.'),
+    compId: z
+      .string()
+      .optional()
+      .describe('Ligand the survey was restricted to; absent when every ligand counts.'),
+    entriesSurveyed: z
+      .number()
+      .describe('PDB entries whose binding sites were read, best resolution first.'),
+    entriesWithContacts: z
+      .number()
+      .describe(
+        'Surveyed entries where a ligand contacts a residue mapped to the accession — the denominator of each residue frequency.',
+      ),
+    residues: z
+      .array(
+        z
+          .object({
+            position: z.number().describe('UniProt residue position.'),
+            residueCompId: z
+              .string()
+              .describe('Residue type most often observed at this position (e.g. HIS).'),
+            entryCount: z.number().describe('Entries in which a ligand contacts this residue.'),
+            frequency: z
+              .number()
+              .describe(
+                'entryCount / entriesWithContacts (0–1). Near 1 marks a conserved anchor residue; a residue contacted only by ligands absent from the main pocket hints at a secondary (e.g. allosteric) site.',
+              ),
+            ligands: z
+              .array(
+                z
+                  .object({
+                    compId: z.string().describe('Ligand chemical component ID.'),
+                    entryCount: z
+                      .number()
+                      .describe('Entries in which this ligand contacts the residue.'),
+                  })
+                  .describe('A ligand contacting the residue.'),
+              )
+              .describe('Ligands contacting this residue, most entries first.'),
+          })
+          .describe('One UniProt residue and how often ligands contact it.'),
+      )
+      .describe('Contacted residues, most frequently contacted first, then by position.'),
+    entries: z
+      .array(
+        z
+          .object({
+            id: z.string().describe('PDB entry ID.'),
+            ligands: z.array(z.string()).describe('Ligands contacting the protein in this entry.'),
+            residueCount: z.number().describe('Distinct UniProt residues contacted in this entry.'),
+          })
+          .describe('One surveyed entry and what its ligands contact.'),
+      )
+      .describe(
+        'Surveyed entries in resolution order; an entry with no mapped contacts lists none.',
+      ),
+    failed: z
+      .array(
+        z
+          .object({
+            id: z.string().describe('PDB entry ID that could not be read.'),
+            reason: z.string().describe('Why it failed.'),
+          })
+          .describe('An entry whose binding sites or SIFTS mapping could not be read.'),
+      )
+      .describe('Entries left out of the survey (partial success).'),
+  })
+  .describe('Per-residue ligand-contact frequencies across the PDB entries of one protein.');
+
+type PocketSurvey = z.infer<typeof pocketSurveySchema>;
+
 export const trackLigands = tool('protein_track_ligands', {
   title: 'protein-mcp-server: track ligands',
   description:
     'Ligand discovery and binding-site analysis across the PDB. mode "find_ligand" resolves a name or ' +
     'formula to chemical component IDs with metadata (formula, weight, SMILES), ranked by deposition ' +
     'frequency — most-deposited component first, so the top hit is the most common match for the name, ' +
-    'not necessarily an exact name-string match. mode "structures_with_ligand" returns PDB entries ' +
+    'not necessarily an exact name-string match. mode "similar_ligand" takes a SMILES or InChI molecule and ' +
+    'returns chemical components ranked by fingerprint (Tanimoto) similarity, or (match "substructure") the ' +
+    'components containing it, most-deposited first, each with the same metadata and deposition counts — ' +
+    'the starting point from a compound to its PDB ligands. mode "structures_with_ligand" returns PDB entries ' +
     'containing a ligand (by exact component ID — get the ID from find_ligand first), highest-resolution ' +
     'first, each with its resolution in Å. mode "binding_site" returns the protein residues lining a ' +
-    "ligand's pocket in a given structure, with contact distances. Binding sites are experimental-only " +
+    "ligand's pocket in a given structure, with contact distances; with interactions true it also reads the " +
+    "entry's coordinates and types each contact, PLIP-style — hydrogen bonds (with the donating side), salt " +
+    'bridges, π-stacking (parallel / T-shaped), cation–π, halogen bonds, metal coordination, and hydrophobic ' +
+    'contacts — naming the protein and ligand atoms involved; add assembly_id to type them in a biological ' +
+    'assembly, where symmetry copies can line the pocket. mode "pocket_survey" takes a UniProt ' +
+    'accession (optionally a comp_id) and reads the binding sites of every PDB entry of that protein, up to ' +
+    'limit entries, best resolution first, mapped to UniProt numbering through SIFTS — a per-residue contact ' +
+    'frequency table with the ligands touching each residue, for spotting conserved anchor residues and ' +
+    'secondary sites. Binding sites are experimental-only ' +
     '(computed from deposited coordinates; predicted models carry no bound ligands).',
   annotations: { readOnlyHint: true, openWorldHint: true },
 
@@ -66,14 +235,28 @@ export const trackLigands = tool('protein_track_ligands', {
     {
       reason: 'missing_param',
       code: JsonRpcErrorCode.InvalidParams,
-      when: 'The mode-specific required input is absent: query (find_ligand), comp_id (structures_with_ligand), or pdb_id (binding_site).',
+      when: 'The mode-specific required input is absent: query (find_ligand), molecule (similar_ligand), comp_id (structures_with_ligand), pdb_id (binding_site), or uniprot (pocket_survey).',
+      recovery:
+        'Provide the parameter the selected mode requires: query for find_ligand, molecule for similar_ligand, comp_id for structures_with_ligand, pdb_id for binding_site, or uniprot for pocket_survey.',
+    },
+    {
+      reason: 'invalid_accession',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'uniprot (pocket_survey) is not a UniProt accession.',
       recovery:
-        'Provide the parameter the selected mode requires: query for find_ligand, comp_id for structures_with_ligand, or pdb_id for binding_site.',
+        'Pass a UniProt accession such as P00519; resolve a PDB ID to one with protein_get_annotations.',
+    },
+    {
+      reason: 'invalid_molecule',
+      code: JsonRpcErrorCode.InvalidParams,
+      when: 'RCSB chemical search could not parse the molecule as SMILES or InChI.',
+      recovery:
+        'Pass a valid SMILES string (e.g. "CC(=O)Oc1ccccc1C(=O)O") or a standard InChI beginning with "InChI=".',
     },
     {
       reason: 'not_found',
       code: JsonRpcErrorCode.NotFound,
-      when: 'No chemical component matched the name/formula, or the structure has no instance of the ligand.',
+      when: 'No chemical component matched the name/formula or resembled the molecule, the structure has no instance of the ligand, or (pocket_survey) no PDB entry of the protein contains it.',
       recovery:
         'Use mode "find_ligand" to resolve a name to a component ID first, then confirm the ligand is present in the structure via protein_get_structure.',
     },
@@ -81,33 +264,76 @@ export const trackLigands = tool('protein_track_ligands', {
 
   input: z.object({
     mode: z
-      .enum(['find_ligand', 'structures_with_ligand', 'binding_site'])
+      .enum([
+        'find_ligand',
+        'similar_ligand',
+        'structures_with_ligand',
+        'binding_site',
+        'pocket_survey',
+      ])
       .describe(
-        'Operation: resolve a ligand, find structures containing it, or analyze its binding site.',
+        "Operation: resolve a ligand by name, find ligands resembling a molecule, find structures containing a ligand, analyze its binding site, or survey a protein's pockets across its structures.",
       ),
     query: z.string().optional().describe('Ligand name or formula (mode find_ligand).'),
+    molecule: z
+      .string()
+      .optional()
+      .describe(
+        'Query molecule as SMILES (e.g. "CC(=O)Oc1ccccc1C(=O)O") or InChI ("InChI=1S/…") for mode similar_ligand.',
+      ),
+    match: z
+      .enum(['similarity', 'substructure'])
+      .default('similarity')
+      .describe(
+        'similar_ligand comparison: similarity ranks components by 2D-fingerprint Tanimoto similarity; substructure keeps components that contain the molecule, ranked by deposition count.',
+      ),
     comp_id: z
       .string()
       .optional()
-      .describe('Exact chemical component ID (modes structures_with_ligand and binding_site).'),
+      .describe(
+        'Exact chemical component ID (modes structures_with_ligand and binding_site; optional filter for pocket_survey).',
+      ),
     pdb_id: z.string().optional().describe('PDB entry ID (mode binding_site).'),
+    interactions: z
+      .boolean()
+      .default(false)
+      .describe(
+        "binding_site: also classify each site's contacts from the entry's mmCIF coordinates (hydrogen bonds, salt bridges, π-stacking, cation–π, halogen bonds, metal coordination, hydrophobic). Downloads and parses the file.",
+      ),
+    assembly_id: assemblyIdSchema
+      .optional()
+      .describe(
+        'binding_site with interactions: classify the contacts in this biological assembly of pdb_id (e.g. "1"), as protein_get_structure lists them, so residues of symmetry copies lining the pocket count. The residue list itself stays RCSB\'s, from the asymmetric unit.',
+      ),
+    uniprot: z
+      .string()
+      .optional()
+      .describe('UniProt accession whose PDB entries are surveyed (mode pocket_survey).'),
     limit: z
       .number()
       .int()
       .min(1)
       .max(100)
       .default(25)
-      .describe('Maximum results to return (1–100).'),
+      .describe(
+        'Maximum results to return (1–100). For pocket_survey, the number of entries surveyed, best resolution first.',
+      ),
   }),
 
   output: z.object({
     mode: z
-      .enum(['find_ligand', 'structures_with_ligand', 'binding_site'])
+      .enum([
+        'find_ligand',
+        'similar_ligand',
+        'structures_with_ligand',
+        'binding_site',
+        'pocket_survey',
+      ])
       .describe('Echoed mode.'),
     ligands: z
       .array(chemCompSchema)
       .optional()
-      .describe('Resolved chemical components (find_ligand).'),
+      .describe('Resolved chemical components (find_ligand, similar_ligand).'),
     structures: z
       .array(
         z
@@ -130,18 +356,36 @@ export const trackLigands = tool('protein_track_ligands', {
       .array(bindingSiteSchema)
       .optional()
       .describe('Binding-site residues (binding_site).'),
+    assemblyId: z
+      .string()
+      .optional()
+      .describe(
+        'Biological assembly the interactions were classified in (binding_site with assembly_id). Absent for the asymmetric unit.',
+      ),
+    pocketSurvey: pocketSurveySchema
+      .optional()
+      .describe('Per-residue contact survey (pocket_survey).'),
+    fallbacks: z
+      .array(fallbackSchema)
+      .optional()
+      .describe(
+        'Reads answered by a secondary provider because the primary was unavailable — coordinates from PDBe while RCSB files were down. Absent when every read came from its primary.',
+      ),
   }),
 
   enrichment: {
     totalCount: z
       .number()
       .optional()
-      .describe('Total upstream matches before pagination (structures_with_ligand).'),
+      .describe(
+        'Total upstream matches before pagination (similar_ligand, structures_with_ligand, pocket_survey).',
+      ),
     resolvedCompId: z.string().optional().describe('The chemical component ID used to query.'),
     notice: z
       .string()
       .optional()
       .describe('Advisory note when a mode-specific input is missing or absent.'),
+    ...cacheEnrichment,
   },
 
   async handler(input, ctx) {
@@ -182,6 +426,69 @@ export const trackLigands = tool('protein_track_ligands', {
       return { mode: input.mode, ligands };
     }
 
+    if (input.mode === 'similar_ligand') {
+      const molecule = input.molecule?.trim();
+      if (!molecule)
+        throw ctx.fail(
+          'missing_param',
+          'mode similar_ligand requires a SMILES or InChI string in "molecule".',
+          { ...ctx.recoveryFor('missing_param') },
+        );
+      let result: SearchResult;
+      try {
+        result = await rcsb.searchChemComps(
+          molecule,
+          { match: input.match, limit: input.limit },
+          ctx,
+        );
+      } catch (err) {
+        // The chemical service answers 400 for a descriptor it cannot parse.
+        if (err instanceof McpError && err.code === JsonRpcErrorCode.InvalidParams) {
+          throw ctx.fail('invalid_molecule', `RCSB could not parse "${molecule}" as a molecule.`, {
+            ...ctx.recoveryFor('invalid_molecule'),
+          });
+        }
+        throw err;
+      }
+      ctx.enrich.total(result.total);
+      const resolved = await mapWithConcurrency(
+        result.hits,
+        cfg.fanoutConcurrency,
+        async ({ id, score }) => {
+          const [chem, depositionCount] = await Promise.all([
+            rcsb.getChemComp(id, ctx),
+            rcsb.countEntriesWithLigand(id, ctx),
+          ]);
+          if (!chem) return null;
+          // A substructure hit's score is RCSB's match score, not a Tanimoto similarity.
+          return input.match === 'similarity'
+            ? { ...chem, depositionCount, similarity: score }
+            : { ...chem, depositionCount };
+        },
+      );
+      const ligands = resolved
+        .filter((c): c is ChemComp & { depositionCount: number; similarity?: number } => c != null)
+        .sort(
+          (a, b) =>
+            (b.similarity ?? 0) - (a.similarity ?? 0) || b.depositionCount - a.depositionCount,
+        );
+      if (ligands.length === 0) {
+        throw ctx.fail(
+          'not_found',
+          `No chemical component ${input.match === 'similarity' ? 'resembles' : 'contains'} "${molecule}".`,
+          {
+            recovery: {
+              hint:
+                input.match === 'substructure'
+                  ? 'Try match "similarity", or a smaller substructure.'
+                  : 'Check the SMILES/InChI, or try match "substructure" with a core fragment.',
+            },
+          },
+        );
+      }
+      return { mode: input.mode, ligands };
+    }
+
     if (input.mode === 'structures_with_ligand') {
       const compId = input.comp_id?.toUpperCase();
       if (!compId)
@@ -194,9 +501,9 @@ export const trackLigands = tool('protein_track_ligands', {
       // A valid component with zero containing structures is an empty result set,
       // not a not-found — mirrors protein_search_structures' empty-hits behavior.
       if (result.hits.length === 0) {
-        ctx.enrich.notice(
+        publishNotices(ctx, [
           `No PDB entries contain ${compId}. Verify the component ID via mode find_ligand.`,
-        );
+        ]);
       }
       // Replace RCSB's uniform containment score (noise for a boolean filter) with
       // each entry's resolution, enriched via the same batched entry-metadata path
@@ -216,6 +523,70 @@ export const trackLigands = tool('protein_track_ligands', {
       return { mode: input.mode, structures };
     }
 
+    if (input.mode === 'pocket_survey') {
+      const accession = input.uniprot?.trim().toUpperCase();
+      if (!accession)
+        throw ctx.fail(
+          'missing_param',
+          'mode pocket_survey requires a UniProt accession in "uniprot".',
+          {
+            ...ctx.recoveryFor('missing_param'),
+          },
+        );
+      if (!isUniProtAccession(accession)) {
+        throw ctx.fail('invalid_accession', `"${input.uniprot}" is not a UniProt accession.`, {
+          ...ctx.recoveryFor('invalid_accession'),
+        });
+      }
+      const compId = input.comp_id?.trim().toUpperCase() || undefined;
+      const result = await rcsb.searchByUniProt(
+        accession,
+        { ...(compId ? { compId } : {}), limit: input.limit },
+        ctx,
+      );
+      ctx.enrich.total(result.total);
+      if (compId) ctx.enrich({ resolvedCompId: compId });
+      if (result.hits.length === 0) {
+        throw ctx.fail(
+          'not_found',
+          `No PDB entry of ${accession}${compId ? ` contains ${compId}` : ' was found'}.`,
+          {
+            recovery: {
+              hint: compId
+                ? `Drop comp_id to survey every ligand of ${accession}, or check the ligand's structures via mode structures_with_ligand.`
+                : `${accession} has no experimental structure; protein_get_coverage lists its predicted models.`,
+            },
+          },
+        );
+      }
+      const pocketSurvey = await surveyPockets(
+        accession,
+        compId,
+        result.hits.map((h) => h.id),
+        cfg.fanoutConcurrency,
+        ctx,
+      );
+
+      const notices: string[] = [];
+      if (result.total > result.hits.length) {
+        notices.push(
+          `Surveyed the ${result.hits.length} best-resolution of ${result.total} entries; raise limit (max 100) to survey more.`,
+        );
+      }
+      if (pocketSurvey.entriesWithContacts === 0) {
+        notices.push(
+          `No ligand${compId ? ` ${compId}` : ''} contacts a residue SIFTS maps to ${accession} in the surveyed entries.`,
+        );
+      }
+      if (pocketSurvey.failed.length > 0) {
+        notices.push(
+          `${pocketSurvey.failed.length} of ${result.hits.length} entries could not be read: ${pocketSurvey.failed.map((f) => f.id).join(', ')}.`,
+        );
+      }
+      publishNotices(ctx, notices);
+      return { mode: input.mode, pocketSurvey };
+    }
+
     // binding_site
     const compId = input.comp_id?.toUpperCase();
     if (!input.pdb_id)
@@ -236,14 +607,45 @@ export const trackLigands = tool('protein_track_ligands', {
     }
     // Cap binding-site INSTANCES to the shared limit (mode-consistent top-N; the
     // other two modes already bound their results). Disclose the drop via notice.
-    const bindingSites = sites.slice(0, input.limit);
+    let bindingSites: BindingSiteOut[] = sites.slice(0, input.limit);
+    const notices: string[] = [];
     if (sites.length > input.limit) {
-      ctx.enrich.notice(
+      notices.push(
         `Showing ${input.limit} of ${sites.length} binding-site instances in ${input.pdb_id.toUpperCase()}${compId ? ` for ${compId}` : ''}; raise limit to see more.`,
       );
     }
+    if (input.assembly_id && !input.interactions) {
+      notices.push('assembly_id only applies with interactions true; it was ignored.');
+    }
+    let assemblyId: string | undefined;
+    if (input.interactions) {
+      const loaded = await loadCoordinates(input.pdb_id, ctx, input.assembly_id);
+      assemblyId = loaded?.assemblyId;
+      const model = loaded?.structure.models[0];
+      const missing: string[] = [];
+      bindingSites = bindingSites.map((site) => {
+        const ligand = model && findLigand(model, site);
+        if (!model || !ligand) missing.push(siteLabel(site));
+        return {
+          ...site,
+          interactions:
+            model && ligand ? ligandInteractions(model, ligand).map(interactionRow) : [],
+        };
+      });
+      if (missing.length > 0) {
+        notices.push(
+          `No coordinates found for ${missing.join(', ')} in ${input.pdb_id.toUpperCase()}; their interactions are empty.`,
+        );
+      }
+    }
+    publishNotices(ctx, notices);
     if (compId) ctx.enrich({ resolvedCompId: compId });
-    return { mode: input.mode, bindingSites };
+    return {
+      mode: input.mode,
+      bindingSites,
+      ...(assemblyId ? { assemblyId } : {}),
+      ...fallbacksOutput(ctx),
+    };
   },
 
   format: (result) => {
@@ -255,6 +657,7 @@ export const trackLigands = tool('protein_track_ligands', {
         typeof l.formulaWeight === 'number' ? `**Weight:** ${l.formulaWeight} Da` : null,
         l.type ? `**Type:** ${l.type}` : null,
         typeof l.depositionCount === 'number' ? `**PDB entries:** ${l.depositionCount}` : null,
+        typeof l.similarity === 'number' ? `**Similarity:** ${l.similarity.toFixed(2)}` : null,
       ].filter(Boolean);
       if (parts.length > 0) lines.push(parts.join(' | '));
       if (l.smiles) lines.push(`**SMILES:** ${l.smiles}`);
@@ -268,16 +671,241 @@ export const trackLigands = tool('protein_track_ligands', {
           lines.push(`- ${s.id} — ${s.resolution.toFixed(2)} Å`);
       }
     }
+    if (result.assemblyId) {
+      lines.push(`\n**Interactions classified in assembly ${result.assemblyId}.**`);
+    }
     for (const site of result.bindingSites ?? []) {
-      lines.push(
-        `\n### Ligand ${site.ligandCompId}${site.ligandAsymId ? ` (chain ${site.ligandAsymId})` : ''}`,
-      );
+      lines.push(`\n### Ligand ${siteLabel(site)}`);
       for (const r of site.residues) {
         const pos = r.seqId != null ? `${r.residueCompId}${r.seqId}` : r.residueCompId;
         const dist = r.distance != null ? ` — ${r.distance.toFixed(2)} Å` : '';
         lines.push(`- ${pos} (chain ${r.asymId})${dist}`);
       }
+      if (site.interactions) lines.push(...renderInteractions(site.interactions));
+    }
+    if (result.pocketSurvey) lines.push(...renderPocketSurvey(result.pocketSurvey));
+    if (result.fallbacks?.length) {
+      lines.push('\n### Fallback providers');
+      lines.push(...renderFallbacks(result.fallbacks));
     }
     return [{ type: 'text', text: lines.join('\n') }];
   },
 });
+
+type BindingSiteOut = z.infer<typeof bindingSiteSchema>;
+type InteractionOut = z.infer<typeof interactionSchema>;
+
+/** `HEM (chain A, label E)` — how a ligand instance is named in headings and notices. */
+function siteLabel(site: BindingSiteOut): string {
+  const where = [
+    site.ligandAsymId ? `chain ${site.ligandAsymId}` : null,
+    site.ligandLabelAsymId ? `label ${site.ligandLabelAsymId}` : null,
+  ].filter(Boolean);
+  return `${site.ligandCompId}${where.length > 0 ? ` (${where.join(', ')})` : ''}`;
+}
+
+/**
+ * The coordinate residue for a binding site's ligand copy: by label asym ID when
+ * RCSB gave one (unique per copy), else the first copy in its author chain.
+ */
+function findLigand(model: Model, site: BindingSiteOut): Residue | undefined {
+  for (const chain of model.chains) {
+    for (const residue of chain.residues) {
+      if (residue.compId !== site.ligandCompId) continue;
+      const match = site.ligandLabelAsymId
+        ? residue.labelAsymId === site.ligandLabelAsymId
+        : chain.id === site.ligandAsymId;
+      if (match) return residue;
+    }
+  }
+  return;
+}
+
+function interactionRow(i: LigandInteraction): InteractionOut {
+  const { residue, ...rest } = i;
+  return {
+    ...rest,
+    residue: residue.authSeqId,
+    ...(residue.insCode ? { insCode: residue.insCode } : {}),
+    residueCompId: residue.compId,
+    ...(residue.labelSeqId !== undefined ? { seqId: residue.labelSeqId } : {}),
+  };
+}
+
+function renderInteractions(interactions: InteractionOut[]): string[] {
+  if (interactions.length === 0) return ['\n**Interactions:** none classified.'];
+  const lines = [
+    `\n**Interactions (${interactions.length}):**`,
+    '',
+    '| Type | Residue | Protein atoms | Ligand atoms | Distance | Detail |',
+    '|:---|:---|:---|:---|---:|:---|',
+  ];
+  for (const i of interactions) {
+    const residue =
+      `${i.residueCompId}${i.residue}${i.insCode ?? ''} (chain ${i.chain}` +
+      `${i.seqId !== undefined ? `, label ${i.seqId}` : ''})`;
+    const detail = [
+      i.donor ? `donor: ${i.donor}` : null,
+      i.positive ? `positive: ${i.positive}` : null,
+      i.stacking ?? null,
+      i.angle !== undefined ? `angle ${i.angle.toFixed(0)}°` : null,
+    ].filter(Boolean);
+    lines.push(
+      `| ${i.type} | ${residue} | ${i.proteinAtoms.join(' ')} | ${i.ligandAtoms.join(' ')} | ` +
+        `${i.distance.toFixed(2)} Å | ${detail.join(', ')} |`,
+    );
+  }
+  return lines;
+}
+
+/** One entry's contacts: UniProt position → the residue type there and the ligands touching it. */
+type EntryContacts = Map<number, { residueCompId: string; ligands: Set<string> }>;
+
+/** A surveyed entry's contacts, or why it could not be read. */
+type SurveyedEntry = { id: string; contacts: EntryContacts } | { failedId: string; reason: string };
+
+/**
+ * Read every entry's binding sites and SIFTS mapping and fold them into one
+ * per-residue table. An entry counts at most once per residue, however many
+ * copies of the protein or the ligand it holds; contacts on chains that do not
+ * map to `accession` (a partner protein, an unmapped tag) are dropped. Entries
+ * are read independently — one that fails lands in `failed` without sinking
+ * the survey.
+ */
+async function surveyPockets(
+  accession: string,
+  compId: string | undefined,
+  ids: string[],
+  concurrency: number,
+  ctx: Context,
+): Promise<PocketSurvey> {
+  const rcsb = getRcsbService();
+  const sifts = getSiftsService();
+  const results = await mapWithConcurrency(ids, concurrency, async (id): Promise<SurveyedEntry> => {
+    try {
+      const [sites, mapping] = await Promise.all([
+        rcsb.getBindingSites(id, compId, ctx),
+        sifts.getEntryMapping(id, ctx),
+      ]);
+      const chains = mapping.chains.filter((c) => c.accession === accession);
+      return { id, contacts: entryContacts(sites, chains) };
+    } catch (err) {
+      if (ctx.signal.aborted) throw err;
+      ctx.log.warning('Failed to read binding sites for survey', {
+        id,
+        error: err instanceof Error ? err.message : err,
+      });
+      return { failedId: id, reason: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  const byPosition = new Map<
+    number,
+    { entryCount: number; ligands: Map<string, number>; residueTypes: Map<string, number> }
+  >();
+  const entries: PocketSurvey['entries'] = [];
+  const failed: PocketSurvey['failed'] = [];
+  for (const r of results) {
+    if ('failedId' in r) {
+      failed.push({ id: r.failedId, reason: r.reason });
+      continue;
+    }
+    const ligands = new Set<string>();
+    for (const [position, contact] of r.contacts) {
+      const tally = byPosition.get(position) ?? {
+        entryCount: 0,
+        ligands: new Map<string, number>(),
+        residueTypes: new Map<string, number>(),
+      };
+      tally.entryCount++;
+      increment(tally.residueTypes, contact.residueCompId);
+      for (const ligand of contact.ligands) {
+        increment(tally.ligands, ligand);
+        ligands.add(ligand);
+      }
+      byPosition.set(position, tally);
+    }
+    entries.push({ id: r.id, ligands: [...ligands].sort(), residueCount: r.contacts.size });
+  }
+
+  const entriesWithContacts = entries.filter((e) => e.residueCount > 0).length;
+  const residues = [...byPosition]
+    .map(([position, t]) => ({
+      position,
+      residueCompId: mostCommon(t.residueTypes),
+      entryCount: t.entryCount,
+      frequency: t.entryCount / entriesWithContacts,
+      ligands: [...t.ligands]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([ligand, entryCount]) => ({ compId: ligand, entryCount })),
+    }))
+    .sort((a, b) => b.entryCount - a.entryCount || a.position - b.position);
+
+  return {
+    accession,
+    ...(compId ? { compId } : {}),
+    entriesSurveyed: entries.length,
+    entriesWithContacts,
+    residues,
+    entries,
+    failed,
+  };
+}
+
+/** Map one entry's binding-site residues onto UniProt positions through its SIFTS chains (label numbering). */
+function entryContacts(sites: BindingSite[], chains: ChainMapping[]): EntryContacts {
+  const contacts: EntryContacts = new Map();
+  for (const site of sites) {
+    for (const r of site.residues) {
+      const chain = chains.find((c) => c.asymId === r.asymId);
+      const position = chain && r.seqId != null ? labelToUniprot(chain, r.seqId) : undefined;
+      if (position === undefined) continue;
+      const contact = contacts.get(position) ?? {
+        residueCompId: r.residueCompId,
+        ligands: new Set<string>(),
+      };
+      contact.ligands.add(site.ligandCompId);
+      contacts.set(position, contact);
+    }
+  }
+  return contacts;
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function mostCommon(counts: Map<string, number>): string {
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0] ?? '';
+}
+
+function renderPocketSurvey(survey: PocketSurvey): string[] {
+  const lines = [
+    `\n### Pocket survey — ${survey.accession}${survey.compId ? ` with ${survey.compId}` : ''}`,
+    `${survey.entriesWithContacts} of ${survey.entriesSurveyed} entries surveyed have ligand contacts on the protein.`,
+  ];
+  if (survey.residues.length > 0) {
+    lines.push(
+      '',
+      '| Position | Residue | Entries | Frequency | Ligands |',
+      '|---:|:---|---:|---:|:---|',
+    );
+    for (const r of survey.residues) {
+      const ligands = r.ligands.map((l) => `${l.compId} (${l.entryCount})`).join(', ');
+      lines.push(
+        `| ${r.position} | ${r.residueCompId} | ${r.entryCount} | ${r.frequency.toFixed(2)} | ${ligands} |`,
+      );
+    }
+  }
+  lines.push(`\n**Entries (${survey.entries.length}):**`);
+  for (const e of survey.entries) {
+    lines.push(
+      `- ${e.id}: ${e.residueCount} residue${e.residueCount === 1 ? '' : 's'}${e.ligands.length > 0 ? ` — ${e.ligands.join(', ')}` : ''}`,
+    );
+  }
+  if (survey.failed.length > 0) {
+    lines.push(`\n**Failed (${survey.failed.length}):**`);
+    for (const f of survey.failed) lines.push(`- ${f.id}: ${f.reason}`);
+  }
+  return lines;
+}
@@ -17,9 +17,13 @@ import { fetchResponse, fetchText, parseJson } from '../shared/http.js';
 /** Alignment method name accepted by the RCSB Structural Comparison API. */
 export type AlignmentMethod = 'tm-align' | 'fatcat-rigid' | 'fatcat-flexible';
 
-/** One structure (+ optional chain) in a comparison. */
+/** One structure (+ optional chain, + optional residue range on that chain) in a comparison. */
 export interface CompareStructure {
   asymId?: string;
+  /** First `label_seq_id` of the aligned range; only honoured with `asymId`. */
+  begSeqId?: number;
+  /** Last `label_seq_id` of the aligned range (inclusive); only honoured with `asymId`. */
+  endSeqId?: number;
   entryId: string;
 }
 
@@ -142,6 +146,7 @@ export class AlignmentService {
   /** Single poll of a job's results. 404 = still computing; a result body = ready. */
   private async pollResult(uuid: string, ctx: Context): Promise<PollStep<PairScores>> {
     const res = await fetchResponse(`${this.resultsUrl}?uuid=${encodeURIComponent(uuid)}`, ctx, {
+      label: 'RCSB Alignment API',
       operation: 'AlignmentService.pollResult',
       timeoutMs: 15_000,
       baseDelayMs: 400,
@@ -155,10 +160,23 @@ export class AlignmentService {
   }
 }
 
+/**
+ * Map a structure to the API's `{ entry_id, selection }` shape. The selection's
+ * `beg_seq_id`/`end_seq_id` bounds are `label_seq_id`s on the selected chain, so
+ * a residue range only travels with a chain.
+ */
 function toQueryStructure(s: CompareStructure): Record<string, unknown> {
   return {
     entry_id: s.entryId.toUpperCase(),
-    ...(s.asymId ? { selection: { asym_id: s.asymId } } : {}),
+    ...(s.asymId
+      ? {
+          selection: {
+            asym_id: s.asymId,
+            ...(typeof s.begSeqId === 'number' ? { beg_seq_id: s.begSeqId } : {}),
+            ...(typeof s.endSeqId === 'number' ? { end_seq_id: s.endSeqId } : {}),
+          },
+        }
+      : {}),
   };
 }
 
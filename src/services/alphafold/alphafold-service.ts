@@ -3,17 +3,20 @@
  * Database API (`/api/prediction/{accession}`). Kept as a direct provider (not
  * only via 3D-Beacons) because it carries confidence detail the Beacons summary
  * abbreviates: mean pLDDT, the four confidence-bucket fractions, and the PAE
- * documentation URL. Backs `protein_get_structure` (predicted) and the `af://`
- * resource.
+ * documentation URL. Also retrieves the full confidence signals — the per-residue
+ * pLDDT track (confidence JSON, else the model's B-factor column) and the PAE
+ * matrix. Backs `protein_get_structure` (predicted), `protein_get_confidence`,
+ * and the `af://` resources.
  * @module services/alphafold/alphafold-service
  */
 
 import type { Context } from '@cyanheads/mcp-ts-core';
 import type { AppConfig } from '@cyanheads/mcp-ts-core/config';
-import { JsonRpcErrorCode, McpError } from '@cyanheads/mcp-ts-core/errors';
+import { JsonRpcErrorCode, McpError, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
 import type { StorageService } from '@cyanheads/mcp-ts-core/storage';
 import type { ServerConfig } from '@/config/server-config.js';
-import { fetchJson } from '../shared/http.js';
+import { fetchJson, fetchText } from '../shared/http.js';
+import { parseStructure } from '../structure/parser.js';
 
 /** Fractions of residues in each pLDDT confidence band (0–1). */
 export interface ConfidenceBuckets {
@@ -41,6 +44,10 @@ export interface AlphaFoldModel {
   paeDocUrl?: string;
   paeImageUrl?: string;
   pdbUrl?: string;
+  /** Per-residue confidence JSON URL (newer model versions only). */
+  plddtDocUrl?: string;
+  /** The UniProt sequence the model was predicted from. */
+  sequence?: string;
   /** Predicted sequence length. */
   sequenceLength?: number;
   /** UniProt accession the model predicts. */
@@ -63,11 +70,49 @@ interface RawPrediction {
   paeDocUrl?: string;
   paeImageUrl?: string;
   pdbUrl?: string;
+  plddtDocUrl?: string;
   uniprotAccession?: string;
   uniprotDescription?: string;
   uniprotSequence?: string;
 }
 
+/** Per-residue confidence signals for an AlphaFold model. */
+export interface AlphaFoldConfidence {
+  /** AlphaFold model entry ID (e.g. `AF-P69905-F1`). */
+  entryId?: string;
+  /** Upper bound of the PAE scale (Å) the model reports. */
+  maxPae?: number;
+  /** Model version (latest). */
+  modelVersion?: number;
+  /** PAE matrix — `pae[i][j]` is the expected error (Å) at residue j+1 when aligned on residue i+1. */
+  pae?: number[][];
+  paeDocUrl?: string;
+  /** pLDDT per residue (0–100); index 0 is residue 1. */
+  plddt: number[];
+  /** Where the track came from: the confidence JSON, or the coordinate file's B-factor column. */
+  plddtSource: 'confidence_json' | 'coordinates';
+  /** UniProt accession the model predicts. */
+  uniprotAccession: string;
+}
+
+/** `*-confidence_v*.json` payload. */
+interface RawConfidence {
+  confidenceScore?: number[];
+  residueNumber?: number[];
+}
+
+/**
+ * `*-predicted_aligned_error_v*.json` element. v3+ files carry the dense matrix;
+ * v1/v2 files carry it flattened as parallel residue1/residue2/distance lists.
+ */
+interface RawPae {
+  distance?: number[];
+  max_predicted_aligned_error?: number;
+  predicted_aligned_error?: number[][];
+  residue1?: number[];
+  residue2?: number[];
+}
+
 export class AlphaFoldService {
   private readonly baseUrl: string;
 
@@ -88,6 +133,7 @@ export class AlphaFoldService {
         label: 'AlphaFold DB',
         baseDelayMs: 300,
         expectedStatuses: [404],
+        cache: 'prediction',
       });
     } catch (err) {
       if (err instanceof McpError && err.code === JsonRpcErrorCode.NotFound) return null;
@@ -97,6 +143,127 @@ export class AlphaFoldService {
     if (!first) return null;
     return normalizePrediction(accession.toUpperCase(), first);
   }
+
+  /**
+   * Fetch the per-residue pLDDT track and the PAE matrix for an accession's
+   * model. pLDDT comes from the confidence JSON when the model publishes one,
+   * else from the coordinate file (AlphaFold writes pLDDT into the B-factor
+   * column). PAE is best-effort — a missing or unreadable file leaves `pae`
+   * absent rather than failing the call. Returns `null` when no model exists.
+   */
+  async getConfidence(accession: string, ctx: Context): Promise<AlphaFoldConfidence | null> {
+    const model = await this.getPrediction(accession, ctx);
+    if (!model) return null;
+
+    const fromJson = model.plddtDocUrl ? await this.fetchPlddtJson(model.plddtDocUrl, ctx) : null;
+    const plddt = fromJson ?? (await this.fetchPlddtFromCoordinates(model, ctx));
+    if (!plddt) {
+      throw serviceUnavailable(
+        `AlphaFold DB returned no per-residue confidence for ${model.uniprotAccession}.`,
+        { accession: model.uniprotAccession },
+      );
+    }
+    const pae = model.paeDocUrl ? await this.fetchPae(model.paeDocUrl, ctx) : null;
+    return {
+      uniprotAccession: model.uniprotAccession,
+      ...(model.entryId ? { entryId: model.entryId } : {}),
+      ...(typeof model.modelVersion === 'number' ? { modelVersion: model.modelVersion } : {}),
+      plddt,
+      plddtSource: fromJson ? 'confidence_json' : 'coordinates',
+      ...(pae ? { pae: pae.matrix } : {}),
+      ...(pae?.max !== undefined ? { maxPae: pae.max } : {}),
+      ...(model.paeDocUrl ? { paeDocUrl: model.paeDocUrl } : {}),
+    };
+  }
+
+  private async fetchPlddtJson(url: string, ctx: Context): Promise<number[] | null> {
+    try {
+      const raw = await fetchJson<RawConfidence>(url, ctx, {
+        operation: 'AlphaFoldService.getConfidence.plddt',
+        label: 'AlphaFold DB',
+        baseDelayMs: 300,
+        cache: 'prediction',
+      });
+      return raw.confidenceScore?.length ? raw.confidenceScore : null;
+    } catch (err) {
+      ctx.log.warning('AlphaFold confidence JSON unavailable; falling back to coordinates', {
+        url,
+        error: err instanceof Error ? err.message : err,
+      });
+      return null;
+    }
+  }
+
+  /** One pLDDT per residue of the first chain — the CA atom's B-factor, else the first atom's. */
+  private async fetchPlddtFromCoordinates(
+    model: AlphaFoldModel,
+    ctx: Context,
+  ): Promise<number[] | null> {
+    const pick = model.cifUrl
+      ? (['cif', model.cifUrl] as const)
+      : model.pdbUrl
+        ? (['pdb', model.pdbUrl] as const)
+        : null;
+    if (!pick) return null;
+    const text = await fetchText(pick[1], ctx, {
+      operation: 'AlphaFoldService.getConfidence.coordinates',
+      label: 'AlphaFold DB',
+      baseDelayMs: 300,
+      cache: 'prediction',
+    });
+    const chain = parseStructure(text, pick[0]).models[0]?.chains[0];
+    if (!chain) return null;
+    return chain.residues
+      .filter((r) => !r.hetero)
+      .map((r) => (r.atoms.find((a) => a.name === 'CA') ?? r.atoms[0])?.bFactor ?? 0);
+  }
+
+  private async fetchPae(
+    url: string,
+    ctx: Context,
+  ): Promise<{ matrix: number[][]; max?: number } | null> {
+    try {
+      const raw = await fetchJson<RawPae[] | RawPae>(url, ctx, {
+        operation: 'AlphaFoldService.getConfidence.pae',
+        label: 'AlphaFold DB',
+        baseDelayMs: 300,
+        cache: 'prediction',
+      });
+      return normalizePae(Array.isArray(raw) ? raw[0] : raw);
+    } catch (err) {
+      ctx.log.warning('AlphaFold PAE file unavailable', {
+        url,
+        error: err instanceof Error ? err.message : err,
+      });
+      return null;
+    }
+  }
+}
+
+/** Dense matrix from either PAE file layout; `null` when neither is present. */
+function normalizePae(raw: RawPae | undefined): { matrix: number[][]; max?: number } | null {
+  if (!raw) return null;
+  const max =
+    typeof raw.max_predicted_aligned_error === 'number'
+      ? { max: raw.max_predicted_aligned_error }
+      : {};
+  if (Array.isArray(raw.predicted_aligned_error) && raw.predicted_aligned_error.length > 0) {
+    return { matrix: raw.predicted_aligned_error, ...max };
+  }
+  const { residue1, residue2, distance } = raw;
+  if (!residue1?.length || !residue2 || !distance) return null;
+  // Spread-free max: a long chain's flattened lists run to millions of entries.
+  let n = 0;
+  for (const r of residue1) if (r > n) n = r;
+  for (const r of residue2) if (r > n) n = r;
+  const matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let k = 0; k < residue1.length; k++) {
+    const i = (residue1[k] ?? 0) - 1;
+    const j = (residue2[k] ?? 0) - 1;
+    const row = matrix[i];
+    if (row && j >= 0 && j < n) row[j] = distance[k] ?? 0;
+  }
+  return { matrix, ...max };
 }
 
 function normalizePrediction(accession: string, raw: RawPrediction): AlphaFoldModel {
@@ -111,10 +278,13 @@ function normalizePrediction(accession: string, raw: RawPrediction): AlphaFoldMo
     ...(raw.bcifUrl ? { bcifUrl: raw.bcifUrl } : {}),
     ...(raw.paeImageUrl ? { paeImageUrl: raw.paeImageUrl } : {}),
     ...(raw.paeDocUrl ? { paeDocUrl: raw.paeDocUrl } : {}),
+    ...(raw.plddtDocUrl ? { plddtDocUrl: raw.plddtDocUrl } : {}),
     ...(typeof raw.latestVersion === 'number' ? { modelVersion: raw.latestVersion } : {}),
     ...(raw.organismScientificName ? { organism: raw.organismScientificName } : {}),
     ...(raw.uniprotDescription ? { uniprotDescription: raw.uniprotDescription } : {}),
-    ...(raw.uniprotSequence ? { sequenceLength: raw.uniprotSequence.length } : {}),
+    ...(raw.uniprotSequence
+      ? { sequence: raw.uniprotSequence, sequenceLength: raw.uniprotSequence.length }
+      : {}),
   };
 }
 
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Summaries over an AlphaFold model's confidence signals — the
+ * per-residue pLDDT track and the predicted aligned error (PAE) matrix. The raw
+ * arrays answer "how sure is the model about residue i" and "how sure is it
+ * about where j sits relative to i"; the summaries turn them into what an agent
+ * actually decides with: which contiguous stretches are trustworthy, and
+ * whether two trustworthy stretches have a confident relative placement (one
+ * rigid unit) or are independently placed domains. Pure functions, no I/O.
+ * @module services/alphafold/confidence
+ */
+
+/** A contiguous run of residues at or above a pLDDT threshold. */
+export interface ConfidentSegment {
+  /** Last residue (1-based, inclusive). */
+  end: number;
+  /** Mean pLDDT over the segment. */
+  meanPlddt: number;
+  /** First residue (1-based). */
+  start: number;
+}
+
+/** Mean PAE between two segments (or within one when `a === b`). */
+export interface PaeBlock {
+  /** Index into the segment list. */
+  a: number;
+  /** Index into the segment list; equal to `a` for a segment's own block. */
+  b: number;
+  /**
+   * Mean expected position error (Å), symmetrized over the i→j and j→i halves
+   * since PAE is not symmetric.
+   */
+  meanPae: number;
+}
+
+/**
+ * pLDDT bands as AlphaFold DB defines them. The boundaries belong to the higher
+ * band (70.0 is "confident").
+ */
+export function plddtBand(plddt: number): 'veryLow' | 'low' | 'confident' | 'veryHigh' {
+  if (plddt > 90) return 'veryHigh';
+  if (plddt >= 70) return 'confident';
+  if (plddt >= 50) return 'low';
+  return 'veryLow';
+}
+
+/**
+ * Contiguous runs with pLDDT ≥ `threshold` spanning at least `minLength`
+ * residues. Shorter runs are dropped rather than merged — a five-residue island
+ * inside a disordered region is not a domain. Residue numbers are 1-based
+ * positions in the track.
+ */
+export function confidentSegments(
+  plddt: readonly number[],
+  threshold: number,
+  minLength: number,
+): ConfidentSegment[] {
+  const segments: ConfidentSegment[] = [];
+  let start = -1;
+  let sum = 0;
+  for (let i = 0; i <= plddt.length; i++) {
+    const v = plddt[i];
+    if (v !== undefined && v >= threshold) {
+      if (start < 0) {
+        start = i;
+        sum = 0;
+      }
+      sum += v;
+      continue;
+    }
+    if (start >= 0 && i - start >= minLength) {
+      segments.push({ start: start + 1, end: i, meanPlddt: round(sum / (i - start), 2) });
+    }
+    start = -1;
+  }
+  return segments;
+}
+
+/**
+ * Mean PAE for every unordered segment pair, own blocks included. A low
+ * inter-segment mean says the model is confident in the segments' relative
+ * placement; a high one marks independently placed domains whose orientation
+ * in the model should not be trusted.
+ */
+export function paeBlocks(
+  pae: readonly number[][],
+  segments: readonly ConfidentSegment[],
+): PaeBlock[] {
+  const blocks: PaeBlock[] = [];
+  for (let a = 0; a < segments.length; a++) {
+    for (let b = a; b < segments.length; b++) {
+      const sa = segments[a] as ConfidentSegment;
+      const sb = segments[b] as ConfidentSegment;
+      const mean = (blockMean(pae, sa, sb) + blockMean(pae, sb, sa)) / 2;
+      if (Number.isFinite(mean)) blocks.push({ a, b, meanPae: round(mean, 2) });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Average-pool a square matrix into `bin`×`bin` cells so a long chain's PAE
+ * fits a response. The last row/column of cells may cover fewer residues.
+ */
+export function binMatrix(matrix: readonly number[][], bin: number): number[][] {
+  if (bin <= 1) return matrix.map((row) => row.map((v) => round(v, 1)));
+  const n = matrix.length;
+  const cells = Math.ceil(n / bin);
+  const out: number[][] = [];
+  for (let ci = 0; ci < cells; ci++) {
+    const row: number[] = [];
+    for (let cj = 0; cj < cells; cj++) {
+      let sum = 0;
+      let count = 0;
+      for (let i = ci * bin; i < Math.min(n, (ci + 1) * bin); i++) {
+        const src = matrix[i] ?? [];
+        for (let j = cj * bin; j < Math.min(n, (cj + 1) * bin); j++) {
+          const v = src[j];
+          if (v === undefined) continue;
+          sum += v;
+          count++;
+        }
+      }
+      row.push(count > 0 ? round(sum / count, 1) : 0);
+    }
+    out.push(row);
+  }
+  return out;
+}
+
+/** Mean of `pae[i][j]` for i in `rows`, j in `cols` (aligned residue i, scored residue j). */
+function blockMean(
+  pae: readonly number[][],
+  rows: ConfidentSegment,
+  cols: ConfidentSegment,
+): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = rows.start - 1; i < rows.end; i++) {
+    const row = pae[i];
+    if (!row) continue;
+    for (let j = cols.start - 1; j < cols.end; j++) {
+      const v = row[j];
+      if (v === undefined) continue;
+      sum += v;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : Number.NaN;
+}
+
+function round(v: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(v * f) / f;
+}
+
+/** Segments plus their PAE blocks — the shape both the tool and the resource return. */
+export interface ConfidenceSummary {
+  /** Pairwise PAE blocks; empty when no PAE matrix was available. */
+  paeBlocks: PaeBlock[];
+  segments: ConfidentSegment[];
+}
+
+/** Defaults shared by `protein_get_confidence` and `af://{accession}/confidence`. */
+export const DEFAULT_PLDDT_THRESHOLD = 70;
+export const DEFAULT_MIN_SEGMENT_LENGTH = 10;
+
+/** Summarize a pLDDT track (and PAE matrix, when present) into segments and blocks. */
+export function summarizeConfidence(
+  plddt: readonly number[],
+  pae: readonly number[][] | undefined,
+  threshold = DEFAULT_PLDDT_THRESHOLD,
+  minLength = DEFAULT_MIN_SEGMENT_LENGTH,
+): ConfidenceSummary {
+  const segments = confidentSegments(plddt, threshold, minLength);
+  return { segments, paeBlocks: pae ? paeBlocks(pae, segments) : [] };
+}
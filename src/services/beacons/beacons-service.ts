@@ -3,7 +3,8 @@
  * (`/uniprot/summary/{accession}.json`), which fronts experimental (PDBe) and
  * predicted (AlphaFold DB, AlphaFill, SWISS-MODEL, BFVD, …) models behind one
  * UniProt-keyed interface. Backs the predicted half of `protein_search_structures`
- * and `best_available` resolution in `protein_get_structure`. A 404 returns an
+ * and `best_available` resolution in `protein_get_structure`, and the UniProt
+ * ranges each model spans back `protein_get_coverage`. A 404 returns an
  * empty object upstream — treated as "no models", distinct from a transport error.
  * @module services/beacons/beacons-service
  */
@@ -34,6 +35,10 @@ export interface BeaconModel {
   provider?: string;
   /** Resolution in Å (experimental models only). */
   resolution?: number;
+  /** Last UniProt position the model covers. */
+  uniprotEnd?: number;
+  /** First UniProt position the model covers. */
+  uniprotStart?: number;
 }
 
 /** A UniProt accession's federated model set. */
@@ -44,11 +49,13 @@ export interface BeaconSummary {
   found: boolean;
   /** Federated models, experimental and predicted. */
   models: BeaconModel[];
+  /** Length of the UniProt sequence, when the upstream reports it. */
+  sequenceLength?: number;
 }
 
 interface RawSummary {
   structures?: Array<{ summary?: RawModelSummary }>;
-  uniprot_entry?: { ac?: string };
+  uniprot_entry?: { ac?: string; sequence_length?: number };
 }
 
 interface RawModelSummary {
@@ -61,6 +68,8 @@ interface RawModelSummary {
   model_url?: string;
   provider?: string;
   resolution?: number;
+  uniprot_end?: number;
+  uniprot_start?: number;
 }
 
 export class BeaconsService {
@@ -75,6 +84,7 @@ export class BeaconsService {
     const acc = accession.toUpperCase();
     const url = `${this.baseUrl}/uniprot/summary/${encodeURIComponent(acc)}.json`;
     const res = await fetchResponse(url, ctx, {
+      label: '3D-Beacons',
       operation: 'BeaconsService.getSummary',
       baseDelayMs: 500,
     });
@@ -89,7 +99,13 @@ export class BeaconsService {
       .map((s) => s.summary)
       .filter((s): s is RawModelSummary => s != null && !!s.model_identifier)
       .map(normalizeModel);
-    return { accession: raw.uniprot_entry?.ac ?? acc, found: models.length > 0, models };
+    const sequenceLength = raw.uniprot_entry?.sequence_length;
+    return {
+      accession: raw.uniprot_entry?.ac ?? acc,
+      found: models.length > 0,
+      models,
+      ...(typeof sequenceLength === 'number' ? { sequenceLength } : {}),
+    };
   }
 }
 
@@ -100,6 +116,12 @@ function normalizeModel(raw: RawModelSummary): BeaconModel {
     ...(raw.provider ? { provider: raw.provider } : {}),
     ...(raw.model_url ? { modelUrl: raw.model_url } : {}),
     ...(typeof raw.coverage === 'number' ? { coverage: raw.coverage } : {}),
+    // Ranges are kept only as a pair — a lone bound cannot place the model on the sequence.
+    ...(typeof raw.uniprot_start === 'number' &&
+    typeof raw.uniprot_end === 'number' &&
+    raw.uniprot_start <= raw.uniprot_end
+      ? { uniprotStart: raw.uniprot_start, uniprotEnd: raw.uniprot_end }
+      : {}),
     ...(typeof raw.resolution === 'number' ? { resolution: raw.resolution } : {}),
     ...(raw.experimental_method ? { experimentalMethod: raw.experimental_method } : {}),
     ...(raw.confidence_type ? { confidenceType: raw.confidence_type } : {}),
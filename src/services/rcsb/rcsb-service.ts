@@ -15,9 +15,11 @@ import type { StorageService } from '@cyanheads/mcp-ts-core/storage';
 import type { ServerConfig } from '@/config/server-config.js';
 import { fetchJson } from '../shared/http.js';
 import type {
+  AssemblyMeta,
   BindingResidue,
   BindingSite,
   ChemComp,
+  ChemicalMatch,
   ContentType,
   EntryMeta,
   FacetBucket,
@@ -104,6 +106,9 @@ export class RcsbService {
         ...contentTypeOption(params.contentType),
         paginate: { start: params.start ?? 0, rows: params.limit ?? 25 },
         ...(facets && facets.length > 0 ? { facets: facets.map(toRcsbFacet) } : {}),
+        ...(params.sort === 'newest'
+          ? { sort: [{ sort_by: 'rcsb_accession_info.initial_release_date', direction: 'desc' }] }
+          : {}),
         scoring_strategy: 'combined',
       },
     };
@@ -177,6 +182,45 @@ export class RcsbService {
     return raw.total_count ?? 0;
   }
 
+  /**
+   * Experimental entries with a polymer entity cross-referenced to a UniProt
+   * accession, highest-resolution first — only those that also contain `compId`
+   * when one is given. The entry set a per-target survey fans out over.
+   */
+  async searchByUniProt(
+    accession: string,
+    opts: { compId?: string; limit: number },
+    ctx: Context,
+  ): Promise<SearchResult> {
+    const byAccession = {
+      type: 'terminal' as const,
+      service: 'text' as const,
+      parameters: {
+        attribute:
+          'rcsb_polymer_entity_container_identifiers.reference_sequence_identifiers.database_accession',
+        operator: 'exact_match',
+        value: accession.toUpperCase(),
+      },
+    };
+    const body = {
+      query: opts.compId
+        ? {
+            type: 'group' as const,
+            logical_operator: 'and' as const,
+            nodes: [byAccession, ligandTerminal(opts.compId)],
+          }
+        : byAccession,
+      return_type: 'entry' as const,
+      request_options: {
+        ...contentTypeOption(['experimental']),
+        paginate: { start: 0, rows: opts.limit },
+        sort: [RESOLUTION_SORT],
+      },
+    };
+    const raw = await this.postSearch(body, ctx, 'RcsbService.searchByUniProt');
+    return { total: raw.total_count ?? 0, hits: normalizeHits(raw.result_set) };
+  }
+
   /** Resolve a ligand name/synonym to candidate chemical component IDs. */
   async findChemComps(query: string, limit: number, ctx: Context): Promise<string[]> {
     // Match the term against both the formal component name and its synonyms:
@@ -201,6 +245,36 @@ export class RcsbService {
     return normalizeHits(raw.result_set).map((h) => h.id);
   }
 
+  /**
+   * Chemical components resembling a molecule given as SMILES or InChI (told
+   * apart by the `InChI=` prefix), via RCSB's chemical search service. Hit
+   * scores are the fingerprint similarity RCSB ranks by, best first; a
+   * descriptor RCSB cannot parse is its 400.
+   */
+  async searchChemComps(
+    descriptor: string,
+    opts: { match: ChemicalMatch; limit: number },
+    ctx: Context,
+  ): Promise<SearchResult> {
+    const body = {
+      query: {
+        type: 'terminal' as const,
+        service: 'chemical' as const,
+        parameters: {
+          type: 'descriptor',
+          descriptor_type: /^InChI=/i.test(descriptor) ? 'InChI' : 'SMILES',
+          match_type:
+            opts.match === 'similarity' ? 'fingerprint-similarity' : 'sub-struct-graph-relaxed',
+          value: descriptor,
+        },
+      },
+      return_type: 'mol_definition' as const,
+      request_options: { paginate: { start: 0, rows: opts.limit } },
+    };
+    const raw = await this.postSearch(body, ctx, 'RcsbService.searchChemComps');
+    return { total: raw.total_count ?? 0, hits: normalizeHits(raw.result_set) };
+  }
+
   /** Facet-only aggregation over an optional scoping query (no row pull). */
   async analyzeFacets(
     params: StructureSearchParams,
@@ -220,6 +294,19 @@ export class RcsbService {
     return { total: raw.total_count ?? 0, facets: normalizeFacets(raw.facets, facets) };
   }
 
+  /**
+   * PDB entry IDs beginning with `prefix`, for URI-template completion. RCSB
+   * Search has no prefix operator on identifiers, so the prefix is expanded to
+   * every ID it could complete to and matched with `in` — a 3-character prefix
+   * is 36 candidates. Shorter prefixes are too broad to enumerate and return none.
+   */
+  async completeEntryIds(prefix: string, limit: number, ctx: Context): Promise<string[]> {
+    const entryIds = entryIdCandidates(prefix);
+    if (entryIds.length === 0) return [];
+    const result = await this.search({ entryIds, limit, contentType: ['experimental'] }, ctx);
+    return result.hits.map((h) => h.id.toUpperCase()).sort();
+  }
+
   // ─── GraphQL metadata ────────────────────────────────────────────────────────
 
   /** Batched entry metadata for up to N PDB IDs in one GraphQL call. */
@@ -305,14 +392,11 @@ export class RcsbService {
       for (const inst of nonpoly.nonpolymer_entity_instances ?? []) {
         const neighbors = inst.rcsb_target_neighbors ?? [];
         if (neighbors.length === 0) continue;
+        const ids = inst.rcsb_nonpolymer_entity_instance_container_identifiers;
         sites.push({
           ligandCompId: ligand,
-          ...(inst.rcsb_nonpolymer_entity_instance_container_identifiers?.auth_asym_id
-            ? {
-                ligandAsymId:
-                  inst.rcsb_nonpolymer_entity_instance_container_identifiers.auth_asym_id,
-              }
-            : {}),
+          ...(ids?.auth_asym_id ? { ligandAsymId: ids.auth_asym_id } : {}),
+          ...(ids?.asym_id ? { ligandLabelAsymId: ids.asym_id } : {}),
           residues: neighbors
             .map(normalizeNeighbor)
             .filter((r): r is BindingResidue => r != null)
@@ -338,6 +422,7 @@ export class RcsbService {
           label: 'RCSB Data API',
           baseDelayMs: 400,
           expectedStatuses: [404],
+          cache: 'entry',
         },
       );
     } catch (err) {
@@ -354,6 +439,19 @@ export class RcsbService {
     return `${this.filesBase}/download/${pdbId.toUpperCase()}.${format}`;
   }
 
+  /**
+   * Construct a biological-assembly download URL — `4HHB-assembly1.cif`, or the
+   * legacy `4HHB.pdb1`, which writes each symmetry copy as its own MODEL. RCSB
+   * publishes no BinaryCIF assembly file, and no PDB-format one for entries too
+   * large for the format.
+   */
+  assemblyFileUrl(pdbId: string, assemblyId: string, format: 'cif' | 'pdb'): string {
+    const id = pdbId.toUpperCase();
+    return format === 'cif'
+      ? `${this.filesBase}/download/${id}-assembly${assemblyId}.cif`
+      : `${this.filesBase}/download/${id}.pdb${assemblyId}`;
+  }
+
   // ─── Private ───────────────────────────────────────────────────────────────────
 
   private postSearch(body: unknown, ctx: Context, operation: string): Promise<RawSearchResponse> {
@@ -364,6 +462,7 @@ export class RcsbService {
       operation,
       label: 'RCSB Search API',
       baseDelayMs: 400,
+      cache: 'search',
       // RCSB answers a zero-result query with 204 No Content. Treat that as an
       // empty result set rather than letting the empty-body guard classify it as
       // a transient outage and burn the full retry budget.
@@ -387,6 +486,10 @@ export class RcsbService {
         operation,
         label: 'RCSB GraphQL API',
         baseDelayMs: 400,
+        cache: 'entry',
+        // GraphQL reports failures in a 200 body; caching one would replay the
+        // error for the whole entry TTL.
+        shouldCache: (b) => b.data != null && !b.errors?.length,
       },
     );
     if (body.data) return body.data;
@@ -417,6 +520,9 @@ export function buildQuery(params: StructureSearchParams): unknown {
       },
     });
   }
+  if (params.entryIds && params.entryIds.length > 0) {
+    nodes.push(textNode('rcsb_entry_container_identifiers.entry_id', 'in', params.entryIds));
+  }
   if (params.organism) {
     nodes.push(
       textNode(
@@ -439,7 +545,22 @@ export function buildQuery(params: StructureSearchParams): unknown {
   return { type: 'group', logical_operator: 'and', nodes };
 }
 
-function textNode(attribute: string, operator: string, value: string | number): unknown {
+/** Alphabet of the three trailing PDB ID characters. */
+const ID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * The PDB entry IDs a partial ID can complete to: itself when already four
+ * characters, its 36 one-character extensions at three, none below that or when
+ * the prefix cannot start a PDB ID.
+ */
+export function entryIdCandidates(prefix: string): string[] {
+  const head = prefix.trim().toUpperCase();
+  if (!/^[0-9][A-Z0-9]{2,3}$/.test(head)) return [];
+  if (head.length === 4) return [head];
+  return [...ID_CHARS].map((c) => `${head}${c}`);
+}
+
+function textNode(attribute: string, operator: string, value: string | number | string[]): unknown {
   return { type: 'terminal', service: 'text', parameters: { attribute, operator, value } };
 }
 
@@ -453,6 +574,22 @@ function contentTypeOption(contentTypes?: ContentType[]): { results_content_type
   return { results_content_type: contentTypes };
 }
 
+/** Best-resolution-first entry ordering. */
+const RESOLUTION_SORT = { sort_by: 'rcsb_entry_info.resolution_combined', direction: 'asc' };
+
+/** Search terminal matching entries that contain a chemical component (exact ID). */
+function ligandTerminal(compId: string) {
+  return {
+    type: 'terminal' as const,
+    service: 'text_chem' as const,
+    parameters: {
+      attribute: 'rcsb_chem_comp_container_identifiers.comp_id',
+      operator: 'exact_match',
+      value: compId.toUpperCase(),
+    },
+  };
+}
+
 /**
  * Ligand-containment search body (exact chemical-component ID), shared by
  * searchByLigand and countEntriesWithLigand. Defaults to experimental content;
@@ -466,22 +603,12 @@ function ligandContainmentQuery(
   sortByResolution: boolean,
 ): unknown {
   return {
-    query: {
-      type: 'terminal',
-      service: 'text_chem',
-      parameters: {
-        attribute: 'rcsb_chem_comp_container_identifiers.comp_id',
-        operator: 'exact_match',
-        value: compId.toUpperCase(),
-      },
-    },
+    query: ligandTerminal(compId),
     return_type: 'entry',
     request_options: {
       ...contentTypeOption(contentType ?? ['experimental']),
       paginate: { start: 0, rows },
-      ...(sortByResolution
-        ? { sort: [{ sort_by: 'rcsb_entry_info.resolution_combined', direction: 'asc' }] }
-        : {}),
+      ...(sortByResolution ? { sort: [RESOLUTION_SORT] } : {}),
     },
   };
 }
@@ -585,6 +712,9 @@ function normalizeEntry(raw: RawEntry): EntryMeta {
     .filter((l): l is LigandMeta => l != null);
   const methods = (raw.exptl ?? []).map((e) => e.method).filter((m): m is string => !!m);
   const resolution = raw.rcsb_entry_info?.resolution_combined?.[0];
+  const assemblies = (raw.assemblies ?? [])
+    .map(normalizeAssembly)
+    .filter((a): a is AssemblyMeta => a != null);
   return {
     id: raw.rcsb_id,
     ...(computedModelProvider ? { computedModelProvider } : {}),
@@ -600,6 +730,29 @@ function normalizeEntry(raw: RawEntry): EntryMeta {
     organisms,
     polymerEntities,
     ligands,
+    assemblies,
+  };
+}
+
+function normalizeAssembly(raw: RawAssembly | null): AssemblyMeta | undefined {
+  const assemblyId = raw?.rcsb_assembly_container_identifiers?.assembly_id;
+  if (!raw || !assemblyId) return;
+  const info = raw.pdbx_struct_assembly;
+  // RCSB lists global, local, and pseudo symmetry; the assembly's own point group is the global one.
+  const symmetry =
+    raw.rcsb_struct_symmetry?.find((s) => s.kind === 'Global Symmetry') ??
+    raw.rcsb_struct_symmetry?.[0];
+  const oligomericState = symmetry?.oligomeric_state ?? info?.oligomeric_details;
+  const stoichiometry = symmetry?.stoichiometry?.filter((s): s is string => !!s);
+  return {
+    assemblyId,
+    ...(oligomericState ? { oligomericState } : {}),
+    ...(typeof info?.oligomeric_count === 'number' ? { polymerCount: info.oligomeric_count } : {}),
+    ...(stoichiometry && stoichiometry.length > 0 ? { stoichiometry } : {}),
+    ...(symmetry?.symbol ? { symmetry: symmetry.symbol } : {}),
+    ...(symmetry?.type ? { symmetryType: symmetry.type } : {}),
+    ...(info?.details ? { determination: info.details } : {}),
+    ...(info?.method_details ? { determinationMethod: info.method_details } : {}),
   };
 }
 
@@ -668,6 +821,7 @@ function normalizeChemComp(id: string, raw: RawChemComp): ChemComp {
 // ─── Raw GraphQL/REST payload shapes (all optional — upstream is sparse) ─────────
 
 interface RawEntry {
+  assemblies?: Array<RawAssembly | null>;
   exptl?: Array<{ method?: string }>;
   nonpolymer_entities?: RawNonpolymerEntity[];
   polymer_entities?: RawPolymerEntity[];
@@ -679,6 +833,23 @@ interface RawEntry {
   struct?: { title?: string };
 }
 
+interface RawAssembly {
+  pdbx_struct_assembly?: {
+    details?: string;
+    method_details?: string;
+    oligomeric_count?: number;
+    oligomeric_details?: string;
+  };
+  rcsb_assembly_container_identifiers?: { assembly_id?: string };
+  rcsb_struct_symmetry?: Array<{
+    kind?: string;
+    oligomeric_state?: string;
+    stoichiometry?: Array<string | null>;
+    symbol?: string;
+    type?: string;
+  }> | null;
+}
+
 interface RawPolymerEntity {
   entity_poly?: { rcsb_sample_sequence_length?: number; pdbx_seq_one_letter_code_can?: string };
   rcsb_entity_source_organism?: Array<{ ncbi_scientific_name?: string }>;
@@ -716,7 +887,10 @@ interface RawBindingEntry {
   nonpolymer_entities?: Array<{
     rcsb_nonpolymer_entity_container_identifiers?: { nonpolymer_comp_id?: string };
     nonpolymer_entity_instances?: Array<{
-      rcsb_nonpolymer_entity_instance_container_identifiers?: { auth_asym_id?: string };
+      rcsb_nonpolymer_entity_instance_container_identifiers?: {
+        asym_id?: string;
+        auth_asym_id?: string;
+      };
       rcsb_target_neighbors?: RawTargetNeighbor[];
     }>;
   }>;
@@ -756,6 +930,11 @@ const ENTRIES_QUERY = `query Entries($ids: [String!]!) {
       rcsb_nonpolymer_entity_container_identifiers { nonpolymer_comp_id }
       nonpolymer_comp { chem_comp { name formula } }
     }
+    assemblies {
+      rcsb_assembly_container_identifiers { assembly_id }
+      pdbx_struct_assembly { details method_details oligomeric_count oligomeric_details }
+      rcsb_struct_symmetry { kind oligomeric_state stoichiometry symbol type }
+    }
   }
 }`;
 
@@ -785,7 +964,7 @@ const BINDING_SITE_QUERY = `query BindingSite($id: String!) {
     nonpolymer_entities {
       rcsb_nonpolymer_entity_container_identifiers { nonpolymer_comp_id }
       nonpolymer_entity_instances {
-        rcsb_nonpolymer_entity_instance_container_identifiers { auth_asym_id }
+        rcsb_nonpolymer_entity_instance_container_identifiers { asym_id auth_asym_id }
         rcsb_target_neighbors { target_asym_id target_comp_id target_seq_id distance }
       }
     }
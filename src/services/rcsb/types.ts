@@ -100,8 +100,38 @@ export interface LigandMeta {
   name?: string;
 }
 
+/**
+ * A biological assembly of an entry — the complex the depositors or assembly
+ * software consider functional, built from the asymmetric unit by symmetry
+ * operations. Crystal entries often need it: the asymmetric unit can hold half
+ * a dimer, or two copies of a monomer.
+ */
+export interface AssemblyMeta {
+  /** Assembly ID within the entry (e.g. `1`). */
+  assemblyId: string;
+  /**
+   * How the assembly was determined: `author_defined_assembly`,
+   * `software_defined_assembly`, or `author_and_software_defined_assembly`.
+   */
+  determination?: string;
+  /** Software or method behind the determination (e.g. `PISA`). */
+  determinationMethod?: string;
+  /** Oligomeric state (e.g. "Hetero 4-mer"), else the deposited description (e.g. "tetrameric"). */
+  oligomericState?: string;
+  /** Polymer chains in the assembly. */
+  polymerCount?: number;
+  /** Entity stoichiometry (e.g. `["A2", "B2"]`). */
+  stoichiometry?: string[];
+  /** Global point-group symmetry symbol (e.g. `C2`). */
+  symmetry?: string;
+  /** Global symmetry type (e.g. "Cyclic", "Asymmetric"). */
+  symmetryType?: string;
+}
+
 /** Normalized entry-level metadata from the GraphQL batch. */
 export interface EntryMeta {
+  /** Biological assemblies, in the order RCSB lists them. */
+  assemblies: AssemblyMeta[];
   /**
    * Modelling provider display name when this ID is a computed structure model
    * (`AF_*` / `MA_*`) rather than an experimental entry — e.g. "AlphaFold DB",
@@ -147,6 +177,8 @@ export interface BindingSite {
   ligandAsymId?: string;
   /** Ligand chemical component ID. */
   ligandCompId: string;
+  /** mmCIF label asym ID of the instance — unique per ligand copy, unlike the author chain. */
+  ligandLabelAsymId?: string;
   /** Interacting protein residues, nearest first. */
   residues: BindingResidue[];
 }
@@ -169,6 +201,13 @@ export interface ChemComp {
   type?: string;
 }
 
+/**
+ * How a chemical search compares the query molecule with each component:
+ * `similarity` ranks by 2D-fingerprint Tanimoto similarity; `substructure`
+ * keeps components containing the query as a substructure.
+ */
+export type ChemicalMatch = 'similarity' | 'substructure';
+
 /** One structure universe RCSB can scope results to. */
 export type ContentType = 'experimental' | 'computational';
 
@@ -180,6 +219,8 @@ export interface StructureSearchParams {
    * experimental-only default, which drops every computed model.
    */
   contentType?: ContentType[];
+  /** Restrict hits to these PDB entry IDs (an `in` match on the entry ID). */
+  entryIds?: string[];
   /** Page size. */
   limit?: number;
   /** Max E-value for a sequence query. */
@@ -194,6 +235,8 @@ export interface StructureSearchParams {
   organism?: string;
   /** Protein sequence (one-letter) for an mmseqs2 search. */
   sequence?: string;
+  /** Hit order: relevance (default) or most recently released first. */
+  sort?: 'score' | 'newest';
   /** Page offset. */
   start?: number;
   /** Free-text query. */
@@ -14,7 +14,7 @@ export type PollOutcome<T> = { status: 'complete'; value: T } | { status: 'compu
 export type PollStep<T> = { ready: true; value: T } | { ready: false };
 
 /** Sleep for `ms`, resolving early (without rejecting) if the signal aborts. */
-function sleep(ms: number, signal: AbortSignal): Promise<void> {
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
   return new Promise((resolve) => {
     if (signal.aborted) return resolve();
     const onAbort = () => {
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Persistent upstream-response cache backed by the framework
+ * `StorageService`. `fetchJson` / `fetchText` consult it when a caller opts in
+ * with a {@link CacheTier}; the tier picks the TTL, so released PDB entries (which
+ * change only on a remediation pass) live for days while search results (which
+ * move with every weekly release) expire in minutes. Entries sit under a
+ * dedicated storage tenant — upstream data is public and identical for every
+ * caller, so one shared cache serves all sessions and purging it never touches
+ * tenant-scoped tool state. Storage failures degrade to a miss: the cache can
+ * make a request faster, never make it fail. Hits are counted per request and
+ * surfaced through `ctx.enrich({ cacheHits })`.
+ * @module services/shared/cache
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import type { StorageService } from '@cyanheads/mcp-ts-core/storage';
+import type { ServerConfig } from '@/config/server-config.js';
+
+/**
+ * TTL class for a cached response:
+ * - `entry` — released-entry data keyed by a stable ID (RCSB Data API records,
+ *   chemical components, coordinate files).
+ * - `prediction` — AlphaFold DB model metadata; stable per model version.
+ * - `annotation` — UniProt / InterPro records; revised on each release cycle.
+ * - `search` — RCSB Search API result sets; shift with every weekly release.
+ */
+export type CacheTier = 'entry' | 'prediction' | 'annotation' | 'search';
+
+/** Storage tenant that holds every cached response, isolated from per-tenant state. */
+const CACHE_TENANT = 'protein-response-cache';
+
+/** Key namespace within the cache tenant. */
+const KEY_PREFIX = 'http/';
+
+/** Stored envelope — keeps a cached falsy body distinguishable from a miss. */
+interface CacheEnvelope {
+  body: unknown;
+}
+
+export class ResponseCache {
+  private readonly storage: StorageService;
+  private readonly ttls: Record<CacheTier, number>;
+
+  constructor(storage: StorageService, serverConfig: ServerConfig) {
+    this.storage = storage;
+    this.ttls = {
+      entry: serverConfig.cacheEntryTtlSeconds,
+      prediction: serverConfig.cachePredictionTtlSeconds,
+      annotation: serverConfig.cacheAnnotationTtlSeconds,
+      search: serverConfig.cacheSearchTtlSeconds,
+    };
+  }
+
+  /**
+   * Derive the storage key for a request. The method, URL, and body all feed the
+   * digest so two GraphQL POSTs to the same endpoint never collide; the tier is
+   * a readable prefix for inspection and prefix-listing.
+   */
+  async keyFor(tier: CacheTier, method: string, url: string, body?: string): Promise<string> {
+    const bytes = new TextEncoder().encode(`${method} ${url}\n${body ?? ''}`);
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+    return `${KEY_PREFIX}${tier}/${hex}`;
+  }
+
+  /** Look up a cached body. Resolves `undefined` on a miss or a storage failure. */
+  async get<T>(key: string, ctx: Context): Promise<T | undefined> {
+    try {
+      const hit = await this.storage.get<CacheEnvelope>(key, storageContext(ctx));
+      return hit ? (hit.body as T) : undefined;
+    } catch (err) {
+      ctx.log.debug('Response cache read failed; treating as a miss', {
+        key,
+        error: err instanceof Error ? err.message : err,
+      });
+      return;
+    }
+  }
+
+  /** Store a body under the tier's TTL. A storage failure is logged and dropped. */
+  async set(key: string, tier: CacheTier, body: unknown, ctx: Context): Promise<void> {
+    try {
+      await this.storage.set(key, { body } satisfies CacheEnvelope, storageContext(ctx), {
+        ttl: this.ttls[tier],
+      });
+    } catch (err) {
+      ctx.log.debug('Response cache write failed; continuing uncached', {
+        key,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+  }
+}
+
+/** Re-scope the caller's request context onto the shared cache tenant. */
+function storageContext(ctx: Context) {
+  return { requestId: ctx.requestId, timestamp: ctx.timestamp, tenantId: CACHE_TENANT };
+}
+
+// ─── Hit reporting ────────────────────────────────────────────────────────────
+
+/** Per-request hit tally, keyed weakly so a finished request's count is collected with it. */
+const hitCounts = new WeakMap<Context, number>();
+
+/**
+ * Count a cache hit against the request and publish the running total as
+ * `cacheHits`. Tools that declare the field surface it in `structuredContent` and
+ * the trailer; for the rest the enrichment merge drops it.
+ */
+export function recordCacheHit(ctx: Context): void {
+  const cacheHits = (hitCounts.get(ctx) ?? 0) + 1;
+  hitCounts.set(ctx, cacheHits);
+  ctx.enrich({ cacheHits });
+}
+
+// ─── Init / accessor ──────────────────────────────────────────────────────────
+
+let _cache: ResponseCache | undefined;
+
+/**
+ * Install the response cache. With `cacheEnabled` false this clears any installed
+ * instance instead, leaving every fetch uncached.
+ */
+export function initResponseCache(storage: StorageService, serverConfig: ServerConfig): void {
+  _cache = serverConfig.cacheEnabled ? new ResponseCache(storage, serverConfig) : undefined;
+}
+
+/**
+ * Drop every cached response, whether or not caching is currently enabled — a
+ * purge after disabling still clears what an earlier run left behind. Resolves
+ * the number of entries removed.
+ */
+export function purgeResponseCache(storage: StorageService): Promise<number> {
+  return storage.clear({
+    requestId: 'response-cache-purge',
+    timestamp: new Date().toISOString(),
+    tenantId: CACHE_TENANT,
+  });
+}
+
+/**
+ * The installed response cache, or `undefined` when caching is disabled or was
+ * never initialized — unlike the service accessors this does not throw, because
+ * an uncached fetch is always a valid fallback.
+ */
+export function getResponseCache(): ResponseCache | undefined {
+  return _cache;
+}
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Per-provider circuit breaker. `withRetry` makes one call resilient
+ * to a blip; this stops every later call from paying the full retry budget while a
+ * provider is down. Each provider (keyed by the same label its error messages
+ * use) has one circuit: `closed` lets calls through and counts consecutive
+ * outages; at the threshold it trips `open`, and calls fail at once with a
+ * non-retryable `ServiceUnavailable` tagged `circuit_open` that names the
+ * provider and when it will be tried again. Once the cooldown passes the circuit
+ * goes `half_open` and admits a single probe — success closes it, failure reopens
+ * it for another cooldown — while concurrent calls keep failing fast. Only
+ * outages count: timeouts, network errors, 5xx, HTML error pages. A 404 or 400 is
+ * the provider answering, and resets the count. `services/shared/http` runs every
+ * uncached request through the installed breaker; `protein_server_status` reports
+ * its state. With the breaker disabled none is installed and the layer is inert.
+ * @module services/shared/circuit-breaker
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import { JsonRpcErrorCode, McpError, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import type { ServerConfig } from '@/config/server-config.js';
+import { FIXTURE_MISSING } from './fixtures.js';
+
+/** `data.reason` on the error raised when a call is refused by an open circuit. */
+export const CIRCUIT_OPEN = 'circuit_open';
+
+/**
+ * Where a provider's circuit stands:
+ * - `closed` — calls go through (normal).
+ * - `open` — calls fail fast until the cooldown ends.
+ * - `half_open` — one probe call is in flight to test recovery.
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/** A provider circuit's observable state, as reported by `protein_server_status`. */
+export interface CircuitSnapshot {
+  /** Consecutive outages since the last success. */
+  consecutiveFailures: number;
+  /** Message of the most recent outage. */
+  lastFailure?: string;
+  /** When the most recent outage happened (epoch ms). */
+  lastFailureAt?: number;
+  /** When the provider last answered (epoch ms). */
+  lastSuccessAt?: number;
+  /** Provider label, e.g. `Foldseek`, `RCSB Alignment API`. */
+  provider: string;
+  /** Calls refused while open, since the circuit last closed. */
+  rejected: number;
+  /** When an open circuit next admits a probe (epoch ms). Set only while `open`. */
+  retryAt?: number;
+  state: CircuitState;
+}
+
+/** One provider's circuit. */
+class Circuit {
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  openedAt = 0;
+  rejected = 0;
+  lastFailure?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+
+  constructor(readonly provider: string) {}
+}
+
+/** Per-provider circuits, created on a provider's first call. */
+export class CircuitBreaker {
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(failureThreshold: number, cooldownMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Run one call to `provider` through its circuit. Refuses it with a
+   * `circuit_open` error while the circuit is open (or a probe is already in
+   * flight), otherwise runs it and records the verdict. `isOutage` classifies a
+   * resolved value that still means the provider is down — a raw 5xx `Response`.
+   * A call cancelled by the client records nothing.
+   */
+  async run<T>(
+    provider: string,
+    ctx: Context,
+    call: () => Promise<T>,
+    isOutage?: (value: T) => boolean,
+  ): Promise<T> {
+    const circuit = this.circuit(provider);
+    this.admit(circuit, ctx);
+    let value: T;
+    try {
+      value = await call();
+    } catch (err) {
+      if (ctx.signal.aborted) this.release(circuit);
+      else if (isOutageError(err)) this.failure(circuit, ctx, (err as Error).message);
+      else this.success(circuit, ctx);
+      throw err;
+    }
+    if (isOutage?.(value)) this.failure(circuit, ctx, `${provider} answered with a server error.`);
+    else this.success(circuit, ctx);
+    return value;
+  }
+
+  /** Every circuit that has seen a call, ordered by provider. */
+  snapshot(): CircuitSnapshot[] {
+    return [...this.circuits.values()]
+      .sort((a, b) => a.provider.localeCompare(b.provider))
+      .map((c) => ({
+        provider: c.provider,
+        state: c.state,
+        consecutiveFailures: c.consecutiveFailures,
+        rejected: c.rejected,
+        ...(c.state === 'open' ? { retryAt: c.openedAt + this.cooldownMs } : {}),
+        ...(c.lastFailure !== undefined ? { lastFailure: c.lastFailure } : {}),
+        ...(c.lastFailureAt !== undefined ? { lastFailureAt: c.lastFailureAt } : {}),
+        ...(c.lastSuccessAt !== undefined ? { lastSuccessAt: c.lastSuccessAt } : {}),
+      }));
+  }
+
+  private circuit(provider: string): Circuit {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = new Circuit(provider);
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  /** Let a call through, turning an expired open circuit into its half-open probe, or throw. */
+  private admit(circuit: Circuit, ctx: Context): void {
+    if (circuit.state === 'closed') return;
+    const retryAt = circuit.openedAt + this.cooldownMs;
+    if (circuit.state === 'open' && Date.now() >= retryAt) {
+      circuit.state = 'half_open';
+      ctx.log.info('Circuit half-open; probing provider', { provider: circuit.provider });
+      return;
+    }
+    circuit.rejected++;
+    const waitS = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+    const why =
+      circuit.state === 'half_open'
+        ? 'a recovery probe is in flight'
+        : `it failed ${circuit.consecutiveFailures} calls in a row (last: ${circuit.lastFailure})`;
+    throw serviceUnavailable(
+      `${circuit.provider} is temporarily unavailable — ${why}. Failing fast; retry in about ${waitS}s, or check protein_server_status.`,
+      {
+        reason: CIRCUIT_OPEN,
+        retryable: false,
+        provider: circuit.provider,
+        state: circuit.state,
+        retryAt: new Date(retryAt).toISOString(),
+      },
+    );
+  }
+
+  private success(circuit: Circuit, ctx: Context): void {
+    if (circuit.state !== 'closed') {
+      ctx.log.info('Circuit closed; provider recovered', { provider: circuit.provider });
+    }
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.rejected = 0;
+    circuit.lastSuccessAt = Date.now();
+  }
+
+  private failure(circuit: Circuit, ctx: Context, message: string): void {
+    const now = Date.now();
+    circuit.consecutiveFailures++;
+    circuit.lastFailure = message;
+    circuit.lastFailureAt = now;
+    if (circuit.state === 'half_open' || circuit.consecutiveFailures >= this.failureThreshold) {
+      if (circuit.state !== 'open') {
+        ctx.log.warning('Circuit opened; failing fast on provider', {
+          provider: circuit.provider,
+          consecutiveFailures: circuit.consecutiveFailures,
+          cooldownMs: this.cooldownMs,
+        });
+      }
+      circuit.state = 'open';
+      circuit.openedAt = now;
+    }
+  }
+
+  /** A cancelled probe proves nothing — reopen so the next call probes instead. */
+  private release(circuit: Circuit): void {
+    if (circuit.state === 'half_open') circuit.state = 'open';
+  }
+}
+
+/**
+ * Whether a thrown error means the provider could not answer — refused by its
+ * open circuit, or an outage. Fallback routing (`services/shared/fallback`) turns
+ * to a secondary provider on exactly these.
+ */
+export function isUnavailable(err: unknown): boolean {
+  return (err instanceof McpError && err.data?.reason === CIRCUIT_OPEN) || isOutageError(err);
+}
+
+/**
+ * Whether a thrown error means the provider is down rather than answering:
+ * transient codes, a 5xx status, or a raw network failure. Replay's missing
+ * fixtures and the breaker's own refusals are not the provider's doing.
+ */
+function isOutageError(err: unknown): boolean {
+  if (!(err instanceof McpError)) return true;
+  const reason = err.data?.reason;
+  if (reason === FIXTURE_MISSING || reason === CIRCUIT_OPEN) return false;
+  const status = err.data?.status;
+  if (typeof status === 'number') return status >= 500;
+  return err.code === JsonRpcErrorCode.ServiceUnavailable || err.code === JsonRpcErrorCode.Timeout;
+}
+
+// ─── Init / accessor ──────────────────────────────────────────────────────────
+
+let _breaker: CircuitBreaker | undefined;
+
+/**
+ * Install the circuit breaker from config. With `circuitBreakerEnabled` false this
+ * clears any installed breaker instead, so every call goes straight through.
+ */
+export function initCircuitBreaker(serverConfig: ServerConfig): void {
+  _breaker = serverConfig.circuitBreakerEnabled
+    ? new CircuitBreaker(serverConfig.circuitFailureThreshold, serverConfig.circuitCooldownMs)
+    : undefined;
+}
+
+/** The installed circuit breaker, or `undefined` when disabled or never initialized. */
+export function getCircuitBreaker(): CircuitBreaker | undefined {
+  return _breaker;
+}
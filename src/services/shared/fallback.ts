@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Provider fallback for data more than one upstream can serve —
+ * an AlphaFold model's metadata (AlphaFold DB, or 3D-Beacons), a sequence (RCSB
+ * or UniProt, or UniProt or AlphaFold DB), an entry's coordinates (RCSB or PDBe).
+ * `withFallback` asks the primary first and turns to the secondary only when the
+ * primary is *unavailable* — its circuit is open, or the call failed as an outage
+ * after its retries. A primary that answers, even "not found", is the answer. A
+ * fallback that serves is recorded against the request, so the tool can name the
+ * provider that answered in its output and explain the switch in its notice.
+ * When both providers fail, the primary's error is the one that surfaces.
+ * @module services/shared/fallback
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import { isUnavailable } from './circuit-breaker.js';
+
+/** One provider able to answer a request. */
+export interface ProviderSource<T> {
+  /** Loads the data from this provider. */
+  load: () => Promise<T>;
+  /** Provider label, matching the one its requests carry (`AlphaFold DB`, `3D-Beacons`, …). */
+  provider: string;
+}
+
+/** A request the secondary provider answered because the primary was unavailable. */
+export interface ProviderFallback {
+  /** What was served, e.g. `AlphaFold model for P69905`. */
+  data: string;
+  /** The provider normally asked. */
+  primary: string;
+  /** The provider that answered instead. */
+  provider: string;
+  /** Why the primary was passed over — its error message. */
+  reason: string;
+}
+
+/** Per-request fallback record, keyed weakly so a finished request's record is collected with it. */
+const served = new WeakMap<Context, ProviderFallback[]>();
+
+/**
+ * Load `data` from `primary`, or from `secondary` when the primary is unavailable.
+ * A cancelled request never falls back; neither does a primary that answered
+ * with a client error. If the secondary fails too, the primary's error is thrown.
+ */
+export async function withFallback<T>(
+  data: string,
+  ctx: Context,
+  primary: ProviderSource<T>,
+  secondary: ProviderSource<T>,
+): Promise<T> {
+  try {
+    return await primary.load();
+  } catch (err) {
+    if (ctx.signal.aborted || !isUnavailable(err)) throw err;
+    const reason = err instanceof Error ? err.message : String(err);
+    ctx.log.warning('Primary provider unavailable; falling back', {
+      data,
+      primary: primary.provider,
+      secondary: secondary.provider,
+      error: reason,
+    });
+    let value: T;
+    try {
+      value = await secondary.load();
+    } catch (fallbackErr) {
+      ctx.log.warning('Fallback provider failed too', {
+        data,
+        provider: secondary.provider,
+        error: fallbackErr instanceof Error ? fallbackErr.message : fallbackErr,
+      });
+      throw err;
+    }
+    const record = served.get(ctx) ?? [];
+    record.push({ data, primary: primary.provider, provider: secondary.provider, reason });
+    served.set(ctx, record);
+    return value;
+  }
+}
+
+/** Every fallback that served data for this request, in the order they happened. */
+export function fallbacksFor(ctx: Context): ProviderFallback[] {
+  return served.get(ctx) ?? [];
+}
+
+/**
+ * The fallback advisory for a request, or `undefined` when every read came from
+ * its primary provider. Names each primary that was down and who stood in.
+ */
+export function fallbackNotice(ctx: Context): string | undefined {
+  const record = served.get(ctx);
+  if (!record?.length) return;
+  const swaps = new Map<string, Set<string>>();
+  for (const f of record) {
+    const key = `${f.primary} → ${f.provider}`;
+    swaps.set(key, (swaps.get(key) ?? new Set()).add(f.data));
+  }
+  const parts = [...swaps].map(([swap, data]) => `${swap} (${[...data].join(', ')})`);
+  return `Answered from fallback providers because the primary was unavailable: ${parts.join('; ')}.`;
+}
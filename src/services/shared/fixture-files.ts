@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Node filesystem access for the record/replay fixture store
+ * (`./fixtures`) — the layer's only Node-specific piece. `initFixtureStore`
+ * imports it on demand for record or replay mode.
+ * @module services/shared/fixture-files
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import type { FixtureFiles } from './fixtures.js';
+
+export const nodeFixtureFiles: FixtureFiles = {
+  join,
+  resolve,
+
+  async read(path) {
+    try {
+      return await readFile(path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+  },
+
+  async write(path, text) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, text);
+  },
+};
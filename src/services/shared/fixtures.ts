@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Record/replay store for upstream HTTP traffic, so CI and
+ * air-gapped sessions can run the server with no network. In `record` mode every
+ * request goes to the live upstream and the response (status, content type, body)
+ * is written to the fixture directory; in `replay` mode responses are served from
+ * disk and nothing leaves the process — a request with no recording fails with a
+ * non-retryable `ServiceUnavailable` tagged `fixture_missing`. Fixtures are keyed
+ * by method + URL + body digest and sharded by host
+ * (`{dir}/{host}/{METHOD}-{sha256}.json`), one readable JSON file per exchange.
+ * `services/shared/http` routes every fetch through the installed store; with
+ * mode `live` none is installed and the layer is inert. The store reaches disk
+ * through `./fixture-files`, imported only for record or replay, so the live
+ * request path and the Workers build never load a `node:` built-in.
+ * @module services/shared/fixtures
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import { serializationError, serviceUnavailable, timeout } from '@cyanheads/mcp-ts-core/errors';
+import type { ServerConfig } from '@/config/server-config.js';
+
+/**
+ * How the server reaches its upstreams:
+ * - `live` — straight to the network (default).
+ * - `record` — to the network, saving every exchange as a fixture.
+ * - `replay` — from saved fixtures only; no network.
+ */
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+/** `data.reason` on the error raised when replay has no recording for a request. */
+export const FIXTURE_MISSING = 'fixture_missing';
+
+/** Response headers worth keeping — the ones callers or the retry layer read. */
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+/** Statuses the `Response` constructor refuses a body for. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** One recorded request/response exchange, as stored on disk. */
+export interface Fixture {
+  request: {
+    /** Request body as keyed — form uploads flattened to `name=value` lines. */
+    body?: string;
+    method: string;
+    url: string;
+  };
+  response: {
+    body: string;
+    headers: Record<string, string>;
+    status: number;
+    statusText: string;
+  };
+}
+
+/** The filesystem operations the store needs; `./fixture-files` supplies Node's. */
+export interface FixtureFiles {
+  join(...segments: string[]): string;
+  /** Read a fixture, or `undefined` when nothing is recorded at `path`. */
+  read(path: string): Promise<string | undefined>;
+  resolve(path: string): string;
+  /** Write a fixture, creating its directory. */
+  write(path: string, text: string): Promise<void>;
+}
+
+/** The request fields the store keys and forwards. */
+export interface FixtureRequest {
+  body?: RequestInit['body'];
+  headers?: Record<string, string>;
+  method?: string;
+}
+
+export class FixtureStore {
+  readonly dir: string;
+  readonly mode: Exclude<UpstreamMode, 'live'>;
+  private readonly files: FixtureFiles;
+
+  constructor(dir: string, mode: Exclude<UpstreamMode, 'live'>, files: FixtureFiles) {
+    this.files = files;
+    this.dir = files.resolve(dir);
+    this.mode = mode;
+  }
+
+  /**
+   * Path of the fixture for a request. The digest covers method, URL, and body,
+   * so two GraphQL POSTs to one endpoint land in different files.
+   */
+  async pathFor(method: string, url: string, body: string): Promise<string> {
+    const bytes = new TextEncoder().encode(`${method} ${url}\n${body}`);
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+    return this.files.join(this.dir, new URL(url).host, `${method}-${hex}.json`);
+  }
+
+  /**
+   * Perform one round trip under the store's mode. Resolves the raw `Response`
+   * whatever its status — status mapping stays with the caller, as with `fetch`.
+   */
+  async fetch(
+    url: string,
+    init: FixtureRequest,
+    ctx: Context,
+    timeoutMs: number,
+  ): Promise<Response> {
+    const method = init.method ?? 'GET';
+    const body = await serializeBody(init.body);
+    const path = await this.pathFor(method, url, body);
+    if (this.mode === 'replay') return toResponse(await this.read(path, method, url));
+    return toResponse(await this.record(path, { method, url, body }, init, ctx, timeoutMs));
+  }
+
+  private async read(path: string, method: string, url: string): Promise<Fixture> {
+    const text = await this.files.read(path);
+    if (text === undefined) {
+      throw serviceUnavailable(
+        `No recorded fixture for ${method} ${url} — record it with PROTEIN_UPSTREAM_MODE=record.`,
+        { reason: FIXTURE_MISSING, retryable: false, method, url, fixture: path },
+      );
+    }
+    try {
+      return JSON.parse(text) as Fixture;
+    } catch {
+      throw serializationError(`Fixture ${path} is not valid JSON.`, { fixture: path });
+    }
+  }
+
+  private async record(
+    path: string,
+    request: { method: string; url: string; body: string },
+    init: FixtureRequest,
+    ctx: Context,
+    timeoutMs: number,
+  ): Promise<Fixture> {
+    const signal = AbortSignal.any([ctx.signal, AbortSignal.timeout(timeoutMs)]);
+    let res: Response;
+    try {
+      res = await fetch(request.url, {
+        method: request.method,
+        ...(init.body !== undefined && { body: init.body }),
+        ...(init.headers && { headers: init.headers }),
+        signal,
+      });
+    } catch (err) {
+      const host = new URL(request.url).host;
+      if (signal.aborted && !ctx.signal.aborted) {
+        throw timeout(`${host} did not respond within ${timeoutMs}ms.`, { url: request.url });
+      }
+      throw serviceUnavailable(
+        `${host} request failed: ${err instanceof Error ? err.message : String(err)}`,
+        { url: request.url },
+        { cause: err },
+      );
+    }
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = res.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    const fixture: Fixture = {
+      request: {
+        method: request.method,
+        url: request.url,
+        ...(request.body ? { body: request.body } : {}),
+      },
+      response: { status: res.status, statusText: res.statusText, headers, body: await res.text() },
+    };
+    // A failed write loses the recording, not the request — the caller still gets its answer.
+    try {
+      await this.files.write(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    } catch (err) {
+      ctx.log.warning('Fixture write failed; response served unrecorded', {
+        fixture: path,
+        error: err instanceof Error ? err.message : err,
+      });
+    }
+    return fixture;
+  }
+}
+
+/**
+ * Flatten a request body to the string it is keyed and stored by. Multipart form
+ * bodies are serialized field by field: their wire form carries a random boundary
+ * and would never key the same way twice.
+ */
+async function serializeBody(body: RequestInit['body']): Promise<string> {
+  if (body === undefined || body === null) return '';
+  if (typeof body === 'string') return body;
+  if (body instanceof FormData) {
+    const fields: string[] = [];
+    for (const [name, value] of body.entries()) {
+      fields.push(`${name}=${typeof value === 'string' ? value : await value.text()}`);
+    }
+    return fields.join('\n');
+  }
+  return new Response(body).text();
+}
+
+function toResponse(fixture: Fixture): Response {
+  const { status, statusText, headers, body } = fixture.response;
+  return new Response(NULL_BODY_STATUSES.has(status) ? null : body, {
+    status,
+    statusText,
+    headers,
+  });
+}
+
+// ─── Init / accessor ──────────────────────────────────────────────────────────
+
+let _store: FixtureStore | undefined;
+
+/**
+ * Install the fixture store for the configured upstream mode, loading the Node
+ * filesystem module it needs. Mode `live` clears any installed store instead,
+ * leaving every fetch on the network.
+ */
+export async function initFixtureStore(serverConfig: ServerConfig): Promise<void> {
+  if (serverConfig.upstreamMode === 'live') {
+    _store = undefined;
+    return;
+  }
+  const { nodeFixtureFiles } = await import('./fixture-files.js');
+  _store = new FixtureStore(serverConfig.fixtureDir, serverConfig.upstreamMode, nodeFixtureFiles);
+}
+
+/** The installed fixture store, or `undefined` in live mode. */
+export function getFixtureStore(): FixtureStore | undefined {
+  return _store;
+}
@@ -2,13 +2,29 @@
  * @fileoverview Shared HTTP layer for the protein data providers. Wraps the
  * framework's `fetchWithTimeout` + `withRetry` (retry covers the full fetch +
  * parse pipeline) and centralizes HTML-error-page / empty-body detection so each
- * service stays thin.
+ * service stays thin. Callers opt a request into the persistent response cache
+ * (`services/shared/cache`) by naming a `cache` tier; the cache sits outside the
+ * retry loop, so a hit skips the network entirely and only successful bodies are
+ * ever stored. Under record/replay (`services/shared/fixtures`) every round trip
+ * goes through the fixture store instead of the network, and the response cache
+ * is bypassed so each request is recorded, or replayed, exactly as issued. Every
+ * attempt that reaches the network first takes a slot from the per-host rate
+ * limiter (`services/shared/rate-limit`), and a 429/503 `Retry-After` is reported
+ * back to it so the pause applies to every caller of that host. Each request,
+ * retries and all, runs through its provider's circuit
+ * (`services/shared/circuit-breaker`), so a provider that keeps failing is refused
+ * at once instead of costing every caller a full retry budget; cache hits never
+ * reach the breaker and keep serving through an outage.
  * @module services/shared/http
  */
 
 import type { Context } from '@cyanheads/mcp-ts-core';
-import { serializationError, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
-import { fetchWithTimeout, withRetry } from '@cyanheads/mcp-ts-core/utils';
+import { McpError, serializationError, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import { fetchWithTimeout, httpErrorFromResponse, withRetry } from '@cyanheads/mcp-ts-core/utils';
+import { type CacheTier, getResponseCache, recordCacheHit } from './cache.js';
+import { getCircuitBreaker } from './circuit-breaker.js';
+import { getFixtureStore } from './fixtures.js';
+import { getRateLimiter } from './rate-limit.js';
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 
@@ -31,6 +47,12 @@ export interface FetchOptions {
   baseDelayMs?: number;
   /** Request body (pre-serialized JSON string, FormData, etc.). */
   body?: RequestInit['body'];
+  /**
+   * Response-cache tier (sets the TTL). Omit to bypass the cache — the default for
+   * job submission and polling, whose answers are not reusable. Only requests
+   * with no body or a string body are cached; a `FormData` upload never is.
+   */
+  cache?: CacheTier;
   /**
    * Non-2xx statuses this caller treats as an outcome rather than a failure
    * (e.g. 404 → "no such record"). They still throw a status-mapped `McpError`
@@ -79,60 +101,168 @@ export function parseJson<T>(text: string, label: string): T {
  * status-mapped `McpError` on non-2xx. Pass `onEmptyBody` to resolve a 204 / empty
  * body to a value instead of the default transient-failure throw — used by the
  * RCSB search layer, where the API answers a zero-result query with `204 No
- * Content` rather than an empty hit list.
+ * Content` rather than an empty hit list. Pass `shouldCache` to keep a 2xx body
+ * that still signals failure (a GraphQL `errors` payload) out of the cache.
  */
 export function fetchJson<T>(
   url: string,
   ctx: Context,
-  opts: FetchOptions & { onEmptyBody?: () => T },
+  opts: FetchOptions & { onEmptyBody?: () => T; shouldCache?: (body: T) => boolean },
 ): Promise<T> {
-  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-  return withRetry(
-    async () => {
-      const res = await fetchWithTimeout(url, timeoutMs, ctx, {
-        method: opts.method ?? 'GET',
-        ...(opts.body !== undefined && { body: opts.body }),
+  return withResponseCache(url, ctx, opts, () => requestJson<T>(url, ctx, opts), opts.shouldCache);
+}
+
+/** Fetch raw text (coordinate files, etc.) with retry. Throws a status-mapped `McpError` on non-2xx. */
+export function fetchText(url: string, ctx: Context, opts: FetchOptions): Promise<string> {
+  return withResponseCache(url, ctx, opts, () => requestText(url, ctx, opts));
+}
+
+/**
+ * Serve `load` through the response cache when the caller named a tier and the
+ * cache is installed; otherwise call straight through. A miss stores the loaded
+ * body under the tier's TTL unless `shouldCache` vetoes it.
+ */
+async function withResponseCache<T>(
+  url: string,
+  ctx: Context,
+  opts: FetchOptions,
+  load: () => Promise<T>,
+  shouldCache?: (body: T) => boolean,
+): Promise<T> {
+  const cache = getResponseCache();
+  const tier = opts.cache;
+  if (
+    !cache ||
+    !tier ||
+    getFixtureStore() ||
+    (opts.body !== undefined && typeof opts.body !== 'string')
+  ) {
+    return load();
+  }
+  const key = await cache.keyFor(tier, opts.method ?? 'GET', url, opts.body);
+  const hit = await cache.get<T>(key, ctx);
+  if (hit !== undefined) {
+    recordCacheHit(ctx);
+    return hit;
+  }
+  const body = await load();
+  if (!shouldCache || shouldCache(body)) await cache.set(key, tier, body, ctx);
+  return body;
+}
+
+/**
+ * Run a request through the provider's circuit when the breaker is installed;
+ * otherwise call straight through.
+ */
+function guarded<T>(
+  provider: string,
+  ctx: Context,
+  call: () => Promise<T>,
+  isOutage?: (value: T) => boolean,
+): Promise<T> {
+  const breaker = getCircuitBreaker();
+  return breaker ? breaker.run(provider, ctx, call, isOutage) : call();
+}
+
+/**
+ * Wait for a rate-limit slot on the URL's host. Replayed requests never reach the
+ * network and go unpaced.
+ */
+async function pace(url: string, ctx: Context): Promise<void> {
+  if (getFixtureStore()?.mode === 'replay') return;
+  await getRateLimiter()?.acquire(url, ctx);
+}
+
+/**
+ * One paced round trip that throws a status-mapped `McpError` on non-2xx:
+ * `fetchWithTimeout` on the network, or the fixture store under record/replay
+ * with the same status mapping applied to its response.
+ */
+async function send(
+  url: string,
+  timeoutMs: number,
+  ctx: Context,
+  opts: FetchOptions,
+): Promise<Response> {
+  const init = {
+    method: opts.method ?? 'GET',
+    ...(opts.body !== undefined && { body: opts.body }),
+    headers: withDefaultHeaders(opts.headers),
+  };
+  await pace(url, ctx);
+  const fixtures = getFixtureStore();
+  if (!fixtures) {
+    try {
+      return await fetchWithTimeout(url, timeoutMs, ctx, {
+        ...init,
         ...(opts.expectedStatuses && { expectedStatuses: opts.expectedStatuses }),
-        headers: withDefaultHeaders(opts.headers),
         signal: ctx.signal,
       });
-      const text = await res.text();
-      if (opts.onEmptyBody && (res.status === 204 || text.trim().length === 0)) {
-        return opts.onEmptyBody();
+    } catch (err) {
+      if (err instanceof McpError && typeof err.data?.status === 'number') {
+        const retryAfter = err.data.retryAfter;
+        getRateLimiter()?.observe(
+          url,
+          err.data.status,
+          retryAfter == null ? null : String(retryAfter),
+        );
       }
-      return parseJson<T>(text, opts.label);
-    },
-    {
-      operation: opts.operation,
-      context: ctx,
-      baseDelayMs: opts.baseDelayMs ?? 400,
-      ...(opts.maxRetries !== undefined && { maxRetries: opts.maxRetries }),
-      signal: ctx.signal,
-    },
+      throw err;
+    }
+  }
+  const res = await fixtures.fetch(url, init, ctx, timeoutMs);
+  if (!res.ok) {
+    getRateLimiter()?.observe(url, res.status, res.headers.get('retry-after'));
+    throw await httpErrorFromResponse(res, { service: opts.label });
+  }
+  return res;
+}
+
+/** The uncached fetch + parse pipeline behind {@link fetchJson}. */
+function requestJson<T>(
+  url: string,
+  ctx: Context,
+  opts: FetchOptions & { onEmptyBody?: () => T },
+): Promise<T> {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  return guarded(opts.label, ctx, () =>
+    withRetry(
+      async () => {
+        const res = await send(url, timeoutMs, ctx, opts);
+        const text = await res.text();
+        if (opts.onEmptyBody && (res.status === 204 || text.trim().length === 0)) {
+          return opts.onEmptyBody();
+        }
+        return parseJson<T>(text, opts.label);
+      },
+      {
+        operation: opts.operation,
+        context: ctx,
+        baseDelayMs: opts.baseDelayMs ?? 400,
+        ...(opts.maxRetries !== undefined && { maxRetries: opts.maxRetries }),
+        signal: ctx.signal,
+      },
+    ),
   );
 }
 
-/** Fetch raw text (coordinate files, etc.) with retry. Throws a status-mapped `McpError` on non-2xx. */
-export function fetchText(url: string, ctx: Context, opts: FetchOptions): Promise<string> {
+/** The uncached fetch pipeline behind {@link fetchText}. */
+function requestText(url: string, ctx: Context, opts: FetchOptions): Promise<string> {
   const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-  return withRetry(
-    async () => {
-      const res = await fetchWithTimeout(url, timeoutMs, ctx, {
-        method: opts.method ?? 'GET',
-        ...(opts.body !== undefined && { body: opts.body }),
-        ...(opts.expectedStatuses && { expectedStatuses: opts.expectedStatuses }),
-        headers: withDefaultHeaders(opts.headers),
+  return guarded(opts.label, ctx, () =>
+    withRetry(
+      async () => {
+        const res = await send(url, timeoutMs, ctx, opts);
+        return res.text();
+      },
+      {
+        operation: opts.operation,
+        context: ctx,
+        baseDelayMs: opts.baseDelayMs ?? 400,
+        ...(opts.maxRetries !== undefined && { maxRetries: opts.maxRetries }),
         signal: ctx.signal,
-      });
-      return res.text();
-    },
-    {
-      operation: opts.operation,
-      context: ctx,
-      baseDelayMs: opts.baseDelayMs ?? 400,
-      ...(opts.maxRetries !== undefined && { maxRetries: opts.maxRetries }),
-      signal: ctx.signal,
-    },
+      },
+    ),
   );
 }
 
@@ -140,7 +270,11 @@ export function fetchText(url: string, ctx: Context, opts: FetchOptions): Promis
  * Fetch returning the raw `Response` without throwing on non-2xx status, so the
  * caller can branch on the code (e.g. 3D-Beacons 404 → "no models", an async poll
  * 404 → "not ready yet"). Retries only network-level failures; HTTP statuses pass
- * through. Combines `ctx.signal` with a per-attempt timeout.
+ * through. Combines `ctx.signal` with a per-attempt timeout. Under record/replay
+ * the fixture store answers instead. Paced like every other request; a 429/503
+ * `Retry-After` still pauses the host even though the status is the caller's to
+ * handle. A 5xx counts against the `label` provider's circuit all the same, and an
+ * open circuit throws rather than returning a response.
  */
 export function fetchResponse(
   url: string,
@@ -149,6 +283,7 @@ export function fetchResponse(
     method?: string;
     body?: RequestInit['body'];
     headers?: Record<string, string>;
+    label: string;
     operation: string;
     timeoutMs?: number;
     baseDelayMs?: number;
@@ -156,22 +291,36 @@ export function fetchResponse(
   },
 ): Promise<Response> {
   const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-  return withRetry(
-    () => {
-      const signal = AbortSignal.any([ctx.signal, AbortSignal.timeout(timeoutMs)]);
-      return fetch(url, {
-        method: opts.method ?? 'GET',
-        ...(opts.body !== undefined && { body: opts.body }),
-        headers: withDefaultHeaders(opts.headers),
-        signal,
-      });
-    },
-    {
-      operation: opts.operation,
-      context: ctx,
-      baseDelayMs: opts.baseDelayMs ?? 400,
-      maxRetries: opts.maxRetries ?? 2,
-      signal: ctx.signal,
-    },
+  return guarded(
+    opts.label,
+    ctx,
+    () =>
+      withRetry(
+        async () => {
+          const init = {
+            method: opts.method ?? 'GET',
+            ...(opts.body !== undefined && { body: opts.body }),
+            headers: withDefaultHeaders(opts.headers),
+          };
+          await pace(url, ctx);
+          const fixtures = getFixtureStore();
+          const res = fixtures
+            ? await fixtures.fetch(url, init, ctx, timeoutMs)
+            : await fetch(url, {
+                ...init,
+                signal: AbortSignal.any([ctx.signal, AbortSignal.timeout(timeoutMs)]),
+              });
+          getRateLimiter()?.observe(url, res.status, res.headers.get('retry-after'));
+          return res;
+        },
+        {
+          operation: opts.operation,
+          context: ctx,
+          baseDelayMs: opts.baseDelayMs ?? 400,
+          maxRetries: opts.maxRetries ?? 2,
+          signal: ctx.signal,
+        },
+      ),
+    (res) => res.status >= 500,
   );
 }
@@ -13,9 +13,15 @@ const UNIPROT_RE = new RegExp(`^${UNIPROT_BODY}$`, 'i');
 /** AlphaFold DB entry ID pattern: `AF-<accession>-F<fragment>` (e.g. AF-P69905-F1). */
 const AF_ENTRY_RE = new RegExp(`^AF-${UNIPROT_BODY}-F\\d+$`, 'i');
 
+/** RCSB computed-model ID pattern: `AF_` (AlphaFold DB) or `MA_` (ModelArchive) and the provider's ID (e.g. AF_AFP69905F1). */
+const COMPUTED_MODEL_RE = /^(?:AF|MA)_[A-Z0-9]+$/i;
+
 /** PDB entry ID pattern: 4 alphanumerics, first character a digit (e.g. 4HHB, 1IEP). */
 const PDB_RE = /^[0-9][A-Za-z0-9]{3}$/;
 
+/** Chemical component ID pattern: 1–5 alphanumerics (e.g. HEM, STI, A1LU6 — the CCD's 5-character IDs). */
+const CHEM_COMP_RE = /^[A-Za-z0-9]{1,5}$/;
+
 /** True when `value` is a syntactically valid UniProt accession. */
 export function isUniProtAccession(value: string): boolean {
   return UNIPROT_RE.test(value.trim());
@@ -31,11 +37,25 @@ export function isAlphaFoldEntryId(value: string): boolean {
   return AF_ENTRY_RE.test(value.trim());
 }
 
+/**
+ * True when `value` is an RCSB computed-structure-model ID (`AF_AFP69905F1`,
+ * `MA_MABAKCEPC0001`): a predicted model RCSB serves from its entry endpoints,
+ * ModelArchive's multimers among them.
+ */
+export function isComputedModelId(value: string): boolean {
+  return COMPUTED_MODEL_RE.test(value.trim());
+}
+
 /** True when `value` is a syntactically valid PDB entry ID. */
 export function isPdbId(value: string): boolean {
   return PDB_RE.test(value.trim());
 }
 
+/** True when `value` is a syntactically valid chemical component (CCD) ID. */
+export function isChemCompId(value: string): boolean {
+  return CHEM_COMP_RE.test(value.trim());
+}
+
 /** Extract the PDB entry ID from a polymer-entity ID (`4HHB_1` → `4HHB`). */
 export function entryIdOf(identifier: string): string {
   const base = identifier.split(/[_.]/)[0] ?? identifier;
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Per-host request-rate limiter shared by every in-flight tool
+ * call. `mapWithConcurrency` bounds how many requests one call has open; this
+ * bounds how fast the whole server talks to each upstream host, so several agents
+ * fanning out at once stay inside the providers' published guidance. One token
+ * bucket per host (capacity one second of rate), reserved FIFO: a caller that
+ * finds the bucket empty is handed the next free slot and sleeps until it. A
+ * `Retry-After` on a 429 or 503 pauses the host for everyone, not just the
+ * request that drew it. Waits are tallied per request and surfaced as a notice.
+ * `services/shared/http` acquires a slot before every network attempt; with
+ * limiting disabled none is installed and the layer is inert.
+ * @module services/shared/rate-limit
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import type { ServerConfig } from '@/config/server-config.js';
+import { sleep } from './async.js';
+
+/** Longest a `Retry-After` may pause a host — a bogus far-future value must not stall the server. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** Waits shorter than this are pacing, not throttling, and go unreported. */
+const NOTICE_THRESHOLD_MS = 250;
+
+/** Statuses whose `Retry-After` the limiter honors host-wide. */
+const BACKOFF_STATUSES = new Set([429, 503]);
+
+/** A token bucket for one host, refilled continuously at `ratePerSecond`. */
+class TokenBucket {
+  private readonly capacity: number;
+  private readonly perMs: number;
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil = 0;
+
+  constructor(ratePerSecond: number, now: number) {
+    this.capacity = Math.max(1, ratePerSecond);
+    this.perMs = ratePerSecond / 1000;
+    this.tokens = this.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take one token and return how long the caller must wait before using it.
+   * Tokens may go negative: each reservation queues behind the ones already
+   * handed out, so concurrent callers are spaced evenly in arrival order.
+   */
+  reserve(now: number): number {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMs);
+    this.updatedAt = now;
+    this.tokens -= 1;
+    const refillWait = this.tokens >= 0 ? 0 : -this.tokens / this.perMs;
+    return Math.max(refillWait, this.pausedUntil - now);
+  }
+
+  /** Hold every reservation until `until` (epoch ms); an earlier pause never shortens a later one. */
+  pause(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+}
+
+/** Token buckets keyed by host, created lazily at the host's configured rate. */
+export class RateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly defaultRps: number;
+  private readonly hostRps: ReadonlyMap<string, number>;
+
+  constructor(defaultRps: number, hostRps: Record<string, number>) {
+    this.defaultRps = defaultRps;
+    this.hostRps = new Map(Object.entries(hostRps).map(([h, rps]) => [h.toLowerCase(), rps]));
+  }
+
+  /** Requests per second allowed to a host — its configured rate, else the default. */
+  rateFor(host: string): number {
+    return this.hostRps.get(host.toLowerCase()) ?? this.defaultRps;
+  }
+
+  /**
+   * Wait for a request slot on the URL's host. Resolves early (without
+   * rejecting) if the request is cancelled — the fetch that follows observes the
+   * abort. A wait long enough to notice is tallied against the request.
+   */
+  async acquire(url: string, ctx: Context): Promise<void> {
+    const host = new URL(url).host.toLowerCase();
+    const waitMs = this.bucket(host).reserve(Date.now());
+    if (waitMs <= 0) return;
+    if (waitMs >= NOTICE_THRESHOLD_MS) {
+      ctx.log.debug('Throttling upstream request', { host, waitMs: Math.round(waitMs) });
+      recordThrottle(ctx, host, waitMs);
+    }
+    await sleep(waitMs, ctx.signal);
+  }
+
+  /**
+   * Pause the response's host for its `Retry-After` when the status is 429 or
+   * 503 and the header parses. Every later reservation on the host waits it out.
+   */
+  observe(url: string, status: number, retryAfter: string | null | undefined): void {
+    if (!BACKOFF_STATUSES.has(status) || !retryAfter) return;
+    const now = Date.now();
+    const ms = parseRetryAfterMs(retryAfter, now);
+    if (ms === undefined) return;
+    this.bucket(new URL(url).host.toLowerCase()).pause(now + Math.min(ms, MAX_RETRY_AFTER_MS));
+  }
+
+  private bucket(host: string): TokenBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.rateFor(host), Date.now());
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+}
+
+/** `Retry-After` as milliseconds from `now`: delta-seconds or an HTTP-date. */
+export function parseRetryAfterMs(value: string, now: number): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+// ─── Throttle reporting ───────────────────────────────────────────────────────
+
+/** Per-request throttling tally, keyed weakly so a finished request's record is collected with it. */
+const throttles = new WeakMap<Context, { hosts: Set<string>; waitMs: number }>();
+
+/**
+ * Add a wait to the request's tally and publish the running summary as the
+ * `notice`. Tools that compose their own advisories fold it back in through
+ * {@link throttleNotice}, since `notice` is last-wins.
+ */
+function recordThrottle(ctx: Context, host: string, waitMs: number): void {
+  const tally = throttles.get(ctx) ?? { hosts: new Set<string>(), waitMs: 0 };
+  tally.hosts.add(host);
+  tally.waitMs += waitMs;
+  throttles.set(ctx, tally);
+  ctx.enrich.notice(throttleNotice(ctx) as string);
+}
+
+/** The throttling advisory for a request, or `undefined` when it was never held back. */
+export function throttleNotice(ctx: Context): string | undefined {
+  const tally = throttles.get(ctx);
+  if (!tally) return;
+  const seconds = (tally.waitMs / 1000).toFixed(1);
+  return `Upstream rate limits delayed this call by ${seconds}s (${[...tally.hosts].join(', ')}).`;
+}
+
+// ─── Init / accessor ──────────────────────────────────────────────────────────
+
+let _limiter: RateLimiter | undefined;
+
+/**
+ * Install the rate limiter from config. With `rateLimitEnabled` false this clears
+ * any installed limiter instead, leaving every request unpaced.
+ */
+export function initRateLimiter(serverConfig: ServerConfig): void {
+  _limiter = serverConfig.rateLimitEnabled
+    ? new RateLimiter(serverConfig.rateLimitDefaultRps, serverConfig.rateLimits)
+    : undefined;
+}
+
+/** The installed rate limiter, or `undefined` when limiting is disabled or was never initialized. */
+export function getRateLimiter(): RateLimiter | undefined {
+  return _limiter;
+}
@@ -0,0 +1,249 @@
+/**
+ * @fileoverview SIFTS service — residue-level UniProt ↔ PDB mapping from the
+ * PDBe API (`/mappings/uniprot/{pdb_id}`). Each chain's mapping is a list of
+ * gap-free segments carrying all three numberings at their ends: the UniProt
+ * position, the `label_seq_id` (PDBe `residue_number`), and the author residue
+ * number plus insertion code — null upstream where the end residue is not
+ * modeled. UniProt ↔ label is linear inside a segment; UniProt ↔ author is only
+ * linear when the ends agree and carry no insertion code, so a segment exposes
+ * an `authOffset` only then and callers needing every author label read it from
+ * the coordinates. Unknown entries and entries with no UniProt mapping answer
+ * 404 upstream — normalized to an empty mapping, not an error. Also builds
+ * PDBe's coordinate-file URLs, the stand-in when RCSB's file server is down.
+ * @module services/sifts/sifts-service
+ */
+
+import type { Context } from '@cyanheads/mcp-ts-core';
+import type { AppConfig } from '@cyanheads/mcp-ts-core/config';
+import { JsonRpcErrorCode, McpError } from '@cyanheads/mcp-ts-core/errors';
+import type { StorageService } from '@cyanheads/mcp-ts-core/storage';
+import type { ServerConfig } from '@/config/server-config.js';
+import { fetchJson } from '../shared/http.js';
+
+/** One residue at a segment boundary, in the structure's two numberings. */
+export interface MappedResidue {
+  /** Author residue number; absent when the residue is not modeled. */
+  authSeqId?: number;
+  /** Author insertion code, when the residue carries one. */
+  insCode?: string;
+  /** Position in the entity sequence (mmCIF label_seq_id). */
+  labelSeqId: number;
+}
+
+/** A gap-free run of a chain aligned to its UniProt reference. */
+export interface MappingSegment {
+  /**
+   * Author residue number minus UniProt position, when author numbering runs
+   * linearly through the segment (ends agree, no insertion codes). Absent
+   * otherwise — read author labels from the coordinates.
+   */
+  authOffset?: number;
+  /** Last residue of the segment. */
+  end: MappedResidue;
+  /** label_seq_id minus UniProt position — constant through the segment. */
+  labelOffset: number;
+  /** First residue of the segment. */
+  start: MappedResidue;
+  /** UniProt position of `end`. */
+  uniprotEnd: number;
+  /** UniProt position of `start`. */
+  uniprotStart: number;
+}
+
+/** One chain's residue mapping to one UniProt accession. */
+export interface ChainMapping {
+  /** UniProt accession. */
+  accession: string;
+  /** Label chain ID (mmCIF label_asym_id). */
+  asymId: string;
+  /** Author chain ID (auth_asym_id). */
+  chain: string;
+  /** Polymer entity ID (e.g. "1"). */
+  entityId: string;
+  /** UniProt entry name (e.g. "ABL1_HUMAN"), when given. */
+  name?: string;
+  /** Segments in UniProt order. */
+  segments: MappingSegment[];
+}
+
+/** Every UniProt mapping of one PDB entry. */
+export interface EntryMapping {
+  /** Chain mappings sorted by author chain, then accession. Chimeric chains map to several accessions. */
+  chains: ChainMapping[];
+  /** Upper-cased PDB ID. */
+  pdbId: string;
+}
+
+interface RawResidue {
+  author_insertion_code?: string | null;
+  author_residue_number?: number | null;
+  residue_number?: number | null;
+}
+
+interface RawMapping {
+  chain_id?: string;
+  end?: RawResidue;
+  entity_id?: number | string;
+  start?: RawResidue;
+  struct_asym_id?: string;
+  unp_end?: number;
+  unp_start?: number;
+}
+
+type RawMappingResponse = Record<
+  string,
+  { UniProt?: Record<string, { identifier?: string; mappings?: RawMapping[] }> }
+>;
+
+export class SiftsService {
+  private readonly baseUrl: string;
+  private readonly filesBase: string;
+
+  constructor(_config: AppConfig, _storage: StorageService, serverConfig: ServerConfig) {
+    this.baseUrl = serverConfig.siftsBaseUrl;
+    this.filesBase = serverConfig.pdbeFilesBaseUrl;
+  }
+
+  /** Fetch the residue-level UniProt mapping of every chain in a PDB entry. */
+  async getEntryMapping(pdbId: string, ctx: Context): Promise<EntryMapping> {
+    const id = pdbId.toUpperCase();
+    const url = `${this.baseUrl}/mappings/uniprot/${encodeURIComponent(id.toLowerCase())}`;
+    let raw: RawMappingResponse;
+    try {
+      raw = await fetchJson<RawMappingResponse>(url, ctx, {
+        operation: 'SiftsService.getEntryMapping',
+        label: 'PDBe SIFTS',
+        baseDelayMs: 400,
+        expectedStatuses: [404],
+        cache: 'entry',
+      });
+    } catch (err) {
+      if (err instanceof McpError && err.code === JsonRpcErrorCode.NotFound) {
+        return { pdbId: id, chains: [] };
+      }
+      throw err;
+    }
+    return normalizeEntryMapping(id, raw);
+  }
+
+  /** PDBe's download URL for an entry's coordinate file — `4hhb.cif`, or the legacy `pdb4hhb.ent`. */
+  coordinateFileUrl(pdbId: string, format: 'cif' | 'pdb'): string {
+    const id = pdbId.toLowerCase();
+    return format === 'cif' ? `${this.filesBase}/${id}.cif` : `${this.filesBase}/pdb${id}.ent`;
+  }
+}
+
+/** Normalize a PDBe `/mappings/uniprot` payload into sorted per-chain mappings. */
+function normalizeEntryMapping(pdbId: string, raw: RawMappingResponse): EntryMapping {
+  const entry = raw[pdbId.toLowerCase()] ?? Object.values(raw)[0];
+  const byKey = new Map<string, ChainMapping>();
+  for (const [accession, ref] of Object.entries(entry?.UniProt ?? {})) {
+    for (const m of ref.mappings ?? []) {
+      const segment = normalizeSegment(m);
+      if (!segment || !m.chain_id) continue;
+      const key = `${m.chain_id}\u0000${accession.toUpperCase()}`;
+      let chain = byKey.get(key);
+      if (!chain) {
+        chain = {
+          accession: accession.toUpperCase(),
+          chain: m.chain_id,
+          asymId: m.struct_asym_id ?? m.chain_id,
+          entityId: m.entity_id === undefined ? '' : String(m.entity_id),
+          ...(ref.identifier ? { name: ref.identifier } : {}),
+          segments: [],
+        };
+        byKey.set(key, chain);
+      }
+      chain.segments.push(segment);
+    }
+  }
+  const chains = [...byKey.values()].sort(
+    (a, b) => a.chain.localeCompare(b.chain) || a.accession.localeCompare(b.accession),
+  );
+  for (const c of chains) c.segments.sort((a, b) => a.uniprotStart - b.uniprotStart);
+  return { pdbId: pdbId.toUpperCase(), chains };
+}
+
+function normalizeSegment(raw: RawMapping): MappingSegment | undefined {
+  const start = normalizeResidue(raw.start);
+  const end = normalizeResidue(raw.end);
+  if (!start || !end || typeof raw.unp_start !== 'number' || typeof raw.unp_end !== 'number') {
+    return;
+  }
+  // Segments are gap-free by construction; one whose spans disagree is malformed, not mappable.
+  const span = raw.unp_end - raw.unp_start;
+  if (span < 0 || span !== end.labelSeqId - start.labelSeqId) return;
+  const labelOffset = start.labelSeqId - raw.unp_start;
+  const authOffset =
+    start.authSeqId !== undefined &&
+    end.authSeqId !== undefined &&
+    !start.insCode &&
+    !end.insCode &&
+    end.authSeqId - start.authSeqId === end.labelSeqId - start.labelSeqId
+      ? start.authSeqId - raw.unp_start
+      : undefined;
+  return {
+    uniprotStart: raw.unp_start,
+    uniprotEnd: raw.unp_end,
+    labelOffset,
+    ...(authOffset !== undefined ? { authOffset } : {}),
+    start,
+    end,
+  };
+}
+
+function normalizeResidue(raw: RawResidue | undefined): MappedResidue | undefined {
+  if (typeof raw?.residue_number !== 'number') return;
+  const insCode = raw.author_insertion_code?.trim();
+  return {
+    labelSeqId: raw.residue_number,
+    ...(typeof raw.author_residue_number === 'number'
+      ? { authSeqId: raw.author_residue_number }
+      : {}),
+    ...(insCode ? { insCode } : {}),
+  };
+}
+
+/** label_seq_id of a UniProt position in a chain, or `undefined` when no segment covers it. */
+export function uniprotToLabel(mapping: ChainMapping, position: number): number | undefined {
+  const segment = mapping.segments.find(
+    (s) => position >= s.uniprotStart && position <= s.uniprotEnd,
+  );
+  return segment ? position + segment.labelOffset : undefined;
+}
+
+/** UniProt position of a label_seq_id in a chain, or `undefined` when it is outside every segment. */
+export function labelToUniprot(mapping: ChainMapping, labelSeqId: number): number | undefined {
+  const segment = mapping.segments.find(
+    (s) => labelSeqId >= s.start.labelSeqId && labelSeqId <= s.end.labelSeqId,
+  );
+  return segment ? labelSeqId - segment.labelOffset : undefined;
+}
+
+/**
+ * Author residue number of a UniProt position when its segment is linear in
+ * author numbering; `undefined` when the position is unmapped or the segment
+ * needs the coordinates (insertion codes, renumbering inside the segment).
+ */
+export function uniprotToAuth(mapping: ChainMapping, position: number): number | undefined {
+  const segment = mapping.segments.find(
+    (s) => position >= s.uniprotStart && position <= s.uniprotEnd,
+  );
+  return segment?.authOffset !== undefined ? position + segment.authOffset : undefined;
+}
+
+let _service: SiftsService | undefined;
+
+export function initSiftsService(
+  config: AppConfig,
+  storage: StorageService,
+  serverConfig: ServerConfig,
+): void {
+  _service = new SiftsService(config, storage, serverConfig);
+}
+
+export function getSiftsService(): SiftsService {
+  if (!_service)
+    throw new Error('SiftsService not initialized — call initSiftsService() in setup()');
+  return _service;
+}
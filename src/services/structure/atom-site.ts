@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Dialect-neutral atom-site records and the grouping pass that
+ * folds a flat record stream into the models → chains → residues → atoms
+ * hierarchy. Both the mmCIF and the PDB reader emit {@link AtomSiteRecord}s, so
+ * residue identity, chain ordering, and HETATM propagation are decided once.
+ * @module services/structure/atom-site
+ */
+
+import type { Atom, Chain, CoordinateFormat, Model, Residue, Structure } from './types.js';
+
+/** One flattened atom line, as either reader produces it. */
+export interface AtomSiteRecord {
+  /** The atom itself. */
+  atom: Atom;
+  /** Author chain ID — the chain grouping key. */
+  authAsymId: string;
+  /** Author residue number. */
+  authSeqId: number;
+  /** Chemical component ID. */
+  compId: string;
+  /** mmCIF entity ID (mmCIF only). */
+  entityId?: string;
+  /** Insertion code, when non-blank. */
+  insCode?: string;
+  /** mmCIF label asym ID (mmCIF only). */
+  labelAsymId?: string;
+  /** mmCIF label sequence index (mmCIF polymers only). */
+  labelSeqId?: number;
+  /** Model number the atom belongs to. */
+  modelNumber: number;
+}
+
+/**
+ * Group records into the structure hierarchy, preserving file order at every
+ * level. A residue is keyed by label asym, author number, insertion code, and
+ * component, so microheterogeneity (two components at one position) and a
+ * ligand sharing a number with a polymer residue stay distinct. A residue is
+ * `hetero` when any of its atoms is.
+ */
+export function assembleStructure(
+  format: CoordinateFormat,
+  id: string | undefined,
+  records: Iterable<AtomSiteRecord>,
+): Structure {
+  const models = new Map<number, { model: Model; chains: Map<string, ChainIndex> }>();
+  for (const r of records) {
+    let m = models.get(r.modelNumber);
+    if (!m) {
+      m = { model: { modelNumber: r.modelNumber, chains: [] }, chains: new Map() };
+      models.set(r.modelNumber, m);
+    }
+    let c = m.chains.get(r.authAsymId);
+    if (!c) {
+      c = { chain: { id: r.authAsymId, residues: [] }, residues: new Map() };
+      m.chains.set(r.authAsymId, c);
+      m.model.chains.push(c.chain);
+    }
+    const key = `${r.labelAsymId ?? ''}|${r.authSeqId}|${r.insCode ?? ''}|${r.compId}`;
+    let residue = c.residues.get(key);
+    if (!residue) {
+      residue = {
+        compId: r.compId,
+        authSeqId: r.authSeqId,
+        ...(r.insCode ? { insCode: r.insCode } : {}),
+        ...(r.labelAsymId ? { labelAsymId: r.labelAsymId } : {}),
+        ...(r.labelSeqId !== undefined ? { labelSeqId: r.labelSeqId } : {}),
+        ...(r.entityId ? { entityId: r.entityId } : {}),
+        hetero: false,
+        atoms: [],
+      } satisfies Residue;
+      c.residues.set(key, residue);
+      c.chain.residues.push(residue);
+    }
+    residue.atoms.push(r.atom);
+    if (r.atom.hetero) residue.hetero = true;
+  }
+  return {
+    format,
+    ...(id ? { id } : {}),
+    models: [...models.values()].map((m) => m.model),
+  };
+}
+
+interface ChainIndex {
+  chain: Chain;
+  residues: Map<string, Residue>;
+}
+
+/**
+ * Infer an element symbol from a PDB-style atom name when the element column is
+ * blank. PDB aligns one-letter elements to column 14 (name starts with a space
+ * or a digit, e.g. ` CA ` = carbon alpha, `1HG1`) and two-letter elements to
+ * column 13 (`FE  `, `CA  ` = calcium), so the padding decides.
+ */
+export function elementFromAtomName(rawName: string): string {
+  const padded = rawName.padEnd(4);
+  const letters = (s: string) => s.replace(/[^A-Za-z]/g, '');
+  if (padded[0] === ' ' || /\d/.test(padded[0] ?? '')) {
+    return letters(padded.slice(1, 2)).toUpperCase() || letters(padded).slice(0, 1).toUpperCase();
+  }
+  return letters(padded).slice(0, 2).toUpperCase();
+}
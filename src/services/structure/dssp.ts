@@ -0,0 +1,398 @@
+/**
+ * @fileoverview DSSP-style secondary structure assignment (Kabsch & Sander 1983)
+ * from backbone geometry alone. Amide hydrogens are placed along the bisector
+ * DSSP uses (N + unit(C₍ᵢ₋₁₎ − O₍ᵢ₋₁₎)), backbone hydrogen bonds are scored with
+ * the electrostatic energy E = 0.084 · 332 · (1/r_ON + 1/r_CH − 1/r_OH − 1/r_CN)
+ * kcal/mol and accepted below −0.5, and the classic eight-state alphabet follows
+ * from the bond patterns: n-turns → helices (H, G, I) and turns (T), bridge pairs
+ * → ladders (E) and isolated bridges (B), and CA-trace curvature → bends (S).
+ * Coil is written `-`. H takes precedence, then bridges — a residue on a ladder
+ * is E, and only an isolated bridge is B — then G > I > T > S. The polyproline
+ * (P) state of DSSP 4 is not assigned. Pure and deterministic.
+ * @module services/structure/dssp
+ */
+
+import { oneLetterCode } from './residues.js';
+import type { Atom, Chain, Model, Residue } from './types.js';
+
+/** One DSSP state; `-` is coil. */
+export type SecondaryStructureCode = 'H' | 'B' | 'E' | 'G' | 'I' | 'T' | 'S' | '-';
+
+/** A contiguous helix or strand, in author residue numbering. */
+export interface SecondaryStructureSegment {
+  /** Author residue number of the last residue. */
+  end: number;
+  /** Residues in the segment. */
+  length: number;
+  /** Author residue number of the first residue. */
+  start: number;
+  /** `H` α-helix, `G` 3₁₀-helix, `I` π-helix, `E` strand. */
+  type: 'H' | 'G' | 'I' | 'E';
+}
+
+/** Assignment for one chain's amino-acid residues. */
+export interface ChainSecondaryStructure {
+  /** Author chain ID. */
+  chain: string;
+  /** Helix segments (H, G, I) in sequence order. */
+  helices: SecondaryStructureSegment[];
+  /** The assigned residues, aligned with `sequence` and `ss`. */
+  residues: Residue[];
+  /** One-letter sequence of the assigned residues (`X` for unknown components). */
+  sequence: string;
+  /** One DSSP code per residue, aligned with `sequence`. */
+  ss: string;
+  /** Strand segments (E) in sequence order. */
+  strands: SecondaryStructureSegment[];
+}
+
+/** DSSP's hydrogen-bond acceptance threshold (kcal/mol). */
+const HBOND_MAX_ENERGY = -0.5;
+/** Energy floor DSSP clamps to when atoms clash. */
+const HBOND_MIN_ENERGY = -9.9;
+/** Peptide C–N distance beyond which the chain is considered broken (Å). */
+const MAX_PEPTIDE_BOND = 2.5;
+/** CA pairs further apart than this cannot hydrogen-bond — the grid cell of the acceptor search (Å). */
+const MAX_CA_DISTANCE = 9;
+/** CA-trace bend angle above which a residue is a bend (degrees). */
+const BEND_ANGLE = 70;
+
+type Vec = [number, number, number];
+
+/** Backbone of one residue, plus the derived amide hydrogen. */
+interface Backbone {
+  c: Vec;
+  ca: Vec;
+  /** Amide hydrogen; absent for proline, the first residue, and after a chain break. */
+  h?: Vec;
+  n: Vec;
+  o: Vec;
+  residue: Residue;
+  /** Index of the chain segment (split at breaks) the residue belongs to. */
+  segment: number;
+}
+
+/**
+ * Assign secondary structure to every chain of a model that carries amino-acid
+ * backbones. The whole model is assigned at once, so a sheet whose strands lie
+ * in different chains is still found. Residues missing any of N, CA, C, O are
+ * skipped (and break the chain, as in DSSP). Chains with no assignable residue
+ * are omitted.
+ */
+export function assignSecondaryStructure(model: Model): ChainSecondaryStructure[] {
+  const backbone: Backbone[] = [];
+  const spans: Array<{ chain: string; from: number; to: number }> = [];
+  for (const chain of model.chains) {
+    const from = backbone.length;
+    extractBackbone(chain, backbone);
+    if (backbone.length > from) spans.push({ chain: chain.id, from, to: backbone.length });
+  }
+  const codes = assign(backbone);
+  return spans.map(({ chain, from, to }) => {
+    const bb = backbone.slice(from, to);
+    const chainCodes = codes.slice(from, to);
+    return {
+      chain,
+      residues: bb.map((b) => b.residue),
+      sequence: bb.map((b) => oneLetterCode(b.residue.compId) ?? 'X').join(''),
+      ss: chainCodes.join(''),
+      helices: segmentsOf(bb, chainCodes, ['H', 'G', 'I']),
+      strands: segmentsOf(bb, chainCodes, ['E']),
+    };
+  });
+}
+
+// ─── Backbone ─────────────────────────────────────────────────────────────────
+
+/** Append a chain's backbones to `out`, opening a new segment at the chain start and at every break. */
+function extractBackbone(chain: Chain, out: Backbone[]): void {
+  const first = out.length;
+  let segment = (out[out.length - 1]?.segment ?? -1) + 1;
+  for (const residue of chain.residues) {
+    // First conformer only: atoms arrive in file order, so `find` takes altloc A.
+    const at = (name: string): Atom | undefined => residue.atoms.find((a) => a.name === name);
+    const n = at('N');
+    const ca = at('CA');
+    const c = at('C');
+    const o = at('O');
+    const aminoAcid = oneLetterCode(residue.compId) !== undefined || !residue.hetero;
+    if (!n || !ca || !c || !o || !aminoAcid) {
+      if (out.length > first) segment++;
+      continue;
+    }
+    const bb: Backbone = { n: vec(n), ca: vec(ca), c: vec(c), o: vec(o), residue, segment };
+    const prev = out.length > first ? out[out.length - 1] : undefined;
+    if (prev && prev.segment === segment && distance(prev.c, bb.n) > MAX_PEPTIDE_BOND) {
+      bb.segment = ++segment;
+    }
+    if (prev && prev.segment === bb.segment && residue.compId !== 'PRO') {
+      const co = sub(prev.c, prev.o);
+      const len = Math.hypot(...co);
+      bb.h = add(bb.n, scale(co, 1 / len));
+    }
+    out.push(bb);
+  }
+}
+
+// ─── Hydrogen bonds ───────────────────────────────────────────────────────────
+
+/** Electrostatic H-bond energy for C=O of `acceptor` → N-H of `donor` (kcal/mol). */
+function hbondEnergy(acceptor: Backbone, donor: Backbone): number {
+  if (!donor.h) return 0;
+  const rON = distance(acceptor.o, donor.n);
+  const rCH = distance(acceptor.c, donor.h);
+  const rOH = distance(acceptor.o, donor.h);
+  const rCN = distance(acceptor.c, donor.n);
+  if (rON < 0.5 || rCH < 0.5 || rOH < 0.5 || rCN < 0.5) return HBOND_MIN_ENERGY;
+  const e = 0.084 * 332 * (1 / rON + 1 / rCH - 1 / rOH - 1 / rCN);
+  return Math.max(e, HBOND_MIN_ENERGY);
+}
+
+/**
+ * Accepted H-bonds as a lookup: `bonded(i, j)` is true when C=O of residue i
+ * bonds N-H of residue j. Like DSSP, each donor keeps only its two strongest
+ * acceptors. Residues are bucketed by CA on a {@link MAX_CA_DISTANCE} grid, so
+ * each donor scores only the acceptors in its 27 neighbouring cells.
+ */
+function hbondTable(bb: Backbone[]): (i: number, j: number) => boolean {
+  const n = bb.length;
+  const cell = (v: number) => Math.floor(v / MAX_CA_DISTANCE);
+  const grid = new Map<string, number[]>();
+  for (let i = 0; i < n; i++) {
+    const [x, y, z] = (bb[i] as Backbone).ca;
+    const key = `${cell(x)},${cell(y)},${cell(z)}`;
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  }
+  const acceptorsOf: Array<Set<number>> = [];
+  for (let j = 0; j < n; j++) {
+    const donor = bb[j] as Backbone;
+    const found: Array<[number, number]> = [];
+    if (donor.h) {
+      const cx = cell(donor.ca[0]);
+      const cy = cell(donor.ca[1]);
+      const cz = cell(donor.ca[2]);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            for (const i of grid.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+              const acceptor = bb[i] as Backbone;
+              // C=O of a residue never bonds its own N-H or the next residue's.
+              if ((i === j || i === j - 1) && acceptor.segment === donor.segment) continue;
+              if (distance(acceptor.ca, donor.ca) > MAX_CA_DISTANCE) continue;
+              const e = hbondEnergy(acceptor, donor);
+              if (e < HBOND_MAX_ENERGY) found.push([i, e]);
+            }
+          }
+        }
+      }
+    }
+    // Ties go to the earlier residue, whatever order the cells were visited in.
+    found.sort((x, y) => x[1] - y[1] || x[0] - y[0]);
+    acceptorsOf.push(new Set(found.slice(0, 2).map(([i]) => i)));
+  }
+  return (i, j) => i >= 0 && i < n && (acceptorsOf[j]?.has(i) ?? false);
+}
+
+// ─── Assignment ───────────────────────────────────────────────────────────────
+
+interface Bridge {
+  i: number;
+  j: number;
+  parallel: boolean;
+}
+
+function assign(bb: Backbone[]): SecondaryStructureCode[] {
+  const n = bb.length;
+  const codes: SecondaryStructureCode[] = new Array(n).fill('-');
+  const hbond = hbondTable(bb);
+  const linked = (i: number, j: number) =>
+    i >= 0 && j < n && (bb[i] as Backbone).segment === (bb[j] as Backbone).segment;
+
+  // n-turns: Hbond(i, i+n) within one unbroken segment.
+  const turn = (k: number, i: number) => linked(i, i + k) && hbond(i, i + k);
+
+  // Minimal helices: consecutive n-turns at i-1 and i make residues i..i+n-1 helical.
+  const helixStart = (k: number, i: number) => turn(k, i - 1) && turn(k, i);
+  for (let i = 1; i + 4 <= n; i++) {
+    if (helixStart(4, i)) for (let r = i; r < i + 4; r++) codes[r] = 'H';
+  }
+
+  // Bridges and ladders (E), isolated bridges (B).
+  const bridges = findBridges(bb, hbond, linked);
+  for (const { residues, isolated } of ladders(bridges)) {
+    for (const r of residues) {
+      if (codes[r] === 'H') continue;
+      if (isolated) {
+        if (codes[r] !== 'E') codes[r] = 'B';
+      } else codes[r] = 'E';
+    }
+  }
+
+  // 3₁₀ and π helices only where every residue of the minimal helix is still free.
+  for (const [k, code] of [
+    [3, 'G'],
+    [5, 'I'],
+  ] as const) {
+    for (let i = 1; i + k <= n; i++) {
+      if (!helixStart(k, i)) continue;
+      let free = true;
+      for (let r = i; r < i + k; r++) {
+        const c = codes[r];
+        if (c !== '-' && c !== code) free = false;
+      }
+      if (free) for (let r = i; r < i + k; r++) codes[r] = code;
+    }
+  }
+
+  // Turns: residues inside any n-turn not otherwise assigned.
+  for (const k of [3, 4, 5]) {
+    for (let i = 0; i + k < n; i++) {
+      if (!turn(k, i)) continue;
+      for (let r = i + 1; r < i + k; r++) if (codes[r] === '-') codes[r] = 'T';
+    }
+  }
+
+  // Bends from the CA trace.
+  for (let i = 2; i + 2 < n; i++) {
+    if (codes[i] !== '-' || !linked(i - 2, i + 2)) continue;
+    const a = bb[i - 2] as Backbone;
+    const b = bb[i] as Backbone;
+    const c = bb[i + 2] as Backbone;
+    if (angle(sub(b.ca, a.ca), sub(c.ca, b.ca)) > BEND_ANGLE) codes[i] = 'S';
+  }
+  return codes;
+}
+
+/** Every β-bridge between residues at least three apart (DSSP's pattern definitions). */
+function findBridges(
+  bb: Backbone[],
+  hbond: (i: number, j: number) => boolean,
+  linked: (i: number, j: number) => boolean,
+): Bridge[] {
+  const n = bb.length;
+  const bridges: Bridge[] = [];
+  for (let i = 1; i + 1 < n; i++) {
+    if (!linked(i - 1, i + 1)) continue;
+    for (let j = i + 3; j + 1 < n; j++) {
+      if (!linked(j - 1, j + 1)) continue;
+      const parallel = (hbond(i - 1, j) && hbond(j, i + 1)) || (hbond(j - 1, i) && hbond(i, j + 1));
+      const antiparallel =
+        (hbond(i, j) && hbond(j, i)) || (hbond(i - 1, j + 1) && hbond(j - 1, i + 1));
+      if (parallel) bridges.push({ i, j, parallel: true });
+      else if (antiparallel) bridges.push({ i, j, parallel: false });
+    }
+  }
+  return bridges;
+}
+
+/**
+ * Group bridges into ladders — runs of consecutive bridges of one type — then
+ * join ladders separated by a β-bulge (a gap of at most 1 residue on one strand
+ * and 4 on the other). A ladder of one bridge that joins nothing is isolated (B).
+ */
+function ladders(bridges: Bridge[]): Array<{ residues: number[]; isolated: boolean }> {
+  interface Ladder {
+    /** Residues filled in by bulge joins, beyond the bridge partners themselves. */
+    fill: number[];
+    pairs: Array<[number, number]>;
+    parallel: boolean;
+  }
+  const list: Ladder[] = [];
+  for (const b of bridges) {
+    const step = b.parallel ? 1 : -1;
+    const host = list.find((l) => {
+      const last = l.pairs[l.pairs.length - 1] as [number, number];
+      return l.parallel === b.parallel && last[0] === b.i - 1 && last[1] === b.j - step;
+    });
+    if (host) host.pairs.push([b.i, b.j]);
+    else list.push({ parallel: b.parallel, pairs: [[b.i, b.j]], fill: [] });
+  }
+
+  // Bulge joins: ladder q continues ladder p after a short gap on both strands.
+  const merged = new Set<Ladder>();
+  for (const p of list) {
+    if (merged.has(p)) continue;
+    for (const q of list) {
+      if (q === p || merged.has(q) || q.parallel !== p.parallel) continue;
+      const [pi, pj] = p.pairs[p.pairs.length - 1] as [number, number];
+      const [qi, qj] = q.pairs[0] as [number, number];
+      const gapI = qi - pi - 1;
+      const gapJ = p.parallel ? qj - pj - 1 : pj - qj - 1;
+      if (gapI < 0 || gapJ < 0) continue;
+      if (!((gapI <= 1 && gapJ <= 4) || (gapI <= 4 && gapJ <= 1))) continue;
+      for (let r = pi + 1; r < qi; r++) p.fill.push(r);
+      const [lo, hi] = pj < qj ? [pj, qj] : [qj, pj];
+      for (let r = lo + 1; r < hi; r++) p.fill.push(r);
+      p.pairs.push(...q.pairs);
+      p.fill.push(...q.fill);
+      merged.add(q);
+    }
+  }
+
+  return list
+    .filter((l) => !merged.has(l))
+    .map((l) => ({
+      residues: [...l.pairs.flat(), ...l.fill],
+      isolated: l.pairs.length === 1 && l.fill.length === 0,
+    }));
+}
+
+/** Maximal runs of residues whose code is in `types`, split where the code changes. */
+function segmentsOf(
+  bb: Backbone[],
+  codes: SecondaryStructureCode[],
+  types: Array<SecondaryStructureSegment['type']>,
+): SecondaryStructureSegment[] {
+  const out: SecondaryStructureSegment[] = [];
+  let open: { type: SecondaryStructureSegment['type']; from: number } | undefined;
+  const close = (to: number) => {
+    if (!open) return;
+    out.push({
+      type: open.type,
+      start: (bb[open.from] as Backbone).residue.authSeqId,
+      end: (bb[to] as Backbone).residue.authSeqId,
+      length: to - open.from + 1,
+    });
+    open = undefined;
+  };
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i] as SecondaryStructureCode;
+    const inType = (types as string[]).includes(code);
+    const sameSegment = i > 0 && (bb[i] as Backbone).segment === (bb[i - 1] as Backbone).segment;
+    if (open && (!inType || code !== open.type || !sameSegment)) close(i - 1);
+    if (inType && !open) open = { type: code as SecondaryStructureSegment['type'], from: i };
+  }
+  close(codes.length - 1);
+  return out;
+}
+
+// ─── Vector helpers ───────────────────────────────────────────────────────────
+
+function vec(a: Atom): Vec {
+  return [a.x, a.y, a.z];
+}
+
+function add(a: Vec, b: Vec): Vec {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function sub(a: Vec, b: Vec): Vec {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function scale(a: Vec, k: number): Vec {
+  return [a[0] * k, a[1] * k, a[2] * k];
+}
+
+function distance(a: Vec, b: Vec): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/** Angle between two vectors in degrees. */
+function angle(a: Vec, b: Vec): number {
+  const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const cos = dot / (Math.hypot(...a) * Math.hypot(...b));
+  return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+}
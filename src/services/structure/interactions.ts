@@ -0,0 +1,648 @@
+/**
+ * @fileoverview Protein–ligand interaction typing from coordinates, in the spirit
+ * of PLIP (Salentin et al. 2015): every contact between one ligand instance and
+ * the protein residues around it is classified geometrically as a hydrogen bond,
+ * salt bridge, π-stacking (parallel or T-shaped), cation–π, halogen bond,
+ * hydrophobic contact, or metal coordination, with the atoms on each side.
+ * Deposited models rarely carry hydrogens, so the analysis runs on heavy atoms
+ * (first conformer only): protein donors, acceptors, charged groups, and rings
+ * come from residue chemistry; the ligand's from its heavy-atom connectivity,
+ * inferred from covalent radii — terminal oxygens on one carbon, phosphorus, or
+ * sulfur make an anion; a quaternary nitrogen, an amidine/guanidine, or an
+ * sp3-length primary amine a cation; a planar five- or six-membered ring an
+ * aromatic ring. Hydrogen bonds take a donor–acceptor distance and a heavy-atom
+ * angle check in place of PLIP's placed hydrogens; where both atoms could donate
+ * the direction is left open. Thresholds otherwise follow PLIP's defaults.
+ * Hydrophobic contacts are reduced to the closest carbon pair per residue.
+ * Pure and deterministic.
+ * @module services/structure/interactions
+ */
+
+import { isPolymerResidue } from './selection.js';
+import type { Atom, Model, Residue } from './types.js';
+
+/** Interaction classes, in reporting order (also the Zod enum). */
+export const INTERACTION_TYPES = [
+  'hydrogen_bond',
+  'salt_bridge',
+  'pi_stacking',
+  'cation_pi',
+  'halogen_bond',
+  'metal_coordination',
+  'hydrophobic',
+] as const;
+
+export type InteractionType = (typeof INTERACTION_TYPES)[number];
+
+/** One classified contact between a ligand instance and a protein residue. */
+export interface LigandInteraction {
+  /** Degrees: the angle between ring planes (π-stacking) or C–X···A (halogen bond). */
+  angle?: number;
+  /** Author chain ID of the protein residue. */
+  chain: string;
+  /** Å — atom to atom, or between charge-group centroids and ring centres. */
+  distance: number;
+  /**
+   * The side whose atom donates (hydrogen and halogen bonds). Absent for a
+   * hydrogen bond when both atoms could donate and heavy atoms cannot tell.
+   */
+  donor?: 'protein' | 'ligand';
+  /** Ligand atom names on the ligand side (a ring's atoms, a charged group's atoms). */
+  ligandAtoms: string[];
+  /** The side carrying the positive charge (salt bridges, cation–π). */
+  positive?: 'protein' | 'ligand';
+  /** Protein atom names on the residue side. */
+  proteinAtoms: string[];
+  /** The protein residue. */
+  residue: Residue;
+  /** π-stacking geometry. */
+  stacking?: 'parallel' | 't_shaped';
+  type: InteractionType;
+}
+
+/** Carbon–carbon distance for a hydrophobic contact (Å). */
+const HYDROPHOBIC_MAX = 4.0;
+/** Heavy-atom donor–acceptor distance range for a hydrogen bond (Å). */
+const HBOND_MIN = 2.5;
+const HBOND_MAX = 3.5;
+/** Smallest angle a hydrogen-bonding atom's covalent neighbours may make with its partner (degrees). */
+const HBOND_ANGLE_MIN = 90;
+/** Charge-group centroid distance for a salt bridge (Å). */
+const SALT_BRIDGE_MAX = 5.5;
+/** Ring-centre distance for π-stacking (Å). */
+const PI_STACK_MAX = 5.5;
+/** Largest in-plane offset of a partner from a ring centre (π-stacking, cation–π) (Å). */
+const PI_OFFSET_MAX = 2.0;
+/** Inter-plane angle limits: parallel up to, T-shaped from (degrees). */
+const PARALLEL_ANGLE_MAX = 30;
+const T_SHAPED_ANGLE_MIN = 60;
+/** Cation to ring-centre distance for cation–π (Å). */
+const CATION_PI_MAX = 6.0;
+/** Halogen–acceptor distance and smallest C–X···A angle for a halogen bond. */
+const HALOGEN_MAX = 4.0;
+const HALOGEN_ANGLE_MIN = 135;
+/** Metal–protein-atom distance for coordination (Å). */
+const METAL_MAX = 3.0;
+/** Residues with no atom this close to the ligand cannot meet any criterion above (Å). */
+const ENVELOPE = 7.5;
+/** Largest deviation from the mean plane for a ligand ring to count as aromatic (Å). */
+const RING_PLANARITY = 0.1;
+/** Slack over the summed covalent radii when inferring a bond (Å). */
+const BOND_TOLERANCE = 0.45;
+/** A C–N bond at least this long is single — an sp3 amine rather than an amide or aniline (Å). */
+const AMINE_BOND_MIN = 1.45;
+/** A C–O bond shorter than this is a carbonyl, which accepts but cannot donate (Å). */
+const CARBONYL_BOND_MAX = 1.3;
+
+/** Covalent radii (Å), Cordero et al. 2008; elements not listed form no inferred bonds. */
+const COVALENT: Record<string, number> = {
+  B: 0.84,
+  C: 0.76,
+  N: 0.71,
+  O: 0.66,
+  F: 0.57,
+  SI: 1.11,
+  P: 1.07,
+  S: 1.05,
+  CL: 1.02,
+  SE: 1.2,
+  BR: 1.2,
+  I: 1.39,
+};
+
+const METALS = new Set([
+  'LI',
+  'NA',
+  'K',
+  'RB',
+  'CS',
+  'MG',
+  'CA',
+  'SR',
+  'BA',
+  'MN',
+  'FE',
+  'CO',
+  'NI',
+  'CU',
+  'ZN',
+  'CD',
+  'HG',
+  'PT',
+  'PD',
+  'AG',
+  'AU',
+  'MO',
+  'W',
+  'V',
+  'CR',
+  'GA',
+  'IR',
+  'RU',
+  'RH',
+  'OS',
+]);
+
+const HALOGENS = new Set(['F', 'CL', 'BR', 'I']);
+
+/**
+ * Side-chain hydrogen-bond donors. Backbone N donates on every residue but
+ * proline. Shared with chain-interface typing (`./interface`).
+ */
+export const SIDE_CHAIN_DONORS: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'],
+  ASN: ['ND2'],
+  CYS: ['SG'],
+  GLN: ['NE2'],
+  HIS: ['ND1', 'NE2'],
+  LYS: ['NZ'],
+  SER: ['OG'],
+  THR: ['OG1'],
+  TRP: ['NE1'],
+  TYR: ['OH'],
+};
+
+/** Side-chain hydrogen-bond acceptors. Backbone O and OXT accept on every residue. */
+export const SIDE_CHAIN_ACCEPTORS: Record<string, string[]> = {
+  ASN: ['OD1'],
+  ASP: ['OD1', 'OD2'],
+  GLN: ['OE1'],
+  GLU: ['OE1', 'OE2'],
+  HIS: ['ND1', 'NE2'],
+  SER: ['OG'],
+  THR: ['OG1'],
+  TYR: ['OH'],
+};
+
+/** Charged side-chain groups; histidine counts as positive, as in PLIP. */
+export const POSITIVE_GROUPS: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'],
+  HIS: ['ND1', 'NE2'],
+  LYS: ['NZ'],
+};
+export const NEGATIVE_GROUPS: Record<string, string[]> = {
+  ASP: ['OD1', 'OD2'],
+  GLU: ['OE1', 'OE2'],
+};
+/** Side chains that act as the cation in cation–π. */
+const CATIONIC = new Set(['ARG', 'LYS']);
+
+/** Aromatic side-chain rings, atoms in ring order. */
+const AROMATIC_RINGS: Record<string, string[][]> = {
+  HIS: [['CG', 'ND1', 'CE1', 'NE2', 'CD2']],
+  PHE: [['CG', 'CD1', 'CE1', 'CZ', 'CE2', 'CD2']],
+  TRP: [
+    ['CG', 'CD1', 'NE1', 'CE2', 'CD2'],
+    ['CD2', 'CE2', 'CZ2', 'CH2', 'CZ3', 'CE3'],
+  ],
+  TYR: [['CG', 'CD1', 'CE1', 'CZ', 'CE2', 'CD2']],
+};
+
+type Vec = [number, number, number];
+
+/** Atoms treated as one unit — a charged group or a ring — located at their centroid. */
+interface Group {
+  atoms: Atom[];
+  center: Vec;
+}
+
+interface Ring extends Group {
+  /** Unit normal of the ring's mean plane. */
+  normal: Vec;
+}
+
+/** One residue's heavy atoms with their inferred covalent bonds. */
+interface Perceived {
+  atoms: Atom[];
+  bonds: Map<Atom, Atom[]>;
+}
+
+/** The ligand typed from its connectivity. */
+interface LigandChemistry extends Perceived {
+  acceptors: Set<Atom>;
+  donors: Set<Atom>;
+  halogens: Atom[];
+  hydrophobic: Atom[];
+  metals: Atom[];
+  negative: Group[];
+  positive: Group[];
+  rings: Ring[];
+}
+
+/**
+ * Classify every contact between `ligand` and the amino-acid residues of
+ * `model` around it. The ligand residue must belong to `model`; its own atoms
+ * and other hetero groups are never partners. Ordered by
+ * {@link INTERACTION_TYPES}, then by distance.
+ */
+export function ligandInteractions(model: Model, ligand: Residue): LigandInteraction[] {
+  const lig = ligandChemistry(ligand);
+  if (lig.atoms.length === 0) return [];
+  const out: LigandInteraction[] = [];
+  for (const chain of model.chains) {
+    for (const residue of chain.residues) {
+      if (residue === ligand || !isAminoAcid(residue)) continue;
+      if (!near(residue.atoms, lig.atoms, ENVELOPE)) continue;
+      const prot = perceive(residue);
+      const base = { chain: chain.id, residue };
+      for (const i of residueInteractions(prot, residue.compId, lig)) out.push({ ...base, ...i });
+    }
+  }
+  const rank = (t: InteractionType) => INTERACTION_TYPES.indexOf(t);
+  return out.sort((a, b) => rank(a.type) - rank(b.type) || a.distance - b.distance);
+}
+
+type Found = Omit<LigandInteraction, 'chain' | 'residue'>;
+
+/** Every interaction between one protein residue and the ligand. */
+function residueInteractions(prot: Perceived, compId: string, lig: LigandChemistry): Found[] {
+  const out: Found[] = [];
+  const named = (names: string[] | undefined) =>
+    prot.atoms.filter((a) => names?.includes(a.name) ?? false);
+  const donors = new Set([
+    ...named(SIDE_CHAIN_DONORS[compId]),
+    ...(compId === 'PRO' ? [] : named(['N'])),
+  ]);
+  const acceptors = new Set([...named(SIDE_CHAIN_ACCEPTORS[compId]), ...named(['O', 'OXT'])]);
+
+  // Hydrogen bonds.
+  for (const p of prot.atoms) {
+    const pDonor = donors.has(p);
+    const pAcceptor = acceptors.has(p);
+    if (!pDonor && !pAcceptor) continue;
+    for (const l of lig.atoms) {
+      const lDonor = lig.donors.has(l);
+      const lAcceptor = lig.acceptors.has(l);
+      const forward = pDonor && lAcceptor;
+      const reverse = pAcceptor && lDonor;
+      if (!forward && !reverse) continue;
+      const d = dist(p, l);
+      if (d < HBOND_MIN || d > HBOND_MAX) continue;
+      if (!clearOf(p, l, prot.bonds) || !clearOf(l, p, lig.bonds)) continue;
+      out.push({
+        type: 'hydrogen_bond',
+        proteinAtoms: [p.name],
+        ligandAtoms: [l.name],
+        distance: round(d),
+        ...(forward && !reverse ? { donor: 'protein' as const } : {}),
+        ...(reverse && !forward ? { donor: 'ligand' as const } : {}),
+      });
+    }
+  }
+
+  // Salt bridges, both polarities.
+  const pPositive = group(named(POSITIVE_GROUPS[compId]));
+  const pNegative = group(named(NEGATIVE_GROUPS[compId]));
+  const bridges: Array<[Group | undefined, Group[], 'protein' | 'ligand']> = [
+    [pPositive, lig.negative, 'protein'],
+    [pNegative, lig.positive, 'ligand'],
+  ];
+  for (const [mine, theirs, positive] of bridges) {
+    if (!mine) continue;
+    for (const g of theirs) {
+      const d = distance(mine.center, g.center);
+      if (d > SALT_BRIDGE_MAX) continue;
+      out.push({
+        type: 'salt_bridge',
+        proteinAtoms: names(mine.atoms),
+        ligandAtoms: names(g.atoms),
+        distance: round(d),
+        positive,
+      });
+    }
+  }
+
+  // π-stacking and cation–π.
+  const pRings = (AROMATIC_RINGS[compId] ?? [])
+    .map((ring) => ringOf(ring.map((n) => prot.atoms.find((a) => a.name === n))))
+    .filter((r) => r !== undefined);
+  for (const pr of pRings) {
+    for (const lr of lig.rings) {
+      const d = distance(pr.center, lr.center);
+      if (d > PI_STACK_MAX) continue;
+      const tilt = planeAngle(pr.normal, lr.normal);
+      const stacking =
+        tilt <= PARALLEL_ANGLE_MAX ? 'parallel' : tilt >= T_SHAPED_ANGLE_MIN ? 't_shaped' : null;
+      if (!stacking) continue;
+      const offset = Math.min(offsetFrom(pr, lr.center), offsetFrom(lr, pr.center));
+      if (offset > PI_OFFSET_MAX) continue;
+      out.push({
+        type: 'pi_stacking',
+        proteinAtoms: names(pr.atoms),
+        ligandAtoms: names(lr.atoms),
+        distance: round(d),
+        stacking,
+        angle: round(tilt, 1),
+      });
+    }
+    for (const cation of lig.positive) {
+      const d = distance(pr.center, cation.center);
+      if (d > CATION_PI_MAX || offsetFrom(pr, cation.center) > PI_OFFSET_MAX) continue;
+      out.push({
+        type: 'cation_pi',
+        proteinAtoms: names(pr.atoms),
+        ligandAtoms: names(cation.atoms),
+        distance: round(d),
+        positive: 'ligand',
+      });
+    }
+  }
+  if (pPositive && CATIONIC.has(compId)) {
+    for (const lr of lig.rings) {
+      const d = distance(pPositive.center, lr.center);
+      if (d > CATION_PI_MAX || offsetFrom(lr, pPositive.center) > PI_OFFSET_MAX) continue;
+      out.push({
+        type: 'cation_pi',
+        proteinAtoms: names(pPositive.atoms),
+        ligandAtoms: names(lr.atoms),
+        distance: round(d),
+        positive: 'protein',
+      });
+    }
+  }
+
+  // Halogen bonds: C–X···A, the ligand donating.
+  for (const x of lig.halogens) {
+    const carbon = lig.bonds.get(x)?.[0] as Atom;
+    for (const p of prot.atoms) {
+      if (!acceptors.has(p) && p.element !== 'S') continue;
+      const d = dist(x, p);
+      if (d > HALOGEN_MAX) continue;
+      const cxa = angle(sub(vec(carbon), vec(x)), sub(vec(p), vec(x)));
+      if (cxa < HALOGEN_ANGLE_MIN) continue;
+      out.push({
+        type: 'halogen_bond',
+        proteinAtoms: [p.name],
+        ligandAtoms: [x.name],
+        distance: round(d),
+        donor: 'ligand',
+        angle: round(cxa, 1),
+      });
+    }
+  }
+
+  // Metal coordination by protein N, O, and S.
+  for (const m of lig.metals) {
+    for (const p of prot.atoms) {
+      if (p.element !== 'N' && p.element !== 'O' && p.element !== 'S') continue;
+      const d = dist(m, p);
+      if (d > METAL_MAX) continue;
+      out.push({
+        type: 'metal_coordination',
+        proteinAtoms: [p.name],
+        ligandAtoms: [m.name],
+        distance: round(d),
+      });
+    }
+  }
+
+  // Hydrophobic: the closest pair of carbons bonded only to carbon.
+  let closest: { p: Atom; l: Atom; d: number } | undefined;
+  for (const p of prot.atoms) {
+    if (!isHydrophobic(p, prot.bonds)) continue;
+    for (const l of lig.hydrophobic) {
+      const d = dist(p, l);
+      if (d <= HYDROPHOBIC_MAX && (!closest || d < closest.d)) closest = { p, l, d };
+    }
+  }
+  if (closest) {
+    out.push({
+      type: 'hydrophobic',
+      proteinAtoms: [closest.p.name],
+      ligandAtoms: [closest.l.name],
+      distance: round(closest.d),
+    });
+  }
+  return out;
+}
+
+// ─── Perception ───────────────────────────────────────────────────────────────
+
+/** True for an amino acid: a polymer residue with a CA atom. */
+function isAminoAcid(residue: Residue): boolean {
+  return isPolymerResidue(residue) && residue.atoms.some((a) => a.name === 'CA');
+}
+
+/** Heavy atoms of the first conformer and the bonds their covalent radii imply. */
+function perceive(residue: Residue): Perceived {
+  const seen = new Set<string>();
+  const atoms: Atom[] = [];
+  for (const atom of residue.atoms) {
+    if (atom.element === 'H' || atom.element === 'D' || seen.has(atom.name)) continue;
+    seen.add(atom.name);
+    atoms.push(atom);
+  }
+  const bonds = new Map<Atom, Atom[]>(atoms.map((a) => [a, []]));
+  for (let i = 0; i < atoms.length; i++) {
+    const a = atoms[i] as Atom;
+    const ra = COVALENT[a.element];
+    if (ra === undefined) continue;
+    for (let j = i + 1; j < atoms.length; j++) {
+      const b = atoms[j] as Atom;
+      const rb = COVALENT[b.element];
+      if (rb === undefined || dist(a, b) > ra + rb + BOND_TOLERANCE) continue;
+      bonds.get(a)?.push(b);
+      bonds.get(b)?.push(a);
+    }
+  }
+  return { atoms, bonds };
+}
+
+/** Type the ligand's atoms, charged groups, and rings from its connectivity. */
+function ligandChemistry(ligand: Residue): LigandChemistry {
+  const { atoms, bonds } = perceive(ligand);
+  const degree = (a: Atom) => bonds.get(a)?.length ?? 0;
+  const neighbours = (a: Atom) => bonds.get(a) ?? [];
+  const terminal = (a: Atom, element: string) =>
+    neighbours(a).filter((n) => n.element === element && degree(n) === 1);
+
+  const donors = new Set<Atom>();
+  const acceptors = new Set<Atom>();
+  for (const a of atoms) {
+    if (a.element === 'O') {
+      acceptors.add(a);
+      const [partner] = neighbours(a);
+      // A hydroxyl donates; a carbonyl, ether, phosphoryl, or sulfonyl oxygen only accepts.
+      if (
+        degree(a) === 0 ||
+        (degree(a) === 1 &&
+          partner?.element === 'C' &&
+          dist(a, partner as Atom) >= CARBONYL_BOND_MAX)
+      )
+        donors.add(a);
+    } else if (a.element === 'N' && degree(a) <= 2) {
+      // Amide versus amine, pyridine versus pyrrole, are not told apart without hydrogens.
+      const nitrile = degree(a) === 1 && dist(a, neighbours(a)[0] as Atom) < 1.2;
+      if (!nitrile) donors.add(a);
+      acceptors.add(a);
+    }
+  }
+
+  const negative: Group[] = [];
+  const positive: Group[] = [];
+  for (const a of atoms) {
+    const oxygens = terminal(a, 'O');
+    const anionic =
+      (a.element === 'C' && oxygens.length >= 2) ||
+      (a.element === 'P' && oxygens.length >= 2) ||
+      (a.element === 'S' && oxygens.length >= 3);
+    if (anionic) negative.push(group(oxygens) as Group);
+    if (a.element === 'N' && degree(a) === 4) positive.push(group([a]) as Group);
+    const amidine = a.element === 'C' && degree(a) === 3 && terminal(a, 'N').length >= 2;
+    if (amidine) positive.push({ atoms: terminal(a, 'N'), center: vec(a) });
+  }
+  for (const a of atoms) {
+    if (a.element !== 'N' || degree(a) !== 1) continue;
+    const carbon = neighbours(a)[0] as Atom;
+    const inAmidine = positive.some((g) => g.atoms.includes(a));
+    if (carbon.element === 'C' && !inAmidine && dist(a, carbon) >= AMINE_BOND_MIN) {
+      positive.push(group([a]) as Group);
+    }
+  }
+
+  return {
+    atoms,
+    bonds,
+    donors,
+    acceptors,
+    negative,
+    positive,
+    rings: ringsOf(atoms, bonds),
+    halogens: atoms.filter(
+      (a) => HALOGENS.has(a.element) && degree(a) === 1 && neighbours(a)[0]?.element === 'C',
+    ),
+    hydrophobic: atoms.filter((a) => isHydrophobic(a, bonds)),
+    metals: atoms.filter((a) => METALS.has(a.element)),
+  };
+}
+
+/** A carbon bonded to carbons only. */
+function isHydrophobic(atom: Atom, bonds: Map<Atom, Atom[]>): boolean {
+  return atom.element === 'C' && (bonds.get(atom) ?? []).every((n) => n.element === 'C');
+}
+
+/** Planar five- and six-membered rings, each found once. */
+function ringsOf(atoms: Atom[], bonds: Map<Atom, Atom[]>): Ring[] {
+  const index = new Map(atoms.map((a, i) => [a, i]));
+  const seen = new Set<string>();
+  const rings: Ring[] = [];
+  const walk = (path: Atom[]): void => {
+    const start = path[0] as Atom;
+    for (const next of bonds.get(path[path.length - 1] as Atom) ?? []) {
+      if (next === start && path.length >= 5) {
+        const key = path
+          .map((a) => index.get(a))
+          .sort()
+          .join(',');
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const ring = ringOf(path);
+        if (ring && ring.deviation <= RING_PLANARITY) rings.push(ring);
+        continue;
+      }
+      // Grow only through atoms indexed after the start, so each ring is walked from its first atom.
+      if (path.length >= 6 || path.includes(next)) continue;
+      if ((index.get(next) as number) < (index.get(start) as number)) continue;
+      walk([...path, next]);
+    }
+  };
+  for (const a of atoms) walk([a]);
+  return rings;
+}
+
+/** Centre, Newell normal, and planarity of a ring given in ring order; `undefined` if an atom is missing. */
+function ringOf(atoms: Array<Atom | undefined>): (Ring & { deviation: number }) | undefined {
+  if (atoms.some((a) => a === undefined)) return;
+  const ring = atoms as Atom[];
+  const center = centroid(ring);
+  let normal: Vec = [0, 0, 0];
+  for (let i = 0; i < ring.length; i++) {
+    const a = sub(vec(ring[i] as Atom), center);
+    const b = sub(vec(ring[(i + 1) % ring.length] as Atom), center);
+    normal = add(normal, cross(a, b));
+  }
+  const length = Math.hypot(...normal) || 1;
+  normal = [normal[0] / length, normal[1] / length, normal[2] / length];
+  const deviation = Math.max(...ring.map((a) => Math.abs(dot(sub(vec(a), center), normal))));
+  return { atoms: ring, center, normal, deviation };
+}
+
+function group(atoms: Atom[]): Group | undefined {
+  return atoms.length > 0 ? { atoms, center: centroid(atoms) } : undefined;
+}
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+/** Whether every covalent neighbour of `atom` sits at least {@link HBOND_ANGLE_MIN} away from `partner`. */
+function clearOf(atom: Atom, partner: Atom, bonds: Map<Atom, Atom[]>): boolean {
+  const toPartner = sub(vec(partner), vec(atom));
+  return (bonds.get(atom) ?? []).every(
+    (n) => angle(sub(vec(n), vec(atom)), toPartner) >= HBOND_ANGLE_MIN,
+  );
+}
+
+/** Whether any atom of `a` lies within `cutoff` of any atom of `b`. */
+function near(a: Atom[], b: Atom[], cutoff: number): boolean {
+  return a.some((x) => b.some((y) => dist(x, y) <= cutoff));
+}
+
+/** In-plane distance from a ring's centre to a point projected onto the ring plane. */
+function offsetFrom(ring: Ring, point: Vec): number {
+  const v = sub(point, ring.center);
+  const along = dot(v, ring.normal);
+  return Math.sqrt(Math.max(0, dot(v, v) - along * along));
+}
+
+/** Angle between two planes from their normals, folded to 0–90°. */
+function planeAngle(a: Vec, b: Vec): number {
+  const deg = angle(a, b);
+  return deg > 90 ? 180 - deg : deg;
+}
+
+function names(atoms: Atom[]): string[] {
+  return atoms.map((a) => a.name);
+}
+
+function centroid(atoms: Atom[]): Vec {
+  const sum = atoms.reduce<Vec>((s, a) => [s[0] + a.x, s[1] + a.y, s[2] + a.z], [0, 0, 0]);
+  return [sum[0] / atoms.length, sum[1] / atoms.length, sum[2] / atoms.length];
+}
+
+function vec(a: Atom): Vec {
+  return [a.x, a.y, a.z];
+}
+
+function add(a: Vec, b: Vec): Vec {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function sub(a: Vec, b: Vec): Vec {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec, b: Vec): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec, b: Vec): Vec {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function distance(a: Vec, b: Vec): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function dist(a: Atom, b: Atom): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/** Angle between two vectors in degrees. */
+function angle(a: Vec, b: Vec): number {
+  const cos = dot(a, b) / (Math.hypot(...a) * Math.hypot(...b));
+  return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+}
+
+function round(v: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(v * f) / f;
+}
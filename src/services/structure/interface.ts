@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Protein–protein interfaces between two chains of one model. A
+ * residue is at the interface when one of its heavy atoms lies within the contact
+ * cutoff of the partner chain, or when the partner buries part of its surface
+ * (Shrake–Rupley via `./sasa`, measured on the pair alone so other chains in the
+ * model do not count); the interface area is half the surface the pair buries,
+ * as PISA reports it. Cross-chain contacts are typed from residue chemistry on
+ * heavy atoms (first conformer), shared with the ligand analysis in
+ * `./interactions`: disulfides (SG–SG), salt bridges (a charged side-chain
+ * nitrogen to a carboxylate oxygen, closest pair per residue pair), and hydrogen
+ * bonds (donor–acceptor distance, with the donating chain when only one side can
+ * donate). Distance criteria only — deposited models carry no hydrogens to place.
+ * Pure and deterministic.
+ * @module services/structure/interface
+ */
+
+import {
+  NEGATIVE_GROUPS,
+  POSITIVE_GROUPS,
+  SIDE_CHAIN_ACCEPTORS,
+  SIDE_CHAIN_DONORS,
+} from './interactions.js';
+import { computeSasa, type SasaOptions } from './sasa.js';
+import { isPolymerResidue } from './selection.js';
+import type { Atom, Chain, Model, Residue } from './types.js';
+
+/** Contact classes, in reporting order (also the Zod enum). */
+export const INTERFACE_CONTACT_TYPES = ['disulfide', 'salt_bridge', 'hydrogen_bond'] as const;
+
+export type InterfaceContactType = (typeof INTERFACE_CONTACT_TYPES)[number];
+
+/** Heavy-atom distance that puts a residue at the interface, unless overridden (Å). */
+export const DEFAULT_CONTACT_CUTOFF = 5;
+
+/** Knobs for {@link interfaceBetween}; SASA sampling passes through to `computeSasa`. */
+export interface InterfaceOptions extends SasaOptions {
+  /** Heavy-atom distance that puts a residue at the interface (Å). */
+  cutoff?: number;
+}
+
+/** One side of a cross-chain contact. */
+export interface ContactSide {
+  /** Atom name. */
+  atom: string;
+  /** Author chain ID. */
+  chain: string;
+  residue: Residue;
+}
+
+/** One typed contact across the interface. */
+export interface InterfaceContact {
+  /** Atom-to-atom distance (Å). */
+  distance: number;
+  /** Author chain ID of the donating side (hydrogen bonds); absent when either atom could donate. */
+  donor?: string;
+  /** Author chain ID of the positively charged side (salt bridges). */
+  positive?: string;
+  /** The two atoms, the first chain's side first. */
+  sides: [ContactSide, ContactSide];
+  type: InterfaceContactType;
+}
+
+/** A residue at the interface. */
+export interface InterfaceResidue {
+  /** Area the partner chain buries (Å²); absent when none. */
+  buriedSasa?: number;
+  /** Author chain ID. */
+  chain: string;
+  /** Shortest heavy-atom distance to the partner chain (Å). */
+  closest: number;
+  residue: Residue;
+}
+
+/** The interface between two chains. */
+export interface ChainInterface {
+  /** Surface buried between the pair, both sides (Å²). */
+  buriedSasa: number;
+  /** The two author chain IDs, as requested. */
+  chains: [string, string];
+  /** Typed contacts, by {@link INTERFACE_CONTACT_TYPES} then distance. */
+  contacts: InterfaceContact[];
+  /** Half of `buriedSasa` — the conventional interface area (Å²). */
+  interfaceArea: number;
+  /** Interface residues: the first chain's, then the second's, each in chain order. */
+  residues: InterfaceResidue[];
+}
+
+/** Two chains in contact, and how closely. */
+export interface ChainPairContact {
+  /** Cross-chain heavy-atom pairs within the cutoff. */
+  atomPairs: number;
+  /** The two author chain IDs, in model order. */
+  chains: [string, string];
+}
+
+/** SG–SG distance for a disulfide (Å). */
+const DISULFIDE_MAX = 2.5;
+/** Charged nitrogen to carboxylate oxygen for a salt bridge (Å). */
+const SALT_BRIDGE_MAX = 4.0;
+/** Heavy-atom donor–acceptor distance range for a hydrogen bond (Å). */
+const HBOND_MIN = 2.5;
+const HBOND_MAX = 3.5;
+/**
+ * Atoms farther apart than this cannot bury each other's surface (twice the
+ * largest radius plus probe in `./sasa`), so every buried residue has a
+ * measured closest distance (Å).
+ */
+const BURIAL_REACH = 7;
+
+/** A heavy atom and the residue it belongs to. */
+interface Site {
+  atom: Atom;
+  residue: Residue;
+}
+
+/**
+ * Analyze the interface between chains `first` and `second` of `model`. Returns
+ * `undefined` when either chain has no polymer residue; a pair that does not
+ * touch comes back with no residues, contacts, or buried area.
+ */
+export function interfaceBetween(
+  model: Model,
+  first: string,
+  second: string,
+  options: InterfaceOptions = {},
+): ChainInterface | undefined {
+  const chainA = polymerChain(model, first);
+  const chainB = polymerChain(model, second);
+  if (!chainA || !chainB) return;
+  const cutoff = options.cutoff ?? DEFAULT_CONTACT_CUTOFF;
+  const reach = Math.max(cutoff, BURIAL_REACH);
+
+  const closest = new Map<Residue, number>();
+  const keepClosest = (residue: Residue, d: number) => {
+    if (d < (closest.get(residue) ?? Number.POSITIVE_INFINITY)) closest.set(residue, d);
+  };
+  const contacts: InterfaceContact[] = [];
+  /** Closest salt bridge per residue pair. */
+  const bridges = new Map<string, InterfaceContact>();
+  const grid = gridOf(sites(chainB), reach);
+  const indexB = new Map(chainB.residues.map((r, i) => [r, i]));
+  chainA.residues.forEach((ra, ia) => {
+    for (const a of heavyAtoms(ra)) {
+      for (const { atom: b, residue: rb } of around(grid, a)) {
+        const d = dist(a, b);
+        if (d > reach) continue;
+        keepClosest(ra, d);
+        keepClosest(rb, d);
+        const sides: [ContactSide, ContactSide] = [
+          { chain: first, residue: ra, atom: a.name },
+          { chain: second, residue: rb, atom: b.name },
+        ];
+        if (isDisulfide(ra, a, rb, b) && d <= DISULFIDE_MAX) {
+          contacts.push({ type: 'disulfide', sides, distance: round(d) });
+        }
+        const positive = saltBridgePositive(ra, a, rb, b);
+        if (positive && d <= SALT_BRIDGE_MAX) {
+          const key = `${ia}:${indexB.get(rb)}`;
+          const known = bridges.get(key);
+          if (!known || d < known.distance) {
+            bridges.set(key, {
+              type: 'salt_bridge',
+              sides,
+              distance: round(d),
+              positive: positive === 'first' ? first : second,
+            });
+          }
+        }
+        if (d < HBOND_MIN || d > HBOND_MAX) continue;
+        const forward = isDonor(ra, a) && isAcceptor(rb, b);
+        const reverse = isAcceptor(ra, a) && isDonor(rb, b);
+        if (!forward && !reverse) continue;
+        contacts.push({
+          type: 'hydrogen_bond',
+          sides,
+          distance: round(d),
+          ...(forward && !reverse ? { donor: first } : {}),
+          ...(reverse && !forward ? { donor: second } : {}),
+        });
+      }
+    }
+  });
+  contacts.push(...bridges.values());
+
+  const sasa = computeSasa({ modelNumber: model.modelNumber, chains: [chainA, chainB] }, options);
+  const buried = new Map<Residue, number>();
+  for (const chain of sasa.chains) {
+    for (const r of chain.residues) {
+      if (r.buriedSasa !== undefined) buried.set(r.residue, r.buriedSasa);
+    }
+  }
+  const buriedSasa = sasa.interfaces[0]?.buriedSasa ?? 0;
+
+  const residues: InterfaceResidue[] = [];
+  for (const chain of [chainA, chainB]) {
+    for (const residue of chain.residues) {
+      const near = closest.get(residue);
+      const area = buried.get(residue);
+      if (near === undefined || (near > cutoff && area === undefined)) continue;
+      residues.push({
+        chain: chain.id,
+        residue,
+        closest: round(near),
+        ...(area !== undefined ? { buriedSasa: area } : {}),
+      });
+    }
+  }
+
+  const rank = (t: InterfaceContactType) => INTERFACE_CONTACT_TYPES.indexOf(t);
+  return {
+    chains: [first, second],
+    buriedSasa,
+    interfaceArea: round(buriedSasa / 2),
+    residues,
+    contacts: contacts.sort((a, b) => rank(a.type) - rank(b.type) || a.distance - b.distance),
+  };
+}
+
+/**
+ * Every pair of polymer chains with heavy atoms within `cutoff` of each other,
+ * in model order — the candidates for {@link interfaceBetween}.
+ */
+export function contactingChains(
+  model: Model,
+  cutoff = DEFAULT_CONTACT_CUTOFF,
+): ChainPairContact[] {
+  const chains = model.chains.filter((c) => c.residues.some(isPolymerResidue));
+  const all = chains.flatMap((chain, index) => sites(chain).map((s) => ({ ...s, index })));
+  const grid = gridOf(all, cutoff);
+  const counts = new Map<number, number>();
+  for (const s of all) {
+    for (const t of around(grid, s.atom)) {
+      // Count each pair once, from the chain that comes first.
+      if (t.index <= s.index || dist(s.atom, t.atom) > cutoff) continue;
+      const key = s.index * chains.length + t.index;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return [...counts.keys()]
+    .sort((a, b) => a - b)
+    .map((key) => ({
+      chains: [
+        chains[Math.floor(key / chains.length)]?.id ?? '',
+        chains[key % chains.length]?.id ?? '',
+      ],
+      atomPairs: counts.get(key) ?? 0,
+    }));
+}
+
+// ─── Chemistry ────────────────────────────────────────────────────────────────
+
+function isDonor(residue: Residue, atom: Atom): boolean {
+  if (atom.name === 'N') return residue.compId !== 'PRO';
+  return SIDE_CHAIN_DONORS[residue.compId]?.includes(atom.name) ?? false;
+}
+
+function isAcceptor(residue: Residue, atom: Atom): boolean {
+  if (atom.name === 'O' || atom.name === 'OXT') return true;
+  return SIDE_CHAIN_ACCEPTORS[residue.compId]?.includes(atom.name) ?? false;
+}
+
+function isDisulfide(ra: Residue, a: Atom, rb: Residue, b: Atom): boolean {
+  return ra.compId === 'CYS' && rb.compId === 'CYS' && a.name === 'SG' && b.name === 'SG';
+}
+
+/** Which side carries the positive charge when `a` and `b` are oppositely charged atoms. */
+function saltBridgePositive(
+  ra: Residue,
+  a: Atom,
+  rb: Residue,
+  b: Atom,
+): 'first' | 'second' | undefined {
+  const charged = (groups: Record<string, string[]>, r: Residue, x: Atom) =>
+    groups[r.compId]?.includes(x.name) ?? false;
+  if (charged(POSITIVE_GROUPS, ra, a) && charged(NEGATIVE_GROUPS, rb, b)) return 'first';
+  if (charged(NEGATIVE_GROUPS, ra, a) && charged(POSITIVE_GROUPS, rb, b)) return 'second';
+  return;
+}
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+/** The chain with author ID `id`, narrowed to its polymer residues; `undefined` when it has none. */
+function polymerChain(model: Model, id: string): Chain | undefined {
+  const chain = model.chains.find((c) => c.id === id);
+  const residues = chain?.residues.filter(isPolymerResidue) ?? [];
+  return residues.length > 0 ? { id, residues } : undefined;
+}
+
+/** Heavy atoms of a chain's polymer residues. */
+function sites(chain: Chain): Site[] {
+  return chain.residues
+    .filter(isPolymerResidue)
+    .flatMap((residue) => heavyAtoms(residue).map((atom) => ({ atom, residue })));
+}
+
+/** Non-hydrogen atoms, first conformer only (the first site per atom name). */
+function heavyAtoms(residue: Residue): Atom[] {
+  const seen = new Set<string>();
+  const atoms: Atom[] = [];
+  for (const atom of residue.atoms) {
+    if (atom.element === 'H' || atom.element === 'D' || seen.has(atom.name)) continue;
+    seen.add(atom.name);
+    atoms.push(atom);
+  }
+  return atoms;
+}
+
+/** Sites bucketed on a grid `size` wide, so a neighbour search checks 27 cells. */
+function gridOf<T extends Site>(
+  items: T[],
+  size: number,
+): { cells: Map<string, T[]>; size: number } {
+  const cells = new Map<string, T[]>();
+  for (const item of items) {
+    const key = cellKey(item.atom, size);
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(item);
+    else cells.set(key, [item]);
+  }
+  return { cells, size };
+}
+
+/** Grid items in the cells around `atom` — a superset of those within the grid size. */
+function around<T>(grid: { cells: Map<string, T[]>; size: number }, atom: Atom): T[] {
+  const cx = Math.floor(atom.x / grid.size);
+  const cy = Math.floor(atom.y / grid.size);
+  const cz = Math.floor(atom.z / grid.size);
+  const out: T[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const bucket = grid.cells.get(`${cx + dx},${cy + dy},${cz + dz}`);
+        if (bucket) out.push(...bucket);
+      }
+    }
+  }
+  return out;
+}
+
+function cellKey(atom: Atom, size: number): string {
+  return `${Math.floor(atom.x / size)},${Math.floor(atom.y / size)},${Math.floor(atom.z / size)}`;
+}
+
+function dist(a: Atom, b: Atom): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function round(v: number): number {
+  return Math.round(v * 100) / 100;
+}
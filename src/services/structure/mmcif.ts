@@ -0,0 +1,144 @@
+/**
+ * @fileoverview mmCIF reader — extracts the `_atom_site` loop (the only category
+ * the structure model needs) into {@link AtomSiteRecord}s. A minimal CIF
+ * tokenizer covers the syntax atom_site rows actually use in PDB archive files:
+ * whitespace-separated values, single/double-quoted values (a quote only closes
+ * before whitespace, so `"C1'"` keeps its prime), `;`-delimited text fields,
+ * `#` comments, and the `.` / `?` null markers. Pure string handling — no DOM,
+ * no Node APIs — so it runs on the edge runtime too.
+ * @module services/structure/mmcif
+ */
+
+import { serializationError } from '@cyanheads/mcp-ts-core/errors';
+import { type AtomSiteRecord, assembleStructure } from './atom-site.js';
+import type { Atom, Structure } from './types.js';
+
+/** One CIF value token; `null` for the `.` (inapplicable) and `?` (unknown) markers. */
+type CifValue = string | null;
+
+const TOKEN_RE = /'(.*?)'(?=\s|$)|"(.*?)"(?=\s|$)|(\S+)/g;
+
+/** Parse mmCIF text into a {@link Structure}. Throws `SerializationError` when no atom sites are found. */
+export function parseMmcif(text: string): Structure {
+  const lines = text.split(/\r?\n/);
+  const id = lines
+    .find((l) => l.startsWith('data_'))
+    ?.slice(5)
+    .trim();
+  const loop = readAtomSiteLoop(lines);
+  if (!loop) {
+    throw serializationError('mmCIF text has no _atom_site loop — not a coordinate file.');
+  }
+  return assembleStructure('cif', id || undefined, toRecords(loop.fields, loop.values));
+}
+
+/** Locate the `_atom_site` loop and return its field names and flat value stream. */
+function readAtomSiteLoop(lines: string[]): { fields: string[]; values: CifValue[] } | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i]?.trim() !== 'loop_' || !lines[i + 1]?.startsWith('_atom_site.')) continue;
+    const fields: string[] = [];
+    let j = i + 1;
+    for (; j < lines.length && lines[j]?.startsWith('_atom_site.'); j++) {
+      fields.push((lines[j] as string).trim().slice('_atom_site.'.length));
+    }
+    const values: CifValue[] = [];
+    for (; j < lines.length; j++) {
+      const line = lines[j] as string;
+      if (line.startsWith(';')) {
+        // Text field: runs to the next line that opens with `;`.
+        const block = [line.slice(1)];
+        for (j++; j < lines.length && !lines[j]?.startsWith(';'); j++)
+          block.push(lines[j] as string);
+        values.push(block.join('\n').trim());
+        continue;
+      }
+      const trimmed = line.trimStart();
+      if (/^(_|loop_|data_|stop_|#)/.test(trimmed)) break;
+      for (const m of trimmed.matchAll(TOKEN_RE)) {
+        if (m[3]?.startsWith('#')) break;
+        const raw = m[1] ?? m[2] ?? m[3] ?? '';
+        values.push(m[3] === '.' || m[3] === '?' ? null : raw);
+      }
+    }
+    if (values.length % fields.length !== 0) {
+      throw serializationError(
+        `mmCIF _atom_site loop is malformed: ${values.length} values for ${fields.length} columns.`,
+      );
+    }
+    return { fields, values };
+  }
+  return;
+}
+
+/** Walk the flat value stream row by row, projecting each row to a record. */
+function* toRecords(fields: string[], values: CifValue[]): Generator<AtomSiteRecord> {
+  const col = (name: string) => fields.indexOf(name);
+  const c = {
+    group: col('group_PDB'),
+    id: col('id'),
+    element: col('type_symbol'),
+    labelAtom: col('label_atom_id'),
+    authAtom: col('auth_atom_id'),
+    altLoc: col('label_alt_id'),
+    labelComp: col('label_comp_id'),
+    authComp: col('auth_comp_id'),
+    labelAsym: col('label_asym_id'),
+    authAsym: col('auth_asym_id'),
+    entity: col('label_entity_id'),
+    labelSeq: col('label_seq_id'),
+    authSeq: col('auth_seq_id'),
+    insCode: col('pdbx_PDB_ins_code'),
+    x: col('Cartn_x'),
+    y: col('Cartn_y'),
+    z: col('Cartn_z'),
+    occupancy: col('occupancy'),
+    bFactor: col('B_iso_or_equiv'),
+    charge: col('pdbx_formal_charge'),
+    model: col('pdbx_PDB_model_num'),
+  };
+  if (c.x < 0 || c.y < 0 || c.z < 0) {
+    throw serializationError('mmCIF _atom_site loop carries no Cartn_x/y/z coordinates.');
+  }
+  const width = fields.length;
+  for (let row = 0; row * width < values.length; row++) {
+    const base = row * width;
+    const v = (i: number): CifValue => (i < 0 ? null : (values[base + i] ?? null));
+    const num = (i: number): number | undefined => {
+      const s = v(i);
+      if (s === null) return;
+      const n = Number(s);
+      return Number.isFinite(n) ? n : undefined;
+    };
+    const name = v(c.labelAtom) ?? v(c.authAtom) ?? '';
+    const charge = num(c.charge);
+    const altLoc = v(c.altLoc);
+    const atom: Atom = {
+      id: num(c.id) ?? row + 1,
+      name,
+      element: (v(c.element) ?? name.replace(/[^A-Za-z]/g, '').slice(0, 1)).toUpperCase(),
+      ...(altLoc ? { altLoc } : {}),
+      x: num(c.x) ?? 0,
+      y: num(c.y) ?? 0,
+      z: num(c.z) ?? 0,
+      occupancy: num(c.occupancy) ?? 1,
+      bFactor: num(c.bFactor) ?? 0,
+      ...(charge ? { charge } : {}),
+      hetero: v(c.group) === 'HETATM',
+    };
+    const labelAsymId = v(c.labelAsym) ?? undefined;
+    const labelSeqId = num(c.labelSeq);
+    const entityId = v(c.entity) ?? undefined;
+    const insCode = v(c.insCode) ?? undefined;
+    yield {
+      atom,
+      authAsymId: v(c.authAsym) ?? labelAsymId ?? '',
+      authSeqId: num(c.authSeq) ?? labelSeqId ?? 0,
+      compId: v(c.labelComp) ?? v(c.authComp) ?? 'UNK',
+      ...(labelAsymId ? { labelAsymId } : {}),
+      ...(labelSeqId !== undefined ? { labelSeqId } : {}),
+      ...(entityId ? { entityId } : {}),
+      ...(insCode ? { insCode } : {}),
+      modelNumber: num(c.model) ?? 1,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Entry point for turning coordinate text into a {@link Structure}.
+ * Callers that know the dialect (a `.cif` URL, a `coordinateFormat` field) pass
+ * it; otherwise the text is sniffed — an mmCIF file opens with a `data_` block
+ * header, a PDB file with fixed-width record names.
+ * @module services/structure/parser
+ */
+
+import { parseMmcif } from './mmcif.js';
+import { parsePdb } from './pdb.js';
+import type { CoordinateFormat, Structure } from './types.js';
+
+/**
+ * Guess the dialect of coordinate text. mmCIF is recognized by its `data_`
+ * block header or an `_atom_site.` item before the first atom line; anything
+ * else is read as PDB.
+ */
+export function detectFormat(text: string): CoordinateFormat {
+  const head = text.slice(0, 4096);
+  return /^\s*data_/m.test(head) || /^_atom_site\./m.test(head) ? 'cif' : 'pdb';
+}
+
+/** Parse mmCIF or PDB text. Throws `SerializationError` when the text carries no atom sites. */
+export function parseStructure(
+  text: string,
+  format: CoordinateFormat = detectFormat(text),
+): Structure {
+  return format === 'cif' ? parseMmcif(text) : parsePdb(text);
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Legacy PDB-format reader — fixed-column `ATOM` / `HETATM` records
+ * plus `MODEL` / `ENDMDL` framing, projected to {@link AtomSiteRecord}s. PDB has
+ * no label-ID scheme, so label fields stay absent. Blank element columns (common
+ * in older depositions and tool output) fall back to the atom-name alignment
+ * rule. Hybrid-36 serials past 99,999 don't parse as decimal; those atoms take
+ * their ordinal position instead.
+ * @module services/structure/pdb
+ */
+
+import { serializationError } from '@cyanheads/mcp-ts-core/errors';
+import { type AtomSiteRecord, assembleStructure, elementFromAtomName } from './atom-site.js';
+import type { Atom, Structure } from './types.js';
+
+/** Parse PDB-format text into a {@link Structure}. Throws `SerializationError` when no atom records are found. */
+export function parsePdb(text: string): Structure {
+  const lines = text.split(/\r?\n/);
+  const header = lines.find((l) => l.startsWith('HEADER'));
+  const id = header?.slice(62, 66).trim();
+  const records = [...toRecords(lines)];
+  if (records.length === 0) {
+    throw serializationError('PDB text has no ATOM/HETATM records — not a coordinate file.');
+  }
+  return assembleStructure('pdb', id || undefined, records);
+}
+
+function* toRecords(lines: string[]): Generator<AtomSiteRecord> {
+  let modelNumber = 1;
+  let ordinal = 0;
+  for (const line of lines) {
+    if (line.startsWith('MODEL ')) {
+      const n = Number.parseInt(line.slice(10, 14), 10);
+      if (Number.isFinite(n)) modelNumber = n;
+      continue;
+    }
+    const record = line.slice(0, 6);
+    if (record !== 'ATOM  ' && record !== 'HETATM') continue;
+    ordinal++;
+    const rawName = line.slice(12, 16);
+    const altLoc = line.slice(16, 17).trim();
+    const insCode = line.slice(26, 27).trim();
+    const occupancy = Number.parseFloat(line.slice(54, 60));
+    const bFactor = Number.parseFloat(line.slice(60, 66));
+    const charge = parseCharge(line.slice(78, 80));
+    const serial = Number.parseInt(line.slice(6, 11), 10);
+    const atom: Atom = {
+      id: Number.isFinite(serial) ? serial : ordinal,
+      name: rawName.trim(),
+      element: line.slice(76, 78).trim().toUpperCase() || elementFromAtomName(rawName),
+      ...(altLoc ? { altLoc } : {}),
+      x: Number.parseFloat(line.slice(30, 38)),
+      y: Number.parseFloat(line.slice(38, 46)),
+      z: Number.parseFloat(line.slice(46, 54)),
+      occupancy: Number.isFinite(occupancy) ? occupancy : 1,
+      bFactor: Number.isFinite(bFactor) ? bFactor : 0,
+      ...(charge ? { charge } : {}),
+      hetero: record === 'HETATM',
+    };
+    if (![atom.x, atom.y, atom.z].every(Number.isFinite)) {
+      throw serializationError(`PDB atom record ${ordinal} has unreadable coordinates: ${line}`);
+    }
+    yield {
+      atom,
+      authAsymId: line.slice(21, 22).trim(),
+      authSeqId: Number.parseInt(line.slice(22, 26), 10) || 0,
+      compId: line.slice(17, 20).trim() || 'UNK',
+      ...(insCode ? { insCode } : {}),
+      modelNumber,
+    };
+  }
+}
+
+/** PDB charge column: `2+` / `1-` → signed integer; blank → undefined. */
+function parseCharge(col: string): number | undefined {
+  const m = /^(\d)([+-])$/.exec(col.trim());
+  if (!m) return;
+  return Number(m[1]) * (m[2] === '-' ? -1 : 1);
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Amino-acid residue chemistry shared by the structure analyses:
+ * the one-letter codes of the genetically encoded amino acids, and the modified
+ * residues deposited entries carry in their place (often as HETATM), each with
+ * the standard residue it derives from. Selection, secondary structure, and
+ * accessibility all read their residue tables from here.
+ * @module services/structure/residues
+ */
+
+/** One-letter codes by component ID, selenocysteine (U) and pyrrolysine (O) included. */
+export const ONE_LETTER_CODES: Readonly<Record<string, string>> = {
+  ALA: 'A',
+  ARG: 'R',
+  ASN: 'N',
+  ASP: 'D',
+  CYS: 'C',
+  GLN: 'Q',
+  GLU: 'E',
+  GLY: 'G',
+  HIS: 'H',
+  ILE: 'I',
+  LEU: 'L',
+  LYS: 'K',
+  MET: 'M',
+  PHE: 'F',
+  PRO: 'P',
+  SER: 'S',
+  THR: 'T',
+  TRP: 'W',
+  TYR: 'Y',
+  VAL: 'V',
+  SEC: 'U',
+  PYL: 'O',
+};
+
+/**
+ * Modified and non-standard amino acids → the standard residue they derive
+ * from. Selenocysteine and pyrrolysine keep their own one-letter codes above.
+ */
+export const PARENT_RESIDUES: Readonly<Record<string, string>> = {
+  MSE: 'MET',
+  SEC: 'CYS',
+  PYL: 'LYS',
+  SEP: 'SER',
+  TPO: 'THR',
+  PTR: 'TYR',
+  HYP: 'PRO',
+  MLY: 'LYS',
+  CSO: 'CYS',
+  KCX: 'LYS',
+};
+
+/** One-letter code of an amino acid, a modified one taking its parent's; undefined for anything else. */
+export function oneLetterCode(compId: string): string | undefined {
+  return ONE_LETTER_CODES[compId] ?? ONE_LETTER_CODES[PARENT_RESIDUES[compId] ?? ''];
+}
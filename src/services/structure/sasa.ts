@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Solvent-accessible surface area by the Shrake–Rupley method:
+ * every heavy atom is inflated by the probe radius, a fixed set of test points
+ * is laid on each inflated sphere (golden-section spiral), and the fraction of
+ * points not inside any neighbouring sphere scales the sphere's area. Polymer
+ * residues only — waters and ligands are left out, as FreeSASA does by default —
+ * with element radii after Bondi and the first conformer of each atom. Relative
+ * accessibility divides a residue's area by the theoretical maximum of Tien et
+ * al. 2013. Burial is measured per chain against the chain alone, and per chain
+ * pair against the pair alone, so an interface's area does not depend on what
+ * else is in the model. Pure and deterministic.
+ * @module services/structure/sasa
+ */
+
+import { PARENT_RESIDUES } from './residues.js';
+import { isPolymerResidue } from './selection.js';
+import type { Atom, Model, Residue } from './types.js';
+
+/** Sampling knobs; defaults follow FreeSASA's Shrake–Rupley settings. */
+export interface SasaOptions {
+  /** Test points per atom sphere; more is slower and more precise. */
+  points?: number;
+  /** Solvent probe radius (Å). */
+  probeRadius?: number;
+}
+
+/** Accessibility of one polymer residue. */
+export interface ResidueSasa {
+  /** Area lost to other chains (Å²) — isolated-chain minus in-model area; absent when nothing is buried. */
+  buriedSasa?: number;
+  /** `sasa` over the residue type's maximum (0–1, can slightly exceed 1); amino acids only. */
+  relativeSasa?: number;
+  residue: Residue;
+  /** Accessible area in the full model (Å²). */
+  sasa: number;
+}
+
+/** Accessibility of one chain's polymer residues. */
+export interface ChainSasa {
+  /** Area the chain loses to every other chain together (Å²). */
+  buriedSasa: number;
+  /** Author chain ID. */
+  chain: string;
+  /** Area of the chain on its own (Å²). */
+  isolatedSasa: number;
+  /** Per residue, in chain order. */
+  residues: ResidueSasa[];
+  /** Area in the full model (Å²). */
+  sasa: number;
+}
+
+/** Surface buried between two chains. */
+export interface InterfaceSasa {
+  /**
+   * Total buried surface, both sides (Å²): the two isolated chains' area minus
+   * the pair's. Half of it is the conventional "interface area".
+   */
+  buriedSasa: number;
+  /** The two author chain IDs, in model order. */
+  chains: [string, string];
+}
+
+/** SASA of one model. */
+export interface ModelSasa {
+  /** Chains with polymer residues, in model order. */
+  chains: ChainSasa[];
+  /** Chain pairs that bury surface, in model order. */
+  interfaces: InterfaceSasa[];
+  /** Area of the whole model (Å²). */
+  sasa: number;
+}
+
+export const DEFAULT_PROBE_RADIUS = 1.4;
+export const DEFAULT_SASA_POINTS = 100;
+
+/** Heavy-atom van der Waals radii (Å), Bondi 1964; unlisted elements take {@link DEFAULT_RADIUS}. */
+const RADII: Record<string, number> = {
+  C: 1.7,
+  N: 1.55,
+  O: 1.52,
+  S: 1.8,
+  P: 1.8,
+  SE: 1.9,
+  F: 1.47,
+  CL: 1.75,
+  BR: 1.85,
+  I: 1.98,
+};
+const DEFAULT_RADIUS = 1.8;
+
+/** Theoretical maximum accessibility (Å²) per residue type, Tien et al. 2013. */
+const MAX_SASA: Record<string, number> = {
+  ALA: 129,
+  ARG: 274,
+  ASN: 195,
+  ASP: 193,
+  CYS: 167,
+  GLN: 225,
+  GLU: 223,
+  GLY: 104,
+  HIS: 224,
+  ILE: 197,
+  LEU: 201,
+  LYS: 236,
+  MET: 224,
+  PHE: 240,
+  PRO: 159,
+  SER: 155,
+  THR: 172,
+  TRP: 285,
+  TYR: 263,
+  VAL: 174,
+};
+
+/** One inflated atom sphere. */
+interface Sphere {
+  /** Index into the polymer chains that carry spheres. */
+  chain: number;
+  /** Van der Waals radius plus probe. */
+  radius: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Maximum accessibility (Å²) of a residue type — a modified one scored as its parent — or `undefined` for non-amino-acids. */
+export function maxSasaOf(compId: string): number | undefined {
+  return MAX_SASA[PARENT_RESIDUES[compId] ?? compId];
+}
+
+/** Compute per-residue, per-chain, and interface accessibility for one model. */
+export function computeSasa(model: Model, options: SasaOptions = {}): ModelSasa {
+  const probe = options.probeRadius ?? DEFAULT_PROBE_RADIUS;
+  const points = spherePoints(options.points ?? DEFAULT_SASA_POINTS);
+
+  const spheres: Sphere[] = [];
+  /** Sphere index range per residue, per chain. */
+  const layout: Array<{
+    chain: string;
+    residues: Array<{ residue: Residue; from: number; to: number }>;
+  }> = [];
+  for (const chain of model.chains) {
+    const residues: Array<{ residue: Residue; from: number; to: number }> = [];
+    for (const residue of chain.residues) {
+      if (!isPolymerResidue(residue)) continue;
+      const from = spheres.length;
+      for (const atom of heavyAtoms(residue)) {
+        spheres.push({
+          chain: layout.length,
+          radius: (RADII[atom.element] ?? DEFAULT_RADIUS) + probe,
+          x: atom.x,
+          y: atom.y,
+          z: atom.z,
+        });
+      }
+      if (spheres.length > from) residues.push({ residue, from, to: spheres.length });
+    }
+    if (residues.length > 0) layout.push({ chain: chain.id, residues });
+  }
+
+  const neighbours = neighbourLists(spheres);
+  const inModel = spheres.map((_, i) => exposedArea(i, spheres, neighbours[i] as number[], points));
+
+  // Only atoms touching another chain can change area when that chain is removed.
+  const isolated = Float64Array.from(inModel);
+  /** Area lost per chain pair, keyed `low * chainCount + high` so key order is model order. */
+  const pairLoss = new Map<number, number>();
+  const chainCount = layout.length;
+  for (let i = 0; i < spheres.length; i++) {
+    const own = (spheres[i] as Sphere).chain;
+    const near = neighbours[i] as number[];
+    const partners = new Set<number>();
+    for (const j of near) {
+      const c = (spheres[j] as Sphere).chain;
+      if (c !== own) partners.add(c);
+    }
+    if (partners.size === 0) continue;
+    const inChain = (j: number) => (spheres[j] as Sphere).chain === own;
+    isolated[i] = exposedArea(i, spheres, near.filter(inChain), points);
+    for (const partner of partners) {
+      const inPair = near.filter((j) => {
+        const c = (spheres[j] as Sphere).chain;
+        return c === own || c === partner;
+      });
+      const loss = (isolated[i] as number) - exposedArea(i, spheres, inPair, points);
+      const key = Math.min(own, partner) * chainCount + Math.max(own, partner);
+      pairLoss.set(key, (pairLoss.get(key) ?? 0) + loss);
+    }
+  }
+
+  const sum = (values: ArrayLike<number>, from: number, to: number) => {
+    let s = 0;
+    for (let k = from; k < to; k++) s += values[k] as number;
+    return s;
+  };
+  const chains: ChainSasa[] = layout.map(({ chain, residues }) => {
+    const rows: ResidueSasa[] = residues.map(({ residue, from, to }) => {
+      const sasa = sum(inModel, from, to);
+      const buried = sum(isolated, from, to) - sasa;
+      const max = maxSasaOf(residue.compId);
+      return {
+        residue,
+        sasa: round(sasa),
+        ...(max ? { relativeSasa: round(sasa / max, 3) } : {}),
+        ...(buried >= 0.005 ? { buriedSasa: round(buried) } : {}),
+      };
+    });
+    const from = residues[0]?.from ?? 0;
+    const to = residues[residues.length - 1]?.to ?? 0;
+    const sasa = sum(inModel, from, to);
+    const isolatedSasa = sum(isolated, from, to);
+    return {
+      chain,
+      sasa: round(sasa),
+      isolatedSasa: round(isolatedSasa),
+      buriedSasa: round(isolatedSasa - sasa),
+      residues: rows,
+    };
+  });
+
+  const interfaces: InterfaceSasa[] = [];
+  for (const key of [...pairLoss.keys()].sort((a, b) => a - b)) {
+    const buriedSasa = round(pairLoss.get(key) ?? 0);
+    if (buriedSasa <= 0) continue;
+    const a = Math.floor(key / chainCount);
+    const b = key % chainCount;
+    interfaces.push({ chains: [layout[a]?.chain ?? '', layout[b]?.chain ?? ''], buriedSasa });
+  }
+
+  return { sasa: round(sum(inModel, 0, spheres.length)), chains, interfaces };
+}
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+/** Non-hydrogen atoms, first conformer only (the first site per atom name). */
+function heavyAtoms(residue: Residue): Atom[] {
+  const seen = new Set<string>();
+  const atoms: Atom[] = [];
+  for (const atom of residue.atoms) {
+    if (atom.element === 'H' || atom.element === 'D' || seen.has(atom.name)) continue;
+    seen.add(atom.name);
+    atoms.push(atom);
+  }
+  return atoms;
+}
+
+/** `n` near-uniform unit vectors on a golden-section spiral. */
+function spherePoints(n: number): Float64Array {
+  const out = new Float64Array(n * 3);
+  const increment = Math.PI * (3 - Math.sqrt(5));
+  for (let k = 0; k < n; k++) {
+    const y = 1 - (2 * (k + 0.5)) / n;
+    const r = Math.sqrt(1 - y * y);
+    const phi = k * increment;
+    out[k * 3] = Math.cos(phi) * r;
+    out[k * 3 + 1] = y;
+    out[k * 3 + 2] = Math.sin(phi) * r;
+  }
+  return out;
+}
+
+/**
+ * Overlapping spheres per sphere. Spheres are bucketed on a grid one largest
+ * diameter wide, so each sphere checks only the 27 neighbouring cells.
+ */
+function neighbourLists(spheres: Sphere[]): number[][] {
+  const size = 2 * spheres.reduce((m, s) => Math.max(m, s.radius), 0) || 1;
+  const cell = (v: number) => Math.floor(v / size);
+  const grid = new Map<string, number[]>();
+  spheres.forEach((s, i) => {
+    const key = `${cell(s.x)},${cell(s.y)},${cell(s.z)}`;
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  });
+  return spheres.map((s, i) => {
+    const near: number[] = [];
+    const cx = cell(s.x);
+    const cy = cell(s.y);
+    const cz = cell(s.z);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const j of grid.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            if (j === i) continue;
+            const t = spheres[j] as Sphere;
+            const reach = s.radius + t.radius;
+            if ((s.x - t.x) ** 2 + (s.y - t.y) ** 2 + (s.z - t.z) ** 2 < reach * reach)
+              near.push(j);
+          }
+        }
+      }
+    }
+    return near;
+  });
+}
+
+/** Accessible area of sphere `i` (Å²) given the spheres that may occlude it. */
+function exposedArea(
+  i: number,
+  spheres: Sphere[],
+  near: readonly number[],
+  points: Float64Array,
+): number {
+  const s = spheres[i] as Sphere;
+  const n = points.length / 3;
+  let exposed = 0;
+  // Start each point's scan at the sphere that buried the previous one — neighbouring points
+  // are usually buried by the same atom, which makes most checks one comparison.
+  let last = 0;
+  for (let k = 0; k < n; k++) {
+    const px = s.x + s.radius * (points[k * 3] as number);
+    const py = s.y + s.radius * (points[k * 3 + 1] as number);
+    const pz = s.z + s.radius * (points[k * 3 + 2] as number);
+    let buried = false;
+    for (let m = 0; m < near.length; m++) {
+      const idx = (last + m) % near.length;
+      const t = spheres[near[idx] as number] as Sphere;
+      if ((px - t.x) ** 2 + (py - t.y) ** 2 + (pz - t.z) ** 2 < t.radius * t.radius) {
+        buried = true;
+        last = idx;
+        break;
+      }
+    }
+    if (!buried) exposed++;
+  }
+  return (4 * Math.PI * s.radius * s.radius * exposed) / n;
+}
+
+function round(v: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(v * f) / f;
+}
@@ -0,0 +1,401 @@
+/**
+ * @fileoverview Atom-selection language over the parsed structure model — the
+ * small PyMOL-flavoured grammar `protein_get_structure` accepts so an agent can
+ * pull one chain, a residue range, or a binding pocket instead of a whole file.
+ *
+ * ```
+ * expr    := or
+ * or      := and ("or" and)*
+ * and     := unary ("and" unary)*
+ * unary   := "not" unary | postfix
+ * postfix := primary ("around" <Å>)*
+ * primary := "(" expr ")" | keyword
+ * ```
+ *
+ * Keywords: `all`, `protein`, `nucleic`, `water`, `ligand [comp,…]`, `hetero`,
+ * `hydrogen`, `backbone`, `chain <id,…>`, `resi <n|n-m,…>` (author numbering),
+ * `resn <comp,…>`, `name <atom,…>`, `elem <symbol,…>`. `X around R` selects every
+ * residue with an atom within R Å of X, together with X itself — so
+ * `ligand STI around 5` is the imatinib pocket *with* the ligand; subtract it
+ * with `and not ligand STI` when only the pocket residues are wanted. Chain IDs
+ * are case-sensitive (large mmCIF entries use both `A` and `a`); component,
+ * atom, and element names are not. Syntax errors throw `InvalidParams` naming
+ * the offending token.
+ * @module services/structure/selection
+ */
+
+import { invalidParams } from '@cyanheads/mcp-ts-core/errors';
+import { ONE_LETTER_CODES, PARENT_RESIDUES } from './residues.js';
+import type { Atom, Chain, Model, Residue, Structure } from './types.js';
+
+/** A compiled selection, reusable across models and structures. */
+export interface Selection {
+  /** Select matching atoms from one model. */
+  select(model: Model): Set<Atom>;
+  /** The expression as written. */
+  readonly source: string;
+}
+
+/** Largest `around` radius accepted — bounds the neighbour search on big assemblies. */
+export const MAX_AROUND_ANGSTROM = 20;
+
+/** Standard and common modified amino acids (modified ones often arrive as HETATM). */
+const AMINO_ACIDS = new Set([
+  ...Object.keys(ONE_LETTER_CODES),
+  ...Object.keys(PARENT_RESIDUES),
+  'UNK',
+]);
+
+const NUCLEOTIDES = new Set(['A', 'C', 'G', 'U', 'I', 'DA', 'DC', 'DG', 'DT', 'DU', 'DI', 'N']);
+
+const WATERS = new Set(['HOH', 'WAT', 'DOD', 'H2O']);
+
+const BACKBONE_ATOMS = new Set(['N', 'CA', 'C', 'O']);
+
+/** True for an amino-acid or nucleotide residue — part of a polymer chain, not a ligand. */
+export function isPolymerResidue(residue: Residue): boolean {
+  return (
+    residue.labelSeqId !== undefined ||
+    AMINO_ACIDS.has(residue.compId) ||
+    NUCLEOTIDES.has(residue.compId)
+  );
+}
+
+/** True for a water molecule. */
+export function isWater(residue: Residue): boolean {
+  return WATERS.has(residue.compId);
+}
+
+/** True for a non-polymer, non-water hetero group (drug, cofactor, ion, buffer). */
+export function isLigand(residue: Residue): boolean {
+  return residue.hetero && !isWater(residue) && !isPolymerResidue(residue);
+}
+
+/** Compile a selection expression. Throws `InvalidParams` on a syntax error. */
+export function parseSelection(source: string): Selection {
+  const parser = new Parser(tokenize(source), source);
+  const node = parser.parseExpression();
+  parser.expectEnd();
+  return {
+    source,
+    select: (model) => evaluate(node, sitesOf(model)),
+  };
+}
+
+/** A selection of one author chain — the programmatic `chain <id>`, immune to IDs that read as keywords. */
+export function chainSelection(chainId: string): Selection {
+  return {
+    source: `chain ${chainId}`,
+    select: (model) =>
+      new Set(
+        model.chains
+          .filter((c) => c.id === chainId)
+          .flatMap((c) => c.residues.flatMap((r) => r.atoms)),
+      ),
+  };
+}
+
+/**
+ * Prune a structure to the atoms a selection matches, in every model. Residues,
+ * chains, and models left empty are dropped; the structure's format and ID carry
+ * over so the result writes back in the source dialect.
+ */
+export function selectStructure(structure: Structure, selection: Selection): Structure {
+  const models: Model[] = [];
+  for (const model of structure.models) {
+    const keep = selection.select(model);
+    const chains: Chain[] = [];
+    for (const chain of model.chains) {
+      const residues: Residue[] = [];
+      for (const residue of chain.residues) {
+        const atoms = residue.atoms.filter((a) => keep.has(a));
+        if (atoms.length > 0) residues.push({ ...residue, atoms });
+      }
+      if (residues.length > 0) chains.push({ id: chain.id, residues });
+    }
+    if (chains.length > 0) models.push({ modelNumber: model.modelNumber, chains });
+  }
+  return { ...structure, models };
+}
+
+/** Number of atoms across every model of a structure. */
+export function countAtoms(structure: Structure): number {
+  let n = 0;
+  for (const m of structure.models) {
+    for (const c of m.chains) for (const r of c.residues) n += r.atoms.length;
+  }
+  return n;
+}
+
+// ─── Tokenizer / parser ──────────────────────────────────────────────────────
+
+type Node =
+  | { kind: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'not'; operand: Node }
+  | { kind: 'around'; operand: Node; radius: number }
+  | { kind: 'leaf'; test: (site: Site) => boolean };
+
+/** One atom in context — what a leaf predicate inspects. */
+interface Site {
+  atom: Atom;
+  chain: Chain;
+  residue: Residue;
+}
+
+function tokenize(source: string): string[] {
+  return source.match(/[()]|[^\s()]+/g) ?? [];
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: string[],
+    private readonly source: string,
+  ) {}
+
+  parseExpression(): Node {
+    let left = this.parseAnd();
+    while (this.peekKeyword() === 'or') {
+      this.pos++;
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  expectEnd(): void {
+    if (this.pos < this.tokens.length) throw this.error(`unexpected "${this.tokens[this.pos]}"`);
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseUnary();
+    while (this.peekKeyword() === 'and') {
+      this.pos++;
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.peekKeyword() === 'not') {
+      this.pos++;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    let node = this.parsePrimary();
+    while (this.peekKeyword() === 'around') {
+      this.pos++;
+      const raw = this.next('a distance in Å after "around"');
+      const radius = Number(raw);
+      if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_AROUND_ANGSTROM) {
+        throw this.error(
+          `"around" takes a distance between 0 and ${MAX_AROUND_ANGSTROM} Å, got "${raw}"`,
+        );
+      }
+      node = { kind: 'around', operand: node, radius };
+    }
+    return node;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next('a selection keyword');
+    if (token === '(') {
+      const inner = this.parseExpression();
+      if (this.tokens[this.pos] !== ')') throw this.error('missing ")"');
+      this.pos++;
+      return inner;
+    }
+    const keyword = token.toLowerCase();
+    switch (keyword) {
+      case 'all':
+      case '*':
+        return leaf(() => true);
+      case 'protein':
+        return leaf((s) => AMINO_ACIDS.has(s.residue.compId) || hasBackbone(s.residue));
+      case 'nucleic':
+        return leaf((s) => NUCLEOTIDES.has(s.residue.compId));
+      case 'water':
+        return leaf((s) => isWater(s.residue));
+      case 'hetero':
+        return leaf((s) => s.atom.hetero);
+      case 'hydrogen':
+        return leaf((s) => s.atom.element === 'H' || s.atom.element === 'D');
+      case 'backbone':
+        return leaf((s) => BACKBONE_ATOMS.has(s.atom.name) && !s.residue.hetero);
+      case 'ligand': {
+        const comps = this.optionalList();
+        return leaf(
+          (s) => isLigand(s.residue) && (!comps || comps.has(s.residue.compId.toUpperCase())),
+        );
+      }
+      case 'chain': {
+        const ids = new Set(this.list('chain'));
+        return leaf((s) => ids.has(s.chain.id));
+      }
+      case 'resi': {
+        const ranges = this.list('resi').map((r) => this.range(r));
+        return leaf((s) =>
+          ranges.some(([lo, hi]) => s.residue.authSeqId >= lo && s.residue.authSeqId <= hi),
+        );
+      }
+      case 'resn': {
+        const comps = new Set(this.list('resn').map((c) => c.toUpperCase()));
+        return leaf((s) => comps.has(s.residue.compId.toUpperCase()));
+      }
+      case 'name': {
+        const names = new Set(this.list('name').map((n) => n.toUpperCase()));
+        return leaf((s) => names.has(s.atom.name.toUpperCase()));
+      }
+      case 'elem': {
+        const elems = new Set(this.list('elem').map((e) => e.toUpperCase()));
+        return leaf((s) => elems.has(s.atom.element));
+      }
+      default:
+        throw this.error(`unknown keyword "${token}"`);
+    }
+  }
+
+  /** A required comma-separated value list following a keyword. */
+  private list(keyword: string): string[] {
+    const raw = this.next(`a value after "${keyword}"`);
+    if (raw === '(' || raw === ')' || KEYWORDS.has(raw.toLowerCase())) {
+      throw this.error(`"${keyword}" needs a value, got "${raw}"`);
+    }
+    return raw.split(',').filter((v) => v.length > 0);
+  }
+
+  /** An optional value list — present only when the next token is not an operator or paren. */
+  private optionalList(): Set<string> | undefined {
+    const raw = this.tokens[this.pos];
+    if (raw === undefined || raw === '(' || raw === ')' || KEYWORDS.has(raw.toLowerCase())) return;
+    this.pos++;
+    return new Set(raw.split(',').map((v) => v.toUpperCase()));
+  }
+
+  /** `n` or `n-m`, negative numbers allowed (`-5--1`). */
+  private range(raw: string): [number, number] {
+    const m = /^(-?\d+)(?:-(-?\d+))?$/.exec(raw);
+    if (!m) throw this.error(`"resi" takes numbers or ranges like 50-120, got "${raw}"`);
+    const lo = Number(m[1]);
+    const hi = m[2] === undefined ? lo : Number(m[2]);
+    return lo <= hi ? [lo, hi] : [hi, lo];
+  }
+
+  private next(expected: string): string {
+    const token = this.tokens[this.pos];
+    if (token === undefined) throw this.error(`expected ${expected} but the expression ended`);
+    this.pos++;
+    return token;
+  }
+
+  private peekKeyword(): string | undefined {
+    return this.tokens[this.pos]?.toLowerCase();
+  }
+
+  private error(detail: string) {
+    return invalidParams(`Invalid selection "${this.source}": ${detail}.`);
+  }
+}
+
+/** Operator and keyword words — never consumed as a value. */
+const KEYWORDS = new Set([
+  'and',
+  'or',
+  'not',
+  'around',
+  'all',
+  'protein',
+  'nucleic',
+  'water',
+  'ligand',
+  'hetero',
+  'hydrogen',
+  'backbone',
+  'chain',
+  'resi',
+  'resn',
+  'name',
+  'elem',
+]);
+
+function leaf(test: (site: Site) => boolean): Node {
+  return { kind: 'leaf', test };
+}
+
+function hasBackbone(residue: Residue): boolean {
+  let n = 0;
+  for (const a of residue.atoms) if (a.name === 'N' || a.name === 'CA' || a.name === 'C') n++;
+  return n >= 3 && !isWater(residue);
+}
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+function sitesOf(model: Model): Site[] {
+  const sites: Site[] = [];
+  for (const chain of model.chains) {
+    for (const residue of chain.residues) {
+      for (const atom of residue.atoms) sites.push({ atom, chain, residue });
+    }
+  }
+  return sites;
+}
+
+function evaluate(node: Node, sites: Site[]): Set<Atom> {
+  switch (node.kind) {
+    case 'leaf':
+      return new Set(sites.filter(node.test).map((s) => s.atom));
+    case 'and': {
+      const left = evaluate(node.left, sites);
+      const right = evaluate(node.right, sites);
+      return new Set([...left].filter((a) => right.has(a)));
+    }
+    case 'or':
+      return new Set([...evaluate(node.left, sites), ...evaluate(node.right, sites)]);
+    case 'not': {
+      const inner = evaluate(node.operand, sites);
+      return new Set(sites.filter((s) => !inner.has(s.atom)).map((s) => s.atom));
+    }
+    case 'around':
+      return around(evaluate(node.operand, sites), node.radius, sites);
+  }
+}
+
+/**
+ * Whole residues with any atom within `radius` Å of the reference atoms, plus the
+ * reference itself. Reference atoms are bucketed on a `radius`-sized grid so each
+ * candidate checks only the 27 neighbouring cells.
+ */
+function around(reference: Set<Atom>, radius: number, sites: Site[]): Set<Atom> {
+  const out = new Set(reference);
+  if (reference.size === 0) return out;
+  const cell = (v: number) => Math.floor(v / radius);
+  const grid = new Map<string, Atom[]>();
+  for (const a of reference) {
+    const key = `${cell(a.x)},${cell(a.y)},${cell(a.z)}`;
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(a);
+    else grid.set(key, [a]);
+  }
+  const r2 = radius * radius;
+  const hitResidues = new Set<Residue>();
+  for (const { atom, residue } of sites) {
+    if (hitResidues.has(residue)) continue;
+    const cx = cell(atom.x);
+    const cy = cell(atom.y);
+    const cz = cell(atom.z);
+    search: for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const b of grid.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            const d2 = (atom.x - b.x) ** 2 + (atom.y - b.y) ** 2 + (atom.z - b.z) ** 2;
+            if (d2 <= r2) {
+              hitResidues.add(residue);
+              break search;
+            }
+          }
+        }
+      }
+    }
+  }
+  for (const { atom, residue } of sites) if (hitResidues.has(residue)) out.add(atom);
+  return out;
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Domain types for parsed coordinate files — the shared structure
+ * model every in-process analysis (selection, secondary structure, SASA,
+ * interactions) runs on. The hierarchy is models → chains → residues → atoms.
+ * Chains group by author chain ID, the identifier agents and papers use ("chain
+ * A"); the mmCIF label IDs ride along on each residue so nothing is lost when a
+ * ligand or the waters sit in their own label asym unit under the same author
+ * chain. Label fields are absent for legacy PDB input, which has no label scheme.
+ * @module services/structure/types
+ */
+
+/** Coordinate file dialect. */
+export type CoordinateFormat = 'cif' | 'pdb';
+
+/** One atom site. */
+export interface Atom {
+  /** Alternate-location indicator (e.g. `A`, `B`); absent for single-conformer sites. */
+  altLoc?: string;
+  /** B-factor (isotropic displacement); the pLDDT column in AlphaFold models. */
+  bFactor: number;
+  /** Formal charge, when recorded and non-zero. */
+  charge?: number;
+  /** Element symbol, upper-cased (`C`, `FE`, `SE`). */
+  element: string;
+  /** True for `HETATM` records (ligands, waters, modified residues). */
+  hetero: boolean;
+  /** Atom-site serial (`_atom_site.id` / PDB columns 7–11). */
+  id: number;
+  /** Atom name (`CA`, `OG1`, `C1'`). */
+  name: string;
+  /** Occupancy 0–1. */
+  occupancy: number;
+  /** Cartesian x coordinate (Å). */
+  x: number;
+  /** Cartesian y coordinate (Å). */
+  y: number;
+  /** Cartesian z coordinate (Å). */
+  z: number;
+}
+
+/** One residue (or ligand / water molecule). */
+export interface Residue {
+  /** Atoms in file order, all alternate locations included. */
+  atoms: Atom[];
+  /** Author residue number. */
+  authSeqId: number;
+  /** Chemical component ID (`ALA`, `HEM`, `HOH`). */
+  compId: string;
+  /** mmCIF entity ID. Absent for PDB input. */
+  entityId?: string;
+  /** True when the residue's atoms are `HETATM` records. */
+  hetero: boolean;
+  /** PDB insertion code; absent when blank. */
+  insCode?: string;
+  /** mmCIF label asym ID (distinguishes polymer, ligand, and water units). Absent for PDB input. */
+  labelAsymId?: string;
+  /** mmCIF label sequence index into the entity sequence; absent for non-polymers and PDB input. */
+  labelSeqId?: number;
+}
+
+/** One chain, grouped by author chain ID. */
+export interface Chain {
+  /** Author chain ID (`A`). */
+  id: string;
+  /** Residues in file order. */
+  residues: Residue[];
+}
+
+/** One model (NMR ensembles carry several; crystal structures one). */
+export interface Model {
+  /** Chains in order of first appearance. */
+  chains: Chain[];
+  /** Model number as written in the file (1-based). */
+  modelNumber: number;
+}
+
+/** A parsed coordinate file. */
+export interface Structure {
+  /** Dialect the text was parsed from. */
+  format: CoordinateFormat;
+  /** Entry ID from the `data_` block or PDB `HEADER`, when present. */
+  id?: string;
+  /** Models in file order. */
+  models: Model[];
+}
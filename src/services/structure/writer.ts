@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Serializes a {@link Structure} back to coordinate text — the
+ * inverse of the readers, used to hand an agent just the atoms a selection
+ * kept. mmCIF output is a single `_atom_site` loop carrying the same columns
+ * the reader projects (label and auth IDs both, so downstream tools that key on
+ * either still work); PDB output is fixed-column `ATOM` / `HETATM` records with
+ * `MODEL` / `ENDMDL` framing only when there is more than one model. Neither
+ * round-trips categories the model never held (cell, secondary structure,
+ * connectivity) — the result is a valid coordinate file, not a full entry.
+ * @module services/structure/writer
+ */
+
+import type { Atom, Chain, CoordinateFormat, Model, Residue, Structure } from './types.js';
+
+const ATOM_SITE_FIELDS = [
+  'group_PDB',
+  'id',
+  'type_symbol',
+  'label_atom_id',
+  'label_alt_id',
+  'label_comp_id',
+  'label_asym_id',
+  'label_entity_id',
+  'label_seq_id',
+  'pdbx_PDB_ins_code',
+  'Cartn_x',
+  'Cartn_y',
+  'Cartn_z',
+  'occupancy',
+  'B_iso_or_equiv',
+  'pdbx_formal_charge',
+  'auth_seq_id',
+  'auth_comp_id',
+  'auth_asym_id',
+  'auth_atom_id',
+  'pdbx_PDB_model_num',
+];
+
+/** Write a structure in the given dialect (defaults to the one it was read from). */
+export function writeStructure(
+  structure: Structure,
+  format: CoordinateFormat = structure.format,
+): string {
+  return format === 'cif' ? writeMmcif(structure) : writePdb(structure);
+}
+
+/** Write a structure as an mmCIF data block holding one `_atom_site` loop. */
+export function writeMmcif(structure: Structure): string {
+  const lines = [`data_${structure.id ?? 'selection'}`, '#', 'loop_'];
+  for (const field of ATOM_SITE_FIELDS) lines.push(`_atom_site.${field}`);
+  for (const { model, chain, residue, atom } of walk(structure)) {
+    const name = cifValue(atom.name);
+    lines.push(
+      [
+        atom.hetero ? 'HETATM' : 'ATOM',
+        atom.id,
+        cifValue(atom.element),
+        name,
+        cifValue(atom.altLoc),
+        cifValue(residue.compId),
+        cifValue(residue.labelAsymId ?? chain.id),
+        cifValue(residue.entityId),
+        residue.labelSeqId ?? '.',
+        cifValue(residue.insCode, '?'),
+        atom.x.toFixed(3),
+        atom.y.toFixed(3),
+        atom.z.toFixed(3),
+        atom.occupancy.toFixed(2),
+        atom.bFactor.toFixed(2),
+        atom.charge ?? '?',
+        residue.authSeqId,
+        cifValue(residue.compId),
+        cifValue(chain.id),
+        name,
+        model.modelNumber,
+      ].join(' '),
+    );
+  }
+  lines.push('#', '');
+  return lines.join('\n');
+}
+
+/** Write a structure as legacy PDB records. Chain IDs longer than one character are truncated. */
+export function writePdb(structure: Structure): string {
+  const lines: string[] = [];
+  if (structure.id) lines.push(`HEADER${' '.repeat(56)}${structure.id.slice(0, 4)}`);
+  const framed = structure.models.length > 1;
+  for (const model of structure.models) {
+    if (framed) lines.push(`MODEL     ${String(model.modelNumber).padStart(4)}`);
+    for (const chain of model.chains) {
+      let last: { atom: Atom; residue: Residue } | undefined;
+      for (const residue of chain.residues) {
+        for (const atom of residue.atoms) {
+          lines.push(pdbAtomLine(chain, residue, atom));
+          if (!residue.hetero) last = { atom, residue };
+        }
+      }
+      if (last) {
+        const { atom, residue } = last;
+        lines.push(
+          `TER   ${serial(atom.id + 1)}      ${residue.compId.slice(0, 3).padStart(3)} ${chain.id.slice(0, 1)}${String(residue.authSeqId).padStart(4)}${residue.insCode ?? ' '}`,
+        );
+      }
+    }
+    if (framed) lines.push('ENDMDL');
+  }
+  lines.push('END', '');
+  return lines.join('\n');
+}
+
+function* walk(
+  structure: Structure,
+): Generator<{ model: Model; chain: Chain; residue: Residue; atom: Atom }> {
+  for (const model of structure.models) {
+    for (const chain of model.chains) {
+      for (const residue of chain.residues) {
+        for (const atom of residue.atoms) yield { model, chain, residue, atom };
+      }
+    }
+  }
+}
+
+/** Quote a CIF value when it holds whitespace or would read as syntax; null markers for absent values. */
+function cifValue(value: string | undefined, absent = '.'): string {
+  if (value === undefined || value === '') return absent;
+  if (/^[_#$'";[\]]|^(data|loop|save|global|stop)_|^[.?]$/i.test(value) || /\s/.test(value)) {
+    return value.includes("'") ? `"${value}"` : `'${value}'`;
+  }
+  return value;
+}
+
+function pdbAtomLine(chain: Chain, residue: Residue, atom: Atom): string {
+  const record = atom.hetero ? 'HETATM' : 'ATOM  ';
+  const charge = atom.charge ? `${Math.abs(atom.charge)}${atom.charge < 0 ? '-' : '+'}` : '  ';
+  return [
+    record,
+    serial(atom.id),
+    ' ',
+    pdbAtomName(atom),
+    (atom.altLoc ?? ' ').slice(0, 1),
+    residue.compId.slice(0, 3).padStart(3),
+    ' ',
+    chain.id.slice(0, 1).padStart(1),
+    String(residue.authSeqId).padStart(4),
+    (residue.insCode ?? ' ').slice(0, 1),
+    '   ',
+    atom.x.toFixed(3).padStart(8),
+    atom.y.toFixed(3).padStart(8),
+    atom.z.toFixed(3).padStart(8),
+    atom.occupancy.toFixed(2).padStart(6),
+    atom.bFactor.toFixed(2).padStart(6),
+    ' '.repeat(10),
+    atom.element.slice(0, 2).padStart(2),
+    charge,
+  ].join('');
+}
+
+/** Serial in columns 7–11; values past 99,999 wrap rather than overflow the column. */
+function serial(id: number): string {
+  return String(id % 100_000).padStart(5);
+}
+
+/**
+ * Columns 13–16 alignment: a one-letter element's name starts in column 14
+ * (` CA `), a two-letter element or a four-character name starts in column 13.
+ */
+function pdbAtomName(atom: Atom): string {
+  const name = atom.name.slice(0, 4);
+  if (name.length >= 4 || atom.element.length === 2) return name.padEnd(4);
+  return ` ${name}`.padEnd(4);
+}
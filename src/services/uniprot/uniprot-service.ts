@@ -3,6 +3,8 @@
  * function, variants) and the InterPro REST API (domain/family memberships across
  * Pfam, PROSITE, … with GO terms). Backs `protein_get_annotations`. Field
  * selection trims UniProt payloads to what the requested `include` scope needs.
+ * A UniProtKB search (accession prefix or free query) backs resource completion
+ * and listing.
  * @module services/uniprot/uniprot-service
  */
 
@@ -42,6 +44,13 @@ export interface UniProtEntry {
   taxonId?: number;
 }
 
+/** A UniProtKB search hit — enough to label a completion or a listing. */
+export interface AccessionHit {
+  accession: string;
+  organism?: string;
+  proteinName?: string;
+}
+
 /** A GO term annotation. */
 export interface GoTerm {
   category?: string;
@@ -80,6 +89,10 @@ const FEATURE_FIELDS = [
   'ft_region',
 ];
 const VARIANT_FIELDS = ['ft_variant'];
+const HIT_FIELDS = ['accession', 'protein_name', 'organism_name'];
+
+/** A partial accession: a letter, a digit, then up to the eight further characters a long accession carries. */
+const ACCESSION_PREFIX_RE = /^[A-Z][0-9][A-Z0-9]{0,8}$/;
 
 export class UniProtService {
   private readonly uniprotBase: string;
@@ -104,6 +117,7 @@ export class UniProtService {
       operation: 'UniProtService.getEntry',
       label: 'UniProt',
       baseDelayMs: 400,
+      cache: 'annotation',
     });
     return normalizeEntry(accession.toUpperCase(), raw);
   }
@@ -115,10 +129,36 @@ export class UniProtService {
       operation: 'UniProtService.getSequence',
       label: 'UniProt',
       baseDelayMs: 400,
+      cache: 'annotation',
     });
     return raw.sequence?.value ?? null;
   }
 
+  /** Search UniProtKB, returning the accession, name, and organism of each hit. */
+  async searchAccessions(query: string, limit: number, ctx: Context): Promise<AccessionHit[]> {
+    const url = `${this.uniprotBase}/uniprotkb/search?query=${encodeURIComponent(query)}&fields=${HIT_FIELDS.join(',')}&size=${limit}&format=json`;
+    const raw = await fetchJson<RawSearchResponse>(url, ctx, {
+      operation: 'UniProtService.searchAccessions',
+      label: 'UniProt',
+      baseDelayMs: 400,
+      cache: 'search',
+    });
+    return (raw.results ?? [])
+      .filter((r): r is RawUniProtEntry & { primaryAccession: string } => !!r.primaryAccession)
+      .map(normalizeHit);
+  }
+
+  /**
+   * Accessions beginning with `prefix`, for URI-template completion — a
+   * wildcard accession query. Anything that cannot start an accession (under two
+   * characters, or not letter-then-digit) returns none without a request.
+   */
+  findAccessionsByPrefix(prefix: string, limit: number, ctx: Context): Promise<AccessionHit[]> {
+    const head = prefix.trim().toUpperCase();
+    if (!ACCESSION_PREFIX_RE.test(head)) return Promise.resolve([]);
+    return this.searchAccessions(`accession:${head}*`, limit, ctx);
+  }
+
   /** Fetch InterPro domain/family memberships for a UniProt accession. */
   async getInterPro(accession: string, ctx: Context): Promise<InterProEntry[]> {
     const url = `${this.interproBase}/entry/interpro/protein/UniProt/${encodeURIComponent(accession.toUpperCase())}/`;
@@ -129,6 +169,7 @@ export class UniProtService {
         label: 'InterPro',
         baseDelayMs: 400,
         expectedStatuses: [404],
+        cache: 'annotation',
       });
     } catch (err) {
       // InterPro returns 404 when no entries match — that's "no domains", not a failure.
@@ -165,6 +206,15 @@ function normalizeEntry(accession: string, raw: RawUniProtEntry): UniProtEntry {
   };
 }
 
+function normalizeHit(raw: RawUniProtEntry & { primaryAccession: string }): AccessionHit {
+  const proteinName = raw.proteinDescription?.recommendedName?.fullName?.value;
+  return {
+    accession: raw.primaryAccession,
+    ...(proteinName ? { proteinName } : {}),
+    ...(raw.organism?.scientificName ? { organism: raw.organism.scientificName } : {}),
+  };
+}
+
 function normalizeFeature(raw: RawFeature): SequenceFeature {
   const type = raw.type ?? 'Feature';
   return {
@@ -210,6 +260,10 @@ interface RawUniProtEntry {
   sequence?: { length?: number; value?: string };
 }
 
+interface RawSearchResponse {
+  results?: RawUniProtEntry[];
+}
+
 interface RawFeature {
   description?: string;
   location?: { start?: { value?: number }; end?: { value?: number } };
@@ -31,6 +31,7 @@ describe('getServerConfig — defaults', () => {
       foldseekBaseUrl: 'https://search.foldseek.com',
       uniprotBaseUrl: 'https://rest.uniprot.org',
       interproBaseUrl: 'https://www.ebi.ac.uk/interpro/api',
+      pdbeFilesBaseUrl: 'https://www.ebi.ac.uk/pdbe/entry-files/download',
     });
   });
 
@@ -45,6 +46,41 @@ describe('getServerConfig — defaults', () => {
     });
   });
 
+  it('enables the response cache with tiered TTLs and no startup purge', async () => {
+    const cfg = await loadConfig();
+    expect(cfg).toMatchObject({
+      cacheEnabled: true,
+      cachePurgeOnStart: false,
+      cacheEntryTtlSeconds: 604_800,
+      cachePredictionTtlSeconds: 86_400,
+      cacheAnnotationTtlSeconds: 86_400,
+      cacheSearchTtlSeconds: 600,
+    });
+  });
+
+  it('paces UniProt, Foldseek, and the alignment API below the default host rate', async () => {
+    const cfg = await loadConfig();
+    expect(cfg).toMatchObject({
+      rateLimitEnabled: true,
+      rateLimitDefaultRps: 10,
+      rateLimits: { 'rest.uniprot.org': 5, 'search.foldseek.com': 1, 'alignment.rcsb.org': 2 },
+    });
+  });
+
+  it('opens a provider circuit after three failed calls, probing again after 30s', async () => {
+    const cfg = await loadConfig();
+    expect(cfg).toMatchObject({
+      circuitBreakerEnabled: true,
+      circuitFailureThreshold: 3,
+      circuitCooldownMs: 30_000,
+    });
+  });
+
+  it('talks to the live upstreams unless a fixture mode is chosen', async () => {
+    const cfg = await loadConfig();
+    expect(cfg).toMatchObject({ upstreamMode: 'live', fixtureDir: 'fixtures/upstream' });
+  });
+
   it('memoizes — repeated calls return the same instance', async () => {
     vi.resetModules();
     const mod = await import('@/config/server-config.js');
@@ -68,9 +104,60 @@ describe('getServerConfig — overrides', () => {
     expect(cfg.maxBatchIds).toBe(50);
     expect(cfg.asyncPollTimeoutMs).toBe(60_000);
   });
+
+  it('parses the cache switches from "false"/"true" strings, not truthiness', async () => {
+    vi.stubEnv('PROTEIN_CACHE_ENABLED', 'false');
+    vi.stubEnv('PROTEIN_CACHE_PURGE_ON_START', 'true');
+    vi.stubEnv('PROTEIN_CACHE_SEARCH_TTL_SECONDS', '60');
+    const cfg = await loadConfig();
+    expect(cfg.cacheEnabled).toBe(false);
+    expect(cfg.cachePurgeOnStart).toBe(true);
+    expect(cfg.cacheSearchTtlSeconds).toBe(60);
+  });
+
+  it('selects replay mode and a fixture directory', async () => {
+    vi.stubEnv('PROTEIN_UPSTREAM_MODE', 'replay');
+    vi.stubEnv('PROTEIN_FIXTURE_DIR', 'tests/fixtures/upstream');
+    const cfg = await loadConfig();
+    expect(cfg.upstreamMode).toBe('replay');
+    expect(cfg.fixtureDir).toBe('tests/fixtures/upstream');
+  });
+
+  it('tunes or disables the circuit breaker', async () => {
+    vi.stubEnv('PROTEIN_CIRCUIT_BREAKER_ENABLED', 'false');
+    vi.stubEnv('PROTEIN_CIRCUIT_FAILURE_THRESHOLD', '5');
+    vi.stubEnv('PROTEIN_CIRCUIT_COOLDOWN_MS', '10000');
+    const cfg = await loadConfig();
+    expect(cfg.circuitBreakerEnabled).toBe(false);
+    expect(cfg.circuitFailureThreshold).toBe(5);
+    expect(cfg.circuitCooldownMs).toBe(10_000);
+  });
+
+  it('parses per-host rates, lower-casing hosts and skipping blank entries', async () => {
+    vi.stubEnv('PROTEIN_RATE_LIMITS', ' Rest.UniProt.org = 2.5 ,, data.rcsb.org=20');
+    vi.stubEnv('PROTEIN_RATE_LIMIT_DEFAULT_RPS', '4');
+    const cfg = await loadConfig();
+    expect(cfg.rateLimits).toEqual({ 'rest.uniprot.org': 2.5, 'data.rcsb.org': 20 });
+    expect(cfg.rateLimitDefaultRps).toBe(4);
+  });
 });
 
 describe('getServerConfig — validation', () => {
+  it('rejects a malformed rate-limit entry', async () => {
+    vi.stubEnv('PROTEIN_RATE_LIMITS', 'rest.uniprot.org=fast');
+    await expect(loadConfig()).rejects.toThrow(/PROTEIN_RATE_LIMITS|rate-limit entry/);
+  });
+
+  it('rejects a zero rate', async () => {
+    vi.stubEnv('PROTEIN_RATE_LIMITS', 'rest.uniprot.org=0');
+    await expect(loadConfig()).rejects.toThrow(/PROTEIN_RATE_LIMITS|rate-limit entry/);
+  });
+
+  it('rejects an unknown upstream mode', async () => {
+    vi.stubEnv('PROTEIN_UPSTREAM_MODE', 'offline');
+    await expect(loadConfig()).rejects.toThrow(/PROTEIN_UPSTREAM_MODE/);
+  });
+
   it('rejects a non-URL base URL, naming the env var', async () => {
     vi.stubEnv('UNIPROT_BASE_URL', 'not-a-url');
     await expect(loadConfig()).rejects.toThrow(/UNIPROT_BASE_URL/);
@@ -0,0 +1,937 @@
+/**
+ * @fileoverview In-process mock of every upstream the server calls, for
+ * end-to-end integration tests with no network. One `node:http` server on an
+ * ephemeral loopback port answers all eleven base URLs, each mounted under its
+ * own path prefix: RCSB Search v2, the RCSB Data API (GraphQL + chemical-component
+ * REST), RCSB coordinate files, the RCSB alignment submit/poll flow, 3D-Beacons,
+ * AlphaFold DB (prediction + pLDDT/PAE/coordinate files), the Foldseek ticket
+ * flow, UniProt, InterPro, PDBe SIFTS, and PDBe coordinate files. Default
+ * handlers serve a small hemoglobin world ({@link WORLD}) with the upstreams'
+ * real payload shapes and edge behavior — RCSB's 204 for a zero-hit search, 404
+ * for unknown records, the alignment API's 404-until-ready poll, Foldseek's 400
+ * for an unknown ticket. Tests script anything else per route: one-shot or
+ * persistent replies, HTML error pages, slow responses, and jobs that stay
+ * pending for N polls.
+ * @module tests/integration/mock-upstream
+ */
+
+import { readFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ServerConfig } from '@/config/server-config.js';
+
+// ─── Public surface ───────────────────────────────────────────────────────────
+
+/** Every upstream endpoint the mock serves, by route name. */
+export type RouteName =
+  | 'rcsb.search'
+  | 'rcsb.graphql'
+  | 'rcsb.chemcomp'
+  | 'rcsb.files'
+  | 'alignment.submit'
+  | 'alignment.results'
+  | 'beacons.summary'
+  | 'alphafold.prediction'
+  | 'alphafold.files'
+  | 'foldseek.submit'
+  | 'foldseek.ticket'
+  | 'foldseek.result'
+  | 'uniprot.entry'
+  | 'uniprot.search'
+  | 'interpro.entries'
+  | 'sifts.mappings'
+  | 'pdbe.files';
+
+/** A scripted reply. `json` and `text` are mutually exclusive; neither sends an empty body. */
+export interface MockReply {
+  /** Hold the response this long first — for timeout and slow-upstream cases. */
+  delayMs?: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+  status?: number;
+  text?: string;
+}
+
+/** One request the mock received. */
+export interface MockRequest {
+  body: string;
+  method: string;
+  /** Path below the provider prefix, e.g. `/api/prediction/P69905`. */
+  path: string;
+  query: URLSearchParams;
+  route: RouteName | 'unmatched';
+}
+
+export interface MockUpstream {
+  /** Server-config base URLs pointing every provider at the mock. */
+  readonly baseUrls: BaseUrls;
+  close(): Promise<void>;
+  /** The same base URLs keyed by their environment variable. */
+  readonly env: Record<string, string>;
+  /**
+   * Polls an alignment or Foldseek job answers "still computing" before it
+   * completes. Default 0 — ready on the first poll.
+   */
+  jobPolls: number;
+  /** Answer every request to `route` with `reply` until reset. */
+  override(route: RouteName, reply: MockReply): void;
+  /** Requests received on one route. */
+  received(route: RouteName): MockRequest[];
+  /** Every request received since the last {@link MockUpstream.reset}, in arrival order. */
+  readonly requests: MockRequest[];
+  /** Drop scripts, overrides, recorded requests, and job state; restore `jobPolls` to 0. */
+  reset(): void;
+  /** Queue one-shot replies for `route`, consumed in order ahead of the default handler. */
+  script(route: RouteName, ...replies: MockReply[]): void;
+}
+
+type BaseUrls = Pick<
+  ServerConfig,
+  | 'rcsbSearchBaseUrl'
+  | 'rcsbDataBaseUrl'
+  | 'rcsbFilesBaseUrl'
+  | 'rcsbAlignmentBaseUrl'
+  | 'beaconsBaseUrl'
+  | 'alphafoldBaseUrl'
+  | 'foldseekBaseUrl'
+  | 'uniprotBaseUrl'
+  | 'interproBaseUrl'
+  | 'siftsBaseUrl'
+  | 'pdbeFilesBaseUrl'
+>;
+
+/** An upstream HTML error page, as served by a provider's edge under load. */
+export function htmlError(status: number): MockReply {
+  return {
+    status,
+    headers: { 'content-type': 'text/html' },
+    text: `<!DOCTYPE html><html><head><title>${status}</title></head><body><h1>${status} Service Temporarily Unavailable</h1></body></html>`,
+  };
+}
+
+/** Start the mock on an ephemeral loopback port. */
+export async function startMockUpstream(): Promise<MockUpstream> {
+  const scripts = new Map<RouteName, MockReply[]>();
+  const overrides = new Map<RouteName, MockReply>();
+  const requests: MockRequest[] = [];
+  const jobs = new Map<string, number>();
+  let nextJob = 1;
+
+  const server = createServer((req, res) => {
+    void handle(req, res).catch((err: unknown) => {
+      send(res, { status: 500, text: err instanceof Error ? err.message : String(err) });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const baseUrls: BaseUrls = {
+    rcsbSearchBaseUrl: `${origin}/rcsb-search`,
+    rcsbDataBaseUrl: `${origin}/rcsb-data`,
+    rcsbFilesBaseUrl: `${origin}/rcsb-files`,
+    rcsbAlignmentBaseUrl: `${origin}/alignment`,
+    beaconsBaseUrl: `${origin}/beacons`,
+    alphafoldBaseUrl: `${origin}/alphafold`,
+    foldseekBaseUrl: `${origin}/foldseek`,
+    uniprotBaseUrl: `${origin}/uniprot`,
+    interproBaseUrl: `${origin}/interpro`,
+    siftsBaseUrl: `${origin}/sifts`,
+    pdbeFilesBaseUrl: `${origin}/pdbe-files`,
+  };
+
+  const upstream: MockUpstream = {
+    baseUrls,
+    env: {
+      RCSB_SEARCH_BASE_URL: baseUrls.rcsbSearchBaseUrl,
+      RCSB_DATA_BASE_URL: baseUrls.rcsbDataBaseUrl,
+      RCSB_FILES_BASE_URL: baseUrls.rcsbFilesBaseUrl,
+      RCSB_ALIGNMENT_BASE_URL: baseUrls.rcsbAlignmentBaseUrl,
+      BEACONS_BASE_URL: baseUrls.beaconsBaseUrl,
+      ALPHAFOLD_BASE_URL: baseUrls.alphafoldBaseUrl,
+      FOLDSEEK_BASE_URL: baseUrls.foldseekBaseUrl,
+      UNIPROT_BASE_URL: baseUrls.uniprotBaseUrl,
+      INTERPRO_BASE_URL: baseUrls.interproBaseUrl,
+      SIFTS_BASE_URL: baseUrls.siftsBaseUrl,
+      PDBE_FILES_BASE_URL: baseUrls.pdbeFilesBaseUrl,
+    },
+    jobPolls: 0,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+    override: (route, reply) => {
+      overrides.set(route, reply);
+    },
+    received: (route) => requests.filter((r) => r.route === route),
+    reset: () => {
+      scripts.clear();
+      overrides.clear();
+      requests.length = 0;
+      jobs.clear();
+      upstream.jobPolls = 0;
+    },
+    script: (route, ...replies) => {
+      scripts.set(route, [...(scripts.get(route) ?? []), ...replies]);
+    },
+  };
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', origin);
+    const body = await readBody(req);
+    const match = matchRoute(req.method ?? 'GET', url.pathname);
+    const request: MockRequest = {
+      body,
+      method: req.method ?? 'GET',
+      path: match?.path ?? url.pathname,
+      query: url.searchParams,
+      route: match?.route ?? 'unmatched',
+    };
+    requests.push(request);
+    if (!match) return send(res, { status: 404, json: { detail: 'Not Found' } });
+
+    const scripted = scripts.get(match.route)?.shift() ?? overrides.get(match.route);
+    const reply = scripted ?? defaultReply(match.route, match.params, request);
+    if (reply.delayMs) await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+    send(res, reply);
+  }
+
+  /** The world's answer for a route — each mirrors its upstream's real behavior. */
+  function defaultReply(
+    route: RouteName,
+    params: Record<string, string>,
+    request: MockRequest,
+  ): MockReply {
+    switch (route) {
+      case 'rcsb.search':
+        return searchReply(JSON.parse(request.body) as SearchBody);
+      case 'rcsb.graphql':
+        return { json: graphqlReply(JSON.parse(request.body) as GraphqlBody) };
+      case 'rcsb.chemcomp':
+        return found(WORLD.chemComps[param(params, 'id')]);
+      case 'rcsb.files':
+        return textFound(WORLD.files[param(params, 'file')]);
+      case 'alignment.submit': {
+        const uuid = `align-${nextJob++}`;
+        jobs.set(uuid, 0);
+        return { text: JSON.stringify(uuid) };
+      }
+      case 'alignment.results': {
+        // The alignment API holds 404 until a job is computed — and for an unknown UUID.
+        const uuid = request.query.get('uuid') ?? '';
+        return pollJob(uuid) ? { json: WORLD.alignment } : { status: 404, text: '' };
+      }
+      case 'beacons.summary': {
+        const summary = WORLD.beacons[param(params, 'acc')];
+        return summary ? { json: withModelUrls(summary, origin) } : notFoundReply();
+      }
+      case 'alphafold.prediction': {
+        const prediction = WORLD.predictions[param(params, 'acc')];
+        return prediction ? { json: [withFileUrls(prediction, origin)] } : notFoundReply();
+      }
+      case 'alphafold.files':
+        return alphafoldFile(param(params, 'file'));
+      case 'foldseek.submit': {
+        const id = `ticket-${nextJob++}`;
+        jobs.set(id, 0);
+        return { json: { id, status: 'PENDING' } };
+      }
+      case 'foldseek.ticket': {
+        const id = param(params, 'id');
+        if (!jobs.has(id)) return { status: 400, json: { error: 'invalid ID' } };
+        return { json: { id, status: pollJob(id) ? 'COMPLETE' : 'RUNNING' } };
+      }
+      case 'foldseek.result':
+        return jobs.has(param(params, 'id'))
+          ? { json: WORLD.foldseekResult }
+          : { status: 400, json: { error: 'invalid ID' } };
+      case 'uniprot.entry':
+        return found(WORLD.uniprot[param(params, 'acc')]);
+      case 'uniprot.search':
+        return { json: { results: uniprotSearch(request.query.get('query') ?? '') } };
+      case 'interpro.entries': {
+        const results = WORLD.interpro[param(params, 'acc')];
+        return results ? { json: { count: results.length, results } } : notFoundReply();
+      }
+      case 'sifts.mappings':
+        return found(WORLD.sifts[param(params, 'id')]);
+      case 'pdbe.files':
+        return textFound(WORLD.files[pdbeFileName(param(params, 'file'))]);
+    }
+  }
+
+  /** Count one poll of a job; true once it has been polled past `jobPolls`. */
+  function pollJob(id: string): boolean {
+    const polls = jobs.get(id);
+    if (polls === undefined) return false;
+    jobs.set(id, polls + 1);
+    return polls >= upstream.jobPolls;
+  }
+
+  return upstream;
+}
+
+// ─── Routing ──────────────────────────────────────────────────────────────────
+
+const ROUTES: Array<{ route: RouteName; method: string; pattern: RegExp }> = [
+  { route: 'rcsb.search', method: 'POST', pattern: /^\/rcsb-search(\/rcsbsearch\/v2\/query)$/ },
+  { route: 'rcsb.graphql', method: 'POST', pattern: /^\/rcsb-data(\/graphql)$/ },
+  {
+    route: 'rcsb.chemcomp',
+    method: 'GET',
+    pattern: /^\/rcsb-data(\/rest\/v1\/core\/chemcomp\/(?<id>[^/]+))$/,
+  },
+  { route: 'rcsb.files', method: 'GET', pattern: /^\/rcsb-files(\/download\/(?<file>[^/]+))$/ },
+  {
+    route: 'alignment.submit',
+    method: 'POST',
+    pattern: /^\/alignment(\/api\/v1\/structures\/submit)$/,
+  },
+  {
+    route: 'alignment.results',
+    method: 'GET',
+    pattern: /^\/alignment(\/api\/v1\/structures\/results)$/,
+  },
+  {
+    route: 'beacons.summary',
+    method: 'GET',
+    pattern: /^\/beacons(\/uniprot\/summary\/(?<acc>[^/]+)\.json)$/,
+  },
+  {
+    route: 'alphafold.prediction',
+    method: 'GET',
+    pattern: /^\/alphafold(\/api\/prediction\/(?<acc>[^/]+))$/,
+  },
+  { route: 'alphafold.files', method: 'GET', pattern: /^\/alphafold(\/files\/(?<file>[^/]+))$/ },
+  { route: 'foldseek.submit', method: 'POST', pattern: /^\/foldseek(\/api\/ticket)$/ },
+  { route: 'foldseek.ticket', method: 'GET', pattern: /^\/foldseek(\/api\/ticket\/(?<id>[^/]+))$/ },
+  {
+    route: 'foldseek.result',
+    method: 'GET',
+    pattern: /^\/foldseek(\/api\/result\/(?<id>[^/]+)\/0)$/,
+  },
+  { route: 'uniprot.search', method: 'GET', pattern: /^\/uniprot(\/uniprotkb\/search)$/ },
+  { route: 'uniprot.entry', method: 'GET', pattern: /^\/uniprot(\/uniprotkb\/(?<acc>[^/]+))$/ },
+  {
+    route: 'interpro.entries',
+    method: 'GET',
+    pattern: /^\/interpro(\/entry\/interpro\/protein\/UniProt\/(?<acc>[^/]+)\/)$/,
+  },
+  {
+    route: 'sifts.mappings',
+    method: 'GET',
+    pattern: /^\/sifts(\/mappings\/uniprot\/(?<id>[^/]+))$/,
+  },
+  { route: 'pdbe.files', method: 'GET', pattern: /^\/pdbe-files(\/(?<file>[^/]+))$/ },
+];
+
+function matchRoute(
+  method: string,
+  pathname: string,
+): { route: RouteName; path: string; params: Record<string, string> } | undefined {
+  for (const r of ROUTES) {
+    if (r.method !== method) continue;
+    const m = r.pattern.exec(pathname);
+    if (m) {
+      return {
+        route: r.route,
+        path: m[1] as string,
+        params: Object.fromEntries(
+          Object.entries(m.groups ?? {}).map(([k, v]) => [k, decodeURIComponent(v)]),
+        ),
+      };
+    }
+  }
+  return;
+}
+
+function param(params: Record<string, string>, name: string): string {
+  return params[name] ?? '';
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, reply: MockReply): void {
+  const status = reply.status ?? 200;
+  const body =
+    reply.json !== undefined
+      ? JSON.stringify(reply.json)
+      : reply.text !== undefined
+        ? reply.text
+        : '';
+  res.writeHead(status, {
+    ...(reply.json !== undefined ? { 'content-type': 'application/json' } : {}),
+    ...reply.headers,
+  });
+  res.end(status === 204 || status === 304 ? undefined : body);
+}
+
+function notFoundReply(): MockReply {
+  return { status: 404, json: { detail: 'Not Found' } };
+}
+
+function found(value: unknown): MockReply {
+  return value === undefined ? notFoundReply() : { json: value };
+}
+
+function textFound(value: string | undefined): MockReply {
+  return value === undefined ? notFoundReply() : { text: value };
+}
+
+/** The RCSB file name for a PDBe download — `4hhb.cif` → `4HHB.cif`, `pdb4hhb.ent` → `4HHB.pdb`. */
+function pdbeFileName(file: string): string {
+  const legacy = /^pdb(?<id>\w{4})\.ent$/.exec(file)?.groups?.id;
+  return legacy ? `${legacy.toUpperCase()}.pdb` : file.replace(/^\w{4}/, (id) => id.toUpperCase());
+}
+
+// ─── RCSB Search ──────────────────────────────────────────────────────────────
+
+interface SearchNode {
+  nodes?: SearchNode[];
+  parameters?: { attribute?: string; operator?: string; value?: unknown };
+  service?: string;
+}
+
+interface SearchBody {
+  query: SearchNode;
+  request_options?: {
+    facets?: Array<{ name: string; attribute: string }>;
+    paginate?: { start: number; rows: number };
+  };
+  return_type: string;
+}
+
+/**
+ * Evaluate the terminals the server emits against the world: full-text over
+ * titles, the entry-ID `in` list, UniProt accession, ligand containment,
+ * chemical-component name search, and chemical search (a component matches when
+ * its SMILES contains the query descriptor). Other terminals (organism, method,
+ * resolution, sequence) match every entry. A zero-hit query answers 204 No
+ * Content, as RCSB does.
+ */
+function searchReply(body: SearchBody): MockReply {
+  const terminals = flatten(body.query);
+  let ids: string[];
+  if (body.return_type === 'mol_definition') {
+    ids = Object.entries(WORLD.chemComps)
+      .filter(([, c]) =>
+        terminals.some((t) =>
+          t.service === 'chemical'
+            ? c.rcsb_chem_comp_descriptor.SMILES.includes(String(t.parameters?.value))
+            : [c.chem_comp.name, ...c.synonyms].some((n) =>
+                n.toLowerCase().includes(String(t.parameters?.value ?? '').toLowerCase()),
+              ),
+        ),
+      )
+      .map(([id]) => id);
+  } else {
+    ids = Object.keys(WORLD.entries).filter((id) => terminals.every((t) => matches(id, t)));
+    if (body.return_type === 'polymer_entity') ids = ids.map((id) => `${id}_1`);
+  }
+  const facets = body.request_options?.facets;
+  const { start = 0, rows = 25 } = body.request_options?.paginate ?? {};
+  if (ids.length === 0) return { status: 204 };
+  return {
+    json: {
+      total_count: ids.length,
+      result_set: ids.slice(start, start + rows).map((identifier, i) => ({
+        identifier,
+        score: 1 - i * 0.01,
+      })),
+      ...(facets
+        ? {
+            facets: facets.map((f) => ({
+              name: f.name,
+              attribute: f.attribute,
+              buckets: [{ label: 'X-RAY DIFFRACTION', population: ids.length }],
+            })),
+          }
+        : {}),
+    },
+  };
+}
+
+function flatten(node: SearchNode): SearchNode[] {
+  return node.nodes ? node.nodes.flatMap(flatten) : [node];
+}
+
+function matches(id: string, t: SearchNode): boolean {
+  const entry = WORLD.entries[id];
+  const { attribute, operator, value } = t.parameters ?? {};
+  if (!entry) return false;
+  if (t.service === 'full_text') {
+    return entry.struct.title.toLowerCase().includes(String(value).toLowerCase());
+  }
+  if (attribute === 'rcsb_entry_container_identifiers.entry_id' && operator === 'in') {
+    return (value as string[]).includes(id);
+  }
+  if (
+    attribute ===
+    'rcsb_polymer_entity_container_identifiers.reference_sequence_identifiers.database_accession'
+  ) {
+    return entry.polymer_entities.some((p) =>
+      p.rcsb_polymer_entity_container_identifiers.reference_sequence_identifiers.some(
+        (r) => r.database_accession === value,
+      ),
+    );
+  }
+  if (attribute === 'rcsb_chem_comp_container_identifiers.comp_id') {
+    return entry.nonpolymer_entities.some(
+      (n) => n.rcsb_nonpolymer_entity_container_identifiers.nonpolymer_comp_id === value,
+    );
+  }
+  return true;
+}
+
+// ─── RCSB GraphQL ─────────────────────────────────────────────────────────────
+
+interface GraphqlBody {
+  query: string;
+  variables: { id?: string; ids?: string[] };
+}
+
+/**
+ * Answer the server's four GraphQL operations. Each returns the full world
+ * document for the entry — extra fields are harmless, exactly as an over-wide
+ * selection would be.
+ */
+function graphqlReply(body: GraphqlBody): unknown {
+  if (/^query Entries\b/.test(body.query)) {
+    return { data: { entries: (body.variables.ids ?? []).map((id) => WORLD.entries[id] ?? null) } };
+  }
+  if (/^query (Xref|Sequence|BindingSite)\b/.test(body.query)) {
+    return { data: { entry: WORLD.entries[body.variables.id ?? ''] ?? null } };
+  }
+  return { errors: [{ message: 'Unknown operation' }] };
+}
+
+// ─── AlphaFold DB ─────────────────────────────────────────────────────────────
+
+/** Point a prediction's document URLs at the mock's AlphaFold file route. */
+function withFileUrls(prediction: Prediction, origin: string): Record<string, unknown> {
+  const files = `${origin}/alphafold/files/${prediction.entryId}`;
+  return {
+    ...prediction,
+    cifUrl: `${files}-model_v4.cif`,
+    pdbUrl: `${files}-model_v4.pdb`,
+    paeDocUrl: `${files}-predicted_aligned_error_v4.json`,
+    plddtDocUrl: `${files}-confidence_v4.json`,
+  };
+}
+
+/** Point 3D-Beacons' AlphaFold DB model URLs at the mock's AlphaFold file route. */
+function withModelUrls(summary: BeaconsSummary, origin: string): BeaconsSummary {
+  return {
+    ...summary,
+    structures: summary.structures.map(({ summary: s }) => ({
+      summary:
+        s.provider === 'AlphaFold DB'
+          ? { ...s, model_url: `${origin}/alphafold/files/${s.model_identifier}-model_v4.cif` }
+          : s,
+    })),
+  };
+}
+
+function alphafoldFile(file: string): MockReply {
+  const m =
+    /^AF-(?<acc>[A-Z0-9]+)-F1-(?<kind>confidence|predicted_aligned_error|model)_v4\.(?<ext>json|pdb|cif)$/.exec(
+      file,
+    );
+  const acc = m?.groups?.acc ?? '';
+  const length = WORLD.predictions[acc]?.uniprotSequence.length;
+  if (!m || length === undefined) return notFoundReply();
+  switch (m.groups?.kind) {
+    case 'confidence': {
+      const confidenceScore = plddtTrack(length);
+      return {
+        json: {
+          residueNumber: confidenceScore.map((_, i) => i + 1),
+          confidenceScore,
+          confidenceCategory: confidenceScore.map((s) => (s >= 90 ? 'H' : s >= 70 ? 'M' : 'L')),
+        },
+      };
+    }
+    case 'predicted_aligned_error':
+      return {
+        json: [{ predicted_aligned_error: paeMatrix(length), max_predicted_aligned_error: 31.75 }],
+      };
+    default:
+      return textFound(m.groups?.ext === 'pdb' ? WORLD.files['4HHB.pdb'] : undefined);
+  }
+}
+
+/** Confident core, disordered termini — five residues at each end below 50. */
+function plddtTrack(length: number): number[] {
+  return Array.from({ length }, (_, i) => (i < 5 || i >= length - 5 ? 42.5 : 96.1));
+}
+
+/** One rigid domain: low error everywhere except involving the floppy termini. */
+function paeMatrix(length: number): number[][] {
+  const floppy = (i: number) => i < 5 || i >= length - 5;
+  return Array.from({ length }, (_, i) =>
+    Array.from({ length }, (_, j) => (i === j ? 0 : floppy(i) || floppy(j) ? 24.5 : 2.5)),
+  );
+}
+
+// ─── UniProt ──────────────────────────────────────────────────────────────────
+
+/** `accession:P699*` prefix queries and plain `reviewed:true …` listings. */
+function uniprotSearch(query: string): unknown[] {
+  const prefix = /^accession:([A-Z0-9]+)\*$/.exec(query)?.[1];
+  return Object.values(WORLD.uniprot).filter(
+    (e) => !prefix || e.primaryAccession.startsWith(prefix),
+  );
+}
+
+// ─── The world ────────────────────────────────────────────────────────────────
+
+const FIXTURES = new URL('../fixtures/structure/', import.meta.url);
+
+const HBA_SEQUENCE =
+  'MVLSPADKTNVKAAWGKVGAHAGEYGAEALERMFLSFPTTKTYFPHFDLSHGSAQVKGHGKKVADALTNAVAHVDDMPNALSALSDLHAHKLRVDPVNFKLLSHCLLVTLAAHLPAEFTPAVHASLDKFLASVSTVLTSKYR';
+const HBB_SEQUENCE =
+  'MVHLTPEEKSAVTALWGKVNVDEVGGEALGRLLVVYPWTQRFFESFGDLSTPDAVMGNPKVKAHGKKVLGAFSDGLAHLDNLKGTFATLSELHCDKLHVDPENFRLLGNVLVCVLAHHFGKEFTPPVQAAYQKVVAGVANALAHKYH';
+
+interface Prediction {
+  entryId: string;
+  fractionPlddtConfident: number;
+  fractionPlddtLow: number;
+  fractionPlddtVeryHigh: number;
+  fractionPlddtVeryLow: number;
+  globalMetricValue: number;
+  latestVersion: number;
+  organismScientificName: string;
+  uniprotAccession: string;
+  uniprotDescription: string;
+  uniprotSequence: string;
+}
+
+/** A 3D-Beacons UniProt summary, trimmed to the fields the server reads. */
+interface BeaconsSummary {
+  structures: Array<{ summary: Record<string, unknown> & { model_identifier: string } }>;
+  uniprot_entry: { ac: string; sequence_length: number };
+}
+
+/** A hemoglobin entry as RCSB's Data API documents it, trimmed to what the server selects. */
+function hemoglobinEntry(id: string, title: string, resolution: number, released: string) {
+  return {
+    rcsb_id: id,
+    struct: { title },
+    exptl: [{ method: 'X-RAY DIFFRACTION' }],
+    rcsb_comp_model_provenance: null,
+    rcsb_entry_info: { resolution_combined: [resolution], molecular_weight: 64.74 },
+    rcsb_accession_info: { initial_release_date: released },
+    assemblies: [
+      {
+        rcsb_assembly_container_identifiers: { assembly_id: '1' },
+        pdbx_struct_assembly: {
+          details: 'author_and_software_defined_assembly',
+          method_details: 'PISA',
+          oligomeric_count: 4,
+          oligomeric_details: 'tetrameric',
+        },
+        rcsb_struct_symmetry: [
+          {
+            kind: 'Global Symmetry',
+            oligomeric_state: 'Hetero 4-mer',
+            stoichiometry: ['A2', 'B2'],
+            symbol: 'C2',
+            type: 'Cyclic',
+          },
+        ],
+      },
+    ],
+    polymer_entities: [
+      {
+        rcsb_id: `${id}_1`,
+        rcsb_polymer_entity: { pdbx_description: 'Hemoglobin subunit alpha' },
+        rcsb_polymer_entity_container_identifiers: {
+          auth_asym_ids: ['A', 'C'],
+          reference_sequence_identifiers: [
+            { database_accession: 'P69905', database_name: 'UniProt' },
+          ],
+        },
+        entity_poly: {
+          rcsb_sample_sequence_length: 141,
+          pdbx_seq_one_letter_code_can: HBA_SEQUENCE.slice(1),
+        },
+        rcsb_entity_source_organism: [{ ncbi_scientific_name: 'Homo sapiens' }],
+      },
+      {
+        rcsb_id: `${id}_2`,
+        rcsb_polymer_entity: { pdbx_description: 'Hemoglobin subunit beta' },
+        rcsb_polymer_entity_container_identifiers: {
+          auth_asym_ids: ['B', 'D'],
+          reference_sequence_identifiers: [
+            { database_accession: 'P68871', database_name: 'UniProt' },
+          ],
+        },
+        entity_poly: {
+          rcsb_sample_sequence_length: 146,
+          pdbx_seq_one_letter_code_can: HBB_SEQUENCE.slice(1),
+        },
+        rcsb_entity_source_organism: [{ ncbi_scientific_name: 'Homo sapiens' }],
+      },
+    ],
+    nonpolymer_entities: [
+      {
+        rcsb_nonpolymer_entity_container_identifiers: { nonpolymer_comp_id: 'HEM' },
+        nonpolymer_comp: {
+          chem_comp: { name: 'PROTOPORPHYRIN IX CONTAINING FE', formula: 'C34 H32 Fe N4 O4' },
+        },
+        nonpolymer_entity_instances: [
+          {
+            rcsb_nonpolymer_entity_instance_container_identifiers: {
+              asym_id: 'E',
+              auth_asym_id: 'A',
+            },
+            rcsb_target_neighbors: [
+              { target_asym_id: 'A', target_comp_id: 'HIS', target_seq_id: 87, distance: 2.1 },
+              { target_asym_id: 'A', target_comp_id: 'HIS', target_seq_id: 58, distance: 4.3 },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * The mock's data: two deoxy/oxy hemoglobin entries, the alpha chain's UniProt
+ * record, InterPro membership, AlphaFold model, 3D-Beacons summary, and SIFTS
+ * mapping, heme as a chemical component, and canned alignment and Foldseek
+ * results. Coordinates come from the structure fixtures; 4HHB's first biological
+ * assembly serves the same file as its asymmetric unit.
+ */
+export const WORLD = {
+  entries: {
+    '4HHB': hemoglobinEntry(
+      '4HHB',
+      'THE CRYSTAL STRUCTURE OF HUMAN DEOXYHAEMOGLOBIN AT 1.74 ANGSTROMS RESOLUTION',
+      1.74,
+      '1984-07-17T00:00:00Z',
+    ),
+    '2HHB': hemoglobinEntry(
+      '2HHB',
+      'REFINEMENT OF THE HUMAN DEOXYHAEMOGLOBIN STRUCTURE',
+      1.74,
+      '1984-07-17T00:00:00Z',
+    ),
+  } as Record<string, ReturnType<typeof hemoglobinEntry>>,
+
+  chemComps: {
+    HEM: {
+      chem_comp: {
+        name: 'PROTOPORPHYRIN IX CONTAINING FE',
+        formula: 'C34 H32 Fe N4 O4',
+        formula_weight: 616.487,
+        type: 'non-polymer',
+      },
+      rcsb_chem_comp_descriptor: {
+        SMILES:
+          'Cc1c2n3c(c1CCC(=O)O)C=C4C(=C(C5=[N]4[Fe]36[N]7=C(C=C8N6C(=C5)C(=C8C)C=C)C(=C(C7=C2)C)C=C)C)CCC(=O)O',
+        InChIKey: 'KABFMIBPWCXCRK-RGGAHWMASA-L',
+      },
+      synonyms: ['heme', 'HEME'],
+    },
+  } as Record<
+    string,
+    {
+      chem_comp: { name: string; formula: string; formula_weight: number; type: string };
+      rcsb_chem_comp_descriptor: { SMILES: string; InChIKey: string };
+      synonyms: string[];
+    }
+  >,
+
+  files: {
+    '4HHB.pdb': readFileSync(new URL('ss-synthetic.pdb', FIXTURES), 'utf8'),
+    '4HHB.cif': readFileSync(new URL('mini.cif', FIXTURES), 'utf8'),
+    '4HHB-assembly1.cif': readFileSync(new URL('mini.cif', FIXTURES), 'utf8'),
+  } as Record<string, string>,
+
+  uniprot: {
+    P69905: {
+      primaryAccession: 'P69905',
+      proteinDescription: { recommendedName: { fullName: { value: 'Hemoglobin subunit alpha' } } },
+      genes: [{ geneName: { value: 'HBA1' } }, { geneName: { value: 'HBA2' } }],
+      organism: { scientificName: 'Homo sapiens', taxonId: 9606 },
+      comments: [
+        {
+          commentType: 'FUNCTION',
+          texts: [
+            {
+              value:
+                'Involved in oxygen transport from the lung to the various peripheral tissues.',
+            },
+          ],
+        },
+      ],
+      sequence: { value: HBA_SEQUENCE, length: HBA_SEQUENCE.length },
+      features: [
+        {
+          type: 'Domain',
+          description: 'Globin',
+          location: { start: { value: 2 }, end: { value: 142 } },
+        },
+        {
+          type: 'Binding site',
+          description: 'distal binding residue',
+          location: { start: { value: 59 }, end: { value: 59 } },
+          ligand: { name: 'heme b' },
+        },
+        {
+          type: 'Natural variant',
+          description: 'in Hb Chesapeake',
+          location: { start: { value: 93 }, end: { value: 93 } },
+        },
+      ],
+    },
+  } as Record<string, { primaryAccession: string } & Record<string, unknown>>,
+
+  interpro: {
+    P69905: [
+      {
+        metadata: {
+          accession: 'IPR000971',
+          name: 'Globin',
+          source_database: 'interpro',
+          type: 'domain',
+          member_databases: { pfam: { PF00042: 'Globin' }, profile: { PS01033: 'GLOBIN' } },
+          go_terms: [
+            {
+              identifier: 'GO:0020037',
+              name: 'heme binding',
+              category: { code: 'F', name: 'molecular_function' },
+            },
+          ],
+        },
+      },
+    ],
+  } as Record<string, unknown[]>,
+
+  predictions: {
+    P69905: {
+      entryId: 'AF-P69905-F1',
+      uniprotAccession: 'P69905',
+      uniprotDescription: 'Hemoglobin subunit alpha',
+      organismScientificName: 'Homo sapiens',
+      uniprotSequence: HBA_SEQUENCE,
+      globalMetricValue: 93.2,
+      fractionPlddtVeryLow: 0.07,
+      fractionPlddtLow: 0,
+      fractionPlddtConfident: 0,
+      fractionPlddtVeryHigh: 0.93,
+      latestVersion: 4,
+    },
+  } as Record<string, Prediction>,
+
+  beacons: {
+    P69905: {
+      uniprot_entry: { ac: 'P69905', sequence_length: HBA_SEQUENCE.length },
+      structures: [
+        {
+          summary: {
+            model_identifier: '4hhb',
+            model_category: 'EXPERIMENTALLY DETERMINED',
+            provider: 'PDBe',
+            experimental_method: 'X-RAY DIFFRACTION',
+            resolution: 1.74,
+            coverage: 0.99,
+            uniprot_start: 2,
+            uniprot_end: 142,
+          },
+        },
+        {
+          summary: {
+            model_identifier: 'AF-P69905-F1',
+            model_category: 'AB-INITIO',
+            provider: 'AlphaFold DB',
+            confidence_type: 'pLDDT',
+            confidence_avg_local_score: 93.2,
+            coverage: 1,
+            uniprot_start: 1,
+            uniprot_end: 142,
+          },
+        },
+      ],
+    },
+  } as Record<string, BeaconsSummary>,
+
+  sifts: {
+    '4hhb': {
+      '4hhb': {
+        UniProt: {
+          P69905: {
+            identifier: 'HBA_HUMAN',
+            mappings: [
+              {
+                chain_id: 'A',
+                struct_asym_id: 'A',
+                entity_id: 1,
+                unp_start: 2,
+                unp_end: 142,
+                start: { residue_number: 1, author_residue_number: 1, author_insertion_code: '' },
+                end: { residue_number: 141, author_residue_number: 141, author_insertion_code: '' },
+              },
+            ],
+          },
+        },
+      },
+    },
+  } as Record<string, unknown>,
+
+  alignment: {
+    info: { status: 'COMPLETE' },
+    results: [
+      {
+        summary: {
+          scores: [
+            { type: 'TM-score', value: 0.99 },
+            { type: 'RMSD', value: 0.31 },
+            { type: 'sequence identity', value: 1 },
+          ],
+          n_aln_residue_pairs: 141,
+          n_modeled_residues: [141, 141],
+          aln_coverage: [100, 100],
+        },
+      },
+    ],
+  },
+
+  foldseekResult: {
+    results: [
+      {
+        db: 'pdb100',
+        alignments: [
+          [
+            { target: '2hhb_A', seqId: 100, alnLength: 141, prob: 1, eval: 1.2e-30, score: 980 },
+            { target: '1a3n_A', seqId: 87.9, alnLength: 141, prob: 1, eval: 3.4e-28, score: 910 },
+          ],
+        ],
+      },
+      {
+        db: 'afdb50',
+        alignments: [
+          [
+            {
+              target: 'AF-P69905-F1-model_v4',
+              seqId: 100,
+              alnLength: 142,
+              prob: 1,
+              eval: 1e-31,
+              score: 990,
+            },
+          ],
+        ],
+      },
+    ],
+  },
+};
@@ -0,0 +1,536 @@
+/**
+ * @fileoverview End-to-end tool tests against the in-process mock upstream: every
+ * service is initialized for real and pointed at the mock, so each call runs the
+ * full path — tool handler, service, HTTP layer (retry, status mapping, empty-body
+ * handling), and payload normalization — with no network. Covers search (hits and
+ * RCSB's 204 zero-hit answer); structure metadata for experimental and predicted
+ * sources, with an entry's biological assemblies; annotations by accession, by
+ * PDB entry, and as a batch; AlphaFold confidence from the pLDDT and PAE
+ * documents; 3D-Beacons coverage; SIFTS feature mapping; ligand tracking (name
+ * and SMILES search, binding-site residues, contacts typed from the coordinates,
+ * and the pocket survey); chain-interface analysis with UniProt-labelled chains,
+ * on the asymmetric unit and on an assembly; the alignment and Foldseek async
+ * flows (complete, slow, and unknown ticket); and upstream failure modes — an
+ * HTML 503 page retried to success, a persistent outage, a 404, and a provider's
+ * circuit opening, failing fast, and closing again on a successful probe.
+ * Provider fallback is exercised end to end: RCSB files down (PDBe answers),
+ * AlphaFold DB down (3D-Beacons answers), and UniProt down (AlphaFold DB's
+ * sequence answers), each naming its source.
+ * @module tests/integration/tools.integration.test
+ */
+
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { analyzeInterface } from '@/mcp-server/tools/definitions/analyze-interface.tool.js';
+import { compareStructures } from '@/mcp-server/tools/definitions/compare-structures.tool.js';
+import { findSimilar } from '@/mcp-server/tools/definitions/find-similar.tool.js';
+import { getAnnotations } from '@/mcp-server/tools/definitions/get-annotations.tool.js';
+import { getConfidence } from '@/mcp-server/tools/definitions/get-confidence.tool.js';
+import { getCoverage } from '@/mcp-server/tools/definitions/get-coverage.tool.js';
+import { getStructure } from '@/mcp-server/tools/definitions/get-structure.tool.js';
+import { mapFeatures } from '@/mcp-server/tools/definitions/map-features.tool.js';
+import { searchStructures } from '@/mcp-server/tools/definitions/search-structures.tool.js';
+import { serverStatus } from '@/mcp-server/tools/definitions/server-status.tool.js';
+import { trackLigands } from '@/mcp-server/tools/definitions/track-ligands.tool.js';
+import { initAlignmentService } from '@/services/alignment/alignment-service.js';
+import { initAlphaFoldService } from '@/services/alphafold/alphafold-service.js';
+import { initBeaconsService } from '@/services/beacons/beacons-service.js';
+import { initFoldseekService } from '@/services/foldseek/foldseek-service.js';
+import { initRcsbService } from '@/services/rcsb/rcsb-service.js';
+import { initCircuitBreaker } from '@/services/shared/circuit-breaker.js';
+import { initSiftsService } from '@/services/sifts/sifts-service.js';
+import { initUniProtService } from '@/services/uniprot/uniprot-service.js';
+import { htmlError, type MockUpstream, startMockUpstream } from './mock-upstream.js';
+
+let upstream: MockUpstream;
+
+beforeAll(async () => {
+  upstream = await startMockUpstream();
+  const serverConfig = upstream.baseUrls as never;
+  for (const init of [
+    initRcsbService,
+    initAlphaFoldService,
+    initBeaconsService,
+    initUniProtService,
+    initSiftsService,
+    initAlignmentService,
+    initFoldseekService,
+  ]) {
+    init({} as never, {} as never, serverConfig);
+  }
+});
+
+afterEach(() => upstream.reset());
+
+afterAll(() => upstream.close());
+
+describe('protein_search_structures', () => {
+  it('searches RCSB and hydrates the hits through GraphQL', async () => {
+    const ctx = createMockContext({ errors: searchStructures.errors });
+    const out = await searchStructures.handler(
+      searchStructures.input.parse({ query: 'deoxyhaemoglobin' }),
+      ctx,
+    );
+
+    expect(out.hits.map((h) => h.id)).toEqual(['4HHB', '2HHB']);
+    expect(out.hits[0]).toMatchObject({ resolution: 1.74, organism: 'Homo sapiens' });
+    expect(getEnrichment(ctx)).toMatchObject({ totalCount: 2 });
+    expect(upstream.received('rcsb.graphql')).toHaveLength(1);
+  });
+
+  it('reads RCSB’s 204 No Content as zero hits, without retrying', async () => {
+    const out = await searchStructures.handler(
+      searchStructures.input.parse({ query: 'no such protein' }),
+      createMockContext({ errors: searchStructures.errors }),
+    );
+
+    expect(out.hits).toEqual([]);
+    expect(upstream.received('rcsb.search')).toHaveLength(1);
+    expect(upstream.received('rcsb.graphql')).toHaveLength(0);
+  });
+});
+
+describe('protein_get_structure', () => {
+  it('returns experimental entry metadata', async () => {
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['4hhb'] }),
+      createMockContext({ errors: getStructure.errors }),
+    );
+
+    expect(out.structures).toEqual([
+      expect.objectContaining({
+        id: '4HHB',
+        source: 'experimental',
+        title: expect.stringContaining('DEOXYHAEMOGLOBIN'),
+      }),
+    ]);
+  });
+
+  it('lists the entry’s biological assemblies with their coordinate URLs', async () => {
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['4HHB'] }),
+      createMockContext({ errors: getStructure.errors }),
+    );
+
+    expect(out.structures[0]?.assemblies).toEqual([
+      expect.objectContaining({
+        assemblyId: '1',
+        oligomericState: 'Hetero 4-mer',
+        stoichiometry: ['A2', 'B2'],
+        symmetry: 'C2',
+        coordinateUrls: {
+          cif: expect.stringMatching(/\/download\/4HHB-assembly1\.cif$/),
+          pdb: expect.stringMatching(/\/download\/4HHB\.pdb1$/),
+        },
+      }),
+    ]);
+  });
+
+  it('returns an AlphaFold model for a UniProt accession', async () => {
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['P69905'], source: 'predicted' }),
+      createMockContext({ errors: getStructure.errors }),
+    );
+
+    expect(out.structures).toEqual([
+      expect.objectContaining({
+        id: 'P69905',
+        source: 'predicted',
+        provider: 'AlphaFold DB',
+        meanPlddt: 93.2,
+      }),
+    ]);
+  });
+});
+
+describe('protein_get_annotations', () => {
+  it('merges the UniProt entry with its InterPro memberships', async () => {
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ uniprot: 'P69905' }),
+      createMockContext({ errors: getAnnotations.errors }),
+    );
+
+    expect(out).toMatchObject({ accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' });
+    expect(out.domains).toEqual([expect.objectContaining({ accession: 'IPR000971' })]);
+  });
+
+  it('resolves a PDB chain to its UniProt accession first', async () => {
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ pdb_id: '4HHB', chain: 'C' }),
+      createMockContext({ errors: getAnnotations.errors }),
+    );
+
+    expect(out.accession).toBe('P69905');
+    expect(upstream.received('uniprot.entry')[0]?.path).toBe('/uniprotkb/P69905');
+  });
+
+  it('annotates a batch as table rows, with the unknown accession in failed[]', async () => {
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ accessions: ['P69905', 'Q99999'] }),
+      createMockContext({ errors: getAnnotations.errors }),
+    );
+
+    expect(out.proteins).toEqual([
+      expect.objectContaining({
+        accession: 'P69905',
+        counts: expect.objectContaining({ domains: 1 }),
+        domainNames: [expect.any(String)],
+      }),
+    ]);
+    expect(out.failed).toEqual([{ id: 'Q99999', reason: 'No UniProt entry for this accession.' }]);
+  });
+});
+
+describe('protein_get_confidence', () => {
+  it('reads the pLDDT track and PAE matrix from the model’s documents', async () => {
+    const out = await getConfidence.handler(
+      getConfidence.input.parse({ accession: 'P69905' }),
+      createMockContext({ errors: getConfidence.errors }),
+    );
+
+    expect(out).toMatchObject({
+      uniprotAccession: 'P69905',
+      residueCount: 142,
+      plddtSource: 'confidence_json',
+    });
+    expect(out.segments.map((s) => [s.start, s.end])).toEqual([[6, 137]]);
+    expect(out.domains).toEqual([expect.objectContaining({ start: 6, end: 137 })]);
+    expect(upstream.received('alphafold.files')).toHaveLength(2);
+  });
+
+  it('fails no_model when AlphaFold DB has no prediction (404)', async () => {
+    await expect(
+      getConfidence.handler(
+        getConfidence.input.parse({ accession: 'Q9ZZZ9' }),
+        createMockContext({ errors: getConfidence.errors }),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'no_model' } });
+  });
+});
+
+describe('protein_get_coverage', () => {
+  it('summarizes experimental and predicted coverage from 3D-Beacons', async () => {
+    const out = await getCoverage.handler(
+      getCoverage.input.parse({ accession: 'P69905' }),
+      createMockContext({ errors: getCoverage.errors }),
+    );
+
+    expect(out.sequenceLength).toBe(142);
+    expect(out.models.map((m) => [m.id, m.source])).toEqual([
+      ['4HHB', 'experimental'],
+      ['AF-P69905-F1', 'predicted'],
+    ]);
+  });
+});
+
+describe('protein_map_features', () => {
+  it('places UniProt features on PDB residues through SIFTS', async () => {
+    const out = await mapFeatures.handler(
+      mapFeatures.input.parse({ uniprot: 'P69905', pdb_id: '4HHB', chain: 'A' }),
+      createMockContext({ errors: mapFeatures.errors }),
+    );
+
+    // The served coordinates model residues 1–2 only; SIFTS places them at UniProt 2–3.
+    expect(out).toMatchObject({
+      chain: 'A',
+      entityId: '1',
+      uniprotCoverage: [{ start: 2, end: 3 }],
+    });
+    expect(out.features?.[0]).toMatchObject({ type: 'Domain', status: 'partial' });
+    expect(upstream.received('sifts.mappings')[0]?.path).toBe('/mappings/uniprot/4hhb');
+  });
+});
+
+describe('protein_analyze_interface', () => {
+  it('measures a chain pair from the coordinates and names each chain’s protein', async () => {
+    const ctx = createMockContext({ errors: analyzeInterface.errors });
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '4HHB', chains: ['A', 'B'] }),
+      ctx,
+    );
+
+    // The served coordinates hold two residues of chain A and a nucleotide of chain B, 11 Å apart.
+    expect(out.chains).toEqual([
+      { chain: 'A', accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' },
+      { chain: 'B', accession: 'P68871', proteinName: 'Hemoglobin subunit beta' },
+    ]);
+    expect(out.interfaces).toEqual([
+      { chains: ['A', 'B'], interfaceArea: 0, buriedSasa: 0, residues: [], contacts: [] },
+    ]);
+    expect(String(getEnrichment(ctx).notice)).toMatch(/do not touch/);
+    expect(upstream.received('rcsb.files')[0]?.path).toBe('/download/4HHB.cif');
+  });
+
+  it('reads a biological assembly’s coordinates when assembly_id is set', async () => {
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '4HHB', chains: ['A', 'B'], assembly_id: '1' }),
+      createMockContext({ errors: analyzeInterface.errors }),
+    );
+
+    expect(out.assemblyId).toBe('1');
+    expect(upstream.received('rcsb.files')[0]?.path).toBe('/download/4HHB-assembly1.cif');
+  });
+});
+
+describe('protein_track_ligands', () => {
+  it('resolves a common name to its chemical component', async () => {
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'find_ligand', query: 'heme' }),
+      createMockContext({ errors: trackLigands.errors }),
+    );
+
+    expect(out.ligands?.[0]).toMatchObject({ compId: 'HEM', formula: 'C34 H32 Fe N4 O4' });
+  });
+
+  it('finds a component by substructure from a SMILES fragment', async () => {
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({
+        mode: 'similar_ligand',
+        molecule: 'CCC(=O)O',
+        match: 'substructure',
+      }),
+      createMockContext({ errors: trackLigands.errors }),
+    );
+
+    expect(out.ligands).toEqual([
+      expect.objectContaining({ compId: 'HEM', depositionCount: expect.any(Number) }),
+    ]);
+    expect(out.ligands[0]).not.toHaveProperty('similarity');
+  });
+
+  it('lists the residues lining a binding site', async () => {
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'binding_site', pdb_id: '4HHB', comp_id: 'HEM' }),
+      createMockContext({ errors: trackLigands.errors }),
+    );
+
+    expect(out.bindingSites?.[0]?.residues.map((r) => r.seqId)).toEqual([87, 58]);
+  });
+
+  it('reads the entry’s coordinates to type the binding-site contacts', async () => {
+    const ctx = createMockContext({ errors: trackLigands.errors });
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({
+        mode: 'binding_site',
+        pdb_id: '4HHB',
+        comp_id: 'HEM',
+        interactions: true,
+      }),
+      ctx,
+    );
+
+    // The fixture mmCIF carries no HEM: the site stays, typed as empty, with a notice.
+    expect(out.bindingSites?.[0]).toMatchObject({ ligandLabelAsymId: 'E', interactions: [] });
+    expect(String(getEnrichment(ctx).notice)).toMatch(/no coordinates found for HEM/i);
+    expect(upstream.received('rcsb.files')[0]?.path).toBe('/download/4HHB.cif');
+  });
+
+  it("surveys a protein's pockets in UniProt numbering across its entries", async () => {
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'pocket_survey', uniprot: 'P69905', comp_id: 'HEM' }),
+      createMockContext({ errors: trackLigands.errors }),
+    );
+
+    expect(out.pocketSurvey?.residues.map((r) => [r.position, r.residueCompId])).toEqual([
+      [59, 'HIS'],
+      [88, 'HIS'],
+    ]);
+    expect(out.pocketSurvey?.entries.map((e) => e.id).sort()).toEqual(['2HHB', '4HHB']);
+    const [search] = upstream.received('rcsb.search');
+    expect(search?.body).toContain('"value":"P69905"');
+  });
+});
+
+describe('protein_compare_structures', () => {
+  const structures = [
+    { pdb_id: '4HHB', chain: 'A' },
+    { pdb_id: '2HHB', chain: 'A' },
+  ];
+
+  it('submits a job and polls it to a complete alignment', async () => {
+    const out = await compareStructures.handler(
+      compareStructures.input.parse({ structures }),
+      createMockContext({ errors: compareStructures.errors }),
+    );
+
+    expect(out.pairs).toEqual([
+      expect.objectContaining({ status: 'complete', tmScore: 0.99, rmsd: 0.31 }),
+    ]);
+    const [submit] = upstream.received('alignment.submit');
+    expect(JSON.parse(submit?.query.get('query') ?? '')).toMatchObject({
+      context: { mode: 'pairwise', method: { name: 'tm-align' } },
+    });
+  });
+
+  it('returns the job as computing when it outlasts the poll budget', async () => {
+    upstream.jobPolls = 100;
+    const out = await compareStructures.handler(
+      compareStructures.input.parse({ structures, timeout_s: 5 }),
+      createMockContext({ errors: compareStructures.errors }),
+    );
+
+    expect(out.pairs).toEqual([
+      expect.objectContaining({ status: 'computing', uuid: expect.stringMatching(/^align-/) }),
+    ]);
+    expect(upstream.received('alignment.results').length).toBeGreaterThan(1);
+  });
+});
+
+describe('protein_find_similar', () => {
+  it('runs a Foldseek search from the entry’s coordinates', async () => {
+    upstream.jobPolls = 1;
+    const out = await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', pdb_id: '4HHB' }),
+      createMockContext({ errors: findSimilar.errors }),
+    );
+
+    expect(out.status).toBe('complete');
+    expect(out.hits.map((h) => [h.database, h.id])).toEqual([
+      ['pdb100', '2HHB'],
+      ['pdb100', '1A3N'],
+      ['afdb50', 'P69905'],
+    ]);
+    expect(upstream.received('rcsb.files')[0]?.path).toBe('/download/4HHB.pdb');
+    expect(upstream.received('foldseek.ticket')).toHaveLength(2);
+  });
+
+  it('fails ticket_not_found when Foldseek rejects the ticket ID (400)', async () => {
+    await expect(
+      findSimilar.handler(
+        findSimilar.input.parse({ by: 'structure', ticket_id: 'expired' }),
+        createMockContext({ errors: findSimilar.errors }),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'ticket_not_found' } });
+  });
+});
+
+describe('upstream failures', () => {
+  it('retries an HTML 503 page and succeeds on the next attempt', async () => {
+    upstream.script('uniprot.entry', htmlError(503));
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ uniprot: 'P69905' }),
+      createMockContext({ errors: getAnnotations.errors }),
+    );
+
+    expect(out.accession).toBe('P69905');
+    expect(upstream.received('uniprot.entry')).toHaveLength(2);
+  });
+
+  it('surfaces a persistent outage as ServiceUnavailable', async () => {
+    upstream.override('uniprot.entry', htmlError(503));
+    await expect(
+      getAnnotations.handler(
+        getAnnotations.input.parse({ uniprot: 'P69905' }),
+        createMockContext({ errors: getAnnotations.errors }),
+      ),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.ServiceUnavailable });
+  });
+
+  it('maps a 404 for an unknown entry to NotFound', async () => {
+    await expect(
+      getAnnotations.handler(
+        getAnnotations.input.parse({ uniprot: 'Q9ZZZ9' }),
+        createMockContext({ errors: getAnnotations.errors }),
+      ),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.NotFound });
+  });
+
+  it('opens the provider circuit on a persistent outage, then closes it on recovery', async () => {
+    initCircuitBreaker({
+      circuitBreakerEnabled: true,
+      circuitFailureThreshold: 2,
+      circuitCooldownMs: 1000,
+    } as never);
+    const call = () =>
+      getAnnotations.handler(
+        getAnnotations.input.parse({ uniprot: 'P69905' }),
+        createMockContext({ errors: getAnnotations.errors }),
+      );
+    try {
+      upstream.override('uniprot.entry', htmlError(503));
+      await expect(call()).rejects.toMatchObject({ code: JsonRpcErrorCode.ServiceUnavailable });
+      await expect(call()).rejects.toMatchObject({ code: JsonRpcErrorCode.ServiceUnavailable });
+      const attempts = upstream.received('uniprot.entry').length;
+
+      await expect(call()).rejects.toMatchObject({
+        data: { reason: 'circuit_open', provider: 'UniProt' },
+      });
+      expect(upstream.received('uniprot.entry')).toHaveLength(attempts);
+      const status = await serverStatus.handler({}, createMockContext());
+      expect(status.unavailable).toEqual(['UniProt']);
+
+      upstream.reset();
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await expect(call()).resolves.toMatchObject({ accession: 'P69905' });
+      const recovered = await serverStatus.handler({}, createMockContext());
+      expect(recovered.unavailable).toEqual([]);
+    } finally {
+      initCircuitBreaker({ circuitBreakerEnabled: false } as never);
+    }
+  });
+});
+
+describe('provider fallback', () => {
+  it('reads coordinates from PDBe when RCSB files are down', async () => {
+    upstream.override('rcsb.files', htmlError(503));
+    const ctx = createMockContext({ errors: findSimilar.errors });
+    const out = await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', pdb_id: '4HHB' }),
+      ctx,
+    );
+
+    expect(out.status).toBe('complete');
+    expect(upstream.received('pdbe.files').map((r) => r.path)).toEqual(['/pdb4hhb.ent']);
+    expect(out.fallbacks).toEqual([
+      {
+        data: 'pdb file for 4HHB',
+        primary: 'RCSB PDB files',
+        provider: 'PDBe entry files',
+        reason: expect.stringMatching(/503/),
+      },
+    ]);
+    expect(getEnrichment(ctx).notice).toContain('RCSB PDB files → PDBe entry files');
+  });
+
+  it('locates the AlphaFold model through 3D-Beacons when AlphaFold DB is down', async () => {
+    upstream.override('alphafold.prediction', htmlError(503));
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['P69905'], source: 'predicted' }),
+      createMockContext({ errors: getStructure.errors }),
+    );
+
+    expect(out.structures[0]).toMatchObject({
+      id: 'P69905',
+      provider: 'AlphaFold DB',
+      meanPlddt: 93.2,
+      coordinateUrls: { cif: expect.stringMatching(/AF-P69905-F1-model_v4\.cif$/) },
+    });
+    expect(out.fallbacks?.map((f) => [f.primary, f.provider])).toEqual([
+      ['AlphaFold DB', '3D-Beacons'],
+    ]);
+  });
+
+  it('takes the query sequence from AlphaFold DB when UniProt is down', async () => {
+    upstream.override('uniprot.entry', htmlError(503));
+    const out = await findSimilar.handler(
+      findSimilar.input.parse({ by: 'sequence', uniprot: 'P69905' }),
+      createMockContext({ errors: findSimilar.errors }),
+    );
+
+    expect(out.fallbacks?.map((f) => [f.data, f.provider])).toEqual([
+      ['sequence for P69905', 'AlphaFold DB'],
+    ]);
+    expect(upstream.received('rcsb.search')[0]?.body).toContain('MVLSPADKTNVKAAW');
+  });
+
+  it('leaves fallbacks absent when every primary answers', async () => {
+    const out = await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', pdb_id: '4HHB' }),
+      createMockContext({ errors: findSimilar.errors }),
+    );
+
+    expect(out.fallbacks).toBeUndefined();
+    expect(upstream.received('pdbe.files')).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Tests for the assess_alphafold_model prompt: the tool sequence
+ * against the predicted model, the experimental-coverage check, and how the
+ * optional region narrows analysis and superposition (ignored when malformed).
+ * @module tests/prompts/assess-alphafold-model.prompt.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { assessAlphafoldModel } from '@/mcp-server/prompts/definitions/assess-alphafold-model.prompt.js';
+
+const render = async (raw: Record<string, unknown>) => {
+  const messages = await assessAlphafoldModel.generate(assessAlphafoldModel.args!.parse(raw));
+  return (messages[0]?.content as { text: string } | undefined)?.text ?? '';
+};
+
+describe('assess_alphafold_model', () => {
+  it('names the predicted-model tools with their parameters', async () => {
+    const text = await render({ accession: 'p69905' });
+    expect(text).toContain('{ "ids": ["P69905"], "source": "predicted" }');
+    expect(text).toContain('protein_get_confidence with { "accession": "P69905" }');
+    expect(text).toContain('{ "id": "P69905", "include": ["secondary_structure", "surface"] }');
+    expect(text).toContain('{ "accession": "P69905", "source": "experimental" }');
+    expect(text).toContain('{ "pdb_id": "AF_AFP69905F1" }], "method": "fatcat-flexible"');
+  });
+
+  it('narrows analysis and superposition to a region', async () => {
+    const text = await render({ accession: 'P00519', region: '229 - 500' });
+    expect(text).toContain('focusing on residues 229-500');
+    expect(text).toContain(
+      '"include": ["secondary_structure", "surface"], "residues": "229-500" }',
+    );
+    expect(text).toContain('{ "pdb_id": "AF_AFP00519F1", "residues": "229-500" }');
+  });
+
+  it('ignores a malformed region', async () => {
+    const text = await render({ accession: 'P00519', region: 'kinase domain' });
+    expect(text).not.toContain('"residues"');
+  });
+});
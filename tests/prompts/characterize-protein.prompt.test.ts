@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Tests for the characterize_protein prompt: argument schema,
+ * accession normalization, the tool sequence with its parameters, and the
+ * optional focus.
+ * @module tests/prompts/characterize-protein.prompt.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { characterizeProtein } from '@/mcp-server/prompts/definitions/characterize-protein.prompt.js';
+
+const render = async (raw: Record<string, unknown>) => {
+  const messages = await characterizeProtein.generate(characterizeProtein.args!.parse(raw));
+  expect(messages).toHaveLength(1);
+  expect(messages[0]?.role).toBe('user');
+  return (messages[0]?.content as { text: string } | undefined)?.text ?? '';
+};
+
+describe('characterize_protein', () => {
+  it('requires an accession', () => {
+    expect(characterizeProtein.args!.safeParse({}).success).toBe(false);
+  });
+
+  it('walks annotations → best_available structure → coverage → ligands in order', async () => {
+    const text = await render({ accession: ' p00519 ' });
+    expect(text).toContain('UniProt P00519.');
+    const order = [
+      '{ "uniprot": "P00519", "include": "all" }',
+      '{ "ids": ["P00519"], "source": "best_available" }',
+      'protein_get_coverage with { "accession": "P00519" }',
+      '"mode": "binding_site"',
+      '"include": "variants", "selection": "ligand <ligand> around 5"',
+      'protein_get_confidence with { "accession": "P00519" }',
+    ].map((s) => text.indexOf(s));
+    expect(order.every((i) => i >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+  });
+
+  it('carries the focus into the request', async () => {
+    expect(await render({ accession: 'P00519', focus: 'drug resistance' })).toContain(
+      'with attention to drug resistance',
+    );
+  });
+});
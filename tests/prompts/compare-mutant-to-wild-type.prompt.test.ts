@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Tests for the compare_mutant_to_wild_type prompt: the tool
+ * sequence over both entries, mutation parsing (one-letter and p. forms,
+ * malformed input), and chain handling.
+ * @module tests/prompts/compare-mutant-to-wild-type.prompt.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { compareMutantToWildType } from '@/mcp-server/prompts/definitions/compare-mutant-to-wild-type.prompt.js';
+
+const render = async (raw: Record<string, unknown>) => {
+  const messages = await compareMutantToWildType.generate(compareMutantToWildType.args!.parse(raw));
+  return (messages[0]?.content as { text: string } | undefined)?.text ?? '';
+};
+
+describe('compare_mutant_to_wild_type', () => {
+  it('requires both entries', () => {
+    expect(compareMutantToWildType.args!.safeParse({ wild_type: '2HYY' }).success).toBe(false);
+  });
+
+  it('zooms in on the mutated position in the given chain', async () => {
+    const text = await render({
+      wild_type: '2hyy',
+      mutant: '3ik3',
+      mutation: 'p.t315i',
+      chain: 'A',
+    });
+    expect(text).toContain('PDB 3IK3 to the wild type PDB 2HYY for the mutation T315I, chain A.');
+    expect(text).toContain('{ "ids": ["2HYY", "3IK3"] }');
+    expect(text).toContain('{ "pdb_id": "2HYY", "chain": "A", "include": "all" }');
+    expect(text).toContain('what UniProt records at position 315');
+    expect(text).toContain(
+      '"selection": "chain A and name CA" } and read the label_asym_id column',
+    );
+    expect(text).toContain(
+      '[{ "pdb_id": "2HYY", "chain": "<label_asym_id of 2HYY chain A>" }, { "pdb_id": "3IK3", "chain": "<label_asym_id of 3IK3 chain A>" }], "method": "fatcat-flexible"',
+    );
+    expect(text).toContain('"selection": "chain A and resi <author residue of 315> around 8"');
+    expect(text).toContain('"chains": ["A"], "include": ["secondary_structure", "surface"]');
+    expect(text).toContain('"mode": "binding_site"');
+  });
+
+  it('falls back to a sequence comparison without a parseable mutation', async () => {
+    const text = await render({ wild_type: '2HYY', mutant: '3IK3', mutation: 'gatekeeper' });
+    expect(text).not.toContain('for the mutation');
+    expect(text).not.toContain('and resi <author residue');
+    expect(text).toContain('find the residues that differ between the two sequences');
+    expect(text).toContain('"chain": "<label_asym_id of 2HYY chain <chain>>"');
+  });
+});
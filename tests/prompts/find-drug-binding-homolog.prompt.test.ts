@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Tests for the find_drug_binding_homolog prompt: component-ID
+ * vs. ligand-name handling, PDB vs. UniProt queries (and the AlphaFold model
+ * stand-in for compare_structures), and the placeholder when no query is given.
+ * @module tests/prompts/find-drug-binding-homolog.prompt.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { findDrugBindingHomolog } from '@/mcp-server/prompts/definitions/find-drug-binding-homolog.prompt.js';
+
+const render = async (raw: Record<string, unknown>) => {
+  const messages = await findDrugBindingHomolog.generate(findDrugBindingHomolog.args!.parse(raw));
+  return (messages[0]?.content as { text: string } | undefined)?.text ?? '';
+};
+
+describe('find_drug_binding_homolog', () => {
+  it('uses a component ID directly and queries by PDB entry', async () => {
+    const text = await render({ ligand: 'sti', pdb_id: '2hyy' });
+    expect(text).toContain('1. The ligand is chemical component STI.');
+    expect(text).not.toContain('"find_ligand"');
+    expect(text).toContain('{ "mode": "structures_with_ligand", "comp_id": "STI", "limit": 100 }');
+    expect(text).toContain('{ "by": "sequence", "pdb_id": "2HYY", "min_identity": 0.3 }');
+    expect(text).toContain('{ "by": "structure", "pdb_id": "2HYY" }');
+    expect(text).toContain('[{ "pdb_id": "2HYY" }, { "pdb_id": "<hit>", "chain": "<chain>" }]');
+    expect(text).toContain('"selection": "ligand STI around 5"');
+  });
+
+  it('resolves a ligand name first and compares an accession-only query via its AlphaFold model', async () => {
+    const text = await render({ ligand: 'imatinib', accession: 'p00520' });
+    expect(text).toContain('{ "mode": "find_ligand", "query": "imatinib" }');
+    expect(text).toContain('"comp_id": "<comp_id>"');
+    expect(text).toContain('{ "by": "sequence", "uniprot": "P00520", "min_identity": 0.3 }');
+    expect(text).toContain('{ "pdb_id": "AF_AFP00520F1" }');
+  });
+
+  it('leaves a placeholder when neither query identifier is given', async () => {
+    const text = await render({ ligand: 'ATP' });
+    expect(text).toContain('homologs of the query protein');
+    expect(text).toContain('"pdb_id": "<query PDB ID>"');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Tests for the af://{accession}/confidence resource: the default
+ * segment/PAE/domain summary, the notFound branch, and the local accession shape guard.
+ * AlphaFold service mocked.
+ * @module tests/resources/af-confidence.resource.test
+ */
+
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getConfidence = vi.fn();
+vi.mock('@/services/alphafold/alphafold-service.js', () => ({
+  getAlphaFoldService: () => ({ getConfidence }),
+}));
+
+import { afConfidenceResource } from '@/mcp-server/resources/definitions/af-confidence.resource.js';
+
+const at = (accession: string) =>
+  createMockContext({ uri: new URL(`af://${accession}/confidence`) });
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('af://{accession}/confidence', () => {
+  it('returns the track with default-threshold segments and PAE blocks', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P69905',
+      entryId: 'AF-P69905-F1',
+      plddt: [...Array(10).fill(95), 20, ...Array(10).fill(75)],
+      plddtSource: 'confidence_json',
+      pae: Array.from({ length: 21 }, () => new Array<number>(21).fill(6)),
+      maxPae: 31.75,
+    });
+    const params = afConfidenceResource.params!.parse({ accession: 'P69905' });
+    const out = await afConfidenceResource.handler(params, at('P69905'));
+
+    expect(out.segments).toEqual([
+      { start: 1, end: 10, meanPlddt: 95 },
+      { start: 12, end: 21, meanPlddt: 75 },
+    ]);
+    expect(out.paeBlocks).toHaveLength(3);
+    // Uniform 6 Å PAE sits above the 5 Å clustering cutoff: no rigid domain.
+    expect(out.domains).toEqual([]);
+    expect(out).toEqual(expect.schemaMatching(afConfidenceResource.output));
+  });
+
+  it('throws NotFound when no AlphaFold model exists', async () => {
+    getConfidence.mockResolvedValue(null);
+    const params = afConfidenceResource.params!.parse({ accession: 'P00000' });
+    await expect(afConfidenceResource.handler(params, at('P00000'))).rejects.toMatchObject({
+      code: JsonRpcErrorCode.NotFound,
+    });
+  });
+
+  it('rejects a malformed accession locally, without an upstream call', async () => {
+    const params = afConfidenceResource.params!.parse({ accession: 'NOTANID' });
+    await expect(
+      Promise.resolve(afConfidenceResource.handler(params, at('NOTANID'))),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.InvalidParams });
+    expect(getConfidence).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Tests for resource listing and URI-template completion on the
+ * pdb:// and af:// templates: the newest-release PDB listing with titles, the
+ * UniProt-seeded AlphaFold listing, PDB-ID and accession completion (including
+ * the AF- entry-ID form), and the degrade-to-empty behaviour when an upstream
+ * fails. RCSB and UniProt services mocked.
+ * @module tests/resources/completion.test
+ */
+
+import { serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const search = vi.fn();
+const getEntries = vi.fn();
+const completeEntryIds = vi.fn();
+const searchAccessions = vi.fn();
+const findAccessionsByPrefix = vi.fn();
+vi.mock('@/services/rcsb/rcsb-service.js', () => ({
+  getRcsbService: () => ({ search, getEntries, completeEntryIds }),
+}));
+vi.mock('@/services/uniprot/uniprot-service.js', () => ({
+  getUniProtService: () => ({ searchAccessions, findAccessionsByPrefix }),
+}));
+
+import { afConfidenceResource } from '@/mcp-server/resources/definitions/af-confidence.resource.js';
+import { afSummaryResource } from '@/mcp-server/resources/definitions/af-summary.resource.js';
+import { pdbSummaryResource } from '@/mcp-server/resources/definitions/pdb-summary.resource.js';
+
+const extra = () => ({ signal: new AbortController().signal }) as never;
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('pdb://{entry_id} listing and completion', () => {
+  it('lists the newest experimental releases with their titles', async () => {
+    search.mockResolvedValue({ total: 2, hits: [{ id: '9abc' }, { id: '9ABD' }] });
+    getEntries.mockResolvedValue([{ id: '9ABC', title: 'A new kinase' }, { id: '9ABD' }]);
+
+    const out = await pdbSummaryResource.list!(extra());
+
+    expect(search).toHaveBeenCalledWith(
+      { sort: 'newest', limit: 25, contentType: ['experimental'] },
+      expect.anything(),
+    );
+    expect(out.resources).toEqual([
+      { uri: 'pdb://9ABC', name: '9ABC', title: 'A new kinase', mimeType: 'application/json' },
+      { uri: 'pdb://9ABD', name: '9ABD', mimeType: 'application/json' },
+    ]);
+  });
+
+  it('returns an empty page when RCSB is unavailable', async () => {
+    search.mockRejectedValue(serviceUnavailable('RCSB Search API is down'));
+    expect(await pdbSummaryResource.list!(extra())).toEqual({ resources: [] });
+  });
+
+  it('completes a partial entry ID through RCSB', async () => {
+    completeEntryIds.mockResolvedValue(['4HHA', '4HHB']);
+    expect(await pdbSummaryResource.complete!.entry_id!('4hh')).toEqual(['4HHA', '4HHB']);
+    expect(completeEntryIds).toHaveBeenCalledWith('4hh', 20, expect.anything());
+  });
+
+  it('offers no suggestions when the lookup fails', async () => {
+    completeEntryIds.mockRejectedValue(serviceUnavailable('RCSB Search API is down'));
+    expect(await pdbSummaryResource.complete!.entry_id!('4hh')).toEqual([]);
+  });
+});
+
+describe('af://{uniprot} listing and completion', () => {
+  it('lists reviewed human proteins named by their recommended name', async () => {
+    searchAccessions.mockResolvedValue([
+      { accession: 'P69905', proteinName: 'Hemoglobin subunit alpha', organism: 'Homo sapiens' },
+      { accession: 'P68871' },
+    ]);
+
+    const out = await afSummaryResource.list!(extra());
+
+    expect(searchAccessions).toHaveBeenCalledWith(
+      'reviewed:true AND organism_id:9606',
+      25,
+      expect.anything(),
+    );
+    expect(out.resources).toEqual([
+      {
+        uri: 'af://P69905',
+        name: 'P69905',
+        title: 'Hemoglobin subunit alpha',
+        mimeType: 'application/json',
+      },
+      { uri: 'af://P68871', name: 'P68871', mimeType: 'application/json' },
+    ]);
+  });
+
+  it('completes a partial accession through UniProt', async () => {
+    findAccessionsByPrefix.mockResolvedValue([{ accession: 'P69905' }, { accession: 'P69907' }]);
+    expect(await afSummaryResource.complete!.uniprot!('P699')).toEqual(['P69905', 'P69907']);
+    expect(findAccessionsByPrefix).toHaveBeenCalledWith('P699', 20, expect.anything());
+  });
+
+  it('keeps the AlphaFold entry-ID form when the value is typed in it', async () => {
+    findAccessionsByPrefix.mockResolvedValue([{ accession: 'P69905' }]);
+    expect(await afConfidenceResource.complete!.accession!('af-P699')).toEqual(['AF-P69905-F1']);
+    expect(findAccessionsByPrefix).toHaveBeenCalledWith('P699', 20, expect.anything());
+  });
+});
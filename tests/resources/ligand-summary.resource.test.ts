@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Tests for the ligand://{comp_id} resource: chem-comp projection
+ * joined with the containment count and top entries (re-sorted by resolution),
+ * the invalidParams branch for name-shaped input, the notFound branch for an
+ * unknown component, and sparse-payload tolerance. RCSB service mocked.
+ * @module tests/resources/ligand-summary.resource.test
+ */
+
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getChemComp = vi.fn();
+const searchByLigand = vi.fn();
+const getEntries = vi.fn();
+vi.mock('@/services/rcsb/rcsb-service.js', () => ({
+  getRcsbService: () => ({ getChemComp, searchByLigand, getEntries }),
+}));
+
+import { ligandSummaryResource } from '@/mcp-server/resources/definitions/ligand-summary.resource.js';
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('ligand://{comp_id}', () => {
+  it('joins the chem-comp record with the count and top entries, best resolution first', async () => {
+    getChemComp.mockResolvedValue({
+      compId: 'STI',
+      name: 'imatinib',
+      type: 'non-polymer',
+      formula: 'C29 H31 N7 O',
+      formulaWeight: 493.603,
+      smiles: 'Cc1ccc(NC(=O)c2ccc(CN3CCN(C)CC3)cc2)cc1Nc1nccc(-c2cccnc2)n1',
+      inchikey: 'KTUFNOKKBVMGRW-UHFFFAOYSA-N',
+    });
+    searchByLigand.mockResolvedValue({
+      total: 42,
+      hits: [
+        { id: '1iep', score: 1 },
+        { id: '2HYY', score: 1 },
+        { id: '6NPV', score: 1 },
+      ],
+    });
+    // Upstream order differs from the input; NMR entry has no resolution.
+    getEntries.mockResolvedValue([
+      { id: '6NPV', methods: ['SOLUTION NMR'], organisms: [], polymerEntities: [], ligands: [] },
+      {
+        id: '2HYY',
+        title: 'Abl kinase domain',
+        methods: ['X-RAY DIFFRACTION'],
+        resolution: 2.4,
+        organisms: [],
+        polymerEntities: [],
+        ligands: [],
+      },
+      {
+        id: '1IEP',
+        title: 'Abl kinase domain in complex with STI-571',
+        methods: ['X-RAY DIFFRACTION'],
+        resolution: 2.1,
+        organisms: [],
+        polymerEntities: [],
+        ligands: [],
+      },
+    ]);
+    const params = ligandSummaryResource.params!.parse({ comp_id: 'sti' });
+    const out = await ligandSummaryResource.handler(
+      params,
+      createMockContext({ uri: new URL('ligand://sti') }),
+    );
+
+    expect(getChemComp).toHaveBeenCalledWith('STI', expect.anything());
+    expect(searchByLigand).toHaveBeenCalledWith('STI', { limit: 10 }, expect.anything());
+    expect(out).toMatchObject({ compId: 'STI', name: 'imatinib', entryCount: 42 });
+    expect(out.topEntries.map((e) => e.id)).toEqual(['1IEP', '2HYY', '6NPV']);
+    expect(out.topEntries[2]).toEqual({ id: '6NPV', method: 'SOLUTION NMR' });
+    expect(out).toEqual(expect.schemaMatching(ligandSummaryResource.output));
+  });
+
+  it('rejects a ligand name with InvalidParams before any upstream call', async () => {
+    const params = ligandSummaryResource.params!.parse({ comp_id: 'imatinib' });
+    await expect(
+      ligandSummaryResource.handler(params, createMockContext({ uri: new URL('ligand://x') })),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.InvalidParams });
+    expect(getChemComp).not.toHaveBeenCalled();
+    expect(searchByLigand).not.toHaveBeenCalled();
+  });
+
+  it('throws NotFound when the component does not resolve', async () => {
+    getChemComp.mockResolvedValue(null);
+    searchByLigand.mockResolvedValue({ total: 0, hits: [] });
+    const params = ligandSummaryResource.params!.parse({ comp_id: 'ZZZ' });
+    await expect(
+      ligandSummaryResource.handler(params, createMockContext({ uri: new URL('ligand://ZZZ') })),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.NotFound });
+  });
+
+  it('tolerates a sparse component with no containing entries', async () => {
+    getChemComp.mockResolvedValue({ compId: 'A1LU6' });
+    searchByLigand.mockResolvedValue({ total: 0, hits: [] });
+    const params = ligandSummaryResource.params!.parse({ comp_id: 'A1LU6' });
+    const out = await ligandSummaryResource.handler(
+      params,
+      createMockContext({ uri: new URL('ligand://A1LU6') }),
+    );
+
+    expect(out).toEqual({ compId: 'A1LU6', entryCount: 0, topEntries: [] });
+    expect(getEntries).not.toHaveBeenCalled();
+    expect(out).toEqual(expect.schemaMatching(ligandSummaryResource.output));
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Tests for the uniprot://{accession} resource: entry + InterPro
+ * projection, the 3D-Beacons coverage headline (per-entry PDB count, best
+ * resolution, AlphaFold-only pLDDT), attribution gated on contributing sources,
+ * and the invalidParams branch. UniProt and 3D-Beacons services mocked.
+ * @module tests/resources/uniprot-summary.resource.test
+ */
+
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getEntry = vi.fn();
+const getInterPro = vi.fn();
+const getSummary = vi.fn();
+vi.mock('@/services/uniprot/uniprot-service.js', () => ({
+  getUniProtService: () => ({ getEntry, getInterPro }),
+}));
+vi.mock('@/services/beacons/beacons-service.js', () => ({
+  getBeaconsService: () => ({ getSummary }),
+}));
+
+import { uniprotSummaryResource } from '@/mcp-server/resources/definitions/uniprot-summary.resource.js';
+
+beforeEach(() => vi.clearAllMocks());
+
+const ctx = () => createMockContext({ uri: new URL('uniprot://P69905') });
+
+describe('uniprot://{accession}', () => {
+  it('summarizes the protein, its domains, and its structural coverage', async () => {
+    getEntry.mockResolvedValue({
+      accession: 'P69905',
+      proteinName: 'Hemoglobin subunit alpha',
+      geneNames: ['HBA1', 'HBA2'],
+      organism: 'Homo sapiens',
+      function: 'Involved in oxygen transport from the lung to the various peripheral tissues.',
+      sequenceLength: 142,
+      features: [],
+    });
+    getInterPro.mockResolvedValue([
+      {
+        accession: 'IPR000971',
+        name: 'Globin',
+        type: 'domain',
+        memberDatabases: ['pfam'],
+        goTerms: [{ id: 'GO:0020037', name: 'heme binding' }],
+      },
+    ]);
+    getSummary.mockResolvedValue({
+      accession: 'P69905',
+      found: true,
+      models: [
+        { modelIdentifier: '4hhb', modelCategory: 'EXPERIMENTALLY DETERMINED', resolution: 1.74 },
+        { modelIdentifier: '4HHB', modelCategory: 'EXPERIMENTALLY DETERMINED', resolution: 1.74 },
+        { modelIdentifier: '2dn2', modelCategory: 'EXPERIMENTALLY DETERMINED', resolution: 1.25 },
+        {
+          modelIdentifier: 'SMR-1',
+          modelCategory: 'TEMPLATE-BASED',
+          provider: 'SWISS-MODEL',
+          confidenceType: 'QMEANDisCo',
+          confidenceAvgLocalScore: 0.8,
+        },
+        {
+          modelIdentifier: 'AF-P69905-F1',
+          modelCategory: 'AB-INITIO',
+          provider: 'AlphaFold DB',
+          confidenceType: 'pLDDT',
+          confidenceAvgLocalScore: 97.53,
+        },
+      ],
+    });
+    const params = uniprotSummaryResource.params!.parse({ accession: 'p69905' });
+    const out = await uniprotSummaryResource.handler(params, ctx());
+
+    expect(getEntry).toHaveBeenCalledWith('P69905', 'domains', expect.anything());
+    expect(out).toMatchObject({
+      accession: 'P69905',
+      proteinName: 'Hemoglobin subunit alpha',
+      geneNames: ['HBA1', 'HBA2'],
+      sequenceLength: 142,
+      domains: [{ accession: 'IPR000971', name: 'Globin', type: 'domain' }],
+      structures: {
+        pdbEntryCount: 2,
+        bestResolution: 1.25,
+        alphafoldMeanPlddt: 97.53,
+        summary: '2 PDB entries (best 1.25 Å); AlphaFold mean pLDDT 97.5.',
+      },
+    });
+    expect(out.attribution.map((a) => a.source)).toEqual([
+      'RCSB PDB',
+      'AlphaFold DB',
+      'UniProt',
+      'InterPro',
+    ]);
+    expect(out).toEqual(expect.schemaMatching(uniprotSummaryResource.output));
+  });
+
+  it('tolerates a protein with no domains and no structures — UniProt credit only', async () => {
+    getEntry.mockResolvedValue({ accession: 'Q9XXX1', geneNames: [], features: [] });
+    getInterPro.mockResolvedValue([]);
+    getSummary.mockResolvedValue({ accession: 'Q9XXX1', found: false, models: [] });
+    const params = uniprotSummaryResource.params!.parse({ accession: 'Q9XXX1' });
+    const out = await uniprotSummaryResource.handler(params, ctx());
+
+    expect(out.domains).toEqual([]);
+    expect(out.structures).toEqual({
+      pdbEntryCount: 0,
+      summary: 'No experimental structures; no AlphaFold model.',
+    });
+    expect(out.attribution.map((a) => a.source)).toEqual(['UniProt']);
+    expect(out).not.toHaveProperty('proteinName');
+    expect(out).toEqual(expect.schemaMatching(uniprotSummaryResource.output));
+  });
+
+  it('rejects a non-accession with InvalidParams before any upstream call', async () => {
+    const params = uniprotSummaryResource.params!.parse({ accession: 'hemoglobin' });
+    await expect(uniprotSummaryResource.handler(params, ctx())).rejects.toMatchObject({
+      code: JsonRpcErrorCode.InvalidParams,
+    });
+    expect(getEntry).not.toHaveBeenCalled();
+    expect(getSummary).not.toHaveBeenCalled();
+  });
+});
@@ -299,6 +299,32 @@ describe('AlignmentService.comparePair', () => {
     expect(query.context.structures[1]).toEqual({ entry_id: '2HHB' });
     expect(query.context.method).toEqual({ name: 'tm-align' });
   });
+
+  it('adds beg_seq_id/end_seq_id to the selection for a residue range', async () => {
+    fetchTextMock.mockResolvedValue('"u"');
+    fetchResponseMock.mockResolvedValue({
+      status: 404,
+      ok: false,
+      text: async () => '',
+    } as Response);
+
+    await service().comparePair(
+      { entryId: 'AF_AFP12345F1', asymId: 'A', begSeqId: 1, endSeqId: 150 },
+      { entryId: '2hhb', begSeqId: 5, endSeqId: 9 },
+      'tm-align',
+      30,
+      createMockContext(),
+    );
+
+    const submitUrl = fetchTextMock.mock.calls[0]?.[0] as string;
+    const query = JSON.parse(decodeURIComponent(submitUrl.split('query=')[1] as string));
+    expect(query.context.structures[0]).toEqual({
+      entry_id: 'AF_AFP12345F1',
+      selection: { asym_id: 'A', beg_seq_id: 1, end_seq_id: 150 },
+    });
+    // A range without a chain has nothing to anchor to and is not sent.
+    expect(query.context.structures[1]).toEqual({ entry_id: '2HHB' });
+  });
 });
 
 describe('AlignmentService.resumePair — poll an existing UUID without resubmitting', () => {
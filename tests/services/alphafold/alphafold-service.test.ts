@@ -2,21 +2,24 @@
  * @fileoverview Tests for the AlphaFold service: prediction normalization against
  * the real API shape (globalMetricValue → meanPlddt, fraction* → confidence
  * buckets, uniprotSequence length), the 404 → null and empty-array → null
- * branches, and sparse-payload preservation (no fabricated buckets). HTTP mocked.
+ * branches, sparse-payload preservation (no fabricated buckets), and confidence
+ * retrieval (confidence JSON vs B-factor fallback, dense and legacy PAE layouts,
+ * best-effort PAE). HTTP mocked.
  * @module tests/services/alphafold/alphafold-service.test
  */
 
+import { readFileSync } from 'node:fs';
 import { JsonRpcErrorCode, notFound, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
 import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('@/services/shared/http.js', async (importOriginal) => {
   const actual = await importOriginal<typeof import('@/services/shared/http.js')>();
-  return { ...actual, fetchJson: vi.fn() };
+  return { ...actual, fetchJson: vi.fn(), fetchText: vi.fn() };
 });
 
 import { AlphaFoldService } from '@/services/alphafold/alphafold-service.js';
-import { fetchJson } from '@/services/shared/http.js';
+import { fetchJson, fetchText } from '@/services/shared/http.js';
 
 const fetchJsonMock = vi.mocked(fetchJson);
 
@@ -63,6 +66,7 @@ describe('AlphaFoldService.getPrediction', () => {
       modelVersion: 4,
       organism: 'Homo sapiens',
       uniprotDescription: 'Hemoglobin subunit alpha',
+      sequence: 'MVLSPADKTNVKAAW',
       sequenceLength: 15,
       confidenceBuckets: { veryLow: 0, low: 0.014, confident: 0.12, veryHigh: 0.866 },
     });
@@ -113,3 +117,98 @@ describe('AlphaFoldService.getPrediction', () => {
     expect(out?.uniprotAccession).toBe('P12345');
   });
 });
+
+describe('AlphaFoldService.getConfidence', () => {
+  const WITH_DOCS = {
+    ...FULL_PREDICTION,
+    plddtDocUrl: 'https://alphafold.test/files/AF-P69905-F1-confidence_v4.json',
+    paeDocUrl: 'https://alphafold.test/files/AF-P69905-F1-predicted_aligned_error_v4.json',
+  };
+
+  /** Route fetchJson by URL: the prediction list, the confidence JSON, the PAE file. */
+  const route = (bodies: Record<string, unknown>) =>
+    fetchJsonMock.mockImplementation(async (url: string) => {
+      for (const [suffix, body] of Object.entries(bodies)) {
+        if (url.endsWith(suffix)) {
+          if (body instanceof Error) throw body;
+          return body;
+        }
+      }
+      throw notFound(`unrouted ${url}`);
+    });
+
+  it('reads pLDDT from the confidence JSON and the dense PAE matrix', async () => {
+    route({
+      '/P69905': [WITH_DOCS],
+      'confidence_v4.json': { residueNumber: [1, 2, 3], confidenceScore: [90.5, 80, 30] },
+      'aligned_error_v4.json': [
+        {
+          predicted_aligned_error: [
+            [0, 1, 2],
+            [1, 0, 3],
+            [2, 3, 0],
+          ],
+          max_predicted_aligned_error: 31.75,
+        },
+      ],
+    });
+    const out = await service().getConfidence('P69905', createMockContext());
+
+    expect(out).toMatchObject({
+      uniprotAccession: 'P69905',
+      entryId: 'AF-P69905-F1',
+      plddt: [90.5, 80, 30],
+      plddtSource: 'confidence_json',
+      maxPae: 31.75,
+      pae: [
+        [0, 1, 2],
+        [1, 0, 3],
+        [2, 3, 0],
+      ],
+    });
+  });
+
+  it('expands the legacy flattened PAE layout into a dense matrix', async () => {
+    route({
+      '/P69905': [WITH_DOCS],
+      'confidence_v4.json': { confidenceScore: [90, 90] },
+      'aligned_error_v4.json': [
+        { residue1: [1, 1, 2, 2], residue2: [1, 2, 1, 2], distance: [0, 5, 6, 0] },
+      ],
+    });
+    const out = await service().getConfidence('P69905', createMockContext());
+    expect(out?.pae).toEqual([
+      [0, 5],
+      [6, 0],
+    ]);
+    expect(out).not.toHaveProperty('maxPae');
+  });
+
+  it('falls back to coordinate B-factors when the confidence JSON is unavailable', async () => {
+    const cif = readFileSync(new URL('../../fixtures/structure/mini.cif', import.meta.url), 'utf8');
+    vi.mocked(fetchText).mockResolvedValue(cif);
+    route({
+      '/P69905': [WITH_DOCS],
+      'confidence_v4.json': serviceUnavailable('down'),
+      'aligned_error_v4.json': serviceUnavailable('down'),
+    });
+    const out = await service().getConfidence('P69905', createMockContext());
+
+    // THR 1 and CYS 2 of the first chain (CA B-factors); the HETATM sulfate and water are skipped.
+    expect(out).toMatchObject({ plddt: [10.8, 8.31], plddtSource: 'coordinates' });
+    expect(out).not.toHaveProperty('pae');
+    expect(vi.mocked(fetchText).mock.calls[0]?.[0]).toBe(FULL_PREDICTION.cifUrl);
+  });
+
+  it('returns null when there is no model', async () => {
+    fetchJsonMock.mockRejectedValue(notFound('not found'));
+    expect(await service().getConfidence('P00000', createMockContext())).toBeNull();
+  });
+
+  it('throws ServiceUnavailable when neither source yields a track', async () => {
+    route({ '/Q1': [{ uniprotAccession: 'Q1' }] });
+    await expect(service().getConfidence('Q1', createMockContext())).rejects.toMatchObject({
+      code: JsonRpcErrorCode.ServiceUnavailable,
+    });
+  });
+});
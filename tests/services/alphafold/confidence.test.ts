@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Tests for the AlphaFold confidence summaries: pLDDT band
+ * boundaries, confident-segment extraction (threshold, minimum length, runs at
+ * the track ends), symmetrized inter-segment PAE blocks, and matrix pooling.
+ * @module tests/services/alphafold/confidence.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  binMatrix,
+  confidentSegments,
+  paeBlocks,
+  plddtBand,
+  summarizeConfidence,
+} from '@/services/alphafold/confidence.js';
+
+/** Two confident domains (1–4, 7–10) joined by a disordered linker (5–6). */
+const TRACK = [91, 92, 93, 94, 40, 45, 80, 81, 82, 83];
+
+/** 10×10 PAE: low within each domain, high across; asymmetric across halves. */
+const PAE = Array.from({ length: 10 }, (_, i) =>
+  Array.from({ length: 10 }, (_, j) => {
+    const di = i < 4 ? 0 : i < 6 ? 1 : 2;
+    const dj = j < 4 ? 0 : j < 6 ? 1 : 2;
+    if (di === dj) return 2;
+    return i < j ? 20 : 24;
+  }),
+);
+
+describe('plddtBand', () => {
+  it('assigns boundaries to the higher band except at 90', () => {
+    expect([49.9, 50, 69.9, 70, 90, 90.1].map(plddtBand)).toEqual([
+      'veryLow',
+      'low',
+      'low',
+      'confident',
+      'confident',
+      'veryHigh',
+    ]);
+  });
+});
+
+describe('confidentSegments', () => {
+  it('returns 1-based inclusive runs at or above the threshold', () => {
+    expect(confidentSegments(TRACK, 70, 3)).toEqual([
+      { start: 1, end: 4, meanPlddt: 92.5 },
+      { start: 7, end: 10, meanPlddt: 81.5 },
+    ]);
+  });
+
+  it('drops runs shorter than the minimum length', () => {
+    expect(confidentSegments(TRACK, 70, 5)).toEqual([]);
+    expect(confidentSegments(TRACK, 85, 4)).toEqual([{ start: 1, end: 4, meanPlddt: 92.5 }]);
+  });
+
+  it('handles an empty track', () => {
+    expect(confidentSegments([], 70, 1)).toEqual([]);
+  });
+});
+
+describe('paeBlocks', () => {
+  it('averages each block over both directions, own blocks included', () => {
+    const segments = confidentSegments(TRACK, 70, 3);
+    expect(paeBlocks(PAE, segments)).toEqual([
+      { a: 0, b: 0, meanPae: 2 },
+      { a: 0, b: 1, meanPae: 22 },
+      { a: 1, b: 1, meanPae: 2 },
+    ]);
+  });
+
+  it('skips blocks the matrix does not cover', () => {
+    expect(paeBlocks([[1]], [{ start: 5, end: 6, meanPlddt: 90 }])).toEqual([]);
+  });
+});
+
+describe('summarizeConfidence', () => {
+  it('leaves paeBlocks empty without a matrix', () => {
+    expect(summarizeConfidence(TRACK, undefined, 70, 3).paeBlocks).toEqual([]);
+  });
+});
+
+describe('binMatrix', () => {
+  it('returns a rounded copy at bin 1', () => {
+    expect(
+      binMatrix(
+        [
+          [1.234, 2],
+          [3, 4.06],
+        ],
+        1,
+      ),
+    ).toEqual([
+      [1.2, 2],
+      [3, 4.1],
+    ]);
+  });
+
+  it('average-pools into ceil(n / bin) cells, with a partial last cell', () => {
+    const pooled = binMatrix(PAE, 4);
+    expect(pooled).toHaveLength(3);
+    expect(pooled[0]?.[0]).toBe(2);
+    expect(pooled[2]?.[2]).toBe(2);
+    expect(pooled[0]?.[2]).toBe(20);
+  });
+});
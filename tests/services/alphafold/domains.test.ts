@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Tests for PAE domain segmentation on synthetic matrices: two
+ * rigid blocks joined by a floppy linker, a discontinuous domain, the minimum
+ * size filter, the PAE cutoff, and degenerate input.
+ * @module tests/services/alphafold/domains.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { paeDomains } from '@/services/alphafold/domains.js';
+
+/** PAE matrix where residues in the same group sit at `low` Å and everything else at `high`. */
+function blockPae(groups: number[], low = 1, high = 25): number[][] {
+  return groups.map((gi, i) =>
+    groups.map((gj, j) => (i === j ? 0 : gi === gj && gi >= 0 ? low : high)),
+  );
+}
+
+/** Group labels for consecutive runs: `runs([30, 0], [10, -1])` → 30 × 0 then 10 × -1 (linker). */
+function runs(...spans: [number, number][]): number[] {
+  return spans.flatMap(([length, group]) => Array.from({ length }, () => group));
+}
+
+describe('paeDomains', () => {
+  it('splits two rigid blocks joined by a linker and drops the linker', () => {
+    const pae = blockPae(runs([40, 0], [10, -1], [30, 1]));
+    const domains = paeDomains(pae);
+    expect(domains.map((d) => [d.start, d.end, d.size])).toEqual([
+      [1, 40, 40],
+      [51, 80, 30],
+    ]);
+    expect(domains[0]?.segments).toEqual([{ start: 1, end: 40 }]);
+    expect(domains[0]?.meanPae).toBeLessThan(1);
+  });
+
+  it('reports mean pLDDT per domain when a track is supplied', () => {
+    const groups = runs([25, 0], [25, 1]);
+    const plddt = groups.map((g) => (g === 0 ? 90 : 70));
+    const domains = paeDomains(blockPae(groups), plddt);
+    expect(domains.map((d) => d.meanPlddt)).toEqual([90, 70]);
+    expect(paeDomains(blockPae(groups))[0]).not.toHaveProperty('meanPlddt');
+  });
+
+  it('keeps a discontinuous domain as one cluster with several segments', () => {
+    const pae = blockPae(runs([20, 0], [30, 1], [20, 0]));
+    const domains = paeDomains(pae);
+    expect(domains).toHaveLength(2);
+    expect(domains[0]).toMatchObject({ start: 1, end: 70, size: 40 });
+    expect(domains[0]?.segments).toEqual([
+      { start: 1, end: 20 },
+      { start: 51, end: 70 },
+    ]);
+  });
+
+  it('filters clusters below minDomainSize', () => {
+    const pae = blockPae(runs([40, 0], [12, 1]));
+    expect(paeDomains(pae)).toHaveLength(1);
+    expect(paeDomains(pae, undefined, { minDomainSize: 10 })).toHaveLength(2);
+  });
+
+  it('links nothing once the cutoff falls below the intra-block PAE', () => {
+    const pae = blockPae(runs([30, 0], [30, 1]), 4);
+    expect(paeDomains(pae)).toHaveLength(2);
+    expect(paeDomains(pae, undefined, { paeCutoff: 3 })).toEqual([]);
+  });
+
+  it('returns nothing for an empty matrix or one with no pair under the cutoff', () => {
+    expect(paeDomains([])).toEqual([]);
+    expect(paeDomains(blockPae(runs([30, -1])))).toEqual([]);
+  });
+});
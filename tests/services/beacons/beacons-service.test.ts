@@ -2,7 +2,8 @@
  * @fileoverview Tests for the 3D-Beacons service: federated model normalization
  * against the real summary shape, the 404 → { found:false } branch (distinct from
  * a transport error), the non-404 throw, the model_identifier filter (drops
- * entries with no ID), and the found = (models.length > 0) rule. HTTP mocked.
+ * entries with no ID), UniProt range pairing and the sequence length, and the
+ * found = (models.length > 0) rule. HTTP mocked.
  * @module tests/services/beacons/beacons-service.test
  */
 
@@ -86,6 +87,26 @@ describe('BeaconsService.getSummary', () => {
     });
   });
 
+  it('keeps UniProt ranges only as a valid pair, and the sequence length', async () => {
+    fetchResponseMock.mockResolvedValue(
+      okResponse({
+        uniprot_entry: { ac: 'P00519', sequence_length: 1130 },
+        structures: [
+          { summary: { model_identifier: '1iep', uniprot_start: 229, uniprot_end: 500 } },
+          { summary: { model_identifier: 'X1', uniprot_start: 229 } }, // lone bound → dropped
+          { summary: { model_identifier: 'X2', uniprot_start: 50, uniprot_end: 10 } }, // inverted → dropped
+        ],
+      }),
+    );
+    const out = await service().getSummary('P00519', createMockContext());
+    expect(out.sequenceLength).toBe(1130);
+    expect(out.models.map((m) => [m.uniprotStart, m.uniprotEnd])).toEqual([
+      [229, 500],
+      [undefined, undefined],
+      [undefined, undefined],
+    ]);
+  });
+
   it('returns found:false with no models on a 404 (no transport error thrown)', async () => {
     fetchResponseMock.mockResolvedValue({
       status: 404,
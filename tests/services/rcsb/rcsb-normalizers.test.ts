@@ -1,7 +1,8 @@
 /**
  * @fileoverview Tests for the RCSB service GraphQL/REST methods exercised through
- * realistic upstream payloads (HTTP mocked): entry-metadata normalization, UniProt
- * xref resolution, sequence extraction, binding-site assembly with distance sort,
+ * realistic upstream payloads (HTTP mocked): entry-metadata normalization
+ * (biological assemblies included), assembly file URLs, UniProt xref
+ * resolution, sequence extraction, binding-site assembly with distance sort,
  * chem-comp normalization (SMILES/InChIKey fallback chain) with the 404 → null
  * branch, sequence/ligand/chem-comp search hit normalization, the
  * `results_content_type` scope emitted on every search path, and the GraphQL
@@ -68,6 +69,41 @@ describe('RcsbService.getEntries', () => {
         },
       },
     ],
+    assemblies: [
+      {
+        rcsb_assembly_container_identifiers: { assembly_id: '1' },
+        pdbx_struct_assembly: {
+          details: 'author_and_software_defined_assembly',
+          method_details: 'PISA',
+          oligomeric_count: 4,
+          oligomeric_details: 'tetrameric',
+        },
+        rcsb_struct_symmetry: [
+          {
+            kind: 'Pseudo Symmetry',
+            oligomeric_state: 'Homo 4-mer',
+            stoichiometry: ['A4'],
+            symbol: 'D2',
+            type: 'Dihedral',
+          },
+          {
+            kind: 'Global Symmetry',
+            oligomeric_state: 'Hetero 4-mer',
+            stoichiometry: ['A2', 'B2'],
+            symbol: 'C2',
+            type: 'Cyclic',
+          },
+        ],
+      },
+      {
+        rcsb_assembly_container_identifiers: { assembly_id: '2' },
+        pdbx_struct_assembly: {
+          details: 'software_defined_assembly',
+          oligomeric_details: 'dimeric',
+        },
+        rcsb_struct_symmetry: null,
+      },
+    ],
   };
 
   it('returns [] for an empty id list without calling upstream', async () => {
@@ -100,6 +136,26 @@ describe('RcsbService.getEntries', () => {
     ]);
   });
 
+  it('normalizes assemblies with their global symmetry and determination', async () => {
+    fetchJsonMock.mockResolvedValue(gql({ entries: [ENTRY_4HHB] }));
+    const [meta] = await service().getEntries(['4HHB'], createMockContext());
+
+    expect(meta?.assemblies).toEqual([
+      {
+        assemblyId: '1',
+        oligomericState: 'Hetero 4-mer',
+        polymerCount: 4,
+        stoichiometry: ['A2', 'B2'],
+        symmetry: 'C2',
+        symmetryType: 'Cyclic',
+        determination: 'author_and_software_defined_assembly',
+        determinationMethod: 'PISA',
+      },
+      // No symmetry computed: the deposited description stands in for the state.
+      { assemblyId: '2', oligomericState: 'dimeric', determination: 'software_defined_assembly' },
+    ]);
+  });
+
   it('leaves computedModelProvider unset for an experimental entry', async () => {
     fetchJsonMock.mockResolvedValue(gql({ entries: [ENTRY_4HHB] }));
     const [meta] = await service().getEntries(['4HHB'], createMockContext());
@@ -160,7 +216,13 @@ describe('RcsbService.getEntries', () => {
   it('tolerates a fully sparse entry (only rcsb_id) without fabricating fields', async () => {
     fetchJsonMock.mockResolvedValue(gql({ entries: [{ rcsb_id: '1ABC' }] }));
     const [meta] = await service().getEntries(['1ABC'], createMockContext());
-    expect(meta).toEqual({ id: '1ABC', organisms: [], polymerEntities: [], ligands: [] });
+    expect(meta).toEqual({
+      id: '1ABC',
+      organisms: [],
+      polymerEntities: [],
+      ligands: [],
+      assemblies: [],
+    });
   });
 
   it('throws when GraphQL returns an errors array and no data', async () => {
@@ -172,6 +234,17 @@ describe('RcsbService.getEntries', () => {
   });
 });
 
+describe('RcsbService.assemblyFileUrl', () => {
+  it('names the mmCIF assembly file and the legacy PDB-format one', () => {
+    expect(service().assemblyFileUrl('4hhb', '1', 'cif')).toBe(
+      'https://files.test/download/4HHB-assembly1.cif',
+    );
+    expect(service().assemblyFileUrl('4hhb', '2', 'pdb')).toBe(
+      'https://files.test/download/4HHB.pdb2',
+    );
+  });
+});
+
 describe('RcsbService.resolveUniprotEntities', () => {
   it('returns one entry per UniProt-mapped polymer entity with its chains, accession, and description', async () => {
     fetchJsonMock.mockResolvedValue(
@@ -276,7 +349,10 @@ describe('RcsbService.getBindingSites', () => {
           rcsb_nonpolymer_entity_container_identifiers: { nonpolymer_comp_id: 'HEM' },
           nonpolymer_entity_instances: [
             {
-              rcsb_nonpolymer_entity_instance_container_identifiers: { auth_asym_id: 'A' },
+              rcsb_nonpolymer_entity_instance_container_identifiers: {
+                asym_id: 'E',
+                auth_asym_id: 'A',
+              },
               rcsb_target_neighbors: [
                 { target_comp_id: 'HIS', target_asym_id: 'A', target_seq_id: 87, distance: 2.1 },
                 { target_comp_id: 'PHE', target_asym_id: 'A', target_seq_id: 43, distance: 1.4 },
@@ -303,7 +379,7 @@ describe('RcsbService.getBindingSites', () => {
 
     expect(sites).toHaveLength(2);
     const hem = sites.find((s) => s.ligandCompId === 'HEM');
-    expect(hem).toMatchObject({ ligandCompId: 'HEM', ligandAsymId: 'A' });
+    expect(hem).toMatchObject({ ligandCompId: 'HEM', ligandAsymId: 'A', ligandLabelAsymId: 'E' });
     // PHE (1.4 Å) sorts before HIS (2.1 Å); the comp_id-less neighbor is dropped.
     expect(hem?.residues.map((r) => r.residueCompId)).toEqual(['PHE', 'HIS']);
     expect(hem?.residues[0]).toMatchObject({ residueCompId: 'PHE', seqId: 43, distance: 1.4 });
@@ -1,7 +1,10 @@
 /**
  * @fileoverview Tests for the RCSB query builders: the search-query node tree
  * (match-all, single terminal, AND group, sequence, resolution ceiling) and the
- * facet-spec translation to the RCSB request shape (terms vs. histogram, nesting).
+ * facet-spec translation to the RCSB request shape (terms vs. histogram, nesting),
+ * PDB-ID completion (candidate expansion, the `in` query, newest-first sort), and
+ * the chemical search request (SMILES vs. InChI, similarity vs. substructure), and
+ * the UniProt-accession entry search (optionally ANDed with ligand containment).
  * @module tests/services/rcsb/rcsb-service.test
  */
 
@@ -9,6 +12,7 @@ import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import {
   buildQuery,
+  entryIdCandidates,
   type FacetSpec,
   RcsbService,
   toRcsbFacet,
@@ -55,6 +59,18 @@ describe('buildQuery', () => {
     });
   });
 
+  it('restricts hits to explicit entry IDs with an in node', () => {
+    expect(buildQuery({ entryIds: ['4HHA', '4HHB'] })).toMatchObject({
+      type: 'terminal',
+      service: 'text',
+      parameters: {
+        attribute: 'rcsb_entry_container_identifiers.entry_id',
+        operator: 'in',
+        value: ['4HHA', '4HHB'],
+      },
+    });
+  });
+
   it('adds a resolution ceiling as a less_or_equal text node', () => {
     const q = buildQuery({ text: 'x', maxResolution: 2.5 }) as { nodes: unknown[] };
     expect(q.nodes).toContainEqual(
@@ -69,6 +85,23 @@ describe('buildQuery', () => {
   });
 });
 
+describe('entryIdCandidates', () => {
+  it('expands a three-character prefix to its 36 one-character extensions', () => {
+    const ids = entryIdCandidates('4hh');
+    expect(ids).toHaveLength(36);
+    expect(ids).toContain('4HH0');
+    expect(ids).toContain('4HHB');
+  });
+
+  it('returns a complete ID as-is', () => {
+    expect(entryIdCandidates(' 4hhb ')).toEqual(['4HHB']);
+  });
+
+  it.each(['', '4', '4H', 'H4HB', '4HHBB', '4H-'])('offers nothing for %j', (prefix) => {
+    expect(entryIdCandidates(prefix)).toEqual([]);
+  });
+});
+
 describe('toRcsbFacet', () => {
   it('maps a terms facet without an interval', () => {
     const spec: FacetSpec = {
@@ -147,3 +180,132 @@ describe('RcsbService search — 204 / empty body (issue #4 regression)', () =>
     expect(out.facets).toEqual([{ dimension: 'method', attribute: 'exptl.method', buckets: [] }]);
   });
 });
+
+describe('RcsbService completion, newest-first, and chemical search', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const service = () =>
+    new RcsbService(
+      {} as never,
+      {} as never,
+      {
+        rcsbSearchBaseUrl: 'https://search.test',
+        rcsbDataBaseUrl: 'https://data.test',
+        rcsbFilesBaseUrl: 'https://files.test',
+      } as never,
+    );
+
+  const searchResponse = (ids: string[]) =>
+    new Response(
+      JSON.stringify({
+        total_count: ids.length,
+        result_set: ids.map((identifier) => ({ identifier, score: 1 })),
+      }),
+    );
+
+  it('matches the expanded candidates and returns the hits sorted', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(searchResponse(['4HHB', '4HHA']));
+    const out = await service().completeEntryIds('4hh', 20, createMockContext());
+
+    expect(out).toEqual(['4HHA', '4HHB']);
+    const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+    expect(body.query.parameters).toMatchObject({ operator: 'in' });
+    expect(body.query.parameters.value).toHaveLength(36);
+    expect(body.request_options.paginate).toEqual({ start: 0, rows: 20 });
+  });
+
+  it('skips the request for a prefix too short to enumerate', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    expect(await service().completeEntryIds('4h', 20, createMockContext())).toEqual([]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('sorts by release date, newest first, when asked', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(searchResponse(['9ABC']));
+    await service().search({ sort: 'newest', limit: 5 }, createMockContext());
+
+    const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+    expect(body.request_options.sort).toEqual([
+      { sort_by: 'rcsb_accession_info.initial_release_date', direction: 'desc' },
+    ]);
+  });
+
+  it('sends a SMILES fingerprint-similarity query for chemical components', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(searchResponse(['AIN']));
+    const out = await service().searchChemComps(
+      'CC(=O)Oc1ccccc1C(=O)O',
+      { match: 'similarity', limit: 10 },
+      createMockContext(),
+    );
+
+    expect(out).toEqual({ total: 1, hits: [{ id: 'AIN', score: 1 }] });
+    const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+    expect(body).toMatchObject({
+      query: {
+        service: 'chemical',
+        parameters: {
+          type: 'descriptor',
+          descriptor_type: 'SMILES',
+          match_type: 'fingerprint-similarity',
+          value: 'CC(=O)Oc1ccccc1C(=O)O',
+        },
+      },
+      return_type: 'mol_definition',
+      request_options: { paginate: { start: 0, rows: 10 } },
+    });
+  });
+
+  it('recognizes InChI by its prefix and maps substructure to a relaxed graph match', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(searchResponse(['BNZ']));
+    await service().searchChemComps(
+      'InChI=1S/C6H6/c1-2-4-6-5-3-1/h1-6H',
+      { match: 'substructure', limit: 5 },
+      createMockContext(),
+    );
+
+    const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+    expect(body.query.parameters).toMatchObject({
+      descriptor_type: 'InChI',
+      match_type: 'sub-struct-graph-relaxed',
+    });
+  });
+
+  it("searches a UniProt accession's experimental entries, best resolution first", async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(searchResponse(['4HHB']));
+    const out = await service().searchByUniProt('P69905', { limit: 10 }, createMockContext());
+
+    expect(out).toEqual({ total: 1, hits: [{ id: '4HHB', score: 1 }] });
+    const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+    expect(body).toMatchObject({
+      query: {
+        type: 'terminal',
+        parameters: {
+          attribute:
+            'rcsb_polymer_entity_container_identifiers.reference_sequence_identifiers.database_accession',
+          operator: 'exact_match',
+          value: 'P69905',
+        },
+      },
+      return_type: 'entry',
+      request_options: {
+        results_content_type: ['experimental'],
+        paginate: { start: 0, rows: 10 },
+        sort: [{ sort_by: 'rcsb_entry_info.resolution_combined', direction: 'asc' }],
+      },
+    });
+  });
+
+  it('ANDs ligand containment in when a component is given', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(searchResponse(['4HHB']));
+    await service().searchByUniProt('P69905', { compId: 'HEM', limit: 10 }, createMockContext());
+
+    const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+    expect(body.query).toMatchObject({ type: 'group', logical_operator: 'and' });
+    expect(body.query.nodes[1].parameters).toMatchObject({
+      attribute: 'rcsb_chem_comp_container_identifiers.comp_id',
+      value: 'HEM',
+    });
+  });
+});
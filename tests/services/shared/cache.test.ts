@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Tests for the persistent response cache as seen through
+ * fetchJson/fetchText: opt-in by tier, per-tier TTLs handed to storage, body-aware
+ * keys, the shouldCache veto, hit reporting via ctx.enrich, the disabled switch,
+ * storage failures degrading to a miss, and the startup purge. Storage is a
+ * Map-backed stand-in; fetch is spied.
+ * @module tests/services/shared/cache.test
+ */
+
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initResponseCache, purgeResponseCache } from '@/services/shared/cache.js';
+import { fetchJson, fetchText } from '@/services/shared/http.js';
+
+/** Minimal StorageService stand-in recording the tenant and TTL of each write. */
+function fakeStorage() {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      data.set(key, value);
+    }),
+    clear: vi.fn(async () => {
+      const n = data.size;
+      data.clear();
+      return n;
+    }),
+  };
+}
+
+const CONFIG = {
+  cacheEnabled: true,
+  cacheEntryTtlSeconds: 604_800,
+  cachePredictionTtlSeconds: 86_400,
+  cacheAnnotationTtlSeconds: 43_200,
+  cacheSearchTtlSeconds: 600,
+};
+
+let storage: ReturnType<typeof fakeStorage>;
+
+const respond = (body: string) =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(body));
+
+beforeEach(() => {
+  storage = fakeStorage();
+  initResponseCache(storage as never, CONFIG as never);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  initResponseCache(storage as never, { ...CONFIG, cacheEnabled: false } as never);
+});
+
+describe('response cache — fetchJson', () => {
+  it('serves a repeat read from storage and reports the hit via ctx.enrich', async () => {
+    const fetchSpy = respond('{"id":"4HHB"}');
+    const opts = { operation: 'test', label: 'RCSB Data API', cache: 'entry' as const };
+
+    await fetchJson('https://data.test/entry/4HHB', createMockContext(), opts);
+    const ctx = createMockContext();
+    const out = await fetchJson('https://data.test/entry/4HHB', ctx, opts);
+
+    expect(out).toEqual({ id: '4HHB' });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(getEnrichment(ctx)).toEqual({ cacheHits: 1 });
+  });
+
+  it('accumulates the hit count across reads within one request', async () => {
+    respond('{"ok":true}');
+    const opts = { operation: 'test', label: 'UniProt', cache: 'annotation' as const };
+    await fetchJson('https://uniprot.test/P69905', createMockContext(), opts);
+
+    const ctx = createMockContext();
+    await fetchJson('https://uniprot.test/P69905', ctx, opts);
+    await fetchJson('https://uniprot.test/P69905', ctx, opts);
+    expect(getEnrichment(ctx)).toEqual({ cacheHits: 2 });
+  });
+
+  it('bypasses the cache entirely when the caller names no tier', async () => {
+    const fetchSpy = respond('{"ok":true}');
+    const opts = { operation: 'test', label: 'Foldseek' };
+    await fetchJson('https://foldseek.test/ticket/1', createMockContext(), opts);
+    await fetchJson('https://foldseek.test/ticket/1', createMockContext(), opts);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  it('stores under the tier TTL on a dedicated cache tenant', async () => {
+    respond('{"result_set":[]}');
+    await fetchJson('https://search.test', createMockContext({ tenantId: 'alice' }), {
+      operation: 'test',
+      label: 'RCSB Search API',
+      method: 'POST',
+      body: '{"q":1}',
+      cache: 'search',
+    });
+
+    const [key, , storageCtx, options] = storage.set.mock.calls[0] as unknown as [
+      string,
+      unknown,
+      { tenantId: string },
+      { ttl: number },
+    ];
+    expect(key).toMatch(/^http\/search\/[0-9a-f]{64}$/);
+    expect(storageCtx.tenantId).toBe('protein-response-cache');
+    expect(options.ttl).toBe(600);
+  });
+
+  it('keys POSTs by body, so two GraphQL queries to one endpoint never collide', async () => {
+    const fetchSpy = respond('{"data":{}}');
+    const post = (body: string) =>
+      fetchJson('https://data.test/graphql', createMockContext(), {
+        operation: 'test',
+        label: 'RCSB GraphQL API',
+        method: 'POST',
+        body,
+        cache: 'entry',
+      });
+    await post('{"query":"a"}');
+    await post('{"query":"b"}');
+    await post('{"query":"a"}');
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(storage.data.size).toBe(2);
+  });
+
+  it('never caches a non-string body (FormData upload)', async () => {
+    const fetchSpy = respond('{"id":"t1"}');
+    const opts = {
+      operation: 'test',
+      label: 'Foldseek',
+      method: 'POST',
+      body: new FormData(),
+      cache: 'search' as const,
+    };
+    await fetchJson('https://foldseek.test/api/ticket', createMockContext(), opts);
+    await fetchJson('https://foldseek.test/api/ticket', createMockContext(), opts);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  it('honors a shouldCache veto — a 200 GraphQL error body is not stored', async () => {
+    respond('{"errors":[{"message":"boom"}]}');
+    await fetchJson<{ data?: unknown; errors?: unknown[] }>(
+      'https://data.test/graphql',
+      createMockContext(),
+      {
+        operation: 'test',
+        label: 'RCSB GraphQL API',
+        cache: 'entry',
+        shouldCache: (b) => b.data != null,
+      },
+    );
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  it('does not store a failed fetch', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('nope', { status: 404 }));
+    await expect(
+      fetchJson('https://alphafold.test/api/prediction/P00000', createMockContext(), {
+        operation: 'test',
+        label: 'AlphaFold DB',
+        expectedStatuses: [404],
+        maxRetries: 0,
+        cache: 'prediction',
+      }),
+    ).rejects.toBeDefined();
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  it('degrades a storage failure to an uncached fetch', async () => {
+    storage.get.mockRejectedValue(new Error('disk full'));
+    storage.set.mockRejectedValue(new Error('disk full'));
+    respond('{"ok":true}');
+    const out = await fetchJson('https://data.test/x', createMockContext(), {
+      operation: 'test',
+      label: 'RCSB Data API',
+      cache: 'entry',
+    });
+    expect(out).toEqual({ ok: true });
+  });
+
+  it('stays uncached when the cache is disabled by config', async () => {
+    initResponseCache(storage as never, { ...CONFIG, cacheEnabled: false } as never);
+    const fetchSpy = respond('{"ok":true}');
+    const opts = { operation: 'test', label: 'RCSB Data API', cache: 'entry' as const };
+    await fetchJson('https://data.test/x', createMockContext(), opts);
+    await fetchJson('https://data.test/x', createMockContext(), opts);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(storage.get).not.toHaveBeenCalled();
+  });
+});
+
+describe('response cache — fetchText / purge', () => {
+  it('caches coordinate text under its tier', async () => {
+    const fetchSpy = respond('data_4HHB\n#');
+    const opts = { operation: 'test', label: 'Coordinate file', cache: 'entry' as const };
+    await fetchText('https://files.test/download/4HHB.cif', createMockContext(), opts);
+    const out = await fetchText('https://files.test/download/4HHB.cif', createMockContext(), opts);
+
+    expect(out).toBe('data_4HHB\n#');
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('purges the cache tenant and reports the number removed', async () => {
+    respond('{"ok":true}');
+    await fetchJson('https://data.test/x', createMockContext(), {
+      operation: 'test',
+      label: 'RCSB Data API',
+      cache: 'entry',
+    });
+
+    expect(await purgeResponseCache(storage as never)).toBe(1);
+    expect(storage.clear).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'protein-response-cache' }),
+    );
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Tests for the per-provider circuit breaker: consecutive outages
+ * open the circuit at the threshold and later calls fail fast with a
+ * non-retryable `circuit_open` error naming the provider; a provider answering
+ * (success or a 4xx) resets the count; after the cooldown one probe is admitted
+ * while concurrent calls still fail fast, and its verdict closes or reopens the
+ * circuit; a cancelled probe records nothing; circuits are independent per
+ * provider; a raw 5xx response counts through `isOutage`; and through the HTTP
+ * layer an open circuit stops `fetchJson` before the network. Time is faked for
+ * the cooldown cases; fetch is spied for the HTTP layer.
+ * @module tests/services/shared/circuit-breaker.test
+ */
+
+import { JsonRpcErrorCode, notFound, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CIRCUIT_OPEN,
+  CircuitBreaker,
+  getCircuitBreaker,
+  initCircuitBreaker,
+} from '@/services/shared/circuit-breaker.js';
+import { FIXTURE_MISSING } from '@/services/shared/fixtures.js';
+import { fetchJson } from '@/services/shared/http.js';
+
+const down = () =>
+  Promise.reject(serviceUnavailable('Foldseek returned HTTP 503.', { status: 503 }));
+const up = () => Promise.resolve('ok');
+
+/** Run `times` outages through the breaker, swallowing the errors. */
+async function fail(breaker: CircuitBreaker, provider: string, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await breaker.run(provider, createMockContext(), down).catch(() => undefined);
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  initCircuitBreaker({ circuitBreakerEnabled: false } as never);
+});
+
+describe('CircuitBreaker', () => {
+  it('opens at the threshold and then fails fast without calling the provider', async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+    await fail(breaker, 'Foldseek', 2);
+    expect(breaker.snapshot()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+
+    await fail(breaker, 'Foldseek', 1);
+    const call = vi.fn(up);
+    const refused = await breaker.run('Foldseek', createMockContext(), call).catch((e) => e);
+
+    expect(call).not.toHaveBeenCalled();
+    expect(refused).toMatchObject({
+      code: JsonRpcErrorCode.ServiceUnavailable,
+      data: { reason: CIRCUIT_OPEN, retryable: false, provider: 'Foldseek', state: 'open' },
+    });
+    expect(refused.message).toMatch(/^Foldseek is temporarily unavailable — it failed 3 calls/);
+    expect(breaker.snapshot()[0]).toMatchObject({ state: 'open', rejected: 1 });
+  });
+
+  it('resets the count when the provider answers, even with a 4xx', async () => {
+    const breaker = new CircuitBreaker(2, 30_000);
+    await fail(breaker, 'UniProt', 1);
+    await breaker
+      .run('UniProt', createMockContext(), () =>
+        Promise.reject(notFound('UniProt returned HTTP 404.', { status: 404 })),
+      )
+      .catch(() => undefined);
+    await fail(breaker, 'UniProt', 1);
+    expect(breaker.snapshot()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+
+    await breaker.run('UniProt', createMockContext(), up);
+    expect(breaker.snapshot()[0]).toMatchObject({ consecutiveFailures: 0 });
+    expect(breaker.snapshot()[0]?.lastSuccessAt).toBeTypeOf('number');
+  });
+
+  it('counts network errors, not missing fixtures or 429s', async () => {
+    const breaker = new CircuitBreaker(1, 30_000);
+    const ctx = createMockContext();
+    const reject = (err: unknown) => () => Promise.reject(err);
+    await breaker
+      .run(
+        'A',
+        ctx,
+        reject(serviceUnavailable('No recorded fixture.', { reason: FIXTURE_MISSING })),
+      )
+      .catch(() => undefined);
+    await breaker
+      .run('A', ctx, reject(serviceUnavailable('Too many requests.', { status: 429 })))
+      .catch(() => undefined);
+    expect(breaker.snapshot()[0]?.state).toBe('closed');
+
+    await breaker.run('B', ctx, reject(new TypeError('fetch failed'))).catch(() => undefined);
+    expect(breaker.snapshot()[1]).toMatchObject({ provider: 'B', state: 'open' });
+  });
+
+  it('counts a raw 5xx response through isOutage', async () => {
+    const breaker = new CircuitBreaker(1, 30_000);
+    const res = await breaker.run(
+      '3D-Beacons',
+      createMockContext(),
+      () => Promise.resolve(new Response('', { status: 502 })),
+      (r) => r.status >= 500,
+    );
+    expect(res.status).toBe(502);
+    expect(breaker.snapshot()[0]).toMatchObject({
+      state: 'open',
+      lastFailure: '3D-Beacons answered with a server error.',
+    });
+  });
+
+  it('admits one probe after the cooldown and closes on its success', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 10_000);
+    await fail(breaker, 'RCSB Alignment API', 1);
+    expect(breaker.snapshot()[0]?.retryAt).toBe(Date.now() + 10_000);
+
+    vi.advanceTimersByTime(10_000);
+    let finish: (v: string) => void = () => undefined;
+    const probe = breaker.run(
+      'RCSB Alignment API',
+      createMockContext(),
+      () => new Promise<string>((resolve) => (finish = resolve)),
+    );
+    expect(breaker.snapshot()[0]?.state).toBe('half_open');
+    await expect(breaker.run('RCSB Alignment API', createMockContext(), up)).rejects.toThrow(
+      /a recovery probe is in flight/,
+    );
+
+    finish('done');
+    await expect(probe).resolves.toBe('done');
+    expect(breaker.snapshot()[0]).toMatchObject({ state: 'closed', rejected: 0 });
+  });
+
+  it('reopens for a fresh cooldown when the probe fails', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(3, 10_000);
+    await fail(breaker, 'Foldseek', 3);
+    vi.advanceTimersByTime(10_000);
+    await fail(breaker, 'Foldseek', 1);
+
+    expect(breaker.snapshot()[0]).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 4,
+      retryAt: Date.now() + 10_000,
+    });
+  });
+
+  it('records nothing when the probe is cancelled', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 10_000);
+    await fail(breaker, 'Foldseek', 1);
+    vi.advanceTimersByTime(10_000);
+
+    const controller = new AbortController();
+    controller.abort();
+    await breaker
+      .run('Foldseek', createMockContext({ signal: controller.signal }), down)
+      .catch(() => undefined);
+    expect(breaker.snapshot()[0]).toMatchObject({ state: 'open', consecutiveFailures: 1 });
+
+    await expect(breaker.run('Foldseek', createMockContext(), up)).resolves.toBe('ok');
+  });
+
+  it('keeps each provider on its own circuit', async () => {
+    const breaker = new CircuitBreaker(1, 30_000);
+    await fail(breaker, 'Foldseek', 1);
+    await expect(breaker.run('RCSB Search API', createMockContext(), up)).resolves.toBe('ok');
+    expect(breaker.snapshot().map((c) => [c.provider, c.state])).toEqual([
+      ['Foldseek', 'open'],
+      ['RCSB Search API', 'closed'],
+    ]);
+  });
+});
+
+describe('HTTP layer', () => {
+  it('installs no breaker when disabled', () => {
+    expect(getCircuitBreaker()).toBeUndefined();
+  });
+
+  it('refuses a request on an open circuit before it reaches the network', async () => {
+    initCircuitBreaker({
+      circuitBreakerEnabled: true,
+      circuitFailureThreshold: 1,
+      circuitCooldownMs: 30_000,
+    } as never);
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response('down', { status: 503 }));
+    const opts = { operation: 'test', label: 'Foldseek', maxRetries: 0 };
+    const url = 'https://search.foldseek.com/api/ticket/T1';
+
+    await expect(fetchJson(url, createMockContext(), opts)).rejects.toMatchObject({
+      data: { status: 503 },
+    });
+    await expect(fetchJson(url, createMockContext(), opts)).rejects.toMatchObject({
+      data: { reason: CIRCUIT_OPEN, provider: 'Foldseek' },
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tests for provider fallback routing: the primary's answer wins,
+ * including "not found"; an unavailable primary (outage or open circuit) is
+ * answered from the secondary and recorded for the request; client errors and
+ * cancelled requests never fall back; when both providers fail the primary's
+ * error surfaces; and the notice groups fallbacks by provider pair.
+ * @module tests/services/shared/fallback.test
+ */
+
+import { invalidParams, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { describe, expect, it, vi } from 'vitest';
+import { CIRCUIT_OPEN } from '@/services/shared/circuit-breaker.js';
+import { fallbackNotice, fallbacksFor, withFallback } from '@/services/shared/fallback.js';
+
+const outage = () => serviceUnavailable('RCSB PDB files returned HTTP 503.', { status: 503 });
+const source = <T>(provider: string, load: () => Promise<T>) => ({ provider, load: vi.fn(load) });
+
+describe('withFallback', () => {
+  it("returns the primary's answer without asking the secondary", async () => {
+    const ctx = createMockContext();
+    const secondary = source('PDBe entry files', () => Promise.resolve('pdbe'));
+    const out = await withFallback(
+      'cif file for 4HHB',
+      ctx,
+      source('RCSB PDB files', () => Promise.resolve(null)),
+      secondary,
+    );
+    expect(out).toBeNull();
+    expect(secondary.load).not.toHaveBeenCalled();
+    expect(fallbacksFor(ctx)).toEqual([]);
+    expect(fallbackNotice(ctx)).toBeUndefined();
+  });
+
+  it('answers from the secondary when the primary is down, and records it', async () => {
+    const ctx = createMockContext();
+    const out = await withFallback(
+      'cif file for 4HHB',
+      ctx,
+      source('RCSB PDB files', () => Promise.reject(outage())),
+      source('PDBe entry files', () => Promise.resolve('data_4HHB')),
+    );
+    expect(out).toBe('data_4HHB');
+    expect(fallbacksFor(ctx)).toEqual([
+      {
+        data: 'cif file for 4HHB',
+        primary: 'RCSB PDB files',
+        provider: 'PDBe entry files',
+        reason: 'RCSB PDB files returned HTTP 503.',
+      },
+    ]);
+  });
+
+  it('falls back on an open circuit and on a raw network error', async () => {
+    const ctx = createMockContext();
+    const refused = serviceUnavailable('UniProt is temporarily unavailable.', {
+      reason: CIRCUIT_OPEN,
+      retryable: false,
+    });
+    await withFallback(
+      'sequence for P69905',
+      ctx,
+      source('UniProt', () => Promise.reject(refused)),
+      source('AlphaFold DB', () => Promise.resolve('MVLS')),
+    );
+    await withFallback(
+      'sequence for 4HHB',
+      ctx,
+      source('RCSB GraphQL API', () => Promise.reject(new TypeError('fetch failed'))),
+      source('UniProt (via PDBe SIFTS)', () => Promise.resolve('MVLS')),
+    );
+    expect(fallbacksFor(ctx).map((f) => f.provider)).toEqual([
+      'AlphaFold DB',
+      'UniProt (via PDBe SIFTS)',
+    ]);
+  });
+
+  it('rethrows a client error without trying the secondary', async () => {
+    const secondary = source('3D-Beacons', () => Promise.resolve(null));
+    const bad = invalidParams('AlphaFold DB returned HTTP 400.', { status: 400 });
+    await expect(
+      withFallback(
+        'AlphaFold model for XYZ',
+        createMockContext(),
+        source('AlphaFold DB', () => Promise.reject(bad)),
+        secondary,
+      ),
+    ).rejects.toBe(bad);
+    expect(secondary.load).not.toHaveBeenCalled();
+  });
+
+  it('does not fall back for a cancelled request', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const secondary = source('PDBe entry files', () => Promise.resolve('pdbe'));
+    await expect(
+      withFallback(
+        'cif file for 4HHB',
+        createMockContext({ signal: controller.signal }),
+        source('RCSB PDB files', () => Promise.reject(outage())),
+        secondary,
+      ),
+    ).rejects.toThrow(/HTTP 503/);
+    expect(secondary.load).not.toHaveBeenCalled();
+  });
+
+  it("surfaces the primary's error when the secondary fails too", async () => {
+    const ctx = createMockContext();
+    await expect(
+      withFallback(
+        'cif file for 4HHB',
+        ctx,
+        source('RCSB PDB files', () => Promise.reject(outage())),
+        source('PDBe entry files', () => Promise.reject(new TypeError('fetch failed'))),
+      ),
+    ).rejects.toThrow('RCSB PDB files returned HTTP 503.');
+    expect(fallbacksFor(ctx)).toEqual([]);
+  });
+});
+
+describe('fallbackNotice', () => {
+  it('groups the served data under each provider swap', async () => {
+    const ctx = createMockContext();
+    const rcsb = source('RCSB PDB files', () => Promise.reject(outage()));
+    const pdbe = source('PDBe entry files', () => Promise.resolve('file'));
+    await withFallback('cif file for 4HHB', ctx, rcsb, pdbe);
+    await withFallback('cif file for 1A3N', ctx, rcsb, pdbe);
+    await withFallback(
+      'AlphaFold model for P69905',
+      ctx,
+      source('AlphaFold DB', () => Promise.reject(outage())),
+      source('3D-Beacons', () => Promise.resolve(null)),
+    );
+    expect(fallbackNotice(ctx)).toBe(
+      'Answered from fallback providers because the primary was unavailable: ' +
+        'RCSB PDB files → PDBe entry files (cif file for 4HHB, cif file for 1A3N); ' +
+        'AlphaFold DB → 3D-Beacons (AlphaFold model for P69905).',
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Tests for record/replay upstream fixtures as seen through
+ * fetchJson/fetchText/fetchResponse: record writes one host-sharded file per
+ * exchange and bypasses the response cache, replay serves from disk with no
+ * network and the live status mapping, a replay miss is a non-retryable
+ * fixture_missing error, form uploads key stably, and live mode stays inert.
+ * Ends by replaying the committed fixtures under tests/fixtures/upstream through
+ * the real UniProtService. Fetch is spied; record mode writes to a temp dir.
+ * @module tests/services/shared/fixtures.test
+ */
+
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initResponseCache } from '@/services/shared/cache.js';
+import {
+  FIXTURE_MISSING,
+  type Fixture,
+  getFixtureStore,
+  initFixtureStore,
+} from '@/services/shared/fixtures.js';
+import { fetchJson, fetchResponse, fetchText } from '@/services/shared/http.js';
+import { UniProtService } from '@/services/uniprot/uniprot-service.js';
+
+let dir: string;
+
+const useMode = (upstreamMode: 'live' | 'record' | 'replay', fixtureDir = dir) =>
+  initFixtureStore({ upstreamMode, fixtureDir } as never);
+
+/** Every fixture written under the temp dir, by host. */
+async function recorded(): Promise<Array<{ host: string; file: string; fixture: Fixture }>> {
+  const out: Array<{ host: string; file: string; fixture: Fixture }> = [];
+  for (const host of await readdir(dir)) {
+    for (const file of await readdir(join(dir, host))) {
+      const fixture = JSON.parse(await readFile(join(dir, host, file), 'utf8')) as Fixture;
+      out.push({ host, file, fixture });
+    }
+  }
+  return out;
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'protein-fixtures-'));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await useMode('live');
+  initResponseCache({} as never, { cacheEnabled: false } as never);
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('record mode', () => {
+  it('writes each exchange under its host, keyed by method and digest', async () => {
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('{"ok":true}', { headers: { 'content-type': 'application/json' } }),
+    );
+    const out = await fetchJson('https://data.test/rest/v1/core/entry/4HHB', createMockContext(), {
+      operation: 'test',
+      label: 'RCSB Data API',
+    });
+
+    expect(out).toEqual({ ok: true });
+    const [only, ...rest] = await recorded();
+    expect(rest).toEqual([]);
+    expect(only?.host).toBe('data.test');
+    expect(only?.file).toMatch(/^GET-[0-9a-f]{64}\.json$/);
+    expect(only?.fixture).toEqual({
+      request: { method: 'GET', url: 'https://data.test/rest/v1/core/entry/4HHB' },
+      response: {
+        status: 200,
+        statusText: '',
+        headers: { 'content-type': 'application/json' },
+        body: '{"ok":true}',
+      },
+    });
+  });
+
+  it('keeps POST bodies apart — same URL, different body, different fixture', async () => {
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('{}'));
+    for (const body of ['{"query":"a"}', '{"query":"b"}']) {
+      await fetchJson('https://search.test/query', createMockContext(), {
+        operation: 'test',
+        label: 'RCSB Search API',
+        method: 'POST',
+        body,
+      });
+    }
+    const files = await recorded();
+    expect(files).toHaveLength(2);
+    expect(files.map((f) => f.fixture.request.body).sort()).toEqual([
+      '{"query":"a"}',
+      '{"query":"b"}',
+    ]);
+  });
+
+  it('records error statuses too, and still throws the status-mapped error', async () => {
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('{"detail":"Not Found"}', { status: 404 }),
+    );
+    await expect(
+      fetchJson('https://interpro.test/entry/X/', createMockContext(), {
+        operation: 'test',
+        label: 'InterPro',
+        maxRetries: 0,
+      }),
+    ).rejects.toMatchObject({ code: JsonRpcErrorCode.NotFound });
+    const [only] = await recorded();
+    expect(only?.fixture.response.status).toBe(404);
+  });
+
+  it('bypasses the response cache so every request reaches the recorder', async () => {
+    const storage = { get: vi.fn(), set: vi.fn() };
+    initResponseCache(storage as never, { cacheEnabled: true } as never);
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}'));
+    await fetchJson('https://data.test/x', createMockContext(), {
+      operation: 'test',
+      label: 'Test API',
+      cache: 'entry',
+    });
+    expect(storage.get).not.toHaveBeenCalled();
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  it('keys a form upload by its fields, not its random multipart boundary', async () => {
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('{"id":"T1"}'));
+    const form = () => {
+      const f = new FormData();
+      f.append('q', new Blob(['ATOM      1  CA  ALA A   1']), 'query.pdb');
+      f.append('mode', '3diaa');
+      return f;
+    };
+    for (let i = 0; i < 2; i++) {
+      await fetchResponse('https://foldseek.test/api/ticket', createMockContext(), {
+        label: 'Foldseek',
+        operation: 'test',
+        method: 'POST',
+        body: form(),
+      });
+    }
+    const files = await recorded();
+    expect(files).toHaveLength(1);
+    expect(files[0]?.fixture.request.body).toBe('q=ATOM      1  CA  ALA A   1\nmode=3diaa');
+  });
+});
+
+describe('replay mode', () => {
+  it('serves a recorded exchange from disk without touching the network', async () => {
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('data_4HHB\n#'));
+    await fetchText('https://files.test/download/4HHB.cif', createMockContext(), {
+      operation: 'test',
+      label: 'RCSB Files',
+    });
+    vi.restoreAllMocks();
+
+    await useMode('replay');
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const text = await fetchText('https://files.test/download/4HHB.cif', createMockContext(), {
+      operation: 'test',
+      label: 'RCSB Files',
+    });
+    expect(text).toBe('data_4HHB\n#');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('replays a bodiless 204 for callers that branch on the raw status', async () => {
+    await useMode('record');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    await fetchResponse('https://beacons.test/summary', createMockContext(), {
+      label: '3D-Beacons',
+      operation: 'test',
+    });
+
+    await useMode('replay');
+    const res = await fetchResponse('https://beacons.test/summary', createMockContext(), {
+      label: '3D-Beacons',
+      operation: 'test',
+    });
+    expect(res.status).toBe(204);
+    expect(await res.text()).toBe('');
+  });
+
+  it('fails a miss with a non-retryable fixture_missing error naming the request', async () => {
+    await useMode('replay');
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const err = await fetchJson('https://uniprot.test/uniprotkb/P99999', createMockContext(), {
+      operation: 'test',
+      label: 'UniProt',
+    }).catch((e: unknown) => e);
+
+    expect(err).toMatchObject({
+      code: JsonRpcErrorCode.ServiceUnavailable,
+      data: {
+        reason: FIXTURE_MISSING,
+        retryable: false,
+        method: 'GET',
+        url: 'https://uniprot.test/uniprotkb/P99999',
+      },
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('live mode', () => {
+  it('installs no store', async () => {
+    await useMode('live');
+    expect(getFixtureStore()).toBeUndefined();
+  });
+});
+
+describe('committed fixtures (tests/fixtures/upstream)', () => {
+  const service = () =>
+    new UniProtService(
+      {} as never,
+      {} as never,
+      {
+        uniprotBaseUrl: 'https://rest.uniprot.org',
+        interproBaseUrl: 'https://www.ebi.ac.uk/interpro/api',
+      } as never,
+    );
+
+  beforeEach(() => useMode('replay', 'tests/fixtures/upstream'));
+
+  it('replays a UniProt entry and its InterPro memberships end to end', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const uniprot = service();
+    const entry = await uniprot.getEntry('P69905', 'domains', createMockContext());
+    const domains = await uniprot.getInterPro('P69905', createMockContext());
+
+    expect(entry).toMatchObject({
+      accession: 'P69905',
+      proteinName: 'Hemoglobin subunit alpha',
+      geneNames: ['HBA1', 'HBA2'],
+      sequenceLength: 142,
+    });
+    expect(domains).toEqual([
+      expect.objectContaining({ accession: 'IPR000971', name: 'Globin', type: 'domain' }),
+    ]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('replays a recorded InterPro 404 as "no domains"', async () => {
+    expect(await service().getInterPro('A0A000', createMockContext())).toEqual([]);
+  });
+});
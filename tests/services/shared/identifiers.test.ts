@@ -9,6 +9,8 @@ import { describe, expect, it } from 'vitest';
 import {
   entryIdOf,
   isAlphaFoldEntryId,
+  isChemCompId,
+  isComputedModelId,
   isPdbId,
   isUniProtAccession,
 } from '@/services/shared/identifiers.js';
@@ -27,6 +29,19 @@ describe('isPdbId', () => {
   });
 });
 
+describe('isChemCompId', () => {
+  it.each(['HEM', 'STI', 'ZN', 'A', 'A1LU6', 'hem', ' ATP '])(
+    'accepts the component ID %s',
+    (id) => {
+      expect(isChemCompId(id)).toBe(true);
+    },
+  );
+
+  it.each(['', 'ABCDEF', 'HE M', 'STI;', 'imatinib'])('rejects %s', (id) => {
+    expect(isChemCompId(id)).toBe(false);
+  });
+});
+
 describe('isUniProtAccession', () => {
   it.each(['P69905', 'Q9Y6K9', 'O95786', 'A0A1K0GXZ1'])('accepts the accession %s', (acc) => {
     expect(isUniProtAccession(acc)).toBe(true);
@@ -65,6 +80,19 @@ describe('isAlphaFoldEntryId', () => {
   });
 });
 
+describe('isComputedModelId', () => {
+  it.each(['AF_AFP69905F1', 'MA_MABAKCEPC0001', 'ma_mabakcepc0001'])(
+    'accepts the computed-model ID %s',
+    (id) => {
+      expect(isComputedModelId(id)).toBe(true);
+    },
+  );
+
+  it.each(['AF-P69905-F1', 'AF_', 'XX_AFP69905F1', '4HHB', 'P69905'])('rejects %s', (id) => {
+    expect(isComputedModelId(id)).toBe(false);
+  });
+});
+
 describe('entryIdOf', () => {
   it('strips a polymer-entity suffix', () => {
     expect(entryIdOf('4HHB_1')).toBe('4HHB');
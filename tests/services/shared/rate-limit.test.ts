@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Tests for the per-host rate limiter: a burst of one second's rate
+ * passes, then reservations queue FIFO at the refill rate; hosts are paced
+ * independently at their configured or default rate; a 429/503 Retry-After
+ * (delta-seconds or HTTP-date, capped) pauses the host for every caller; waits
+ * worth reporting become a notice that publishNotices keeps alongside a tool's
+ * own advisories; cancellation ends a wait early; and the HTTP layer paces
+ * network attempts, reports Retry-After back, and leaves replays unpaced. Timers
+ * are faked for the pacing cases; fetch is spied for the HTTP layer.
+ * @module tests/services/shared/rate-limit.test
+ */
+
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { publishNotices } from '@/mcp-server/tools/definitions/_schemas.js';
+import { initFixtureStore } from '@/services/shared/fixtures.js';
+import { fetchJson, fetchResponse } from '@/services/shared/http.js';
+import {
+  getRateLimiter,
+  initRateLimiter,
+  parseRetryAfterMs,
+  RateLimiter,
+  throttleNotice,
+} from '@/services/shared/rate-limit.js';
+
+/** Resolve once every acquire has settled, recording when each one did. */
+async function settleTimes(limiter: RateLimiter, urls: string[]): Promise<number[]> {
+  const start = Date.now();
+  const ctx = createMockContext();
+  const times: number[] = [];
+  const all = Promise.all(
+    urls.map((url, i) =>
+      limiter.acquire(url, ctx).then(() => {
+        times[i] = Date.now() - start;
+      }),
+    ),
+  );
+  await vi.runAllTimersAsync();
+  await all;
+  return times;
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  initRateLimiter({ rateLimitEnabled: false } as never);
+  await initFixtureStore({ upstreamMode: 'live' } as never);
+});
+
+describe('RateLimiter pacing', () => {
+  it('passes a one-second burst, then spaces requests at the refill rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(2, {});
+    const url = 'https://data.rcsb.org/graphql';
+    expect(await settleTimes(limiter, [url, url, url, url])).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('queues concurrent callers in arrival order', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, { 'search.foldseek.com': 1 });
+    const url = 'https://search.foldseek.com/api/ticket';
+    expect(await settleTimes(limiter, [url, url, url])).toEqual([0, 1000, 2000]);
+  });
+
+  it('paces each host on its own bucket at its configured or default rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, { 'rest.uniprot.org': 1 });
+    expect(limiter.rateFor('REST.UNIPROT.ORG')).toBe(1);
+    expect(limiter.rateFor('alphafold.ebi.ac.uk')).toBe(10);
+    const times = await settleTimes(limiter, [
+      'https://rest.uniprot.org/uniprotkb/P69905',
+      'https://rest.uniprot.org/uniprotkb/P68871',
+      'https://alphafold.ebi.ac.uk/api/prediction/P69905',
+    ]);
+    expect(times).toEqual([0, 1000, 0]);
+  });
+
+  it('refills while idle, up to one second of rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(2, {});
+    const url = 'https://files.rcsb.org/download/4HHB.cif';
+    await settleTimes(limiter, [url, url]);
+    vi.advanceTimersByTime(10_000);
+    expect(await settleTimes(limiter, [url, url, url])).toEqual([0, 0, 500]);
+  });
+
+  it('ends a wait early when the request is cancelled', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(1, {});
+    const url = 'https://search.rcsb.org/rcsbsearch/v2/query';
+    const controller = new AbortController();
+    const ctx = createMockContext({ signal: controller.signal });
+    await limiter.acquire(url, ctx);
+    let done = false;
+    const pending = limiter.acquire(url, ctx).then(() => {
+      done = true;
+    });
+    controller.abort();
+    await pending;
+    expect(done).toBe(true);
+  });
+});
+
+describe('RateLimiter Retry-After', () => {
+  it('pauses the host for every caller on a 429', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, {});
+    limiter.observe('https://rest.uniprot.org/uniprotkb/P69905', 429, '3');
+    const times = await settleTimes(limiter, [
+      'https://rest.uniprot.org/uniprotkb/P68871',
+      'https://www.ebi.ac.uk/interpro/api/entry/',
+    ]);
+    expect(times).toEqual([3000, 0]);
+  });
+
+  it('ignores Retry-After on statuses other than 429 and 503, and unparseable values', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, {});
+    const url = 'https://alignment.rcsb.org/api/v1/structures/results';
+    limiter.observe(url, 404, '30');
+    limiter.observe(url, 503, 'soon');
+    limiter.observe(url, 200, null);
+    expect(await settleTimes(limiter, [url])).toEqual([0]);
+  });
+
+  it('caps a far-future pause at one minute', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, {});
+    const url = 'https://search.foldseek.com/api/ticket';
+    limiter.observe(url, 503, '86400');
+    expect(await settleTimes(limiter, [url])).toEqual([60_000]);
+  });
+
+  it('parses delta-seconds and HTTP-dates', () => {
+    const now = Date.parse('2026-10-18T12:00:00Z');
+    expect(parseRetryAfterMs('2', now)).toBe(2000);
+    expect(parseRetryAfterMs(' 1.5 ', now)).toBe(1500);
+    expect(parseRetryAfterMs('Sun, 18 Oct 2026 12:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfterMs('Sun, 18 Oct 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfterMs('later', now)).toBeUndefined();
+  });
+});
+
+describe('throttling notice', () => {
+  it('reports waits worth noticing, summed per request, with the hosts involved', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(1, {});
+    const ctx = createMockContext();
+    const url = 'https://rest.uniprot.org/uniprotkb/P69905';
+    const all = Promise.all([
+      limiter.acquire(url, ctx),
+      limiter.acquire(url, ctx),
+      limiter.acquire(url, ctx),
+    ]);
+    await vi.runAllTimersAsync();
+    await all;
+
+    expect(throttleNotice(ctx)).toBe(
+      'Upstream rate limits delayed this call by 3.0s (rest.uniprot.org).',
+    );
+    expect(getEnrichment(ctx).notice).toBe(throttleNotice(ctx));
+  });
+
+  it('stays silent for short pacing waits', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10, {});
+    const ctx = createMockContext();
+    const url = 'https://data.rcsb.org/graphql';
+    const all = Promise.all(Array.from({ length: 11 }, () => limiter.acquire(url, ctx)));
+    await vi.runAllTimersAsync();
+    await all;
+    expect(throttleNotice(ctx)).toBeUndefined();
+  });
+
+  it('publishNotices keeps the throttling report after a tool’s own advisories', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(1, {});
+    const ctx = createMockContext();
+    const url = 'https://search.foldseek.com/api/ticket';
+    const all = Promise.all([limiter.acquire(url, ctx), limiter.acquire(url, ctx)]);
+    await vi.runAllTimersAsync();
+    await all;
+
+    publishNotices(ctx, ['Foldseek returned no fold-similar hits in the selected databases.']);
+    expect(getEnrichment(ctx).notice).toBe(
+      'Foldseek returned no fold-similar hits in the selected databases. Upstream rate limits delayed this call by 1.0s (search.foldseek.com).',
+    );
+  });
+
+  it('publishNotices writes nothing when there is nothing to say', () => {
+    const ctx = createMockContext();
+    publishNotices(ctx, []);
+    expect(getEnrichment(ctx).notice).toBeUndefined();
+  });
+});
+
+describe('HTTP layer', () => {
+  const enable = () =>
+    initRateLimiter({
+      rateLimitEnabled: true,
+      rateLimitDefaultRps: 1000,
+      rateLimits: {},
+    } as never);
+
+  it('installs no limiter when disabled', () => {
+    initRateLimiter({ rateLimitEnabled: false } as never);
+    expect(getRateLimiter()).toBeUndefined();
+  });
+
+  it('takes a slot before every network attempt, retries included', async () => {
+    enable();
+    const acquire = vi.spyOn(getRateLimiter() as RateLimiter, 'acquire');
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('<html>busy</html>'))
+      .mockResolvedValueOnce(new Response('{"ok":true}'));
+    const url = 'https://rest.uniprot.org/uniprotkb/P69905';
+
+    await fetchJson(url, createMockContext(), {
+      operation: 'test',
+      label: 'UniProt',
+      baseDelayMs: 1,
+    });
+
+    expect(acquire).toHaveBeenCalledTimes(2);
+    expect(acquire).toHaveBeenCalledWith(url, expect.anything());
+  });
+
+  it('reports a 429 Retry-After from a status-mapped failure', async () => {
+    enable();
+    const observe = vi.spyOn(getRateLimiter() as RateLimiter, 'observe');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('slow down', { status: 429, headers: { 'retry-after': '2' } }),
+    );
+    const url = 'https://search.foldseek.com/api/ticket/T1';
+
+    await expect(
+      fetchJson(url, createMockContext(), { operation: 'test', label: 'Foldseek', maxRetries: 0 }),
+    ).rejects.toThrow();
+    expect(observe).toHaveBeenCalledWith(url, 429, '2');
+  });
+
+  it('reports a 503 Retry-After on a raw response the caller branches on', async () => {
+    enable();
+    const observe = vi.spyOn(getRateLimiter() as RateLimiter, 'observe');
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('', { status: 503, headers: { 'retry-after': '5' } }),
+    );
+    const url = 'https://alignment.rcsb.org/api/v1/structures/results?uuid=x';
+
+    const res = await fetchResponse(url, createMockContext(), {
+      label: 'RCSB Alignment API',
+      operation: 'test',
+    });
+    expect(res.status).toBe(503);
+    expect(observe).toHaveBeenCalledWith(url, 503, '5');
+  });
+
+  it('leaves replayed requests unpaced', async () => {
+    enable();
+    await initFixtureStore({
+      upstreamMode: 'replay',
+      fixtureDir: 'tests/fixtures/upstream',
+    } as never);
+    const acquire = vi.spyOn(getRateLimiter() as RateLimiter, 'acquire');
+
+    await fetchResponse(
+      'https://www.ebi.ac.uk/interpro/api/entry/interpro/protein/UniProt/A0A000/',
+      createMockContext(),
+      { label: 'InterPro', operation: 'test' },
+    );
+    expect(acquire).not.toHaveBeenCalled();
+  });
+});
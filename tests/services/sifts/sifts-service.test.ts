@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Tests for the SIFTS service: normalization of the PDBe
+ * `/mappings/uniprot` payload into per-chain segments (label and author
+ * offsets, insertion codes, unmodeled segment ends, chimeric chains, dropped
+ * malformed segments, chain/segment ordering), the configurable base URL and
+ * entry cache tier, the 404 → empty-mapping branch (distinct from a transport
+ * error), and the UniProt ↔ label ↔ author helpers. HTTP mocked.
+ * @module tests/services/sifts/sifts-service.test
+ */
+
+import { JsonRpcErrorCode, McpError } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/services/shared/http.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/shared/http.js')>();
+  return { ...actual, fetchJson: vi.fn() };
+});
+
+import { fetchJson } from '@/services/shared/http.js';
+import {
+  type ChainMapping,
+  labelToUniprot,
+  SiftsService,
+  uniprotToAuth,
+  uniprotToLabel,
+} from '@/services/sifts/sifts-service.js';
+
+const fetchJsonMock = vi.mocked(fetchJson);
+
+const service = () =>
+  new SiftsService({} as never, {} as never, { siftsBaseUrl: 'https://pdbe.test/api' } as never);
+
+const residue = (residue_number: number, author_residue_number: number | null, ins = '') => ({
+  residue_number,
+  author_residue_number,
+  author_insertion_code: ins,
+});
+
+/**
+ * A 1IEP-shaped payload: ABL1 chains A and B numbered 229+ in UniProt but from
+ * the construct's own scheme in the file, chain B with an unmodeled first
+ * residue, a chimeric chain C (ABL1 then a fusion partner carrying an
+ * insertion code), and one malformed segment whose spans disagree.
+ */
+const PAYLOAD = {
+  '1iep': {
+    UniProt: {
+      P00519: {
+        identifier: 'ABL1_HUMAN',
+        mappings: [
+          {
+            entity_id: 1,
+            chain_id: 'B',
+            struct_asym_id: 'B',
+            start: residue(1, null),
+            end: residue(293, 521),
+            unp_start: 229,
+            unp_end: 521,
+          },
+          {
+            entity_id: 1,
+            chain_id: 'A',
+            struct_asym_id: 'A',
+            start: residue(1, 229),
+            end: residue(293, 521),
+            unp_start: 229,
+            unp_end: 521,
+          },
+          {
+            entity_id: 2,
+            chain_id: 'C',
+            struct_asym_id: 'E',
+            start: residue(1, 1),
+            end: residue(10, 10),
+            unp_start: 600,
+            unp_end: 609,
+          },
+          {
+            entity_id: 1,
+            chain_id: 'A',
+            struct_asym_id: 'A',
+            start: residue(300, 600),
+            end: residue(310, 605),
+            unp_start: 700,
+            unp_end: 702,
+          },
+        ],
+      },
+      q99999: {
+        mappings: [
+          {
+            entity_id: 2,
+            chain_id: 'C',
+            struct_asym_id: 'E',
+            start: residue(11, 10, 'A'),
+            end: residue(20, 19),
+            unp_start: 1,
+            unp_end: 10,
+          },
+        ],
+      },
+    },
+  },
+};
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('SiftsService.getEntryMapping', () => {
+  it('normalizes per-chain segments with offsets, insertion codes, and unmodeled ends', async () => {
+    fetchJsonMock.mockResolvedValue(PAYLOAD);
+    const out = await service().getEntryMapping('1IEP', createMockContext());
+
+    expect(fetchJsonMock).toHaveBeenCalledWith(
+      'https://pdbe.test/api/mappings/uniprot/1iep',
+      expect.anything(),
+      expect.objectContaining({ cache: 'entry', expectedStatuses: [404] }),
+    );
+    expect(out.pdbId).toBe('1IEP');
+    expect(out.chains.map((c) => [c.chain, c.accession])).toEqual([
+      ['A', 'P00519'],
+      ['B', 'P00519'],
+      ['C', 'P00519'],
+      ['C', 'Q99999'],
+    ]);
+    expect(out.chains[0]).toEqual({
+      accession: 'P00519',
+      chain: 'A',
+      asymId: 'A',
+      entityId: '1',
+      name: 'ABL1_HUMAN',
+      segments: [
+        {
+          uniprotStart: 229,
+          uniprotEnd: 521,
+          labelOffset: -228,
+          authOffset: 0,
+          start: { labelSeqId: 1, authSeqId: 229 },
+          end: { labelSeqId: 293, authSeqId: 521 },
+        },
+      ],
+    });
+    // Unmodeled first residue: no author number, so no author offset either.
+    expect(out.chains[1]?.segments[0]?.start).toEqual({ labelSeqId: 1 });
+    expect(out.chains[1]?.segments[0]?.authOffset).toBeUndefined();
+    // Insertion code at a segment end: label offset only.
+    expect(out.chains[3]).toMatchObject({ asymId: 'E', entityId: '2' });
+    expect(out.chains[3]?.segments[0]).toMatchObject({
+      labelOffset: 10,
+      start: { labelSeqId: 11, authSeqId: 10, insCode: 'A' },
+    });
+    expect(out.chains[3]?.segments[0]?.authOffset).toBeUndefined();
+    expect(out.chains[3]?.name).toBeUndefined();
+  });
+
+  it('returns an empty mapping on 404 and rethrows other failures', async () => {
+    fetchJsonMock.mockRejectedValueOnce(new McpError(JsonRpcErrorCode.NotFound, 'Not found'));
+    await expect(service().getEntryMapping('9xyz', createMockContext())).resolves.toEqual({
+      pdbId: '9XYZ',
+      chains: [],
+    });
+
+    fetchJsonMock.mockRejectedValueOnce(
+      new McpError(JsonRpcErrorCode.ServiceUnavailable, 'PDBe down'),
+    );
+    await expect(service().getEntryMapping('1iep', createMockContext())).rejects.toMatchObject({
+      code: JsonRpcErrorCode.ServiceUnavailable,
+    });
+  });
+});
+
+describe('SIFTS position helpers', () => {
+  const mapping: ChainMapping = {
+    accession: 'P00519',
+    chain: 'A',
+    asymId: 'A',
+    entityId: '1',
+    segments: [
+      {
+        uniprotStart: 229,
+        uniprotEnd: 240,
+        labelOffset: -228,
+        authOffset: 0,
+        start: { labelSeqId: 1, authSeqId: 229 },
+        end: { labelSeqId: 12, authSeqId: 240 },
+      },
+      {
+        uniprotStart: 250,
+        uniprotEnd: 255,
+        labelOffset: -235,
+        start: { labelSeqId: 15, authSeqId: 250, insCode: 'A' },
+        end: { labelSeqId: 20, authSeqId: 254 },
+      },
+    ],
+  };
+
+  it('translates UniProt positions to label_seq_id and back', () => {
+    expect(uniprotToLabel(mapping, 229)).toBe(1);
+    expect(uniprotToLabel(mapping, 252)).toBe(17);
+    expect(uniprotToLabel(mapping, 245)).toBeUndefined();
+    expect(labelToUniprot(mapping, 12)).toBe(240);
+    expect(labelToUniprot(mapping, 17)).toBe(252);
+    expect(labelToUniprot(mapping, 13)).toBeUndefined();
+  });
+
+  it('gives author numbers only where the segment is linear in author numbering', () => {
+    expect(uniprotToAuth(mapping, 235)).toBe(235);
+    expect(uniprotToAuth(mapping, 252)).toBeUndefined();
+    expect(uniprotToAuth(mapping, 300)).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Tests for the DSSP-style assignment on a synthetic fixture built
+ * from ideal backbone geometry: a 16-residue α-helix (chain A) and a two-stranded
+ * antiparallel sheet whose strands sit in different chains (B and C). Covers
+ * helix and strand segment extraction, cross-chain ladders, chain breaks, the
+ * same assignment after translating the model, modified residues in the
+ * sequence, and the skipping of non-protein chains.
+ * @module tests/services/structure/dssp.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { assignSecondaryStructure } from '@/services/structure/dssp.js';
+import { parseMmcif } from '@/services/structure/mmcif.js';
+import { parsePdb } from '@/services/structure/pdb.js';
+import type { Model } from '@/services/structure/types.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../../fixtures/structure/${name}`, import.meta.url), 'utf8');
+
+const SYNTHETIC = parsePdb(fixture('ss-synthetic.pdb')).models[0] as Model;
+
+describe('assignSecondaryStructure', () => {
+  const byChain = new Map(assignSecondaryStructure(SYNTHETIC).map((c) => [c.chain, c]));
+
+  it('returns one assignment per protein chain, aligned with the sequence', () => {
+    expect([...byChain.keys()]).toEqual(['A', 'B', 'C']);
+    const helix = byChain.get('A');
+    expect(helix?.sequence).toBe('A'.repeat(16));
+    expect(helix?.ss).toHaveLength(16);
+    expect(helix?.residues.map((r) => r.authSeqId)).toEqual(
+      Array.from({ length: 16 }, (_, i) => i + 1),
+    );
+  });
+
+  it('assigns an ideal α-helix as H with the capping residues as coil', () => {
+    const helix = byChain.get('A');
+    expect(helix?.ss).toBe('-HHHHHHHHHHHHHH-');
+    expect(helix?.helices).toEqual([{ type: 'H', start: 2, end: 15, length: 14 }]);
+    expect(helix?.strands).toEqual([]);
+  });
+
+  it('finds an antiparallel ladder across two chains', () => {
+    for (const chain of ['B', 'C']) {
+      const strand = byChain.get(chain);
+      expect(strand?.ss).toBe('-EEEEE--');
+      expect(strand?.strands).toEqual([{ type: 'E', start: 2, end: 6, length: 5 }]);
+      expect(strand?.helices).toEqual([]);
+    }
+  });
+
+  it('leaves a lone strand as coil once its partner is gone', () => {
+    const alone: Model = { ...SYNTHETIC, chains: SYNTHETIC.chains.filter((c) => c.id !== 'C') };
+    const strand = assignSecondaryStructure(alone).find((c) => c.chain === 'B');
+    expect(strand?.ss).toBe('-'.repeat(8));
+  });
+
+  it('does not bond across a chain break', () => {
+    const chainA = SYNTHETIC.chains.find((c) => c.id === 'A');
+    if (!chainA) throw new Error('fixture lacks chain A');
+    // Dropping residue 9 leaves a gap no i → i+4 bond may span; each side keeps its own helix.
+    const broken: Model = {
+      ...SYNTHETIC,
+      chains: [{ ...chainA, residues: chainA.residues.filter((r) => r.authSeqId !== 9) }],
+    };
+    const [helix] = assignSecondaryStructure(broken);
+    expect(helix?.ss).toBe('-HHHHHH--HHHHH-');
+    expect(helix?.helices).toEqual([
+      { type: 'H', start: 2, end: 7, length: 6 },
+      { type: 'H', start: 11, end: 15, length: 5 },
+    ]);
+  });
+
+  it('assigns the same states wherever the model sits in space', () => {
+    const moved: Model = {
+      ...SYNTHETIC,
+      chains: SYNTHETIC.chains.map((c) => ({
+        ...c,
+        residues: c.residues.map((r) => ({
+          ...r,
+          atoms: r.atoms.map((a) => ({ ...a, x: a.x - 104.3, y: a.y + 4.5, z: a.z - 13.1 })),
+        })),
+      })),
+    };
+    expect(assignSecondaryStructure(moved).map((c) => c.ss)).toEqual(
+      [...byChain.values()].map((c) => c.ss),
+    );
+  });
+
+  it('reads modified residues as their parent, keeping U for selenocysteine', () => {
+    const chainA = SYNTHETIC.chains.find((c) => c.id === 'A');
+    if (!chainA) throw new Error('fixture lacks chain A');
+    const modified = ['MSE', 'SEC', 'SEP'];
+    const residues = chainA.residues.map((r, i) =>
+      i < modified.length ? { ...r, compId: modified[i] as string, hetero: true } : r,
+    );
+    const [helix] = assignSecondaryStructure({ ...SYNTHETIC, chains: [{ ...chainA, residues }] });
+    expect(helix?.sequence).toBe(`MUS${'A'.repeat(13)}`);
+    expect(helix?.ss).toBe('-HHHHHHHHHHHHHH-');
+  });
+
+  it('skips chains without amino-acid backbones', () => {
+    const model = parseMmcif(fixture('mini.cif')).models[0] as Model;
+    const chains = assignSecondaryStructure(model);
+    expect(chains.map((c) => c.chain)).toEqual(['A']);
+    expect(chains[0]?.sequence).toBe('TC');
+    expect(chains[0]?.ss).toBe('--');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Tests for protein–ligand interaction typing on hand-built
+ * geometries: hydrogen-bond direction from residue chemistry and ligand bond
+ * lengths (and left open when both sides could donate), salt bridges of either
+ * polarity, parallel and T-shaped π-stacking, cation–π, halogen bonds, metal
+ * coordination, the one-per-residue hydrophobic reduction, and the distance and
+ * angle cut-offs that reject near misses.
+ * @module tests/services/structure/interactions.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ligandInteractions } from '@/services/structure/interactions.js';
+import type { Atom, Model, Residue } from '@/services/structure/types.js';
+
+type Xyz = [number, number, number];
+
+const atom = (name: string, [x, y, z]: Xyz, element = name[0] as string): Atom => ({
+  id: 1,
+  name,
+  element,
+  hetero: false,
+  occupancy: 1,
+  bFactor: 0,
+  x,
+  y,
+  z,
+});
+
+const residue = (compId: string, atoms: Atom[], hetero = false): Residue => ({
+  compId,
+  authSeqId: 1,
+  hetero,
+  atoms: atoms.map((a) => ({ ...a, hetero })),
+});
+
+const ligand = (compId: string, atoms: Atom[]) => residue(compId, atoms, true);
+
+/** The ligand and the protein residues in one chain, ligand last. */
+function interactions(lig: Residue, ...protein: Residue[]) {
+  const model: Model = { modelNumber: 1, chains: [{ id: 'A', residues: [...protein, lig] }] };
+  return ligandInteractions(model, lig);
+}
+
+/** A regular hexagon of radius 1.39 Å about `center`, in the plane spanned by `u` and `v`. */
+function hexagon(names: string[], center: Xyz, u: Xyz = [1, 0, 0], v: Xyz = [0, 1, 0]): Atom[] {
+  return names.map((name, i) => {
+    const t = (i * Math.PI) / 3;
+    const [c, s] = [1.39 * Math.cos(t), 1.39 * Math.sin(t)];
+    return atom(name, [
+      center[0] + c * u[0] + s * v[0],
+      center[1] + c * u[1] + s * v[1],
+      center[2] + c * u[2] + s * v[2],
+    ]);
+  });
+}
+
+const PHE_RING = ['CG', 'CD1', 'CE1', 'CZ', 'CE2', 'CD2'];
+const BENZENE = ['C1', 'C2', 'C3', 'C4', 'C5', 'C6'];
+/** Phenylalanine ring in the z = 0 plane, CB and CA trailing off along +x. */
+const phe = () =>
+  residue('PHE', [
+    ...hexagon(PHE_RING, [0, 0, 0]),
+    atom('CB', [2.9, 0, 0]),
+    atom('CA', [4.4, 0, 0]),
+  ]);
+
+describe('ligandInteractions — hydrogen bonds', () => {
+  /** Acetone: the carbonyl O (1.23 Å) only accepts. */
+  const acetone = ligand('ACN', [
+    atom('C1', [0, 0, 0]),
+    atom('O', [1.23, 0, 0]),
+    atom('C2', [-0.75, 1.3, 0]),
+    atom('C3', [-0.75, -1.3, 0]),
+  ]);
+  /** Methanol: the hydroxyl O (1.43 Å) donates and accepts. */
+  const methanol = ligand('MOH', [atom('C1', [0, 0, 0]), atom('O1', [1.43, 0, 0])]);
+  const serine = (x: number) =>
+    residue('SER', [
+      atom('OG', [x, 0, 0]),
+      atom('CB', [x + 1, 1.05, 0]),
+      atom('CA', [x + 2, 2.25, 0]),
+    ]);
+
+  it('makes serine the donor to a carbonyl that can only accept', () => {
+    expect(interactions(acetone, serine(4.03))).toEqual([
+      expect.objectContaining({
+        type: 'hydrogen_bond',
+        chain: 'A',
+        proteinAtoms: ['OG'],
+        ligandAtoms: ['O'],
+        distance: 2.8,
+        donor: 'protein',
+      }),
+    ]);
+  });
+
+  it('makes a ligand hydroxyl the donor to a backbone carbonyl', () => {
+    const glycine = residue('GLY', [
+      atom('O', [4.13, 0, 0]),
+      atom('C', [5.36, 0, 0]),
+      atom('CA', [6.1, 1.2, 0]),
+      atom('N', [7.5, 1.2, 0]),
+    ]);
+    expect(interactions(methanol, glycine)[0]).toMatchObject({
+      type: 'hydrogen_bond',
+      proteinAtoms: ['O'],
+      ligandAtoms: ['O1'],
+      donor: 'ligand',
+    });
+  });
+
+  it('leaves the direction open when both atoms could donate', () => {
+    const [bond] = interactions(methanol, serine(4.23));
+    expect(bond).toMatchObject({ type: 'hydrogen_bond', distance: 2.8 });
+    expect(bond).not.toHaveProperty('donor');
+  });
+
+  it('rejects pairs beyond 3.5 Å or behind a covalent bond', () => {
+    expect(interactions(acetone, serine(4.9))).toEqual([]);
+    // CB sits between OG and the ligand, so the OG···O line runs back through the bond.
+    const behind = residue('SER', [
+      atom('OG', [4.03, 0, 0]),
+      atom('CB', [3.0, 0.6, 0]),
+      atom('CA', [2.5, 2.0, 0]),
+    ]);
+    expect(interactions(acetone, behind).filter((i) => i.type === 'hydrogen_bond')).toEqual([]);
+  });
+});
+
+describe('ligandInteractions — charged groups', () => {
+  it('pairs lysine with a ligand carboxylate, the protein positive', () => {
+    const acetate = ligand('ACT', [
+      atom('CH3', [-1.5, 0, 0]),
+      atom('C', [0, 0, 0]),
+      atom('O1', [0.63, 1.08, 0]),
+      atom('OXT', [0.63, -1.08, 0]),
+    ]);
+    const lysine = residue('LYS', [
+      atom('NZ', [4.5, 0, 0]),
+      atom('CE', [6, 0, 0]),
+      atom('CA', [9, 0, 0]),
+    ]);
+    const bridge = interactions(acetate, lysine).find((i) => i.type === 'salt_bridge');
+    expect(bridge).toMatchObject({
+      proteinAtoms: ['NZ'],
+      ligandAtoms: ['O1', 'OXT'],
+      distance: 3.87,
+      positive: 'protein',
+    });
+  });
+
+  it('pairs aspartate with a ligand amidine, the ligand positive', () => {
+    const amidine = ligand('BEN', [
+      atom('C7', [0, 0, 0]),
+      atom('C1', [-1.48, 0, 0]),
+      atom('N1', [0.66, 1.15, 0]),
+      atom('N2', [0.66, -1.15, 0]),
+    ]);
+    const aspartate = residue('ASP', [
+      atom('OD1', [3.5, 1.1, 0]),
+      atom('OD2', [3.5, -1.1, 0]),
+      atom('CG', [4.1, 0, 0]),
+      atom('CA', [7, 0, 0]),
+    ]);
+    const bridge = interactions(amidine, aspartate).find((i) => i.type === 'salt_bridge');
+    expect(bridge).toMatchObject({ ligandAtoms: ['N1', 'N2'], positive: 'ligand' });
+  });
+});
+
+describe('ligandInteractions — aromatic rings', () => {
+  it('finds parallel stacking between a phenylalanine and a benzene 3.8 Å above it', () => {
+    const benzene = ligand('BNZ', hexagon(BENZENE, [0, 0, 3.8]));
+    const [stack] = interactions(benzene, phe()).filter((i) => i.type === 'pi_stacking');
+    expect(stack).toMatchObject({
+      proteinAtoms: PHE_RING,
+      ligandAtoms: BENZENE,
+      distance: 3.8,
+      stacking: 'parallel',
+      angle: 0,
+    });
+  });
+
+  it('finds T-shaped stacking for a perpendicular ring over the centre', () => {
+    const edgeOn = ligand('BNZ', hexagon(BENZENE, [0, 0, 5], [1, 0, 0], [0, 0, 1]));
+    expect(interactions(edgeOn, phe()).find((i) => i.type === 'pi_stacking')).toMatchObject({
+      stacking: 't_shaped',
+      angle: 90,
+    });
+  });
+
+  it('rejects a parallel ring slid more than 2 Å off the centre', () => {
+    const slid = ligand('BNZ', hexagon(BENZENE, [2.6, 0, 3.6]));
+    expect(interactions(slid, phe()).filter((i) => i.type === 'pi_stacking')).toEqual([]);
+  });
+
+  it('does not read a puckered ring as aromatic', () => {
+    const chair = hexagon(BENZENE, [0, 0, 3.8]).map((a, i) => ({
+      ...a,
+      z: a.z + (i % 2 === 0 ? 0.25 : -0.25),
+    }));
+    expect(
+      interactions(ligand('CHX', chair), phe()).filter((i) => i.type === 'pi_stacking'),
+    ).toEqual([]);
+  });
+
+  it('finds cation–π between a lysine amine and a ligand ring', () => {
+    const benzene = ligand('BNZ', hexagon(BENZENE, [0, 0, 0]));
+    const lysine = residue('LYS', [
+      atom('NZ', [0, 0, 4]),
+      atom('CE', [0, 0, 5.47]),
+      atom('CA', [0, 0, 12]),
+    ]);
+    expect(interactions(benzene, lysine)).toEqual([
+      expect.objectContaining({
+        type: 'cation_pi',
+        proteinAtoms: ['NZ'],
+        ligandAtoms: BENZENE,
+        distance: 4,
+        positive: 'protein',
+      }),
+    ]);
+  });
+});
+
+describe('ligandInteractions — halogens and metals', () => {
+  const chloromethane = (end: Xyz) =>
+    ligand('CLM', [atom('C1', [0, 0, 0]), atom('CL1', [1.77, 0, 0], 'CL'), atom('C2', end)]);
+  const glycineO = residue('GLY', [
+    atom('O', [5, 0, 0]),
+    atom('C', [6.23, 0, 0]),
+    atom('CA', [7, 1.2, 0]),
+  ]);
+
+  it('finds a linear C–Cl···O halogen bond', () => {
+    const [bond] = interactions(chloromethane([-0.5, 1.45, 0]), glycineO).filter(
+      (i) => i.type === 'halogen_bond',
+    );
+    expect(bond).toMatchObject({
+      proteinAtoms: ['O'],
+      ligandAtoms: ['CL1'],
+      distance: 3.23,
+      donor: 'ligand',
+      angle: 180,
+    });
+  });
+
+  it('rejects a halogen pointing away from the acceptor', () => {
+    const bent = ligand('CLM', [atom('C1', [1.77, 1.77, 0]), atom('CL1', [1.77, 0, 0], 'CL')]);
+    expect(interactions(bent, glycineO).filter((i) => i.type === 'halogen_bond')).toEqual([]);
+  });
+
+  it('lists each protein atom coordinating a metal ion', () => {
+    const zinc = ligand('ZN', [atom('ZN', [0, 0, 0], 'ZN')]);
+    const his = residue('HIS', [
+      atom('NE2', [2.05, 0, 0]),
+      atom('CE1', [2.8, 1.1, 0]),
+      atom('CA', [5, 3, 0]),
+    ]);
+    const cys = residue('CYS', [
+      atom('SG', [0, 2.3, 0]),
+      atom('CB', [1.2, 3.3, 0]),
+      atom('CA', [2, 5, 0]),
+    ]);
+    const far = residue('ASP', [
+      atom('OD1', [0, 0, 3.4]),
+      atom('CG', [0, 0, 4.6]),
+      atom('CA', [0, 0, 7]),
+    ]);
+    expect(
+      interactions(zinc, his, cys, far).map((i) => [i.type, i.proteinAtoms[0], i.distance]),
+    ).toEqual([
+      ['metal_coordination', 'NE2', 2.05],
+      ['metal_coordination', 'SG', 2.3],
+    ]);
+  });
+});
+
+describe('ligandInteractions — hydrophobic contacts and ordering', () => {
+  it('keeps only the closest carbon pair per residue', () => {
+    const propane = ligand('PRP', [
+      atom('C1', [0, 0, 0]),
+      atom('C2', [1.53, 0, 0]),
+      atom('C3', [2.3, 1.3, 0]),
+    ]);
+    const leucine = residue('LEU', [
+      atom('CD1', [0, 0, 3.9]),
+      atom('CD2', [1.53, 0, 3.7]),
+      atom('CG', [0.8, 1.3, 4.2]),
+      atom('CA', [0.8, 2.8, 6]),
+    ]);
+    expect(interactions(propane, leucine)).toEqual([
+      expect.objectContaining({
+        type: 'hydrophobic',
+        proteinAtoms: ['CD2'],
+        ligandAtoms: ['C2'],
+        distance: 3.7,
+      }),
+    ]);
+  });
+
+  it('orders by interaction type, then distance, and ignores waters', () => {
+    const acetone = ligand('ACN', [
+      atom('C1', [0, 0, 0]),
+      atom('O', [1.23, 0, 0]),
+      atom('C2', [-0.75, 1.3, 0]),
+      atom('C3', [-0.75, -1.3, 0]),
+    ]);
+    const water = residue('HOH', [atom('O', [4, 0, 0])], true);
+    const leucine = residue('LEU', [
+      atom('CD1', [-0.75, 1.3, 3.8]),
+      atom('CG', [-0.75, 2.8, 4]),
+      atom('CA', [-0.75, 4, 5.5]),
+    ]);
+    const serine = residue('SER', [
+      atom('OG', [4.23, 0, 0]),
+      atom('CB', [5.23, 1.05, 0]),
+      atom('CA', [6.23, 2.25, 0]),
+    ]);
+    expect(interactions(acetone, leucine, water, serine).map((i) => i.type)).toEqual([
+      'hydrogen_bond',
+      'hydrophobic',
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Tests for chain–chain interface analysis on hand-built
+ * geometries: hydrogen bonds with the donating chain (and left open when both
+ * atoms could donate), one salt bridge per residue pair at its closest atoms,
+ * disulfides, interface membership by the contact cutoff and by buried surface,
+ * the pair-only interface area, a pair that does not touch, and the search for
+ * chain pairs in contact.
+ * @module tests/services/structure/interface.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { contactingChains, interfaceBetween } from '@/services/structure/interface.js';
+import type { Atom, Chain, Model, Residue } from '@/services/structure/types.js';
+
+type Xyz = [number, number, number];
+
+const atom = (name: string, [x, y, z]: Xyz): Atom => ({
+  id: 1,
+  name,
+  element: name[0] as string,
+  hetero: false,
+  occupancy: 1,
+  bFactor: 0,
+  x,
+  y,
+  z,
+});
+
+const residue = (compId: string, authSeqId: number, atoms: Atom[]): Residue => ({
+  compId,
+  authSeqId,
+  labelSeqId: authSeqId,
+  hetero: false,
+  atoms,
+});
+
+/** A residue whose named atoms sit along x from `at`, CA 1.5 Å behind the first. */
+const sideChain = (compId: string, authSeqId: number, at: Xyz, ...names: string[]): Residue =>
+  residue(compId, authSeqId, [
+    atom('CA', [at[0] - 1.5, at[1], at[2]]),
+    ...names.map((n, i) => atom(n, [at[0] + i * 1.3, at[1], at[2]])),
+  ]);
+
+const model = (...chains: Chain[]): Model => ({ modelNumber: 1, chains });
+
+describe('interfaceBetween — contact typing', () => {
+  it('types a hydrogen bond and names the donating chain', () => {
+    const m = model(
+      { id: 'A', residues: [sideChain('SER', 10, [0, 0, 0], 'OG')] },
+      { id: 'B', residues: [sideChain('ASP', 20, [2.8, 0, 0], 'OD1')] },
+    );
+    const found = interfaceBetween(m, 'A', 'B');
+    expect(found?.contacts).toEqual([
+      {
+        type: 'hydrogen_bond',
+        distance: 2.8,
+        donor: 'A',
+        sides: [
+          { chain: 'A', residue: m.chains[0]?.residues[0], atom: 'OG' },
+          { chain: 'B', residue: m.chains[1]?.residues[0], atom: 'OD1' },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves the donor open when both atoms could donate', () => {
+    const m = model(
+      { id: 'A', residues: [sideChain('SER', 10, [0, 0, 0], 'OG')] },
+      { id: 'B', residues: [sideChain('THR', 20, [2.9, 0, 0], 'OG1')] },
+    );
+    const [bond] = interfaceBetween(m, 'A', 'B')?.contacts ?? [];
+    expect(bond).toMatchObject({ type: 'hydrogen_bond' });
+    expect(bond?.donor).toBeUndefined();
+  });
+
+  it('keeps one salt bridge per residue pair, at its closest charged atoms', () => {
+    const lys = residue('LYS', 5, [atom('CA', [-3, 0, 0]), atom('NZ', [0, 0, 0])]);
+    const glu = residue('GLU', 7, [
+      atom('CA', [6, 0, 0]),
+      atom('OE1', [3, 0, 0]),
+      atom('OE2', [0, 3.6, 0]),
+    ]);
+    const m = model({ id: 'A', residues: [lys] }, { id: 'B', residues: [glu] });
+    const contacts = interfaceBetween(m, 'A', 'B')?.contacts ?? [];
+    expect(contacts.map((c) => [c.type, c.sides[1].atom, c.distance])).toEqual([
+      ['salt_bridge', 'OE1', 3],
+      ['hydrogen_bond', 'OE1', 3],
+    ]);
+    expect(contacts[0]?.positive).toBe('A');
+    expect(contacts[1]?.donor).toBe('A');
+  });
+
+  it('reports the positive side when it is the second chain', () => {
+    const m = model(
+      { id: 'A', residues: [sideChain('ASP', 1, [0, 0, 0], 'OD1')] },
+      { id: 'B', residues: [sideChain('ARG', 2, [3.8, 0, 0], 'NH1')] },
+    );
+    const [bridge] = interfaceBetween(m, 'A', 'B')?.contacts ?? [];
+    expect(bridge).toMatchObject({ type: 'salt_bridge', positive: 'B', distance: 3.8 });
+  });
+
+  it('finds an inter-chain disulfide', () => {
+    const m = model(
+      { id: 'A', residues: [sideChain('CYS', 3, [0, 0, 0], 'SG')] },
+      { id: 'B', residues: [sideChain('CYS', 9, [2.04, 0, 0], 'SG')] },
+    );
+    const contacts = interfaceBetween(m, 'A', 'B')?.contacts ?? [];
+    expect(contacts.map((c) => [c.type, c.distance])).toEqual([['disulfide', 2.04]]);
+  });
+});
+
+describe('interfaceBetween — residues and area', () => {
+  const near = sideChain('LEU', 10, [0, 0, 0], 'CB', 'CG');
+  const far = sideChain('ALA', 11, [0, 20, 0], 'CB');
+  const partner = sideChain('VAL', 40, [7, 0, 0], 'CB', 'CG1');
+  const m = model({ id: 'A', residues: [near, far] }, { id: 'B', residues: [partner] });
+
+  it('lists residues within the cutoff with their closest distance and buried area', () => {
+    const found = interfaceBetween(m, 'A', 'B');
+    expect(found?.residues.map((r) => [r.chain, r.residue.authSeqId, r.closest])).toEqual([
+      ['A', 10, 4.2],
+      ['B', 40, 4.2],
+    ]);
+    expect(found?.residues.every((r) => (r.buriedSasa ?? 0) > 0)).toBe(true);
+    expect(found?.buriedSasa).toBeGreaterThan(0);
+    expect(found?.interfaceArea).toBeCloseTo((found?.buriedSasa ?? 0) / 2, 1);
+  });
+
+  it('keeps a residue past the cutoff when the partner still buries its surface', () => {
+    const found = interfaceBetween(m, 'A', 'B', { cutoff: 3 });
+    expect(found?.residues.map((r) => r.residue.authSeqId)).toEqual([10, 40]);
+  });
+
+  it('measures the area against the pair alone, ignoring other chains', () => {
+    const third = { id: 'C', residues: [sideChain('PHE', 1, [2.6, 3, 0], 'CB')] };
+    const withThird = interfaceBetween(model(...m.chains, third), 'A', 'B');
+    expect(withThird?.buriedSasa).toBe(interfaceBetween(m, 'A', 'B')?.buriedSasa);
+  });
+
+  it('returns an empty interface for chains that do not touch', () => {
+    const apart = model(
+      { id: 'A', residues: [near] },
+      { id: 'B', residues: [sideChain('VAL', 1, [40, 0, 0], 'CB')] },
+    );
+    expect(interfaceBetween(apart, 'A', 'B')).toEqual({
+      chains: ['A', 'B'],
+      buriedSasa: 0,
+      interfaceArea: 0,
+      residues: [],
+      contacts: [],
+    });
+  });
+
+  it('returns undefined when a chain has no polymer residue', () => {
+    const water: Residue = {
+      compId: 'HOH',
+      authSeqId: 1,
+      hetero: true,
+      atoms: [atom('O', [1, 0, 0])],
+    };
+    expect(interfaceBetween(m, 'A', 'Z')).toBeUndefined();
+    expect(
+      interfaceBetween(model(m.chains[0] as Chain, { id: 'W', residues: [water] }), 'A', 'W'),
+    ).toBeUndefined();
+  });
+});
+
+describe('contactingChains', () => {
+  it('lists the chain pairs in contact in model order, with their atom-pair counts', () => {
+    const m = model(
+      { id: 'A', residues: [sideChain('LEU', 1, [0, 0, 0], 'CB')] },
+      { id: 'B', residues: [sideChain('LEU', 1, [30, 0, 0], 'CB')] },
+      { id: 'C', residues: [sideChain('LEU', 1, [4, 0, 0], 'CB')] },
+    );
+    expect(contactingChains(m)).toEqual([{ chains: ['A', 'C'], atomPairs: 3 }]);
+    expect(contactingChains(m, 2)).toEqual([]);
+  });
+});
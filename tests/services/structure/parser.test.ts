@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Tests for the coordinate parser against small bundled fixtures:
+ * mmCIF atom_site projection (label vs auth IDs, altlocs, occupancies, HETATM
+ * flags, formal charges, quoted primed atom names, null markers), legacy PDB
+ * fixed columns (multi-model framing, insertion codes, element inference from a
+ * blank element column, charge column), dialect sniffing, and the
+ * not-a-coordinate-file errors.
+ * @module tests/services/structure/parser.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { describe, expect, it } from 'vitest';
+import { parseMmcif } from '@/services/structure/mmcif.js';
+import { parseStructure } from '@/services/structure/parser.js';
+import { parsePdb } from '@/services/structure/pdb.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../../fixtures/structure/${name}`, import.meta.url), 'utf8');
+
+const MINI_CIF = fixture('mini.cif');
+const MINI_PDB = fixture('mini-nmr.pdb');
+
+describe('parseMmcif', () => {
+  const structure = parseMmcif(MINI_CIF);
+  const [model] = structure.models;
+
+  it('reads the entry ID from the data block and yields one model', () => {
+    expect(structure).toMatchObject({ format: 'cif', id: '1MIN' });
+    expect(structure.models).toHaveLength(1);
+    expect(model?.modelNumber).toBe(1);
+  });
+
+  it('groups chains by author chain ID in order of first appearance', () => {
+    expect(model?.chains.map((c) => c.id)).toEqual(['A', 'B']);
+  });
+
+  it('keeps ligand and water as distinct residues with their own label asym IDs', () => {
+    const chainA = model?.chains[0];
+    expect(chainA?.residues.map((r) => [r.compId, r.authSeqId, r.labelAsymId])).toEqual([
+      ['THR', 1, 'A'],
+      ['CYS', 2, 'A'],
+      ['SO4', 101, 'B'],
+      ['HOH', 201, 'C'],
+    ]);
+  });
+
+  it('carries label seq IDs for polymers only and marks HETATM residues', () => {
+    const [thr, , so4, hoh] = model?.chains[0]?.residues ?? [];
+    expect(thr).toMatchObject({ labelSeqId: 1, entityId: '1', hetero: false });
+    expect(so4?.hetero).toBe(true);
+    expect(so4).not.toHaveProperty('labelSeqId');
+    expect(hoh?.atoms[0]).toMatchObject({ hetero: true, element: 'O' });
+  });
+
+  it('projects coordinates, B-factors, and occupancies as numbers', () => {
+    const n = model?.chains[0]?.residues[0]?.atoms[0];
+    expect(n).toEqual({
+      id: 1,
+      name: 'N',
+      element: 'N',
+      x: 17.047,
+      y: 14.099,
+      z: 3.625,
+      occupancy: 1,
+      bFactor: 13.79,
+      hetero: false,
+    });
+  });
+
+  it('keeps both alternate locations with their partial occupancies', () => {
+    const cbs = model?.chains[0]?.residues[1]?.atoms.filter((a) => a.name === 'CB');
+    expect(cbs?.map((a) => [a.altLoc, a.occupancy])).toEqual([
+      ['A', 0.6],
+      ['B', 0.4],
+    ]);
+  });
+
+  it('records a non-zero formal charge and omits null ones', () => {
+    const [s, o1] = model?.chains[0]?.residues[2]?.atoms ?? [];
+    expect(o1?.charge).toBe(-1);
+    expect(s).not.toHaveProperty('charge');
+  });
+
+  it('unquotes a primed nucleic-acid atom name ("C1\'")', () => {
+    const da = model?.chains[1]?.residues[0];
+    expect(da?.atoms.map((a) => a.name)).toEqual(['P', "C1'"]);
+    expect(da?.atoms[1]?.element).toBe('C');
+  });
+
+  it('stops at the loop boundary — later categories do not leak into atom sites', () => {
+    const atoms = model?.chains.flatMap((c) => c.residues.flatMap((r) => r.atoms)) ?? [];
+    expect(atoms).toHaveLength(19);
+  });
+
+  it('reads multi-line text fields and falls back to auth IDs when label ones are null', () => {
+    const cif = [
+      'data_X',
+      'loop_',
+      '_atom_site.group_PDB',
+      '_atom_site.id',
+      '_atom_site.label_atom_id',
+      '_atom_site.label_comp_id',
+      '_atom_site.auth_asym_id',
+      '_atom_site.auth_seq_id',
+      '_atom_site.Cartn_x',
+      '_atom_site.Cartn_y',
+      '_atom_site.Cartn_z',
+      'HETATM 1',
+      ';O',
+      ';',
+      'HOH Z 7 1.0 2.0 3.0',
+    ].join('\n');
+    const atom = parseMmcif(cif).models[0]?.chains[0]?.residues[0];
+    expect(atom).toMatchObject({ compId: 'HOH', authSeqId: 7, hetero: true });
+    expect(atom?.atoms[0]).toMatchObject({ name: 'O', x: 1, occupancy: 1, bFactor: 0 });
+  });
+
+  it('rejects text with no _atom_site loop as a SerializationError', () => {
+    expect(() => parseMmcif('data_EMPTY\n_entry.id EMPTY\n')).toThrow(
+      expect.objectContaining({ code: JsonRpcErrorCode.SerializationError }),
+    );
+  });
+
+  it('rejects a loop whose value count does not fill its columns', () => {
+    const broken = 'data_X\nloop_\n_atom_site.id\n_atom_site.Cartn_x\n1 2.0 3\n';
+    expect(() => parseMmcif(broken)).toThrow(/malformed/);
+  });
+});
+
+describe('parsePdb', () => {
+  const structure = parsePdb(MINI_PDB);
+
+  it('reads the ID from HEADER and frames each MODEL separately', () => {
+    expect(structure).toMatchObject({ format: 'pdb', id: '2NMR' });
+    expect(structure.models.map((m) => m.modelNumber)).toEqual([1, 2]);
+    expect(structure.models[1]?.chains[0]?.residues[0]?.atoms[0]).toMatchObject({
+      x: -1.3,
+      y: 0.5,
+      z: 0,
+    });
+  });
+
+  it('keeps the insertion code and omits label IDs PDB cannot carry', () => {
+    const ala = structure.models[0]?.chains[0]?.residues[1];
+    expect(ala).toMatchObject({ compId: 'ALA', authSeqId: 52, insCode: 'A', hetero: false });
+    expect(ala).not.toHaveProperty('labelAsymId');
+    expect(ala).not.toHaveProperty('labelSeqId');
+  });
+
+  it('infers a blank element from the atom-name alignment', () => {
+    const hb = structure.models[0]?.chains[0]?.residues[1]?.atoms[2];
+    expect(hb).toMatchObject({ name: '1HB', element: 'H' });
+  });
+
+  it('reads a two-letter element and the charge column on a HETATM ion', () => {
+    const zn = structure.models[0]?.chains[0]?.residues[2];
+    expect(zn).toMatchObject({ compId: 'ZN', authSeqId: 101, hetero: true });
+    expect(zn?.atoms[0]).toMatchObject({ element: 'ZN', charge: 2 });
+  });
+
+  it('rejects text with no ATOM/HETATM records', () => {
+    expect(() => parsePdb('HEADER    NOTHING\nEND\n')).toThrow(/not a coordinate file/);
+  });
+});
+
+describe('parseStructure', () => {
+  it('sniffs mmCIF from the data block header', () => {
+    expect(parseStructure(MINI_CIF).format).toBe('cif');
+  });
+
+  it('sniffs PDB when there is no data block', () => {
+    expect(parseStructure(MINI_PDB).format).toBe('pdb');
+  });
+
+  it('honors an explicit format over sniffing', () => {
+    expect(() => parseStructure(MINI_PDB, 'cif')).toThrow(/_atom_site/);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Tests for the Shrake–Rupley SASA computation against analytic
+ * values — an isolated atom exposes its whole probe-inflated sphere, two
+ * overlapping atoms each lose a spherical cap — plus relative accessibility,
+ * per-chain totals and interface burial on the synthetic secondary-structure
+ * fixture, and the exclusion of waters, ligands, hydrogens, and alternate
+ * conformers.
+ * @module tests/services/structure/sasa.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parsePdb } from '@/services/structure/pdb.js';
+import { computeSasa, maxSasaOf } from '@/services/structure/sasa.js';
+import type { Atom, Chain, Model } from '@/services/structure/types.js';
+
+const SYNTHETIC = parsePdb(
+  readFileSync(new URL('../../fixtures/structure/ss-synthetic.pdb', import.meta.url), 'utf8'),
+).models[0] as Model;
+
+/** Carbon (1.7 Å) plus the 1.4 Å probe. */
+const R = 3.1;
+const SPHERE = 4 * Math.PI * R * R;
+/** Area a sphere of radius R loses to an equal sphere whose centre is d away. */
+const cap = (d: number) => 2 * Math.PI * R * (R - d / 2);
+
+const atom = (x: number, extra: Partial<Atom> = {}): Atom => ({
+  id: 1,
+  name: 'CA',
+  element: 'C',
+  hetero: false,
+  occupancy: 1,
+  bFactor: 0,
+  x,
+  y: 0,
+  z: 0,
+  ...extra,
+});
+
+const chain = (id: string, x: number, compId = 'ALA', y = 0): Chain => ({
+  id,
+  residues: [{ compId, authSeqId: 1, hetero: false, atoms: [atom(x, { y })] }],
+});
+
+const model = (...chains: Chain[]): Model => ({ modelNumber: 1, chains });
+
+describe('computeSasa', () => {
+  it('exposes the full probe-inflated sphere of an isolated atom', () => {
+    const out = computeSasa(model(chain('A', 0)));
+    expect(out.sasa).toBeCloseTo(SPHERE, 1);
+    expect(out.chains[0]?.residues[0]).toMatchObject({ relativeSasa: 0.936 });
+    expect(out.chains[0]).toMatchObject({ buriedSasa: 0 });
+    expect(out.interfaces).toEqual([]);
+  });
+
+  it('matches the analytic cap loss for two overlapping atoms in different chains', () => {
+    const out = computeSasa(model(chain('A', 0), chain('B', 3)), { points: 2000 });
+    for (const c of out.chains) {
+      expect(c.isolatedSasa).toBeCloseTo(SPHERE, 1);
+      expect(c.sasa).toBeCloseTo(SPHERE - cap(3), 0);
+      expect(c.residues[0]?.buriedSasa).toBeCloseTo(cap(3), 0);
+    }
+    expect(out.interfaces).toHaveLength(1);
+    expect(out.interfaces[0]?.chains).toEqual(['A', 'B']);
+    expect(out.interfaces[0]?.buriedSasa).toBeCloseTo(2 * cap(3), 0);
+  });
+
+  it('measures each interface against the pair alone', () => {
+    // C touches both A and B; A–B burial must not change because C is present.
+    const pair = computeSasa(model(chain('A', 0), chain('B', 3)), { points: 2000 });
+    const triple = computeSasa(model(chain('A', 0), chain('B', 3), chain('C', 1.5, 'ALA', 2.5)), {
+      points: 2000,
+    });
+    expect(triple.interfaces.map((i) => i.chains)).toEqual([
+      ['A', 'B'],
+      ['A', 'C'],
+      ['B', 'C'],
+    ]);
+    expect(triple.interfaces[0]?.buriedSasa).toBe(pair.interfaces[0]?.buriedSasa);
+  });
+
+  it('leaves out waters, ligands, hydrogens, and alternate conformers', () => {
+    const base = computeSasa(model(chain('A', 0)));
+    const crowded: Chain = {
+      id: 'A',
+      residues: [
+        {
+          compId: 'ALA',
+          authSeqId: 1,
+          hetero: false,
+          atoms: [
+            atom(0, { altLoc: 'A' }),
+            atom(1, { altLoc: 'B' }),
+            atom(0.5, { name: 'HA', element: 'H' }),
+          ],
+        },
+        {
+          compId: 'HOH',
+          authSeqId: 201,
+          hetero: true,
+          atoms: [atom(2, { name: 'O', element: 'O' })],
+        },
+        {
+          compId: 'SO4',
+          authSeqId: 301,
+          hetero: true,
+          atoms: [atom(-2, { name: 'S', element: 'S' })],
+        },
+      ],
+    };
+    const out = computeSasa(model(crowded));
+    expect(out.sasa).toBe(base.sasa);
+    expect(out.chains[0]?.residues.map((r) => r.residue.compId)).toEqual(['ALA']);
+  });
+
+  it('scores modified amino acids against the parent and skips nucleotides', () => {
+    expect(maxSasaOf('MSE')).toBe(maxSasaOf('MET'));
+    expect(maxSasaOf('DA')).toBeUndefined();
+    const out = computeSasa(model(chain('A', 0, 'MSE'), chain('B', 20, 'DA')));
+    expect(out.chains[0]?.residues[0]?.relativeSasa).toBeCloseTo(SPHERE / 224, 2);
+    expect(out.chains[1]?.residues[0]?.relativeSasa).toBeUndefined();
+  });
+
+  describe('on the synthetic fixture', () => {
+    const out = computeSasa(SYNTHETIC);
+    const byChain = new Map(out.chains.map((c) => [c.chain, c]));
+
+    it('reports every polymer residue and totals that add up', () => {
+      expect(out.chains.map((c) => [c.chain, c.residues.length])).toEqual([
+        ['A', 16],
+        ['B', 8],
+        ['C', 8],
+      ]);
+      const chainSum = out.chains.reduce((s, c) => s + c.sasa, 0);
+      expect(out.sasa).toBeCloseTo(chainSum, 1);
+      for (const c of out.chains) {
+        expect(c.sasa).toBeCloseTo(
+          c.residues.reduce((s, r) => s + r.sasa, 0),
+          1,
+        );
+        expect(c.buriedSasa).toBeCloseTo(c.isolatedSasa - c.sasa, 1);
+      }
+    });
+
+    it('buries surface only between the paired strands', () => {
+      expect(byChain.get('A')?.buriedSasa).toBe(0);
+      expect(byChain.get('A')?.residues.some((r) => r.buriedSasa !== undefined)).toBe(false);
+      expect(out.interfaces).toHaveLength(1);
+      const [sheet] = out.interfaces;
+      expect(sheet?.chains).toEqual(['B', 'C']);
+      const sides = (byChain.get('B')?.buriedSasa ?? 0) + (byChain.get('C')?.buriedSasa ?? 0);
+      expect(sheet?.buriedSasa).toBeCloseTo(sides, 1);
+      expect(sheet?.buriedSasa).toBeGreaterThan(200);
+    });
+
+    it('exposes the helix termini more than its middle', () => {
+      const rsa = byChain.get('A')?.residues.map((r) => r.relativeSasa ?? 0) ?? [];
+      expect(rsa[0]).toBeGreaterThan(rsa[8] as number);
+      expect(rsa[15]).toBeGreaterThan(rsa[8] as number);
+    });
+
+    it('is deterministic', () => {
+      expect(computeSasa(SYNTHETIC)).toEqual(out);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Tests for the atom-selection language against the bundled
+ * fixtures: keyword predicates (chain, resi ranges, resn, name, elem, ligand,
+ * protein, nucleic, water, hydrogen, backbone), boolean composition and
+ * precedence, whole-residue `around` neighbourhoods, per-model evaluation, and
+ * syntax errors surfacing as InvalidParams.
+ * @module tests/services/structure/selection.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { describe, expect, it } from 'vitest';
+import { parseMmcif } from '@/services/structure/mmcif.js';
+import { parsePdb } from '@/services/structure/pdb.js';
+import {
+  countAtoms,
+  isLigand,
+  parseSelection,
+  selectStructure,
+} from '@/services/structure/selection.js';
+import type { Atom } from '@/services/structure/types.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../../fixtures/structure/${name}`, import.meta.url), 'utf8');
+
+const CIF = parseMmcif(fixture('mini.cif'));
+const PDB = parsePdb(fixture('mini-nmr.pdb'));
+const model = CIF.models[0];
+if (!model) throw new Error('fixture has no model');
+
+const ids = (expr: string): number[] =>
+  [...parseSelection(expr).select(model)].map((a: Atom) => a.id).sort((a, b) => a - b);
+const range = (lo: number, hi: number) => Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+
+describe('parseSelection keywords', () => {
+  it('selects by author chain, case-sensitively', () => {
+    expect(ids('chain B')).toEqual([18, 19]);
+    expect(ids('chain b')).toEqual([]);
+    expect(ids('chain A,B')).toHaveLength(19);
+  });
+
+  it('selects author residue numbers and ranges', () => {
+    expect(ids('resi 2')).toEqual(range(8, 14));
+    expect(ids('resi 1-2')).toEqual([...range(1, 14), 18, 19]);
+    expect(ids('chain A and resi 1-2')).toEqual(range(1, 14));
+    expect(ids('resi 100-300')).toEqual([15, 16, 17]);
+  });
+
+  it('matches component, atom, and element names case-insensitively', () => {
+    expect(ids('resn so4')).toEqual([15, 16]);
+    expect(ids('name ca')).toEqual([2, 9]);
+    expect(ids("name C1'")).toEqual([19]);
+    expect(ids('elem s')).toEqual([14, 15]);
+  });
+
+  it('classifies protein, nucleic, water, and ligand residues', () => {
+    expect(ids('protein')).toEqual(range(1, 14));
+    expect(ids('nucleic')).toEqual([18, 19]);
+    expect(ids('water')).toEqual([17]);
+    expect(ids('ligand')).toEqual([15, 16]);
+    expect(ids('ligand SO4')).toEqual([15, 16]);
+    expect(ids('ligand HEM')).toEqual([]);
+  });
+
+  it('selects backbone atoms of polymer residues only', () => {
+    expect(ids('backbone')).toEqual([1, 2, 3, 4, 8, 9, 10, 11]);
+  });
+
+  it('selects hydrogens by element', () => {
+    const pdbModel = PDB.models[0];
+    if (!pdbModel) throw new Error('fixture has no model');
+    const h = [...parseSelection('hydrogen').select(pdbModel)];
+    expect(h.map((a) => a.name)).toEqual(['1HB']);
+  });
+});
+
+describe('parseSelection composition', () => {
+  it('binds and tighter than or, with not tighter still', () => {
+    expect(ids('chain B or resi 1 and name N')).toEqual([1, 18, 19]);
+    expect(ids('(chain B or resi 1) and name N')).toEqual([1]);
+    expect(ids('protein and not backbone')).toEqual([5, 6, 7, 12, 13, 14]);
+  });
+
+  it('keeps both alternate locations unless one is excluded by name', () => {
+    expect(ids('resi 2 and name CB')).toEqual([12, 13]);
+  });
+
+  it('expands "around" to whole residues within the cutoff, keeping the reference', () => {
+    expect(ids('ligand SO4 around 3')).toEqual([15, 16]);
+    // CYS 2 comes within ~5.2 Å of the sulfate; THR 1 stays beyond 5.5 Å.
+    expect(ids('ligand SO4 around 5.5')).toEqual([...range(8, 14), 15, 16]);
+    expect(ids('ligand SO4 around 5.5 and not ligand')).toEqual(range(8, 14));
+  });
+
+  it('evaluates each model of an ensemble against its own coordinates', () => {
+    const pruned = selectStructure(PDB, parseSelection('resn ZN around 3'));
+    expect(pruned.models.map((m) => m.modelNumber)).toEqual([1, 2]);
+    expect(countAtoms(pruned)).toBe(2);
+  });
+
+  it('drops emptied residues, chains, and models when pruning', () => {
+    const pruned = selectStructure(CIF, parseSelection('chain B and name P'));
+    expect(pruned.id).toBe('1MIN');
+    expect(pruned.models[0]?.chains.map((c) => [c.id, c.residues.length])).toEqual([['B', 1]]);
+    expect(selectStructure(CIF, parseSelection('resn HEM')).models).toEqual([]);
+  });
+});
+
+describe('parseSelection errors', () => {
+  it.each([
+    ['chain'],
+    ['chain A and'],
+    ['(chain A'],
+    ['chain A)'],
+    ['residue 5'],
+    ['resi 5-x'],
+    ['ligand around 0'],
+    ['ligand around 50'],
+    ['chain and'],
+  ])('rejects %j as InvalidParams', (expr) => {
+    expect(() => parseSelection(expr)).toThrow(
+      expect.objectContaining({ code: JsonRpcErrorCode.InvalidParams }),
+    );
+  });
+
+  it('names the offending token', () => {
+    expect(() => parseSelection('chain A nad resi 5')).toThrow(/unexpected "nad"/);
+  });
+});
+
+describe('isLigand', () => {
+  it('excludes waters and polymer residues that arrive as HETATM', () => {
+    const [, , so4, hoh] = model.chains[0]?.residues ?? [];
+    expect(so4 && isLigand(so4)).toBe(true);
+    expect(hoh && isLigand(hoh)).toBe(false);
+    expect(isLigand({ atoms: [], authSeqId: 5, compId: 'MSE', hetero: true })).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Tests for the coordinate writers: mmCIF and PDB output must read
+ * back through the parsers to the same atoms (IDs, names, altlocs, charges,
+ * hetero flags, coordinates), quote CIF values that need it, keep PDB fixed
+ * columns, and frame multi-model output.
+ * @module tests/services/structure/writer.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseMmcif } from '@/services/structure/mmcif.js';
+import { parsePdb } from '@/services/structure/pdb.js';
+import { parseSelection, selectStructure } from '@/services/structure/selection.js';
+import { writeMmcif, writePdb, writeStructure } from '@/services/structure/writer.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../../fixtures/structure/${name}`, import.meta.url), 'utf8');
+
+const CIF = parseMmcif(fixture('mini.cif'));
+const PDB = parsePdb(fixture('mini-nmr.pdb'));
+
+describe('writeMmcif', () => {
+  it('round-trips every atom site through the mmCIF reader', () => {
+    expect(parseMmcif(writeMmcif(CIF))).toEqual(CIF);
+  });
+
+  it('keeps a primed atom name intact and quotes values that would read as syntax', () => {
+    const nucleic = selectStructure(CIF, parseSelection('nucleic'));
+    const text = writeMmcif(nucleic);
+    expect(text.startsWith('data_1MIN\n')).toBe(true);
+    expect(parseMmcif(text).models[0]?.chains[0]?.residues[0]?.atoms[1]?.name).toBe("C1'");
+    const odd = structuredClone(nucleic);
+    const atom = odd.models[0]?.chains[0]?.residues[0]?.atoms[0];
+    if (atom) atom.name = "_X'";
+    const back = parseMmcif(writeMmcif(odd));
+    expect(back.models[0]?.chains[0]?.residues[0]?.atoms[0]?.name).toBe("_X'");
+  });
+});
+
+describe('writePdb', () => {
+  it('round-trips a multi-model ensemble through the PDB reader', () => {
+    const text = writePdb(PDB);
+    expect(text.match(/^MODEL/gm)).toHaveLength(2);
+    expect(text.match(/^ENDMDL/gm)).toHaveLength(2);
+    expect(parsePdb(text)).toEqual(PDB);
+  });
+
+  it('aligns atom names and fills the fixed columns', () => {
+    const lines = writePdb(PDB).split('\n');
+    expect(lines).toContain(
+      'ATOM      2  CA  GLY A   1       0.100   1.000   0.200  1.00  0.00           C  ',
+    );
+    expect(lines).toContain(
+      'HETATM    8 ZN    ZN A 101       6.000   2.000   1.000  1.00  0.00          ZN2+',
+    );
+  });
+
+  it('omits MODEL framing for a single model and ends with END', () => {
+    const text = writePdb(selectStructure(CIF, parseSelection('resi 1')));
+    expect(text).not.toMatch(/^MODEL/m);
+    expect(text.trimEnd().endsWith('END')).toBe(true);
+    expect(parsePdb(text).models[0]?.chains[0]?.residues[0]?.atoms).toHaveLength(7);
+  });
+});
+
+describe('writeStructure', () => {
+  it('defaults to the dialect the structure was read from', () => {
+    expect(writeStructure(CIF)).toMatch(/^data_/);
+    expect(writeStructure(PDB)).toMatch(/^HEADER/);
+  });
+});
@@ -2,7 +2,8 @@
  * @fileoverview Tests for the UniProt service: entry normalization (recommended
  * name, gene names, FUNCTION comment join, feature vs. variant categorization),
  * include-scoped field selection in the request URL, getSequence, and InterPro
- * normalization with the 404 → [] branch. HTTP mocked.
+ * normalization with the 404 → [] branch, and the accession search behind
+ * resource completion and listing. HTTP mocked.
  * @module tests/services/uniprot/uniprot-service.test
  */
 
@@ -187,3 +188,36 @@ describe('UniProtService.getInterPro', () => {
     expect(fetchJsonMock.mock.calls[0]?.[0]).toContain('/UniProt/P69905/');
   });
 });
+
+describe('UniProtService.findAccessionsByPrefix', () => {
+  it('runs a wildcard accession query and normalizes the hits', async () => {
+    fetchJsonMock.mockResolvedValue({
+      results: [
+        {
+          primaryAccession: 'P69905',
+          proteinDescription: {
+            recommendedName: { fullName: { value: 'Hemoglobin subunit alpha' } },
+          },
+          organism: { scientificName: 'Homo sapiens' },
+        },
+        { primaryAccession: 'P69907' },
+        {},
+      ],
+    });
+    const out = await service().findAccessionsByPrefix('p699', 20, createMockContext());
+
+    expect(out).toEqual([
+      { accession: 'P69905', proteinName: 'Hemoglobin subunit alpha', organism: 'Homo sapiens' },
+      { accession: 'P69907' },
+    ]);
+    const url = fetchJsonMock.mock.calls[0]?.[0] as string;
+    expect(url).toContain('/uniprotkb/search?');
+    expect(url).toContain(`query=${encodeURIComponent('accession:P699*')}`);
+    expect(url).toContain('size=20');
+  });
+
+  it.each(['', 'P', '6P9', 'P69905-1'])('offers nothing for %j without a request', async (p) => {
+    expect(await service().findAccessionsByPrefix(p, 20, createMockContext())).toEqual([]);
+    expect(fetchJsonMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Tests for protein_analyze_interface: a named chain pair with its
+ * residues, typed contacts, and UniProt-labelled chains; every contacting pair
+ * when chains is omitted, the limit cap with its total and notice; chains that
+ * do not touch; a UniProt mapping failure degrading to a notice; AlphaFold DB
+ * models labelled with their own accession, and RCSB computed models through
+ * their entities; a biological assembly with its
+ * symmetry copies labelled; the invalid_id / chain_not_found failures; and
+ * format(). Services and the coordinate fetch are mocked; coordinates come from
+ * a synthetic three-chain mmCIF.
+ * @module tests/tools/analyze-interface.tool.test
+ */
+
+import { serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const coordinateFileUrl = vi.fn((id: string, fmt: string) => `https://files/${id}.${fmt}`);
+const assemblyFileUrl = vi.fn(
+  (id: string, assemblyId: string) => `https://files/${id}-assembly${assemblyId}.cif`,
+);
+const resolveUniprotEntities = vi.fn();
+vi.mock('@/services/rcsb/rcsb-service.js', () => ({
+  getRcsbService: () => ({ coordinateFileUrl, assemblyFileUrl, resolveUniprotEntities }),
+}));
+
+const getPrediction = vi.fn();
+vi.mock('@/services/alphafold/alphafold-service.js', () => ({
+  getAlphaFoldService: () => ({ getPrediction }),
+}));
+
+vi.mock('@/services/shared/http.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/shared/http.js')>();
+  return { ...actual, fetchText: vi.fn() };
+});
+
+import { analyzeInterface } from '@/mcp-server/tools/definitions/analyze-interface.tool.js';
+import { fetchText } from '@/services/shared/http.js';
+
+const fetchTextMock = vi.mocked(fetchText);
+const ctx = () => createMockContext({ errors: analyzeInterface.errors });
+
+/**
+ * Three chains along x: SER 10 of chain A hydrogen-bonds (OG → OD1, 2.8 Å) to
+ * ASP 20 of chain B, whose CA sits 3.7 Å from LEU 30 of chain C. A and C stay
+ * 8 Å apart, so A–B and B–C touch and A–C do not.
+ */
+const CIF = (() => {
+  const atoms: Array<[chain: string, comp: string, seq: number, name: string, x: number]> = [
+    ['A', 'SER', 10, 'CA', -1.5],
+    ['A', 'SER', 10, 'OG', 0],
+    ['B', 'ASP', 20, 'OD1', 2.8],
+    ['B', 'ASP', 20, 'CA', 4.3],
+    ['C', 'LEU', 30, 'CA', 8],
+    ['C', 'LEU', 30, 'CB', 9.5],
+  ];
+  const rows = atoms.map(
+    ([chain, comp, seq, name, x], i) =>
+      `ATOM ${i + 1} ${name[0]} ${name} . ${comp} ${chain} 1 ${seq} ? ${x.toFixed(3)} 0.000 0.000 1.00 20.00 ? ${seq} ${comp} ${chain} ${name} 1`,
+  );
+  return [
+    'data_1IFC',
+    'loop_',
+    ...[
+      'group_PDB',
+      'id',
+      'type_symbol',
+      'label_atom_id',
+      'label_alt_id',
+      'label_comp_id',
+      'label_asym_id',
+      'label_entity_id',
+      'label_seq_id',
+      'pdbx_PDB_ins_code',
+      'Cartn_x',
+      'Cartn_y',
+      'Cartn_z',
+      'occupancy',
+      'B_iso_or_equiv',
+      'pdbx_formal_charge',
+      'auth_seq_id',
+      'auth_comp_id',
+      'auth_asym_id',
+      'auth_atom_id',
+      'pdbx_PDB_model_num',
+    ].map((f) => `_atom_site.${f}`),
+    ...rows,
+    '#',
+  ].join('\n');
+})();
+
+const XREFS = [
+  { accession: 'P69905', chains: ['A', 'C'], proteinName: 'Hemoglobin subunit alpha' },
+  { accession: 'P68871', chains: ['B'], proteinName: 'Hemoglobin subunit beta' },
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fetchTextMock.mockResolvedValue(CIF);
+  resolveUniprotEntities.mockResolvedValue(XREFS);
+});
+
+describe('protein_analyze_interface', () => {
+  it('analyzes a named chain pair and labels each chain with UniProt', async () => {
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '1ifc', chains: ['A', 'B'] }),
+      ctx(),
+    );
+
+    expect(coordinateFileUrl).toHaveBeenCalledWith('1IFC', 'cif');
+    expect(resolveUniprotEntities).toHaveBeenCalledWith('1ifc', expect.anything());
+    expect(out).toMatchObject({ id: '1IFC', source: 'experimental', modelNumber: 1 });
+    expect(out.chains).toEqual([
+      { chain: 'A', accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' },
+      { chain: 'B', accession: 'P68871', proteinName: 'Hemoglobin subunit beta' },
+    ]);
+    const [found] = out.interfaces;
+    expect(found?.chains).toEqual(['A', 'B']);
+    expect(found?.residues.map((r) => [r.chain, r.compId, r.residue, r.closest])).toEqual([
+      ['A', 'SER', 10, 2.8],
+      ['B', 'ASP', 20, 2.8],
+    ]);
+    expect(found?.interfaceArea).toBeGreaterThan(0);
+    expect(found?.contacts).toEqual([
+      {
+        type: 'hydrogen_bond',
+        first: { chain: 'A', residue: 10, compId: 'SER', atom: 'OG' },
+        second: { chain: 'B', residue: 20, compId: 'ASP', atom: 'OD1' },
+        distance: 2.8,
+        donor: 'A',
+      },
+    ]);
+  });
+
+  it('analyzes every contacting pair, largest first, when chains is omitted', async () => {
+    const c = ctx();
+    const out = await analyzeInterface.handler(analyzeInterface.input.parse({ id: '1IFC' }), c);
+
+    expect(out.interfaces.map((i) => i.chains)).toEqual([
+      ['A', 'B'],
+      ['B', 'C'],
+    ]);
+    expect(out.chains.map((ch) => ch.chain)).toEqual(['A', 'B', 'C']);
+    expect(getEnrichment(c)).toMatchObject({ totalCount: 2 });
+    expect(getEnrichment(c).notice).toBeUndefined();
+  });
+
+  it('caps the pairs at limit and says so', async () => {
+    const c = ctx();
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '1IFC', limit: 1 }),
+      c,
+    );
+
+    expect(out.interfaces).toHaveLength(1);
+    expect(String(getEnrichment(c).notice)).toMatch(/1 largest of 2 contacting chain pairs/);
+  });
+
+  it('returns an empty interface with a notice for chains that do not touch', async () => {
+    const c = ctx();
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '1IFC', chains: ['A', 'C'] }),
+      c,
+    );
+
+    expect(out.interfaces[0]).toMatchObject({ residues: [], contacts: [], interfaceArea: 0 });
+    expect(String(getEnrichment(c).notice)).toMatch(/chains A and C do not touch/i);
+  });
+
+  it('reads a biological assembly and labels symmetry copies by their source chain', async () => {
+    // RCSB names the generated copy of chain A in an assembly file `A-2`.
+    fetchTextMock.mockResolvedValue(CIF.replaceAll(' B ', ' A-2 '));
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '1IFC', chains: ['A', 'A-2'], assembly_id: '1' }),
+      ctx(),
+    );
+
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://files/1IFC-assembly1.cif',
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(out.assemblyId).toBe('1');
+    expect(out.chains).toEqual([
+      { chain: 'A', accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' },
+      { chain: 'A-2', accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' },
+    ]);
+    expect(out.interfaces[0]?.contacts).toHaveLength(1);
+  });
+
+  it('keeps the analysis when the UniProt mapping fails', async () => {
+    resolveUniprotEntities.mockRejectedValue(
+      serviceUnavailable('RCSB GraphQL API returned HTTP 503.'),
+    );
+    const c = ctx();
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: '1IFC', chains: ['A', 'B'] }),
+      c,
+    );
+
+    expect(out.chains).toEqual([{ chain: 'A' }, { chain: 'B' }]);
+    expect(out.interfaces[0]?.contacts).toHaveLength(1);
+    expect(String(getEnrichment(c).notice)).toMatch(/UniProt mapping unavailable .*HTTP 503/);
+  });
+
+  it('labels a predicted model’s chains with its accession', async () => {
+    getPrediction.mockResolvedValue({
+      uniprotAccession: 'P69905',
+      entryId: 'AF-P69905-F1',
+      cifUrl: 'https://alphafold/AF-P69905-F1.cif',
+    });
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: 'P69905', chains: ['B', 'C'] }),
+      ctx(),
+    );
+
+    expect(resolveUniprotEntities).not.toHaveBeenCalled();
+    expect(out).toMatchObject({ id: 'AF-P69905-F1', source: 'predicted' });
+    expect(out.chains).toEqual([
+      { chain: 'B', accession: 'P69905' },
+      { chain: 'C', accession: 'P69905' },
+    ]);
+  });
+
+  it('maps a computed multimer’s chains through its RCSB entities and credits the provider', async () => {
+    const out = await analyzeInterface.handler(
+      analyzeInterface.input.parse({ id: 'ma_mabakcepc0001', chains: ['A', 'B'] }),
+      ctx(),
+    );
+
+    expect(coordinateFileUrl).toHaveBeenCalledWith('MA_MABAKCEPC0001', 'cif');
+    expect(getPrediction).not.toHaveBeenCalled();
+    expect(resolveUniprotEntities).toHaveBeenCalledWith('ma_mabakcepc0001', expect.anything());
+    expect(out).toMatchObject({ id: 'MA_MABAKCEPC0001', source: 'predicted' });
+    expect(out.chains).toEqual([
+      { chain: 'A', accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' },
+      { chain: 'B', accession: 'P68871', proteinName: 'Hemoglobin subunit beta' },
+    ]);
+    expect(out.attribution.map((a) => a.source)).toEqual(['ModelArchive']);
+  });
+
+  it('fails invalid_id for an unroutable identifier', async () => {
+    await expect(
+      analyzeInterface.handler(analyzeInterface.input.parse({ id: 'hemoglobin' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'invalid_id' } });
+  });
+
+  it('fails chain_not_found for a missing chain or the same chain twice', async () => {
+    await expect(
+      analyzeInterface.handler(
+        analyzeInterface.input.parse({ id: '1IFC', chains: ['A', 'Z'] }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({
+      data: { reason: 'chain_not_found' },
+      message: expect.stringMatching(/Chain Z .*polymer chains: A, B, C/),
+    });
+    await expect(
+      analyzeInterface.handler(
+        analyzeInterface.input.parse({ id: '1IFC', chains: ['A', 'A'] }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'chain_not_found' } });
+    expect(fetchTextMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('protein_analyze_interface — format', () => {
+  it('renders chains, interface totals, residues, and contacts', () => {
+    const blocks = analyzeInterface.format!({
+      id: '1IFC',
+      source: 'experimental',
+      modelNumber: 1,
+      modelCount: 1,
+      assemblyId: '1',
+      chains: [
+        { chain: 'A', accession: 'P69905', proteinName: 'Hemoglobin subunit alpha' },
+        { chain: 'B' },
+      ],
+      interfaces: [
+        {
+          chains: ['A', 'B'],
+          interfaceArea: 412.5,
+          buriedSasa: 825,
+          residues: [
+            {
+              chain: 'A',
+              residue: 10,
+              insCode: 'A',
+              compId: 'LYS',
+              closest: 2.9,
+              buriedSasa: 40.2,
+            },
+            { chain: 'B', residue: 20, compId: 'GLU', closest: 4.8 },
+          ],
+          contacts: [
+            {
+              type: 'salt_bridge',
+              first: { chain: 'A', residue: 10, insCode: 'A', compId: 'LYS', atom: 'NZ' },
+              second: { chain: 'B', residue: 20, compId: 'GLU', atom: 'OE1' },
+              distance: 2.9,
+              positive: 'A',
+            },
+            {
+              type: 'hydrogen_bond',
+              first: { chain: 'A', residue: 10, insCode: 'A', compId: 'LYS', atom: 'NZ' },
+              second: { chain: 'B', residue: 20, compId: 'GLU', atom: 'OE1' },
+              distance: 2.9,
+              donor: 'A',
+            },
+          ],
+        },
+        { chains: ['A', 'C'], interfaceArea: 0, buriedSasa: 0, residues: [], contacts: [] },
+      ],
+      attribution: [],
+      fallbacks: [
+        {
+          data: 'cif file for 1IFC',
+          primary: 'RCSB PDB files',
+          provider: 'PDBe entry files',
+          reason: 'RCSB PDB files returned HTTP 503.',
+        },
+      ],
+    });
+    const text = (blocks[0] as { text: string }).text;
+    expect(text).toContain('## 1IFC chain interfaces (experimental, assembly 1, model 1 of 1)');
+    expect(text).toContain('| A | P69905 | Hemoglobin subunit alpha |');
+    expect(text).toContain('| B | — | — |');
+    expect(text).toContain('**Interface area:** 412.5 Å² | **Buried, both sides:** 825.0 Å²');
+    expect(text).toContain('**Residues:** 1 (A) + 1 (B) | **H-bonds:** 1 | **Salt bridges:** 1');
+    expect(text).toContain('| A | LYS10A | 2.90 | 40.2 |');
+    expect(text).toContain('| B | GLU20 | 4.80 | — |');
+    expect(text).toContain(
+      '| salt_bridge | LYS10A NZ (chain A) | GLU20 OE1 (chain B) | 2.90 Å | positive: A |',
+    );
+    expect(text).toContain('donor: A');
+    expect(text).toContain('### Interface A–C\nThe chains do not touch.');
+    expect(text).toContain('### Fallback providers');
+  });
+});
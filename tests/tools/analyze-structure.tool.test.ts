@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Tests for protein_analyze_structure: identifier routing (PDB →
+ * RCSB mmCIF, accession → AlphaFold model), per-chain DSSP output with segment
+ * lists and fractions, chain filtering and the missing-chain notice, low-pLDDT
+ * regions on predicted models, the opt-in surface analysis (residue-range rows,
+ * exposure calls, interfaces), biological assemblies by assembly_id, the
+ * invalid_id / no_model / model_not_found / chain_not_found failures, and
+ * format(). Services and the coordinate fetch are mocked; coordinates come from
+ * the synthetic secondary-structure fixture.
+ * @module tests/tools/analyze-structure.tool.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { notFound } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const coordinateFileUrl = vi.fn((id: string, fmt: string) => `https://files/${id}.${fmt}`);
+const assemblyFileUrl = vi.fn(
+  (id: string, assemblyId: string) => `https://files/${id}-assembly${assemblyId}.cif`,
+);
+vi.mock('@/services/rcsb/rcsb-service.js', () => ({
+  getRcsbService: () => ({ coordinateFileUrl, assemblyFileUrl }),
+}));
+
+const getPrediction = vi.fn();
+vi.mock('@/services/alphafold/alphafold-service.js', () => ({
+  getAlphaFoldService: () => ({ getPrediction }),
+}));
+
+vi.mock('@/services/shared/http.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/shared/http.js')>();
+  return { ...actual, fetchText: vi.fn() };
+});
+
+import { analyzeStructure } from '@/mcp-server/tools/definitions/analyze-structure.tool.js';
+import { fetchText } from '@/services/shared/http.js';
+
+const fetchTextMock = vi.mocked(fetchText);
+const ctx = () => createMockContext({ errors: analyzeStructure.errors });
+
+const SYNTHETIC = readFileSync(
+  new URL('../fixtures/structure/ss-synthetic.pdb', import.meta.url),
+  'utf8',
+);
+
+/** The fixture with chain A residues 1–6 rewritten to pLDDT 30, as an AlphaFold PDB would carry. */
+const LOW_CONFIDENCE = SYNTHETIC.split('\n')
+  .map((line) =>
+    line.startsWith('ATOM') && line[21] === 'A' && Number(line.slice(22, 26)) <= 6
+      ? `${line.slice(0, 60)} 30.00${line.slice(66)}`
+      : line,
+  )
+  .join('\n');
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('protein_analyze_structure', () => {
+  it('assigns secondary structure for every protein chain of a PDB entry', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: ' 1ssx ' }),
+      ctx(),
+    );
+
+    expect(coordinateFileUrl).toHaveBeenCalledWith('1SSX', 'cif');
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://files/1SSX.cif',
+      expect.anything(),
+      expect.objectContaining({ cache: 'entry' }),
+    );
+    expect(out).toMatchObject({
+      id: '1SSX',
+      source: 'experimental',
+      modelNumber: 1,
+      modelCount: 1,
+    });
+    expect(out.chains.map((c) => c.chain)).toEqual(['A', 'B', 'C']);
+    expect(out.chains[0]).toMatchObject({
+      residueCount: 16,
+      sequence: 'A'.repeat(16),
+      secondaryStructure: {
+        ss: '-HHHHHHHHHHHHHH-',
+        helices: [{ type: 'H', start: 2, end: 15, length: 14 }],
+        strands: [],
+        helixFraction: 0.88,
+        strandFraction: 0,
+      },
+    });
+    expect(out.chains[0]?.secondaryStructure?.lowPlddtRegions).toBeUndefined();
+    expect(out.attribution.map((a) => a.source)).toEqual(['RCSB PDB']);
+  });
+
+  it('runs the assignment on the whole model even when reporting a subset of chains', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    const c = ctx();
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: '1SSX', chains: ['B', 'Z'] }),
+      c,
+    );
+
+    expect(out.chains.map((ch) => ch.chain)).toEqual(['B']);
+    // The partner strand is chain C — still counted though not reported.
+    expect(out.chains[0]?.secondaryStructure?.strands).toEqual([
+      { type: 'E', start: 2, end: 6, length: 5 },
+    ]);
+    expect(getEnrichment(c).notice).toContain('chain(s) Z');
+  });
+
+  it('reads the AlphaFold model for an accession and reports low-pLDDT regions', async () => {
+    getPrediction.mockResolvedValue({
+      entryId: 'AF-P12345-F1',
+      uniprotAccession: 'P12345',
+      pdbUrl: 'https://alphafold/AF-P12345-F1-model_v4.pdb',
+    });
+    fetchTextMock.mockResolvedValue(LOW_CONFIDENCE);
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: 'P12345', chains: ['A'] }),
+      ctx(),
+    );
+
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://alphafold/AF-P12345-F1-model_v4.pdb',
+      expect.anything(),
+      expect.objectContaining({ cache: 'prediction' }),
+    );
+    expect(out).toMatchObject({ id: 'AF-P12345-F1', source: 'predicted' });
+    expect(out.chains[0]?.secondaryStructure?.lowPlddtRegions).toEqual([
+      { start: 1, end: 6, meanPlddt: 30, structuredFraction: 0.83 },
+    ]);
+    expect(out.attribution.map((a) => a.source)).toEqual(['AlphaFold DB']);
+  });
+
+  it('adds surface accessibility and interfaces when include has surface', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({
+        id: '1SSX',
+        chains: ['B'],
+        include: ['surface'],
+        residues: '2-4',
+      }),
+      ctx(),
+    );
+
+    const [chainB] = out.chains;
+    expect(chainB?.secondaryStructure).toBeUndefined();
+    expect(chainB?.surface?.residues.map((r) => r.residue)).toEqual([2, 3, 4]);
+    expect(chainB?.surface?.residues[0]).toMatchObject({ compId: 'ALA' });
+    for (const r of chainB?.surface?.residues ?? []) {
+      expect(r.exposure).toBe((r.relativeSasa ?? 0) < 0.25 ? 'buried' : 'exposed');
+      expect(r.buriedSasa).toBeGreaterThan(0);
+    }
+    expect(chainB?.surface?.buriedSasa).toBeCloseTo(
+      (chainB?.surface?.isolatedSasa ?? 0) - (chainB?.surface?.sasa ?? 0),
+      1,
+    );
+    // The sheet partner is chain C: the interface is reported because B is.
+    expect(out.interfaces).toHaveLength(1);
+    expect(out.interfaces?.[0]?.chains).toEqual(['B', 'C']);
+  });
+
+  it('omits surface output by default and notes a residues range it cannot apply', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    const c = ctx();
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: '1SSX', chains: ['A'], residues: '1-5' }),
+      c,
+    );
+
+    expect(out.chains[0]?.surface).toBeUndefined();
+    expect(out.interfaces).toBeUndefined();
+    expect(getEnrichment(c).notice).toContain('add "surface" to include');
+  });
+
+  it('analyzes a biological assembly when assembly_id is set', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: '1SSX', assembly_id: '1' }),
+      ctx(),
+    );
+
+    expect(assemblyFileUrl).toHaveBeenCalledWith('1SSX', '1', 'cif');
+    expect(fetchTextMock).toHaveBeenCalledTimes(1);
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://files/1SSX-assembly1.cif',
+      expect.anything(),
+      expect.objectContaining({ cache: 'entry' }),
+    );
+    expect(out).toMatchObject({ id: '1SSX', source: 'experimental', assemblyId: '1' });
+    const text = (analyzeStructure.format!(out)[0] as { text: string }).text;
+    expect(text).toContain('## 1SSX structure analysis (experimental, assembly 1, model 1 of 1)');
+  });
+
+  it('names the assembly when the entry does not have it', async () => {
+    fetchTextMock.mockRejectedValue(notFound('RCSB PDB files returned HTTP 404.'));
+    await expect(
+      analyzeStructure.handler(
+        analyzeStructure.input.parse({ id: '1SSX', assembly_id: '9' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({
+      message: expect.stringMatching(/1SSX has no biological assembly 9/),
+    });
+  });
+
+  it('reads a predicted model as deposited when given an assembly_id', async () => {
+    getPrediction.mockResolvedValue({
+      entryId: 'AF-P12345-F1',
+      uniprotAccession: 'P12345',
+      pdbUrl: 'https://alphafold/AF-P12345-F1-model_v4.pdb',
+    });
+    fetchTextMock.mockResolvedValue(LOW_CONFIDENCE);
+    const c = ctx();
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: 'P12345', assembly_id: '1' }),
+      c,
+    );
+
+    expect(assemblyFileUrl).not.toHaveBeenCalled();
+    expect(out.assemblyId).toBeUndefined();
+    expect(getEnrichment(c).notice).toContain(
+      'AF-P12345-F1 is a predicted model, read as deposited',
+    );
+  });
+
+  it('rejects an identifier of no known shape before any fetch', async () => {
+    await expect(
+      analyzeStructure.handler(analyzeStructure.input.parse({ id: 'not-an-id' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'invalid_id' } });
+    expect(fetchTextMock).not.toHaveBeenCalled();
+  });
+
+  it('fails with no_model when AlphaFold DB has no prediction', async () => {
+    getPrediction.mockResolvedValue(null);
+    await expect(
+      analyzeStructure.handler(analyzeStructure.input.parse({ id: 'P12345' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'no_model' } });
+  });
+
+  it('fails with model_not_found and lists the models present', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    await expect(
+      analyzeStructure.handler(analyzeStructure.input.parse({ id: '1SSX', model: 3 }), ctx()),
+    ).rejects.toMatchObject({
+      data: { reason: 'model_not_found' },
+      message: expect.stringContaining('models present: 1'),
+    });
+  });
+
+  it('fails with chain_not_found when no requested chain is a protein chain', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    await expect(
+      analyzeStructure.handler(analyzeStructure.input.parse({ id: '1SSX', chains: ['Q'] }), ctx()),
+    ).rejects.toMatchObject({
+      data: { reason: 'chain_not_found' },
+      message: expect.stringContaining('protein chains: A, B, C'),
+    });
+  });
+
+  it('formats the sequence and assignment as an aligned block', async () => {
+    getPrediction.mockResolvedValue({
+      entryId: 'AF-P12345-F1',
+      uniprotAccession: 'P12345',
+      cifUrl: 'https://alphafold/AF-P12345-F1-model_v4.cif',
+    });
+    fetchTextMock.mockResolvedValue(LOW_CONFIDENCE);
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({ id: 'AF-P12345-F1', chains: ['A'] }),
+      ctx(),
+    );
+    const text = analyzeStructure.format?.(out)[0] as { text: string } | undefined;
+    expect(text?.text).toContain('## AF-P12345-F1 structure analysis (predicted, model 1 of 1)');
+    expect(text?.text).toContain('### Chain A — 16 residues');
+    expect(text?.text).toContain('```\nAAAAAAAAAAAAAAAA\n-HHHHHHHHHHHHHH-\n```');
+    expect(text?.text).toContain('H 2–15 (14)');
+    expect(text?.text).toContain('- 1–6: mean pLDDT 30.0, 83% helix/strand');
+    expect(text?.text).toContain('AlphaFold DB');
+  });
+
+  it('formats the surface table and interfaces', async () => {
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    const out = await analyzeStructure.handler(
+      analyzeStructure.input.parse({
+        id: '1SSX',
+        chains: ['C'],
+        include: ['secondary_structure', 'surface'],
+        residues: '3-3',
+      }),
+      ctx(),
+    );
+    const text = analyzeStructure.format?.(out)[0] as { text: string } | undefined;
+    expect(text?.text).toContain('-EEEEE--');
+    expect(text?.text).toMatch(/\*\*SASA:\*\* [\d.]+ Å² \| \*\*Isolated:\*\* [\d.]+ Å²/);
+    expect(text?.text).toContain('| Residue | SASA (Å²) | Relative | Exposure | Buried (Å²) |');
+    expect(text?.text).toMatch(/\| ALA 3 \| [\d.]+ \| [\d.]+ \| (buried|exposed) \| [\d.]+ \|/);
+    expect(text?.text).toMatch(/### Interfaces\n- B–C: [\d.]+ Å² buried/);
+  });
+});
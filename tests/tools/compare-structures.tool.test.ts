@@ -2,8 +2,8 @@
  * @fileoverview Tests for protein_compare_structures: pair generation
  * (reference:first vs. all_pairs), repeated-structure de-duplication and the
  * pair-key uniqueness invariant it protects, the computing/ticket outcome with
- * enrichment, and format() rendering of both failure detail and job tickets.
- * Alignment mocked.
+ * enrichment, residue-range (domain) structures, and format() rendering of both
+ * failure detail and job tickets. Alignment mocked.
  * @module tests/tools/compare-structures.tool.test
  */
 
@@ -321,6 +321,70 @@ describe('protein_compare_structures repeated structures (#33)', () => {
   });
 });
 
+describe('protein_compare_structures residue ranges', () => {
+  it('passes a chain-scoped range to the alignment and carries it in the pair label', async () => {
+    comparePair.mockResolvedValue({ status: 'complete', uuid: 'u', scores: { tmScore: 0.8 } });
+    const out = await compareStructures.handler(
+      compareStructures.input.parse({
+        structures: [
+          { pdb_id: '1ABC', chain: 'B', residues: '10 - 120' },
+          { pdb_id: '2XYZ', chain: 'A' },
+        ],
+      }),
+      ctx(),
+    );
+
+    expect(comparePair.mock.calls[0]?.[0]).toEqual({
+      entryId: '1ABC',
+      asymId: 'B',
+      begSeqId: 10,
+      endSeqId: 120,
+    });
+    expect(out.pairs[0]).toMatchObject({ a: '1ABC.B:10-120', b: '2XYZ.A' });
+  });
+
+  it('defaults a computed model to chain A so two domains of one model align', async () => {
+    comparePair.mockResolvedValue({ status: 'complete', uuid: 'u', scores: {} });
+    const out = await compareStructures.handler(
+      compareStructures.input.parse({
+        structures: [
+          { pdb_id: 'AF_AFP12345F1', residues: '1-150' },
+          { pdb_id: 'AF_AFP12345F1', residues: '170-320' },
+        ],
+      }),
+      ctx(),
+    );
+
+    expect(out.pairs[0]).toMatchObject({
+      a: 'AF_AFP12345F1.A:1-150',
+      b: 'AF_AFP12345F1.A:170-320',
+    });
+    expect(comparePair.mock.calls[0]?.[1]).toMatchObject({ asymId: 'A', begSeqId: 170 });
+  });
+
+  it('rejects a range without a chain on an experimental entry', async () => {
+    await expect(
+      compareStructures.handler(
+        compareStructures.input.parse({
+          structures: [{ pdb_id: '4HHB', residues: '1-50' }, { pdb_id: '2HHB' }],
+        }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'range_without_chain' } });
+    expect(comparePair).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed or reversed range at input validation', () => {
+    for (const residues of ['10', '0-5', '50-10', 'a-b']) {
+      expect(
+        compareStructures.input.safeParse({
+          structures: [{ pdb_id: '4HHB', chain: 'A', residues }, { pdb_id: '2HHB' }],
+        }).success,
+      ).toBe(false);
+    }
+  });
+});
+
 describe('protein_compare_structures per-structure length and coverage', () => {
   it('carries modeledResidues and coverage from the alignment scores into the pair row', async () => {
     comparePair.mockResolvedValue({
@@ -2,11 +2,13 @@
  * @fileoverview Tests for protein_find_similar: the by:sequence path (direct
  * sequence, PDB-derived, UniProt-derived; metadata enrichment; empty-result
  * notice; no_sequence failure), the by:structure path (Foldseek complete /
- * computing / failed, predicted-source mapping), the missing_query guard, and
- * format(). Services and the coordinate-file fetch are mocked.
+ * computing / failed, predicted-source mapping), residue-range cropping on both
+ * axes (one chain of the first model, from PDB or mmCIF coordinates), the
+ * missing_query guard, and format(). Services and the coordinate-file fetch are mocked.
  * @module tests/tools/find-similar.tool.test
  */
 
+import { readFileSync } from 'node:fs';
 import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -351,6 +353,123 @@ describe('protein_find_similar — by:structure', () => {
   });
 });
 
+describe('protein_find_similar — residues', () => {
+  const pdbLine = (serial: number, name: string, resSeq: number, x: number, chain = 'A') =>
+    `ATOM  ${String(serial).padStart(5)} ${name.padEnd(4)} ALA ${chain}${String(resSeq).padStart(4)}    ${x.toFixed(3).padStart(8)}${'0.000'.padStart(8)}${'0.000'.padStart(8)}  1.00 90.00           ${name[0]}`;
+  const MODEL = [1, 2, 3, 4].map((r) => pdbLine(r, 'CA', r, r * 3.8)).join('\n');
+  // Two models of a two-chain entry: chains A and B both number residues 1–4.
+  const ENSEMBLE = [1, 2]
+    .map((m) =>
+      [
+        `MODEL     ${String(m).padStart(4)}`,
+        ...['A', 'B'].flatMap((chain, c) =>
+          [1, 2, 3, 4].map((r) => pdbLine(c * 4 + r, 'CA', r, r * 3.8 + m, chain)),
+        ),
+        'ENDMDL',
+      ].join('\n'),
+    )
+    .join('\n');
+  const atomsOf = (content: string) =>
+    content
+      .split('\n')
+      .filter((l) => l.startsWith('ATOM'))
+      .map((l) => `${l[21]}${Number(l.slice(22, 26))}`);
+  const submitted = () =>
+    foldseekSearch.mock.calls[0]?.[0] as { fileContent: string; fileName: string };
+
+  it('slices the query sequence to the range (1-based, inclusive)', async () => {
+    searchSequence.mockResolvedValue({ total: 0, hits: [] });
+    await findSimilar.handler(
+      findSimilar.input.parse({ by: 'sequence', sequence: 'ABCDEFGHIJ', residues: '3-5' }),
+      ctx(),
+    );
+    expect(searchSequence.mock.calls[0]?.[0]).toBe('CDE');
+  });
+
+  it('throws empty_range when the range starts past the sequence end', async () => {
+    await expect(
+      findSimilar.handler(
+        findSimilar.input.parse({ by: 'sequence', sequence: 'ABCDE', residues: '9-20' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'empty_range' } });
+    expect(searchSequence).not.toHaveBeenCalled();
+  });
+
+  it('crops the coordinate file to the range and names the file after it', async () => {
+    getPrediction.mockResolvedValue({ uniprotAccession: 'P69905', pdbUrl: 'https://af/P.pdb' });
+    fetchTextMock.mockResolvedValue(MODEL);
+    foldseekSearch.mockResolvedValue({ status: 'complete', ticketId: 't', hits: [] });
+    await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', uniprot: 'P69905', residues: '2-3' }),
+      ctx(),
+    );
+    expect(submitted().fileName).toBe('P69905_A_2-3.pdb');
+    expect(atomsOf(submitted().fileContent)).toEqual(['A2', 'A3']);
+  });
+
+  it('crops one chain of the first model, noting the other chains in range', async () => {
+    fetchTextMock.mockResolvedValue(ENSEMBLE);
+    foldseekSearch.mockResolvedValue({ status: 'complete', ticketId: 't', hits: [] });
+    const c = ctx();
+    await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', pdb_id: '1ABC', residues: '2-3' }),
+      c,
+    );
+    expect(submitted().fileName).toBe('1ABC_A_2-3.pdb');
+    expect(atomsOf(submitted().fileContent)).toEqual(['A2', 'A3']);
+    expect(submitted().fileContent).not.toMatch(/^MODEL/m);
+    expect(String(getEnrichment(c).notice)).toMatch(/chain A; chains B also hold/);
+  });
+
+  it('crops the requested chain', async () => {
+    fetchTextMock.mockResolvedValue(ENSEMBLE);
+    foldseekSearch.mockResolvedValue({ status: 'complete', ticketId: 't', hits: [] });
+    const c = ctx();
+    await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', pdb_id: '1ABC', chain: 'B', residues: '3-4' }),
+      c,
+    );
+    expect(submitted().fileName).toBe('1ABC_B_3-4.pdb');
+    expect(atomsOf(submitted().fileContent)).toEqual(['B3', 'B4']);
+    expect(String(getEnrichment(c).notice)).not.toMatch(/chain/);
+  });
+
+  it('reads an mmCIF coordinate file in its own dialect', async () => {
+    fetchTextMock.mockResolvedValue(
+      readFileSync(new URL('../fixtures/structure/mini.cif', import.meta.url), 'utf8'),
+    );
+    foldseekSearch.mockResolvedValue({ status: 'complete', ticketId: 't', hits: [] });
+    await findSimilar.handler(
+      findSimilar.input.parse({ by: 'structure', pdb_id: '1MIN', residues: '1-2' }),
+      ctx(),
+    );
+    expect([...new Set(atomsOf(submitted().fileContent))]).toEqual(['A1', 'A2']);
+  });
+
+  it('throws chain_not_found when the chain has no protein residues in the range', async () => {
+    fetchTextMock.mockResolvedValue(ENSEMBLE);
+    await expect(
+      findSimilar.handler(
+        findSimilar.input.parse({ by: 'structure', pdb_id: '1ABC', chain: 'C', residues: '2-3' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'chain_not_found' } });
+    expect(foldseekSearch).not.toHaveBeenCalled();
+  });
+
+  it('throws empty_range when the range selects no residues from the coordinates', async () => {
+    fetchTextMock.mockResolvedValue(MODEL);
+    await expect(
+      findSimilar.handler(
+        findSimilar.input.parse({ by: 'structure', pdb_id: '4HHB', residues: '50-60' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'empty_range' } });
+    expect(foldseekSearch).not.toHaveBeenCalled();
+  });
+});
+
 describe('protein_find_similar — format', () => {
   it('renders the engine header, ticket line, and per-hit scores', () => {
     const blocks = findSimilar.format!({
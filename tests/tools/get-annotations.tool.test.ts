@@ -6,10 +6,13 @@
  * accession), include-scope gating of features/variants/domains, per-response
  * attribution gating (UniProt / InterPro / GO), the resolvedFrom enrichment, and
  * format() rendering of ambiguity, features, variants, InterPro domains with GO
- * terms, and attribution. Services mocked.
+ * terms, and attribution; accessions batches (table-view counts, full-view caps,
+ * per-ID failures, merged attribution, all_failed, the batch cap) and the table
+ * rendering. Services mocked.
  * @module tests/tools/get-annotations.tool.test
  */
 
+import { notFound, serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
 import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -345,9 +348,159 @@ describe('protein_get_annotations attribution', () => {
   });
 });
 
+describe('protein_get_annotations accessions batch', () => {
+  /** P69905 and P68871 resolve; anything else is a UniProt 404. */
+  const byAccession = (accession: string) =>
+    accession === 'P69905'
+      ? Promise.resolve(entry())
+      : accession === 'P68871'
+        ? Promise.resolve(
+            entry({
+              accession: 'P68871',
+              proteinName: 'Hemoglobin subunit beta',
+              geneNames: ['HBB'],
+              features: many('variant', 3),
+            }),
+          )
+        : Promise.reject(notFound('UniProt returned HTTP 404.', { status: 404 }));
+
+  it('defaults to the table view: counts and domain names per protein, in request order', async () => {
+    getEntry.mockImplementation(byAccession);
+    getInterPro.mockImplementation((accession: string) =>
+      Promise.resolve(accession === 'P69905' ? [interProDomain()] : []),
+    );
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ accessions: ['p68871', 'P69905'] }),
+      ctx(),
+    );
+
+    expect(out.view).toBe('table');
+    expect(out.accession).toBeUndefined();
+    expect(out.proteins).toEqual([
+      {
+        accession: 'P68871',
+        proteinName: 'Hemoglobin subunit beta',
+        geneNames: ['HBB'],
+        organism: 'Homo sapiens',
+        sequenceLength: 142,
+        counts: { features: 0, variants: 3, domains: 0 },
+        domainNames: [],
+      },
+      {
+        accession: 'P69905',
+        proteinName: 'Hemoglobin subunit alpha',
+        geneNames: ['HBA1'],
+        organism: 'Homo sapiens',
+        sequenceLength: 142,
+        counts: { features: 1, variants: 1, domains: 1 },
+        domainNames: ['Globin-like superfamily'],
+      },
+    ]);
+    expect(out.failed).toEqual([]);
+    expect(out.attribution.map((a) => a.source)).toEqual(['UniProt', 'InterPro']);
+    expect(out).toEqual(expect.schemaMatching(getAnnotations.output));
+  });
+
+  it('lists malformed and unknown accessions in failed[] without sinking the batch', async () => {
+    getEntry.mockImplementation(byAccession);
+    getInterPro.mockResolvedValue([]);
+    const c = ctx();
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ accessions: ['P69905', 'not-an-id', 'Q99999'] }),
+      c,
+    );
+
+    expect(out.proteins?.map((p) => p.accession)).toEqual(['P69905']);
+    expect(out.failed).toEqual([
+      { id: 'NOT-AN-ID', reason: 'Not a UniProt accession (e.g. P69905).' },
+      { id: 'Q99999', reason: 'No UniProt entry for this accession.' },
+    ]);
+    expect(getEntry).not.toHaveBeenCalledWith('NOT-AN-ID', expect.anything(), expect.anything());
+    expect(getEnrichment(c).notice).toBe(
+      '2 of 3 accessions could not be annotated: NOT-AN-ID, Q99999.',
+    );
+  });
+
+  it('keeps an upstream outage on its own row', async () => {
+    getEntry.mockImplementation((accession: string) =>
+      accession === 'P68871'
+        ? Promise.reject(serviceUnavailable('UniProt returned HTTP 503.', { status: 503 }))
+        : byAccession(accession),
+    );
+    getInterPro.mockResolvedValue([]);
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ accessions: ['P69905', 'P68871'], include: 'features' }),
+      ctx(),
+    );
+    expect(out.proteins).toHaveLength(1);
+    expect(out.failed).toEqual([{ id: 'P68871', reason: 'UniProt returned HTTP 503.' }]);
+  });
+
+  it('view:full returns complete records and names each capped class in one notice', async () => {
+    getEntry.mockImplementation(byAccession);
+    getInterPro.mockResolvedValue([]);
+    const c = ctx();
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({
+        accessions: ['P69905', 'P68871'],
+        include: 'variants',
+        limit: 2,
+        view: 'full',
+      }),
+      c,
+    );
+
+    expect(out.view).toBe('full');
+    expect(out.proteins?.[0]).toMatchObject({ function: 'Oxygen transport', variants: [{}] });
+    expect(out.proteins?.[0]?.counts).toBeUndefined();
+    expect(out.proteins?.[1]?.variants).toHaveLength(2);
+    expect(getEnrichment(c)).toMatchObject({
+      truncated: true,
+      notice:
+        'Showing at most 2 records per class; capped: P68871 variants (3). Raise limit to see more.',
+    });
+  });
+
+  it('takes precedence over uniprot and pdb_id', async () => {
+    getEntry.mockImplementation(byAccession);
+    getInterPro.mockResolvedValue([]);
+    await getAnnotations.handler(
+      getAnnotations.input.parse({ accessions: ['P68871'], uniprot: 'P69905', pdb_id: '4HHB' }),
+      ctx(),
+    );
+    expect(resolveUniprotEntities).not.toHaveBeenCalled();
+    expect(getEntry).toHaveBeenCalledTimes(1);
+    expect(getEntry).toHaveBeenCalledWith('P68871', 'all', expect.anything());
+  });
+
+  it('caps the batch at the configured size and says how many were ignored', async () => {
+    getEntry.mockImplementation(byAccession);
+    getInterPro.mockResolvedValue([]);
+    const c = ctx();
+    const out = await getAnnotations.handler(
+      getAnnotations.input.parse({ accessions: Array.from({ length: 27 }, () => 'P69905') }),
+      c,
+    );
+    expect(out.proteins).toHaveLength(25);
+    expect(getEnrichment(c).notice).toBe('Batch capped at 25 IDs; 2 ignored.');
+  });
+
+  it('throws all_failed when no accession annotates', async () => {
+    getEntry.mockImplementation(byAccession);
+    getInterPro.mockResolvedValue([]);
+    await expect(
+      getAnnotations.handler(
+        getAnnotations.input.parse({ accessions: ['Q99999', 'bogus'] }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'all_failed' } });
+  });
+});
+
 describe('protein_get_annotations format()', () => {
   it('renders the header, ambiguity, features, variants, domains with GO terms, and attribution', () => {
     const blocks = getAnnotations.format!({
+      view: 'full',
       accession: 'P69905',
       proteinName: 'Hemoglobin subunit alpha',
       geneNames: ['HBA1'],
@@ -401,6 +554,7 @@ describe('protein_get_annotations format()', () => {
 
   it('collapses a single-residue range to one position', () => {
     const blocks = getAnnotations.format!({
+      view: 'full',
       accession: 'P1',
       geneNames: [],
       features: [{ type: 'Binding site', start: 87 }],
@@ -410,4 +564,34 @@ describe('protein_get_annotations format()', () => {
     expect(text).toContain('**Binding site** [87]');
     expect(text).not.toContain('[87–87]');
   });
+
+  it('renders the table view as one row per protein, with failures', () => {
+    const blocks = getAnnotations.format!({
+      view: 'table',
+      proteins: [
+        {
+          accession: 'P69905',
+          proteinName: 'Hemoglobin subunit alpha',
+          geneNames: ['HBA1', 'HBA2'],
+          organism: 'Homo sapiens',
+          sequenceLength: 142,
+          counts: { features: 12, variants: 151, domains: 2 },
+          domainNames: ['Globin', 'Globin-like superfamily'],
+        },
+        { accession: 'P68871', geneNames: [], counts: { features: 4 } },
+      ],
+      failed: [{ id: 'Q99999', reason: 'No UniProt entry for this accession.' }],
+      attribution: [],
+    });
+    const text = (blocks[0] as { text: string }).text;
+
+    expect(text).toContain('## Annotations: 2 proteins (table view)');
+    expect(text).toContain(
+      '| P69905 | Hemoglobin subunit alpha | HBA1, HBA2 | Homo sapiens | 142 | 12 | 151 | 2 (Globin; Globin-like superfamily) |',
+    );
+    expect(text).toContain('| P68871 | — | — | — | — | 4 | — | — |');
+    expect(text).toContain('### Failed (1)');
+    expect(text).toContain('- Q99999: No UniProt entry for this accession.');
+    expect(text).not.toContain('### Features');
+  });
 });
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Tests for protein_get_confidence: the accession shape guard and
+ * no-model path (declared errors), segment + PAE-block summary with threshold
+ * and length overrides, PAE domain clustering, the optional track, matrix pooling
+ * on long chains, the PAE-unavailable notice, and AlphaFold DB attribution. AlphaFold service mocked.
+ * @module tests/tools/get-confidence.tool.test
+ */
+
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getConfidence = vi.fn();
+vi.mock('@/services/alphafold/alphafold-service.js', () => ({
+  getAlphaFoldService: () => ({ getConfidence }),
+}));
+
+import { getConfidence as tool } from '@/mcp-server/tools/definitions/get-confidence.tool.js';
+
+const ctx = () => createMockContext({ errors: tool.errors });
+
+/** 30 residues: two confident 12-residue domains around a 6-residue linker. */
+const PLDDT = [...Array(12).fill(92), ...Array(6).fill(35), ...Array(12).fill(78)];
+const PAE = Array.from({ length: 30 }, (_, i) =>
+  Array.from({ length: 30 }, (_, j) => (i < 12 === j < 12 ? 3 : 25)),
+);
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('protein_get_confidence', () => {
+  it('summarizes confident segments and the PAE between them', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P69905',
+      entryId: 'AF-P69905-F1',
+      modelVersion: 4,
+      plddt: PLDDT,
+      plddtSource: 'confidence_json',
+      pae: PAE,
+      maxPae: 31.75,
+      paeDocUrl: 'https://af/pae.json',
+    });
+    const out = await tool.handler(tool.input.parse({ accession: 'P69905' }), ctx());
+
+    expect(out).toMatchObject({
+      uniprotAccession: 'P69905',
+      residueCount: 30,
+      plddtSource: 'confidence_json',
+      segments: [
+        { start: 1, end: 12, meanPlddt: 92 },
+        { start: 19, end: 30, meanPlddt: 78 },
+      ],
+      maxPae: 31.75,
+    });
+    expect(out.paeBlocks.find((b) => b.a === 0 && b.b === 1)?.meanPae).toBe(25);
+    expect(out.plddt).toHaveLength(30);
+    expect(out).not.toHaveProperty('paeMatrix');
+    expect(out.attribution.map((a) => a.source)).toEqual(['AlphaFold DB']);
+    expect(out).toEqual(expect.schemaMatching(tool.output));
+  });
+
+  it('applies threshold and segment-length overrides, and omits the track on request', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P1',
+      plddt: PLDDT,
+      plddtSource: 'coordinates',
+    });
+    const c = ctx();
+    const out = await tool.handler(
+      tool.input.parse({ accession: 'P12345', plddt_threshold: 90, include_track: false }),
+      c,
+    );
+
+    expect(out.segments).toEqual([{ start: 1, end: 12, meanPlddt: 92 }]);
+    expect(out).not.toHaveProperty('plddt');
+    expect(out.paeBlocks).toEqual([]);
+    expect(getEnrichment(c).notice).toMatch(/PAE is unavailable/);
+  });
+
+  it('clusters PAE domains, honouring min_domain_size and pae_cutoff', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P1',
+      plddt: PLDDT,
+      plddtSource: 'coordinates',
+      pae: PAE,
+    });
+    const c = ctx();
+    const none = await tool.handler(tool.input.parse({ accession: 'P12345' }), c);
+    expect(none.domains).toEqual([]);
+    expect(getEnrichment(c).notice).toMatch(/No PAE cluster reaches 20 residues/);
+
+    const out = await tool.handler(
+      tool.input.parse({ accession: 'P12345', min_domain_size: 10 }),
+      ctx(),
+    );
+    expect(out.domains.map((d) => [d.start, d.end, d.size, d.meanPae])).toEqual([
+      [1, 12, 12, 3],
+      [13, 30, 18, 3],
+    ]);
+    expect(out.domains[0]?.meanPlddt).toBe(92);
+    expect(out).toEqual(expect.schemaMatching(tool.output));
+
+    const tight = await tool.handler(
+      tool.input.parse({ accession: 'P12345', min_domain_size: 10, pae_cutoff: 2 }),
+      ctx(),
+    );
+    expect(tight.domains).toEqual([]);
+  });
+
+  it('returns the full matrix for a short chain and pools a long one', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P1',
+      plddt: PLDDT,
+      plddtSource: 'coordinates',
+      pae: PAE,
+    });
+    const short = await tool.handler(
+      tool.input.parse({ accession: 'P12345', include_pae_matrix: true }),
+      ctx(),
+    );
+    expect(short.paeMatrixBin).toBe(1);
+    expect(short.paeMatrix).toHaveLength(30);
+
+    const n = 250;
+    const long = Array.from({ length: n }, () => new Array<number>(n).fill(4));
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P1',
+      plddt: new Array(n).fill(90),
+      plddtSource: 'coordinates',
+      pae: long,
+    });
+    const c = ctx();
+    const pooled = await tool.handler(
+      tool.input.parse({ accession: 'P12345', include_pae_matrix: true }),
+      c,
+    );
+    expect(pooled.paeMatrixBin).toBe(3);
+    expect(pooled.paeMatrix).toHaveLength(84);
+    expect(getEnrichment(c).notice).toMatch(/average-pooled 3×3/);
+  });
+
+  it('notices when no segment reaches the threshold', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P1',
+      plddt: [40, 42],
+      plddtSource: 'coordinates',
+      pae: [
+        [0, 1],
+        [1, 0],
+      ],
+    });
+    const c = ctx();
+    const out = await tool.handler(tool.input.parse({ accession: 'P12345' }), c);
+    expect(out.segments).toEqual([]);
+    expect(getEnrichment(c).notice).toMatch(/No run of 10\+ residues/);
+  });
+
+  it('rejects a non-accession identifier before any upstream call (invalid_accession)', async () => {
+    await expect(
+      tool.handler(tool.input.parse({ accession: '4HHB' }), ctx()),
+    ).rejects.toMatchObject({
+      data: { reason: 'invalid_accession' },
+    });
+    expect(getConfidence).not.toHaveBeenCalled();
+  });
+
+  it('throws no_model when AlphaFold has no model', async () => {
+    getConfidence.mockResolvedValue(null);
+    await expect(
+      tool.handler(tool.input.parse({ accession: 'P00000' }), ctx()),
+    ).rejects.toMatchObject({
+      data: { reason: 'no_model' },
+    });
+  });
+
+  it('formats segments, blocks, and domains as text', async () => {
+    getConfidence.mockResolvedValue({
+      uniprotAccession: 'P1',
+      plddt: PLDDT,
+      plddtSource: 'coordinates',
+      pae: PAE,
+    });
+    const out = await tool.handler(tool.input.parse({ accession: 'P12345' }), ctx());
+    const text = tool.format?.(out)[0];
+    expect(text).toMatchObject({ type: 'text' });
+    expect((text as { text: string }).text).toContain('[0] ↔ [1]: 25.0 Å');
+
+    const withDomains = await tool.handler(
+      tool.input.parse({ accession: 'P12345', min_domain_size: 10 }),
+      ctx(),
+    );
+    const domainText = tool.format?.(withDomains)[0] as { text: string } | undefined;
+    expect(domainText?.text).toContain('- 1–12 (12 aa; 1–12) mean PAE 3.0 Å, mean pLDDT 92.0');
+  });
+});
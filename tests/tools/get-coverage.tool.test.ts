@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Tests for protein_get_coverage: segment construction from
+ * overlapping model ranges (cut at every boundary, best template per piece,
+ * merging of equal neighbours), template ranking (resolution, then confidence on
+ * a common scale), gaps with and without experimental coverage, coverage
+ * fractions, source / max_resolution filtering, models without a UniProt range,
+ * the empty-federation case, the models[] cap, per-provider attribution, the
+ * invalid_accession failure, and format(). 3D-Beacons mocked.
+ * @module tests/tools/get-coverage.tool.test
+ */
+
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getSummary = vi.fn();
+vi.mock('@/services/beacons/beacons-service.js', () => ({
+  getBeaconsService: () => ({ getSummary }),
+}));
+
+import { getCoverage } from '@/mcp-server/tools/definitions/get-coverage.tool.js';
+
+const ctx = () => createMockContext({ errors: getCoverage.errors });
+
+const EXPERIMENTAL = 'EXPERIMENTALLY DETERMINED';
+
+/**
+ * A 500-residue protein: two crystal structures of the kinase domain (the
+ * better one shorter), an NMR structure of the N-terminal SH3, a SWISS-MODEL
+ * model and the AlphaFold model of the whole chain, and one model with no range.
+ */
+const SUMMARY = {
+  accession: 'P00519',
+  found: true,
+  sequenceLength: 500,
+  models: [
+    {
+      modelIdentifier: '2hyy',
+      modelCategory: EXPERIMENTAL,
+      provider: 'PDBe',
+      uniprotStart: 229,
+      uniprotEnd: 500,
+      resolution: 2.4,
+      experimentalMethod: 'X-RAY DIFFRACTION',
+    },
+    {
+      modelIdentifier: '1iep',
+      modelCategory: EXPERIMENTAL,
+      provider: 'PDBe',
+      uniprotStart: 229,
+      uniprotEnd: 400,
+      resolution: 2.1,
+      experimentalMethod: 'X-RAY DIFFRACTION',
+    },
+    {
+      modelIdentifier: '1abo',
+      modelCategory: EXPERIMENTAL,
+      provider: 'PDBe',
+      uniprotStart: 60,
+      uniprotEnd: 120,
+      experimentalMethod: 'SOLUTION NMR',
+    },
+    {
+      modelIdentifier: 'SM-1',
+      modelCategory: 'TEMPLATE-BASED',
+      provider: 'SWISS-MODEL',
+      uniprotStart: 40,
+      uniprotEnd: 450,
+      confidenceType: 'QMEANDisCo',
+      confidenceAvgLocalScore: 0.81,
+    },
+    {
+      modelIdentifier: 'AF-P00519-F1',
+      modelCategory: 'AB-INITIO',
+      provider: 'AlphaFold DB',
+      uniprotStart: 1,
+      uniprotEnd: 480,
+      coverage: 0.96,
+      confidenceType: 'pLDDT',
+      confidenceAvgLocalScore: 74.2,
+      modelUrl: 'https://alphafold.test/AF-P00519-F1.cif',
+    },
+    { modelIdentifier: 'X-NORANGE', modelCategory: 'AB-INITIO', provider: 'AlphaFill' },
+  ],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getSummary.mockResolvedValue(SUMMARY);
+});
+
+describe('protein_get_coverage', () => {
+  it('builds best-template segments and explicit gaps', async () => {
+    const c = ctx();
+    const out = await getCoverage.handler(getCoverage.input.parse({ accession: ' p00519 ' }), c);
+
+    expect(getSummary).toHaveBeenCalledWith('P00519', expect.anything());
+    expect(out).toMatchObject({ accession: 'P00519', sequenceLength: 500, modelCount: 5 });
+    expect(out.segments.map((s) => [s.start, s.end, s.best, s.experimental, s.predicted])).toEqual([
+      [1, 39, 'AF-P00519-F1', 0, 1],
+      // SWISS-MODEL's 0.81 QMEANDisCo outranks AlphaFold's pLDDT 74.2 on the common scale.
+      [40, 59, 'SM-1', 0, 2],
+      [60, 120, '1ABO', 1, 2],
+      [121, 228, 'SM-1', 0, 2],
+      [229, 400, '1IEP', 2, 2],
+      [401, 450, '2HYY', 1, 2],
+      [451, 480, '2HYY', 1, 1],
+      [481, 500, '2HYY', 1, 0],
+    ]);
+    expect(out.gaps).toEqual([]);
+    expect(out.experimentalGaps).toEqual([
+      { start: 1, end: 59, length: 59 },
+      { start: 121, end: 228, length: 108 },
+    ]);
+    expect(out.coveredFraction).toBe(1);
+    expect(out.experimentalFraction).toBe(0.666);
+    expect(out.models.map((m) => m.id)).toEqual(['1IEP', '2HYY', '1ABO', 'SM-1', 'AF-P00519-F1']);
+    expect(out.attribution.map((a) => a.source)).toEqual([
+      'RCSB PDB',
+      'AlphaFold DB',
+      'SWISS-MODEL',
+    ]);
+    expect(getEnrichment(c).notice).toContain('1 model(s) without a UniProt range');
+  });
+
+  it('filters by source and max_resolution and reports the gaps that opens', async () => {
+    const c = ctx();
+    const out = await getCoverage.handler(
+      getCoverage.input.parse({ accession: 'P00519', source: 'experimental', max_resolution: 2.2 }),
+      c,
+    );
+    expect(out.modelCount).toBe(1);
+    expect(out.segments).toEqual([
+      {
+        start: 229,
+        end: 400,
+        length: 172,
+        experimental: 1,
+        predicted: 0,
+        best: '1IEP',
+        bestSource: 'experimental',
+      },
+    ]);
+    expect(out.gaps).toEqual([
+      { start: 1, end: 228, length: 228 },
+      { start: 401, end: 500, length: 100 },
+    ]);
+    expect(out.coveredFraction).toBe(0.344);
+    expect(out.attribution.map((a) => a.source)).toEqual(['RCSB PDB']);
+    expect(getEnrichment(c).notice).toContain('4 model(s) excluded by source/max_resolution');
+  });
+
+  it('states only inner gaps when the sequence length is unknown', async () => {
+    getSummary.mockResolvedValue({
+      accession: 'Q9Y6K9',
+      found: true,
+      models: [
+        { modelIdentifier: 'A', modelCategory: 'AB-INITIO', uniprotStart: 10, uniprotEnd: 20 },
+        { modelIdentifier: 'B', modelCategory: 'AB-INITIO', uniprotStart: 30, uniprotEnd: 40 },
+      ],
+    });
+    const out = await getCoverage.handler(getCoverage.input.parse({ accession: 'Q9Y6K9' }), ctx());
+    expect(out.gaps).toEqual([
+      { start: 1, end: 9, length: 9 },
+      { start: 21, end: 29, length: 9 },
+    ]);
+    expect(out.coveredFraction).toBeUndefined();
+    expect(out.attribution.map((a) => a.source)).toEqual(['3D-Beacons (provider unspecified)']);
+  });
+
+  it('maps the whole sequence as a gap when nothing is federated', async () => {
+    getSummary.mockResolvedValue({
+      accession: 'P12345',
+      found: false,
+      models: [],
+      sequenceLength: 80,
+    });
+    const c = ctx();
+    const out = await getCoverage.handler(getCoverage.input.parse({ accession: 'P12345' }), c);
+    expect(out).toMatchObject({ modelCount: 0, segments: [], models: [], coveredFraction: 0 });
+    expect(out.gaps).toEqual([{ start: 1, end: 80, length: 80 }]);
+    expect(getEnrichment(c).notice).toContain('no experimental or predicted models');
+  });
+
+  it('caps models[] at limit but keeps every model in the map', async () => {
+    const c = ctx();
+    const out = await getCoverage.handler(
+      getCoverage.input.parse({ accession: 'P00519', limit: 2 }),
+      c,
+    );
+    expect(out.models.map((m) => m.id)).toEqual(['1IEP', '2HYY']);
+    expect(out.modelCount).toBe(5);
+    expect(out.segments[0]?.best).toBe('AF-P00519-F1');
+    expect(getEnrichment(c)).toMatchObject({ truncated: true });
+    expect(getEnrichment(c).notice).toContain('Showing 2 of 5 models');
+  });
+
+  it('rejects a malformed accession before calling 3D-Beacons', async () => {
+    await expect(
+      getCoverage.handler(getCoverage.input.parse({ accession: '1IEP' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'invalid_accession' } });
+    expect(getSummary).not.toHaveBeenCalled();
+  });
+
+  it('formats the segment table, gaps, and models', async () => {
+    const out = await getCoverage.handler(getCoverage.input.parse({ accession: 'P00519' }), ctx());
+    const text = (getCoverage.format?.(out)[0] as { text: string } | undefined)?.text ?? '';
+    expect(text).toContain('## Structural coverage of P00519 (500 aa)');
+    expect(text).toContain('**Models:** 5 | **Covered:** 100.0% | **Experimental:** 66.6%');
+    expect(text).toContain('| 229–400 | 172 | 2 | 2 | 1IEP (experimental) |');
+    expect(text).toContain('**Gaps (no model):** none');
+    expect(text).toContain('**Gaps (no experimental structure):** 1–59 (59 aa), 121–228 (108 aa)');
+    expect(text).toContain('- **1IEP** (experimental) 229–400 — PDBe, EXPERIMENTALLY DETERMINED');
+    expect(text).toContain('https://alphafold.test/AF-P00519-F1.cif');
+    expect(text).toContain('### Attribution');
+  });
+});
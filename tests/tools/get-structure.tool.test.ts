@@ -3,19 +3,26 @@
  * partial success (failed[]), the predicted (AlphaFold) path, the best_available
  * federated pick (experimental pdbId + title promotion, full cif/pdb/bcif parity
  * with source experimental, scale-correct confidence that keeps a non-pLDDT metric
- * out of meanPlddt), the coordinate overflow → section-outline collapse, and the
- * per-response attribution union (RCSB PDB / AlphaFold DB, derived from
- * structures[]). Services and the HTTP layer are mocked.
+ * out of meanPlddt), the coordinate overflow → section-outline collapse (with
+ * per-chain sizes), atom-selection inlining, biological assemblies (listed with
+ * their URLs, inlined by assembly_id), and the per-response attribution union
+ * (RCSB PDB / AlphaFold DB, derived from structures[]). Services and the HTTP layer are mocked.
  * @module tests/tools/get-structure.tool.test
  */
 
+import { readFileSync } from 'node:fs';
 import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const getEntries = vi.fn();
 const coordinateFileUrl = vi.fn((id: string, fmt: string) => `https://files/${id}.${fmt}`);
+const assemblyFileUrl = vi.fn((id: string, assemblyId: string, fmt: string) =>
+  fmt === 'cif'
+    ? `https://files/${id}-assembly${assemblyId}.cif`
+    : `https://files/${id}.pdb${assemblyId}`,
+);
 vi.mock('@/services/rcsb/rcsb-service.js', () => ({
-  getRcsbService: () => ({ getEntries, coordinateFileUrl }),
+  getRcsbService: () => ({ getEntries, coordinateFileUrl, assemblyFileUrl }),
 }));
 
 const getPrediction = vi.fn();
@@ -35,8 +42,10 @@ vi.mock('@/services/shared/http.js', async (importOriginal) => {
 
 import { getStructure } from '@/mcp-server/tools/definitions/get-structure.tool.js';
 import { fetchText } from '@/services/shared/http.js';
+import { parseMmcif } from '@/services/structure/mmcif.js';
 
 const fetchTextMock = vi.mocked(fetchText);
+const MINI_CIF = readFileSync(new URL('../fixtures/structure/mini.cif', import.meta.url), 'utf8');
 
 const ctx = () => createMockContext({ errors: getStructure.errors });
 const experimentalMeta = (id: string) => ({
@@ -47,6 +56,7 @@ const experimentalMeta = (id: string) => ({
   resolution: 1.74,
   polymerEntities: [],
   ligands: [],
+  assemblies: [],
 });
 
 beforeEach(() => vi.clearAllMocks());
@@ -383,6 +393,7 @@ describe('protein_get_structure computed structure models', () => {
     organisms: ['Mus musculus'],
     polymerEntities: [],
     ligands: [],
+    assemblies: [{ assemblyId: '1' }],
   });
 
   it('marks an RCSB-served computed model predicted, not experimental', async () => {
@@ -594,3 +605,160 @@ describe('protein_get_structure attribution', () => {
     ).toMatchObject({ license: 'See provider terms' });
   });
 });
+
+describe('protein_get_structure biological assemblies', () => {
+  const withAssemblies = (id: string) => ({
+    ...experimentalMeta(id),
+    assemblies: [
+      {
+        assemblyId: '1',
+        oligomericState: 'Homo 2-mer',
+        polymerCount: 2,
+        stoichiometry: ['A2'],
+        symmetry: 'C2',
+        symmetryType: 'Cyclic',
+        determination: 'author_and_software_defined_assembly',
+        determinationMethod: 'PISA',
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    getEntries.mockResolvedValue([withAssemblies('1MIN')]);
+    fetchTextMock.mockResolvedValue(MINI_CIF);
+  });
+
+  it('lists an entry’s assemblies with their download URLs', async () => {
+    const out = await getStructure.handler(getStructure.input.parse({ ids: ['1MIN'] }), ctx());
+
+    expect(out.structures[0]?.assemblies).toEqual([
+      {
+        ...withAssemblies('1MIN').assemblies[0],
+        coordinateUrls: {
+          cif: 'https://files/1MIN-assembly1.cif',
+          pdb: 'https://files/1MIN.pdb1',
+        },
+      },
+    ]);
+    const text = (getStructure.format!(out)[0] as { text: string }).text;
+    expect(text).toContain(
+      '- **1**: Homo 2-mer, C2 (Cyclic), A2, 2 chains — author_and_software_defined_assembly (PISA) — [cif](https://files/1MIN-assembly1.cif) · [pdb](https://files/1MIN.pdb1)',
+    );
+  });
+
+  it('lists no assemblies for an RCSB-served computed model', async () => {
+    getEntries.mockResolvedValue([
+      { ...experimentalMeta('AF_AFQ9Z1K5F1'), computedModelProvider: 'AlphaFold DB' },
+    ]);
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['AF_AFQ9Z1K5F1'] }),
+      ctx(),
+    );
+    expect(out.structures[0]).not.toHaveProperty('assemblies');
+  });
+
+  it('inlines the assembly instead of the asymmetric unit', async () => {
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['1MIN'], include_coords: true, assembly_id: '1' }),
+      ctx(),
+    );
+
+    expect(out.structures[0]).toMatchObject({ assemblyId: '1', coordinateFormat: 'cif' });
+    expect(fetchTextMock).toHaveBeenCalledTimes(1);
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://files/1MIN-assembly1.cif',
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('skips an entry without the assembly and says so', async () => {
+    const c = ctx();
+    const out = await getStructure.handler(
+      getStructure.input.parse({ ids: ['1MIN'], selection: 'chain A', assembly_id: '2' }),
+      c,
+    );
+
+    expect(out.structures[0]?.coordinates).toBeUndefined();
+    expect(fetchTextMock).not.toHaveBeenCalled();
+    expect(String(getEnrichment(c).notice)).toMatch(/No assembly 2 in 1MIN/);
+  });
+
+  it('explains that assembly_id alone inlines nothing', async () => {
+    const c = ctx();
+    await getStructure.handler(getStructure.input.parse({ ids: ['1MIN'], assembly_id: '1' }), c);
+    expect(String(getEnrichment(c).notice)).toMatch(/set include_coords or selection/);
+  });
+});
+
+describe('protein_get_structure selection', () => {
+  beforeEach(() => {
+    getEntries.mockResolvedValue([experimentalMeta('1MIN')]);
+    fetchTextMock.mockResolvedValue(MINI_CIF);
+  });
+
+  it('inlines only the selected atoms as valid mmCIF, without include_coords', async () => {
+    const input = getStructure.input.parse({ ids: ['1MIN'], selection: 'chain A and resi 2' });
+    const out = await getStructure.handler(input, ctx());
+
+    const [s] = out.structures;
+    expect(s).toMatchObject({ coordinateFormat: 'cif', selectedAtoms: 7 });
+    const residues = parseMmcif(s?.coordinates ?? '').models[0]?.chains[0]?.residues;
+    expect(residues?.map((r) => r.compId)).toEqual(['CYS']);
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://files/1MIN.cif',
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('returns a binding pocket with "ligand <comp> around <Å>"', async () => {
+    const input = getStructure.input.parse({ ids: ['1MIN'], selection: 'ligand SO4 around 5.5' });
+    const out = await getStructure.handler(input, ctx());
+
+    const comps = parseMmcif(out.structures[0]?.coordinates ?? '').models[0]?.chains[0]?.residues;
+    expect(comps?.map((r) => r.compId)).toEqual(['CYS', 'SO4']);
+  });
+
+  it('rejects a malformed selection before any upstream call (invalid_selection)', async () => {
+    const input = getStructure.input.parse({ ids: ['1MIN'], selection: 'chain A and' });
+    await expect(getStructure.handler(input, ctx())).rejects.toMatchObject({
+      data: { reason: 'invalid_selection' },
+    });
+    expect(getEntries).not.toHaveBeenCalled();
+  });
+
+  it('leaves coordinates out and says so when the selection matches nothing', async () => {
+    const input = getStructure.input.parse({ ids: ['1MIN'], selection: 'resn HEM' });
+    const c = ctx();
+    const out = await getStructure.handler(input, c);
+
+    expect(out.structures[0]?.coordinates).toBeUndefined();
+    expect(out.structures[0]?.selectedAtoms).toBe(0);
+    expect(getEnrichment(c).notice).toMatch(/matched no atoms in 1MIN/);
+  });
+
+  it('adds per-chain sizes to the overflow outline when the content parses', async () => {
+    getEntries.mockResolvedValue([experimentalMeta('1MIN'), experimentalMeta('2MIN')]);
+    fetchTextMock.mockResolvedValue(`${MINI_CIF}#${'x'.repeat(20_000)}\n`);
+    const input = getStructure.input.parse({ ids: ['1MIN', '2MIN'], include_coords: true });
+    const out = await getStructure.handler(input, ctx());
+
+    const [first] = out.overflow?.sections ?? [];
+    expect(first?.chains?.map((c) => [c.chain, c.atoms])).toEqual([
+      ['A', 17],
+      ['B', 2],
+    ]);
+    expect(first?.chains?.every((c) => c.bytes > 0)).toBe(true);
+    expect(out.overflow?.notice).toContain('selection:"chain A"');
+  });
+
+  it('keeps the whole-structure outline without chains for content that does not parse', async () => {
+    getEntries.mockResolvedValue([experimentalMeta('4HHB'), experimentalMeta('2HHB')]);
+    fetchTextMock.mockResolvedValue('A'.repeat(20_000));
+    const input = getStructure.input.parse({ ids: ['4HHB', '2HHB'], include_coords: true });
+    const out = await getStructure.handler(input, ctx());
+
+    expect(out.overflow?.sections.every((s) => s.chains === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * @fileoverview Tests for protein_map_features: UniProt → label_seq_id → author
+ * residue projection through the SIFTS chain mapping (numbering offset, insertion
+ * code, disordered residue), modeled / partial / unmodeled / outside statuses,
+ * entity and chain choice (lowest aligned chain, explicit chain, accession
+ * filter, the other-accession notice), the selection filter, coordinates read
+ * from a biological assembly, AlphaFold identity numbering with mean pLDDT, the
+ * per-class limit, the missing_target / invalid_id / invalid_selection /
+ * no_uniprot_mapping / chain_not_found / no_model failures, and format().
+ * Services and the coordinate fetch are mocked.
+ * @module tests/tools/map-features.tool.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const coordinateFileUrl = vi.fn((id: string, fmt: string) => `https://files/${id}.${fmt}`);
+const assemblyFileUrl = vi.fn(
+  (id: string, assemblyId: string) => `https://files/${id}-assembly${assemblyId}.cif`,
+);
+vi.mock('@/services/rcsb/rcsb-service.js', () => ({
+  getRcsbService: () => ({ coordinateFileUrl, assemblyFileUrl }),
+}));
+
+const getEntryMapping = vi.fn();
+vi.mock('@/services/sifts/sifts-service.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/sifts/sifts-service.js')>();
+  return { ...actual, getSiftsService: () => ({ getEntryMapping }) };
+});
+
+const getPrediction = vi.fn();
+vi.mock('@/services/alphafold/alphafold-service.js', () => ({
+  getAlphaFoldService: () => ({ getPrediction }),
+}));
+
+const getEntry = vi.fn();
+vi.mock('@/services/uniprot/uniprot-service.js', () => ({
+  getUniProtService: () => ({ getEntry }),
+}));
+
+vi.mock('@/services/shared/http.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/shared/http.js')>();
+  return { ...actual, fetchText: vi.fn() };
+});
+
+import { mapFeatures } from '@/mcp-server/tools/definitions/map-features.tool.js';
+import { fetchText } from '@/services/shared/http.js';
+
+const fetchTextMock = vi.mocked(fetchText);
+const ctx = () => createMockContext({ errors: mapFeatures.errors });
+
+/**
+ * Entity 1 (chains A and B) spans label_seq_id 1–6, deposited as author
+ * residues 10, 11, —, 12A, 13, 14: label 3 is disordered and label 4 carries
+ * an insertion code. One CA per residue, 4 Å apart along x; an STI ligand sits
+ * 2 Å past residue 14 of chain A. Chain C is entity 2.
+ */
+const CIF = (() => {
+  const residues: Array<[label: number, auth: number, ins: string]> = [
+    [1, 10, '?'],
+    [2, 11, '?'],
+    [4, 12, 'A'],
+    [5, 13, '?'],
+    [6, 14, '?'],
+  ];
+  const rows: string[] = [];
+  let id = 0;
+  for (const [asym, chain, entity, y] of [
+    ['A', 'A', 1, 0],
+    ['B', 'B', 1, 30],
+    ['D', 'C', 2, 60],
+  ] as const) {
+    for (const [label, auth, ins] of residues) {
+      rows.push(
+        `ATOM ${++id} C CA . ALA ${asym} ${entity} ${label} ${ins} ${(label - 1) * 4}.000 ${y}.000 0.000 1.00 ${50 + label}.00 ? ${auth} ALA ${chain} CA 1`,
+      );
+    }
+  }
+  rows.push(`HETATM ${++id} C C1 . STI E 3 . ? 22.000 0.000 0.000 1.00 20.00 ? 201 STI A C1 1`);
+  return [
+    'data_1MAP',
+    'loop_',
+    ...[
+      'group_PDB',
+      'id',
+      'type_symbol',
+      'label_atom_id',
+      'label_alt_id',
+      'label_comp_id',
+      'label_asym_id',
+      'label_entity_id',
+      'label_seq_id',
+      'pdbx_PDB_ins_code',
+      'Cartn_x',
+      'Cartn_y',
+      'Cartn_z',
+      'occupancy',
+      'B_iso_or_equiv',
+      'pdbx_formal_charge',
+      'auth_seq_id',
+      'auth_comp_id',
+      'auth_asym_id',
+      'auth_atom_id',
+      'pdbx_PDB_model_num',
+    ].map((f) => `_atom_site.${f}`),
+    ...rows,
+    '#',
+  ].join('\n');
+})();
+
+/** SIFTS segment for a chain: UniProt 100–105 ↔ label_seq_id 1–6 (entity 1), or 1–6 ↔ 1–6 (entity 2). */
+const chainMapping = (
+  chain: string,
+  accession: string,
+  entityId: string,
+  uniprotStart: number,
+) => ({
+  accession,
+  chain,
+  asymId: chain,
+  entityId,
+  segments: [
+    {
+      uniprotStart,
+      uniprotEnd: uniprotStart + 5,
+      labelOffset: 1 - uniprotStart,
+      start: { labelSeqId: 1, authSeqId: 10 },
+      end: { labelSeqId: 6, authSeqId: 14 },
+    },
+  ],
+});
+
+const MAPPING = {
+  pdbId: '1MAP',
+  chains: [
+    chainMapping('A', 'P00519', '1', 100),
+    chainMapping('B', 'P00519', '1', 100),
+    chainMapping('C', 'Q99999', '2', 1),
+  ],
+};
+
+const ENTRY = {
+  accession: 'P00519',
+  sequenceLength: 400,
+  features: [
+    { category: 'feature', type: 'Binding site', description: 'ATP', start: 103, end: 105 },
+    { category: 'feature', type: 'Region', start: 98, end: 101 },
+    { category: 'feature', type: 'Chain', start: 1, end: 400 },
+    { category: 'feature', type: 'Disulfide bond' },
+    { category: 'variant', type: 'Natural variant', description: 'T → I', start: 102, end: 102 },
+    { category: 'variant', type: 'Natural variant', description: 'E → K', start: 105, end: 105 },
+    { category: 'variant', type: 'Natural variant', start: 300, end: 300 },
+  ],
+};
+
+const SYNTHETIC = readFileSync(
+  new URL('../fixtures/structure/ss-synthetic.pdb', import.meta.url),
+  'utf8',
+);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getEntryMapping.mockResolvedValue(MAPPING);
+  getEntry.mockResolvedValue(ENTRY);
+  fetchTextMock.mockResolvedValue(CIF);
+});
+
+const byType = (
+  rows: Array<{ type: string; start: number }> | undefined,
+  type: string,
+  start: number,
+) => rows?.find((r) => r.type === type && r.start === start);
+
+describe('protein_map_features', () => {
+  it('projects features through the alignment onto author numbering', async () => {
+    const c = ctx();
+    const out = await mapFeatures.handler(mapFeatures.input.parse({ pdb_id: '1map' }), c);
+
+    expect(getEntryMapping).toHaveBeenCalledWith('1MAP', expect.anything());
+    expect(getEntry).toHaveBeenCalledWith('P00519', 'all', expect.anything());
+    expect(out).toMatchObject({
+      accession: 'P00519',
+      source: 'experimental',
+      structureId: '1MAP',
+      chain: 'A',
+      entityId: '1',
+      uniprotCoverage: [
+        { start: 100, end: 101 },
+        { start: 103, end: 105 },
+      ],
+    });
+    expect(byType(out.features, 'Binding site', 103)).toMatchObject({
+      status: 'modeled',
+      segments: [{ uniprotStart: 103, uniprotEnd: 105, start: '12A', end: '14' }],
+      unmodeled: [],
+    });
+    expect(byType(out.features, 'Region', 98)).toMatchObject({
+      status: 'partial',
+      segments: [{ uniprotStart: 100, uniprotEnd: 101, start: '10', end: '11' }],
+    });
+    expect(byType(out.features, 'Chain', 1)).toMatchObject({
+      status: 'partial',
+      segments: [
+        { start: '10', end: '11' },
+        { start: '12A', end: '14' },
+      ],
+      unmodeled: [{ start: 102, end: 102 }],
+    });
+    expect(out.variants?.map((v) => [v.start, v.status])).toEqual([
+      [102, 'unmodeled'],
+      [105, 'modeled'],
+      [300, 'outside'],
+    ]);
+    expect(out.features?.[0]?.meanPlddt).toBeUndefined();
+    expect(out.attribution.map((a) => a.source)).toEqual(['RCSB PDB', 'UniProt']);
+    expect(getEnrichment(c).notice).toContain('also aligns to Q99999');
+    expect(getEnrichment(c).notice).toContain('1 feature(s) without a sequence position');
+  });
+
+  it('maps the requested chain and honours the accession filter', async () => {
+    const c = ctx();
+    const out = await mapFeatures.handler(
+      mapFeatures.input.parse({ pdb_id: '1MAP', uniprot: 'q99999', include: 'features' }),
+      c,
+    );
+    expect(out).toMatchObject({ accession: 'Q99999', chain: 'C', entityId: '2' });
+    expect(out.variants).toBeUndefined();
+    expect(getEntry).toHaveBeenCalledWith('Q99999', 'features', expect.anything());
+    expect(getEnrichment(c).notice ?? '').not.toContain('also aligns');
+
+    const onB = await mapFeatures.handler(
+      mapFeatures.input.parse({ pdb_id: '1MAP', chain: 'B' }),
+      ctx(),
+    );
+    expect(onB).toMatchObject({ accession: 'P00519', chain: 'B' });
+  });
+
+  it('keeps only features touching the selection', async () => {
+    const out = await mapFeatures.handler(
+      mapFeatures.input.parse({ pdb_id: '1MAP', selection: 'ligand STI around 3' }),
+      ctx(),
+    );
+    expect(out.selection).toEqual({ expression: 'ligand STI around 3', residues: 1 });
+    expect(out.features?.map((f) => [f.type, f.selectedResidues])).toEqual([
+      ['Binding site', ['14']],
+      ['Chain', ['14']],
+    ]);
+    expect(out.variants?.map((v) => v.start)).toEqual([105]);
+  });
+
+  it('reads the coordinates from a biological assembly when assembly_id is set', async () => {
+    const c = ctx();
+    const out = await mapFeatures.handler(
+      mapFeatures.input.parse({
+        pdb_id: '1MAP',
+        assembly_id: '1',
+        selection: 'ligand STI around 3',
+      }),
+      c,
+    );
+
+    expect(fetchTextMock).toHaveBeenCalledWith(
+      'https://files/1MAP-assembly1.cif',
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(out).toMatchObject({ structureId: '1MAP', chain: 'A', assemblyId: '1' });
+    expect(out.selection).toEqual({ expression: 'ligand STI around 3', residues: 1 });
+    expect(getEnrichment(c).notice ?? '').not.toContain('not in assembly');
+  });
+
+  it('maps onto the AlphaFold model by UniProt position with mean pLDDT', async () => {
+    getPrediction.mockResolvedValue({
+      entryId: 'AF-P12345-F1',
+      uniprotAccession: 'P12345',
+      pdbUrl: 'https://alphafold/AF-P12345-F1-model_v4.pdb',
+    });
+    fetchTextMock.mockResolvedValue(SYNTHETIC);
+    getEntry.mockResolvedValue({
+      accession: 'P12345',
+      features: [{ category: 'feature', type: 'Helix', start: 14, end: 20 }],
+    });
+    const out = await mapFeatures.handler(mapFeatures.input.parse({ uniprot: 'P12345' }), ctx());
+
+    expect(getEntryMapping).not.toHaveBeenCalled();
+    expect(out).toMatchObject({
+      accession: 'P12345',
+      source: 'predicted',
+      structureId: 'AF-P12345-F1',
+      chain: 'A',
+      uniprotCoverage: [{ start: 1, end: 16 }],
+    });
+    expect(out.features?.[0]).toMatchObject({
+      status: 'partial',
+      segments: [{ uniprotStart: 14, uniprotEnd: 16, start: '14', end: '16' }],
+      unmodeled: [],
+    });
+    expect(out.features?.[0]?.meanPlddt).toEqual(expect.any(Number));
+    expect(out.attribution.map((a) => a.source)).toEqual(['AlphaFold DB', 'UniProt']);
+  });
+
+  it('caps each class at limit and says so', async () => {
+    const c = ctx();
+    const out = await mapFeatures.handler(
+      mapFeatures.input.parse({ pdb_id: '1MAP', include: 'variants', limit: 2 }),
+      c,
+    );
+    expect(out.variants).toHaveLength(2);
+    expect(getEnrichment(c)).toMatchObject({ truncated: true });
+    expect(getEnrichment(c).notice).toContain('Showing 2 of 3 variants');
+  });
+
+  it('fails fast on missing or malformed input before any upstream call', async () => {
+    await expect(mapFeatures.handler(mapFeatures.input.parse({}), ctx())).rejects.toMatchObject({
+      data: { reason: 'missing_target' },
+    });
+    await expect(
+      mapFeatures.handler(mapFeatures.input.parse({ uniprot: 'hemoglobin' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'invalid_id' } });
+    await expect(
+      mapFeatures.handler(mapFeatures.input.parse({ pdb_id: 'MAP1' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'invalid_id' } });
+    await expect(
+      mapFeatures.handler(
+        mapFeatures.input.parse({ pdb_id: '1MAP', selection: 'chain A and' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'invalid_selection' } });
+    expect(getEntryMapping).not.toHaveBeenCalled();
+    expect(fetchTextMock).not.toHaveBeenCalled();
+  });
+
+  it('distinguishes a chain of another protein from an unknown chain', async () => {
+    await expect(
+      mapFeatures.handler(
+        mapFeatures.input.parse({ pdb_id: '1MAP', uniprot: 'P00519', chain: 'C' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({
+      data: { reason: 'no_uniprot_mapping' },
+      message: expect.stringContaining('aligned to Q99999'),
+    });
+    await expect(
+      mapFeatures.handler(mapFeatures.input.parse({ pdb_id: '1MAP', chain: 'Z' }), ctx()),
+    ).rejects.toMatchObject({
+      data: { reason: 'chain_not_found' },
+      message: expect.stringContaining('aligned chains: A, B, C'),
+    });
+    await expect(
+      mapFeatures.handler(mapFeatures.input.parse({ pdb_id: '1MAP', uniprot: 'P69905' }), ctx()),
+    ).rejects.toMatchObject({
+      data: { reason: 'no_uniprot_mapping' },
+      message: expect.stringContaining('aligned accessions: P00519, Q99999'),
+    });
+  });
+
+  it('fails with no_model when AlphaFold has no prediction', async () => {
+    getPrediction.mockResolvedValue(null);
+    await expect(
+      mapFeatures.handler(mapFeatures.input.parse({ uniprot: 'P12345' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'no_model' } });
+  });
+
+  it('formats segments, unmodeled positions, and the selection', async () => {
+    const out = await mapFeatures.handler(
+      mapFeatures.input.parse({ pdb_id: '1MAP', selection: 'ligand STI around 3' }),
+      ctx(),
+    );
+    const text = (mapFeatures.format?.(out)[0] as { text: string } | undefined)?.text ?? '';
+    expect(text).toContain('## P00519 → 1MAP chain A (experimental)');
+    expect(text).toContain('100–101, 103–105');
+    expect(text).toContain('`ligand STI around 3`');
+    expect(text).toContain(
+      '**Binding site** [103–105]: ATP — _modeled_ → 12A–14 (UniProt 103–105)',
+    );
+    expect(text).toContain('**Polymer entity:** 1');
+    expect(text).toContain('no coordinates: 102');
+    expect(text).toContain('in selection: 14');
+    expect(text).toContain('### Attribution');
+  });
+});
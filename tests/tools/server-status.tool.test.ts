@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Tests for protein_server_status: the breaker settings echoed from
+ * config, providers listed with their circuit state (and ISO timestamps), the
+ * unavailable[] shortlist, the notices for a disabled breaker and for a server
+ * that has called nothing yet, and format() rendering. The real breaker is
+ * installed and driven directly; no upstream is involved.
+ * @module tests/tools/server-status.tool.test
+ */
+
+import { serviceUnavailable } from '@cyanheads/mcp-ts-core/errors';
+import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { serverStatus } from '@/mcp-server/tools/definitions/server-status.tool.js';
+import {
+  type CircuitBreaker,
+  getCircuitBreaker,
+  initCircuitBreaker,
+} from '@/services/shared/circuit-breaker.js';
+
+const ctx = () => createMockContext({ errors: serverStatus.errors });
+
+const enable = () =>
+  initCircuitBreaker({
+    circuitBreakerEnabled: true,
+    circuitFailureThreshold: 3,
+    circuitCooldownMs: 30_000,
+  } as never);
+
+async function outage(breaker: CircuitBreaker, provider: string, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await breaker
+      .run(provider, createMockContext(), () =>
+        Promise.reject(serviceUnavailable(`${provider} returned HTTP 503.`, { status: 503 })),
+      )
+      .catch(() => undefined);
+  }
+}
+
+beforeEach(enable);
+afterEach(() => initCircuitBreaker({ circuitBreakerEnabled: false } as never));
+
+describe('protein_server_status', () => {
+  it('lists contacted providers with their circuit state and flags the open ones', async () => {
+    const breaker = getCircuitBreaker() as CircuitBreaker;
+    await breaker.run('RCSB Search API', createMockContext(), () => Promise.resolve('ok'));
+    await outage(breaker, 'Foldseek', 3);
+    await outage(breaker, 'UniProt', 1);
+
+    const c = ctx();
+    const out = await serverStatus.handler(serverStatus.input.parse({}), c);
+
+    expect(out).toMatchObject({
+      breakerEnabled: true,
+      failureThreshold: 3,
+      cooldownSeconds: 30,
+      unavailable: ['Foldseek'],
+    });
+    expect(out.upstreams.map((u) => [u.provider, u.state, u.consecutiveFailures])).toEqual([
+      ['Foldseek', 'open', 3],
+      ['RCSB Search API', 'closed', 0],
+      ['UniProt', 'closed', 1],
+    ]);
+    const foldseek = out.upstreams[0];
+    expect(foldseek?.lastFailure).toBe('Foldseek returned HTTP 503.');
+    expect(Date.parse(foldseek?.retryAt ?? '')).toBeGreaterThan(Date.now());
+    expect(out.upstreams[1]?.lastSuccessAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(getEnrichment(c).notice).toBeUndefined();
+  });
+
+  it('says so when no provider has been called yet', async () => {
+    const c = ctx();
+    const out = await serverStatus.handler(serverStatus.input.parse({}), c);
+    expect(out.upstreams).toEqual([]);
+    expect(out.unavailable).toEqual([]);
+    expect(getEnrichment(c).notice).toMatch(/No upstream provider has been called yet/);
+  });
+
+  it('reports a disabled breaker', async () => {
+    initCircuitBreaker({ circuitBreakerEnabled: false } as never);
+    const c = ctx();
+    const out = await serverStatus.handler(serverStatus.input.parse({}), c);
+    expect(out.breakerEnabled).toBe(false);
+    expect(getEnrichment(c).notice).toMatch(/PROTEIN_CIRCUIT_BREAKER_ENABLED=false/);
+  });
+
+  it('formats the provider table and the last failures', async () => {
+    const breaker = getCircuitBreaker() as CircuitBreaker;
+    await outage(breaker, 'Foldseek', 3);
+    const out = await serverStatus.handler(serverStatus.input.parse({}), ctx());
+    const text = (serverStatus.format?.(out)[0] as { text: string } | undefined)?.text ?? '';
+
+    expect(text).toContain('**Circuit breaker:** on — opens after 3 consecutive failures');
+    expect(text).toContain('**Unavailable:** Foldseek');
+    expect(text).toMatch(/\| Foldseek \| open \| 3 \| 0 \| \d{4}-/);
+    expect(text).toMatch(/- \*\*Foldseek\*\* \(.+\): Foldseek returned HTTP 503\./);
+  });
+});
@@ -1,34 +1,55 @@
 /**
- * @fileoverview Tests for protein_track_ligands: the three modes (find_ligand,
- * structures_with_ligand, binding_site), the missing-param guards (InvalidParams),
- * the find_ligand / binding_site empty-result not_found branches,
+ * @fileoverview Tests for protein_track_ligands: the five modes (find_ligand,
+ * similar_ligand, structures_with_ligand, binding_site, pocket_survey), pocket_survey's
+ * SIFTS-mapped per-residue tally and per-entry failures, the missing-param guards
+ * (InvalidParams), similar_ligand's similarity ranking, match types, and
+ * invalid_molecule mapping, the find_ligand / binding_site empty-result not_found
+ * branches,
  * structures_with_ligand's empty-result set + notice, the totalCount /
- * resolvedCompId enrichment, comp_id upper-casing, and format() rendering of
- * ligands, structure lists, and binding sites. RCSB service mocked.
+ * resolvedCompId enrichment, comp_id upper-casing, binding_site interaction typing
+ * (ligand copy matched by label asym, missing copies noticed, a biological
+ * assembly by assembly_id), and format()
+ * rendering of ligands, structure lists, binding sites, interactions, and pocket
+ * surveys. RCSB and SIFTS services and coordinate loading mocked.
  * @module tests/tools/track-ligands.tool.test
  */
 
-import { JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
+import { invalidParams, JsonRpcErrorCode } from '@cyanheads/mcp-ts-core/errors';
 import { createMockContext, getEnrichment } from '@cyanheads/mcp-ts-core/testing';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const findChemComps = vi.fn();
+const searchChemComps = vi.fn();
 const getChemComp = vi.fn();
 const countEntriesWithLigand = vi.fn();
 const searchByLigand = vi.fn();
 const getEntries = vi.fn();
 const getBindingSites = vi.fn();
+const searchByUniProt = vi.fn();
 vi.mock('@/services/rcsb/rcsb-service.js', () => ({
   getRcsbService: () => ({
     findChemComps,
+    searchChemComps,
     getChemComp,
     countEntriesWithLigand,
     searchByLigand,
     getEntries,
     getBindingSites,
+    searchByUniProt,
   }),
 }));
 
+const getEntryMapping = vi.fn();
+vi.mock('@/services/sifts/sifts-service.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/sifts/sifts-service.js')>();
+  return { ...actual, getSiftsService: () => ({ getEntryMapping }) };
+});
+
+const loadCoordinates = vi.fn();
+vi.mock('@/mcp-server/tools/definitions/_coordinates.js', () => ({
+  loadCoordinates: (...args: unknown[]) => loadCoordinates(...args),
+}));
+
 import { trackLigands } from '@/mcp-server/tools/definitions/track-ligands.tool.js';
 
 const ctx = () => createMockContext({ errors: trackLigands.errors });
@@ -138,6 +159,103 @@ describe('protein_track_ligands — find_ligand', () => {
   });
 });
 
+describe('protein_track_ligands — similar_ligand', () => {
+  const aspirin = 'CC(=O)Oc1ccccc1C(=O)O';
+
+  it('ranks components by similarity, breaking ties by deposition count', async () => {
+    searchChemComps.mockResolvedValue({
+      total: 40,
+      hits: [
+        { id: 'SAL', score: 0.71 },
+        { id: 'AIN', score: 1 },
+        { id: 'BZO', score: 0.71 },
+      ],
+    });
+    getChemComp.mockImplementation(async (id: string) => ({ compId: id }));
+    countEntriesWithLigand.mockImplementation(
+      async (id: string) => ({ AIN: 30, SAL: 120, BZO: 310 })[id] ?? 0,
+    );
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'similar_ligand', molecule: ` ${aspirin} `, limit: 3 }),
+      c,
+    );
+
+    expect(searchChemComps).toHaveBeenCalledWith(
+      aspirin,
+      { match: 'similarity', limit: 3 },
+      expect.anything(),
+    );
+    expect(out.ligands).toEqual([
+      { compId: 'AIN', depositionCount: 30, similarity: 1 },
+      { compId: 'BZO', depositionCount: 310, similarity: 0.71 },
+      { compId: 'SAL', depositionCount: 120, similarity: 0.71 },
+    ]);
+    expect(getEnrichment(c).totalCount).toBe(40);
+  });
+
+  it('ranks substructure matches by deposition count, without a similarity', async () => {
+    searchChemComps.mockResolvedValue({
+      total: 2,
+      hits: [
+        { id: 'AIN', score: 1 },
+        { id: 'BZO', score: 0.4 },
+      ],
+    });
+    getChemComp.mockImplementation(async (id: string) => ({ compId: id }));
+    countEntriesWithLigand.mockImplementation(
+      async (id: string) => ({ AIN: 30, BZO: 310 })[id] ?? 0,
+    );
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({
+        mode: 'similar_ligand',
+        molecule: 'c1ccccc1',
+        match: 'substructure',
+      }),
+      ctx(),
+    );
+    expect(searchChemComps).toHaveBeenCalledWith(
+      'c1ccccc1',
+      { match: 'substructure', limit: 25 },
+      expect.anything(),
+    );
+    expect(out.ligands).toEqual([
+      { compId: 'BZO', depositionCount: 310 },
+      { compId: 'AIN', depositionCount: 30 },
+    ]);
+  });
+
+  it('throws missing_param when molecule is missing', async () => {
+    await expect(
+      trackLigands.handler(trackLigands.input.parse({ mode: 'similar_ligand' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'missing_param' } });
+    expect(searchChemComps).not.toHaveBeenCalled();
+  });
+
+  it("maps RCSB's 400 for an unparseable molecule to invalid_molecule", async () => {
+    searchChemComps.mockRejectedValue(invalidParams('RCSB Search API returned HTTP 400.'));
+    await expect(
+      trackLigands.handler(
+        trackLigands.input.parse({ mode: 'similar_ligand', molecule: 'not((a smiles' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({
+      code: JsonRpcErrorCode.InvalidParams,
+      data: { reason: 'invalid_molecule' },
+    });
+  });
+
+  it('throws not_found when nothing resembles the molecule', async () => {
+    searchChemComps.mockResolvedValue({ total: 0, hits: [] });
+    await expect(
+      trackLigands.handler(
+        trackLigands.input.parse({ mode: 'similar_ligand', molecule: aspirin }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'not_found' } });
+  });
+});
+
 describe('protein_track_ligands — structures_with_ligand', () => {
   it('returns matching structures with resolution, records the total + resolved comp id', async () => {
     searchByLigand.mockResolvedValue({
@@ -285,6 +403,306 @@ describe('protein_track_ligands — binding_site', () => {
   });
 });
 
+describe('protein_track_ligands — binding_site interactions', () => {
+  const atom = (name: string, x: number, hetero = false) => ({
+    id: 1,
+    name,
+    element: name[0] as string,
+    hetero,
+    occupancy: 1,
+    bFactor: 0,
+    x,
+    y: 0,
+    z: 0,
+  });
+  /** LEU 30 (label 28) in chain A, with copies of ligand LIG 3.8 Å (label C) and 10 Å (label D) from its CD1. */
+  const structure = {
+    format: 'mmcif',
+    models: [
+      {
+        modelNumber: 1,
+        chains: [
+          {
+            id: 'A',
+            residues: [
+              {
+                compId: 'LEU',
+                authSeqId: 30,
+                labelSeqId: 28,
+                labelAsymId: 'A',
+                hetero: false,
+                atoms: [atom('CA', -3), atom('CG', -1.5), atom('CD1', 0)],
+              },
+              {
+                compId: 'LIG',
+                authSeqId: 201,
+                labelAsymId: 'D',
+                hetero: true,
+                atoms: [atom('C1', 10, true)],
+              },
+              {
+                compId: 'LIG',
+                authSeqId: 202,
+                labelAsymId: 'C',
+                hetero: true,
+                atoms: [atom('C1', 3.8, true)],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  const site = (label: string) => ({
+    ligandCompId: 'LIG',
+    ligandAsymId: 'A',
+    ligandLabelAsymId: label,
+    residues: [{ residueCompId: 'LEU', asymId: 'A', seqId: 28, distance: 3.8 }],
+  });
+
+  it('types contacts for the ligand copy named by its label asym ID', async () => {
+    getBindingSites.mockResolvedValue([site('C')]);
+    loadCoordinates.mockResolvedValue({ id: '1LIG', structure });
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'binding_site', pdb_id: '1lig', interactions: true }),
+      c,
+    );
+    expect(loadCoordinates).toHaveBeenCalledWith('1lig', expect.anything(), undefined);
+    expect(out.bindingSites?.[0]?.interactions).toEqual([
+      {
+        type: 'hydrophobic',
+        chain: 'A',
+        residue: 30,
+        residueCompId: 'LEU',
+        seqId: 28,
+        proteinAtoms: ['CD1'],
+        ligandAtoms: ['C1'],
+        distance: 3.8,
+      },
+    ]);
+    expect(getEnrichment(c).notice).toBeUndefined();
+  });
+
+  it('leaves a copy absent from the coordinates empty, with a notice', async () => {
+    getBindingSites.mockResolvedValue([site('C'), site('Z')]);
+    loadCoordinates.mockResolvedValue({ id: '1LIG', structure });
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'binding_site', pdb_id: '1LIG', interactions: true }),
+      c,
+    );
+    expect(out.bindingSites?.map((s) => s.interactions?.length)).toEqual([1, 0]);
+    expect(String(getEnrichment(c).notice)).toMatch(
+      /no coordinates found for LIG \(chain A, label Z\) in 1LIG/i,
+    );
+  });
+
+  it('types contacts in a biological assembly when assembly_id is set', async () => {
+    getBindingSites.mockResolvedValue([site('C')]);
+    loadCoordinates.mockResolvedValue({ id: '1LIG', assemblyId: '1', structure });
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({
+        mode: 'binding_site',
+        pdb_id: '1LIG',
+        interactions: true,
+        assembly_id: '1',
+      }),
+      ctx(),
+    );
+    expect(loadCoordinates).toHaveBeenCalledWith('1LIG', expect.anything(), '1');
+    expect(out.assemblyId).toBe('1');
+    expect(out.bindingSites?.[0]?.interactions).toHaveLength(1);
+    const text = (trackLigands.format!(out)[0] as { text: string }).text;
+    expect(text).toContain('**Interactions classified in assembly 1.**');
+  });
+
+  it('does not read coordinates unless asked', async () => {
+    getBindingSites.mockResolvedValue([site('C')]);
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'binding_site', pdb_id: '1LIG', assembly_id: '1' }),
+      c,
+    );
+    expect(loadCoordinates).not.toHaveBeenCalled();
+    expect(out.bindingSites?.[0]?.interactions).toBeUndefined();
+    expect(getEnrichment(c).notice).toContain('assembly_id only applies with interactions');
+  });
+});
+
+describe('protein_track_ligands — pocket_survey', () => {
+  /** SIFTS chain of P69905 on label asym `asymId`: label 1–141 ↔ UniProt 2–142. */
+  const alphaChain = (asymId: string) => ({
+    accession: 'P69905',
+    asymId,
+    chain: asymId,
+    entityId: '1',
+    segments: [
+      {
+        start: { labelSeqId: 1 },
+        end: { labelSeqId: 141 },
+        labelOffset: -1,
+        uniprotStart: 2,
+        uniprotEnd: 142,
+      },
+    ],
+  });
+  const site = (ligandCompId: string, residues: Array<[string, string, number]>) => ({
+    ligandCompId,
+    ligandAsymId: 'X',
+    residues: residues.map(([asymId, residueCompId, seqId]) => ({ asymId, residueCompId, seqId })),
+  });
+
+  it('tallies contacts per UniProt position, once per entry, on the accession’s chains only', async () => {
+    searchByUniProt.mockResolvedValue({ total: 2, hits: [{ id: '4HHB' }, { id: '2DN2' }] });
+    getBindingSites.mockImplementation(async (id: string) =>
+      id === '4HHB'
+        ? [
+            // Two copies of the α chain touch the same position — one entry, one count.
+            site('HEM', [
+              ['A', 'HIS', 87],
+              ['A', 'LEU', 86],
+            ]),
+            site('HEM', [['C', 'HIS', 87]]),
+            // Chain B is β globin — not P69905, dropped.
+            site('HEM', [['B', 'HIS', 92]]),
+          ]
+        : [site('CMO', [['A', 'HIS', 87]]), site('HEM', [['A', 'HIS', 58]])],
+    );
+    getEntryMapping.mockImplementation(async (id: string) => ({
+      pdbId: id,
+      chains: [alphaChain('A'), alphaChain('C'), { ...alphaChain('B'), accession: 'P68871' }],
+    }));
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'pocket_survey', uniprot: 'p69905' }),
+      c,
+    );
+    expect(searchByUniProt).toHaveBeenCalledWith('P69905', { limit: 25 }, expect.anything());
+    expect(out.pocketSurvey).toMatchObject({
+      accession: 'P69905',
+      entriesSurveyed: 2,
+      entriesWithContacts: 2,
+      failed: [],
+    });
+    expect(out.pocketSurvey?.residues).toEqual([
+      {
+        position: 88,
+        residueCompId: 'HIS',
+        entryCount: 2,
+        frequency: 1,
+        ligands: [
+          { compId: 'CMO', entryCount: 1 },
+          { compId: 'HEM', entryCount: 1 },
+        ],
+      },
+      {
+        position: 59,
+        residueCompId: 'HIS',
+        entryCount: 1,
+        frequency: 0.5,
+        ligands: [{ compId: 'HEM', entryCount: 1 }],
+      },
+      {
+        position: 87,
+        residueCompId: 'LEU',
+        entryCount: 1,
+        frequency: 0.5,
+        ligands: [{ compId: 'HEM', entryCount: 1 }],
+      },
+    ]);
+    expect(out.pocketSurvey?.entries).toEqual([
+      { id: '4HHB', ligands: ['HEM'], residueCount: 2 },
+      { id: '2DN2', ligands: ['CMO', 'HEM'], residueCount: 2 },
+    ]);
+    expect(getEnrichment(c)).toMatchObject({ totalCount: 2 });
+    expect(getEnrichment(c).notice).toBeUndefined();
+  });
+
+  it('filters by comp_id and notes the entries left unsurveyed', async () => {
+    searchByUniProt.mockResolvedValue({ total: 40, hits: [{ id: '4HHB' }] });
+    getBindingSites.mockResolvedValue([site('HEM', [['A', 'HIS', 87]])]);
+    getEntryMapping.mockResolvedValue({ pdbId: '4HHB', chains: [alphaChain('A')] });
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({
+        mode: 'pocket_survey',
+        uniprot: 'P69905',
+        comp_id: 'hem',
+        limit: 1,
+      }),
+      c,
+    );
+    expect(searchByUniProt).toHaveBeenCalledWith(
+      'P69905',
+      { compId: 'HEM', limit: 1 },
+      expect.anything(),
+    );
+    expect(getBindingSites).toHaveBeenCalledWith('4HHB', 'HEM', expect.anything());
+    expect(out.pocketSurvey?.compId).toBe('HEM');
+    expect(getEnrichment(c)).toMatchObject({ totalCount: 40, resolvedCompId: 'HEM' });
+    expect(String(getEnrichment(c).notice)).toMatch(/surveyed the 1 best-resolution of 40/i);
+  });
+
+  it('records an unreadable entry as failed without sinking the survey', async () => {
+    searchByUniProt.mockResolvedValue({ total: 2, hits: [{ id: '4HHB' }, { id: '9XYZ' }] });
+    getBindingSites.mockImplementation(async (id: string) => {
+      if (id === '9XYZ') throw new Error('RCSB GraphQL API returned HTTP 503.');
+      return [site('HEM', [['A', 'HIS', 87]])];
+    });
+    getEntryMapping.mockResolvedValue({ pdbId: '4HHB', chains: [alphaChain('A')] });
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'pocket_survey', uniprot: 'P69905' }),
+      c,
+    );
+    expect(out.pocketSurvey?.entriesSurveyed).toBe(1);
+    expect(out.pocketSurvey?.failed).toEqual([
+      { id: '9XYZ', reason: 'RCSB GraphQL API returned HTTP 503.' },
+    ]);
+    expect(String(getEnrichment(c).notice)).toMatch(/1 of 2 entries could not be read: 9XYZ/);
+  });
+
+  it('returns an empty tally with a notice when no contact maps to the protein', async () => {
+    searchByUniProt.mockResolvedValue({ total: 1, hits: [{ id: '4HHB' }] });
+    getBindingSites.mockResolvedValue([site('HEM', [['A', 'HIS', 87]])]);
+    getEntryMapping.mockResolvedValue({ pdbId: '4HHB', chains: [] });
+    const c = ctx();
+    const out = await trackLigands.handler(
+      trackLigands.input.parse({ mode: 'pocket_survey', uniprot: 'P69905' }),
+      c,
+    );
+    expect(out.pocketSurvey).toMatchObject({ entriesWithContacts: 0, residues: [] });
+    expect(String(getEnrichment(c).notice)).toMatch(/no ligand contacts a residue sifts maps/i);
+  });
+
+  it('throws missing_param without uniprot and invalid_accession for a malformed one', async () => {
+    await expect(
+      trackLigands.handler(trackLigands.input.parse({ mode: 'pocket_survey' }), ctx()),
+    ).rejects.toMatchObject({ data: { reason: 'missing_param' } });
+    await expect(
+      trackLigands.handler(
+        trackLigands.input.parse({ mode: 'pocket_survey', uniprot: '4HHB' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({
+      code: JsonRpcErrorCode.InvalidParams,
+      data: { reason: 'invalid_accession' },
+    });
+    expect(searchByUniProt).not.toHaveBeenCalled();
+  });
+
+  it('throws not_found when no entry of the protein holds the ligand', async () => {
+    searchByUniProt.mockResolvedValue({ total: 0, hits: [] });
+    await expect(
+      trackLigands.handler(
+        trackLigands.input.parse({ mode: 'pocket_survey', uniprot: 'P69905', comp_id: 'ATP' }),
+        ctx(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: 'not_found' } });
+  });
+});
+
 describe('protein_track_ligands — format', () => {
   it('renders ligand identifiers (SMILES/InChIKey), structure lists, and pocket residues', () => {
     const blocks = trackLigands.format!({
@@ -311,6 +729,14 @@ describe('protein_track_ligands — format', () => {
     expect(text).toContain('**InChIKey:** KTUFNOKKBVMGRW-UHFFFAOYSA-N');
   });
 
+  it('renders the similarity of a similar_ligand hit', () => {
+    const blocks = trackLigands.format!({
+      mode: 'similar_ligand',
+      ligands: [{ compId: 'AIN', depositionCount: 30, similarity: 0.875 }],
+    });
+    expect((blocks[0] as { text: string }).text).toContain('**Similarity:** 0.88');
+  });
+
   it('renders binding-site residues with positions and distances', () => {
     const blocks = trackLigands.format!({
       mode: 'binding_site',
@@ -331,6 +757,107 @@ describe('protein_track_ligands — format', () => {
     expect(text).toContain('- PHE (chain A)'); // no seqId, no distance
   });
 
+  it('renders an interaction table with its details, and an empty list as none', () => {
+    const blocks = trackLigands.format!({
+      mode: 'binding_site',
+      bindingSites: [
+        {
+          ligandCompId: 'HEM',
+          ligandAsymId: 'A',
+          ligandLabelAsymId: 'E',
+          residues: [],
+          interactions: [
+            {
+              type: 'hydrogen_bond',
+              chain: 'A',
+              residue: 87,
+              insCode: 'B',
+              residueCompId: 'HIS',
+              seqId: 87,
+              proteinAtoms: ['NE2'],
+              ligandAtoms: ['O1A'],
+              distance: 2.9,
+              donor: 'protein',
+            },
+            {
+              type: 'pi_stacking',
+              chain: 'A',
+              residue: 43,
+              residueCompId: 'PHE',
+              proteinAtoms: ['CG', 'CZ'],
+              ligandAtoms: ['C1', 'C4'],
+              distance: 4.1,
+              stacking: 'parallel',
+              angle: 12.3,
+            },
+            {
+              type: 'salt_bridge',
+              chain: 'A',
+              residue: 92,
+              residueCompId: 'LYS',
+              proteinAtoms: ['NZ'],
+              ligandAtoms: ['O1D', 'O2D'],
+              distance: 3.5,
+              positive: 'protein',
+            },
+          ],
+        },
+        { ligandCompId: 'HEM', ligandAsymId: 'B', residues: [], interactions: [] },
+      ],
+      fallbacks: [
+        {
+          data: 'cif file for 4HHB',
+          primary: 'RCSB PDB files',
+          provider: 'PDBe entry files',
+          reason: 'RCSB PDB files returned HTTP 503.',
+        },
+      ],
+    });
+    const text = (blocks[0] as { text: string }).text;
+    expect(text).toContain('### Ligand HEM (chain A, label E)');
+    expect(text).toContain('**Interactions (3):**');
+    expect(text).toContain(
+      '| hydrogen_bond | HIS87B (chain A, label 87) | NE2 | O1A | 2.90 Å | donor: protein |',
+    );
+    expect(text).toContain(
+      '| pi_stacking | PHE43 (chain A) | CG CZ | C1 C4 | 4.10 Å | parallel, angle 12° |',
+    );
+    expect(text).toContain('positive: protein');
+    expect(text).toContain('**Interactions:** none classified.');
+    expect(text).toContain('### Fallback providers');
+  });
+
+  it('renders a pocket survey table, its entries, and failures', () => {
+    const blocks = trackLigands.format!({
+      mode: 'pocket_survey',
+      pocketSurvey: {
+        accession: 'P69905',
+        compId: 'HEM',
+        entriesSurveyed: 2,
+        entriesWithContacts: 2,
+        residues: [
+          {
+            position: 88,
+            residueCompId: 'HIS',
+            entryCount: 2,
+            frequency: 1,
+            ligands: [{ compId: 'HEM', entryCount: 2 }],
+          },
+        ],
+        entries: [
+          { id: '4HHB', ligands: ['HEM'], residueCount: 1 },
+          { id: '2HHB', ligands: ['HEM'], residueCount: 1 },
+        ],
+        failed: [{ id: '9XYZ', reason: 'HTTP 503' }],
+      },
+    });
+    const text = (blocks[0] as { text: string }).text;
+    expect(text).toContain('### Pocket survey — P69905 with HEM');
+    expect(text).toContain('| 88 | HIS | 2 | 1.00 | HEM (2) |');
+    expect(text).toContain('- 4HHB: 1 residue — HEM');
+    expect(text).toContain('- 9XYZ: HTTP 503');
+  });
+
   it('renders a structures list with the comma-joined ids and per-entry resolution', () => {
     const blocks = trackLigands.format!({
       mode: 'structures_with_ligand',
@@ -26,6 +26,17 @@ export default mergeConfig(
             exclude: ['tests/smoke/**', 'tests/integration/**', 'tests/fuzz/**'],
           },
         },
+        // End-to-end tool calls against the in-process mock upstream
+        // (tests/integration/mock-upstream.ts) — no network.
+        {
+          extends: true,
+          test: {
+            name: 'integration',
+            include: ['tests/integration/**/*.test.ts'],
+            maxWorkers: 1,
+            testTimeout: 30_000,
+          },
+        },
         // Add more projects as your suite grows. Each inherits the framework's
         // base config (environment, pool, coverage) and can override freely.
         //
@@ -44,15 +55,6 @@ export default mergeConfig(
         //     testTimeout: 15_000,
         //   },
         // },
-        // {
-        //   extends: true,
-        //   test: {
-        //     name: 'integration',
-        //     include: ['tests/integration/**/*.test.ts'],
-        //     maxWorkers: 1,
-        //     testTimeout: 30_000,
-        //   },
-        // },
       ],
     },
   }),